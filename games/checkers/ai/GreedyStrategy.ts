@@ -0,0 +1,59 @@
+/**
+ * Greedy AI Strategy for Checkers
+ *
+ * Plays the move that leaves it with the best material right now: the capture
+ * taking the most pieces, a move that crowns a man, or the most advanced man.
+ * It does not look at the reply, so it walks into exchanges.
+ */
+
+import { AIStrategy } from '../../../src/domain/interfaces';
+import { GameState, Move } from '../../../src/domain/models';
+import { movePiece } from '../engine/rules';
+import { createPathMove, evaluateBoard, getBoard, getOrderedMoves, getPlayerColor } from './search';
+
+export class GreedyStrategy implements AIStrategy {
+  readonly id = 'greedy';
+  readonly name = 'Greedy';
+  readonly description = 'Grabs as much material as it can each move without looking ahead';
+  readonly difficulty = 'medium';
+
+  async generateMove(state: GameState, aiPlayerId: string): Promise<Move> {
+    const board = getBoard(state);
+    const color = getPlayerColor(state, aiPlayerId);
+
+    const moves = getOrderedMoves(board, color);
+    if (moves.length === 0) {
+      throw new Error('No valid moves available');
+    }
+
+    // Ties go to the earlier move, since the moves are ordered by captures and crowning
+    let best = moves[0];
+    let bestScore = -Infinity;
+    for (const move of moves) {
+      const score = evaluateBoard(movePiece(board, move).board, color);
+      if (score > bestScore) {
+        bestScore = score;
+        best = move;
+      }
+    }
+
+    return createPathMove(best);
+  }
+
+  /**
+   * Get the maximum time this strategy should take to generate a move
+   * @returns 100ms - evaluating each move once is very fast
+   */
+  getTimeLimit(): number {
+    return 100;
+  }
+
+  /**
+   * Validate configuration (no special configuration needed for this strategy)
+   * @param config Configuration to validate
+   * @returns Always true as no configuration is required
+   */
+  validateConfiguration(_config: Record<string, any>): boolean {
+    return true;
+  }
+}
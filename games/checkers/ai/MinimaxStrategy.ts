@@ -0,0 +1,100 @@
+/**
+ * Minimax AI Strategy for Checkers
+ *
+ * Searches the game tree with iterative deepening alpha-beta pruning and scores
+ * leaf positions by material and advancement. The search depth comes from the
+ * AI player's `configuration.depth`, or from its difficulty:
+ * easy = 2, medium = 4, hard = 8 plies.
+ * The search stops early when the time limit is about to run out and plays the
+ * best move from the deepest completed depth.
+ */
+
+import { AIStrategy } from '../../../src/domain/interfaces';
+import { GameState, Move } from '../../../src/domain/models';
+import { createPathMove, getBoard, getPlayerColor, searchBestMove } from './search';
+
+/**
+ * Search depth in plies for each difficulty
+ */
+export const DIFFICULTY_DEPTHS: Record<string, number> = {
+  easy: 2,
+  medium: 4,
+  hard: 8,
+};
+
+/**
+ * Largest depth that can be configured; deeper searches would not finish within the time limit
+ */
+export const MAX_SEARCH_DEPTH = 20;
+
+/**
+ * Share of the time limit the search may use, leaving room to return the move
+ */
+const SEARCH_TIME_FRACTION = 0.8;
+
+export class MinimaxStrategy implements AIStrategy {
+  readonly id = 'minimax';
+  readonly name = 'Minimax';
+  readonly description =
+    'Looks several moves ahead with alpha-beta search; difficulty sets how far';
+  readonly difficulty = 'hard';
+
+  /**
+   * @param timeLimit Maximum time per move in milliseconds
+   */
+  constructor(private readonly timeLimit: number = 2000) {}
+
+  async generateMove(state: GameState, aiPlayerId: string): Promise<Move> {
+    const { move } = searchBestMove(
+      getBoard(state),
+      getPlayerColor(state, aiPlayerId),
+      this.getSearchDepth(state, aiPlayerId),
+      this.timeLimit * SEARCH_TIME_FRACTION
+    );
+
+    return createPathMove(move);
+  }
+
+  /**
+   * Get the search depth for an AI player
+   * Uses the player's configured depth, then its difficulty, then this strategy's difficulty.
+   * @param state Current game state
+   * @param aiPlayerId ID of the AI player
+   * @returns Depth in plies
+   */
+  getSearchDepth(state: GameState, aiPlayerId: string): number {
+    const metadata = state.players.find((p) => p.id === aiPlayerId)?.metadata;
+    const configuredDepth = metadata?.configuration?.depth;
+    if (this.isValidDepth(configuredDepth)) {
+      return configuredDepth;
+    }
+
+    return DIFFICULTY_DEPTHS[metadata?.difficulty] ?? DIFFICULTY_DEPTHS[this.difficulty];
+  }
+
+  /**
+   * Get the maximum time this strategy should take to generate a move
+   * @returns The configured time limit (2000ms by default)
+   */
+  getTimeLimit(): number {
+    return this.timeLimit;
+  }
+
+  /**
+   * Validate configuration
+   * @param config Configuration to validate; `depth` must be an integer from 1 to 20
+   * @returns true if the configuration is valid
+   */
+  validateConfiguration(config: Record<string, any>): boolean {
+    return config.depth === undefined || this.isValidDepth(config.depth);
+  }
+
+  private isValidDepth(depth: unknown): depth is number {
+    return (
+      typeof depth === 'number' &&
+      Number.isInteger(depth) &&
+      depth >= 1 &&
+      depth <= MAX_SEARCH_DEPTH
+    );
+  }
+}
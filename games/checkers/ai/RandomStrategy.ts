@@ -0,0 +1,45 @@
+/**
+ * Random AI Strategy for Checkers
+ *
+ * Plays a random legal move. Captures are still mandatory, so it always takes
+ * a capture when one is available, but picks among them at random.
+ * Provides an easy opponent for beginners.
+ */
+
+import { AIStrategy } from '../../../src/domain/interfaces';
+import { GameState, Move } from '../../../src/domain/models';
+import { getLegalMoves } from '../shared/board';
+import { createPathMove, getBoard, getPlayerColor } from './search';
+
+export class RandomStrategy implements AIStrategy {
+  readonly id = 'random';
+  readonly name = 'Random';
+  readonly description = 'Plays random legal moves - perfect for beginners';
+  readonly difficulty = 'easy';
+
+  async generateMove(state: GameState, aiPlayerId: string): Promise<Move> {
+    const moves = getLegalMoves(getBoard(state), getPlayerColor(state, aiPlayerId));
+    if (moves.length === 0) {
+      throw new Error('No valid moves available');
+    }
+
+    return createPathMove(moves[Math.floor(Math.random() * moves.length)]);
+  }
+
+  /**
+   * Get the maximum time this strategy should take to generate a move
+   * @returns 100ms - should be very fast for random selection
+   */
+  getTimeLimit(): number {
+    return 100;
+  }
+
+  /**
+   * Validate configuration (no special configuration needed for this strategy)
+   * @param config Configuration to validate
+   * @returns Always true as no configuration is required
+   */
+  validateConfiguration(_config: Record<string, any>): boolean {
+    return true;
+  }
+}
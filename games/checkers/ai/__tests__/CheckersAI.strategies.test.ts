@@ -0,0 +1,207 @@
+import { GreedyStrategy, MinimaxStrategy, RandomStrategy } from '../index';
+import { evaluateBoard, getOrderedMoves, searchBestMove, WIN_SCORE } from '../search';
+import { CheckersEngine } from '../../engine/CheckersEngine';
+import { CellState, CheckersMetadata } from '../../shared/types';
+import { countPieces, getPositionKey } from '../../shared/board';
+import { createInitialBoard } from '../../engine/initialization';
+import { GameState, Player } from '../../../../src/domain/models';
+
+/**
+ * Builds a board from rows written top to bottom
+ * b/w = black/white man, B/W = black/white king, . = empty
+ */
+function parseBoard(rows: string[]): CellState[][] {
+  return rows.map((row) =>
+    row.split('').map((cell) => {
+      if (cell === '.') return null;
+      return {
+        color: cell.toLowerCase() === 'b' ? 'black' : 'white',
+        king: cell === cell.toUpperCase(),
+      };
+    })
+  );
+}
+
+describe('Checkers AI Strategies', () => {
+  const engine = new CheckersEngine();
+
+  const createPlayers = (aiMetadata?: Record<string, any>): Player[] => [
+    { id: 'black-player', name: 'Black', joinedAt: new Date(), metadata: aiMetadata },
+    { id: 'white-player', name: 'White', joinedAt: new Date() },
+  ];
+
+  function createState(
+    rows: string[],
+    aiMetadata?: Record<string, any>
+  ): GameState<CheckersMetadata> {
+    const state = engine.initializeGame(createPlayers(aiMetadata), {});
+    const board = parseBoard(rows);
+    return {
+      ...state,
+      metadata: {
+        board,
+        pieceCounts: countPieces(board),
+        movesSinceProgress: 0,
+        positionHistory: [getPositionKey(board, 'black')],
+      },
+    };
+  }
+
+  // Black's man may step to (4, 1), where the white man on (3, 0) captures it, or safely to (4, 3)
+  const hangingStep = [
+    '........',
+    '........',
+    '........',
+    'w.......',
+    '........',
+    '..b.....',
+    '........',
+    '........',
+  ];
+
+  // Black can capture two men with the man on (6, 1) or one with the man on (6, 5)
+  const doubleOrSingle = [
+    '........',
+    '........',
+    '........',
+    '....w...',
+    '........',
+    '..w...w.',
+    '.b...b..',
+    '........',
+  ];
+
+  describe('search helpers', () => {
+    it('should order longer captures first', () => {
+      const moves = getOrderedMoves(parseBoard(doubleOrSingle), 'black');
+
+      expect(moves.map((m) => m.captured.length)).toEqual([2, 1]);
+    });
+
+    it('should evaluate positions symmetrically', () => {
+      const board = parseBoard(doubleOrSingle);
+
+      expect(evaluateBoard(createInitialBoard(), 'black')).toBe(0);
+      expect(evaluateBoard(board, 'black')).toBe(-evaluateBoard(board, 'white'));
+    });
+
+    it('should find a move that leaves the opponent without a move', () => {
+      // The king stepping to (7, 6) blocks the last white man
+      const board = parseBoard([
+        '........',
+        '........',
+        '........',
+        '........',
+        '........',
+        '........',
+        '.....B.w',
+        '........',
+      ]);
+
+      const result = searchBestMove(board, 'black', 4, 1000);
+
+      expect(result.move.path).toEqual([
+        { row: 6, col: 5 },
+        { row: 7, col: 6 },
+      ]);
+      expect(result.score).toBeGreaterThan(WIN_SCORE / 2);
+    });
+
+    it('should stop deepening when the time budget runs out', () => {
+      const result = searchBestMove(createInitialBoard(), 'black', 20, 50);
+
+      expect(result.depth).toBeGreaterThanOrEqual(1);
+      expect(result.depth).toBeLessThan(20);
+    });
+
+    it('should refuse to search without a legal move', () => {
+      expect(() => searchBestMove(parseBoard(Array(8).fill('........')), 'white', 2, 100)).toThrow(
+        'No valid moves available'
+      );
+    });
+  });
+
+  describe('RandomStrategy', () => {
+    it('should take a capture when one is available', async () => {
+      const move = await new RandomStrategy().generateMove(
+        createState(doubleOrSingle),
+        'black-player'
+      );
+
+      expect(engine.validateMove(createState(doubleOrSingle), 'black-player', move).valid).toBe(
+        true
+      );
+    });
+  });
+
+  describe('GreedyStrategy', () => {
+    it('should capture the most pieces', async () => {
+      const move = await new GreedyStrategy().generateMove(
+        createState(doubleOrSingle),
+        'black-player'
+      );
+
+      expect(move).toMatchObject({
+        action: 'move',
+        parameters: {
+          path: [
+            { row: 6, col: 1 },
+            { row: 4, col: 3 },
+            { row: 2, col: 5 },
+          ],
+        },
+      });
+    });
+
+    it('should not look at the reply', async () => {
+      const move = await new GreedyStrategy().generateMove(
+        createState(hangingStep),
+        'black-player'
+      );
+
+      expect(move.parameters.path[1]).toEqual({ row: 4, col: 1 });
+    });
+  });
+
+  describe('MinimaxStrategy', () => {
+    it('should map difficulty and configuration to a search depth', () => {
+      const strategy = new MinimaxStrategy();
+      const depthFor = (metadata?: Record<string, any>) =>
+        strategy.getSearchDepth(createState(hangingStep, metadata), 'black-player');
+
+      expect(depthFor()).toBe(8);
+      expect(depthFor({ difficulty: 'easy' })).toBe(2);
+      expect(depthFor({ difficulty: 'medium', configuration: { depth: 3 } })).toBe(3);
+      expect(depthFor({ configuration: { depth: 0 } })).toBe(8);
+      expect(strategy.validateConfiguration({ depth: 21 })).toBe(false);
+      expect(strategy.validateConfiguration({})).toBe(true);
+    });
+
+    it('should not leave a piece to be captured', async () => {
+      const move = await new MinimaxStrategy().generateMove(
+        createState(hangingStep, { difficulty: 'easy' }),
+        'black-player'
+      );
+
+      expect(move.parameters.path[1]).toEqual({ row: 4, col: 3 });
+    });
+
+    it('should play only legal moves and beat the greedy strategy', async () => {
+      const minimax = new MinimaxStrategy();
+      const greedy = new GreedyStrategy();
+      let state = engine.initializeGame(createPlayers({ difficulty: 'medium' }), {});
+
+      while (!engine.isGameOver(state)) {
+        const playerId = engine.getCurrentPlayer(state);
+        const move = await (playerId === 'black-player' ? minimax : greedy).generateMove(
+          state,
+          playerId
+        );
+        expect(engine.validateMove(state, playerId, move).valid).toBe(true);
+        state = engine.applyMove(state, playerId, move);
+      }
+
+      expect(engine.getWinner(state)).toBe('black-player');
+    });
+  });
+});
@@ -0,0 +1,15 @@
+/**
+ * Checkers AI Strategies
+ *
+ * This module exports all AI strategies available for Checkers games.
+ * Each strategy implements the AIStrategy interface, from random play
+ * to an alpha-beta search.
+ */
+
+export { RandomStrategy } from './RandomStrategy';
+export { GreedyStrategy } from './GreedyStrategy';
+export { MinimaxStrategy, DIFFICULTY_DEPTHS, MAX_SEARCH_DEPTH } from './MinimaxStrategy';
+export * from './search';
+
+// Re-export types for convenience
+export type { AIStrategy } from '../../../src/domain/interfaces';
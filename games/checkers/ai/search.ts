@@ -0,0 +1,222 @@
+/**
+ * Checkers AI search module
+ * Board evaluation and a time-limited alpha-beta search shared by the AI strategies.
+ * Moves come from the shared move generator, so the AI always plays complete,
+ * mandatory captures just as the engine requires. A side with no legal move has lost.
+ */
+
+import { GameState, Move } from '../../../src/domain/models';
+import { CellState, CheckersMetadata, LegalMove, PlayerColor } from '../shared/types';
+import { FORWARD } from '../shared/constants';
+import { getLegalMoves, getOpponentColor, hasLegalMove } from '../shared/board';
+import { movePiece } from '../engine/rules';
+import { assignPlayerColors } from '../engine/initialization';
+
+/**
+ * Score of a won position; sooner wins score higher
+ */
+export const WIN_SCORE = 1_000_000;
+
+/**
+ * Material values
+ */
+export const MAN_VALUE = 100;
+export const KING_VALUE = 160;
+
+/**
+ * Points per row a man has advanced from its own back row
+ */
+const ADVANCEMENT_WEIGHT = 3;
+
+/**
+ * How often (in visited nodes) the search checks its deadline
+ */
+const DEADLINE_CHECK_INTERVAL = 1024;
+
+/**
+ * Result of a search
+ */
+export interface SearchResult {
+  move: LegalMove;
+  score: number;
+  /** Deepest fully searched depth */
+  depth: number;
+}
+
+class SearchTimeout extends Error {}
+
+/**
+ * Gets the color an AI player plays with
+ * @param state - Current game state
+ * @param aiPlayerId - ID of the AI player
+ * @returns The AI player's color
+ * @throws Error if the player is not in the game
+ */
+export function getPlayerColor(state: GameState, aiPlayerId: string): PlayerColor {
+  const color = assignPlayerColors(state.players).get(aiPlayerId);
+  if (!color) {
+    throw new Error(`Player ${aiPlayerId} not found in game`);
+  }
+  return color;
+}
+
+/**
+ * Gets the board from a checkers game state
+ */
+export function getBoard(state: GameState): CellState[][] {
+  return (state as GameState<CheckersMetadata>).metadata.board;
+}
+
+/**
+ * Evaluates a position from one player's point of view
+ * Counts material, with kings worth more than men, and rewards men for advancing
+ * towards the crowning row. The score is symmetric: evaluating for the opponent
+ * gives the negated value.
+ * @param board - Current board state
+ * @param color - Player to evaluate for
+ * @returns Positive when the position favours `color`
+ */
+export function evaluateBoard(board: CellState[][], color: PlayerColor): number {
+  let score = 0;
+  for (let row = 0; row < board.length; row++) {
+    for (let col = 0; col < board[row].length; col++) {
+      const piece = board[row][col];
+      if (!piece) {
+        continue;
+      }
+
+      const backRow = FORWARD[piece.color] < 0 ? board.length - 1 : 0;
+      const value = piece.king
+        ? KING_VALUE
+        : MAN_VALUE + ADVANCEMENT_WEIGHT * Math.abs(row - backRow);
+      score += piece.color === color ? value : -value;
+    }
+  }
+  return score;
+}
+
+/**
+ * Lists a color's legal moves, most promising first
+ * Longer captures are searched first, then moves that crown a man, which prunes more.
+ * @param board - Current board state
+ * @param color - Color to move
+ * @returns Legal moves ordered by captures and crowning
+ */
+export function getOrderedMoves(board: CellState[][], color: PlayerColor): LegalMove[] {
+  const crowns = (move: LegalMove) => (movePiece(board, move).promoted ? 1 : 0);
+  return getLegalMoves(board, color).sort(
+    (a, b) => b.captured.length - a.captured.length || crowns(b) - crowns(a)
+  );
+}
+
+/**
+ * Searches for the best move with iterative deepening alpha-beta (negamax)
+ * Each depth is searched in full before the next one starts, and the best move of
+ * the last finished depth is searched first. When the time budget runs out the
+ * unfinished depth is discarded, so the result always comes from a complete search.
+ * Draws by repetition are not searched; the evaluation keeps the AI making progress.
+ * @param board - Current board state
+ * @param color - Color to move
+ * @param maxDepth - Deepest search in plies
+ * @param timeBudgetMs - Time the search may take
+ * @returns The best move found
+ * @throws Error if the color has no legal move
+ */
+export function searchBestMove(
+  board: CellState[][],
+  color: PlayerColor,
+  maxDepth: number,
+  timeBudgetMs: number
+): SearchResult {
+  const moves = getOrderedMoves(board, color);
+  if (moves.length === 0) {
+    throw new Error('No valid moves available');
+  }
+
+  const deadline = Date.now() + timeBudgetMs;
+  let nodes = 0;
+
+  const negamax = (
+    node: CellState[][],
+    toMove: PlayerColor,
+    depth: number,
+    ply: number,
+    alpha: number,
+    beta: number
+  ): number => {
+    if (++nodes % DEADLINE_CHECK_INTERVAL === 0 && Date.now() > deadline) {
+      throw new SearchTimeout();
+    }
+
+    if (depth === 0) {
+      return hasLegalMove(node, toMove) ? evaluateBoard(node, toMove) : -WIN_SCORE + ply;
+    }
+
+    const candidates = getOrderedMoves(node, toMove);
+    if (candidates.length === 0) {
+      // Losing later is better than losing sooner
+      return -WIN_SCORE + ply;
+    }
+
+    let best = -Infinity;
+    for (const candidate of candidates) {
+      const { board: next } = movePiece(node, candidate);
+      const score = -negamax(next, getOpponentColor(toMove), depth - 1, ply + 1, -beta, -alpha);
+
+      if (score > best) best = score;
+      if (best > alpha) alpha = best;
+      if (alpha >= beta) break;
+    }
+    return best;
+  };
+
+  let result: SearchResult = { move: moves[0], score: 0, depth: 0 };
+
+  for (let depth = 1; depth <= maxDepth; depth++) {
+    const ordered = [result.move, ...moves.filter((m) => m !== result.move)];
+    let bestMove = ordered[0];
+    let bestScore = -Infinity;
+    let alpha = -Infinity;
+
+    try {
+      for (const candidate of ordered) {
+        const { board: next } = movePiece(board, candidate);
+        const score = -negamax(next, getOpponentColor(color), depth - 1, 1, -Infinity, -alpha);
+
+        if (score > bestScore) {
+          bestScore = score;
+          bestMove = candidate;
+        }
+        if (bestScore > alpha) alpha = bestScore;
+      }
+    } catch (error) {
+      if (error instanceof SearchTimeout) {
+        break;
+      }
+      throw error;
+    }
+
+    result = { move: bestMove, score: bestScore, depth };
+
+    // A forced win or loss was found; more depth will not change the result
+    if (Math.abs(bestScore) > WIN_SCORE / 2) {
+      break;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Creates a move along a path
+ * @param move - Legal move to play
+ * @returns Move object; the player ID is set by the calling service
+ */
+export function createPathMove(move: LegalMove): Move {
+  return {
+    playerId: '', // Will be set by the calling service
+    action: 'move',
+    parameters: { path: move.path.map(({ row, col }) => ({ row, col })) },
+    timestamp: new Date(),
+  };
+}
@@ -0,0 +1,171 @@
+/**
+ * Checkers Game Engine
+ *
+ * Main engine class that orchestrates all game modules and implements
+ * the BaseGameEngine interface, delegating to specialized modules.
+ */
+
+import { BaseGameEngine, AICapableGamePlugin, AIStrategy } from '../../../src/domain/interfaces';
+import { GameState, Player, Move } from '../../../src/domain/models';
+import { GameConfig, ValidationResult, BoardRenderData } from '../../../src/domain/interfaces';
+import { AIPlayer } from '../../../src/domain/models/AIPlayer';
+import { CheckersMetadata, CheckersMove } from '../shared/types';
+
+// Import all module functions
+import * as metadata from './metadata';
+import * as initialization from './initialization';
+import * as validation from './validation';
+import * as rules from './rules';
+import * as renderer from './renderer';
+
+// Import AI strategies
+import { GreedyStrategy, MinimaxStrategy, RandomStrategy } from '../ai';
+
+/**
+ * Checkers game engine implementation
+ *
+ * This class acts as a facade, providing a clean interface to the game
+ * while delegating to specialized modules for specific functionality.
+ * Also implements AI capabilities through the AICapableGamePlugin interface.
+ */
+export class CheckersEngine extends BaseGameEngine implements AICapableGamePlugin {
+  private aiStrategies: AIStrategy[];
+  private defaultStrategy: AIStrategy;
+
+  constructor() {
+    super();
+    this.aiStrategies = [new MinimaxStrategy(), new GreedyStrategy(), new RandomStrategy()];
+    this.defaultStrategy = this.aiStrategies[0]; // Minimax as default
+  }
+
+  // ===== Private Helper Methods =====
+
+  /**
+   * Generates a unique game ID
+   * @param config - Game configuration that may contain a custom game ID
+   * @returns A unique game ID
+   */
+  private generateGameId(config: GameConfig): string {
+    return (
+      config.customSettings?.gameId ||
+      `checkers-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`
+    );
+  }
+
+  // ===== Metadata Methods =====
+
+  getGameType(): string {
+    return metadata.getGameType();
+  }
+
+  getMinPlayers(): number {
+    return metadata.getMinPlayers();
+  }
+
+  getMaxPlayers(): number {
+    return metadata.getMaxPlayers();
+  }
+
+  getDescription(): string {
+    return metadata.getDescription();
+  }
+
+  // ===== Game Initialization =====
+
+  initializeGame(players: Player[], config: GameConfig): GameState<CheckersMetadata> {
+    return initialization.initializeGame(this.generateGameId(config), players);
+  }
+
+  // ===== Move Validation =====
+
+  validateMove(state: GameState<CheckersMetadata>, playerId: string, move: Move): ValidationResult {
+    const result = validation.validateMove(state, playerId, move as CheckersMove);
+
+    return {
+      valid: result.valid,
+      reason: result.error,
+    };
+  }
+
+  // ===== Game Rules and State Transitions =====
+
+  applyMove(
+    state: GameState<CheckersMetadata>,
+    playerId: string,
+    move: Move
+  ): GameState<CheckersMetadata> {
+    const checkersMove: CheckersMove = {
+      ...(move as CheckersMove),
+      playerId,
+    };
+
+    return rules.applyMove(state, checkersMove);
+  }
+
+  isGameOver(state: GameState<CheckersMetadata>): boolean {
+    return rules.isGameOver(state);
+  }
+
+  getWinner(state: GameState<CheckersMetadata>): string | null {
+    return rules.getWinner(state);
+  }
+
+  // ===== Board Rendering =====
+
+  renderBoard(state: GameState<CheckersMetadata>): BoardRenderData {
+    return renderer.renderBoard(state);
+  }
+
+  // ===== AI Capabilities =====
+
+  /**
+   * Check if this game plugin supports AI players
+   * @returns true - Checkers supports AI players
+   */
+  supportsAI(): boolean {
+    return true;
+  }
+
+  /**
+   * Get available AI strategies for Checkers
+   * @returns Array of available AI strategies
+   */
+  getAIStrategies(): AIStrategy[] {
+    return [...this.aiStrategies];
+  }
+
+  /**
+   * Get default AI strategy for Checkers
+   * @returns Default AI strategy (Minimax)
+   */
+  getDefaultAIStrategy(): AIStrategy {
+    return this.defaultStrategy;
+  }
+
+  /**
+   * Create an AI player for Checkers
+   * The minimax strategy searches deeper for harder difficulties.
+   * @param name Display name for the AI player
+   * @param strategyId ID of the strategy to use (optional, uses default if not provided)
+   * @param difficulty Optional difficulty level
+   * @returns AI player configuration
+   */
+  createAIPlayer(name: string, strategyId?: string, difficulty?: string): AIPlayer {
+    let strategy = this.defaultStrategy;
+    if (strategyId) {
+      const foundStrategy = this.aiStrategies.find((s) => s.id === strategyId);
+      if (!foundStrategy) {
+        throw new Error(`AI strategy '${strategyId}' not found for Checkers`);
+      }
+      strategy = foundStrategy;
+    }
+
+    return new AIPlayer(
+      `ai-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`,
+      name,
+      this.getGameType(),
+      strategy.id,
+      difficulty || strategy.difficulty
+    );
+  }
+}
@@ -0,0 +1,203 @@
+/**
+ * Checkers engine tests
+ * Tests the engine facade: metadata, initialization, validation, rendering and AI players
+ */
+
+import { GameLifecycle, Move, Player } from '../../../../src/domain/models';
+import { CheckersEngine } from '../CheckersEngine';
+import { GAME_TYPE, MAX_PLAYERS, MIN_PLAYERS } from '../../shared/constants';
+
+describe('CheckersEngine', () => {
+  const engine = new CheckersEngine();
+  const players: Player[] = [
+    { id: 'alice', name: 'Alice', joinedAt: new Date() },
+    { id: 'bob', name: 'Bob', joinedAt: new Date() },
+  ];
+
+  function move(path: unknown, action = 'move'): Move {
+    return { playerId: '', timestamp: new Date(), action, parameters: { path } };
+  }
+
+  describe('metadata', () => {
+    it('should describe a two-player game', () => {
+      expect(engine.getGameType()).toBe(GAME_TYPE);
+      expect(engine.getMinPlayers()).toBe(MIN_PLAYERS);
+      expect(engine.getMaxPlayers()).toBe(MAX_PLAYERS);
+      expect(engine.getDescription()).toContain('Checkers');
+    });
+  });
+
+  describe('initializeGame', () => {
+    it('should set up both sides with black to move', () => {
+      const state = engine.initializeGame(players, { customSettings: { gameId: 'game-1' } });
+
+      expect(state.gameId).toBe('game-1');
+      expect(state.gameType).toBe('checkers');
+      expect(state.lifecycle).toBe(GameLifecycle.ACTIVE);
+      expect(state.currentPlayerIndex).toBe(0);
+      expect(state.metadata.pieceCounts).toEqual({ black: 12, white: 12 });
+      expect(state.metadata.movesSinceProgress).toBe(0);
+      expect(state.metadata.positionHistory).toHaveLength(1);
+    });
+  });
+
+  describe('validateMove', () => {
+    const state = engine.initializeGame(players, {});
+
+    it('should accept a move along a legal path', () => {
+      expect(
+        engine.validateMove(
+          state,
+          'alice',
+          move([
+            { row: 5, col: 0 },
+            { row: 4, col: 1 },
+          ])
+        )
+      ).toEqual({ valid: true, reason: undefined });
+    });
+
+    it.each([
+      [
+        'bob',
+        move([
+          { row: 2, col: 1 },
+          { row: 3, col: 0 },
+        ]),
+        'It is not your turn',
+      ],
+      [
+        'alice',
+        move(
+          [
+            { row: 5, col: 0 },
+            { row: 4, col: 1 },
+          ],
+          'jump'
+        ),
+        "Unknown action 'jump'; checkers moves use 'move'",
+      ],
+      [
+        'alice',
+        move([{ row: 5, col: 0 }]),
+        'Path must list at least two squares, each with an integer row and col between 0 and 7',
+      ],
+      [
+        'alice',
+        move([
+          { row: 5, col: 0 },
+          { row: 4, col: 8 },
+        ]),
+        'Path must list at least two squares, each with an integer row and col between 0 and 7',
+      ],
+      [
+        'alice',
+        move([
+          { row: 2, col: 1 },
+          { row: 3, col: 0 },
+        ]),
+        'There is no piece of yours on (2, 1)',
+      ],
+      [
+        'alice',
+        move([
+          { row: 6, col: 1 },
+          { row: 5, col: 2 },
+        ]),
+        'The path from (6, 1) is not a legal move for that piece',
+      ],
+      [
+        'alice',
+        move([
+          { row: 5, col: 0 },
+          { row: 6, col: 1 },
+        ]),
+        'The path from (5, 0) is not a legal move for that piece',
+      ],
+    ])('should reject a move by %s: %#', (playerId, invalidMove, reason) => {
+      expect(engine.validateMove(state, playerId, invalidMove)).toEqual({ valid: false, reason });
+    });
+  });
+
+  describe('applyMove', () => {
+    it('should move the piece for the given player and pass the turn', () => {
+      const state = engine.initializeGame(players, {});
+      const result = engine.applyMove(
+        state,
+        'alice',
+        move([
+          { row: 5, col: 2 },
+          { row: 4, col: 3 },
+        ])
+      );
+
+      expect(result.metadata.board[4][3]).toEqual({ color: 'black', king: false });
+      expect(result.metadata.board[5][2]).toBeNull();
+      expect(result.metadata.lastMove?.player).toBe('alice');
+      expect(result.moveHistory[0].playerId).toBe('alice');
+      expect(result.currentPlayerIndex).toBe(1);
+      expect(result.version).toBe(state.version + 1);
+      expect(engine.isGameOver(result)).toBe(false);
+    });
+  });
+
+  describe('renderBoard', () => {
+    it('should render the board, pieces and the pieces able to move', () => {
+      const render = engine.renderBoard(engine.initializeGame(players, {}));
+
+      expect(render.viewBox).toEqual({ width: 480, height: 480 });
+      expect(render.layers.map((layer) => layer.name)).toEqual(['board', 'pieces', 'move-hints']);
+      expect(render.layers[0].elements).toHaveLength(64);
+      expect(render.layers[1].elements).toHaveLength(24);
+      expect(render.layers[2].elements).toHaveLength(4);
+    });
+
+    it('should trace the last move and crown kings', () => {
+      const state = engine.initializeGame(players, {});
+      const moved = engine.applyMove(
+        state,
+        'alice',
+        move([
+          { row: 5, col: 2 },
+          { row: 4, col: 3 },
+        ])
+      );
+      moved.metadata.board[7][0] = { color: 'white', king: true };
+
+      const render = engine.renderBoard(moved);
+      const lastMove = render.layers.find((layer) => layer.name === 'last-move');
+      const pieces = render.layers.find((layer) => layer.name === 'pieces');
+
+      expect(lastMove?.elements).toEqual([
+        expect.objectContaining({
+          type: 'path',
+          attributes: expect.objectContaining({ d: 'M 150 330 L 210 270' }),
+        }),
+      ]);
+      expect(pieces?.elements).toHaveLength(25);
+    });
+  });
+
+  describe('AI support', () => {
+    it('should offer strategies with minimax as the default', () => {
+      expect(engine.supportsAI()).toBe(true);
+      expect(engine.getAIStrategies().map((s) => s.id)).toEqual(['minimax', 'greedy', 'random']);
+      expect(engine.getDefaultAIStrategy().id).toBe('minimax');
+    });
+
+    it('should create AI players with the chosen strategy', () => {
+      const aiPlayer = engine.createAIPlayer('Bot', 'greedy');
+
+      expect(aiPlayer.name).toBe('Bot');
+      expect(aiPlayer.gameType).toBe('checkers');
+      expect(aiPlayer.strategyId).toBe('greedy');
+      expect(aiPlayer.difficulty).toBe('medium');
+    });
+
+    it('should reject unknown strategies', () => {
+      expect(() => engine.createAIPlayer('Bot', 'unknown')).toThrow(
+        "AI strategy 'unknown' not found for Checkers"
+      );
+    });
+  });
+});
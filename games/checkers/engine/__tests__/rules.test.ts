@@ -0,0 +1,353 @@
+/**
+ * Checkers rules module tests
+ * Tests mandatory captures, multi-jump paths, crowning, draws and the end of the game
+ */
+
+import { GameLifecycle, GameState, Player } from '../../../../src/domain/models';
+import { CellState, CheckersMetadata, CheckersMove, Position } from '../../shared/types';
+import { countPieces, getLegalMoves, getPositionKey } from '../../shared/board';
+import { createInitialBoard, initializeGame } from '../initialization';
+import { validateMove } from '../validation';
+import { applyMove, getWinner, isGameOver } from '../rules';
+
+/**
+ * Builds a board from rows written top to bottom
+ * b/w = black/white man, B/W = black/white king, . = empty
+ */
+function parseBoard(rows: string[]): CellState[][] {
+  return rows.map((row) =>
+    row.split('').map((cell) => {
+      if (cell === '.') return null;
+      return {
+        color: cell.toLowerCase() === 'b' ? 'black' : 'white',
+        king: cell === cell.toUpperCase(),
+      };
+    })
+  );
+}
+
+describe('Rules Module', () => {
+  const players: Player[] = [
+    { id: 'black-player', name: 'Black', joinedAt: new Date() },
+    { id: 'white-player', name: 'White', joinedAt: new Date() },
+  ];
+
+  function createState(
+    rows: string[],
+    overrides: Partial<CheckersMetadata> = {}
+  ): GameState<CheckersMetadata> {
+    const board = parseBoard(rows);
+    const state = initializeGame('game-1', players);
+    return {
+      ...state,
+      metadata: {
+        board,
+        pieceCounts: countPieces(board),
+        movesSinceProgress: 0,
+        positionHistory: [getPositionKey(board, 'black')],
+        ...overrides,
+      },
+    };
+  }
+
+  function move(playerId: string, ...squares: [number, number][]): CheckersMove {
+    const path: Position[] = squares.map(([row, col]) => ({ row, col }));
+    return { playerId, timestamp: new Date(), action: 'move', parameters: { path } };
+  }
+
+  // Black's man on (6, 1) can jump (5, 2) and then either (3, 2) or (3, 4)
+  const doubleJump = [
+    '........',
+    '........',
+    '........',
+    '..w.w...',
+    '........',
+    '..w.....',
+    '.b......',
+    '........',
+  ];
+
+  describe('starting position', () => {
+    it('should give each side twelve men on the dark squares', () => {
+      const board = createInitialBoard();
+
+      expect(countPieces(board)).toEqual({ black: 12, white: 12 });
+      expect(board[0][1]).toEqual({ color: 'white', king: false });
+      expect(board[7][0]).toEqual({ color: 'black', king: false });
+      expect(board[0][0]).toBeNull();
+    });
+
+    it('should offer black seven moves forward', () => {
+      const moves = getLegalMoves(createInitialBoard(), 'black');
+
+      expect(moves).toHaveLength(7);
+      expect(moves.every((m) => m.captured.length === 0 && m.path[1].row === 4)).toBe(true);
+    });
+  });
+
+  describe('captures', () => {
+    const singleCapture = [
+      '........',
+      '........',
+      '........',
+      '........',
+      '...w....',
+      '..b...b.',
+      '........',
+      '........',
+    ];
+
+    it('should only allow captures when one is available', () => {
+      expect(getLegalMoves(parseBoard(singleCapture), 'black')).toEqual([
+        {
+          path: [
+            { row: 5, col: 2 },
+            { row: 3, col: 4 },
+          ],
+          captured: [{ row: 4, col: 3 }],
+        },
+      ]);
+    });
+
+    it('should reject a simple move while a capture is available', () => {
+      const state = createState(singleCapture);
+
+      expect(validateMove(state, 'black-player', move('black-player', [5, 6], [4, 7]))).toEqual({
+        valid: false,
+        error: 'A capture is available and must be taken',
+      });
+    });
+
+    it('should list every branch of a multi-jump as a separate move', () => {
+      const moves = getLegalMoves(parseBoard(doubleJump), 'black');
+
+      expect(moves.map((m) => m.path)).toEqual([
+        [
+          { row: 6, col: 1 },
+          { row: 4, col: 3 },
+          { row: 2, col: 1 },
+        ],
+        [
+          { row: 6, col: 1 },
+          { row: 4, col: 3 },
+          { row: 2, col: 5 },
+        ],
+      ]);
+    });
+
+    it('should play a whole multi-jump in one move', () => {
+      const state = createState(doubleJump);
+      const result = applyMove(state, move('black-player', [6, 1], [4, 3], [2, 5]));
+
+      expect(result.metadata.board[2][5]).toEqual({ color: 'black', king: false });
+      expect(result.metadata.board[6][1]).toBeNull();
+      expect(result.metadata.board[5][2]).toBeNull();
+      expect(result.metadata.board[3][4]).toBeNull();
+      expect(result.metadata.board[3][2]).toEqual({ color: 'white', king: false });
+      expect(result.metadata.pieceCounts).toEqual({ black: 1, white: 1 });
+      expect(result.metadata.lastMove?.captured).toEqual([
+        { row: 5, col: 2 },
+        { row: 3, col: 4 },
+      ]);
+      expect(result.currentPlayerIndex).toBe(1);
+    });
+
+    it('should reject a jump that stops while another capture is possible', () => {
+      const state = createState(doubleJump);
+
+      expect(validateMove(state, 'black-player', move('black-player', [6, 1], [4, 3]))).toEqual({
+        valid: false,
+        error: 'The piece can jump again from (4, 3); the whole capture must be played',
+      });
+    });
+
+    it('should not jump the same piece twice', () => {
+      // Having jumped the white man, the king may not jump straight back over it
+      const moves = getLegalMoves(
+        parseBoard([
+          '........',
+          '........',
+          '........',
+          '........',
+          '...w....',
+          '..B.....',
+          '........',
+          '........',
+        ]),
+        'black'
+      );
+
+      expect(moves).toEqual([
+        {
+          path: [
+            { row: 5, col: 2 },
+            { row: 3, col: 4 },
+          ],
+          captured: [{ row: 4, col: 3 }],
+        },
+      ]);
+    });
+  });
+
+  describe('crowning', () => {
+    const crowningJump = [
+      '........',
+      '..w.w...',
+      '.b......',
+      '........',
+      '........',
+      '........',
+      '........',
+      '........',
+    ];
+
+    it('should crown a man on the far row and end its move there', () => {
+      const moves = getLegalMoves(parseBoard(crowningJump), 'black');
+      expect(moves.map((m) => m.path)).toEqual([
+        [
+          { row: 2, col: 1 },
+          { row: 0, col: 3 },
+        ],
+      ]);
+
+      const result = applyMove(createState(crowningJump), move('black-player', [2, 1], [0, 3]));
+      expect(result.metadata.board[0][3]).toEqual({ color: 'black', king: true });
+      expect(result.metadata.board[1][4]).toEqual({ color: 'white', king: false });
+      expect(result.metadata.lastMove?.promoted).toBe(true);
+    });
+
+    it('should let kings move backwards', () => {
+      const moves = getLegalMoves(
+        parseBoard([
+          '........',
+          '........',
+          '........',
+          '....B...',
+          '........',
+          '........',
+          '........',
+          '........',
+        ]),
+        'black'
+      );
+
+      expect(moves.map((m) => m.path[1])).toEqual([
+        { row: 2, col: 3 },
+        { row: 2, col: 5 },
+        { row: 4, col: 3 },
+        { row: 4, col: 5 },
+      ]);
+    });
+  });
+
+  describe('end of the game', () => {
+    it('should be won by capturing the last opposing piece', () => {
+      const state = createState([
+        '........',
+        '........',
+        '........',
+        '........',
+        '...w....',
+        '..b.....',
+        '........',
+        '........',
+      ]);
+      const result = applyMove(state, move('black-player', [5, 2], [3, 4]));
+
+      expect(result.lifecycle).toBe(GameLifecycle.COMPLETED);
+      expect(isGameOver(result)).toBe(true);
+      expect(getWinner(result)).toBe('black-player');
+    });
+
+    it('should be won by leaving the opponent without a move', () => {
+      const state = createState([
+        '........',
+        '........',
+        '........',
+        '........',
+        '........',
+        '..b.....',
+        '.......w',
+        '......b.',
+      ]);
+      const result = applyMove(state, move('black-player', [5, 2], [4, 1]));
+
+      expect(result.metadata.pieceCounts.white).toBe(1);
+      expect(isGameOver(result)).toBe(true);
+      expect(getWinner(result)).toBe('black-player');
+    });
+
+    it('should not have a winner while play continues', () => {
+      const state = initializeGame('game-1', players);
+
+      expect(isGameOver(state)).toBe(false);
+      expect(getWinner(state)).toBeNull();
+    });
+  });
+
+  describe('draws', () => {
+    const kingsOnly = [
+      '.......W',
+      '........',
+      '........',
+      '........',
+      '........',
+      'B.......',
+      '........',
+      '........',
+    ];
+
+    it('should draw when the same position occurs a third time', () => {
+      let state = createState(kingsOnly);
+      const cycle = [
+        move('black-player', [5, 0], [4, 1]),
+        move('white-player', [0, 7], [1, 6]),
+        move('black-player', [4, 1], [5, 0]),
+        move('white-player', [1, 6], [0, 7]),
+      ];
+
+      for (const next of [...cycle, ...cycle.slice(0, 3)]) {
+        state = applyMove(state, next);
+        expect(isGameOver(state)).toBe(false);
+      }
+      state = applyMove(state, cycle[3]);
+
+      expect(state.metadata.drawReason).toBe('repetition');
+      expect(state.lifecycle).toBe(GameLifecycle.COMPLETED);
+      expect(isGameOver(state)).toBe(true);
+      expect(getWinner(state)).toBeNull();
+    });
+
+    it('should draw after 40 moves each without a capture or a move by a man', () => {
+      const state = createState(kingsOnly, { movesSinceProgress: 79 });
+      const result = applyMove(state, move('black-player', [5, 0], [4, 1]));
+
+      expect(result.metadata.movesSinceProgress).toBe(80);
+      expect(result.metadata.drawReason).toBe('no-progress');
+      expect(getWinner(result)).toBeNull();
+    });
+
+    it('should reset the count when a man moves', () => {
+      const state = createState(
+        [
+          '.......W',
+          '........',
+          '........',
+          '........',
+          '........',
+          '........',
+          '........',
+          'b.......',
+        ],
+        { movesSinceProgress: 79, positionHistory: ['earlier', 'positions'] }
+      );
+      const result = applyMove(state, move('black-player', [7, 0], [6, 1]));
+
+      expect(result.metadata.movesSinceProgress).toBe(0);
+      expect(result.metadata.positionHistory).toEqual([
+        getPositionKey(result.metadata.board, 'white'),
+      ]);
+      expect(result.metadata.drawReason).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,11 @@
+/**
+ * Checkers Engine Module
+ * Barrel export for the game engine
+ */
+
+export { CheckersEngine } from './CheckersEngine';
+export * from './metadata';
+export * from './initialization';
+export * from './validation';
+export * from './rules';
+export * from './renderer';
@@ -0,0 +1,94 @@
+/**
+ * Checkers game initialization module
+ * Handles game state initialization, the starting position, and player color assignment
+ */
+
+import { GameState, Player, GameLifecycle, Board } from '../../../src/domain/models';
+import { CellState, PlayerColor, CheckersMetadata } from '../shared/types';
+import { BOARD_SIZE, PLAYER_COLORS, GAME_TYPE, STARTING_ROWS } from '../shared/constants';
+import { countPieces, getPositionKey, isDarkSquare } from '../shared/board';
+
+/**
+ * Creates the checkers starting position
+ * Each side fills the dark squares of the three rows nearest to it with men;
+ * white at the top, black at the bottom.
+ * @param size - Board size (8 by default)
+ * @returns A size x size board with both sides' men placed
+ */
+export function createInitialBoard(size: number = BOARD_SIZE): CellState[][] {
+  return Array.from({ length: size }, (_, row) =>
+    Array.from({ length: size }, (_, col): CellState => {
+      if (!isDarkSquare(row, col)) {
+        return null;
+      }
+      if (row < STARTING_ROWS) {
+        return { color: 'white', king: false };
+      }
+      if (row >= size - STARTING_ROWS) {
+        return { color: 'black', king: false };
+      }
+      return null;
+    })
+  );
+}
+
+/**
+ * Assigns colors to players deterministically
+ * First player gets black and moves first, second player gets white
+ * @param players - Array of players
+ * @returns Map of player ID to assigned color
+ */
+export function assignPlayerColors(players: Player[]): Map<string, PlayerColor> {
+  const colorMap = new Map<string, PlayerColor>();
+
+  players.forEach((player, index) => {
+    if (index < PLAYER_COLORS.length) {
+      colorMap.set(player.id, PLAYER_COLORS[index]);
+    }
+  });
+
+  return colorMap;
+}
+
+/**
+ * Initializes a new checkers game
+ * @param gameId - Unique identifier for the game
+ * @param players - Array of players (can be 0 for CREATED state, or 2 for ACTIVE state)
+ * @returns Initialized game state
+ */
+export function initializeGame(gameId: string, players: Player[]): GameState<CheckersMetadata> {
+  // Player count validation happens at the service level; players may join later
+
+  const board = createInitialBoard();
+
+  const metadata: CheckersMetadata = {
+    board,
+    pieceCounts: countPieces(board),
+    movesSinceProgress: 0,
+    positionHistory: [getPositionKey(board, PLAYER_COLORS[0])],
+  };
+
+  // Checkers doesn't use the spaces model of the domain board
+  const domainBoard: Board = {
+    spaces: [],
+    metadata: {},
+  };
+
+  const now = new Date();
+
+  return {
+    gameId,
+    gameType: GAME_TYPE,
+    lifecycle: GameLifecycle.ACTIVE,
+    players,
+    currentPlayerIndex: 0, // Black moves first
+    phase: 'playing',
+    board: domainBoard,
+    moveHistory: [],
+    metadata,
+    winner: null,
+    version: 0,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
@@ -0,0 +1,227 @@
+/**
+ * Checkers rendering module
+ * Handles SVG board rendering with pieces, kings, the last move and movable pieces
+ */
+
+import { GameState, GameLifecycle } from '../../../src/domain/models';
+import { BoardRenderData, RenderElement, RenderLayer } from '../../../src/domain/interfaces';
+import { BOARD_SIZE, PLAYER_COLORS } from '../shared/constants';
+import { CellState, CheckersMetadata, Piece, Position } from '../shared/types';
+import { getLegalMoves, isDarkSquare } from '../shared/board';
+
+/**
+ * Constants for rendering
+ */
+const SQUARE_SIZE = 60;
+const PIECE_RADIUS = 22;
+const CROWN_RADIUS = 11;
+const LIGHT_SQUARE_COLOR = '#f0d9b5';
+const DARK_SQUARE_COLOR = '#8b5a2b';
+const BLACK_COLOR = '#212121';
+const WHITE_COLOR = '#fafafa';
+const PIECE_STROKE_COLOR = '#111111';
+const CROWN_COLOR = '#fbc02d';
+const LAST_MOVE_COLOR = '#e53935';
+const CAPTURED_COLOR = 'rgba(229, 57, 53, 0.35)';
+const HINT_COLOR = '#64b5f6';
+
+/**
+ * Get the center of a square
+ */
+function squareCenter(position: Position): { x: number; y: number } {
+  return {
+    x: position.col * SQUARE_SIZE + SQUARE_SIZE / 2,
+    y: position.row * SQUARE_SIZE + SQUARE_SIZE / 2,
+  };
+}
+
+/**
+ * Create the checkered board layer
+ */
+export function createBoardLayer(size: number = BOARD_SIZE): RenderElement[] {
+  const squares: RenderElement[] = [];
+
+  for (let row = 0; row < size; row++) {
+    for (let col = 0; col < size; col++) {
+      squares.push({
+        type: 'rect',
+        attributes: {
+          x: col * SQUARE_SIZE,
+          y: row * SQUARE_SIZE,
+          width: SQUARE_SIZE,
+          height: SQUARE_SIZE,
+          fill: isDarkSquare(row, col) ? DARK_SQUARE_COLOR : LIGHT_SQUARE_COLOR,
+        },
+      });
+    }
+  }
+
+  return squares;
+}
+
+/**
+ * Render a single piece; kings carry a gold crown ring
+ */
+export function renderPiece(row: number, col: number, piece: Piece): RenderElement[] {
+  const { x, y } = squareCenter({ row, col });
+  const elements: RenderElement[] = [
+    {
+      type: 'circle',
+      attributes: {
+        cx: x,
+        cy: y,
+        r: PIECE_RADIUS,
+        fill: piece.color === 'black' ? BLACK_COLOR : WHITE_COLOR,
+        stroke: PIECE_STROKE_COLOR,
+        strokeWidth: 1,
+      },
+    },
+  ];
+
+  if (piece.king) {
+    elements.push({
+      type: 'circle',
+      attributes: {
+        cx: x,
+        cy: y,
+        r: CROWN_RADIUS,
+        fill: 'none',
+        stroke: CROWN_COLOR,
+        strokeWidth: 3,
+      },
+    });
+  }
+
+  return elements;
+}
+
+/**
+ * Create the piece layer with every piece on the board
+ */
+export function createPieceLayer(board: CellState[][]): RenderElement[] {
+  const pieceElements: RenderElement[] = [];
+
+  for (let row = 0; row < board.length; row++) {
+    for (let col = 0; col < board[row].length; col++) {
+      const cell = board[row][col];
+      if (cell) {
+        pieceElements.push(...renderPiece(row, col, cell));
+      }
+    }
+  }
+
+  return pieceElements;
+}
+
+/**
+ * Trace the path of the last move and mark the squares it captured
+ */
+export function createLastMoveLayer(lastMove?: CheckersMetadata['lastMove']): RenderElement[] {
+  if (!lastMove) {
+    return [];
+  }
+
+  const captures: RenderElement[] = lastMove.captured.map((position) => ({
+    type: 'rect',
+    attributes: {
+      x: position.col * SQUARE_SIZE,
+      y: position.row * SQUARE_SIZE,
+      width: SQUARE_SIZE,
+      height: SQUARE_SIZE,
+      fill: CAPTURED_COLOR,
+    },
+  }));
+
+  const d = lastMove.path
+    .map((position, index) => {
+      const { x, y } = squareCenter(position);
+      return `${index === 0 ? 'M' : 'L'} ${x} ${y}`;
+    })
+    .join(' ');
+
+  return [
+    ...captures,
+    {
+      type: 'path',
+      attributes: {
+        d,
+        stroke: LAST_MOVE_COLOR,
+        strokeWidth: 4,
+        fill: 'none',
+        strokeLinecap: 'round',
+        strokeLinejoin: 'round',
+      },
+    },
+  ];
+}
+
+/**
+ * Outline the pieces the player to move can move
+ */
+export function createMoveHints(starts: Position[]): RenderElement[] {
+  return starts.map((position) => {
+    const { x, y } = squareCenter(position);
+    return {
+      type: 'circle',
+      attributes: {
+        cx: x,
+        cy: y,
+        r: PIECE_RADIUS + 3,
+        fill: 'none',
+        stroke: HINT_COLOR,
+        strokeWidth: 3,
+      },
+    };
+  });
+}
+
+/**
+ * Render the game board to BoardRenderData format
+ */
+export function renderBoard(state: GameState<CheckersMetadata>): BoardRenderData {
+  const board = state.metadata.board;
+  const boardSize = board.length * SQUARE_SIZE;
+
+  const layers: RenderLayer[] = [
+    {
+      name: 'board',
+      zIndex: 1,
+      elements: createBoardLayer(board.length),
+    },
+  ];
+
+  const lastMove = createLastMoveLayer(state.metadata.lastMove);
+  if (lastMove.length > 0) {
+    layers.push({
+      name: 'last-move',
+      zIndex: 2,
+      elements: lastMove,
+    });
+  }
+
+  layers.push({
+    name: 'pieces',
+    zIndex: 3,
+    elements: createPieceLayer(board),
+  });
+
+  const color = PLAYER_COLORS[state.currentPlayerIndex];
+  if (state.lifecycle === GameLifecycle.ACTIVE && color) {
+    const starts = new Map<string, Position>();
+    for (const move of getLegalMoves(board, color)) {
+      starts.set(`${move.path[0].row}-${move.path[0].col}`, move.path[0]);
+    }
+    layers.push({
+      name: 'move-hints',
+      zIndex: 4,
+      elements: createMoveHints([...starts.values()]),
+    });
+  }
+
+  return {
+    viewBox: { width: boardSize, height: boardSize },
+    backgroundColor: '#ffffff',
+    spaces: [], // Checkers doesn't use the spaces model
+    layers,
+  };
+}
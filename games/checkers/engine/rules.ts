@@ -0,0 +1,184 @@
+/**
+ * Checkers rules module
+ * Handles moving and capturing, crowning, draws by repetition or lack of progress,
+ * and the end of the game
+ */
+
+import { GameState, GameLifecycle } from '../../../src/domain/models';
+import {
+  CellState,
+  CheckersMetadata,
+  CheckersMove,
+  DrawReason,
+  LegalMove,
+  PlayerColor,
+} from '../shared/types';
+import { NO_PROGRESS_LIMIT, REPETITION_LIMIT } from '../shared/constants';
+import { countPieces, getPositionKey, getPromotionRow, hasLegalMove } from '../shared/board';
+import { assignPlayerColors } from './initialization';
+import { validateMove } from './validation';
+
+/**
+ * Plays a legal move on the board
+ * Moves the piece to the end of its path, removes the captured pieces and crowns a
+ * man that finishes on the far row.
+ * @param board - Current board state
+ * @param move - Legal move to play, from getLegalMoves
+ * @returns New board and whether the piece was crowned
+ * @throws Error if there is no piece on the starting square
+ */
+export function movePiece(
+  board: CellState[][],
+  move: LegalMove
+): { board: CellState[][]; promoted: boolean } {
+  const from = move.path[0];
+  const to = move.path[move.path.length - 1];
+  const piece = board[from.row]?.[from.col];
+  if (!piece) {
+    throw new Error(`There is no piece on (${from.row}, ${from.col})`);
+  }
+
+  const promoted = !piece.king && to.row === getPromotionRow(board, piece.color);
+
+  const newBoard = board.map((cells) => [...cells]);
+  newBoard[from.row][from.col] = null;
+  for (const position of move.captured) {
+    newBoard[position.row][position.col] = null;
+  }
+  newBoard[to.row][to.col] = { color: piece.color, king: piece.king || promoted };
+
+  return { board: newBoard, promoted };
+}
+
+/**
+ * Gets the color of the player to move
+ */
+function getCurrentColor(state: GameState<CheckersMetadata>): PlayerColor | undefined {
+  const currentPlayer = state.players[state.currentPlayerIndex];
+  return currentPlayer ? assignPlayerColors(state.players).get(currentPlayer.id) : undefined;
+}
+
+/**
+ * Checks for a draw after a move
+ * The game is drawn when the same position occurs for the third time with the same
+ * player to move, or after 40 moves by each player without a capture or a move by a man.
+ * @param positionHistory - Position keys since the last capture or move by a man
+ * @param movesSinceProgress - Moves since the last capture or move by a man
+ * @returns The reason for the draw, or undefined if play continues
+ */
+export function getDrawReason(
+  positionHistory: string[],
+  movesSinceProgress: number
+): DrawReason | undefined {
+  const current = positionHistory[positionHistory.length - 1];
+  const occurrences = positionHistory.filter((key) => key === current).length;
+  if (occurrences >= REPETITION_LIMIT) {
+    return 'repetition';
+  }
+  if (movesSinceProgress >= NO_PROGRESS_LIMIT) {
+    return 'no-progress';
+  }
+  return undefined;
+}
+
+/**
+ * Checks if the game is over
+ * The game ends in a draw, or when the player to move has no legal move because
+ * their pieces are all captured or blocked.
+ * @param state - Current game state
+ * @returns true if the game is over
+ */
+export function isGameOver(state: GameState<CheckersMetadata>): boolean {
+  if (state.metadata.drawReason) {
+    return true;
+  }
+
+  const color = getCurrentColor(state);
+  return color !== undefined && !hasLegalMove(state.metadata.board, color);
+}
+
+/**
+ * Determines the winner
+ * A player who cannot move on their turn loses.
+ * @param state - Current game state
+ * @returns ID of the winning player, or null if the game is drawn or still going
+ */
+export function getWinner(state: GameState<CheckersMetadata>): string | null {
+  if (state.metadata.drawReason || !isGameOver(state)) {
+    return null;
+  }
+
+  const opponent = state.players.find((_, index) => index !== state.currentPlayerIndex);
+  return opponent?.id ?? null;
+}
+
+/**
+ * Applies a move to the game state, creating a new immutable state
+ * Plays the whole path in one go, then records the position so draws by
+ * repetition and by lack of progress can be detected.
+ * @param state - Current game state
+ * @param move - Move to apply
+ * @returns New game state with move applied
+ * @throws Error if move is invalid
+ */
+export function applyMove(
+  state: GameState<CheckersMetadata>,
+  move: CheckersMove
+): GameState<CheckersMetadata> {
+  const validation = validateMove(state, move.playerId, move);
+  if (!validation.valid || !validation.legalMove) {
+    throw new Error(validation.error || 'Invalid move');
+  }
+
+  if (state.lifecycle === GameLifecycle.COMPLETED) {
+    throw new Error('Game is already completed');
+  }
+
+  const legalMove = validation.legalMove;
+  const from = legalMove.path[0];
+  const movedMan = !state.metadata.board[from.row][from.col]?.king;
+  const { board, promoted } = movePiece(state.metadata.board, legalMove);
+
+  const currentPlayerIndex = (state.currentPlayerIndex + 1) % state.players.length;
+  const nextState: GameState<CheckersMetadata> = { ...state, currentPlayerIndex };
+  const nextColor = getCurrentColor(nextState);
+
+  // Men never move backwards and captured pieces never return, so earlier positions
+  // cannot come back once either happens
+  const progress = movedMan || legalMove.captured.length > 0;
+  const positionKey = nextColor ? getPositionKey(board, nextColor) : '';
+  const movesSinceProgress = progress ? 0 : state.metadata.movesSinceProgress + 1;
+  const positionHistory = progress
+    ? [positionKey]
+    : [...state.metadata.positionHistory, positionKey];
+
+  const metadata: CheckersMetadata = {
+    ...state.metadata,
+    board,
+    pieceCounts: countPieces(board),
+    lastMove: {
+      path: legalMove.path,
+      player: move.playerId,
+      captured: legalMove.captured,
+      promoted,
+    },
+    movesSinceProgress,
+    positionHistory,
+  };
+  const drawReason = getDrawReason(positionHistory, movesSinceProgress);
+  if (drawReason) {
+    metadata.drawReason = drawReason;
+  }
+
+  const updatedState: GameState<CheckersMetadata> = {
+    ...nextState,
+    metadata,
+    moveHistory: [...state.moveHistory, move],
+    version: state.version + 1,
+    updatedAt: new Date(),
+  };
+
+  return isGameOver(updatedState)
+    ? { ...updatedState, lifecycle: GameLifecycle.COMPLETED }
+    : updatedState;
+}
@@ -0,0 +1,156 @@
+/**
+ * Checkers move validation module
+ * Validates whole moves, including multi-jump paths, against the legal moves
+ * of the player to move
+ */
+
+import { GameState } from '../../../src/domain/models';
+import { CheckersMetadata, CheckersMove, LegalMove, Position } from '../shared/types';
+import { getLegalMoves, isSamePosition } from '../shared/board';
+import { assignPlayerColors } from './initialization';
+
+/**
+ * Validation result interface
+ */
+export interface ValidationResult {
+  valid: boolean;
+  error?: string;
+  legalMove?: LegalMove; // The matching legal move, including the pieces it captures
+}
+
+/**
+ * Error message constants for validation failures
+ */
+const ERROR_MESSAGES = {
+  NOT_YOUR_TURN: 'It is not your turn',
+  INVALID_ACTION: (action: string) => `Unknown action '${action}'; checkers moves use 'move'`,
+  INVALID_PATH: (size: number) =>
+    `Path must list at least two squares, each with an integer row and col between 0 and ${size - 1}`,
+  NOT_YOUR_PIECE: (row: number, col: number) => `There is no piece of yours on (${row}, ${col})`,
+  CAPTURE_REQUIRED: 'A capture is available and must be taken',
+  INCOMPLETE_JUMP: (row: number, col: number) =>
+    `The piece can jump again from (${row}, ${col}); the whole capture must be played`,
+  ILLEGAL_MOVE: (row: number, col: number) =>
+    `The path from (${row}, ${col}) is not a legal move for that piece`,
+} as const;
+
+/**
+ * Checks if it is the specified player's turn
+ * @param state - Current game state
+ * @param playerId - Player ID to check
+ * @returns true if it is the player's turn
+ */
+export function isPlayerTurn(state: GameState<CheckersMetadata>, playerId: string): boolean {
+  const currentPlayer = state.players[state.currentPlayerIndex];
+  return currentPlayer?.id === playerId;
+}
+
+/**
+ * Checks that a path is a list of at least two squares on the board
+ */
+function isValidPath(path: unknown, size: number): path is Position[] {
+  return (
+    Array.isArray(path) &&
+    path.length >= 2 &&
+    path.every(
+      (position) =>
+        Number.isInteger(position?.row) &&
+        Number.isInteger(position?.col) &&
+        position.row >= 0 &&
+        position.row < size &&
+        position.col >= 0 &&
+        position.col < size
+    )
+  );
+}
+
+/**
+ * Checks if the first path is the start of the second
+ */
+function isPrefixOf(prefix: Position[], path: Position[]): boolean {
+  return (
+    prefix.length <= path.length &&
+    prefix.every((position, index) => isSamePosition(position, path[index]))
+  );
+}
+
+/**
+ * Validates a checkers move
+ * The path must be one of the player's complete legal moves. When a capture is
+ * available every legal move is a capture, and a jump sequence must continue for
+ * as long as the piece can keep capturing.
+ * @param state - Current game state
+ * @param playerId - ID of player making the move
+ * @param move - Move to validate
+ * @returns Validation result with error message if invalid, or the matching legal move
+ */
+export function validateMove(
+  state: GameState<CheckersMetadata>,
+  playerId: string,
+  move: CheckersMove
+): ValidationResult {
+  if (!isPlayerTurn(state, playerId)) {
+    return {
+      valid: false,
+      error: ERROR_MESSAGES.NOT_YOUR_TURN,
+    };
+  }
+
+  if (move.action !== 'move') {
+    return {
+      valid: false,
+      error: ERROR_MESSAGES.INVALID_ACTION(move.action),
+    };
+  }
+
+  const board = state.metadata.board;
+  const path = move.parameters?.path;
+  if (!isValidPath(path, board.length)) {
+    return {
+      valid: false,
+      error: ERROR_MESSAGES.INVALID_PATH(board.length),
+    };
+  }
+
+  const color = assignPlayerColors(state.players).get(playerId);
+  const [start] = path;
+  if (!color || board[start.row][start.col]?.color !== color) {
+    return {
+      valid: false,
+      error: ERROR_MESSAGES.NOT_YOUR_PIECE(start.row, start.col),
+    };
+  }
+
+  const legalMoves = getLegalMoves(board, color);
+  const legalMove = legalMoves.find(
+    (candidate) => candidate.path.length === path.length && isPrefixOf(path, candidate.path)
+  );
+  if (legalMove) {
+    return {
+      valid: true,
+      legalMove,
+    };
+  }
+
+  const mustCapture = legalMoves.some((candidate) => candidate.captured.length > 0);
+  const isStep = path.length === 2 && Math.abs(path[1].row - start.row) === 1;
+  if (mustCapture && isStep) {
+    return {
+      valid: false,
+      error: ERROR_MESSAGES.CAPTURE_REQUIRED,
+    };
+  }
+
+  if (legalMoves.some((candidate) => isPrefixOf(path, candidate.path))) {
+    const last = path[path.length - 1];
+    return {
+      valid: false,
+      error: ERROR_MESSAGES.INCOMPLETE_JUMP(last.row, last.col),
+    };
+  }
+
+  return {
+    valid: false,
+    error: ERROR_MESSAGES.ILLEGAL_MOVE(start.row, start.col),
+  };
+}
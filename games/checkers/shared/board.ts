@@ -0,0 +1,235 @@
+/**
+ * Checkers move generation shared by the engine, the AI and the UI
+ * Pure functions over the board array with no dependency on the game services,
+ * so the move input offers exactly the moves the engine accepts.
+ */
+
+import type { CellState, LegalMove, Piece, PieceCounts, PlayerColor, Position } from './types';
+import { DIAGONALS, FORWARD } from './constants';
+
+/**
+ * Gets the opposing color
+ * @param color - Player color
+ * @returns The other player's color
+ */
+export function getOpponentColor(color: PlayerColor): PlayerColor {
+  return color === 'black' ? 'white' : 'black';
+}
+
+/**
+ * Checks if a position is on the board
+ * @param board - Current board state
+ * @param row - Row position
+ * @param col - Column position
+ * @returns true if the position is within bounds
+ */
+export function isOnBoard(board: CellState[][], row: number, col: number): boolean {
+  return row >= 0 && row < board.length && col >= 0 && col < board[0].length;
+}
+
+/**
+ * Checks if a square is dark; pieces only ever stand on dark squares
+ * @param row - Row position
+ * @param col - Column position
+ * @returns true for a playable square
+ */
+export function isDarkSquare(row: number, col: number): boolean {
+  return (row + col) % 2 === 1;
+}
+
+/**
+ * Gets the row where a color's men are crowned
+ * @param board - Current board state
+ * @param color - Player color
+ * @returns The far row from the color's side
+ */
+export function getPromotionRow(board: CellState[][], color: PlayerColor): number {
+  return FORWARD[color] < 0 ? 0 : board.length - 1;
+}
+
+/**
+ * Checks if two positions are the same square
+ */
+export function isSamePosition(a: Position, b: Position): boolean {
+  return a.row === b.row && a.col === b.col;
+}
+
+/**
+ * Gets the diagonals a piece may move along
+ * Kings use all four; men only the two facing forward.
+ */
+function getDirections(piece: Piece) {
+  return piece.king ? DIAGONALS : DIAGONALS.filter((d) => d.row === FORWARD[piece.color]);
+}
+
+/**
+ * Finds every complete jump sequence for the piece on a square
+ * A sequence continues while the piece can jump again, except that a man reaching
+ * the far row is crowned and its move ends there. Captured pieces stay on the board
+ * until the move is over: they cannot be jumped twice and nothing can land on them.
+ * @param board - Current board state
+ * @param from - Square of the jumping piece
+ * @returns Each sequence with the pieces it captures; empty if the piece cannot jump
+ */
+export function getJumpSequences(board: CellState[][], from: Position): LegalMove[] {
+  const piece = board[from.row]?.[from.col];
+  if (!piece) {
+    return [];
+  }
+
+  const opponent = getOpponentColor(piece.color);
+  const promotionRow = getPromotionRow(board, piece.color);
+  const sequences: LegalMove[] = [];
+
+  const extend = (path: Position[], captured: Position[]) => {
+    const { row, col } = path[path.length - 1];
+    let jumped = false;
+
+    for (const direction of getDirections(piece)) {
+      const over = { row: row + direction.row, col: col + direction.col };
+      const landing = { row: row + 2 * direction.row, col: col + 2 * direction.col };
+      if (!isOnBoard(board, landing.row, landing.col)) {
+        continue;
+      }
+
+      const overPiece = board[over.row][over.col];
+      const landingEmpty =
+        board[landing.row][landing.col] === null || isSamePosition(landing, from);
+      if (
+        overPiece?.color !== opponent ||
+        !landingEmpty ||
+        captured.some((position) => isSamePosition(position, over))
+      ) {
+        continue;
+      }
+
+      jumped = true;
+      const nextPath = [...path, landing];
+      const nextCaptured = [...captured, over];
+      if (!piece.king && landing.row === promotionRow) {
+        sequences.push({ path: nextPath, captured: nextCaptured });
+      } else {
+        extend(nextPath, nextCaptured);
+      }
+    }
+
+    if (!jumped && captured.length > 0) {
+      sequences.push({ path, captured });
+    }
+  };
+
+  extend([from], []);
+  return sequences;
+}
+
+/**
+ * Finds the non-capturing moves for the piece on a square
+ * @param board - Current board state
+ * @param from - Square of the piece
+ * @returns One-step diagonal moves to empty squares
+ */
+export function getSimpleMoves(board: CellState[][], from: Position): LegalMove[] {
+  const piece = board[from.row]?.[from.col];
+  if (!piece) {
+    return [];
+  }
+
+  const moves: LegalMove[] = [];
+  for (const direction of getDirections(piece)) {
+    const row = from.row + direction.row;
+    const col = from.col + direction.col;
+    if (isOnBoard(board, row, col) && board[row][col] === null) {
+      moves.push({ path: [from, { row, col }], captured: [] });
+    }
+  }
+  return moves;
+}
+
+/**
+ * Lists every legal move for a color
+ * Captures are mandatory: when any piece can jump, only jump sequences are legal.
+ * The player may choose any of them, not necessarily the longest.
+ * @param board - Current board state
+ * @param color - Color to move
+ * @returns Complete legal moves, by starting square row by row from the top left
+ */
+export function getLegalMoves(board: CellState[][], color: PlayerColor): LegalMove[] {
+  const jumps: LegalMove[] = [];
+  const simpleMoves: LegalMove[] = [];
+
+  for (let row = 0; row < board.length; row++) {
+    for (let col = 0; col < board[row].length; col++) {
+      if (board[row][col]?.color !== color) {
+        continue;
+      }
+      jumps.push(...getJumpSequences(board, { row, col }));
+      if (jumps.length === 0) {
+        simpleMoves.push(...getSimpleMoves(board, { row, col }));
+      }
+    }
+  }
+
+  return jumps.length > 0 ? jumps : simpleMoves;
+}
+
+/**
+ * Checks if a color has any legal move
+ * @param board - Current board state
+ * @param color - Color to check
+ * @returns true if the color can move
+ */
+export function hasLegalMove(board: CellState[][], color: PlayerColor): boolean {
+  for (let row = 0; row < board.length; row++) {
+    for (let col = 0; col < board[row].length; col++) {
+      if (
+        board[row][col]?.color === color &&
+        (getSimpleMoves(board, { row, col }).length > 0 ||
+          getJumpSequences(board, { row, col }).length > 0)
+      ) {
+        return true;
+      }
+    }
+  }
+  return false;
+}
+
+/**
+ * Counts the pieces of each color, men and kings alike
+ * @param board - Current board state
+ * @returns Piece count per color
+ */
+export function countPieces(board: CellState[][]): PieceCounts {
+  const counts: PieceCounts = { black: 0, white: 0 };
+  for (const row of board) {
+    for (const cell of row) {
+      if (cell) {
+        counts[cell.color]++;
+      }
+    }
+  }
+  return counts;
+}
+
+/**
+ * Builds a key identifying a position for repetition detection
+ * Men are written as 'b'/'w', kings as 'B'/'W' and empty squares as '.', followed
+ * by the color to move, since the same layout with the other player to move is a
+ * different position.
+ * @param board - Current board state
+ * @param toMove - Color to move
+ * @returns Key that is equal for equal positions
+ */
+export function getPositionKey(board: CellState[][], toMove: PlayerColor): string {
+  const squares = board
+    .map((cells) =>
+      cells
+        .map((cell) => {
+          if (!cell) return '.';
+          const letter = cell.color === 'black' ? 'b' : 'w';
+          return cell.king ? letter.toUpperCase() : letter;
+        })
+        .join('')
+    )
+    .join('/');
+  return `${squares} ${toMove === 'black' ? 'b' : 'w'}`;
+}
@@ -0,0 +1,38 @@
+import { Direction, PlayerColor } from './types';
+
+/**
+ * Checkers game constants
+ */
+
+// Board dimensions
+export const BOARD_SIZE = 8;
+export const STARTING_ROWS = 3; // Rows of men each player starts with
+
+// Player configuration
+export const MIN_PLAYERS = 2;
+export const MAX_PLAYERS = 2;
+export const PLAYER_COLORS: PlayerColor[] = ['black', 'white'];
+
+// Draw rules
+export const REPETITION_LIMIT = 3; // Same position with the same player to move
+export const NO_PROGRESS_LIMIT = 80; // 40 moves each without a capture or a move by a man
+
+// Game identification
+export const GAME_TYPE = 'checkers';
+export const GAME_NAME = 'Checkers';
+export const GAME_DESCRIPTION =
+  'Checkers (English draughts) on an 8x8 board. Move diagonally forward and jump over opposing pieces to capture them; captures are mandatory and jumps continue while another capture is possible. Men reaching the far row are crowned kings and may move backwards. A player who cannot move loses.';
+
+// Row direction each color's men move in; black starts at the bottom
+export const FORWARD: Record<PlayerColor, number> = {
+  black: -1,
+  white: 1,
+};
+
+// The four diagonals
+export const DIAGONALS: Direction[] = [
+  { row: -1, col: -1 },
+  { row: -1, col: 1 },
+  { row: 1, col: -1 },
+  { row: 1, col: 1 },
+];
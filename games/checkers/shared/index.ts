@@ -0,0 +1,8 @@
+/**
+ * Shared types, constants and move generation for Checkers
+ * Used by both engine (backend) and UI (frontend) modules
+ */
+
+export * from './types';
+export * from './constants';
+export * from './board';
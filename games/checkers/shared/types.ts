@@ -0,0 +1,80 @@
+import { Move } from '../../../src/domain/models';
+
+/**
+ * Checkers move parameters
+ * A move is the path of squares the piece visits: its starting square followed by
+ * every square it lands on. A simple move has two squares; a multi-jump capture
+ * lists each landing square in order.
+ */
+export interface CheckersMove extends Move<{ path: Position[] }> {
+  action: 'move';
+}
+
+/**
+ * Player color assignment
+ */
+export type PlayerColor = 'black' | 'white';
+
+/**
+ * A piece on the board; men become kings on reaching the far row
+ */
+export interface Piece {
+  color: PlayerColor;
+  king: boolean;
+}
+
+/**
+ * Cell state on the checkers board
+ */
+export type CellState = null | Piece;
+
+/**
+ * Number of pieces of each color on the board
+ */
+export type PieceCounts = Record<PlayerColor, number>;
+
+/**
+ * Why a game ended in a draw
+ */
+export type DrawReason = 'repetition' | 'no-progress';
+
+/**
+ * A complete legal move and the pieces it captures
+ */
+export interface LegalMove {
+  path: Position[];
+  captured: Position[];
+}
+
+/**
+ * Checkers specific game state metadata
+ */
+export interface CheckersMetadata {
+  board: CellState[][]; // 8 × 8, row 0 at the top
+  pieceCounts: PieceCounts;
+  lastMove?: {
+    path: Position[];
+    player: string;
+    captured: Position[];
+    promoted: boolean; // The moving man was crowned
+  };
+  movesSinceProgress: number; // Moves since the last capture or move by a man
+  positionHistory: string[]; // Position keys since the last capture or move by a man
+  drawReason?: DrawReason;
+}
+
+/**
+ * Position on the board
+ */
+export interface Position {
+  row: number;
+  col: number;
+}
+
+/**
+ * Diagonal direction vector
+ */
+export interface Direction {
+  row: number;
+  col: number;
+}
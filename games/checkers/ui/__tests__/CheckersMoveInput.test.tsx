@@ -0,0 +1,181 @@
+/**
+ * Tests for CheckersMoveInput component
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import { CheckersMoveInput } from '../components/CheckersMoveInput';
+import type { GameState } from '../types';
+import type { CellState, CheckersMetadata } from '../../shared/types';
+
+/**
+ * Builds a board from rows written top to bottom
+ * b/w = black/white man, B/W = black/white king, . = empty
+ */
+function parseBoard(rows: string[]): CellState[][] {
+  return rows.map((row) =>
+    row.split('').map((cell) => {
+      if (cell === '.') return null;
+      return {
+        color: cell.toLowerCase() === 'b' ? 'black' : 'white',
+        king: cell === cell.toUpperCase()
+      };
+    })
+  );
+}
+
+const startingBoard = [
+  '.w.w.w.w',
+  'w.w.w.w.',
+  '.w.w.w.w',
+  '........',
+  '........',
+  'b.b.b.b.',
+  '.b.b.b.b',
+  'b.b.b.b.'
+];
+
+// Black's man on (6, 1) can jump (5, 2) and then either (3, 2) or (3, 4)
+const doubleJump = [
+  '........',
+  '........',
+  '........',
+  '..w.w...',
+  '........',
+  '..w.....',
+  '.b......',
+  '........'
+];
+
+/**
+ * Helper function to create a test game state
+ */
+function createTestGameState(
+  rows: string[] = startingBoard,
+  overrides?: Partial<GameState<CheckersMetadata>>
+): GameState<CheckersMetadata> {
+  return {
+    gameId: 'test-game-1',
+    gameType: 'checkers',
+    lifecycle: 'active',
+    players: [
+      { id: 'player-1', name: 'Player 1', joinedAt: '2024-01-01T00:00:00Z' },
+      { id: 'player-2', name: 'Player 2', joinedAt: '2024-01-01T00:00:00Z' }
+    ],
+    currentPlayerIndex: 0,
+    phase: 'playing',
+    board: {
+      spaces: [],
+      metadata: {}
+    },
+    moveHistory: [],
+    metadata: {
+      board: parseBoard(rows),
+      pieceCounts: { black: 12, white: 12 },
+      movesSinceProgress: 0,
+      positionHistory: []
+    },
+    version: 1,
+    createdAt: '2024-01-01T00:00:00Z',
+    updatedAt: '2024-01-01T00:00:00Z',
+    ...overrides
+  };
+}
+
+function enabledSquares(): string[] {
+  return screen
+    .getAllByRole('button')
+    .filter((button) => !(button as HTMLButtonElement).disabled)
+    .map((button) => button.getAttribute('data-testid') ?? '');
+}
+
+describe('CheckersMoveInput', () => {
+  it('should render a button for each of the 64 squares', () => {
+    render(<CheckersMoveInput gameState={createTestGameState()} onMoveChange={vi.fn()} />);
+
+    expect(screen.getAllByRole('button')).toHaveLength(64);
+    expect(screen.getByTestId('piece-counts')).toHaveTextContent('Black 12 – White 12');
+    expect(screen.getByTestId('square-5-0')).toHaveAttribute('aria-label', 'a6: black man');
+  });
+
+  it('should only enable the pieces that can move', () => {
+    render(<CheckersMoveInput gameState={createTestGameState()} onMoveChange={vi.fn()} />);
+
+    expect(enabledSquares()).toEqual(['square-5-0', 'square-5-2', 'square-5-4', 'square-5-6']);
+    expect(screen.getByTestId('move-status')).toHaveTextContent('Select a piece to move');
+  });
+
+  it('should send a simple move after picking a piece and a square', () => {
+    const onMoveChange = vi.fn();
+    render(<CheckersMoveInput gameState={createTestGameState()} onMoveChange={onMoveChange} />);
+
+    fireEvent.click(screen.getByTestId('square-5-2'));
+    expect(enabledSquares()).toEqual([
+      'square-4-1',
+      'square-4-3',
+      'square-5-0',
+      'square-5-2',
+      'square-5-4',
+      'square-5-6'
+    ]);
+
+    fireEvent.click(screen.getByTestId('square-4-3'));
+    expect(onMoveChange).toHaveBeenCalledWith({
+      action: 'move',
+      parameters: {
+        path: [
+          { row: 5, col: 2 },
+          { row: 4, col: 3 }
+        ]
+      }
+    });
+    expect(screen.getByTestId('move-status')).toHaveTextContent('Move ready');
+  });
+
+  it('should build a multi-jump one landing square at a time', () => {
+    const onMoveChange = vi.fn();
+    render(
+      <CheckersMoveInput gameState={createTestGameState(doubleJump)} onMoveChange={onMoveChange} />
+    );
+
+    expect(screen.getByTestId('move-status')).toHaveTextContent('a capture is required');
+    fireEvent.click(screen.getByTestId('square-6-1'));
+    fireEvent.click(screen.getByTestId('square-4-3'));
+
+    expect(onMoveChange).not.toHaveBeenCalled();
+    expect(screen.getByTestId('move-status')).toHaveTextContent('Keep jumping');
+    expect(enabledSquares()).toEqual(['square-2-1', 'square-2-5', 'square-6-1']);
+
+    fireEvent.click(screen.getByTestId('square-2-5'));
+    expect(onMoveChange).toHaveBeenCalledWith({
+      action: 'move',
+      parameters: {
+        path: [
+          { row: 6, col: 1 },
+          { row: 4, col: 3 },
+          { row: 2, col: 5 }
+        ]
+      }
+    });
+  });
+
+  it('should start over when the picked piece is clicked again', () => {
+    render(
+      <CheckersMoveInput gameState={createTestGameState(doubleJump)} onMoveChange={vi.fn()} />
+    );
+
+    fireEvent.click(screen.getByTestId('square-6-1'));
+    fireEvent.click(screen.getByTestId('square-4-3'));
+    fireEvent.click(screen.getByTestId('square-6-1'));
+
+    expect(enabledSquares()).toEqual(['square-6-1']);
+    expect(screen.getByTestId('square-6-1')).toHaveAttribute('aria-pressed', 'false');
+  });
+
+  it('should disable every square when disabled', () => {
+    render(<CheckersMoveInput gameState={createTestGameState()} onMoveChange={vi.fn()} disabled />);
+
+    expect(enabledSquares()).toEqual([]);
+  });
+});
@@ -0,0 +1,174 @@
+import { memo, useCallback, useEffect, useMemo, useState } from 'react';
+import type { GameState, MoveInput } from '../types';
+import type { CheckersMetadata, Position } from '../../shared/types';
+import { PLAYER_COLORS } from '../../shared/constants';
+import { countPieces, getLegalMoves, isDarkSquare, isSamePosition } from '../../shared/board';
+import styles from './CheckersMoveInput.module.css';
+
+export interface CheckersMoveInputProps {
+  gameState: GameState<CheckersMetadata>;
+  onMoveChange: (move: MoveInput) => void;
+  disabled?: boolean;
+}
+
+const COLUMN_LETTERS = 'abcdefgh';
+
+/**
+ * Checks if the first path is the start of the second
+ */
+function isPrefixOf(prefix: Position[], path: Position[]): boolean {
+  return (
+    prefix.length <= path.length &&
+    prefix.every((position, index) => isSamePosition(position, path[index]))
+  );
+}
+
+export const CheckersMoveInput = memo(function CheckersMoveInput({
+  gameState,
+  onMoveChange,
+  disabled = false
+}: CheckersMoveInputProps) {
+  const board = gameState.metadata.board;
+  const currentColor = PLAYER_COLORS[gameState.currentPlayerIndex];
+  const pieceCounts = gameState.metadata.pieceCounts ?? countPieces(board);
+
+  // Squares picked so far: the piece, then each square it lands on
+  const [path, setPath] = useState<Position[]>([]);
+
+  // Start over whenever the game moves on
+  useEffect(() => {
+    setPath([]);
+  }, [gameState.version]);
+
+  const legalMoves = useMemo(
+    () => (currentColor ? getLegalMoves(board, currentColor) : []),
+    [board, currentColor]
+  );
+
+  /**
+   * Legal moves that begin with the squares picked so far
+   */
+  const candidates = useMemo(
+    () => legalMoves.filter((move) => isPrefixOf(path, move.path)),
+    [legalMoves, path]
+  );
+
+  const isComplete = path.length > 0 && candidates.some((move) => move.path.length === path.length);
+
+  /**
+   * Squares the picked piece can land on next, as "row-col" keys
+   */
+  const nextSquares = useMemo(() => {
+    const squares = new Set<string>();
+    if (path.length > 0 && !isComplete) {
+      for (const move of candidates) {
+        const next = move.path[path.length];
+        squares.add(`${next.row}-${next.col}`);
+      }
+    }
+    return squares;
+  }, [candidates, path, isComplete]);
+
+  /**
+   * Pieces that can be picked: any movable piece until the picked one has moved,
+   * then only the picked piece, to start over
+   */
+  const pieceSquares = useMemo(() => {
+    if (path.length > 1) {
+      return new Set([`${path[0].row}-${path[0].col}`]);
+    }
+    return new Set(legalMoves.map((move) => `${move.path[0].row}-${move.path[0].col}`));
+  }, [legalMoves, path]);
+
+  /**
+   * Handle square click
+   */
+  const handleSquareClick = useCallback(
+    (row: number, col: number) => {
+      const key = `${row}-${col}`;
+      if (disabled) {
+        return;
+      }
+
+      const position = { row, col };
+      if (nextSquares.has(key)) {
+        const nextPath = [...path, position];
+        setPath(nextPath);
+        if (
+          legalMoves.some(
+            (move) => move.path.length === nextPath.length && isPrefixOf(nextPath, move.path)
+          )
+        ) {
+          onMoveChange({
+            action: 'move',
+            parameters: { path: nextPath }
+          });
+        }
+      } else if (pieceSquares.has(key)) {
+        const isPicked = path.length > 0 && isSamePosition(path[0], position);
+        setPath(isPicked ? [] : [position]);
+      }
+    },
+    [disabled, nextSquares, pieceSquares, legalMoves, path, onMoveChange]
+  );
+
+  const getStatus = (): string => {
+    if (path.length === 0) {
+      return legalMoves.some((move) => move.captured.length > 0)
+        ? 'Select a piece - a capture is required'
+        : 'Select a piece to move';
+    }
+    if (isComplete) {
+      return 'Move ready';
+    }
+    return path.length === 1 ? 'Select where to move' : 'Keep jumping';
+  };
+
+  return (
+    <div className={styles.checkersInput} role="group" aria-label="Checkers move selection">
+      <div className={styles.grid}>
+        {board.map((cells, row) =>
+          cells.map((cell, col) => {
+            const key = `${row}-${col}`;
+            const isClickable = !disabled && (nextSquares.has(key) || pieceSquares.has(key));
+            const isPicked = path.some((position) => isSamePosition(position, { row, col }));
+            const name = `${COLUMN_LETTERS[col] ?? col + 1}${row + 1}`;
+            const classNames = [
+              styles.square,
+              isDarkSquare(row, col) ? styles.dark : styles.light,
+              isClickable ? styles.clickable : '',
+              isPicked ? styles.picked : ''
+            ];
+
+            return (
+              <button
+                key={key}
+                data-testid={`square-${row}-${col}`}
+                className={classNames.join(' ')}
+                onClick={() => handleSquareClick(row, col)}
+                disabled={!isClickable}
+                type="button"
+                aria-label={
+                  cell ? `${name}: ${cell.color} ${cell.king ? 'king' : 'man'}` : `${name}: empty`
+                }
+                aria-pressed={isPicked}
+              >
+                {cell && (
+                  <span
+                    className={`${styles.piece} ${styles[cell.color]} ${cell.king ? styles.king : ''}`}
+                  />
+                )}
+              </button>
+            );
+          })
+        )}
+      </div>
+      <p className={styles.status} data-testid="move-status">
+        {getStatus()}
+      </p>
+      <p className={styles.score} data-testid="piece-counts">
+        Black {pieceCounts.black} – White {pieceCounts.white}
+      </p>
+    </div>
+  );
+});
@@ -0,0 +1,7 @@
+/**
+ * Checkers UI components
+ * Exports React components for game interaction
+ */
+
+export { CheckersMoveInput } from './components/CheckersMoveInput';
+export type { CheckersMoveInputProps } from './components/CheckersMoveInput';
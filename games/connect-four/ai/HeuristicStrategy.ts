@@ -0,0 +1,143 @@
+/**
+ * Heuristic AI Strategy for Connect Four
+ *
+ * Looks one move ahead using simple rules:
+ * 1. Takes immediate wins
+ * 2. Blocks the opponent's immediate wins
+ * 3. Avoids moves that let the opponent win straight after, such as playing under
+ *    their winning cell
+ * 4. Otherwise plays the move with the best board evaluation
+ *
+ * Under PopOut, pops of its own bottom discs count as moves at every step, and the
+ * opponent's pops count as threats.
+ */
+
+import { AIStrategy } from '../../../src/domain/interfaces';
+import { GameState, Move } from '../../../src/domain/models';
+import { CellState, PlayerColor } from '../shared/types';
+import { applyGravity, removeBottomDisc } from '../engine/gravity';
+import { checkWinInColumn } from '../engine/rules';
+import {
+  createDropMove,
+  createFallbackMove,
+  createPopMove,
+  evaluateBoard,
+  findWinningColumn,
+  findWinningPop,
+  getBoard,
+  getConnectLength,
+  getOpponentColor,
+  getPlayerColor,
+  getPopColumns,
+  getValidColumns,
+  isPopOut,
+} from './search';
+
+/**
+ * A move the strategy considers, with the board it leads to
+ */
+interface Candidate {
+  move: Move;
+  board: CellState[][];
+  /** true if the move completes a line for the opponent (a pop can) */
+  losing: boolean;
+}
+
+export class HeuristicStrategy implements AIStrategy {
+  readonly id = 'heuristic';
+  readonly name = 'Heuristic';
+  readonly description = 'Wins and blocks when it can, otherwise favours the center and open lines';
+  readonly difficulty = 'medium';
+
+  async generateMove(state: GameState, aiPlayerId: string): Promise<Move> {
+    const board = getBoard(state);
+    const color = getPlayerColor(state, aiPlayerId);
+    const opponent = getOpponentColor(color);
+    const connect = getConnectLength(state);
+    const popOut = isPopOut(state);
+
+    const columns = getValidColumns(board);
+    if (columns.length === 0) {
+      return createFallbackMove(state, color);
+    }
+
+    const winningColumn = findWinningColumn(board, color, connect);
+    if (winningColumn !== null) {
+      return createDropMove(winningColumn);
+    }
+
+    const winningPop = popOut ? findWinningPop(board, color, connect) : null;
+    if (winningPop !== null) {
+      return createPopMove(winningPop);
+    }
+
+    const blockingColumn = findWinningColumn(board, opponent, connect);
+    if (blockingColumn !== null) {
+      return createDropMove(blockingColumn);
+    }
+
+    const candidates: Candidate[] = columns.map((column) => ({
+      move: createDropMove(column),
+      board: applyGravity(board, column, color).board,
+      losing: false,
+    }));
+    if (popOut) {
+      for (const column of getPopColumns(board, color)) {
+        const next = removeBottomDisc(board, column);
+        candidates.push({
+          move: createPopMove(column),
+          board: next,
+          losing: checkWinInColumn(next, column, opponent, connect),
+        });
+      }
+    }
+
+    let best = candidates[0];
+    let bestScore = -Infinity;
+    for (const candidate of candidates) {
+      const score =
+        candidate.losing || this.canWinNext(candidate.board, opponent, connect, popOut)
+          ? -Infinity
+          : evaluateBoard(candidate.board, color, connect);
+      if (score > bestScore) {
+        bestScore = score;
+        best = candidate;
+      }
+    }
+
+    return best.move;
+  }
+
+  /**
+   * Check whether a color has an immediate win, by drop or (under PopOut) by pop
+   * @private
+   */
+  private canWinNext(
+    board: CellState[][],
+    color: PlayerColor,
+    connect: number,
+    popOut: boolean
+  ): boolean {
+    return (
+      findWinningColumn(board, color, connect) !== null ||
+      (popOut && findWinningPop(board, color, connect) !== null)
+    );
+  }
+
+  /**
+   * Get the maximum time this strategy should take to generate a move
+   * @returns 200ms - a single ply of evaluation is fast
+   */
+  getTimeLimit(): number {
+    return 200;
+  }
+
+  /**
+   * Validate configuration (no special configuration needed for this strategy)
+   * @param config Configuration to validate
+   * @returns Always true as no configuration is required
+   */
+  validateConfiguration(_config: Record<string, any>): boolean {
+    return true;
+  }
+}
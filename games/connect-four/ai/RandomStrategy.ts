@@ -0,0 +1,49 @@
+/**
+ * Random AI Strategy for Connect Four
+ *
+ * Drops a disc into a random column that still has room.
+ * Provides an easy opponent for beginners.
+ */
+
+import { AIStrategy } from '../../../src/domain/interfaces';
+import { GameState, Move } from '../../../src/domain/models';
+import {
+  createDropMove,
+  createFallbackMove,
+  getBoard,
+  getPlayerColor,
+  getValidColumns,
+} from './search';
+
+export class RandomStrategy implements AIStrategy {
+  readonly id = 'random';
+  readonly name = 'Random';
+  readonly description = 'Drops discs into random columns - perfect for beginners';
+  readonly difficulty = 'easy';
+
+  async generateMove(state: GameState, aiPlayerId: string): Promise<Move> {
+    const columns = getValidColumns(getBoard(state));
+    if (columns.length === 0) {
+      return createFallbackMove(state, getPlayerColor(state, aiPlayerId));
+    }
+
+    return createDropMove(columns[Math.floor(Math.random() * columns.length)]);
+  }
+
+  /**
+   * Get the maximum time this strategy should take to generate a move
+   * @returns 100ms - should be very fast for random selection
+   */
+  getTimeLimit(): number {
+    return 100;
+  }
+
+  /**
+   * Validate configuration (no special configuration needed for this strategy)
+   * @param config Configuration to validate
+   * @returns Always true as no configuration is required
+   */
+  validateConfiguration(_config: Record<string, any>): boolean {
+    return true;
+  }
+}
@@ -0,0 +1,291 @@
+import { AlphaBetaStrategy, HeuristicStrategy, RandomStrategy } from '../index';
+import {
+  evaluateBoard,
+  findWinningColumn,
+  findWinningPop,
+  getValidColumns,
+  searchBestColumn,
+  WIN_SCORE,
+} from '../search';
+import { ConnectFourEngine } from '../../engine/ConnectFourEngine';
+import { CellState, ConnectFourMetadata } from '../../shared/types';
+import { GameState, Player } from '../../../../src/domain/models';
+
+/**
+ * Builds a board from rows written top to bottom
+ * R = red, Y = yellow, . = empty
+ */
+function parseBoard(rows: string[]): CellState[][] {
+  return rows.map((row) =>
+    row.split('').map((cell) => (cell === 'R' ? 'red' : cell === 'Y' ? 'yellow' : null))
+  );
+}
+
+describe('Connect Four AI Strategies', () => {
+  const engine = new ConnectFourEngine();
+
+  const createPlayers = (aiMetadata?: Record<string, any>): Player[] => [
+    { id: 'red-player', name: 'Red', joinedAt: new Date(), metadata: aiMetadata },
+    { id: 'yellow-player', name: 'Yellow', joinedAt: new Date() },
+  ];
+
+  function createState(
+    rows: string[],
+    aiMetadata?: Record<string, any>,
+    customSettings?: Record<string, unknown>
+  ): GameState<ConnectFourMetadata> {
+    const state = engine.initializeGame(createPlayers(aiMetadata), { customSettings });
+    return { ...state, metadata: { ...state.metadata, board: parseBoard(rows) } };
+  }
+
+  const emptyRows = ['.......', '.......', '.......', '.......', '.......', '.......'];
+
+  // Red can win by dropping into column 3
+  const redWinsInColumn3 = ['.......', '.......', '.......', '.......', 'YYY....', 'RRR.Y..'];
+
+  // Yellow threatens three in a row on the bottom; red must play column 3
+  const yellowThreatensColumn3 = ['.......', '.......', '.......', '.......', '.......', 'YYY.RR.'];
+
+  // Under PopOut, popping red's bottom disc in column 3 completes red's second row
+  const redPopWinsInColumn3 = ['.......', '.......', '.......', '...R...', 'RRRY...', 'YYYR...'];
+
+  // The same position with the colors swapped: yellow threatens to win by popping column 3
+  const yellowThreatensPopInColumn3 = [
+    '.......',
+    '.......',
+    '.......',
+    '...Y...',
+    'YYYR...',
+    'RRRY...',
+  ];
+
+  describe('search helpers', () => {
+    it('should list columns with room, center first', () => {
+      const board = parseBoard(['...R...', '...Y...', '...R...', '...Y...', '...R...', '...Y...']);
+
+      expect(getValidColumns(board)).toEqual([2, 4, 1, 5, 0, 6]);
+    });
+
+    it('should find an immediate win', () => {
+      expect(findWinningColumn(parseBoard(redWinsInColumn3), 'red')).toBe(3);
+      expect(findWinningColumn(parseBoard(emptyRows), 'red')).toBeNull();
+    });
+
+    it('should find an immediate pop win', () => {
+      expect(findWinningPop(parseBoard(redPopWinsInColumn3), 'red')).toBe(3);
+      expect(findWinningPop(parseBoard(redPopWinsInColumn3), 'yellow')).toBeNull();
+    });
+
+    it('should evaluate positions symmetrically', () => {
+      const board = parseBoard(yellowThreatensColumn3);
+
+      expect(evaluateBoard(board, 'yellow')).toBeGreaterThan(0);
+      expect(evaluateBoard(board, 'red')).toBe(-evaluateBoard(board, 'yellow'));
+    });
+
+    it('should see a forced win two moves ahead', () => {
+      // Red plays column 2 or 5 to threaten both ends of an open three
+      const board = parseBoard(['.......', '.......', '.......', '.......', '.......', '..RR...']);
+
+      const result = searchBestColumn(board, 'red', 4, 1000);
+
+      expect([1, 4]).toContain(result.column);
+      expect(result.score).toBeGreaterThanOrEqual(WIN_SCORE);
+    });
+
+    it('should stop deepening when the time budget runs out', () => {
+      const result = searchBestColumn(parseBoard(emptyRows), 'red', 42, 50);
+
+      expect(result.depth).toBeGreaterThanOrEqual(1);
+      expect(result.depth).toBeLessThan(42);
+      expect(getValidColumns(parseBoard(emptyRows))).toContain(result.column);
+    });
+
+    it('should search pops only under PopOut', () => {
+      const board = parseBoard(redPopWinsInColumn3);
+
+      expect(searchBestColumn(board, 'red', 4, 1000, 4, true)).toMatchObject({
+        action: 'pop',
+        column: 3,
+      });
+      expect(searchBestColumn(board, 'red', 4, 1000).action).toBe('drop');
+    });
+
+    it('should throw when the board is full', () => {
+      const full = parseBoard(['RYRYRYR', 'RYRYRYR', 'YRYRYRY', 'YRYRYRY', 'RYRYRYR', 'RYRYRYR']);
+
+      expect(() => searchBestColumn(full, 'red', 4, 100)).toThrow('No valid moves available');
+    });
+  });
+
+  describe('RandomStrategy', () => {
+    const strategy = new RandomStrategy();
+
+    it('should drop into a column with room', async () => {
+      const state = createState(['.RRRRRR', '.YYYYYY', '.RRRRRR', '.YYYYYY', '.RRRRRR', '.YYYYYY']);
+
+      const move = await strategy.generateMove(state, 'red-player');
+
+      expect(move.action).toBe('drop');
+      expect(move.parameters.column).toBe(0);
+    });
+
+    it('should be an easy strategy', () => {
+      expect(strategy.difficulty).toBe('easy');
+      expect(strategy.getTimeLimit()).toBe(100);
+    });
+  });
+
+  describe('HeuristicStrategy', () => {
+    const strategy = new HeuristicStrategy();
+
+    it('should take an immediate win', async () => {
+      const move = await strategy.generateMove(createState(redWinsInColumn3), 'red-player');
+
+      expect(move.parameters.column).toBe(3);
+    });
+
+    it('should block an immediate loss', async () => {
+      const move = await strategy.generateMove(createState(yellowThreatensColumn3), 'red-player');
+
+      expect(move.parameters.column).toBe(3);
+    });
+
+    it('should open in the center', async () => {
+      const move = await strategy.generateMove(createState(emptyRows), 'red-player');
+
+      expect(move.parameters.column).toBe(3);
+    });
+
+    it('should not play under an opponent win', async () => {
+      // Yellow wins at row 3 of column 6 once a disc lands below it
+      const state = createState(['.......', '.......', '...YYY.', '...RRY.', '..RYRR.', '.RYRYR.']);
+
+      const move = await strategy.generateMove(state, 'red-player');
+
+      expect(move.parameters.column).not.toBe(6);
+    });
+
+    it('should take a winning pop under PopOut', async () => {
+      const state = createState(redPopWinsInColumn3, undefined, { popOut: true });
+
+      const move = await strategy.generateMove(state, 'red-player');
+
+      expect(move.action).toBe('pop');
+      expect(move.parameters.column).toBe(3);
+    });
+
+    it('should defuse an opponent pop win under PopOut', async () => {
+      // Popping any of red's bottom discs breaks up yellow's second row before it is complete
+      const state = createState(yellowThreatensPopInColumn3, undefined, { popOut: true });
+
+      const move = await strategy.generateMove(state, 'red-player');
+
+      expect(move.action).toBe('pop');
+      expect([0, 1, 2]).toContain(move.parameters.column);
+    });
+
+    it('should not pop when PopOut is off', async () => {
+      const move = await strategy.generateMove(createState(redPopWinsInColumn3), 'red-player');
+
+      expect(move.action).toBe('drop');
+    });
+  });
+
+  describe('AlphaBetaStrategy', () => {
+    const strategy = new AlphaBetaStrategy(1000);
+
+    it('should take an immediate win', async () => {
+      const move = await strategy.generateMove(createState(redWinsInColumn3), 'red-player');
+
+      expect(move.parameters.column).toBe(3);
+    });
+
+    it('should block an immediate loss', async () => {
+      const move = await strategy.generateMove(createState(yellowThreatensColumn3), 'red-player');
+
+      expect(move.parameters.column).toBe(3);
+    });
+
+    it('should play for the yellow player', async () => {
+      const state = {
+        ...createState(
+          redWinsInColumn3.map((row) =>
+            row.replace(/R/g, 'x').replace(/Y/g, 'R').replace(/x/g, 'Y')
+          )
+        ),
+        currentPlayerIndex: 1,
+      };
+
+      const move = await strategy.generateMove(state, 'yellow-player');
+
+      expect(move.parameters.column).toBe(3);
+    });
+
+    it('should take a winning pop under PopOut', async () => {
+      const state = createState(redPopWinsInColumn3, undefined, { popOut: true });
+
+      const move = await strategy.generateMove(state, 'red-player');
+
+      expect(move.action).toBe('pop');
+      expect(move.parameters.column).toBe(3);
+    });
+
+    it('should defuse an opponent pop win under PopOut', async () => {
+      // No drop stops yellow's pop in column 3; popping one of red's discs under the row does
+      const state = createState(yellowThreatensPopInColumn3, undefined, { popOut: true });
+
+      const move = await strategy.generateMove(state, 'red-player');
+
+      expect(move.action).toBe('pop');
+      expect([0, 1, 2]).toContain(move.parameters.column);
+    });
+
+    it('should map difficulty to search depth', () => {
+      expect(
+        strategy.getSearchDepth(createState(emptyRows, { difficulty: 'easy' }), 'red-player')
+      ).toBe(2);
+      expect(
+        strategy.getSearchDepth(createState(emptyRows, { difficulty: 'medium' }), 'red-player')
+      ).toBe(4);
+      expect(strategy.getSearchDepth(createState(emptyRows), 'red-player')).toBe(8);
+    });
+
+    it('should prefer a configured depth over the difficulty', () => {
+      const state = createState(emptyRows, { difficulty: 'easy', configuration: { depth: 6 } });
+
+      expect(strategy.getSearchDepth(state, 'red-player')).toBe(6);
+    });
+
+    it('should validate the configured depth', () => {
+      expect(strategy.validateConfiguration({})).toBe(true);
+      expect(strategy.validateConfiguration({ depth: 5 })).toBe(true);
+      expect(strategy.validateConfiguration({ depth: 0 })).toBe(false);
+      expect(strategy.validateConfiguration({ depth: 2.5 })).toBe(false);
+      expect(strategy.validateConfiguration({ depth: 'deep' })).toBe(false);
+    });
+
+    it('should answer within its time limit even at full depth', async () => {
+      const fast = new AlphaBetaStrategy(200);
+      const state = createState(emptyRows, { configuration: { depth: 42 } });
+
+      const start = Date.now();
+      const move = await fast.generateMove(state, 'red-player');
+
+      expect(Date.now() - start).toBeLessThan(fast.getTimeLimit());
+      expect(move.parameters.column).toBeGreaterThanOrEqual(0);
+    });
+
+    it('should produce moves the engine accepts', async () => {
+      let state = engine.initializeGame(createPlayers(), {});
+
+      for (let turn = 0; turn < 6; turn++) {
+        const playerId = state.players[state.currentPlayerIndex].id;
+        const move = await new AlphaBetaStrategy(300).generateMove(state, playerId);
+
+        expect(engine.validateMove(state, playerId, { ...move, playerId }).valid).toBe(true);
+        state = engine.applyMove(state, playerId, move);
+      }
+    });
+  });
+});
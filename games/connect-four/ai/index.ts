@@ -0,0 +1,15 @@
+/**
+ * Connect Four AI Strategies
+ *
+ * This module exports all AI strategies available for Connect Four games.
+ * Each strategy implements the AIStrategy interface and provides different
+ * levels of gameplay difficulty and behavior.
+ */
+
+export { RandomStrategy } from './RandomStrategy';
+export { HeuristicStrategy } from './HeuristicStrategy';
+export { AlphaBetaStrategy, DIFFICULTY_DEPTHS, MAX_SEARCH_DEPTH } from './AlphaBetaStrategy';
+export * from './search';
+
+// Re-export types for convenience
+export type { AIStrategy } from '../../../src/domain/interfaces';
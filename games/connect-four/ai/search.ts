@@ -0,0 +1,483 @@
+/**
+ * Connect Four AI search module
+ * Board evaluation and a time-limited alpha-beta search shared by the AI strategies.
+ * Disc placement and win detection reuse the engine's gravity and rules modules.
+ * Board size comes from the board itself and line length from the game's variant,
+ * so every variant is searched with its own rules. Under PopOut the alpha-beta search
+ * also considers popping the mover's own bottom discs, after the drops.
+ */
+
+import { GameState, Move } from '../../../src/domain/models';
+import { CellState, ConnectFourMetadata, PlayerColor } from '../shared/types';
+import { WIN_LENGTH, DIRECTIONS } from '../shared/constants';
+import { applyGravity, findLowestEmptyRow, removeBottomDisc } from '../engine/gravity';
+import { checkWinFromPosition, checkWinInColumn } from '../engine/rules';
+import { assignPlayerColors } from '../engine/initialization';
+import { canPopColumn } from '../engine/validation';
+import { getVariant } from '../engine/variant';
+
+/**
+ * Score of a won position; wins found with more depth left are scored higher
+ */
+export const WIN_SCORE = 1_000_000;
+
+/**
+ * How often (in visited nodes) the search checks its deadline
+ */
+const DEADLINE_CHECK_INTERVAL = 1024;
+
+type Window = Array<[number, number]>;
+
+const windowCache = new Map<string, Window[]>();
+const columnOrderCache = new Map<number, number[]>();
+
+/**
+ * Lists every line of `connect` cells on a board, built once per board shape
+ */
+function getWindows(rows: number, columns: number, connect: number): Window[] {
+  const key = `${rows}x${columns}x${connect}`;
+  const cached = windowCache.get(key);
+  if (cached) {
+    return cached;
+  }
+
+  const windows: Window[] = [];
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < columns; col++) {
+      for (const direction of Object.values(DIRECTIONS)) {
+        const cells: Window = [];
+        for (let i = 0; i < connect; i++) {
+          cells.push([row + direction.row * i, col + direction.col * i]);
+        }
+        if (cells.every(([r, c]) => r >= 0 && r < rows && c >= 0 && c < columns)) {
+          windows.push(cells);
+        }
+      }
+    }
+  }
+
+  windowCache.set(key, windows);
+  return windows;
+}
+
+/**
+ * Orders columns from the center outwards
+ * Central columns take part in more lines, so searching them first prunes more.
+ * @param columns - Number of columns on the board
+ * @returns Column indexes, center first (3, 2, 4, 1, 5, 0, 6 on a standard board)
+ */
+export function getCenterFirstColumns(columns: number): number[] {
+  const cached = columnOrderCache.get(columns);
+  if (cached) {
+    return cached;
+  }
+
+  const center = (columns - 1) / 2;
+  const order = Array.from({ length: columns }, (_, col) => col).sort(
+    (a, b) => Math.abs(a - center) - Math.abs(b - center) || a - b
+  );
+
+  columnOrderCache.set(columns, order);
+  return order;
+}
+
+/**
+ * A move considered by the search
+ */
+export interface SearchMove {
+  action: 'drop' | 'pop';
+  column: number;
+}
+
+/**
+ * Result of a search
+ */
+export interface SearchResult {
+  column: number;
+  action: SearchMove['action'];
+  score: number;
+  /** Deepest fully searched depth */
+  depth: number;
+}
+
+class SearchTimeout extends Error {}
+
+/**
+ * Gets the opposing color
+ * @param color - Player color
+ * @returns The other player's color
+ */
+export function getOpponentColor(color: PlayerColor): PlayerColor {
+  return color === 'red' ? 'yellow' : 'red';
+}
+
+/**
+ * Gets the color an AI player plays with
+ * @param state - Current game state
+ * @param aiPlayerId - ID of the AI player
+ * @returns The AI player's color
+ * @throws Error if the player is not in the game
+ */
+export function getPlayerColor(state: GameState, aiPlayerId: string): PlayerColor {
+  const color = assignPlayerColors(state.players).get(aiPlayerId);
+  if (!color) {
+    throw new Error(`Player ${aiPlayerId} not found in game`);
+  }
+  return color;
+}
+
+/**
+ * Gets the board from a Connect Four game state
+ */
+export function getBoard(state: GameState): CellState[][] {
+  return (state as GameState<ConnectFourMetadata>).metadata.board;
+}
+
+/**
+ * Checks whether a game is played with the PopOut rule
+ */
+export function isPopOut(state: GameState): boolean {
+  return getVariant((state as GameState<ConnectFourMetadata>).metadata).popOut;
+}
+
+/**
+ * Gets the number of discs in a row needed to win a game
+ */
+export function getConnectLength(state: GameState): number {
+  return getVariant((state as GameState<ConnectFourMetadata>).metadata).connect;
+}
+
+/**
+ * Lists columns that still have room, center first
+ * @param board - Current board state
+ * @returns Playable column indexes
+ */
+export function getValidColumns(board: CellState[][]): number[] {
+  return getCenterFirstColumns(board[0].length).filter(
+    (column) => findLowestEmptyRow(board, column) !== null
+  );
+}
+
+/**
+ * Lists columns whose bottom disc a color may pop (PopOut variant), center first
+ * @param board - Current board state
+ * @param color - Color of the player popping
+ * @returns Poppable column indexes
+ */
+export function getPopColumns(board: CellState[][], color: PlayerColor): number[] {
+  return getCenterFirstColumns(board[0].length).filter((column) =>
+    canPopColumn(board, column, color)
+  );
+}
+
+/**
+ * Finds a pop that wins immediately for a color (PopOut variant)
+ * A pop that completes lines for both players is won by the player who popped.
+ * @param board - Current board state
+ * @param color - Color to find a win for
+ * @param connect - Discs in a row needed to win (4 by default)
+ * @returns Column to pop, or null if there is none
+ */
+export function findWinningPop(
+  board: CellState[][],
+  color: PlayerColor,
+  connect: number = WIN_LENGTH
+): number | null {
+  for (const column of getPopColumns(board, color)) {
+    if (checkWinInColumn(removeBottomDisc(board, column), column, color, connect)) {
+      return column;
+    }
+  }
+  return null;
+}
+
+/**
+ * Finds a column that wins immediately for a color
+ * @param board - Current board state
+ * @param color - Color to find a win for
+ * @param connect - Discs in a row needed to win (4 by default)
+ * @returns Winning column, or null if there is none
+ */
+export function findWinningColumn(
+  board: CellState[][],
+  color: PlayerColor,
+  connect: number = WIN_LENGTH
+): number | null {
+  for (const column of getValidColumns(board)) {
+    const { board: next, row } = applyGravity(board, column, color);
+    if (checkWinFromPosition(next, row, column, color, connect)) {
+      return column;
+    }
+  }
+  return null;
+}
+
+/**
+ * Scores a single line of cells for a color
+ * Lines still open to both players score nothing.
+ */
+function scoreWindow(own: number, opponent: number, connect: number): number {
+  if (opponent > 0) {
+    return 0;
+  }
+  if (own === connect - 1) {
+    return 5;
+  }
+  if (own === connect - 2) {
+    return 2;
+  }
+  return 0;
+}
+
+/**
+ * Evaluates a position from one player's point of view
+ * Counts open lines with two or three discs and rewards discs in the center column.
+ * The score is symmetric: evaluating for the opponent gives the negated value.
+ * @param board - Current board state
+ * @param color - Player to evaluate for
+ * @param connect - Discs in a row needed to win (4 by default)
+ * @returns Positive when the position favours `color`
+ */
+export function evaluateBoard(
+  board: CellState[][],
+  color: PlayerColor,
+  connect: number = WIN_LENGTH
+): number {
+  const opponent = getOpponentColor(color);
+  const rows = board.length;
+  const columns = board[0].length;
+  let score = 0;
+
+  for (const window of getWindows(rows, columns, connect)) {
+    let own = 0;
+    let theirs = 0;
+    for (const [row, col] of window) {
+      const cell = board[row][col];
+      if (cell === color) own++;
+      else if (cell === opponent) theirs++;
+    }
+    score += scoreWindow(own, theirs, connect) - scoreWindow(theirs, own, connect);
+  }
+
+  const center = Math.floor(columns / 2);
+  for (let row = 0; row < rows; row++) {
+    if (board[row][center] === color) score += 3;
+    else if (board[row][center] === opponent) score -= 3;
+  }
+
+  return score;
+}
+
+/**
+ * Lists the moves a color can make, drops first, each center first
+ * @param board - Current board state
+ * @param color - Color to move
+ * @param popOut - Whether pops of the color's own bottom discs are allowed
+ */
+function listSearchMoves(board: CellState[][], color: PlayerColor, popOut: boolean): SearchMove[] {
+  const drops = getValidColumns(board).map((column): SearchMove => ({ action: 'drop', column }));
+  if (!popOut) {
+    return drops;
+  }
+  const pops = getPopColumns(board, color).map((column): SearchMove => ({ action: 'pop', column }));
+  return [...drops, ...pops];
+}
+
+/**
+ * Plays a move on a copy of the board
+ * A pop can complete lines for either player; if it completes both, the popper wins.
+ * @returns The new board, and the color that won with this move, if any
+ */
+function playSearchMove(
+  board: CellState[][],
+  move: SearchMove,
+  color: PlayerColor,
+  connect: number
+): { board: CellState[][]; winner: PlayerColor | null } {
+  if (move.action === 'pop') {
+    const next = removeBottomDisc(board, move.column);
+    const opponent = getOpponentColor(color);
+    const winner = checkWinInColumn(next, move.column, color, connect)
+      ? color
+      : checkWinInColumn(next, move.column, opponent, connect)
+        ? opponent
+        : null;
+    return { board: next, winner };
+  }
+
+  const { board: next, row } = applyGravity(board, move.column, color);
+  return {
+    board: next,
+    winner: checkWinFromPosition(next, row, move.column, color, connect) ? color : null,
+  };
+}
+
+/**
+ * Searches for the best move with iterative deepening alpha-beta (negamax)
+ * Each depth is searched in full before the next one starts, and the best move of
+ * the last finished depth is searched first. When the time budget runs out the
+ * unfinished depth is discarded, so the result always comes from a complete search.
+ * @param board - Current board state
+ * @param color - Color to move
+ * @param maxDepth - Deepest search in plies
+ * @param timeBudgetMs - Time the search may take
+ * @param connect - Discs in a row needed to win (4 by default)
+ * @param popOut - Whether both players may pop their own bottom discs (PopOut variant)
+ * @returns The best move found
+ * @throws Error if there is no move to make
+ */
+export function searchBestColumn(
+  board: CellState[][],
+  color: PlayerColor,
+  maxDepth: number,
+  timeBudgetMs: number,
+  connect: number = WIN_LENGTH,
+  popOut: boolean = false
+): SearchResult {
+  const moves = listSearchMoves(board, color, popOut);
+  if (moves.length === 0) {
+    throw new Error('No valid moves available');
+  }
+
+  const deadline = Date.now() + timeBudgetMs;
+  let nodes = 0;
+
+  const scoreMove = (
+    node: CellState[][],
+    move: SearchMove,
+    toMove: PlayerColor,
+    depth: number,
+    alpha: number,
+    beta: number
+  ): number => {
+    const { board: next, winner } = playSearchMove(node, move, toMove, connect);
+    if (winner) {
+      return winner === toMove ? WIN_SCORE + depth : -(WIN_SCORE + depth);
+    }
+    return -negamax(next, getOpponentColor(toMove), depth - 1, -beta, -alpha);
+  };
+
+  const negamax = (
+    node: CellState[][],
+    toMove: PlayerColor,
+    depth: number,
+    alpha: number,
+    beta: number
+  ): number => {
+    if (++nodes % DEADLINE_CHECK_INTERVAL === 0 && Date.now() > deadline) {
+      throw new SearchTimeout();
+    }
+
+    const nodeMoves = listSearchMoves(node, toMove, popOut);
+    if (nodeMoves.length === 0) {
+      return 0;
+    }
+    if (depth === 0) {
+      return evaluateBoard(node, toMove, connect);
+    }
+
+    let best = -Infinity;
+    for (const move of nodeMoves) {
+      const score = scoreMove(node, move, toMove, depth, alpha, beta);
+
+      if (score > best) best = score;
+      if (best > alpha) alpha = best;
+      if (alpha >= beta) break;
+    }
+    return best;
+  };
+
+  let bestMove = moves[0];
+  let result: SearchResult = { ...bestMove, score: 0, depth: 0 };
+
+  for (let depth = 1; depth <= maxDepth; depth++) {
+    const ordered = [bestMove, ...moves.filter((move) => move !== bestMove)];
+    let depthBest = ordered[0];
+    let bestScore = -Infinity;
+    let alpha = -Infinity;
+
+    try {
+      for (const move of ordered) {
+        const score = scoreMove(board, move, color, depth, alpha, Infinity);
+
+        if (score > bestScore) {
+          bestScore = score;
+          depthBest = move;
+        }
+        if (bestScore > alpha) alpha = bestScore;
+      }
+    } catch (error) {
+      if (error instanceof SearchTimeout) {
+        break;
+      }
+      throw error;
+    }
+
+    bestMove = depthBest;
+    result = { ...bestMove, score: bestScore, depth };
+
+    // A forced win or loss will not change with more depth
+    if (Math.abs(bestScore) >= WIN_SCORE) {
+      break;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Creates a drop move for a column
+ * @param column - Column to drop into
+ * @returns Move object; the player ID is set by the calling service
+ */
+export function createDropMove(column: number): Move {
+  return {
+    playerId: '', // Will be set by the calling service
+    action: 'drop',
+    parameters: { column },
+    timestamp: new Date(),
+  };
+}
+
+/**
+ * Creates a pop move for a column (PopOut variant)
+ * @param column - Column to pop the bottom disc from
+ * @returns Move object; the player ID is set by the calling service
+ */
+export function createPopMove(column: number): Move {
+  return {
+    playerId: '', // Will be set by the calling service
+    action: 'pop',
+    parameters: { column },
+    timestamp: new Date(),
+  };
+}
+
+/**
+ * Chooses a move when no column has room
+ * Under PopOut the AI pops one of its own bottom discs, preferring a pop that
+ * completes its own line, then one that does not complete the opponent's.
+ * @param state - Current game state
+ * @param color - Color of the AI player
+ * @returns A pop move
+ * @throws Error if no move is available
+ */
+export function createFallbackMove(state: GameState, color: PlayerColor): Move {
+  const board = getBoard(state);
+  const { popOut, connect } = getVariant((state as GameState<ConnectFourMetadata>).metadata);
+  const pops = popOut ? getPopColumns(board, color) : [];
+
+  if (pops.length === 0) {
+    throw new Error('No valid moves available');
+  }
+
+  const popped = pops.map((column) => ({ column, next: removeBottomDisc(board, column) }));
+  const choice =
+    popped.find(({ column, next }) => checkWinInColumn(next, column, color, connect)) ??
+    popped.find(
+      ({ column, next }) => !checkWinInColumn(next, column, getOpponentColor(color), connect)
+    ) ??
+    popped[0];
+
+  return createPopMove(choice.column);
+}
@@ -8,9 +8,10 @@
  * Requirements: 10.1
  */
 
-import { BaseGameEngine } from '../../../src/domain/interfaces';
-import { GameState, Player, Move } from '../../../src/domain/models';
+import { BaseGameEngine, AICapableGamePlugin, AIStrategy } from '../../../src/domain/interfaces';
+import { GameState, Player, Move, GameSettingsSchema } from '../../../src/domain/models';
 import { GameConfig, ValidationResult, BoardRenderData } from '../../../src/domain/interfaces';
+import { AIPlayer } from '../../../src/domain/models/AIPlayer';
 import { ConnectFourMetadata, ConnectFourMove } from '../shared/types';
 
 // Import all module functions
@@ -19,14 +20,33 @@ import * as initialization from './initialization';
 import * as validation from './validation';
 import * as rules from './rules';
 import * as renderer from './renderer';
+import * as variants from './variant';
+
+// Import AI strategies
+import { AlphaBetaStrategy, HeuristicStrategy, RandomStrategy } from '../ai';
 
 /**
  * Connect Four game engine implementation
  * 
  * This class acts as a facade, providing a clean interface to the game
  * while delegating to specialized modules for specific functionality.
+ * Also implements AI capabilities through the AICapableGamePlugin interface.
  */
-export class ConnectFourEngine extends BaseGameEngine {
+export class ConnectFourEngine extends BaseGameEngine implements AICapableGamePlugin {
+  private aiStrategies: AIStrategy[];
+  private defaultStrategy: AIStrategy;
+
+  constructor() {
+    super();
+    // Initialize AI strategies
+    this.aiStrategies = [
+      new AlphaBetaStrategy(),
+      new HeuristicStrategy(),
+      new RandomStrategy()
+    ];
+    this.defaultStrategy = this.aiStrategies[0]; // Alpha-beta search as default
+  }
+
   // ===== Private Helper Methods =====
 
   /**
@@ -80,11 +100,16 @@ export class ConnectFourEngine extends BaseGameEngine {
     return metadata.getDescription();
   }
 
+  getConfigSchema(): GameSettingsSchema {
+    return variants.SETTINGS_SCHEMA;
+  }
+
   // ===== Game Initialization =====
 
   initializeGame(players: Player[], config: GameConfig): GameState<ConnectFourMetadata> {
     const gameId = this.generateGameId(config);
-    return initialization.initializeGame(gameId, players);
+    const variant = variants.resolveVariant(config.customSettings);
+    return initialization.initializeGame(gameId, players, variant);
   }
 
   // ===== Move Validation =====
@@ -123,11 +148,23 @@ export class ConnectFourEngine extends BaseGameEngine {
   }
 
   isGameOver(state: GameState<ConnectFourMetadata>): boolean {
-    return rules.isGameOver(state.metadata.board);
+    const variant = variants.getVariant(state.metadata);
+    const colorToMove = variant.popOut
+      ? initialization.assignPlayerColors(state.players).get(this.getCurrentPlayer(state))
+      : undefined;
+
+    return rules.isGameOver(state.metadata.board, variant.connect, colorToMove);
   }
 
   getWinner(state: GameState<ConnectFourMetadata>): string | null {
-    const winningColor = rules.getWinner(state.metadata.board);
+    const variant = variants.getVariant(state.metadata);
+    // If a pop completed lines for both players, the player who popped wins
+    const lastMover = state.metadata.lastMove?.player;
+    const moverColor = lastMover
+      ? initialization.assignPlayerColors(state.players).get(lastMover)
+      : undefined;
+
+    const winningColor = rules.getWinner(state.metadata.board, variant.connect, moverColor);
 
     if (!winningColor) {
       return null;
@@ -142,4 +179,58 @@ export class ConnectFourEngine extends BaseGameEngine {
   renderBoard(state: GameState<ConnectFourMetadata>): BoardRenderData {
     return renderer.renderBoard(state);
   }
+
+  // ===== AI Capabilities =====
+
+  /**
+   * Check if this game plugin supports AI players
+   * @returns true - Connect Four supports AI players
+   */
+  supportsAI(): boolean {
+    return true;
+  }
+
+  /**
+   * Get available AI strategies for Connect Four
+   * @returns Array of available AI strategies
+   */
+  getAIStrategies(): AIStrategy[] {
+    return [...this.aiStrategies]; // Return copy to prevent external modification
+  }
+
+  /**
+   * Get default AI strategy for Connect Four
+   * @returns Default AI strategy (Alpha-Beta Search)
+   */
+  getDefaultAIStrategy(): AIStrategy {
+    return this.defaultStrategy;
+  }
+
+  /**
+   * Create an AI player for Connect Four
+   * The alpha-beta strategy searches deeper for harder difficulties.
+   * @param name Display name for the AI player
+   * @param strategyId ID of the strategy to use (optional, uses default if not provided)
+   * @param difficulty Optional difficulty level
+   * @returns AI player configuration
+   */
+  createAIPlayer(name: string, strategyId?: string, difficulty?: string): AIPlayer {
+    // Find the requested strategy or use default
+    let strategy = this.defaultStrategy;
+    if (strategyId) {
+      const foundStrategy = this.aiStrategies.find(s => s.id === strategyId);
+      if (!foundStrategy) {
+        throw new Error(`AI strategy '${strategyId}' not found for Connect Four`);
+      }
+      strategy = foundStrategy;
+    }
+
+    return new AIPlayer(
+      `ai-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`,
+      name,
+      this.getGameType(),
+      strategy.id,
+      difficulty || strategy.difficulty
+    );
+  }
 }
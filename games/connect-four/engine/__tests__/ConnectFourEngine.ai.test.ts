@@ -0,0 +1,79 @@
+import { ConnectFourEngine } from '../ConnectFourEngine';
+import { AIPlayer } from '../../../../src/domain/models/AIPlayer';
+
+/**
+ * Unit tests for ConnectFourEngine AI Integration
+ */
+describe('ConnectFourEngine AI Integration', () => {
+  let engine: ConnectFourEngine;
+
+  beforeEach(() => {
+    engine = new ConnectFourEngine();
+  });
+
+  describe('AI Support', () => {
+    it('should support AI players', () => {
+      expect(engine.supportsAI()).toBe(true);
+    });
+
+    it('should provide random, heuristic and alpha-beta strategies', () => {
+      const strategyIds = engine.getAIStrategies().map(s => s.id);
+
+      expect(strategyIds).toEqual(expect.arrayContaining(['random', 'heuristic', 'alpha-beta']));
+    });
+
+    it('should give every strategy a time limit', () => {
+      for (const strategy of engine.getAIStrategies()) {
+        expect(strategy.name.length).toBeGreaterThan(0);
+        expect(strategy.description.length).toBeGreaterThan(0);
+        expect(strategy.getTimeLimit?.()).toBeGreaterThan(0);
+      }
+    });
+
+    it('should default to alpha-beta search', () => {
+      const defaultStrategy = engine.getDefaultAIStrategy();
+
+      expect(defaultStrategy.id).toBe('alpha-beta');
+      expect(defaultStrategy.difficulty).toBe('hard');
+    });
+
+    it('should not allow external modification of strategies array', () => {
+      const strategies = engine.getAIStrategies();
+      strategies.pop();
+
+      expect(engine.getAIStrategies()).toHaveLength(3);
+    });
+  });
+
+  describe('AI Player Creation', () => {
+    it('should create AI player with default strategy', () => {
+      const aiPlayer = engine.createAIPlayer('Test AI');
+
+      expect(aiPlayer).toBeInstanceOf(AIPlayer);
+      expect(aiPlayer.name).toBe('Test AI');
+      expect(aiPlayer.gameType).toBe('connect-four');
+      expect(aiPlayer.strategyId).toBe('alpha-beta');
+      expect(aiPlayer.difficulty).toBe('hard');
+    });
+
+    it('should keep alpha-beta and pass difficulty through as search depth', () => {
+      const aiPlayer = engine.createAIPlayer('Easy AI', undefined, 'easy');
+
+      expect(aiPlayer.strategyId).toBe('alpha-beta');
+      expect(aiPlayer.difficulty).toBe('easy');
+    });
+
+    it('should create AI player with specified strategy', () => {
+      const aiPlayer = engine.createAIPlayer('Random AI', 'random');
+
+      expect(aiPlayer.strategyId).toBe('random');
+      expect(aiPlayer.difficulty).toBe('easy');
+    });
+
+    it('should throw error for unknown strategy', () => {
+      expect(() => {
+        engine.createAIPlayer('Invalid AI', 'unknown-strategy');
+      }).toThrow("AI strategy 'unknown-strategy' not found for Connect Four");
+    });
+  });
+});
@@ -0,0 +1,237 @@
+/**
+ * Connect Four variant tests
+ * Tests board size, connect-N and PopOut settings from game creation through play
+ */
+
+import { ConnectFourEngine } from '../ConnectFourEngine';
+import { describeVariant, getVariant, resolveVariant } from '../variant';
+import { removeBottomDisc } from '../gravity';
+import { ConnectFourMetadata, ConnectFourMove } from '../../shared/types';
+import { DEFAULT_VARIANT } from '../../shared/constants';
+import { GameState, GameLifecycle, Player } from '../../../../src/domain/models';
+import { InvalidGameSettingsError } from '../../../../src/domain/errors';
+
+describe('Connect Four Variants', () => {
+  const engine = new ConnectFourEngine();
+
+  const players: Player[] = [
+    { id: 'player1', name: 'Red', joinedAt: new Date() },
+    { id: 'player2', name: 'Yellow', joinedAt: new Date() },
+  ];
+
+  function createGame(settings: Record<string, any> = {}): GameState<ConnectFourMetadata> {
+    const state = engine.initializeGame(players, {
+      customSettings: { gameId: 'variant-test', ...settings },
+    }) as GameState<ConnectFourMetadata>;
+    return { ...state, lifecycle: GameLifecycle.ACTIVE };
+  }
+
+  function move(
+    playerId: string,
+    column: number,
+    action: 'drop' | 'pop' = 'drop'
+  ): ConnectFourMove {
+    return { playerId, action, parameters: { column }, timestamp: new Date() };
+  }
+
+  function play(
+    state: GameState<ConnectFourMetadata>,
+    columns: number[]
+  ): GameState<ConnectFourMetadata> {
+    return columns.reduce((current, column) => {
+      const playerId = current.players[current.currentPlayerIndex].id;
+      return engine.applyMove(
+        current,
+        playerId,
+        move(playerId, column)
+      ) as GameState<ConnectFourMetadata>;
+    }, state);
+  }
+
+  describe('resolveVariant', () => {
+    it('should use classic rules when no settings are given', () => {
+      expect(resolveVariant({})).toEqual(DEFAULT_VARIANT);
+      expect(resolveVariant()).toEqual(DEFAULT_VARIANT);
+    });
+
+    it('should read board size, connect length and PopOut', () => {
+      expect(resolveVariant({ rows: 7, columns: 9, connect: 5, popOut: true })).toEqual({
+        rows: 7,
+        columns: 9,
+        connect: 5,
+        popOut: true,
+        name: 'PopOut, 9×7, connect 5',
+      });
+    });
+
+    it('should reject board sizes out of range', () => {
+      expect(() => resolveVariant({ rows: 3 })).toThrow(InvalidGameSettingsError);
+      expect(() => resolveVariant({ columns: 13 })).toThrow(InvalidGameSettingsError);
+      expect(() => resolveVariant({ rows: 6.5 })).toThrow(InvalidGameSettingsError);
+      expect(() => resolveVariant({ columns: '7' })).toThrow(InvalidGameSettingsError);
+    });
+
+    it('should reject a connect length that cannot fit on the board', () => {
+      expect(() => resolveVariant({ rows: 5, columns: 5, connect: 6 })).toThrow(
+        'connect must be an integer between 3 and 5'
+      );
+      expect(() => resolveVariant({ connect: 2 })).toThrow(InvalidGameSettingsError);
+    });
+
+    it('should reject a PopOut setting that is not a boolean', () => {
+      expect(() => resolveVariant({ popOut: 'yes' })).toThrow('popOut must be a boolean');
+    });
+  });
+
+  describe('describeVariant', () => {
+    it('should name classic rules Standard', () => {
+      expect(describeVariant({ rows: 6, columns: 7, connect: 4, popOut: false })).toBe('Standard');
+    });
+
+    it('should only list what differs from classic rules', () => {
+      expect(describeVariant({ rows: 6, columns: 7, connect: 4, popOut: true })).toBe('PopOut');
+      expect(describeVariant({ rows: 6, columns: 7, connect: 5, popOut: false })).toBe('connect 5');
+    });
+  });
+
+  describe('settings schema', () => {
+    it('should describe every variant setting with its classic default', () => {
+      const { properties } = engine.getConfigSchema();
+
+      expect(Object.keys(properties)).toEqual(['rows', 'columns', 'connect', 'popOut']);
+      expect(properties.rows).toMatchObject({ type: 'integer', default: 6, minimum: 4 });
+      expect(properties.columns).toMatchObject({ type: 'integer', default: 7, maximum: 12 });
+      expect(properties.popOut).toMatchObject({ type: 'boolean', default: false });
+    });
+  });
+
+  describe('game creation', () => {
+    it('should store the variant and size the board from it', () => {
+      const state = createGame({ rows: 5, columns: 8, connect: 3 });
+
+      expect(state.metadata.variant?.name).toBe('8×5, connect 3');
+      expect(state.metadata.board).toHaveLength(5);
+      expect(state.metadata.board[0]).toHaveLength(8);
+    });
+
+    it('should reject invalid settings with a 400 error', () => {
+      try {
+        createGame({ rows: 20 });
+        fail('Expected InvalidGameSettingsError');
+      } catch (error) {
+        expect(error).toBeInstanceOf(InvalidGameSettingsError);
+        expect((error as InvalidGameSettingsError).statusCode).toBe(400);
+        expect((error as InvalidGameSettingsError).code).toBe('INVALID_GAME_SETTINGS');
+      }
+    });
+
+    it('should treat games without a stored variant as classic', () => {
+      const state = createGame();
+      const { variant: _variant, ...legacyMetadata } = state.metadata;
+
+      expect(getVariant(legacyMetadata as ConnectFourMetadata)).toEqual(DEFAULT_VARIANT);
+    });
+  });
+
+  describe('board size and connect-N', () => {
+    it('should accept drops in the extra columns of a wide board', () => {
+      const state = createGame({ columns: 10 });
+
+      expect(engine.validateMove(state, 'player1', move('player1', 9)).valid).toBe(true);
+      expect(engine.validateMove(state, 'player1', move('player1', 10)).valid).toBe(false);
+    });
+
+    it('should win with the configured connect length', () => {
+      // Red drops 0, 1, 2 on the bottom row while yellow stacks on top
+      const state = play(createGame({ connect: 3 }), [0, 0, 1, 1, 2]);
+
+      expect(state.lifecycle).toBe(GameLifecycle.COMPLETED);
+      expect(engine.getWinner(state)).toBe('player1');
+    });
+
+    it('should not end a connect-5 game on four in a row', () => {
+      const state = play(createGame({ connect: 5 }), [0, 0, 1, 1, 2, 2, 3]);
+
+      expect(state.lifecycle).toBe(GameLifecycle.ACTIVE);
+      expect(engine.getWinner(state)).toBeNull();
+    });
+
+    it('should end in a draw when a small board fills up', () => {
+      // Column pairs alternate colours so no four discs line up on a 4×4 board
+      const state = play(
+        createGame({ rows: 4, columns: 4, connect: 4 }),
+        [0, 1, 0, 1, 1, 0, 1, 0, 2, 3, 2, 3, 3, 2, 3, 2]
+      );
+
+      expect(state.lifecycle).toBe(GameLifecycle.COMPLETED);
+      expect(engine.getWinner(state)).toBeNull();
+    });
+  });
+
+  describe('PopOut', () => {
+    it('should reject pops when PopOut is off', () => {
+      const state = play(createGame(), [3, 4]);
+
+      expect(engine.validateMove(state, 'player1', move('player1', 3, 'pop'))).toEqual({
+        valid: false,
+        reason: 'Popping discs is only allowed in the PopOut variant',
+      });
+    });
+
+    it('should only allow popping your own bottom disc', () => {
+      const state = play(createGame({ popOut: true }), [3, 4]);
+
+      expect(engine.validateMove(state, 'player1', move('player1', 3, 'pop')).valid).toBe(true);
+      expect(engine.validateMove(state, 'player1', move('player1', 4, 'pop')).valid).toBe(false);
+      expect(engine.validateMove(state, 'player1', move('player1', 0, 'pop')).valid).toBe(false);
+    });
+
+    it('should drop the rest of the column when a disc is popped', () => {
+      // Column 3 holds red, yellow, red from the bottom up; it is red's turn again
+      const state = play(createGame({ popOut: true }), [3, 3, 3, 4]);
+
+      const popped = engine.applyMove(
+        state,
+        'player1',
+        move('player1', 3, 'pop')
+      ) as GameState<ConnectFourMetadata>;
+      const bottom = popped.metadata.board.length - 1;
+
+      expect(popped.metadata.board[bottom][3]).toBe('yellow');
+      expect(popped.metadata.board[bottom - 1][3]).toBe('red');
+      expect(popped.metadata.board[bottom - 2][3]).toBeNull();
+      expect(popped.metadata.lastMove).toEqual({
+        row: bottom,
+        column: 3,
+        player: 'player1',
+        action: 'pop',
+      });
+    });
+
+    it('should throw when popping an empty column', () => {
+      const board = createGame().metadata.board;
+
+      expect(() => removeBottomDisc(board, 0)).toThrow();
+    });
+
+    it('should win when a pop completes a line', () => {
+      // Popping red's bottom disc in column 3 drops a red disc into the second row
+      // next to three reds
+      let state = createGame({ popOut: true });
+      state.metadata.board = state.metadata.board.map((row) => [...row]);
+      const bottom = state.metadata.board.length - 1;
+      state.metadata.board[bottom] = ['yellow', 'red', 'yellow', 'red', null, null, null];
+      state.metadata.board[bottom - 1] = ['red', 'red', 'red', 'yellow', null, null, null];
+      state.metadata.board[bottom - 2] = [null, null, null, 'red', null, null, null];
+
+      state = engine.applyMove(
+        state,
+        'player1',
+        move('player1', 3, 'pop')
+      ) as GameState<ConnectFourMetadata>;
+
+      expect(state.lifecycle).toBe(GameLifecycle.COMPLETED);
+      expect(engine.getWinner(state)).toBe('player1');
+    });
+  });
+});
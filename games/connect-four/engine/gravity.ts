@@ -5,13 +5,12 @@
  */
 
 import { CellState, PlayerColor } from '../shared/types';
-import { ROWS } from '../shared/constants';
 
 /**
  * Finds the lowest empty row in a column
  * Scans from bottom to top to find the first empty cell
  * @param board - Current board state
- * @param column - Column to check (0-6)
+ * @param column - Column to check
  * @returns Row index of lowest empty cell, or null if column is full
  * Requirements: 3.1, 3.3
  */
@@ -19,8 +18,8 @@ export function findLowestEmptyRow(
   board: CellState[][],
   column: number
 ): number | null {
-  // Scan from bottom (row 5) to top (row 0)
-  for (let row = ROWS - 1; row >= 0; row--) {
+  // Scan from bottom (last row) to top (row 0)
+  for (let row = board.length - 1; row >= 0; row--) {
     if (board[row][column] === null) {
       return row;
     }
@@ -33,7 +32,7 @@ export function findLowestEmptyRow(
  * Applies gravity to place a disc in a column
  * Creates a new board with the disc placed at the lowest available position
  * @param board - Current board state
- * @param column - Column to drop disc into (0-6)
+ * @param column - Column to drop disc into
  * @param color - Color of the disc to place
  * @returns Object containing new board state and row where disc was placed
  * Requirements: 3.1, 3.4
@@ -68,3 +67,25 @@ export function applyGravity(
     row: targetRow,
   };
 }
+
+/**
+ * Removes the bottom disc of a column (PopOut variant)
+ * Creates a new board where every disc above the removed one falls one row
+ * @param board - Current board state
+ * @param column - Column to pop the bottom disc from
+ * @returns New board state with the column shifted down
+ */
+export function removeBottomDisc(board: CellState[][], column: number): CellState[][] {
+  const bottomRow = board.length - 1;
+
+  if (board[bottomRow][column] === null) {
+    throw new Error(`Column ${column} is empty`);
+  }
+
+  // Each row takes the disc from the row above it; the top row becomes empty
+  return board.map((row, rowIndex) => {
+    const newRow = [...row];
+    newRow[column] = rowIndex === 0 ? null : board[rowIndex - 1][column];
+    return newRow;
+  });
+}
@@ -10,3 +10,4 @@ export * from './validation';
 export * from './gravity';
 export * from './rules';
 export * from './renderer';
+export * from './variant';
@@ -14,22 +14,26 @@ import {
   CellState,
   PlayerColor,
   ConnectFourMetadata,
+  ConnectFourVariant,
 } from '../shared/types';
 import {
   ROWS,
   COLUMNS,
   PLAYER_COLORS,
   GAME_TYPE,
+  DEFAULT_VARIANT,
 } from '../shared/constants';
 
 /**
  * Creates an empty Connect Four board
- * @returns A 6x7 board with all cells initialized to null
+ * @param rows - Number of rows (6 by default)
+ * @param columns - Number of columns (7 by default)
+ * @returns A rows x columns board with all cells initialized to null
  * Requirements: 1.1
  */
-export function createEmptyBoard(): CellState[][] {
-  return Array.from({ length: ROWS }, () =>
-    Array.from({ length: COLUMNS }, () => null as CellState)
+export function createEmptyBoard(rows: number = ROWS, columns: number = COLUMNS): CellState[][] {
+  return Array.from({ length: rows }, () =>
+    Array.from({ length: columns }, () => null as CellState)
   );
 }
 
@@ -56,23 +60,26 @@ export function assignPlayerColors(players: Player[]): Map<string, PlayerColor>
  * Initializes a new Connect Four game
  * @param gameId - Unique identifier for the game
  * @param players - Array of players (can be 0 for CREATED state, or 2+ for ACTIVE state)
+ * @param variant - Rule variant (classic rules by default)
  * @returns Initialized game state
  * Requirements: 1.1, 1.2, 1.3, 1.4, 1.5
  */
 export function initializeGame(
   gameId: string,
-  players: Player[]
+  players: Player[],
+  variant: ConnectFourVariant = DEFAULT_VARIANT
 ): GameState<ConnectFourMetadata> {
   // Note: Player count validation happens at the service level
   // Games can be created with 0 players (CREATED state) and players join later
   // When the game has MIN_PLAYERS, it transitions to ACTIVE state
 
   // Create empty board
-  const board = createEmptyBoard();
+  const board = createEmptyBoard(variant.rows, variant.columns);
 
   // Create metadata
   const metadata: ConnectFourMetadata = {
     board,
+    variant,
   };
 
   // Create empty board structure for domain model
@@ -6,9 +6,10 @@
 
 import { GameState, GameLifecycle } from '../../../src/domain/models';
 import { BoardRenderData, RenderElement, RenderLayer } from '../../../src/domain/interfaces';
-import { ROWS, COLUMNS } from '../shared/constants';
+import { ROWS, COLUMNS, WIN_LENGTH } from '../shared/constants';
 import { CellState, ConnectFourMetadata, Position } from '../shared/types';
 import { checkWinFromPosition } from './rules';
+import { getVariant } from './variant';
 
 /**
  * Constants for rendering
@@ -28,9 +29,9 @@ const HIGHLIGHT_STROKE_WIDTH = 4;
  * Create the grid layer with board background and grid lines
  * Requirements: 7.1, 7.5
  */
-export function createGridLayer(): RenderElement[] {
-  const boardWidth = COLUMNS * CELL_SIZE;
-  const boardHeight = ROWS * CELL_SIZE;
+export function createGridLayer(rows: number = ROWS, columns: number = COLUMNS): RenderElement[] {
+  const boardWidth = columns * CELL_SIZE;
+  const boardHeight = rows * CELL_SIZE;
   const gridElements: RenderElement[] = [];
 
   // Board background
@@ -46,7 +47,7 @@ export function createGridLayer(): RenderElement[] {
   });
 
   // Vertical grid lines
-  for (let col = 1; col < COLUMNS; col++) {
+  for (let col = 1; col < columns; col++) {
     gridElements.push({
       type: 'path',
       attributes: {
@@ -59,7 +60,7 @@ export function createGridLayer(): RenderElement[] {
   }
 
   // Horizontal grid lines
-  for (let row = 1; row < ROWS; row++) {
+  for (let row = 1; row < rows; row++) {
     gridElements.push({
       type: 'path',
       attributes: {
@@ -125,8 +126,8 @@ export function renderDisc(row: number, col: number, color: CellState): RenderEl
 export function createDiscLayer(board: CellState[][]): RenderElement[] {
   const discElements: RenderElement[] = [];
 
-  for (let row = 0; row < ROWS; row++) {
-    for (let col = 0; col < COLUMNS; col++) {
+  for (let row = 0; row < board.length; row++) {
+    for (let col = 0; col < board[row].length; col++) {
       const cellState = board[row][col];
       discElements.push(renderDisc(row, col, cellState));
     }
@@ -151,7 +152,7 @@ function findConsecutiveInDirection(
   // Scan backwards first to find the start of the sequence
   let r = startRow;
   let c = startCol;
-  while (r >= 0 && r < ROWS && c >= 0 && c < COLUMNS && board[r][c] === color) {
+  while (r >= 0 && r < board.length && c >= 0 && c < board[0].length && board[r][c] === color) {
     r -= dirRow;
     c -= dirCol;
   }
@@ -159,7 +160,7 @@ function findConsecutiveInDirection(
   // Now scan forward from the start
   r += dirRow;
   c += dirCol;
-  while (r >= 0 && r < ROWS && c >= 0 && c < COLUMNS && board[r][c] === color) {
+  while (r >= 0 && r < board.length && c >= 0 && c < board[0].length && board[r][c] === color) {
     positions.push({ row: r, column: c });
     r += dirRow;
     c += dirCol;
@@ -169,22 +170,22 @@ function findConsecutiveInDirection(
 }
 
 /**
- * Find the winning positions on the board
- * Requirements: 7.6
+ * Find the winning line through a position
  */
-function findWinningPositions(
+function findWinningLineFrom(
   board: CellState[][],
-  lastMove: { row: number; column: number; player: string }
+  row: number,
+  column: number,
+  winLength: number
 ): Position[] {
-  const { row, column } = lastMove;
   const color = board[row][column];
 
   if (!color) {
     return [];
   }
 
-  // Check if there's a win from the last move position
-  if (!checkWinFromPosition(board, row, column, color)) {
+  // Check if there's a win from this position
+  if (!checkWinFromPosition(board, row, column, color, winLength)) {
     return [];
   }
 
@@ -206,28 +207,52 @@ function findWinningPositions(
       dir.col
     );
 
-    // If we found 4 or more consecutive, return exactly 4
-    if (positions.length >= 4) {
-      return positions.slice(0, 4);
+    // If we found a long enough line, return exactly winLength positions
+    if (positions.length >= winLength) {
+      return positions.slice(0, winLength);
     }
   }
 
   return [];
 }
 
+/**
+ * Find the winning positions on the board
+ * A drop wins through the dropped disc; a pop can win anywhere in the popped column.
+ * Requirements: 7.6
+ */
+function findWinningPositions(
+  board: CellState[][],
+  lastMove: { row: number; column: number; player: string; action?: 'drop' | 'pop' },
+  winLength: number
+): Position[] {
+  if (lastMove.action !== 'pop') {
+    return findWinningLineFrom(board, lastMove.row, lastMove.column, winLength);
+  }
+
+  for (let row = board.length - 1; row >= 0; row--) {
+    const positions = findWinningLineFrom(board, row, lastMove.column, winLength);
+    if (positions.length > 0) {
+      return positions;
+    }
+  }
+  return [];
+}
+
 /**
  * Create the win highlight layer
  * Requirements: 7.6
  */
 export function createWinHighlight(
   board: CellState[][],
-  lastMove?: { row: number; column: number; player: string }
+  lastMove?: { row: number; column: number; player: string; action?: 'drop' | 'pop' },
+  winLength: number = WIN_LENGTH
 ): RenderElement[] {
   if (!lastMove) {
     return [];
   }
 
-  const winningPositions = findWinningPositions(board, lastMove);
+  const winningPositions = findWinningPositions(board, lastMove, winLength);
 
   if (winningPositions.length === 0) {
     return [];
@@ -260,17 +285,20 @@ export function createWinHighlight(
  * Requirements: 7.1, 7.2, 7.3, 7.4, 7.5, 7.6
  */
 export function renderBoard(state: GameState<ConnectFourMetadata>): BoardRenderData {
-  const boardWidth = COLUMNS * CELL_SIZE;
-  const boardHeight = ROWS * CELL_SIZE;
-
+  const variant = getVariant(state.metadata);
   const board = state.metadata.board;
+  const rows = board.length;
+  const columns = board[0].length;
+  const boardWidth = columns * CELL_SIZE;
+  const boardHeight = rows * CELL_SIZE;
+
   const layers: RenderLayer[] = [];
 
   // Grid layer (background and lines)
   layers.push({
     name: 'grid',
     zIndex: 1,
-    elements: createGridLayer(),
+    elements: createGridLayer(rows, columns),
   });
 
   // Disc layer (all discs)
@@ -282,7 +310,11 @@ export function renderBoard(state: GameState<ConnectFourMetadata>): BoardRenderD
 
   // Win highlight layer (only if game is completed with a winner)
   if (state.lifecycle === GameLifecycle.COMPLETED && state.metadata.lastMove) {
-    const highlightElements = createWinHighlight(board, state.metadata.lastMove);
+    const highlightElements = createWinHighlight(
+      board,
+      state.metadata.lastMove,
+      variant.connect
+    );
     if (highlightElements.length > 0) {
       layers.push({
         name: 'win-highlight',
@@ -6,45 +6,49 @@
 
 import { GameState, GameLifecycle } from '../../../src/domain/models';
 import { CellState, PlayerColor, Direction, ConnectFourMetadata, ConnectFourMove } from '../shared/types';
-import { ROWS, COLUMNS, WIN_LENGTH, DIRECTIONS } from '../shared/constants';
-import { validateMove } from './validation';
-import { applyGravity } from './gravity';
+import { WIN_LENGTH, DIRECTIONS, PLAYER_COLORS } from '../shared/constants';
+import { validateMove, canPopColumn } from './validation';
+import { applyGravity, removeBottomDisc } from './gravity';
 import { assignPlayerColors } from './initialization';
+import { getVariant } from './variant';
 
 /**
  * Checks if a position is within board bounds
+ * @param board - Current board state
  * @param row - Row position
  * @param col - Column position
  * @returns true if position is within bounds
  */
-function isInBounds(row: number, col: number): boolean {
-  return row >= 0 && row < ROWS && col >= 0 && col < COLUMNS;
+function isInBounds(board: CellState[][], row: number, col: number): boolean {
+  return row >= 0 && row < board.length && col >= 0 && col < board[0].length;
 }
 
 /**
- * Checks if there are WIN_LENGTH consecutive discs in a specific direction
+ * Checks if there are winLength consecutive discs in a specific direction
  * @param board - Current board state
  * @param row - Starting row position
  * @param col - Starting column position
  * @param color - Player color to check for
  * @param direction - Direction vector to check (row and col deltas)
- * @returns true if WIN_LENGTH consecutive discs found in the direction
+ * @param winLength - Discs in a row needed to win (4 by default)
+ * @returns true if winLength consecutive discs found in the direction
  */
 export function checkDirection(
   board: CellState[][],
   row: number,
   col: number,
   color: PlayerColor,
-  direction: Direction
+  direction: Direction,
+  winLength: number = WIN_LENGTH
 ): boolean {
   let count = 1; // Start with 1 to count the starting position
 
   // Check backwards (negative direction)
   let r = row - direction.row;
   let c = col - direction.col;
-  while (isInBounds(r, c) && board[r][c] === color) {
+  while (isInBounds(board, r, c) && board[r][c] === color) {
     count++;
-    if (count >= WIN_LENGTH) return true; // Early exit optimization
+    if (count >= winLength) return true; // Early exit optimization
     r -= direction.row;
     c -= direction.col;
   }
@@ -52,14 +56,14 @@ export function checkDirection(
   // Check forwards (positive direction)
   r = row + direction.row;
   c = col + direction.col;
-  while (isInBounds(r, c) && board[r][c] === color) {
+  while (isInBounds(board, r, c) && board[r][c] === color) {
     count++;
-    if (count >= WIN_LENGTH) return true; // Early exit optimization
+    if (count >= winLength) return true; // Early exit optimization
     r += direction.row;
     c += direction.col;
   }
 
-  return count >= WIN_LENGTH;
+  return count >= winLength;
 }
 
 /**
@@ -69,6 +73,7 @@ export function checkDirection(
  * @param row - Row position to check from
  * @param col - Column position to check from
  * @param color - Player color to check for
+ * @param winLength - Discs in a row needed to win (4 by default)
  * @returns true if a winning pattern is found in any direction
  * Requirements: 4.1, 4.2, 4.3, 4.4
  */
@@ -76,7 +81,8 @@ export function checkWinFromPosition(
   board: CellState[][],
   row: number,
   col: number,
-  color: PlayerColor
+  color: PlayerColor,
+  winLength: number = WIN_LENGTH
 ): boolean {
   // If the position doesn't contain the specified color, no win is possible
   if (board[row][col] !== color) {
@@ -85,28 +91,51 @@ export function checkWinFromPosition(
 
   // Check all four directions
   // Requirement 4.1: Horizontal wins
-  if (checkDirection(board, row, col, color, DIRECTIONS.HORIZONTAL)) {
+  if (checkDirection(board, row, col, color, DIRECTIONS.HORIZONTAL, winLength)) {
     return true;
   }
 
   // Requirement 4.2: Vertical wins
-  if (checkDirection(board, row, col, color, DIRECTIONS.VERTICAL)) {
+  if (checkDirection(board, row, col, color, DIRECTIONS.VERTICAL, winLength)) {
     return true;
   }
 
   // Requirement 4.3: Ascending diagonal wins (bottom-left to top-right)
-  if (checkDirection(board, row, col, color, DIRECTIONS.DIAGONAL_UP)) {
+  if (checkDirection(board, row, col, color, DIRECTIONS.DIAGONAL_UP, winLength)) {
     return true;
   }
 
   // Requirement 4.4: Descending diagonal wins (top-left to bottom-right)
-  if (checkDirection(board, row, col, color, DIRECTIONS.DIAGONAL_DOWN)) {
+  if (checkDirection(board, row, col, color, DIRECTIONS.DIAGONAL_DOWN, winLength)) {
     return true;
   }
 
   return false;
 }
 
+/**
+ * Checks if any disc in a column is part of a winning pattern
+ * Used after a pop, which moves every disc in the column
+ * @param board - Current board state
+ * @param col - Column to check
+ * @param color - Player color to check for
+ * @param winLength - Discs in a row needed to win (4 by default)
+ * @returns true if a winning pattern passes through the column
+ */
+export function checkWinInColumn(
+  board: CellState[][],
+  col: number,
+  color: PlayerColor,
+  winLength: number = WIN_LENGTH
+): boolean {
+  for (let row = 0; row < board.length; row++) {
+    if (checkWinFromPosition(board, row, col, color, winLength)) {
+      return true;
+    }
+  }
+  return false;
+}
+
 /**
  * Checks if the board is completely full (all cells occupied)
  * @param board - Current board state
@@ -114,8 +143,8 @@ export function checkWinFromPosition(
  * Requirements: 5.1, 5.2
  */
 export function isBoardFull(board: CellState[][]): boolean {
-  for (let row = 0; row < ROWS; row++) {
-    for (let col = 0; col < COLUMNS; col++) {
+  for (let row = 0; row < board.length; row++) {
+    for (let col = 0; col < board[row].length; col++) {
       if (board[row][col] === null) {
         return false;
       }
@@ -124,18 +153,44 @@ export function isBoardFull(board: CellState[][]): boolean {
   return true;
 }
 
+/**
+ * Checks if a color has a winning pattern anywhere on the board
+ */
+function hasWinningLine(board: CellState[][], color: PlayerColor, winLength: number): boolean {
+  for (let row = 0; row < board.length; row++) {
+    for (let col = 0; col < board[row].length; col++) {
+      if (board[row][col] === color && checkWinFromPosition(board, row, col, color, winLength)) {
+        return true;
+      }
+    }
+  }
+  return false;
+}
+
 /**
  * Determines the winner of the game by checking all positions
+ * A pop can complete lines for both players at once; the player who popped wins,
+ * so their color is passed as `preferredColor`.
  * @param board - Current board state
+ * @param winLength - Discs in a row needed to win (4 by default)
+ * @param preferredColor - Color that wins if both players have a line
  * @returns The winning player color, or null if no winner
  * Requirements: 4.5
  */
-export function getWinner(board: CellState[][]): PlayerColor | null {
+export function getWinner(
+  board: CellState[][],
+  winLength: number = WIN_LENGTH,
+  preferredColor?: PlayerColor
+): PlayerColor | null {
+  if (preferredColor && hasWinningLine(board, preferredColor, winLength)) {
+    return preferredColor;
+  }
+
   // Check every position on the board for a winning pattern
-  for (let row = 0; row < ROWS; row++) {
-    for (let col = 0; col < COLUMNS; col++) {
+  for (let row = 0; row < board.length; row++) {
+    for (let col = 0; col < board[row].length; col++) {
       const color = board[row][col];
-      if (color && checkWinFromPosition(board, row, col, color)) {
+      if (color && checkWinFromPosition(board, row, col, color, winLength)) {
         return color;
       }
     }
@@ -143,15 +198,34 @@ export function getWinner(board: CellState[][]): PlayerColor | null {
   return null;
 }
 
+/**
+ * Checks if a color can pop any disc (PopOut variant)
+ * @param board - Current board state
+ * @param color - Color of the player to move
+ * @returns true if the bottom row holds a disc of that color
+ */
+export function hasPopMove(board: CellState[][], color: PlayerColor): boolean {
+  return board[board.length - 1].some((_, col) => canPopColumn(board, col, color));
+}
+
 /**
  * Checks if the game is over (either won or drawn)
+ * Under PopOut a full board is only a draw when the player to move cannot pop.
  * @param board - Current board state
- * @returns true if the game is complete (has a winner or board is full)
+ * @param winLength - Discs in a row needed to win (4 by default)
+ * @param popColor - Color to move when PopOut is played
+ * @returns true if the game is complete (has a winner or no move is left)
  * Requirements: 4.5, 5.1, 5.2
  */
-export function isGameOver(board: CellState[][]): boolean {
-  // Game is over if there's a winner or the board is full
-  return getWinner(board) !== null || isBoardFull(board);
+export function isGameOver(
+  board: CellState[][],
+  winLength: number = WIN_LENGTH,
+  popColor?: PlayerColor
+): boolean {
+  if (getWinner(board, winLength) !== null) {
+    return true;
+  }
+  return isBoardFull(board) && !(popColor && hasPopMove(board, popColor));
 }
 
 /**
@@ -187,20 +261,38 @@ export function applyMove(
     throw new Error(`Player ${move.playerId} not found in game`);
   }
 
-  // Requirement 3.1: Apply gravity to place disc
-  const { board: newBoard, row } = applyGravity(
-    state.metadata.board,
-    move.parameters.column,
-    playerColor
-  );
+  const variant = getVariant(state.metadata);
+  const { column } = move.parameters;
+  let newBoard: CellState[][];
+  let row: number;
+  let hasWin: boolean;
+
+  if (move.action === 'pop') {
+    // PopOut: every disc above the popped one falls, so lines can form for either player
+    newBoard = removeBottomDisc(state.metadata.board, column);
+    row = newBoard.length - 1;
+    hasWin = PLAYER_COLORS.some((color) =>
+      checkWinInColumn(newBoard, column, color, variant.connect)
+    );
+  } else {
+    // Requirement 3.1: Apply gravity to place disc
+    ({ board: newBoard, row } = applyGravity(state.metadata.board, column, playerColor));
 
-  // Check for win from the newly placed disc position
-  const hasWin = checkWinFromPosition(newBoard, row, move.parameters.column, playerColor);
+    // Check for win from the newly placed disc position
+    hasWin = checkWinFromPosition(newBoard, row, column, playerColor, variant.connect);
+  }
+
+  // Under PopOut a full board is not a draw while the next player can still pop
+  const nextColor = playerColors.get(
+    state.players[(state.currentPlayerIndex + 1) % state.players.length]?.id
+  );
+  const noMovesLeft =
+    isBoardFull(newBoard) && !(variant.popOut && nextColor && hasPopMove(newBoard, nextColor));
 
   // Determine new lifecycle based on win or draw
-  const newLifecycle: GameLifecycle = 
-    hasWin || isBoardFull(newBoard) 
-      ? GameLifecycle.COMPLETED 
+  const newLifecycle: GameLifecycle =
+    hasWin || noMovesLeft
+      ? GameLifecycle.COMPLETED
       : state.lifecycle;
 
   // Requirement 6.1: Alternate turns (only if game is not completed)
@@ -219,8 +311,10 @@ export function applyMove(
       board: newBoard,
       lastMove: {
         row,
-        column: move.parameters.column,
+        column,
         player: move.playerId,
+        // Drops keep the original shape; only pops are marked
+        ...(move.action === 'pop' && { action: 'pop' as const }),
       },
     },
     moveHistory: [...state.moveHistory, move],
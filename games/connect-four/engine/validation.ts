@@ -7,6 +7,8 @@
 import { GameState } from '../../../src/domain/models';
 import { ConnectFourMetadata, ConnectFourMove, CellState } from '../shared/types';
 import { COLUMNS } from '../shared/constants';
+import { assignPlayerColors } from './initialization';
+import { getVariant } from './variant';
 
 /**
  * Validation result interface
@@ -22,18 +24,23 @@ export interface ValidationResult {
  */
 const ERROR_MESSAGES = {
   NOT_YOUR_TURN: 'It is not your turn',
-  INVALID_COLUMN: (column: number) => `Column must be between 0 and 6, but got ${column}`,
+  INVALID_COLUMN: (column: number, columns: number) =>
+    `Column must be between 0 and ${columns - 1}, but got ${column}`,
   COLUMN_FULL: (column: number) => `Column ${column} is full`,
+  POP_NOT_ALLOWED: 'Popping discs is only allowed in the PopOut variant',
+  NOT_YOUR_DISC: (column: number) =>
+    `You can only pop your own disc from the bottom of column ${column}`,
 } as const;
 
 /**
- * Checks if a column number is valid (0-6)
+ * Checks if a column number is valid
  * @param column - Column number to validate
- * @returns true if column is between 0 and 6 inclusive
+ * @param columns - Number of columns on the board (7 by default)
+ * @returns true if column is between 0 and columns - 1 inclusive
  * Requirements: 2.2
  */
-export function isValidColumn(column: number): boolean {
-  return column >= 0 && column < COLUMNS;
+export function isValidColumn(column: number, columns: number = COLUMNS): boolean {
+  return column >= 0 && column < columns;
 }
 
 /**
@@ -64,9 +71,21 @@ export function isPlayerTurn(
   return currentPlayer.id === playerId;
 }
 
+/**
+ * Checks if a player can pop the bottom disc of a column
+ * @param board - Current board state
+ * @param column - Column to pop from
+ * @param color - Color of the player popping
+ * @returns true if the bottom disc of the column is the player's
+ */
+export function canPopColumn(board: CellState[][], column: number, color: CellState): boolean {
+  return color !== null && board[board.length - 1][column] === color;
+}
+
 /**
  * Validates a Connect Four move
- * Checks turn order, column validity, and column availability
+ * Checks turn order, column validity, and column availability.
+ * Pop moves also require the PopOut variant and the player's own disc at the bottom.
  * @param state - Current game state
  * @param playerId - ID of player making the move
  * @param move - Move to validate
@@ -87,12 +106,34 @@ export function validateMove(
   }
 
   const { column } = move.parameters;
+  const variant = getVariant(state.metadata);
 
-  // Requirement 2.2: Verify column is valid (0-6)
-  if (!isValidColumn(column)) {
+  // Requirement 2.2: Verify column is on the board
+  if (!isValidColumn(column, variant.columns)) {
     return {
       valid: false,
-      error: ERROR_MESSAGES.INVALID_COLUMN(column),
+      error: ERROR_MESSAGES.INVALID_COLUMN(column, variant.columns),
+    };
+  }
+
+  if (move.action === 'pop') {
+    if (!variant.popOut) {
+      return {
+        valid: false,
+        error: ERROR_MESSAGES.POP_NOT_ALLOWED,
+      };
+    }
+
+    const color = assignPlayerColors(state.players).get(playerId) ?? null;
+    if (!canPopColumn(state.metadata.board, column, color)) {
+      return {
+        valid: false,
+        error: ERROR_MESSAGES.NOT_YOUR_DISC(column),
+      };
+    }
+
+    return {
+      valid: true,
     };
   }
 
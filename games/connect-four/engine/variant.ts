@@ -0,0 +1,146 @@
+/**
+ * Connect Four variant module
+ * Reads rule variants (board size, connect-N, PopOut) from the game's custom settings
+ */
+
+import { InvalidGameSettingsError } from '../../../src/domain/errors';
+import { GameSettingsSchema } from '../../../src/domain/models';
+import { ConnectFourMetadata, ConnectFourVariant } from '../shared/types';
+import {
+  DEFAULT_VARIANT,
+  GAME_TYPE,
+  MAX_BOARD_SIZE,
+  MIN_BOARD_SIZE,
+  MIN_CONNECT,
+} from '../shared/constants';
+
+/**
+ * Schema for the variant settings, served with the game type so clients can build a form
+ * The connect length is also checked against the chosen board size by `resolveVariant`.
+ */
+export const SETTINGS_SCHEMA: GameSettingsSchema = {
+  type: 'object',
+  properties: {
+    rows: {
+      type: 'integer',
+      title: 'Rows',
+      description: 'Height of the board',
+      default: DEFAULT_VARIANT.rows,
+      minimum: MIN_BOARD_SIZE,
+      maximum: MAX_BOARD_SIZE,
+    },
+    columns: {
+      type: 'integer',
+      title: 'Columns',
+      description: 'Width of the board',
+      default: DEFAULT_VARIANT.columns,
+      minimum: MIN_BOARD_SIZE,
+      maximum: MAX_BOARD_SIZE,
+    },
+    connect: {
+      type: 'integer',
+      title: 'Connect',
+      description: 'Discs in a row needed to win, at most the longer side of the board',
+      default: DEFAULT_VARIANT.connect,
+      minimum: MIN_CONNECT,
+      maximum: MAX_BOARD_SIZE,
+    },
+    popOut: {
+      type: 'boolean',
+      title: 'PopOut',
+      description:
+        'Players may remove one of their own discs from the bottom row instead of dropping',
+      default: DEFAULT_VARIANT.popOut,
+    },
+  },
+};
+
+/**
+ * Builds the display name of a variant
+ * @param variant - Variant without a name
+ * @returns "Standard" for classic rules, otherwise the differences from them
+ */
+export function describeVariant(variant: Omit<ConnectFourVariant, 'name'>): string {
+  const parts: string[] = [];
+
+  if (variant.popOut) {
+    parts.push('PopOut');
+  }
+  if (variant.rows !== DEFAULT_VARIANT.rows || variant.columns !== DEFAULT_VARIANT.columns) {
+    parts.push(`${variant.columns}×${variant.rows}`);
+  }
+  if (variant.connect !== DEFAULT_VARIANT.connect) {
+    parts.push(`connect ${variant.connect}`);
+  }
+
+  return parts.length > 0 ? parts.join(', ') : DEFAULT_VARIANT.name;
+}
+
+/**
+ * Reads an integer setting within bounds
+ * @throws InvalidGameSettingsError if the value is not an integer within bounds
+ */
+function readSize(
+  settings: Record<string, any>,
+  key: string,
+  fallback: number,
+  min: number,
+  max: number
+): number {
+  const value = settings[key];
+  if (value === undefined) {
+    return fallback;
+  }
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > max) {
+    throw new InvalidGameSettingsError(
+      GAME_TYPE,
+      `${key} must be an integer between ${min} and ${max}`
+    );
+  }
+  return value;
+}
+
+/**
+ * Resolves the variant for a new game from its custom settings
+ * Recognised settings are `rows`, `columns`, `connect` and `popOut`; anything missing
+ * keeps its classic value.
+ * @param settings - The game's custom settings
+ * @returns The variant to store with the game
+ * @throws InvalidGameSettingsError if a setting is out of range
+ */
+export function resolveVariant(settings: Record<string, any> = {}): ConnectFourVariant {
+  const rows = readSize(settings, 'rows', DEFAULT_VARIANT.rows, MIN_BOARD_SIZE, MAX_BOARD_SIZE);
+  const columns = readSize(
+    settings,
+    'columns',
+    DEFAULT_VARIANT.columns,
+    MIN_BOARD_SIZE,
+    MAX_BOARD_SIZE
+  );
+  // A line longer than both sides of the board could never be completed
+  const connect = readSize(
+    settings,
+    'connect',
+    DEFAULT_VARIANT.connect,
+    MIN_CONNECT,
+    Math.max(rows, columns)
+  );
+
+  const popOut = settings.popOut ?? DEFAULT_VARIANT.popOut;
+  if (typeof popOut !== 'boolean') {
+    throw new InvalidGameSettingsError(GAME_TYPE, 'popOut must be a boolean');
+  }
+
+  const variant = { rows, columns, connect, popOut };
+  return { ...variant, name: describeVariant(variant) };
+}
+
+/**
+ * Gets the variant a game is played with
+ * Games created before variants existed use the classic rules.
+ * @param metadata - Connect Four game metadata
+ * @returns The game's variant
+ */
+export function getVariant(metadata: ConnectFourMetadata): ConnectFourVariant {
+  return metadata.variant ?? DEFAULT_VARIANT;
+}
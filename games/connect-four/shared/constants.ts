@@ -1,4 +1,4 @@
-import { Direction, PlayerColor } from './types';
+import { ConnectFourVariant, Direction, PlayerColor } from './types';
 
 /**
  * Connect Four game constants
@@ -10,6 +10,20 @@ export const COLUMNS = 7;
 export const TOTAL_CELLS = 42;
 export const WIN_LENGTH = 4;
 
+// Variant limits
+export const MIN_BOARD_SIZE = 4;
+export const MAX_BOARD_SIZE = 12;
+export const MIN_CONNECT = 3;
+
+// Classic rules, used when no variant settings are given
+export const DEFAULT_VARIANT: ConnectFourVariant = {
+  rows: ROWS,
+  columns: COLUMNS,
+  connect: WIN_LENGTH,
+  popOut: false,
+  name: 'Standard',
+};
+
 // Player configuration
 export const MIN_PLAYERS = 2;
 export const MAX_PLAYERS = 2;
@@ -2,9 +2,21 @@ import { Move } from '../../../src/domain/models';
 
 /**
  * Connect Four specific move parameters
+ * `pop` removes the player's own disc from the bottom of a column (PopOut variant only)
  */
 export interface ConnectFourMove extends Move<{ column: number }> {
-  action: 'drop';
+  action: 'drop' | 'pop';
+}
+
+/**
+ * Rule variant chosen when the game is created
+ */
+export interface ConnectFourVariant {
+  rows: number;
+  columns: number;
+  connect: number;  // Discs in a row needed to win
+  popOut: boolean;  // Players may pop their own disc from the bottom row
+  name: string;     // Display name, e.g. "Standard" or "PopOut, 8×7, connect 5"
 }
 
 /**
@@ -21,11 +33,13 @@ export type PlayerColor = 'red' | 'yellow';
  * Connect Four specific game state metadata
  */
 export interface ConnectFourMetadata {
-  board: CellState[][];  // 6 rows × 7 columns
+  board: CellState[][];  // rows × columns, 6 × 7 unless the variant says otherwise
+  variant?: ConnectFourVariant;  // Missing on games created before variants existed
   lastMove?: {
     row: number;
     column: number;
     player: string;
+    action?: 'drop' | 'pop';
   };
 }
 
@@ -182,3 +182,52 @@ describe('ConnectFourMoveInput - Interactions', () => {
     expect(button.className).toContain('columnButton');
   });
 });
+
+describe('ConnectFourMoveInput - Variants', () => {
+  it('should render a button for every column of a larger board', () => {
+    const board = Array(7).fill(null).map(() => Array(9).fill(null));
+    const gameState = createTestGameState({
+      metadata: {
+        board,
+        variant: { rows: 7, columns: 9, connect: 5, popOut: false, name: '9×7, connect 5' }
+      }
+    });
+
+    render(<ConnectFourMoveInput gameState={gameState} onMoveChange={vi.fn()} />);
+
+    expect(screen.getAllByRole('button')).toHaveLength(9);
+    expect(screen.getByTestId('column-8')).toBeInTheDocument();
+  });
+
+  it('should not render pop buttons without PopOut', () => {
+    render(<ConnectFourMoveInput gameState={createTestGameState()} onMoveChange={vi.fn()} />);
+
+    expect(screen.queryByTestId('pop-column-0')).not.toBeInTheDocument();
+  });
+
+  it('should only allow popping the current player\'s own bottom discs', () => {
+    const board = Array(6).fill(null).map(() => Array(7).fill(null));
+    board[5][2] = 'red';
+    board[5][3] = 'yellow';
+    const gameState = createTestGameState({
+      metadata: {
+        board,
+        variant: { rows: 6, columns: 7, connect: 4, popOut: true, name: 'PopOut' }
+      }
+    });
+    const onMoveChange = vi.fn();
+
+    render(<ConnectFourMoveInput gameState={gameState} onMoveChange={onMoveChange} />);
+
+    expect(screen.getByTestId('pop-column-2')).not.toBeDisabled();
+    expect(screen.getByTestId('pop-column-3')).toBeDisabled();
+    expect(screen.getByTestId('pop-column-0')).toBeDisabled();
+
+    screen.getByTestId('pop-column-2').click();
+
+    expect(onMoveChange).toHaveBeenCalledWith({
+      action: 'pop',
+      parameters: { column: 2 }
+    });
+  });
+});
@@ -1,6 +1,7 @@
 import { memo, useCallback, useMemo } from 'react';
 import type { GameState, MoveInput } from '../types';
 import type { ConnectFourMetadata } from '../../shared/types';
+import { PLAYER_COLORS } from '../../shared/constants';
 import styles from './ConnectFourMoveInput.module.css';
 
 export interface ConnectFourMoveInputProps {
@@ -9,14 +10,19 @@ export interface ConnectFourMoveInputProps {
   disabled?: boolean;
 }
 
-const COLUMNS = [0, 1, 2, 3, 4, 5, 6] as const;
-
-export const ConnectFourMoveInput = memo(function ConnectFourMoveInput({ 
-  gameState, 
-  onMoveChange, 
-  disabled = false 
+export const ConnectFourMoveInput = memo(function ConnectFourMoveInput({
+  gameState,
+  onMoveChange,
+  disabled = false
 }: ConnectFourMoveInputProps) {
   const board = gameState.metadata.board;
+  const popOut = gameState.metadata.variant?.popOut ?? false;
+  const currentColor = PLAYER_COLORS[gameState.currentPlayerIndex];
+
+  /**
+   * Column indexes, taken from the board so every variant size works
+   */
+  const columns = useMemo(() => board[0].map((_, column) => column), [board]);
 
   /**
    * Check if a column is full
@@ -26,6 +32,13 @@ export const ConnectFourMoveInput = memo(function ConnectFourMoveInput({
     return board[0][column] !== null;
   }, [board]);
 
+  /**
+   * Check if the current player can pop the bottom disc of a column (PopOut only)
+   */
+  const canPop = useCallback((column: number): boolean => {
+    return board[board.length - 1][column] === currentColor;
+  }, [board, currentColor]);
+
   /**
    * Handle column button click
    */
@@ -42,16 +55,31 @@ export const ConnectFourMoveInput = memo(function ConnectFourMoveInput({
     onMoveChange(move);
   }, [disabled, isColumnFull, onMoveChange]);
 
+  /**
+   * Handle pop button click
+   */
+  const handlePopClick = useCallback((column: number) => {
+    if (disabled || !canPop(column)) {
+      return;
+    }
+
+    onMoveChange({
+      action: 'pop',
+      parameters: { column }
+    });
+  }, [disabled, canPop, onMoveChange]);
+
   /**
    * Memoize column button states
    */
   const columnStates = useMemo(() => {
-    return COLUMNS.map(column => ({
+    return columns.map(column => ({
       column,
       isFull: isColumnFull(column),
-      isDisabled: disabled || isColumnFull(column)
+      isDisabled: disabled || isColumnFull(column),
+      isPopDisabled: disabled || !canPop(column)
     }));
-  }, [disabled, isColumnFull]);
+  }, [columns, disabled, isColumnFull, canPop]);
 
   return (
     <div className={styles.connectFourInput} role="group" aria-label="Connect Four column selection">
@@ -71,6 +99,24 @@ export const ConnectFourMoveInput = memo(function ConnectFourMoveInput({
           </button>
         ))}
       </div>
+      {popOut && (
+        <div className={styles.columnButtons}>
+          {columnStates.map(({ column, isPopDisabled }) => (
+            <button
+              key={column}
+              data-testid={`pop-column-${column}`}
+              className={`${styles.columnButton} ${styles.popButton}`}
+              onClick={() => handlePopClick(column)}
+              disabled={isPopDisabled}
+              type="button"
+              aria-label={`Pop your disc from column ${column + 1}`}
+              aria-disabled={isPopDisabled}
+            >
+              ↑
+            </button>
+          ))}
+        </div>
+      )}
     </div>
   );
 });
@@ -0,0 +1,76 @@
+/**
+ * Chain AI Strategy for Dots and Boxes
+ *
+ * Takes every box it can, then draws a safe line that gives no box its third
+ * side. Once every remaining line hands something over, it opens the shortest
+ * chain, giving away as few boxes as possible.
+ */
+
+import { AIStrategy } from '../../../src/domain/interfaces';
+import { GameState, Move } from '../../../src/domain/models';
+import { getAvailableLines } from '../shared/board';
+import {
+  countBoxesGivenAway,
+  createDrawMove,
+  getCapturingLines,
+  getPosition,
+  getSafeLines,
+  pickRandom,
+} from './analysis';
+
+export class ChainStrategy implements AIStrategy {
+  readonly id = 'chain';
+  readonly name = 'Chain';
+  readonly description =
+    'Never hands over a box while it has a choice, then opens the shortest chain';
+  readonly difficulty = 'hard';
+
+  async generateMove(state: GameState, _aiPlayerId: string): Promise<Move> {
+    const { grid, lines } = getPosition(state);
+
+    const available = getAvailableLines(lines);
+    if (available.length === 0) {
+      throw new Error('No valid moves available');
+    }
+
+    const capturing = getCapturingLines(grid, lines);
+    if (capturing.length > 0) {
+      return createDrawMove(capturing[0]);
+    }
+
+    const safe = getSafeLines(grid, lines);
+    if (safe.length > 0) {
+      return createDrawMove(pickRandom(safe));
+    }
+
+    // Ties go to the earlier line
+    let best = available[0];
+    let fewest = Infinity;
+    for (const line of available) {
+      const given = countBoxesGivenAway(grid, lines, line);
+      if (given < fewest) {
+        fewest = given;
+        best = line;
+      }
+    }
+
+    return createDrawMove(best);
+  }
+
+  /**
+   * Get the maximum time this strategy should take to generate a move
+   * @returns 500ms - measuring the chain each line opens is quick even on the largest grid
+   */
+  getTimeLimit(): number {
+    return 500;
+  }
+
+  /**
+   * Validate configuration (no special configuration needed for this strategy)
+   * @param config Configuration to validate
+   * @returns Always true as no configuration is required
+   */
+  validateConfiguration(_config: Record<string, any>): boolean {
+    return true;
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * Greedy AI Strategy for Dots and Boxes
+ *
+ * Completes a box whenever it can and otherwise draws a random line. It does
+ * not check whether that line gives a box its third side, so it hands chains
+ * to its opponents.
+ */
+
+import { AIStrategy } from '../../../src/domain/interfaces';
+import { GameState, Move } from '../../../src/domain/models';
+import { getAvailableLines } from '../shared/board';
+import { createDrawMove, getCapturingLines, getPosition, pickRandom } from './analysis';
+
+export class GreedyStrategy implements AIStrategy {
+  readonly id = 'greedy';
+  readonly name = 'Greedy';
+  readonly description = 'Takes every box it can but draws other lines at random';
+  readonly difficulty = 'medium';
+
+  async generateMove(state: GameState, _aiPlayerId: string): Promise<Move> {
+    const { grid, lines } = getPosition(state);
+
+    const available = getAvailableLines(lines);
+    if (available.length === 0) {
+      throw new Error('No valid moves available');
+    }
+
+    const capturing = getCapturingLines(grid, lines);
+    return createDrawMove(capturing.length > 0 ? capturing[0] : pickRandom(available));
+  }
+
+  /**
+   * Get the maximum time this strategy should take to generate a move
+   * @returns 100ms - checking each line once is very fast
+   */
+  getTimeLimit(): number {
+    return 100;
+  }
+
+  /**
+   * Validate configuration (no special configuration needed for this strategy)
+   * @param config Configuration to validate
+   * @returns Always true as no configuration is required
+   */
+  validateConfiguration(_config: Record<string, any>): boolean {
+    return true;
+  }
+}
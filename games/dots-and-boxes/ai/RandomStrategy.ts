@@ -0,0 +1,44 @@
+/**
+ * Random AI Strategy for Dots and Boxes
+ *
+ * Draws a random line, without noticing boxes it could complete or hand over.
+ * Provides an easy opponent for beginners.
+ */
+
+import { AIStrategy } from '../../../src/domain/interfaces';
+import { GameState, Move } from '../../../src/domain/models';
+import { getAvailableLines } from '../shared/board';
+import { createDrawMove, getPosition, pickRandom } from './analysis';
+
+export class RandomStrategy implements AIStrategy {
+  readonly id = 'random';
+  readonly name = 'Random';
+  readonly description = 'Draws random lines - perfect for beginners';
+  readonly difficulty = 'easy';
+
+  async generateMove(state: GameState, _aiPlayerId: string): Promise<Move> {
+    const lines = getAvailableLines(getPosition(state).lines);
+    if (lines.length === 0) {
+      throw new Error('No valid moves available');
+    }
+
+    return createDrawMove(pickRandom(lines));
+  }
+
+  /**
+   * Get the maximum time this strategy should take to generate a move
+   * @returns 100ms - should be very fast for random selection
+   */
+  getTimeLimit(): number {
+    return 100;
+  }
+
+  /**
+   * Validate configuration (no special configuration needed for this strategy)
+   * @param config Configuration to validate
+   * @returns Always true as no configuration is required
+   */
+  validateConfiguration(_config: Record<string, any>): boolean {
+    return true;
+  }
+}
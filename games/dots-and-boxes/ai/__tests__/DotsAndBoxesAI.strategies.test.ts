@@ -0,0 +1,167 @@
+import { ChainStrategy, GreedyStrategy, RandomStrategy } from '../index';
+import { countBoxesGivenAway, getCapturingLines, getSafeLines, isSafeLine } from '../analysis';
+import { DotsAndBoxesEngine } from '../../engine/DotsAndBoxesEngine';
+import { DotsAndBoxesMetadata, GridSize, Line, Lines } from '../../shared/types';
+import { GameState, Player } from '../../../../src/domain/models';
+
+/**
+ * Builds the drawn lines from a picture of the grid
+ * Even rows are dots and horizontal lines ("+-+ +"), odd rows are vertical lines ("|   |").
+ */
+function parseLines(art: string[]): Lines {
+  return {
+    horizontal: art
+      .filter((_, index) => index % 2 === 0)
+      .map((row) =>
+        Array.from({ length: (row.length - 1) / 2 }, (_, col) => row[2 * col + 1] === '-')
+      ),
+    vertical: art
+      .filter((_, index) => index % 2 === 1)
+      .map((row) => Array.from({ length: (row.length + 1) / 2 }, (_, col) => row[2 * col] === '|')),
+  };
+}
+
+describe('Dots and Boxes AI Strategies', () => {
+  const engine = new DotsAndBoxesEngine();
+
+  const createPlayers = (count = 2): Player[] =>
+    ['first', 'second', 'third', 'fourth'].slice(0, count).map((id) => ({
+      id,
+      name: id,
+      joinedAt: new Date(),
+    }));
+
+  function createState(grid: GridSize, art?: string[]): GameState<DotsAndBoxesMetadata> {
+    const state = engine.initializeGame(createPlayers(), { customSettings: { ...grid } });
+    return art ? { ...state, metadata: { ...state.metadata, lines: parseLines(art) } } : state;
+  }
+
+  const smallGrid: GridSize = { rows: 2, columns: 2 };
+
+  // The top-left box has three sides; the right-hand boxes have two
+  const boxToTake = [
+    '+-+-+', //
+    '|   |',
+    '+-+ +',
+    '     ',
+    '+ + +',
+  ];
+
+  // Every open line opens a chain: two boxes down the left column,
+  // or four boxes round the rest of the grid
+  const twoChains = [
+    '+ + +-+', //
+    '| |   |',
+    '+ +-+ +',
+    '| |   |',
+    '+ + +-+',
+  ];
+  const chainGrid: GridSize = { rows: 2, columns: 3 };
+
+  describe('analysis helpers', () => {
+    it('should find the line that completes a box', () => {
+      const lines = parseLines(boxToTake);
+
+      expect(getCapturingLines(smallGrid, lines)).toEqual([
+        { orientation: 'vertical', row: 0, col: 1 },
+      ]);
+    });
+
+    it('should treat lines giving a box its third side as unsafe', () => {
+      const lines = parseLines(boxToTake);
+
+      expect(isSafeLine(smallGrid, lines, { orientation: 'vertical', row: 1, col: 0 })).toBe(true);
+      expect(isSafeLine(smallGrid, lines, { orientation: 'horizontal', row: 1, col: 1 })).toBe(
+        false
+      );
+      expect(getSafeLines(chainGrid, parseLines(twoChains))).toEqual([]);
+    });
+
+    it('should count the chain a line opens', () => {
+      const lines = parseLines(twoChains);
+
+      expect(
+        countBoxesGivenAway(chainGrid, lines, { orientation: 'horizontal', row: 0, col: 0 })
+      ).toBe(2);
+      expect(
+        countBoxesGivenAway(chainGrid, lines, { orientation: 'vertical', row: 1, col: 2 })
+      ).toBe(4);
+    });
+  });
+
+  describe('RandomStrategy', () => {
+    it('should draw an open line', async () => {
+      const state = createState(smallGrid, boxToTake);
+      const move = await new RandomStrategy().generateMove(state, 'first');
+
+      expect(engine.validateMove(state, 'first', move).valid).toBe(true);
+    });
+  });
+
+  describe('GreedyStrategy', () => {
+    it('should complete a box when it can', async () => {
+      const move = await new GreedyStrategy().generateMove(
+        createState(smallGrid, boxToTake),
+        'first'
+      );
+
+      expect(move).toMatchObject({
+        action: 'draw',
+        parameters: { orientation: 'vertical', row: 0, col: 1 },
+      });
+    });
+  });
+
+  describe('ChainStrategy', () => {
+    it('should complete a box when it can', async () => {
+      const move = await new ChainStrategy().generateMove(
+        createState(smallGrid, boxToTake),
+        'first'
+      );
+
+      expect(move.parameters).toEqual({ orientation: 'vertical', row: 0, col: 1 });
+    });
+
+    it('should draw a safe line while one is left', async () => {
+      const state = createState(smallGrid, [
+        '+-+ +', //
+        '|    ',
+        '+ + +',
+        '     ',
+        '+ + +',
+      ]);
+
+      for (let i = 0; i < 10; i++) {
+        const move = await new ChainStrategy().generateMove(state, 'first');
+        expect(isSafeLine(smallGrid, state.metadata.lines, move.parameters as Line)).toBe(true);
+      }
+    });
+
+    it('should open the shortest chain when every line gives boxes away', async () => {
+      const move = await new ChainStrategy().generateMove(
+        createState(chainGrid, twoChains),
+        'first'
+      );
+
+      expect(move.parameters).toEqual({ orientation: 'horizontal', row: 0, col: 0 });
+    });
+
+    it('should play only legal moves through a four-player game', async () => {
+      const strategies = [new ChainStrategy(), new GreedyStrategy(), new RandomStrategy()];
+      let state = engine.initializeGame(createPlayers(4), {
+        customSettings: { rows: 3, columns: 3 },
+      });
+
+      while (!engine.isGameOver(state)) {
+        const playerId = engine.getCurrentPlayer(state);
+        const strategy = strategies[state.currentPlayerIndex % strategies.length];
+        const move = await strategy.generateMove(state, playerId);
+        expect(engine.validateMove(state, playerId, move).valid).toBe(true);
+        state = engine.applyMove(state, playerId, move);
+      }
+
+      expect(state.moveHistory).toHaveLength(24);
+      expect(Object.values(state.metadata.scores).reduce((sum, score) => sum + score, 0)).toBe(9);
+    });
+  });
+});
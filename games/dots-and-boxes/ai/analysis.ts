@@ -0,0 +1,111 @@
+/**
+ * Dots and Boxes position analysis shared by the AI strategies
+ *
+ * A line is safe when it completes nothing and gives no box its third side,
+ * since a box with three sides can be taken by the next player. Once no safe
+ * line is left, every move opens a chain of boxes for the next player, and
+ * `countBoxesGivenAway` measures how long that chain is.
+ */
+
+import { GameState, Move } from '../../../src/domain/models';
+import { DotsAndBoxesMetadata, GridSize, Line, Lines } from '../shared/types';
+import {
+  countDrawnSides,
+  drawLine,
+  getAdjacentBoxes,
+  getAvailableLines,
+  getBoxSides,
+  getBoxesCompletedBy,
+  isLineDrawn,
+} from '../shared/board';
+
+/**
+ * Gets the grid size and drawn lines from a Dots and Boxes game state
+ */
+export function getPosition(state: GameState): { grid: GridSize; lines: Lines } {
+  const { grid, lines } = (state as GameState<DotsAndBoxesMetadata>).metadata;
+  return { grid, lines };
+}
+
+/**
+ * Gets the lines that complete at least one box
+ * @param grid - Grid size in boxes
+ * @param lines - Drawn lines
+ */
+export function getCapturingLines(grid: GridSize, lines: Lines): Line[] {
+  return getAvailableLines(lines).filter(
+    (line) => getBoxesCompletedBy(grid, lines, line).length > 0
+  );
+}
+
+/**
+ * Checks if a line gives the next player nothing to take
+ * @param grid - Grid size in boxes
+ * @param lines - Drawn lines
+ * @param line - Undrawn line
+ * @returns true if every box next to the line has at most one side drawn
+ */
+export function isSafeLine(grid: GridSize, lines: Lines, line: Line): boolean {
+  return getAdjacentBoxes(grid, line).every((box) => countDrawnSides(lines, box) <= 1);
+}
+
+/**
+ * Gets the lines that give the next player nothing to take
+ * @param grid - Grid size in boxes
+ * @param lines - Drawn lines
+ */
+export function getSafeLines(grid: GridSize, lines: Lines): Line[] {
+  return getAvailableLines(lines).filter((line) => isSafeLine(grid, lines, line));
+}
+
+/**
+ * Counts the boxes the next player can take in a row after a line is drawn
+ * The next player keeps completing boxes, and each box completed earns another
+ * turn, so this is the size of the chain the line opens.
+ * @param grid - Grid size in boxes
+ * @param lines - Drawn lines, before the line is drawn
+ * @param line - Undrawn line that completes no box
+ * @returns Number of boxes handed over
+ */
+export function countBoxesGivenAway(grid: GridSize, lines: Lines, line: Line): number {
+  let current = drawLine(lines, line);
+  let taken = 0;
+
+  for (;;) {
+    let capture: Line | undefined;
+    for (let row = 0; row < grid.rows && !capture; row++) {
+      for (let col = 0; col < grid.columns && !capture; col++) {
+        if (countDrawnSides(current, { row, col }) === 3) {
+          capture = getBoxSides({ row, col }).find((side) => !isLineDrawn(current, side));
+        }
+      }
+    }
+    if (!capture) {
+      return taken;
+    }
+
+    taken += getBoxesCompletedBy(grid, current, capture).length;
+    current = drawLine(current, capture);
+  }
+}
+
+/**
+ * Creates a move drawing a line
+ * @param line - Line to draw
+ * @returns Move object; the player ID is set by the calling service
+ */
+export function createDrawMove(line: Line): Move {
+  return {
+    playerId: '', // Will be set by the calling service
+    action: 'draw',
+    parameters: { orientation: line.orientation, row: line.row, col: line.col },
+    timestamp: new Date(),
+  };
+}
+
+/**
+ * Picks a random element
+ */
+export function pickRandom<T>(items: T[]): T {
+  return items[Math.floor(Math.random() * items.length)];
+}
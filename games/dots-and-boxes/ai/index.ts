@@ -0,0 +1,15 @@
+/**
+ * Dots and Boxes AI Strategies
+ *
+ * This module exports all AI strategies available for Dots and Boxes games.
+ * Each strategy implements the AIStrategy interface, from random play
+ * to one that avoids handing over chains.
+ */
+
+export { RandomStrategy } from './RandomStrategy';
+export { GreedyStrategy } from './GreedyStrategy';
+export { ChainStrategy } from './ChainStrategy';
+export * from './analysis';
+
+// Re-export types for convenience
+export type { AIStrategy } from '../../../src/domain/interfaces';
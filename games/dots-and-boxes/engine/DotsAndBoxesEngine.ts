@@ -0,0 +1,183 @@
+/**
+ * Dots and Boxes Game Engine
+ *
+ * Main engine class that orchestrates all game modules and implements
+ * the BaseGameEngine interface, delegating to specialized modules.
+ */
+
+import { BaseGameEngine, AICapableGamePlugin, AIStrategy } from '../../../src/domain/interfaces';
+import { GameState, Player, Move, GameSettingsSchema } from '../../../src/domain/models';
+import { GameConfig, ValidationResult, BoardRenderData } from '../../../src/domain/interfaces';
+import { AIPlayer } from '../../../src/domain/models/AIPlayer';
+import { DotsAndBoxesMetadata, DotsAndBoxesMove } from '../shared/types';
+
+// Import all module functions
+import * as metadata from './metadata';
+import * as initialization from './initialization';
+import * as validation from './validation';
+import * as rules from './rules';
+import * as renderer from './renderer';
+import * as settings from './settings';
+
+// Import AI strategies
+import { ChainStrategy, GreedyStrategy, RandomStrategy } from '../ai';
+
+/**
+ * Dots and Boxes game engine implementation
+ *
+ * This class acts as a facade, providing a clean interface to the game
+ * while delegating to specialized modules for specific functionality.
+ * Extra turns are given by applyMove; advanceTurn keeps the base behaviour of
+ * passing to the next player, which is what a timeout should do.
+ * Also implements AI capabilities through the AICapableGamePlugin interface.
+ */
+export class DotsAndBoxesEngine extends BaseGameEngine implements AICapableGamePlugin {
+  private aiStrategies: AIStrategy[];
+  private defaultStrategy: AIStrategy;
+
+  constructor() {
+    super();
+    this.aiStrategies = [new ChainStrategy(), new GreedyStrategy(), new RandomStrategy()];
+    this.defaultStrategy = this.aiStrategies[0]; // Chain as default
+  }
+
+  // ===== Private Helper Methods =====
+
+  /**
+   * Generates a unique game ID
+   * @param config - Game configuration that may contain a custom game ID
+   * @returns A unique game ID
+   */
+  private generateGameId(config: GameConfig): string {
+    return (
+      config.customSettings?.gameId ||
+      `dots-and-boxes-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`
+    );
+  }
+
+  // ===== Metadata Methods =====
+
+  getGameType(): string {
+    return metadata.getGameType();
+  }
+
+  getMinPlayers(): number {
+    return metadata.getMinPlayers();
+  }
+
+  getMaxPlayers(): number {
+    return metadata.getMaxPlayers();
+  }
+
+  getDescription(): string {
+    return metadata.getDescription();
+  }
+
+  getConfigSchema(): GameSettingsSchema {
+    return settings.SETTINGS_SCHEMA;
+  }
+
+  // ===== Game Initialization =====
+
+  initializeGame(players: Player[], config: GameConfig): GameState<DotsAndBoxesMetadata> {
+    const gameId = this.generateGameId(config);
+    const grid = settings.resolveGridSize(config.customSettings);
+    return initialization.initializeGame(gameId, players, grid);
+  }
+
+  // ===== Move Validation =====
+
+  validateMove(
+    state: GameState<DotsAndBoxesMetadata>,
+    playerId: string,
+    move: Move
+  ): ValidationResult {
+    const result = validation.validateMove(state, playerId, move as DotsAndBoxesMove);
+
+    return {
+      valid: result.valid,
+      reason: result.error,
+    };
+  }
+
+  // ===== Game Rules and State Transitions =====
+
+  applyMove(
+    state: GameState<DotsAndBoxesMetadata>,
+    playerId: string,
+    move: Move
+  ): GameState<DotsAndBoxesMetadata> {
+    const dotsAndBoxesMove: DotsAndBoxesMove = {
+      ...(move as DotsAndBoxesMove),
+      playerId,
+    };
+
+    return rules.applyMove(state, dotsAndBoxesMove);
+  }
+
+  isGameOver(state: GameState<DotsAndBoxesMetadata>): boolean {
+    return rules.isGameOver(state);
+  }
+
+  getWinner(state: GameState<DotsAndBoxesMetadata>): string | null {
+    return rules.getWinner(state);
+  }
+
+  // ===== Board Rendering =====
+
+  renderBoard(state: GameState<DotsAndBoxesMetadata>): BoardRenderData {
+    return renderer.renderBoard(state);
+  }
+
+  // ===== AI Capabilities =====
+
+  /**
+   * Check if this game plugin supports AI players
+   * @returns true - Dots and Boxes supports AI players
+   */
+  supportsAI(): boolean {
+    return true;
+  }
+
+  /**
+   * Get available AI strategies for Dots and Boxes
+   * @returns Array of available AI strategies
+   */
+  getAIStrategies(): AIStrategy[] {
+    return [...this.aiStrategies];
+  }
+
+  /**
+   * Get default AI strategy for Dots and Boxes
+   * @returns Default AI strategy (Chain)
+   */
+  getDefaultAIStrategy(): AIStrategy {
+    return this.defaultStrategy;
+  }
+
+  /**
+   * Create an AI player for Dots and Boxes
+   * @param name Display name for the AI player
+   * @param strategyId ID of the strategy to use (optional, uses default if not provided)
+   * @param difficulty Optional difficulty level
+   * @returns AI player configuration
+   */
+  createAIPlayer(name: string, strategyId?: string, difficulty?: string): AIPlayer {
+    let strategy = this.defaultStrategy;
+    if (strategyId) {
+      const foundStrategy = this.aiStrategies.find((s) => s.id === strategyId);
+      if (!foundStrategy) {
+        throw new Error(`AI strategy '${strategyId}' not found for Dots and Boxes`);
+      }
+      strategy = foundStrategy;
+    }
+
+    return new AIPlayer(
+      `ai-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`,
+      name,
+      this.getGameType(),
+      strategy.id,
+      difficulty || strategy.difficulty
+    );
+  }
+}
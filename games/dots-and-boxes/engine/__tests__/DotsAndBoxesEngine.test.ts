@@ -0,0 +1,186 @@
+/**
+ * Dots and Boxes engine tests
+ * Tests the engine facade: metadata, settings, validation, rendering and AI players
+ */
+
+import { GameLifecycle, Move, Player } from '../../../../src/domain/models';
+import { InvalidGameSettingsError } from '../../../../src/domain/errors';
+import { DotsAndBoxesEngine } from '../DotsAndBoxesEngine';
+import { GAME_TYPE, MAX_PLAYERS, MIN_PLAYERS, PLAYER_COLORS } from '../../shared/constants';
+
+describe('DotsAndBoxesEngine', () => {
+  const engine = new DotsAndBoxesEngine();
+  const players: Player[] = [
+    { id: 'alice', name: 'Alice', joinedAt: new Date() },
+    { id: 'bob', name: 'Bob', joinedAt: new Date() },
+    { id: 'carol', name: 'Carol', joinedAt: new Date() },
+  ];
+
+  function move(parameters: unknown, action = 'draw'): Move {
+    return { playerId: '', timestamp: new Date(), action, parameters: parameters as any };
+  }
+
+  describe('metadata', () => {
+    it('should describe a game for two to four players', () => {
+      expect(engine.getGameType()).toBe(GAME_TYPE);
+      expect(engine.getMinPlayers()).toBe(MIN_PLAYERS);
+      expect(engine.getMaxPlayers()).toBe(MAX_PLAYERS);
+      expect(MAX_PLAYERS).toBe(4);
+      expect(engine.getDescription()).toContain('Dots and Boxes');
+    });
+
+    it('should publish the grid settings', () => {
+      expect(Object.keys(engine.getConfigSchema().properties)).toEqual(['rows', 'columns']);
+    });
+  });
+
+  describe('initializeGame', () => {
+    it('should default to a 5x5 grid', () => {
+      const state = engine.initializeGame(players, { customSettings: { gameId: 'game-1' } });
+
+      expect(state.gameId).toBe('game-1');
+      expect(state.gameType).toBe('dots-and-boxes');
+      expect(state.lifecycle).toBe(GameLifecycle.ACTIVE);
+      expect(state.metadata.grid).toEqual({ rows: 5, columns: 5 });
+      expect(state.metadata.scores).toEqual({ alice: 0, bob: 0, carol: 0 });
+    });
+
+    it('should size the lines and boxes from the settings', () => {
+      const state = engine.initializeGame(players, { customSettings: { rows: 3, columns: 4 } });
+
+      expect(state.metadata.lines.horizontal).toHaveLength(4);
+      expect(state.metadata.lines.horizontal[0]).toHaveLength(4);
+      expect(state.metadata.lines.vertical).toHaveLength(3);
+      expect(state.metadata.lines.vertical[0]).toHaveLength(5);
+      expect(state.metadata.boxes).toHaveLength(3);
+      expect(state.metadata.boxes[0]).toHaveLength(4);
+    });
+
+    it.each([{ rows: 1 }, { columns: 11 }, { rows: 2.5 }, { columns: '4' }])(
+      'should reject the settings %p',
+      (customSettings) => {
+        expect(() => engine.initializeGame(players, { customSettings })).toThrow(
+          InvalidGameSettingsError
+        );
+      }
+    );
+  });
+
+  describe('validateMove', () => {
+    const state = engine.initializeGame(players, { customSettings: { rows: 2, columns: 3 } });
+
+    it('should accept an open line', () => {
+      expect(
+        engine.validateMove(state, 'alice', move({ orientation: 'vertical', row: 1, col: 3 }))
+      ).toEqual({ valid: true, reason: undefined });
+    });
+
+    it.each([
+      ['out of turn', 'bob', move({ orientation: 'horizontal', row: 0, col: 0 }), 'not your turn'],
+      [
+        'with another action',
+        'alice',
+        move({ orientation: 'horizontal', row: 0, col: 0 }, 'place'),
+        "use 'draw'",
+      ],
+      [
+        'with a diagonal',
+        'alice',
+        move({ orientation: 'diagonal', row: 0, col: 0 }),
+        'Orientation must be',
+      ],
+      [
+        'below the grid',
+        'alice',
+        move({ orientation: 'horizontal', row: 3, col: 0 }),
+        'between 0 and 2',
+      ],
+      [
+        'right of the grid',
+        'alice',
+        move({ orientation: 'vertical', row: 0, col: 4 }),
+        'between 0 and 3',
+      ],
+      ['between dots', 'alice', move({ orientation: 'vertical', row: 0.5, col: 0 }), 'integer row'],
+      ['without a line', 'alice', move(undefined), 'Orientation must be'],
+    ])('should reject a line drawn %s', (_case, playerId, invalidMove, reason) => {
+      const result = engine.validateMove(state, playerId, invalidMove);
+
+      expect(result.valid).toBe(false);
+      expect(result.reason).toContain(reason);
+    });
+
+    it('should reject a line that is already drawn', () => {
+      const line = { orientation: 'horizontal', row: 1, col: 2 };
+      const next = engine.applyMove(state, 'alice', move(line));
+
+      expect(engine.validateMove(next, 'bob', move(line)).reason).toBe(
+        'The horizontal line at (1, 2) has already been drawn'
+      );
+    });
+  });
+
+  describe('renderBoard', () => {
+    const state = engine.initializeGame(players, { customSettings: { rows: 2, columns: 2 } });
+
+    it('should render the dots and the open lines of an active game', () => {
+      const render = engine.renderBoard(state);
+
+      expect(render.viewBox).toEqual({ width: 180, height: 180 });
+      expect(render.layers.map((layer) => layer.name)).toEqual([
+        'boxes',
+        'open-lines',
+        'lines',
+        'dots',
+      ]);
+      expect(render.layers.find((layer) => layer.name === 'dots')?.elements).toHaveLength(9);
+      expect(render.layers.find((layer) => layer.name === 'open-lines')?.elements).toHaveLength(12);
+    });
+
+    it('should fill claimed boxes and highlight the last line in the player colors', () => {
+      const next = ['h00', 'h10', 'v00', 'v01'].reduce((current, key) => {
+        const line = {
+          orientation: key[0] === 'h' ? 'horizontal' : 'vertical',
+          row: Number(key[1]),
+          col: Number(key[2]),
+        };
+        return engine.applyMove(current, engine.getCurrentPlayer(current), move(line));
+      }, state);
+
+      const render = engine.renderBoard(next);
+      const boxes = render.layers.find((layer) => layer.name === 'boxes')!.elements;
+      const lines = render.layers.find((layer) => layer.name === 'lines')!.elements;
+
+      expect(boxes[0].attributes).toMatchObject({ x: 30, y: 30, fill: PLAYER_COLORS[0] });
+      expect(boxes[1].textContent).toBe('A');
+      expect(lines).toHaveLength(4);
+      expect(lines[3].attributes).toMatchObject({
+        d: 'M 90 30 L 90 90',
+        stroke: PLAYER_COLORS[0],
+        strokeWidth: 6,
+      });
+    });
+  });
+
+  describe('AI support', () => {
+    it('should offer strategies with chain as the default', () => {
+      expect(engine.supportsAI()).toBe(true);
+      expect(engine.getAIStrategies().map((s) => s.id)).toEqual(['chain', 'greedy', 'random']);
+      expect(engine.getDefaultAIStrategy().id).toBe('chain');
+    });
+
+    it('should create AI players with the chosen strategy', () => {
+      const aiPlayer = engine.createAIPlayer('Bot', 'greedy');
+
+      expect(aiPlayer.gameType).toBe(GAME_TYPE);
+      expect(aiPlayer.strategyId).toBe('greedy');
+      expect(aiPlayer.difficulty).toBe('medium');
+    });
+
+    it('should reject unknown strategies', () => {
+      expect(() => engine.createAIPlayer('Bot', 'minimax')).toThrow(
+        "AI strategy 'minimax' not found for Dots and Boxes"
+      );
+    });
+  });
+});
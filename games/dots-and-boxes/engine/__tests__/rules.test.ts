@@ -0,0 +1,162 @@
+/**
+ * Dots and Boxes rules tests
+ * Plays lines through the engine to check box completion, extra turns and the end of the game
+ */
+
+import { GameLifecycle, GameState, Player } from '../../../../src/domain/models';
+import { DotsAndBoxesEngine } from '../DotsAndBoxesEngine';
+import { DotsAndBoxesMetadata, Line } from '../../shared/types';
+import { getAvailableLines } from '../../shared/board';
+import { getScores } from '../rules';
+
+const h = (row: number, col: number): Line => ({ orientation: 'horizontal', row, col });
+const v = (row: number, col: number): Line => ({ orientation: 'vertical', row, col });
+
+describe('Rules Module', () => {
+  const engine = new DotsAndBoxesEngine();
+
+  function createPlayers(count: number): Player[] {
+    return ['alice', 'bob', 'carol', 'dave'].slice(0, count).map((id) => ({
+      id,
+      name: id.charAt(0).toUpperCase() + id.slice(1),
+      joinedAt: new Date(),
+    }));
+  }
+
+  function createState(playerCount = 2): GameState<DotsAndBoxesMetadata> {
+    return engine.initializeGame(createPlayers(playerCount), {
+      customSettings: { rows: 2, columns: 2 },
+    });
+  }
+
+  /**
+   * Draws each line in turn for whoever is to move
+   */
+  function play(state: GameState<DotsAndBoxesMetadata>, ...lines: Line[]) {
+    return lines.reduce(
+      (current, line) =>
+        engine.applyMove(current, engine.getCurrentPlayer(current), {
+          playerId: '',
+          timestamp: new Date(),
+          action: 'draw',
+          parameters: line,
+        }),
+      state
+    );
+  }
+
+  describe('grid', () => {
+    it('should start with every line of a 2x2 grid open', () => {
+      const state = createState();
+
+      expect(getAvailableLines(state.metadata.lines)).toHaveLength(12);
+      expect(state.metadata.boxes).toEqual([
+        [null, null],
+        [null, null],
+      ]);
+      expect(state.metadata.scores).toEqual({ alice: 0, bob: 0 });
+    });
+  });
+
+  describe('turns', () => {
+    it('should pass the turn when a line completes no box', () => {
+      const state = play(createState(), h(0, 0));
+
+      expect(engine.getCurrentPlayer(state)).toBe('bob');
+      expect(state.metadata.lastMove).toEqual({ line: h(0, 0), player: 'alice', completed: [] });
+    });
+
+    it('should give another turn to the player who completes a box', () => {
+      const state = play(createState(), h(0, 0), h(1, 0), v(0, 0), v(0, 1));
+
+      expect(engine.getCurrentPlayer(state)).toBe('bob');
+      expect(state.metadata.boxes[0][0]).toBe('bob');
+      expect(state.metadata.scores).toEqual({ alice: 0, bob: 1 });
+      expect(state.metadata.lastMove?.completed).toEqual([{ row: 0, col: 0 }]);
+
+      const next = play(state, h(2, 1));
+      expect(engine.getCurrentPlayer(next)).toBe('alice');
+    });
+
+    it('should claim both boxes when one line completes two', () => {
+      const state = play(createState(), h(0, 0), h(1, 0), v(0, 0), h(0, 1), h(1, 1), v(0, 2));
+      const next = play(state, v(0, 1));
+
+      expect(engine.getCurrentPlayer(next)).toBe('alice');
+      expect(next.metadata.scores).toEqual({ alice: 2, bob: 0 });
+    });
+
+    it('should rotate through every seat in a four-player game', () => {
+      let state = createState(4);
+      const seats: string[] = [];
+      for (const line of [h(0, 0), h(0, 1), h(2, 0), h(2, 1)]) {
+        state = play(state, line);
+        seats.push(engine.getCurrentPlayer(state));
+      }
+
+      expect(seats).toEqual(['bob', 'carol', 'dave', 'alice']);
+    });
+
+    it('should pass to the next player on advanceTurn even after a box', () => {
+      const state = play(createState(), h(0, 0), h(1, 0), v(0, 0), v(0, 1));
+
+      expect(engine.getCurrentPlayer(engine.advanceTurn(state))).toBe('alice');
+    });
+  });
+
+  describe('end of the game', () => {
+    it('should end with the last box and be won by the most boxes', () => {
+      const filled = play(
+        createState(),
+        h(0, 0),
+        h(1, 0),
+        v(0, 0),
+        h(0, 1),
+        h(1, 1),
+        v(0, 2),
+        v(0, 1),
+        h(2, 0),
+        v(1, 0),
+        v(1, 1),
+        h(2, 1)
+      );
+      expect(engine.isGameOver(filled)).toBe(false);
+      expect(engine.getWinner(filled)).toBeNull();
+
+      const state = play(filled, v(1, 2));
+
+      expect(state.lifecycle).toBe(GameLifecycle.COMPLETED);
+      expect(engine.isGameOver(state)).toBe(true);
+      expect(state.metadata.scores).toEqual({ alice: 3, bob: 1 });
+      expect(engine.getWinner(state)).toBe('alice');
+    });
+
+    it('should be a draw when the most boxes are shared', () => {
+      const state = createState(3);
+      const finished: GameState<DotsAndBoxesMetadata> = {
+        ...state,
+        metadata: {
+          ...state.metadata,
+          boxes: [
+            ['alice', 'alice'],
+            ['bob', 'bob'],
+          ],
+        },
+      };
+
+      expect(engine.isGameOver(finished)).toBe(true);
+      expect(engine.getWinner(finished)).toBeNull();
+      expect(getScores(finished)).toEqual({ alice: 2, bob: 2, carol: 0 });
+    });
+
+    it('should reject moves once the game is over', () => {
+      const state = createState();
+      const finished: GameState<DotsAndBoxesMetadata> = {
+        ...state,
+        lifecycle: GameLifecycle.COMPLETED,
+      };
+
+      expect(() => play(finished, h(0, 0))).toThrow('Game is already completed');
+    });
+  });
+});
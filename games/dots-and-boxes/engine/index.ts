@@ -0,0 +1,12 @@
+/**
+ * Dots and Boxes Engine Module
+ * Barrel export for the game engine
+ */
+
+export { DotsAndBoxesEngine } from './DotsAndBoxesEngine';
+export * from './metadata';
+export * from './settings';
+export * from './initialization';
+export * from './validation';
+export * from './rules';
+export * from './renderer';
@@ -0,0 +1,78 @@
+/**
+ * Dots and Boxes game initialization module
+ * Handles game state initialization and player color assignment
+ */
+
+import { GameState, Player, GameLifecycle, Board } from '../../../src/domain/models';
+import { DotsAndBoxesMetadata, GridSize } from '../shared/types';
+import { DEFAULT_GRID, GAME_TYPE, PLAYER_COLORS } from '../shared/constants';
+import { countBoxes, createEmptyBoxes, createEmptyLines } from '../shared/board';
+
+/**
+ * Assigns colors to players deterministically
+ * Players get the colors in seat order: red, blue, green, orange
+ * @param players - Array of players
+ * @returns Map of player ID to assigned color
+ */
+export function assignPlayerColors(players: Player[]): Map<string, string> {
+  const colorMap = new Map<string, string>();
+
+  players.forEach((player, index) => {
+    if (index < PLAYER_COLORS.length) {
+      colorMap.set(player.id, PLAYER_COLORS[index]);
+    }
+  });
+
+  return colorMap;
+}
+
+/**
+ * Initializes a new Dots and Boxes game
+ * @param gameId - Unique identifier for the game
+ * @param players - Array of players (can be fewer than 2 for CREATED state; more may join later)
+ * @param grid - Grid size in boxes
+ * @returns Initialized game state
+ */
+export function initializeGame(
+  gameId: string,
+  players: Player[],
+  grid: GridSize = DEFAULT_GRID
+): GameState<DotsAndBoxesMetadata> {
+  // Player count validation happens at the service level; players may join later
+
+  const boxes = createEmptyBoxes(grid);
+
+  const metadata: DotsAndBoxesMetadata = {
+    grid,
+    lines: createEmptyLines(grid),
+    boxes,
+    scores: countBoxes(
+      boxes,
+      players.map((player) => player.id)
+    ),
+  };
+
+  // Dots and Boxes doesn't use the spaces model of the domain board
+  const domainBoard: Board = {
+    spaces: [],
+    metadata: {},
+  };
+
+  const now = new Date();
+
+  return {
+    gameId,
+    gameType: GAME_TYPE,
+    lifecycle: GameLifecycle.ACTIVE,
+    players,
+    currentPlayerIndex: 0, // First player starts
+    phase: 'playing',
+    board: domainBoard,
+    moveHistory: [],
+    metadata,
+    winner: null,
+    version: 0,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
@@ -0,0 +1,219 @@
+/**
+ * Dots and Boxes rendering module
+ * Handles SVG rendering of the dots, drawn lines, the last line and claimed boxes
+ */
+
+import { GameState, GameLifecycle, Player } from '../../../src/domain/models';
+import { BoardRenderData, RenderElement, RenderLayer } from '../../../src/domain/interfaces';
+import { DotsAndBoxesMetadata, GridSize, Line, Lines } from '../shared/types';
+import { getAvailableLines } from '../shared/board';
+import { assignPlayerColors } from './initialization';
+
+/**
+ * Constants for rendering
+ */
+const DOT_SPACING = 60;
+const MARGIN = 30;
+const DOT_RADIUS = 5;
+const DOT_COLOR = '#263238';
+const LINE_COLOR = '#455a64';
+const LINE_WIDTH = 4;
+const LAST_LINE_WIDTH = 6;
+const OPEN_LINE_COLOR = '#cfd8dc';
+const BOX_OPACITY = 0.35;
+const BOX_LABEL_SIZE = 24;
+
+/**
+ * Get the position of a dot
+ */
+function dotPosition(row: number, col: number): { x: number; y: number } {
+  return {
+    x: MARGIN + col * DOT_SPACING,
+    y: MARGIN + row * DOT_SPACING,
+  };
+}
+
+/**
+ * Get the path data of a line between two dots
+ */
+function linePath(line: Line): string {
+  const start = dotPosition(line.row, line.col);
+  const end =
+    line.orientation === 'horizontal'
+      ? dotPosition(line.row, line.col + 1)
+      : dotPosition(line.row + 1, line.col);
+  return `M ${start.x} ${start.y} L ${end.x} ${end.y}`;
+}
+
+/**
+ * Create the dot layer with every dot of the grid
+ */
+export function createDotLayer(grid: GridSize): RenderElement[] {
+  const dots: RenderElement[] = [];
+
+  for (let row = 0; row <= grid.rows; row++) {
+    for (let col = 0; col <= grid.columns; col++) {
+      const { x, y } = dotPosition(row, col);
+      dots.push({
+        type: 'circle',
+        attributes: {
+          cx: x,
+          cy: y,
+          r: DOT_RADIUS,
+          fill: DOT_COLOR,
+        },
+      });
+    }
+  }
+
+  return dots;
+}
+
+/**
+ * Create the line layer with every drawn line
+ * The last line is drawn thicker in the color of the player who drew it.
+ */
+export function createLineLayer(
+  lines: Lines,
+  lastMove?: DotsAndBoxesMetadata['lastMove'],
+  lastColor?: string
+): RenderElement[] {
+  const elements: RenderElement[] = [];
+
+  (['horizontal', 'vertical'] as const).forEach((orientation) =>
+    lines[orientation].forEach((cells, row) =>
+      cells.forEach((drawn, col) => {
+        if (!drawn) {
+          return;
+        }
+        const line: Line = { orientation, row, col };
+        const isLast =
+          lastMove?.line.orientation === orientation &&
+          lastMove.line.row === row &&
+          lastMove.line.col === col;
+        elements.push({
+          type: 'path',
+          attributes: {
+            d: linePath(line),
+            stroke: isLast && lastColor ? lastColor : LINE_COLOR,
+            strokeWidth: isLast ? LAST_LINE_WIDTH : LINE_WIDTH,
+            strokeLinecap: 'round',
+          },
+        });
+      })
+    )
+  );
+
+  return elements;
+}
+
+/**
+ * Create faint dashed lines where lines can still be drawn
+ */
+export function createOpenLineLayer(lines: Lines): RenderElement[] {
+  return getAvailableLines(lines).map((line) => ({
+    type: 'path',
+    attributes: {
+      d: linePath(line),
+      stroke: OPEN_LINE_COLOR,
+      strokeWidth: 2,
+      strokeDasharray: '4 4',
+    },
+  }));
+}
+
+/**
+ * Create the box layer, filling each claimed box with its owner's color and initial
+ */
+export function createBoxLayer(
+  boxes: DotsAndBoxesMetadata['boxes'],
+  players: Player[]
+): RenderElement[] {
+  const colors = assignPlayerColors(players);
+  const elements: RenderElement[] = [];
+
+  boxes.forEach((cells, row) =>
+    cells.forEach((owner, col) => {
+      if (owner === null) {
+        return;
+      }
+      const { x, y } = dotPosition(row, col);
+      const color = colors.get(owner) ?? LINE_COLOR;
+      const name = players.find((player) => player.id === owner)?.name ?? owner;
+
+      elements.push({
+        type: 'rect',
+        attributes: {
+          x,
+          y,
+          width: DOT_SPACING,
+          height: DOT_SPACING,
+          fill: color,
+          fillOpacity: BOX_OPACITY,
+        },
+      });
+      elements.push({
+        type: 'text',
+        attributes: {
+          x: x + DOT_SPACING / 2,
+          y: y + DOT_SPACING / 2,
+          fill: color,
+          fontSize: BOX_LABEL_SIZE,
+          fontWeight: 'bold',
+          textAnchor: 'middle',
+          dominantBaseline: 'central',
+        },
+        textContent: name.charAt(0).toUpperCase(),
+      });
+    })
+  );
+
+  return elements;
+}
+
+/**
+ * Render the game board to BoardRenderData format
+ */
+export function renderBoard(state: GameState<DotsAndBoxesMetadata>): BoardRenderData {
+  const { grid, lines, boxes, lastMove } = state.metadata;
+  const lastColor = lastMove ? assignPlayerColors(state.players).get(lastMove.player) : undefined;
+
+  const layers: RenderLayer[] = [
+    {
+      name: 'boxes',
+      zIndex: 1,
+      elements: createBoxLayer(boxes, state.players),
+    },
+  ];
+
+  if (state.lifecycle === GameLifecycle.ACTIVE) {
+    layers.push({
+      name: 'open-lines',
+      zIndex: 2,
+      elements: createOpenLineLayer(lines),
+    });
+  }
+
+  layers.push(
+    {
+      name: 'lines',
+      zIndex: 3,
+      elements: createLineLayer(lines, lastMove, lastColor),
+    },
+    {
+      name: 'dots',
+      zIndex: 4,
+      elements: createDotLayer(grid),
+    }
+  );
+
+  return {
+    viewBox: {
+      width: grid.columns * DOT_SPACING + 2 * MARGIN,
+      height: grid.rows * DOT_SPACING + 2 * MARGIN,
+    },
+    backgroundColor: '#ffffff',
+    spaces: [], // Dots and Boxes doesn't use the spaces model
+    layers,
+  };
+}
@@ -0,0 +1,133 @@
+/**
+ * Dots and Boxes game rules module
+ * Handles drawing lines, claiming boxes, extra turns, game end detection and winner
+ */
+
+import { GameState, GameLifecycle } from '../../../src/domain/models';
+import { BoxOwner, BoxPosition, DotsAndBoxesMetadata, DotsAndBoxesMove } from '../shared/types';
+import { countBoxes, drawLine, getBoxesCompletedBy, isGridComplete } from '../shared/board';
+import { validateMove } from './validation';
+
+/**
+ * Claims boxes for a player without modifying the original
+ * @param boxes - Box owners
+ * @param claimed - Boxes to claim
+ * @param playerId - Player claiming them
+ * @returns New box owners
+ */
+export function claimBoxes(
+  boxes: BoxOwner[][],
+  claimed: BoxPosition[],
+  playerId: string
+): BoxOwner[][] {
+  return boxes.map((row, rowIndex) =>
+    row.map((owner, colIndex) =>
+      claimed.some((box) => box.row === rowIndex && box.col === colIndex) ? playerId : owner
+    )
+  );
+}
+
+/**
+ * Gets the number of boxes each player has completed
+ * Players who joined after the last move are included with 0.
+ * @param state - Current game state
+ * @returns Map of player ID to number of boxes
+ */
+export function getScores(state: GameState<DotsAndBoxesMetadata>): Record<string, number> {
+  return countBoxes(
+    state.metadata.boxes,
+    state.players.map((player) => player.id)
+  );
+}
+
+/**
+ * Checks if the game is over
+ * The game ends once every box has been claimed, which happens with the last line.
+ * @param state - Current game state
+ * @returns true if the game is over
+ */
+export function isGameOver(state: GameState<DotsAndBoxesMetadata>): boolean {
+  return isGridComplete(state.metadata.boxes);
+}
+
+/**
+ * Determines the winner
+ * The player with the most boxes wins; a tie for the most boxes is a draw.
+ * @param state - Current game state
+ * @returns ID of the winning player, or null if the game is drawn or still going
+ */
+export function getWinner(state: GameState<DotsAndBoxesMetadata>): string | null {
+  if (!isGameOver(state)) {
+    return null;
+  }
+
+  const scores = Object.entries(getScores(state));
+  const best = Math.max(...scores.map(([, score]) => score));
+  const leaders = scores.filter(([, score]) => score === best);
+
+  return leaders.length === 1 ? leaders[0][0] : null;
+}
+
+/**
+ * Applies a move to the game state, creating a new immutable state
+ * Completing a box gives the player another turn, so the turn only passes when
+ * the line completes nothing. Passing the turn without a move, as on a timeout,
+ * goes through the engine's advanceTurn and always moves to the next player.
+ * @param state - Current game state
+ * @param move - Move to apply
+ * @returns New game state with move applied
+ * @throws Error if move is invalid
+ */
+export function applyMove(
+  state: GameState<DotsAndBoxesMetadata>,
+  move: DotsAndBoxesMove
+): GameState<DotsAndBoxesMetadata> {
+  const validation = validateMove(state, move.playerId, move);
+  if (!validation.valid) {
+    throw new Error(validation.error || 'Invalid move');
+  }
+
+  if (state.lifecycle === GameLifecycle.COMPLETED) {
+    throw new Error('Game is already completed');
+  }
+
+  const line = {
+    orientation: move.parameters.orientation,
+    row: move.parameters.row,
+    col: move.parameters.col,
+  };
+  const { grid } = state.metadata;
+  const completed = getBoxesCompletedBy(grid, state.metadata.lines, line);
+  const boxes = claimBoxes(state.metadata.boxes, completed, move.playerId);
+
+  const currentPlayerIndex =
+    completed.length > 0
+      ? state.currentPlayerIndex
+      : (state.currentPlayerIndex + 1) % state.players.length;
+
+  const updatedState: GameState<DotsAndBoxesMetadata> = {
+    ...state,
+    currentPlayerIndex,
+    metadata: {
+      ...state.metadata,
+      lines: drawLine(state.metadata.lines, line),
+      boxes,
+      scores: countBoxes(
+        boxes,
+        state.players.map((player) => player.id)
+      ),
+      lastMove: {
+        line,
+        player: move.playerId,
+        completed,
+      },
+    },
+    moveHistory: [...state.moveHistory, move],
+    version: state.version + 1,
+    updatedAt: new Date(),
+  };
+
+  return isGameOver(updatedState)
+    ? { ...updatedState, lifecycle: GameLifecycle.COMPLETED }
+    : updatedState;
+}
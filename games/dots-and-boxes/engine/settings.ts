@@ -0,0 +1,72 @@
+/**
+ * Dots and Boxes settings module
+ * Reads the grid size from the game's custom settings
+ */
+
+import { InvalidGameSettingsError } from '../../../src/domain/errors';
+import { GameSettingsSchema } from '../../../src/domain/models';
+import { GridSize } from '../shared/types';
+import { DEFAULT_GRID, GAME_TYPE, MAX_GRID_SIZE, MIN_GRID_SIZE } from '../shared/constants';
+
+/**
+ * Schema for the grid settings, served with the game type so clients can build a form
+ */
+export const SETTINGS_SCHEMA: GameSettingsSchema = {
+  type: 'object',
+  properties: {
+    rows: {
+      type: 'integer',
+      title: 'Rows',
+      description: 'Number of rows of boxes',
+      default: DEFAULT_GRID.rows,
+      minimum: MIN_GRID_SIZE,
+      maximum: MAX_GRID_SIZE,
+    },
+    columns: {
+      type: 'integer',
+      title: 'Columns',
+      description: 'Number of columns of boxes',
+      default: DEFAULT_GRID.columns,
+      minimum: MIN_GRID_SIZE,
+      maximum: MAX_GRID_SIZE,
+    },
+  },
+};
+
+/**
+ * Reads a grid dimension setting
+ * @throws InvalidGameSettingsError if the value is not an integer within bounds
+ */
+function readSize(settings: Record<string, any>, key: keyof GridSize): number {
+  const value = settings[key];
+  if (value === undefined) {
+    return DEFAULT_GRID[key];
+  }
+  if (
+    typeof value !== 'number' ||
+    !Number.isInteger(value) ||
+    value < MIN_GRID_SIZE ||
+    value > MAX_GRID_SIZE
+  ) {
+    throw new InvalidGameSettingsError(
+      GAME_TYPE,
+      `${key} must be an integer between ${MIN_GRID_SIZE} and ${MAX_GRID_SIZE}`
+    );
+  }
+  return value;
+}
+
+/**
+ * Resolves the grid size for a new game from its custom settings
+ * Recognised settings are `rows` and `columns`, counted in boxes; anything missing
+ * keeps its default.
+ * @param settings - The game's custom settings
+ * @returns The grid size to store with the game
+ * @throws InvalidGameSettingsError if a setting is out of range
+ */
+export function resolveGridSize(settings: Record<string, any> = {}): GridSize {
+  return {
+    rows: readSize(settings, 'rows'),
+    columns: readSize(settings, 'columns'),
+  };
+}
@@ -0,0 +1,94 @@
+/**
+ * Dots and Boxes move validation module
+ * Validates that a move draws a line on the grid that is not drawn yet
+ */
+
+import { GameState } from '../../../src/domain/models';
+import { DotsAndBoxesMetadata, DotsAndBoxesMove, GridSize, Line } from '../shared/types';
+import { isLineDrawn, isOnGrid } from '../shared/board';
+
+/**
+ * Validation result interface
+ */
+export interface ValidationResult {
+  valid: boolean;
+  error?: string;
+}
+
+/**
+ * Error message constants for validation failures
+ */
+const ERROR_MESSAGES = {
+  NOT_YOUR_TURN: 'It is not your turn',
+  INVALID_ACTION: (action: string) => `Unknown action '${action}'; dots and boxes moves use 'draw'`,
+  INVALID_ORIENTATION: "Orientation must be 'horizontal' or 'vertical'",
+  INVALID_LINE: (line: Line, grid: GridSize) =>
+    line.orientation === 'horizontal'
+      ? `Horizontal lines need an integer row between 0 and ${grid.rows} and col between 0 and ${grid.columns - 1}`
+      : `Vertical lines need an integer row between 0 and ${grid.rows - 1} and col between 0 and ${grid.columns}`,
+  LINE_TAKEN: (line: Line) =>
+    `The ${line.orientation} line at (${line.row}, ${line.col}) has already been drawn`,
+} as const;
+
+/**
+ * Checks if it is the specified player's turn
+ * @param state - Current game state
+ * @param playerId - Player ID to check
+ * @returns true if it is the player's turn
+ */
+export function isPlayerTurn(state: GameState<DotsAndBoxesMetadata>, playerId: string): boolean {
+  const currentPlayer = state.players[state.currentPlayerIndex];
+  return currentPlayer?.id === playerId;
+}
+
+/**
+ * Validates a Dots and Boxes move
+ * @param state - Current game state
+ * @param playerId - ID of player making the move
+ * @param move - Move to validate
+ * @returns Validation result with error message if invalid
+ */
+export function validateMove(
+  state: GameState<DotsAndBoxesMetadata>,
+  playerId: string,
+  move: DotsAndBoxesMove
+): ValidationResult {
+  if (!isPlayerTurn(state, playerId)) {
+    return {
+      valid: false,
+      error: ERROR_MESSAGES.NOT_YOUR_TURN,
+    };
+  }
+
+  if (move.action !== 'draw') {
+    return {
+      valid: false,
+      error: ERROR_MESSAGES.INVALID_ACTION(move.action),
+    };
+  }
+
+  const line = move.parameters;
+  if (line?.orientation !== 'horizontal' && line?.orientation !== 'vertical') {
+    return {
+      valid: false,
+      error: ERROR_MESSAGES.INVALID_ORIENTATION,
+    };
+  }
+
+  const { grid, lines } = state.metadata;
+  if (!Number.isInteger(line.row) || !Number.isInteger(line.col) || !isOnGrid(grid, line)) {
+    return {
+      valid: false,
+      error: ERROR_MESSAGES.INVALID_LINE(line, grid),
+    };
+  }
+
+  if (isLineDrawn(lines, line)) {
+    return {
+      valid: false,
+      error: ERROR_MESSAGES.LINE_TAKEN(line),
+    };
+  }
+
+  return { valid: true };
+}
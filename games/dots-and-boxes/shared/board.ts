@@ -0,0 +1,177 @@
+/**
+ * Dots and Boxes grid logic shared by the engine, the AI and the UI
+ * Lines are edges between dots and boxes are the cells they enclose. Pure
+ * functions with no dependency on the game services.
+ */
+
+import type { BoxOwner, BoxPosition, GridSize, Line, Lines } from './types';
+
+/**
+ * Creates a grid with no lines drawn
+ * @param grid - Grid size in boxes
+ * @returns Empty horizontal and vertical line arrays
+ */
+export function createEmptyLines(grid: GridSize): Lines {
+  return {
+    horizontal: Array.from({ length: grid.rows + 1 }, () => Array(grid.columns).fill(false)),
+    vertical: Array.from({ length: grid.rows }, () => Array(grid.columns + 1).fill(false)),
+  };
+}
+
+/**
+ * Creates the box array with every box open
+ * @param grid - Grid size in boxes
+ * @returns rows × columns array of null owners
+ */
+export function createEmptyBoxes(grid: GridSize): BoxOwner[][] {
+  return Array.from({ length: grid.rows }, () => Array(grid.columns).fill(null));
+}
+
+/**
+ * Checks if a line joins two dots of the grid
+ * @param grid - Grid size in boxes
+ * @param line - Line to check
+ * @returns true if the line is within bounds
+ */
+export function isOnGrid(grid: GridSize, line: Line): boolean {
+  const maxRow = line.orientation === 'horizontal' ? grid.rows : grid.rows - 1;
+  const maxCol = line.orientation === 'horizontal' ? grid.columns - 1 : grid.columns;
+  return line.row >= 0 && line.row <= maxRow && line.col >= 0 && line.col <= maxCol;
+}
+
+/**
+ * Checks if two lines are the same
+ */
+export function isSameLine(a: Line, b: Line): boolean {
+  return a.orientation === b.orientation && a.row === b.row && a.col === b.col;
+}
+
+/**
+ * Checks if a line has been drawn
+ * @param lines - Drawn lines
+ * @param line - Line to check, assumed to be on the grid
+ */
+export function isLineDrawn(lines: Lines, line: Line): boolean {
+  return lines[line.orientation][line.row][line.col];
+}
+
+/**
+ * Draws a line without modifying the original
+ * @param lines - Drawn lines
+ * @param line - Line to draw
+ * @returns New lines with the line drawn
+ */
+export function drawLine(lines: Lines, line: Line): Lines {
+  const drawn = lines[line.orientation].map((row, index) =>
+    index === line.row ? row.map((value, col) => value || col === line.col) : row
+  );
+  return { ...lines, [line.orientation]: drawn };
+}
+
+/**
+ * Gets the four sides of a box: top, bottom, left and right
+ */
+export function getBoxSides(box: BoxPosition): Line[] {
+  return [
+    { orientation: 'horizontal', row: box.row, col: box.col },
+    { orientation: 'horizontal', row: box.row + 1, col: box.col },
+    { orientation: 'vertical', row: box.row, col: box.col },
+    { orientation: 'vertical', row: box.row, col: box.col + 1 },
+  ];
+}
+
+/**
+ * Counts the drawn sides of a box
+ */
+export function countDrawnSides(lines: Lines, box: BoxPosition): number {
+  return getBoxSides(box).filter((side) => isLineDrawn(lines, side)).length;
+}
+
+/**
+ * Gets the boxes a line is a side of: one on the edge of the grid, two inside it
+ * @param grid - Grid size in boxes
+ * @param line - Line on the grid
+ * @returns The boxes above and below a horizontal line, or left and right of a vertical one
+ */
+export function getAdjacentBoxes(grid: GridSize, line: Line): BoxPosition[] {
+  const candidates =
+    line.orientation === 'horizontal'
+      ? [
+          { row: line.row - 1, col: line.col },
+          { row: line.row, col: line.col },
+        ]
+      : [
+          { row: line.row, col: line.col - 1 },
+          { row: line.row, col: line.col },
+        ];
+
+  return candidates.filter(
+    (box) => box.row >= 0 && box.row < grid.rows && box.col >= 0 && box.col < grid.columns
+  );
+}
+
+/**
+ * Gets the boxes that drawing a line would complete
+ * @param grid - Grid size in boxes
+ * @param lines - Drawn lines, before the line is drawn
+ * @param line - Undrawn line
+ * @returns The adjacent boxes that already have their other three sides
+ */
+export function getBoxesCompletedBy(grid: GridSize, lines: Lines, line: Line): BoxPosition[] {
+  return getAdjacentBoxes(grid, line).filter((box) => countDrawnSides(lines, box) === 3);
+}
+
+/**
+ * Gets every line not yet drawn, horizontal lines first, each in row-major order
+ * @param lines - Drawn lines
+ */
+export function getAvailableLines(lines: Lines): Line[] {
+  const available: Line[] = [];
+
+  lines.horizontal.forEach((cells, row) =>
+    cells.forEach((drawn, col) => {
+      if (!drawn) {
+        available.push({ orientation: 'horizontal', row, col });
+      }
+    })
+  );
+  lines.vertical.forEach((cells, row) =>
+    cells.forEach((drawn, col) => {
+      if (!drawn) {
+        available.push({ orientation: 'vertical', row, col });
+      }
+    })
+  );
+
+  return available;
+}
+
+/**
+ * Checks if every box has been claimed
+ */
+export function isGridComplete(boxes: BoxOwner[][]): boolean {
+  return boxes.every((row) => row.every((owner) => owner !== null));
+}
+
+/**
+ * Counts the boxes each player owns
+ * @param boxes - Box owners
+ * @param playerIds - Players to count for; players without boxes score 0
+ * @returns Map of player ID to number of boxes
+ */
+export function countBoxes(boxes: BoxOwner[][], playerIds: string[]): Record<string, number> {
+  const scores: Record<string, number> = {};
+  for (const playerId of playerIds) {
+    scores[playerId] = 0;
+  }
+
+  for (const row of boxes) {
+    for (const owner of row) {
+      if (owner !== null) {
+        scores[owner] = (scores[owner] ?? 0) + 1;
+      }
+    }
+  }
+
+  return scores;
+}
@@ -0,0 +1,27 @@
+import type { GridSize } from './types';
+
+/**
+ * Dots and Boxes game constants
+ */
+
+// Grid dimensions, in boxes
+export const DEFAULT_GRID: GridSize = {
+  rows: 5,
+  columns: 5,
+};
+export const MIN_GRID_SIZE = 2;
+export const MAX_GRID_SIZE = 10;
+
+// Player configuration
+export const MIN_PLAYERS = 2;
+export const MAX_PLAYERS = 4;
+
+// One color per seat, in turn order
+export const PLAYER_COLORS: string[] = ['#e53935', '#1e88e5', '#43a047', '#fb8c00'];
+export const PLAYER_COLOR_NAMES: string[] = ['red', 'blue', 'green', 'orange'];
+
+// Game identification
+export const GAME_TYPE = 'dots-and-boxes';
+export const GAME_NAME = 'Dots and Boxes';
+export const GAME_DESCRIPTION =
+  'Dots and Boxes for 2 to 4 players on a grid of dots, 5x5 boxes unless configured otherwise. Players take turns drawing a line between two neighbouring dots; completing the fourth side of a box claims it and earns another turn. The player with the most boxes when the grid is full wins.';
@@ -0,0 +1,8 @@
+/**
+ * Shared types, constants and grid logic for Dots and Boxes
+ * Used by both engine (backend) and UI (frontend) modules
+ */
+
+export * from './types';
+export * from './constants';
+export * from './board';
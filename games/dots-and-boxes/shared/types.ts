@@ -0,0 +1,71 @@
+import type { Move } from '../../../src/domain/models';
+
+/**
+ * Which way a line runs between two neighbouring dots
+ */
+export type Orientation = 'horizontal' | 'vertical';
+
+/**
+ * A line between two neighbouring dots
+ * A horizontal line at (row, col) joins dot (row, col) to dot (row, col + 1);
+ * a vertical line at (row, col) joins dot (row, col) to dot (row + 1, col).
+ */
+export interface Line {
+  orientation: Orientation;
+  row: number;
+  col: number;
+}
+
+/**
+ * Dots and Boxes move parameters
+ * Each move draws one line.
+ */
+export interface DotsAndBoxesMove extends Move<Line> {
+  action: 'draw';
+}
+
+/**
+ * Size of the grid in boxes, chosen when the game is created
+ * A grid of rows × columns boxes has (rows + 1) × (columns + 1) dots.
+ */
+export interface GridSize {
+  rows: number;
+  columns: number;
+}
+
+/**
+ * Drawn lines, tracked separately for each orientation
+ * `horizontal` is (rows + 1) × columns and `vertical` is rows × (columns + 1).
+ */
+export interface Lines {
+  horizontal: boolean[][];
+  vertical: boolean[][];
+}
+
+/**
+ * A box, identified by the dot at its top-left corner
+ */
+export interface BoxPosition {
+  row: number;
+  col: number;
+}
+
+/**
+ * Owner of a box: the ID of the player who completed it, or null while it is open
+ */
+export type BoxOwner = string | null;
+
+/**
+ * Dots and Boxes specific game state metadata
+ */
+export interface DotsAndBoxesMetadata {
+  grid: GridSize;
+  lines: Lines;
+  boxes: BoxOwner[][]; // rows × columns
+  scores: Record<string, number>; // Boxes completed by each player
+  lastMove?: {
+    line: Line;
+    player: string;
+    completed: BoxPosition[]; // Boxes the line completed; any means the player moves again
+  };
+}
@@ -0,0 +1,129 @@
+/**
+ * Tests for DotsAndBoxesMoveInput component
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import { DotsAndBoxesMoveInput } from '../components/DotsAndBoxesMoveInput';
+import type { GameState } from '../types';
+import type { DotsAndBoxesMetadata } from '../../shared/types';
+import { createEmptyBoxes, createEmptyLines, drawLine } from '../../shared/board';
+
+const grid = { rows: 2, columns: 2 };
+
+/**
+ * Helper function to create a test game state
+ */
+function createTestGameState(
+  metadata?: Partial<DotsAndBoxesMetadata>,
+  overrides?: Partial<GameState<DotsAndBoxesMetadata>>
+): GameState<DotsAndBoxesMetadata> {
+  return {
+    gameId: 'test-game-1',
+    gameType: 'dots-and-boxes',
+    lifecycle: 'active',
+    players: [
+      { id: 'player-1', name: 'Alice', joinedAt: '2024-01-01T00:00:00Z' },
+      { id: 'player-2', name: 'Bob', joinedAt: '2024-01-01T00:00:00Z' },
+      { id: 'player-3', name: 'Carol', joinedAt: '2024-01-01T00:00:00Z' }
+    ],
+    currentPlayerIndex: 0,
+    phase: 'playing',
+    board: {
+      spaces: [],
+      metadata: {}
+    },
+    moveHistory: [],
+    metadata: {
+      grid,
+      lines: createEmptyLines(grid),
+      boxes: createEmptyBoxes(grid),
+      scores: { 'player-1': 0, 'player-2': 0, 'player-3': 0 },
+      ...metadata
+    },
+    version: 1,
+    createdAt: '2024-01-01T00:00:00Z',
+    updatedAt: '2024-01-01T00:00:00Z',
+    ...overrides
+  };
+}
+
+describe('DotsAndBoxesMoveInput', () => {
+  it('should render a button for each line and a cell for each box', () => {
+    render(<DotsAndBoxesMoveInput gameState={createTestGameState()} onMoveChange={vi.fn()} />);
+
+    expect(screen.getAllByRole('button')).toHaveLength(12);
+    expect(screen.getByTestId('box-1-1')).toBeInTheDocument();
+    expect(screen.getByTestId('move-status')).toHaveTextContent('Select a line to draw');
+    expect(screen.getByTestId('scores')).toHaveTextContent('Alice: 0Bob: 0Carol: 0');
+  });
+
+  it('should send the line that is clicked', () => {
+    const onMoveChange = vi.fn();
+    render(<DotsAndBoxesMoveInput gameState={createTestGameState()} onMoveChange={onMoveChange} />);
+
+    fireEvent.click(screen.getByTestId('line-vertical-1-2'));
+
+    expect(onMoveChange).toHaveBeenCalledWith({
+      action: 'draw',
+      parameters: { orientation: 'vertical', row: 1, col: 2 }
+    });
+    expect(screen.getByTestId('line-vertical-1-2')).toHaveAttribute('aria-pressed', 'true');
+    expect(screen.getByTestId('move-status')).toHaveTextContent('Line selected');
+  });
+
+  it('should disable lines that are already drawn', () => {
+    const onMoveChange = vi.fn();
+    const lines = drawLine(createEmptyLines(grid), { orientation: 'horizontal', row: 0, col: 1 });
+    render(
+      <DotsAndBoxesMoveInput
+        gameState={createTestGameState({ lines })}
+        onMoveChange={onMoveChange}
+      />
+    );
+
+    expect(screen.getByTestId('line-horizontal-0-1')).toBeDisabled();
+    fireEvent.click(screen.getByTestId('line-horizontal-0-1'));
+    expect(onMoveChange).not.toHaveBeenCalled();
+  });
+
+  it('should show claimed boxes, scores and an extra turn', () => {
+    const boxes = createEmptyBoxes(grid);
+    boxes[0][1] = 'player-2';
+    render(
+      <DotsAndBoxesMoveInput
+        gameState={createTestGameState(
+          {
+            boxes,
+            scores: { 'player-1': 0, 'player-2': 1, 'player-3': 0 },
+            lastMove: {
+              line: { orientation: 'vertical', row: 0, col: 2 },
+              player: 'player-2',
+              completed: [{ row: 0, col: 1 }]
+            }
+          },
+          { currentPlayerIndex: 1 }
+        )}
+        onMoveChange={vi.fn()}
+      />
+    );
+
+    expect(screen.getByTestId('box-0-1')).toHaveTextContent('B');
+    expect(screen.getByTestId('box-0-1')).toHaveAttribute('title', 'Completed by Bob');
+    expect(screen.getByTestId('scores')).toHaveTextContent('Bob: 1');
+    expect(screen.getByTestId('move-status')).toHaveTextContent(
+      'Box completed - draw another line'
+    );
+  });
+
+  it('should disable every line when disabled', () => {
+    render(
+      <DotsAndBoxesMoveInput gameState={createTestGameState()} onMoveChange={vi.fn()} disabled />
+    );
+
+    expect(
+      screen.getAllByRole('button').every((button) => (button as HTMLButtonElement).disabled)
+    ).toBe(true);
+  });
+});
@@ -0,0 +1,166 @@
+import { memo, useCallback, useEffect, useState } from 'react';
+import type { CSSProperties, ReactNode } from 'react';
+import type { GameState, MoveInput } from '../types';
+import type { DotsAndBoxesMetadata, Line, Orientation } from '../../shared/types';
+import { PLAYER_COLORS } from '../../shared/constants';
+import { countBoxes, isLineDrawn, isSameLine } from '../../shared/board';
+import styles from './DotsAndBoxesMoveInput.module.css';
+
+export interface DotsAndBoxesMoveInputProps {
+  gameState: GameState<DotsAndBoxesMetadata>;
+  onMoveChange: (move: MoveInput) => void;
+  disabled?: boolean;
+}
+
+const DOT_SIZE = 12;
+const BOX_SIZE = 40;
+
+export const DotsAndBoxesMoveInput = memo(function DotsAndBoxesMoveInput({
+  gameState,
+  onMoveChange,
+  disabled = false
+}: DotsAndBoxesMoveInputProps) {
+  const { grid, lines, boxes, lastMove } = gameState.metadata;
+  const players = gameState.players;
+  const currentPlayer = players[gameState.currentPlayerIndex];
+  const scores =
+    gameState.metadata.scores ??
+    countBoxes(
+      boxes,
+      players.map((player) => player.id)
+    );
+
+  const [selectedLine, setSelectedLine] = useState<Line | null>(null);
+
+  // Clear the selection whenever the game moves on
+  useEffect(() => {
+    setSelectedLine(null);
+  }, [gameState.version]);
+
+  /**
+   * Handle line click
+   */
+  const handleLineClick = useCallback(
+    (line: Line) => {
+      if (disabled || isLineDrawn(lines, line)) {
+        return;
+      }
+
+      setSelectedLine(line);
+      onMoveChange({
+        action: 'draw',
+        parameters: line
+      });
+    },
+    [disabled, lines, onMoveChange]
+  );
+
+  const getPlayerColor = (playerId: string): string | undefined => {
+    const index = players.findIndex((player) => player.id === playerId);
+    return index >= 0 ? PLAYER_COLORS[index] : undefined;
+  };
+
+  const getStatus = (): string => {
+    if (selectedLine) {
+      return 'Line selected';
+    }
+    if (lastMove && lastMove.completed.length > 0 && lastMove.player === currentPlayer?.id) {
+      return 'Box completed - draw another line';
+    }
+    return 'Select a line to draw';
+  };
+
+  const renderLine = (orientation: Orientation, row: number, col: number): ReactNode => {
+    const line: Line = { orientation, row, col };
+    const isDrawn = isLineDrawn(lines, line);
+    const isClickable = !disabled && !isDrawn;
+    const isSelected = selectedLine !== null && isSameLine(selectedLine, line);
+    const isLast = lastMove !== undefined && isSameLine(lastMove.line, line);
+    const classNames = [
+      styles.line,
+      styles[orientation],
+      isDrawn ? styles.drawn : '',
+      isClickable ? styles.clickable : '',
+      isSelected ? styles.selected : ''
+    ];
+    const lastColor = isLast ? getPlayerColor(lastMove.player) : undefined;
+
+    return (
+      <button
+        key={`${orientation}-${row}-${col}`}
+        data-testid={`line-${orientation}-${row}-${col}`}
+        className={classNames.join(' ')}
+        style={lastColor ? { backgroundColor: lastColor } : undefined}
+        onClick={() => handleLineClick(line)}
+        disabled={!isClickable}
+        type="button"
+        aria-label={`${orientation} line at row ${row + 1}, column ${col + 1}${isDrawn ? ': drawn' : ''}`}
+        aria-pressed={isSelected}
+      />
+    );
+  };
+
+  const cells: ReactNode[] = [];
+  for (let row = 0; row <= 2 * grid.rows; row++) {
+    for (let col = 0; col <= 2 * grid.columns; col++) {
+      const key = `${row}-${col}`;
+      if (row % 2 === 0 && col % 2 === 0) {
+        cells.push(<span key={key} className={styles.dot} />);
+      } else if (row % 2 === 0) {
+        cells.push(renderLine('horizontal', row / 2, (col - 1) / 2));
+      } else if (col % 2 === 0) {
+        cells.push(renderLine('vertical', (row - 1) / 2, col / 2));
+      } else {
+        const boxRow = (row - 1) / 2;
+        const boxCol = (col - 1) / 2;
+        const owner = boxes[boxRow][boxCol];
+        const ownerName = owner
+          ? (players.find((player) => player.id === owner)?.name ?? owner)
+          : '';
+        const color = owner ? getPlayerColor(owner) : undefined;
+        cells.push(
+          <div
+            key={key}
+            data-testid={`box-${boxRow}-${boxCol}`}
+            className={`${styles.box} ${owner ? styles.claimed : ''}`}
+            style={color ? { color, backgroundColor: `${color}59` } : undefined}
+            title={owner ? `Completed by ${ownerName}` : undefined}
+          >
+            {ownerName.charAt(0).toUpperCase()}
+          </div>
+        );
+      }
+    }
+  }
+
+  const gridStyle: CSSProperties = {
+    gridTemplateColumns: `repeat(${grid.columns}, ${DOT_SIZE}px ${BOX_SIZE}px) ${DOT_SIZE}px`,
+    gridTemplateRows: `repeat(${grid.rows}, ${DOT_SIZE}px ${BOX_SIZE}px) ${DOT_SIZE}px`
+  };
+
+  return (
+    <div
+      className={styles.dotsAndBoxesInput}
+      role="group"
+      aria-label="Dots and Boxes line selection"
+    >
+      <div className={styles.grid} style={gridStyle}>
+        {cells}
+      </div>
+      <p className={styles.status} data-testid="move-status">
+        {getStatus()}
+      </p>
+      <ul className={styles.scores} data-testid="scores">
+        {players.map((player, index) => (
+          <li
+            key={player.id}
+            className={player.id === currentPlayer?.id ? styles.current : ''}
+            style={{ color: PLAYER_COLORS[index] }}
+          >
+            {player.name}: {scores[player.id] ?? 0}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+});
@@ -0,0 +1,7 @@
+/**
+ * Dots and Boxes UI components
+ * Exports React components for game interaction
+ */
+
+export { DotsAndBoxesMoveInput } from './components/DotsAndBoxesMoveInput';
+export type { DotsAndBoxesMoveInputProps } from './components/DotsAndBoxesMoveInput';
@@ -0,0 +1,58 @@
+/**
+ * Greedy AI Strategy for Othello
+ *
+ * Plays the move that flips the most discs right now, ignoring where the disc
+ * lands. Provides an easy opponent that still punishes careless play.
+ */
+
+import { AIStrategy } from '../../../src/domain/interfaces';
+import { GameState, Move } from '../../../src/domain/models';
+import { getFlippedDiscs } from '../shared/board';
+import { createPlaceMove, getBoard, getOrderedMoves, getPlayerColor } from './search';
+
+export class GreedyStrategy implements AIStrategy {
+  readonly id = 'greedy';
+  readonly name = 'Greedy';
+  readonly description = 'Flips as many discs as it can every move - good for beginners';
+  readonly difficulty = 'easy';
+
+  async generateMove(state: GameState, aiPlayerId: string): Promise<Move> {
+    const board = getBoard(state);
+    const color = getPlayerColor(state, aiPlayerId);
+
+    const moves = getOrderedMoves(board, color);
+    if (moves.length === 0) {
+      throw new Error('No valid moves available');
+    }
+
+    // Ties go to the better square, since the moves are ordered by square weight
+    let best = moves[0];
+    let mostFlips = 0;
+    for (const move of moves) {
+      const flips = getFlippedDiscs(board, move.row, move.col, color).length;
+      if (flips > mostFlips) {
+        mostFlips = flips;
+        best = move;
+      }
+    }
+
+    return createPlaceMove(best);
+  }
+
+  /**
+   * Get the maximum time this strategy should take to generate a move
+   * @returns 100ms - counting flips is very fast
+   */
+  getTimeLimit(): number {
+    return 100;
+  }
+
+  /**
+   * Validate configuration (no special configuration needed for this strategy)
+   * @param config Configuration to validate
+   * @returns Always true as no configuration is required
+   */
+  validateConfiguration(_config: Record<string, any>): boolean {
+    return true;
+  }
+}
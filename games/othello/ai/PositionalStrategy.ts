@@ -0,0 +1,65 @@
+/**
+ * Positional AI Strategy for Othello
+ *
+ * Looks one move ahead and plays the move leaving the best position by square
+ * weights and mobility: it takes corners, avoids the squares next to empty
+ * corners and tries to leave the opponent few moves.
+ */
+
+import { AIStrategy } from '../../../src/domain/interfaces';
+import { GameState, Move } from '../../../src/domain/models';
+import { placeDisc } from '../engine/rules';
+import {
+  createPlaceMove,
+  evaluateBoard,
+  getBoard,
+  getOrderedMoves,
+  getPlayerColor,
+} from './search';
+
+export class PositionalStrategy implements AIStrategy {
+  readonly id = 'positional';
+  readonly name = 'Positional';
+  readonly description = 'Takes corners and edges and limits your moves, one move at a time';
+  readonly difficulty = 'medium';
+
+  async generateMove(state: GameState, aiPlayerId: string): Promise<Move> {
+    const board = getBoard(state);
+    const color = getPlayerColor(state, aiPlayerId);
+
+    const moves = getOrderedMoves(board, color);
+    if (moves.length === 0) {
+      throw new Error('No valid moves available');
+    }
+
+    let best = moves[0];
+    let bestScore = -Infinity;
+    for (const move of moves) {
+      const { board: next } = placeDisc(board, move.row, move.col, color);
+      const score = evaluateBoard(next, color);
+      if (score > bestScore) {
+        bestScore = score;
+        best = move;
+      }
+    }
+
+    return createPlaceMove(best);
+  }
+
+  /**
+   * Get the maximum time this strategy should take to generate a move
+   * @returns 200ms - a single ply of evaluation is fast
+   */
+  getTimeLimit(): number {
+    return 200;
+  }
+
+  /**
+   * Validate configuration (no special configuration needed for this strategy)
+   * @param config Configuration to validate
+   * @returns Always true as no configuration is required
+   */
+  validateConfiguration(_config: Record<string, any>): boolean {
+    return true;
+  }
+}
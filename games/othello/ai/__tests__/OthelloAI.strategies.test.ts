@@ -0,0 +1,155 @@
+import { GreedyStrategy, MinimaxStrategy, PositionalStrategy } from '../index';
+import { evaluateBoard, getOrderedMoves, searchBestMove, WIN_SCORE } from '../search';
+import { OthelloEngine } from '../../engine/OthelloEngine';
+import { CellState, OthelloMetadata } from '../../shared/types';
+import { countDiscs } from '../../shared/board';
+import { createInitialBoard } from '../../engine/initialization';
+import { GameState, Player } from '../../../../src/domain/models';
+
+/**
+ * Builds a board from rows written top to bottom
+ * B = black, W = white, . = empty
+ */
+function parseBoard(rows: string[]): CellState[][] {
+  return rows.map((row) =>
+    row.split('').map((cell) => (cell === 'B' ? 'black' : cell === 'W' ? 'white' : null))
+  );
+}
+
+describe('Othello AI Strategies', () => {
+  const engine = new OthelloEngine();
+
+  const createPlayers = (aiMetadata?: Record<string, any>): Player[] => [
+    { id: 'black-player', name: 'Black', joinedAt: new Date(), metadata: aiMetadata },
+    { id: 'white-player', name: 'White', joinedAt: new Date() },
+  ];
+
+  function createState(
+    rows: string[],
+    aiMetadata?: Record<string, any>
+  ): GameState<OthelloMetadata> {
+    const state = engine.initializeGame(createPlayers(aiMetadata), {});
+    const board = parseBoard(rows);
+    return { ...state, metadata: { board, discCounts: countDiscs(board) } };
+  }
+
+  // Black can take the corner (0, 0), flipping one disc, or flip three discs at (3, 3)
+  const cornerOrMostFlips = [
+    '.WB.....',
+    '........',
+    '........',
+    '........',
+    '...W....',
+    '...W....',
+    '...W....',
+    '...B....',
+  ];
+
+  describe('search helpers', () => {
+    it('should order moves with corners first', () => {
+      const moves = getOrderedMoves(parseBoard(cornerOrMostFlips), 'black');
+
+      expect(moves[0]).toEqual({ row: 0, col: 0 });
+    });
+
+    it('should evaluate positions symmetrically', () => {
+      const board = parseBoard(cornerOrMostFlips);
+
+      expect(evaluateBoard(board, 'black')).toBe(-evaluateBoard(board, 'white'));
+    });
+
+    it('should score finished games by the result', () => {
+      const board = parseBoard(Array(8).fill('BBBBBWWW'));
+
+      expect(evaluateBoard(board, 'black')).toBe(WIN_SCORE + 16);
+      expect(evaluateBoard(board, 'white')).toBe(-WIN_SCORE - 16);
+    });
+
+    it('should find a move that wins the game outright', () => {
+      // Taking (0, 7) flips the last white discs and ends the game
+      const board = parseBoard([
+        'BWWWWWW.',
+        '........',
+        '........',
+        '........',
+        '........',
+        '........',
+        '........',
+        '........',
+      ]);
+
+      const result = searchBestMove(board, 'black', 4, 1000);
+
+      expect(result.position).toEqual({ row: 0, col: 7 });
+      expect(result.score).toBeGreaterThanOrEqual(WIN_SCORE);
+    });
+
+    it('should stop deepening when the time budget runs out', () => {
+      const result = searchBestMove(createInitialBoard(), 'black', 60, 50);
+
+      expect(result.depth).toBeGreaterThanOrEqual(1);
+      expect(result.depth).toBeLessThan(60);
+    });
+
+    it('should refuse to search without a legal move', () => {
+      expect(() => searchBestMove(parseBoard(Array(8).fill('BBBBBBBB')), 'white', 2, 100)).toThrow(
+        'No valid moves available'
+      );
+    });
+  });
+
+  describe('GreedyStrategy', () => {
+    it('should flip the most discs', async () => {
+      const move = await new GreedyStrategy().generateMove(
+        createState(cornerOrMostFlips),
+        'black-player'
+      );
+
+      expect(move).toMatchObject({ action: 'place', parameters: { row: 3, col: 3 } });
+    });
+  });
+
+  describe('PositionalStrategy', () => {
+    it('should take the corner over more flips', async () => {
+      const move = await new PositionalStrategy().generateMove(
+        createState(cornerOrMostFlips),
+        'black-player'
+      );
+
+      expect(move.parameters).toEqual({ row: 0, col: 0 });
+    });
+  });
+
+  describe('MinimaxStrategy', () => {
+    it('should map difficulty and configuration to a search depth', () => {
+      const strategy = new MinimaxStrategy();
+      const depthFor = (metadata?: Record<string, any>) =>
+        strategy.getSearchDepth(createState(cornerOrMostFlips, metadata), 'black-player');
+
+      expect(depthFor()).toBe(6);
+      expect(depthFor({ difficulty: 'easy' })).toBe(2);
+      expect(depthFor({ difficulty: 'medium', configuration: { depth: 3 } })).toBe(3);
+      expect(depthFor({ configuration: { depth: 0 } })).toBe(6);
+      expect(strategy.validateConfiguration({ depth: 61 })).toBe(false);
+      expect(strategy.validateConfiguration({})).toBe(true);
+    });
+
+    it('should play only legal moves and beat the greedy strategy', async () => {
+      const minimax = new MinimaxStrategy();
+      const greedy = new GreedyStrategy();
+      let state = engine.initializeGame(createPlayers({ difficulty: 'easy' }), {});
+
+      while (!engine.isGameOver(state)) {
+        const playerId = engine.getCurrentPlayer(state);
+        const move = await (playerId === 'black-player' ? minimax : greedy).generateMove(
+          state,
+          playerId
+        );
+        expect(engine.validateMove(state, playerId, move).valid).toBe(true);
+        state = engine.applyMove(state, playerId, move);
+      }
+
+      expect(engine.getWinner(state)).toBe('black-player');
+    });
+  });
+});
@@ -0,0 +1,15 @@
+/**
+ * Othello AI Strategies
+ *
+ * This module exports all AI strategies available for Othello games.
+ * Each strategy implements the AIStrategy interface, from a greedy disc counter
+ * to a positional alpha-beta search.
+ */
+
+export { GreedyStrategy } from './GreedyStrategy';
+export { PositionalStrategy } from './PositionalStrategy';
+export { MinimaxStrategy, DIFFICULTY_DEPTHS, MAX_SEARCH_DEPTH } from './MinimaxStrategy';
+export * from './search';
+
+// Re-export types for convenience
+export type { AIStrategy } from '../../../src/domain/interfaces';
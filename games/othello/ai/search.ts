@@ -0,0 +1,255 @@
+/**
+ * Othello AI search module
+ * Board evaluation and a time-limited alpha-beta search shared by the AI strategies.
+ * Flipping and legal moves come from the shared board module, so the AI always
+ * agrees with the engine. Passes are searched like the engine plays them: a side
+ * without a legal move hands the turn back, and the game ends when neither can move.
+ */
+
+import { GameState, Move } from '../../../src/domain/models';
+import { CellState, OthelloMetadata, PlayerColor, Position } from '../shared/types';
+import { countDiscs, getLegalMoves, getOpponentColor } from '../shared/board';
+import { placeDisc } from '../engine/rules';
+import { assignPlayerColors } from '../engine/initialization';
+
+/**
+ * Score of a won position; the final disc margin is added on top
+ */
+export const WIN_SCORE = 1_000_000;
+
+/**
+ * How often (in visited nodes) the search checks its deadline
+ */
+const DEADLINE_CHECK_INTERVAL = 1024;
+
+/**
+ * Points per legal move of difference in mobility
+ */
+const MOBILITY_WEIGHT = 5;
+
+/**
+ * Value of holding each square
+ * Corners can never be flipped; the squares next to an empty corner give it away.
+ */
+export const POSITION_WEIGHTS: number[][] = [
+  [100, -20, 10, 5, 5, 10, -20, 100],
+  [-20, -50, -2, -2, -2, -2, -50, -20],
+  [10, -2, 1, 1, 1, 1, -2, 10],
+  [5, -2, 1, 0, 0, 1, -2, 5],
+  [5, -2, 1, 0, 0, 1, -2, 5],
+  [10, -2, 1, 1, 1, 1, -2, 10],
+  [-20, -50, -2, -2, -2, -2, -50, -20],
+  [100, -20, 10, 5, 5, 10, -20, 100],
+];
+
+/**
+ * Result of a search
+ */
+export interface SearchResult {
+  position: Position;
+  score: number;
+  /** Deepest fully searched depth */
+  depth: number;
+}
+
+class SearchTimeout extends Error {}
+
+/**
+ * Gets the color an AI player plays with
+ * @param state - Current game state
+ * @param aiPlayerId - ID of the AI player
+ * @returns The AI player's color
+ * @throws Error if the player is not in the game
+ */
+export function getPlayerColor(state: GameState, aiPlayerId: string): PlayerColor {
+  const color = assignPlayerColors(state.players).get(aiPlayerId);
+  if (!color) {
+    throw new Error(`Player ${aiPlayerId} not found in game`);
+  }
+  return color;
+}
+
+/**
+ * Gets the board from an Othello game state
+ */
+export function getBoard(state: GameState): CellState[][] {
+  return (state as GameState<OthelloMetadata>).metadata.board;
+}
+
+/**
+ * Sums the square weights of a color's discs minus the opponent's
+ * @param board - Current board state
+ * @param color - Player to score for
+ * @returns Positive when the color holds the better squares
+ */
+export function scorePositions(board: CellState[][], color: PlayerColor): number {
+  let score = 0;
+  for (let row = 0; row < board.length; row++) {
+    for (let col = 0; col < board[row].length; col++) {
+      const cell = board[row][col];
+      if (cell) {
+        const weight = POSITION_WEIGHTS[row]?.[col] ?? 0;
+        score += cell === color ? weight : -weight;
+      }
+    }
+  }
+  return score;
+}
+
+/**
+ * Scores a finished game from one player's point of view
+ */
+function scoreFinalPosition(board: CellState[][], color: PlayerColor): number {
+  const counts = countDiscs(board);
+  const margin = counts[color] - counts[getOpponentColor(color)];
+  if (margin === 0) {
+    return 0;
+  }
+  return margin > 0 ? WIN_SCORE + margin : -WIN_SCORE + margin;
+}
+
+/**
+ * Evaluates a position from one player's point of view
+ * Combines square weights with mobility; finished games are scored by the result.
+ * The score is symmetric: evaluating for the opponent gives the negated value.
+ * @param board - Current board state
+ * @param color - Player to evaluate for
+ * @returns Positive when the position favours `color`
+ */
+export function evaluateBoard(board: CellState[][], color: PlayerColor): number {
+  const opponent = getOpponentColor(color);
+  const ownMoves = getLegalMoves(board, color).length;
+  const opponentMoves = getLegalMoves(board, opponent).length;
+
+  if (ownMoves === 0 && opponentMoves === 0) {
+    return scoreFinalPosition(board, color);
+  }
+
+  return scorePositions(board, color) + MOBILITY_WEIGHT * (ownMoves - opponentMoves);
+}
+
+/**
+ * Lists a color's legal moves, best squares first
+ * Searching corners first and the squares next to them last prunes more.
+ * @param board - Current board state
+ * @param color - Color to move
+ * @returns Legal positions ordered by square weight
+ */
+export function getOrderedMoves(board: CellState[][], color: PlayerColor): Position[] {
+  return getLegalMoves(board, color).sort(
+    (a, b) => (POSITION_WEIGHTS[b.row]?.[b.col] ?? 0) - (POSITION_WEIGHTS[a.row]?.[a.col] ?? 0)
+  );
+}
+
+/**
+ * Searches for the best placement with iterative deepening alpha-beta (negamax)
+ * Each depth is searched in full before the next one starts, and the best move of
+ * the last finished depth is searched first. When the time budget runs out the
+ * unfinished depth is discarded, so the result always comes from a complete search.
+ * @param board - Current board state
+ * @param color - Color to move
+ * @param maxDepth - Deepest search in plies; a pass counts as a ply
+ * @param timeBudgetMs - Time the search may take
+ * @returns The best placement found
+ * @throws Error if the color has no legal move
+ */
+export function searchBestMove(
+  board: CellState[][],
+  color: PlayerColor,
+  maxDepth: number,
+  timeBudgetMs: number
+): SearchResult {
+  const moves = getOrderedMoves(board, color);
+  if (moves.length === 0) {
+    throw new Error('No valid moves available');
+  }
+
+  const deadline = Date.now() + timeBudgetMs;
+  let nodes = 0;
+
+  const negamax = (
+    node: CellState[][],
+    toMove: PlayerColor,
+    depth: number,
+    alpha: number,
+    beta: number
+  ): number => {
+    if (++nodes % DEADLINE_CHECK_INTERVAL === 0 && Date.now() > deadline) {
+      throw new SearchTimeout();
+    }
+
+    if (depth === 0) {
+      return evaluateBoard(node, toMove);
+    }
+
+    const opponent = getOpponentColor(toMove);
+    const candidates = getOrderedMoves(node, toMove);
+    if (candidates.length === 0) {
+      if (getLegalMoves(node, opponent).length === 0) {
+        return scoreFinalPosition(node, toMove);
+      }
+      return -negamax(node, opponent, depth - 1, -beta, -alpha);
+    }
+
+    let best = -Infinity;
+    for (const { row, col } of candidates) {
+      const { board: next } = placeDisc(node, row, col, toMove);
+      const score = -negamax(next, opponent, depth - 1, -beta, -alpha);
+
+      if (score > best) best = score;
+      if (best > alpha) alpha = best;
+      if (alpha >= beta) break;
+    }
+    return best;
+  };
+
+  let result: SearchResult = { position: moves[0], score: 0, depth: 0 };
+
+  for (let depth = 1; depth <= maxDepth; depth++) {
+    const ordered = [result.position, ...moves.filter((m) => m !== result.position)];
+    let bestPosition = ordered[0];
+    let bestScore = -Infinity;
+    let alpha = -Infinity;
+
+    try {
+      for (const position of ordered) {
+        const { board: next } = placeDisc(board, position.row, position.col, color);
+        const score = -negamax(next, getOpponentColor(color), depth - 1, -Infinity, -alpha);
+
+        if (score > bestScore) {
+          bestScore = score;
+          bestPosition = position;
+        }
+        if (bestScore > alpha) alpha = bestScore;
+      }
+    } catch (error) {
+      if (error instanceof SearchTimeout) {
+        break;
+      }
+      throw error;
+    }
+
+    result = { position: bestPosition, score: bestScore, depth };
+
+    // The game was searched to its end; more depth will not change the result
+    if (Math.abs(bestScore) >= WIN_SCORE) {
+      break;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Creates a placement move
+ * @param position - Cell to place a disc on
+ * @returns Move object; the player ID is set by the calling service
+ */
+export function createPlaceMove(position: Position): Move {
+  return {
+    playerId: '', // Will be set by the calling service
+    action: 'place',
+    parameters: { row: position.row, col: position.col },
+    timestamp: new Date(),
+  };
+}
@@ -0,0 +1,189 @@
+/**
+ * Othello engine tests
+ * Tests the engine facade: metadata, initialization, validation, turns and AI players
+ */
+
+import { GameLifecycle, GameState, Move, Player } from '../../../../src/domain/models';
+import { OthelloEngine } from '../OthelloEngine';
+import { OthelloMetadata } from '../../shared/types';
+import { countDiscs } from '../../shared/board';
+import { GAME_TYPE, MAX_PLAYERS, MIN_PLAYERS } from '../../shared/constants';
+
+describe('OthelloEngine', () => {
+  const engine = new OthelloEngine();
+  const players: Player[] = [
+    { id: 'alice', name: 'Alice', joinedAt: new Date() },
+    { id: 'bob', name: 'Bob', joinedAt: new Date() },
+  ];
+
+  function place(row: number, col: number, action = 'place'): Move {
+    return { playerId: '', timestamp: new Date(), action, parameters: { row, col } };
+  }
+
+  function withBoard(rows: string[]): GameState<OthelloMetadata> {
+    const board = rows.map((row) =>
+      row.split('').map((cell) => (cell === 'B' ? 'black' : cell === 'W' ? 'white' : null))
+    );
+    const state = engine.initializeGame(players, {});
+    return { ...state, metadata: { board, discCounts: countDiscs(board) } };
+  }
+
+  describe('metadata', () => {
+    it('should describe a two-player game', () => {
+      expect(engine.getGameType()).toBe(GAME_TYPE);
+      expect(engine.getMinPlayers()).toBe(MIN_PLAYERS);
+      expect(engine.getMaxPlayers()).toBe(MAX_PLAYERS);
+      expect(engine.getDescription()).toContain('Othello');
+    });
+  });
+
+  describe('initializeGame', () => {
+    it('should set up the four center discs with black to move', () => {
+      const state = engine.initializeGame(players, { customSettings: { gameId: 'game-1' } });
+
+      expect(state.gameId).toBe('game-1');
+      expect(state.gameType).toBe('othello');
+      expect(state.lifecycle).toBe(GameLifecycle.ACTIVE);
+      expect(state.currentPlayerIndex).toBe(0);
+      expect(state.metadata.board[3][3]).toBe('white');
+      expect(state.metadata.board[3][4]).toBe('black');
+      expect(state.metadata.board[4][3]).toBe('black');
+      expect(state.metadata.board[4][4]).toBe('white');
+      expect(state.metadata.discCounts).toEqual({ black: 2, white: 2 });
+    });
+  });
+
+  describe('validateMove', () => {
+    const state = engine.initializeGame(players, {});
+
+    it('should accept a placement that flips discs', () => {
+      expect(engine.validateMove(state, 'alice', place(2, 3))).toEqual({
+        valid: true,
+        reason: undefined,
+      });
+    });
+
+    it.each([
+      ['bob', place(2, 3), 'It is not your turn'],
+      ['alice', place(2, 3, 'pass'), "Unknown action 'pass'"],
+      ['alice', place(8, 0), 'between 0 and 7'],
+      ['alice', place(1.5, 0), 'between 0 and 7'],
+      ['alice', place(3, 3), 'already occupied'],
+      ['alice', place(2, 2), 'would not outflank'],
+    ])('should reject a move by %s: %j', (playerId, move, reason) => {
+      const result = engine.validateMove(state, playerId, move);
+
+      expect(result.valid).toBe(false);
+      expect(result.reason).toContain(reason);
+    });
+  });
+
+  describe('game flow', () => {
+    it('should alternate turns', () => {
+      let state = engine.initializeGame(players, {});
+      state = engine.applyMove(state, 'alice', place(2, 3));
+      expect(engine.getCurrentPlayer(state)).toBe('bob');
+
+      state = engine.applyMove(state, 'bob', place(2, 2));
+      expect(engine.getCurrentPlayer(state)).toBe('alice');
+      expect(engine.isGameOver(state)).toBe(false);
+    });
+
+    it('should end the game and name the player with more discs', () => {
+      const state = withBoard([
+        'BBBBBBBB',
+        'BBBBBBBB',
+        'BBBBBBBB',
+        'BBBBBBBB',
+        'WWWWWWWW',
+        'WWWWWWWW',
+        'WWWWWWWW',
+        'WWWWWWB.',
+      ]);
+
+      const next = engine.applyMove(state, 'alice', place(7, 7));
+
+      expect(engine.isGameOver(next)).toBe(true);
+      expect(engine.getWinner(next)).toBe('alice');
+    });
+
+    it('should report a draw with equal disc counts', () => {
+      const state = withBoard(Array(8).fill('BBBBWWWW'));
+
+      expect(engine.isGameOver(state)).toBe(true);
+      expect(engine.getWinner(state)).toBeNull();
+    });
+
+    it('should skip a player with no legal move when the turn is passed on', () => {
+      // White cannot outflank any black disc, so a timed-out black keeps the turn
+      const whiteStuck = withBoard([
+        'BW......',
+        'W.......',
+        '........',
+        '........',
+        '........',
+        '........',
+        '.......W',
+        '......WB',
+      ]);
+
+      expect(engine.advanceTurn(engine.initializeGame(players, {})).currentPlayerIndex).toBe(1);
+      expect(engine.advanceTurn(whiteStuck).currentPlayerIndex).toBe(0);
+    });
+  });
+
+  describe('AI support', () => {
+    it('should offer strategies from greedy to minimax', () => {
+      expect(engine.supportsAI()).toBe(true);
+      expect(engine.getAIStrategies().map((s) => s.id)).toEqual([
+        'minimax',
+        'positional',
+        'greedy',
+      ]);
+      expect(engine.getDefaultAIStrategy().id).toBe('minimax');
+    });
+
+    it('should create AI players for a strategy', () => {
+      const player = engine.createAIPlayer('Bot', 'greedy');
+
+      expect(player.gameType).toBe('othello');
+      expect(player.strategyId).toBe('greedy');
+      expect(player.difficulty).toBe('easy');
+      expect(engine.createAIPlayer('Bot', undefined, 'medium').difficulty).toBe('medium');
+      expect(() => engine.createAIPlayer('Bot', 'unknown')).toThrow("'unknown' not found");
+    });
+  });
+
+  describe('renderBoard', () => {
+    it('should render the board with discs and move hints', () => {
+      const renderData = engine.renderBoard(engine.initializeGame(players, {}));
+
+      expect(renderData.viewBox).toEqual({ width: 480, height: 480 });
+      expect(renderData.layers.map((layer) => layer.name)).toEqual(['grid', 'discs', 'move-hints']);
+      expect(renderData.layers[1].elements).toHaveLength(4);
+      expect(renderData.layers[2].elements).toHaveLength(4);
+    });
+
+    it('should mark the last move and drop hints once the game is over', () => {
+      const state = withBoard([
+        'BBBBBBBB',
+        'BBBBBBBB',
+        'BBBBBBBB',
+        'BBBBBBBB',
+        'WWWWWWWW',
+        'WWWWWWWW',
+        'WWWWWWWW',
+        'WWWWWWB.',
+      ]);
+      const next = {
+        ...engine.applyMove(state, 'alice', place(7, 7)),
+        lifecycle: GameLifecycle.COMPLETED,
+      };
+
+      const renderData = engine.renderBoard(next);
+
+      expect(renderData.layers.map((layer) => layer.name)).toEqual(['grid', 'discs', 'last-move']);
+      expect(renderData.layers[2].elements[0].attributes).toMatchObject({ cx: 450, cy: 450 });
+    });
+  });
+});
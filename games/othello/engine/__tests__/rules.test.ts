@@ -0,0 +1,234 @@
+/**
+ * Othello rules module tests
+ * Tests flipping in all eight directions, automatic passes and the end of the game
+ */
+
+import { GameLifecycle, GameState, Player } from '../../../../src/domain/models';
+import { CellState, OthelloMetadata, OthelloMove } from '../../shared/types';
+import { countDiscs, getFlippedDiscs, getLegalMoves } from '../../shared/board';
+import { createInitialBoard, initializeGame } from '../initialization';
+import { applyMove, getWinner, isGameOver, placeDisc } from '../rules';
+
+/**
+ * Builds a board from rows written top to bottom
+ * B = black, W = white, . = empty
+ */
+function parseBoard(rows: string[]): CellState[][] {
+  return rows.map((row) =>
+    row.split('').map((cell) => (cell === 'B' ? 'black' : cell === 'W' ? 'white' : null))
+  );
+}
+
+describe('Rules Module', () => {
+  const players: Player[] = [
+    { id: 'black-player', name: 'Black', joinedAt: new Date() },
+    { id: 'white-player', name: 'White', joinedAt: new Date() },
+  ];
+
+  function createState(rows: string[], currentPlayerIndex = 0): GameState<OthelloMetadata> {
+    const board = parseBoard(rows);
+    const state = initializeGame('game-1', players);
+    return {
+      ...state,
+      currentPlayerIndex,
+      metadata: { board, discCounts: countDiscs(board) },
+    };
+  }
+
+  function place(playerId: string, row: number, col: number): OthelloMove {
+    return { playerId, timestamp: new Date(), action: 'place', parameters: { row, col } };
+  }
+
+  describe('flipping', () => {
+    it('should offer black four moves from the starting position', () => {
+      expect(getLegalMoves(createInitialBoard(), 'black')).toEqual([
+        { row: 2, col: 3 },
+        { row: 3, col: 2 },
+        { row: 4, col: 5 },
+        { row: 5, col: 4 },
+      ]);
+    });
+
+    it('should flip outflanked lines in all eight directions', () => {
+      const board = parseBoard([
+        'B..B..B.',
+        '.W.W.W..',
+        '..WWW...',
+        'BWW.WWB.',
+        '..WWW...',
+        '.W.W.W..',
+        'B..B..B.',
+        '........',
+      ]);
+
+      const flipped = getFlippedDiscs(board, 3, 3, 'black');
+
+      expect(flipped).toHaveLength(16);
+      const { board: next } = placeDisc(board, 3, 3, 'black');
+      expect(countDiscs(next)).toEqual({ black: 25, white: 0 });
+    });
+
+    it("should only flip lines that end in the player's own disc", () => {
+      const board = parseBoard([
+        '........',
+        '........',
+        '........',
+        '.WW.WWB.',
+        '........',
+        '........',
+        '........',
+        '........',
+      ]);
+
+      expect(getFlippedDiscs(board, 3, 3, 'black')).toEqual([
+        { row: 3, col: 4 },
+        { row: 3, col: 5 },
+      ]);
+      expect(getFlippedDiscs(board, 3, 0, 'black')).toEqual([]);
+    });
+
+    it('should not flip across empty cells or the edge of the board', () => {
+      const board = parseBoard([
+        'WWB.....',
+        '........',
+        '........',
+        '........',
+        '........',
+        '........',
+        '........',
+        '........',
+      ]);
+
+      expect(getFlippedDiscs(board, 0, 3, 'white')).toEqual([{ row: 0, col: 2 }]);
+      expect(getFlippedDiscs(board, 0, 4, 'white')).toEqual([]);
+      expect(getFlippedDiscs(board, 0, 0, 'black')).toEqual([]);
+    });
+
+    it('should refuse a placement that flips nothing', () => {
+      expect(() => placeDisc(createInitialBoard(), 0, 0, 'black')).toThrow(
+        'does not flip any discs'
+      );
+    });
+  });
+
+  describe('applyMove', () => {
+    it('should place the disc, flip and hand the turn over', () => {
+      const state = initializeGame('game-1', players);
+
+      const next = applyMove(state, place('black-player', 2, 3));
+
+      expect(next.metadata.board[2][3]).toBe('black');
+      expect(next.metadata.board[3][3]).toBe('black');
+      expect(next.metadata.discCounts).toEqual({ black: 4, white: 1 });
+      expect(next.metadata.lastMove).toEqual({
+        row: 2,
+        col: 3,
+        player: 'black-player',
+        flipped: [{ row: 3, col: 3 }],
+      });
+      expect(next.currentPlayerIndex).toBe(1);
+      expect(next.metadata.passedPlayer).toBeUndefined();
+      expect(next.moveHistory).toHaveLength(1);
+      expect(state.metadata.board[2][3]).toBeNull();
+    });
+
+    it('should pass automatically for a player with no legal move', () => {
+      // After black takes (0, 2), white has no disc left that can outflank black
+      const state = createState([
+        'BW......',
+        'W.......',
+        '........',
+        '........',
+        '........',
+        '........',
+        '.......W',
+        '......WB',
+      ]);
+
+      const next = applyMove(state, place('black-player', 0, 2));
+
+      expect(getLegalMoves(next.metadata.board, 'white')).toEqual([]);
+      expect(next.currentPlayerIndex).toBe(0);
+      expect(next.metadata.passedPlayer).toBe('white-player');
+      expect(next.lifecycle).toBe(GameLifecycle.ACTIVE);
+
+      const after = applyMove(next, place('black-player', 2, 0));
+      expect(after.metadata.passedPlayer).toBe('white-player');
+      expect(after.currentPlayerIndex).toBe(0);
+    });
+
+    it('should clear the pass once the skipped player can move again', () => {
+      const initial = initializeGame('game-1', players);
+      const state = {
+        ...initial,
+        metadata: { ...initial.metadata, passedPlayer: 'white-player' },
+      };
+
+      const next = applyMove(state, place('black-player', 2, 3));
+
+      expect(next.metadata.passedPlayer).toBeUndefined();
+      expect(next.currentPlayerIndex).toBe(1);
+    });
+
+    it('should complete the game when neither player can move', () => {
+      const state = createState([
+        'BBBBBBBB',
+        'BBBBBBBB',
+        'BBBBBBBB',
+        'BBBBBBBB',
+        'BBBBBBBB',
+        'BBBBBBBB',
+        'BBBBBBBB',
+        'BBBBBBW.',
+      ]);
+
+      const next = applyMove(state, place('black-player', 7, 7));
+
+      expect(isGameOver(next.metadata.board)).toBe(true);
+      expect(next.lifecycle).toBe(GameLifecycle.COMPLETED);
+      expect(next.metadata.discCounts).toEqual({ black: 64, white: 0 });
+    });
+
+    it('should reject invalid moves', () => {
+      const state = initializeGame('game-1', players);
+
+      expect(() => applyMove(state, place('white-player', 2, 3))).toThrow('not your turn');
+      expect(() => applyMove(state, place('black-player', 0, 0))).toThrow('would not outflank');
+    });
+  });
+
+  describe('end of game', () => {
+    it('should not be over while either player can move', () => {
+      expect(isGameOver(createInitialBoard())).toBe(false);
+    });
+
+    it('should end when one color is wiped out', () => {
+      const board = parseBoard([
+        'BBB.....',
+        '........',
+        '........',
+        '........',
+        '........',
+        '........',
+        '........',
+        '........',
+      ]);
+
+      expect(isGameOver(board)).toBe(true);
+      expect(getWinner(board)).toBe('black');
+    });
+
+    it('should award the game to the player with more discs', () => {
+      const board = parseBoard(Array(8).fill('WWWWWBBB'));
+
+      expect(getWinner(board)).toBe('white');
+    });
+
+    it('should be a draw when the disc counts are equal', () => {
+      const board = parseBoard(Array(8).fill('BBBBWWWW'));
+
+      expect(isGameOver(board)).toBe(true);
+      expect(getWinner(board)).toBeNull();
+    });
+  });
+});
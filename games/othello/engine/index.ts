@@ -0,0 +1,11 @@
+/**
+ * Othello Engine Module
+ * Barrel export for the game engine
+ */
+
+export { OthelloEngine } from './OthelloEngine';
+export * from './metadata';
+export * from './initialization';
+export * from './validation';
+export * from './rules';
+export * from './renderer';
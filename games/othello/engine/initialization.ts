@@ -0,0 +1,89 @@
+/**
+ * Othello game initialization module
+ * Handles game state initialization, the starting position, and player color assignment
+ */
+
+import { GameState, Player, GameLifecycle, Board } from '../../../src/domain/models';
+import { CellState, PlayerColor, OthelloMetadata } from '../shared/types';
+import { BOARD_SIZE, PLAYER_COLORS, GAME_TYPE } from '../shared/constants';
+import { countDiscs } from '../shared/board';
+
+/**
+ * Creates the Othello starting position
+ * Two discs of each color sit diagonally in the four center cells, with white on
+ * the top-left to bottom-right diagonal.
+ * @param size - Board size (8 by default)
+ * @returns A size x size board with the four center discs placed
+ */
+export function createInitialBoard(size: number = BOARD_SIZE): CellState[][] {
+  const board = Array.from({ length: size }, () =>
+    Array.from({ length: size }, () => null as CellState)
+  );
+
+  const center = size / 2;
+  board[center - 1][center - 1] = 'white';
+  board[center - 1][center] = 'black';
+  board[center][center - 1] = 'black';
+  board[center][center] = 'white';
+
+  return board;
+}
+
+/**
+ * Assigns colors to players deterministically
+ * First player gets black and moves first, second player gets white
+ * @param players - Array of players
+ * @returns Map of player ID to assigned color
+ */
+export function assignPlayerColors(players: Player[]): Map<string, PlayerColor> {
+  const colorMap = new Map<string, PlayerColor>();
+
+  players.forEach((player, index) => {
+    if (index < PLAYER_COLORS.length) {
+      colorMap.set(player.id, PLAYER_COLORS[index]);
+    }
+  });
+
+  return colorMap;
+}
+
+/**
+ * Initializes a new Othello game
+ * @param gameId - Unique identifier for the game
+ * @param players - Array of players (can be 0 for CREATED state, or 2 for ACTIVE state)
+ * @returns Initialized game state
+ */
+export function initializeGame(gameId: string, players: Player[]): GameState<OthelloMetadata> {
+  // Player count validation happens at the service level; players may join later
+
+  const board = createInitialBoard();
+
+  const metadata: OthelloMetadata = {
+    board,
+    discCounts: countDiscs(board),
+  };
+
+  // Othello doesn't use the spaces model of the domain board
+  const domainBoard: Board = {
+    spaces: [],
+    metadata: {},
+  };
+
+  const now = new Date();
+
+  return {
+    gameId,
+    gameType: GAME_TYPE,
+    lifecycle: GameLifecycle.ACTIVE,
+    players,
+    currentPlayerIndex: 0, // Black moves first
+    phase: 'playing',
+    board: domainBoard,
+    moveHistory: [],
+    metadata,
+    winner: null,
+    version: 0,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
@@ -0,0 +1,200 @@
+/**
+ * Othello rendering module
+ * Handles SVG board rendering with discs, the last move and legal move hints
+ */
+
+import { GameState, GameLifecycle } from '../../../src/domain/models';
+import { BoardRenderData, RenderElement, RenderLayer } from '../../../src/domain/interfaces';
+import { BOARD_SIZE, PLAYER_COLORS } from '../shared/constants';
+import { CellState, OthelloMetadata, Position } from '../shared/types';
+import { getLegalMoves } from '../shared/board';
+
+/**
+ * Constants for rendering
+ */
+const CELL_SIZE = 60;
+const DISC_RADIUS = 24;
+const GRID_LINE_WIDTH = 2;
+const BOARD_COLOR = '#2e7d32';
+const GRID_COLOR = '#1b5e20';
+const BLACK_COLOR = '#212121';
+const WHITE_COLOR = '#fafafa';
+const DISC_STROKE_COLOR = '#111111';
+const LAST_MOVE_COLOR = '#e53935';
+const HINT_COLOR = 'rgba(0, 0, 0, 0.25)';
+const STAR_POINT_RADIUS = 4;
+
+/**
+ * Create the grid layer with the green board, grid lines and star points
+ */
+export function createGridLayer(size: number = BOARD_SIZE): RenderElement[] {
+  const boardSize = size * CELL_SIZE;
+  const gridElements: RenderElement[] = [];
+
+  // Board background
+  gridElements.push({
+    type: 'rect',
+    attributes: {
+      x: 0,
+      y: 0,
+      width: boardSize,
+      height: boardSize,
+      fill: BOARD_COLOR,
+    },
+  });
+
+  // Grid lines, including the border
+  for (let i = 0; i <= size; i++) {
+    const offset = i * CELL_SIZE;
+    gridElements.push({
+      type: 'path',
+      attributes: {
+        d: `M ${offset} 0 L ${offset} ${boardSize}`,
+        stroke: GRID_COLOR,
+        strokeWidth: GRID_LINE_WIDTH,
+      },
+    });
+    gridElements.push({
+      type: 'path',
+      attributes: {
+        d: `M 0 ${offset} L ${boardSize} ${offset}`,
+        stroke: GRID_COLOR,
+        strokeWidth: GRID_LINE_WIDTH,
+      },
+    });
+  }
+
+  // Star points marking the corners of the central 4x4 area
+  for (const row of [2, size - 2]) {
+    for (const col of [2, size - 2]) {
+      gridElements.push({
+        type: 'circle',
+        attributes: {
+          cx: col * CELL_SIZE,
+          cy: row * CELL_SIZE,
+          r: STAR_POINT_RADIUS,
+          fill: GRID_COLOR,
+        },
+      });
+    }
+  }
+
+  return gridElements;
+}
+
+/**
+ * Render a single disc at the specified position
+ */
+export function renderDisc(row: number, col: number, color: 'black' | 'white'): RenderElement {
+  return {
+    type: 'circle',
+    attributes: {
+      cx: col * CELL_SIZE + CELL_SIZE / 2,
+      cy: row * CELL_SIZE + CELL_SIZE / 2,
+      r: DISC_RADIUS,
+      fill: color === 'black' ? BLACK_COLOR : WHITE_COLOR,
+      stroke: DISC_STROKE_COLOR,
+      strokeWidth: 1,
+    },
+  };
+}
+
+/**
+ * Create the disc layer with every disc on the board
+ */
+export function createDiscLayer(board: CellState[][]): RenderElement[] {
+  const discElements: RenderElement[] = [];
+
+  for (let row = 0; row < board.length; row++) {
+    for (let col = 0; col < board[row].length; col++) {
+      const cell = board[row][col];
+      if (cell) {
+        discElements.push(renderDisc(row, col, cell));
+      }
+    }
+  }
+
+  return discElements;
+}
+
+/**
+ * Mark the disc placed by the last move with a small dot
+ */
+export function createLastMoveMarker(lastMove?: Position): RenderElement[] {
+  if (!lastMove) {
+    return [];
+  }
+
+  return [
+    {
+      type: 'circle',
+      attributes: {
+        cx: lastMove.col * CELL_SIZE + CELL_SIZE / 2,
+        cy: lastMove.row * CELL_SIZE + CELL_SIZE / 2,
+        r: 5,
+        fill: LAST_MOVE_COLOR,
+      },
+    },
+  ];
+}
+
+/**
+ * Show the cells where the player to move may place a disc
+ */
+export function createMoveHints(moves: Position[]): RenderElement[] {
+  return moves.map(({ row, col }) => ({
+    type: 'circle',
+    attributes: {
+      cx: col * CELL_SIZE + CELL_SIZE / 2,
+      cy: row * CELL_SIZE + CELL_SIZE / 2,
+      r: 6,
+      fill: HINT_COLOR,
+    },
+  }));
+}
+
+/**
+ * Render the game board to BoardRenderData format
+ */
+export function renderBoard(state: GameState<OthelloMetadata>): BoardRenderData {
+  const board = state.metadata.board;
+  const boardSize = board.length * CELL_SIZE;
+
+  const layers: RenderLayer[] = [
+    {
+      name: 'grid',
+      zIndex: 1,
+      elements: createGridLayer(board.length),
+    },
+    {
+      name: 'discs',
+      zIndex: 2,
+      elements: createDiscLayer(board),
+    },
+  ];
+
+  const marker = createLastMoveMarker(state.metadata.lastMove);
+  if (marker.length > 0) {
+    layers.push({
+      name: 'last-move',
+      zIndex: 3,
+      elements: marker,
+    });
+  }
+
+  const color = PLAYER_COLORS[state.currentPlayerIndex];
+  if (state.lifecycle === GameLifecycle.ACTIVE && color) {
+    layers.push({
+      name: 'move-hints',
+      zIndex: 4,
+      elements: createMoveHints(getLegalMoves(board, color)),
+    });
+  }
+
+  return {
+    viewBox: { width: boardSize, height: boardSize },
+    backgroundColor: '#ffffff',
+    spaces: [], // Othello doesn't use the spaces model
+    layers,
+  };
+}
@@ -0,0 +1,144 @@
+/**
+ * Othello rules module
+ * Handles disc placement and flipping, automatic passes, and the end of the game
+ */
+
+import { GameState, GameLifecycle } from '../../../src/domain/models';
+import { CellState, OthelloMetadata, OthelloMove, PlayerColor, Position } from '../shared/types';
+import { countDiscs, getFlippedDiscs, hasLegalMove } from '../shared/board';
+import { assignPlayerColors } from './initialization';
+import { validateMove } from './validation';
+
+/**
+ * Places a disc and flips every outflanked line
+ * @param board - Current board state
+ * @param row - Row of the placement
+ * @param col - Column of the placement
+ * @param color - Color of the player placing
+ * @returns New board and the positions of the flipped discs
+ * @throws Error if the placement flips nothing
+ */
+export function placeDisc(
+  board: CellState[][],
+  row: number,
+  col: number,
+  color: PlayerColor
+): { board: CellState[][]; flipped: Position[] } {
+  const flipped = getFlippedDiscs(board, row, col, color);
+  if (flipped.length === 0) {
+    throw new Error(`Placing at (${row}, ${col}) does not flip any discs`);
+  }
+
+  const newBoard = board.map((cells) => [...cells]);
+  newBoard[row][col] = color;
+  for (const position of flipped) {
+    newBoard[position.row][position.col] = color;
+  }
+
+  return { board: newBoard, flipped };
+}
+
+/**
+ * Checks if the game is over
+ * The game ends when neither player has a legal move, which includes a full board.
+ * @param board - Current board state
+ * @returns true if no player can move
+ */
+export function isGameOver(board: CellState[][]): boolean {
+  return !hasLegalMove(board, 'black') && !hasLegalMove(board, 'white');
+}
+
+/**
+ * Determines the winner by disc count
+ * @param board - Current board state
+ * @returns The color with more discs, or null for a draw
+ */
+export function getWinner(board: CellState[][]): PlayerColor | null {
+  const counts = countDiscs(board);
+  if (counts.black === counts.white) {
+    return null;
+  }
+  return counts.black > counts.white ? 'black' : 'white';
+}
+
+/**
+ * Works out who moves next after a player's turn
+ * The opponent moves if they can; otherwise they pass automatically and the same
+ * player moves again. When neither can move the turn stays put and the game is over.
+ * @param state - Game state whose current player has just moved or been skipped
+ * @param board - Board after the turn
+ * @returns Index of the next player and the ID of a player who had to pass
+ */
+export function resolveNextTurn(
+  state: GameState<OthelloMetadata>,
+  board: CellState[][]
+): { currentPlayerIndex: number; passedPlayer?: string } {
+  const colors = assignPlayerColors(state.players);
+  const moverIndex = state.currentPlayerIndex;
+  const nextIndex = (moverIndex + 1) % state.players.length;
+  const nextPlayer = state.players[nextIndex];
+  const nextColor = colors.get(nextPlayer.id);
+  const moverColor = colors.get(state.players[moverIndex].id);
+
+  if (nextColor && hasLegalMove(board, nextColor)) {
+    return { currentPlayerIndex: nextIndex };
+  }
+  if (moverColor && hasLegalMove(board, moverColor)) {
+    return { currentPlayerIndex: moverIndex, passedPlayer: nextPlayer.id };
+  }
+  return { currentPlayerIndex: moverIndex };
+}
+
+/**
+ * Applies a move to the game state, creating a new immutable state
+ * Flips the outflanked discs, passes for an opponent with no legal move and
+ * completes the game when neither player can move.
+ * @param state - Current game state
+ * @param move - Move to apply
+ * @returns New game state with move applied
+ * @throws Error if move is invalid
+ */
+export function applyMove(
+  state: GameState<OthelloMetadata>,
+  move: OthelloMove
+): GameState<OthelloMetadata> {
+  const validation = validateMove(state, move.playerId, move);
+  if (!validation.valid) {
+    throw new Error(validation.error || 'Invalid move');
+  }
+
+  if (state.lifecycle === GameLifecycle.COMPLETED) {
+    throw new Error('Game is already completed');
+  }
+
+  const playerColor = assignPlayerColors(state.players).get(move.playerId);
+  if (!playerColor) {
+    throw new Error(`Player ${move.playerId} not found in game`);
+  }
+
+  const { row, col } = move.parameters;
+  const { board, flipped } = placeDisc(state.metadata.board, row, col, playerColor);
+  const { currentPlayerIndex, passedPlayer } = resolveNextTurn(state, board);
+
+  // Previous passes are cleared; only a pass caused by this move is recorded
+  const metadata: OthelloMetadata = {
+    ...state.metadata,
+    board,
+    discCounts: countDiscs(board),
+    lastMove: { row, col, player: move.playerId, flipped },
+  };
+  delete metadata.passedPlayer;
+  if (passedPlayer) {
+    metadata.passedPlayer = passedPlayer;
+  }
+
+  return {
+    ...state,
+    lifecycle: isGameOver(board) ? GameLifecycle.COMPLETED : state.lifecycle,
+    currentPlayerIndex,
+    metadata,
+    moveHistory: [...state.moveHistory, move],
+    version: state.version + 1,
+    updatedAt: new Date(),
+  };
+}
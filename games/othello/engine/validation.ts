@@ -0,0 +1,97 @@
+/**
+ * Othello move validation module
+ * Handles validation of player moves including turn order, bounds and flipping
+ */
+
+import { GameState } from '../../../src/domain/models';
+import { OthelloMetadata, OthelloMove } from '../shared/types';
+import { getFlippedDiscs, isOnBoard } from '../shared/board';
+import { assignPlayerColors } from './initialization';
+
+/**
+ * Validation result interface
+ */
+export interface ValidationResult {
+  valid: boolean;
+  error?: string;
+}
+
+/**
+ * Error message constants for validation failures
+ */
+const ERROR_MESSAGES = {
+  NOT_YOUR_TURN: 'It is not your turn',
+  INVALID_ACTION: (action: string) => `Unknown action '${action}'; Othello moves use 'place'`,
+  INVALID_POSITION: (size: number) => `Row and column must be integers between 0 and ${size - 1}`,
+  CELL_OCCUPIED: (row: number, col: number) => `Cell (${row}, ${col}) is already occupied`,
+  NO_FLIPS: (row: number, col: number) =>
+    `A disc at (${row}, ${col}) would not outflank any of your opponent's discs`,
+} as const;
+
+/**
+ * Checks if it is the specified player's turn
+ * @param state - Current game state
+ * @param playerId - Player ID to check
+ * @returns true if it is the player's turn
+ */
+export function isPlayerTurn(state: GameState<OthelloMetadata>, playerId: string): boolean {
+  const currentPlayer = state.players[state.currentPlayerIndex];
+  return currentPlayer?.id === playerId;
+}
+
+/**
+ * Validates an Othello move
+ * A placement is legal on an empty cell that flips at least one line of the
+ * opponent's discs in any of the eight directions.
+ * @param state - Current game state
+ * @param playerId - ID of player making the move
+ * @param move - Move to validate
+ * @returns Validation result with error message if invalid
+ */
+export function validateMove(
+  state: GameState<OthelloMetadata>,
+  playerId: string,
+  move: OthelloMove
+): ValidationResult {
+  if (!isPlayerTurn(state, playerId)) {
+    return {
+      valid: false,
+      error: ERROR_MESSAGES.NOT_YOUR_TURN,
+    };
+  }
+
+  if (move.action !== 'place') {
+    return {
+      valid: false,
+      error: ERROR_MESSAGES.INVALID_ACTION(move.action),
+    };
+  }
+
+  const board = state.metadata.board;
+  const { row, col } = move.parameters ?? {};
+  if (!Number.isInteger(row) || !Number.isInteger(col) || !isOnBoard(board, row, col)) {
+    return {
+      valid: false,
+      error: ERROR_MESSAGES.INVALID_POSITION(board.length),
+    };
+  }
+
+  if (board[row][col] !== null) {
+    return {
+      valid: false,
+      error: ERROR_MESSAGES.CELL_OCCUPIED(row, col),
+    };
+  }
+
+  const color = assignPlayerColors(state.players).get(playerId);
+  if (!color || getFlippedDiscs(board, row, col, color).length === 0) {
+    return {
+      valid: false,
+      error: ERROR_MESSAGES.NO_FLIPS(row, col),
+    };
+  }
+
+  return {
+    valid: true,
+  };
+}
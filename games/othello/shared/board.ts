@@ -0,0 +1,120 @@
+/**
+ * Othello board logic shared by the engine, the AI and the UI
+ * Pure functions over the board array with no dependency on the game services,
+ * so the move input can highlight exactly the moves the engine accepts.
+ */
+
+import type { CellState, DiscCounts, PlayerColor, Position } from './types';
+import { DIRECTIONS } from './constants';
+
+/**
+ * Gets the opposing color
+ * @param color - Player color
+ * @returns The other player's color
+ */
+export function getOpponentColor(color: PlayerColor): PlayerColor {
+  return color === 'black' ? 'white' : 'black';
+}
+
+/**
+ * Checks if a position is on the board
+ * @param board - Current board state
+ * @param row - Row position
+ * @param col - Column position
+ * @returns true if the position is within bounds
+ */
+export function isOnBoard(board: CellState[][], row: number, col: number): boolean {
+  return row >= 0 && row < board.length && col >= 0 && col < board[0].length;
+}
+
+/**
+ * Finds the discs a placement would flip
+ * Walks each of the eight directions from the cell; a line of opponent discs is
+ * flipped when it ends in one of the player's own discs.
+ * @param board - Current board state
+ * @param row - Row of the placement
+ * @param col - Column of the placement
+ * @param color - Color of the player placing
+ * @returns Positions of the flipped discs; empty if the placement is not legal
+ */
+export function getFlippedDiscs(
+  board: CellState[][],
+  row: number,
+  col: number,
+  color: PlayerColor
+): Position[] {
+  if (!isOnBoard(board, row, col) || board[row][col] !== null) {
+    return [];
+  }
+
+  const opponent = getOpponentColor(color);
+  const flipped: Position[] = [];
+
+  for (const direction of DIRECTIONS) {
+    const line: Position[] = [];
+    let r = row + direction.row;
+    let c = col + direction.col;
+    while (isOnBoard(board, r, c) && board[r][c] === opponent) {
+      line.push({ row: r, col: c });
+      r += direction.row;
+      c += direction.col;
+    }
+    if (line.length > 0 && isOnBoard(board, r, c) && board[r][c] === color) {
+      flipped.push(...line);
+    }
+  }
+
+  return flipped;
+}
+
+/**
+ * Lists every legal placement for a color
+ * @param board - Current board state
+ * @param color - Color to move
+ * @returns Legal positions, row by row from the top left
+ */
+export function getLegalMoves(board: CellState[][], color: PlayerColor): Position[] {
+  const moves: Position[] = [];
+  for (let row = 0; row < board.length; row++) {
+    for (let col = 0; col < board[row].length; col++) {
+      if (getFlippedDiscs(board, row, col, color).length > 0) {
+        moves.push({ row, col });
+      }
+    }
+  }
+  return moves;
+}
+
+/**
+ * Checks if a color has any legal placement
+ * @param board - Current board state
+ * @param color - Color to check
+ * @returns true if the color can move
+ */
+export function hasLegalMove(board: CellState[][], color: PlayerColor): boolean {
+  for (let row = 0; row < board.length; row++) {
+    for (let col = 0; col < board[row].length; col++) {
+      if (getFlippedDiscs(board, row, col, color).length > 0) {
+        return true;
+      }
+    }
+  }
+  return false;
+}
+
+/**
+ * Counts the discs of each color
+ * @param board - Current board state
+ * @returns Disc count per color
+ */
+export function countDiscs(board: CellState[][]): DiscCounts {
+  const counts: DiscCounts = { black: 0, white: 0 };
+  for (const row of board) {
+    for (const cell of row) {
+      if (cell) {
+        counts[cell]++;
+      }
+    }
+  }
+  return counts;
+}
@@ -0,0 +1,32 @@
+import { Direction, PlayerColor } from './types';
+
+/**
+ * Othello game constants
+ */
+
+// Board dimensions
+export const BOARD_SIZE = 8;
+export const TOTAL_CELLS = 64;
+
+// Player configuration
+export const MIN_PLAYERS = 2;
+export const MAX_PLAYERS = 2;
+export const PLAYER_COLORS: PlayerColor[] = ['black', 'white'];
+
+// Game identification
+export const GAME_TYPE = 'othello';
+export const GAME_NAME = 'Othello';
+export const GAME_DESCRIPTION =
+  "Othello (Reversi) on an 8x8 board. Place a disc so that it outflanks a line of your opponent's discs and flip them to your color. A player with no legal move passes, and whoever has more discs when neither player can move wins.";
+
+// Flipping directions: every line through a cell, horizontal, vertical and diagonal
+export const DIRECTIONS: Direction[] = [
+  { row: -1, col: -1 },
+  { row: -1, col: 0 },
+  { row: -1, col: 1 },
+  { row: 0, col: -1 },
+  { row: 0, col: 1 },
+  { row: 1, col: -1 },
+  { row: 1, col: 0 },
+  { row: 1, col: 1 },
+];
@@ -0,0 +1,55 @@
+import { Move } from '../../../src/domain/models';
+
+/**
+ * Othello move parameters
+ * Players only place discs; passes are made automatically by the engine.
+ */
+export interface OthelloMove extends Move<{ row: number; col: number }> {
+  action: 'place';
+}
+
+/**
+ * Player color assignment
+ */
+export type PlayerColor = 'black' | 'white';
+
+/**
+ * Cell state on the Othello board
+ */
+export type CellState = null | PlayerColor;
+
+/**
+ * Number of discs of each color on the board
+ */
+export type DiscCounts = Record<PlayerColor, number>;
+
+/**
+ * Othello specific game state metadata
+ */
+export interface OthelloMetadata {
+  board: CellState[][]; // 8 × 8, row 0 at the top
+  discCounts: DiscCounts;
+  lastMove?: {
+    row: number;
+    col: number;
+    player: string;
+    flipped: Position[]; // Discs turned over by the move
+  };
+  passedPlayer?: string; // Player skipped after the last move because they had no legal move
+}
+
+/**
+ * Position on the board
+ */
+export interface Position {
+  row: number;
+  col: number;
+}
+
+/**
+ * Direction vector for flipping lines
+ */
+export interface Direction {
+  row: number;
+  col: number;
+}
@@ -0,0 +1,110 @@
+/**
+ * Tests for OthelloMoveInput component
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import { OthelloMoveInput } from '../components/OthelloMoveInput';
+import type { GameState } from '../types';
+import type { CellState, OthelloMetadata } from '../../shared/types';
+
+/**
+ * Helper function to create the starting position
+ */
+function createStartingBoard(): CellState[][] {
+  const board: CellState[][] = Array(8).fill(null).map(() => Array(8).fill(null));
+  board[3][3] = 'white';
+  board[3][4] = 'black';
+  board[4][3] = 'black';
+  board[4][4] = 'white';
+  return board;
+}
+
+/**
+ * Helper function to create a test game state
+ */
+function createTestGameState(overrides?: Partial<GameState<OthelloMetadata>>): GameState<OthelloMetadata> {
+  return {
+    gameId: 'test-game-1',
+    gameType: 'othello',
+    lifecycle: 'active',
+    players: [
+      { id: 'player-1', name: 'Player 1', joinedAt: '2024-01-01T00:00:00Z' },
+      { id: 'player-2', name: 'Player 2', joinedAt: '2024-01-01T00:00:00Z' }
+    ],
+    currentPlayerIndex: 0,
+    phase: 'playing',
+    board: {
+      spaces: [],
+      metadata: {}
+    },
+    moveHistory: [],
+    metadata: {
+      board: createStartingBoard(),
+      discCounts: { black: 2, white: 2 }
+    },
+    version: 1,
+    createdAt: '2024-01-01T00:00:00Z',
+    updatedAt: '2024-01-01T00:00:00Z',
+    ...overrides
+  };
+}
+
+function enabledCells(): string[] {
+  return screen
+    .getAllByRole('button')
+    .filter((button) => !(button as HTMLButtonElement).disabled)
+    .map((button) => button.getAttribute('data-testid') ?? '');
+}
+
+describe('OthelloMoveInput', () => {
+  it('should render a button for each of the 64 cells', () => {
+    render(<OthelloMoveInput gameState={createTestGameState()} onMoveChange={vi.fn()} />);
+
+    expect(screen.getAllByRole('button')).toHaveLength(64);
+    expect(screen.getByTestId('disc-counts')).toHaveTextContent('Black 2 – White 2');
+  });
+
+  it("should only enable the current player's legal moves", () => {
+    const { unmount } = render(
+      <OthelloMoveInput gameState={createTestGameState()} onMoveChange={vi.fn()} />
+    );
+    expect(enabledCells()).toEqual(['cell-2-3', 'cell-3-2', 'cell-4-5', 'cell-5-4']);
+    unmount();
+
+    render(
+      <OthelloMoveInput
+        gameState={createTestGameState({ currentPlayerIndex: 1 })}
+        onMoveChange={vi.fn()}
+      />
+    );
+    expect(enabledCells()).toEqual(['cell-2-4', 'cell-3-5', 'cell-4-2', 'cell-5-3']);
+  });
+
+  it('should send a place move for a legal cell', () => {
+    const onMoveChange = vi.fn();
+    render(<OthelloMoveInput gameState={createTestGameState()} onMoveChange={onMoveChange} />);
+
+    fireEvent.click(screen.getByTestId('cell-2-3'));
+    fireEvent.click(screen.getByTestId('cell-0-0'));
+
+    expect(onMoveChange).toHaveBeenCalledTimes(1);
+    expect(onMoveChange).toHaveBeenCalledWith({ action: 'place', parameters: { row: 2, col: 3 } });
+  });
+
+  it('should disable every cell when disabled', () => {
+    render(
+      <OthelloMoveInput gameState={createTestGameState()} onMoveChange={vi.fn()} disabled />
+    );
+
+    expect(enabledCells()).toEqual([]);
+  });
+
+  it('should label discs on the board', () => {
+    render(<OthelloMoveInput gameState={createTestGameState()} onMoveChange={vi.fn()} />);
+
+    expect(screen.getByTestId('cell-3-3')).toHaveAttribute('aria-label', 'd4: white disc');
+    expect(screen.getByTestId('cell-2-3')).toHaveAttribute('aria-label', 'Place disc on d3');
+  });
+});
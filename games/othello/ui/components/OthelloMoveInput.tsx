@@ -0,0 +1,78 @@
+import { memo, useCallback, useMemo } from 'react';
+import type { GameState, MoveInput } from '../types';
+import type { OthelloMetadata } from '../../shared/types';
+import { PLAYER_COLORS } from '../../shared/constants';
+import { countDiscs, getLegalMoves } from '../../shared/board';
+import styles from './OthelloMoveInput.module.css';
+
+export interface OthelloMoveInputProps {
+  gameState: GameState<OthelloMetadata>;
+  onMoveChange: (move: MoveInput) => void;
+  disabled?: boolean;
+}
+
+const COLUMN_LETTERS = 'abcdefgh';
+
+export const OthelloMoveInput = memo(function OthelloMoveInput({
+  gameState,
+  onMoveChange,
+  disabled = false
+}: OthelloMoveInputProps) {
+  const board = gameState.metadata.board;
+  const currentColor = PLAYER_COLORS[gameState.currentPlayerIndex];
+  const discCounts = gameState.metadata.discCounts ?? countDiscs(board);
+
+  /**
+   * Cells where the player to move may place a disc, as "row-col" keys
+   */
+  const legalCells = useMemo(() => {
+    const moves = currentColor ? getLegalMoves(board, currentColor) : [];
+    return new Set(moves.map(({ row, col }) => `${row}-${col}`));
+  }, [board, currentColor]);
+
+  /**
+   * Handle cell click
+   */
+  const handleCellClick = useCallback((row: number, col: number) => {
+    if (disabled || !legalCells.has(`${row}-${col}`)) {
+      return;
+    }
+
+    onMoveChange({
+      action: 'place',
+      parameters: { row, col }
+    });
+  }, [disabled, legalCells, onMoveChange]);
+
+  return (
+    <div className={styles.othelloInput} role="group" aria-label="Othello move selection">
+      <div className={styles.grid}>
+        {board.map((cells, row) =>
+          cells.map((cell, col) => {
+            const isLegal = legalCells.has(`${row}-${col}`);
+            const isDisabled = disabled || !isLegal;
+            const name = `${COLUMN_LETTERS[col] ?? col + 1}${row + 1}`;
+
+            return (
+              <button
+                key={`${row}-${col}`}
+                data-testid={`cell-${row}-${col}`}
+                className={`${styles.cell} ${isLegal && !disabled ? styles.legal : ''}`}
+                onClick={() => handleCellClick(row, col)}
+                disabled={isDisabled}
+                type="button"
+                aria-label={cell ? `${name}: ${cell} disc` : `Place disc on ${name}`}
+                aria-disabled={isDisabled}
+              >
+                {cell && <span className={`${styles.disc} ${styles[cell]}`} />}
+              </button>
+            );
+          })
+        )}
+      </div>
+      <p className={styles.score} data-testid="disc-counts">
+        Black {discCounts.black} – White {discCounts.white}
+      </p>
+    </div>
+  );
+});
@@ -0,0 +1,7 @@
+/**
+ * Othello UI components
+ * Exports React components for game interaction
+ */
+
+export { OthelloMoveInput } from './components/OthelloMoveInput';
+export type { OthelloMoveInputProps } from './components/OthelloMoveInput';
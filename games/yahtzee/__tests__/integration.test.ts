@@ -7,6 +7,7 @@
 
 import { PluginRegistry } from '../../../src/application/PluginRegistry';
 import { YahtzeeEngine } from '../engine';
+import { createGameRandomness } from '../../../src/domain/game-utils/FairRandom';
 import { GAME_TYPE, MIN_PLAYERS, MAX_PLAYERS } from '../shared';
 
 describe('Yahtzee Plugin Integration', () => {
@@ -106,7 +107,7 @@ describe('Yahtzee Plugin Integration', () => {
         rollCount: 1,
         gamePhase: 'rolling' as const,
         rollHistory: [],
-        randomSeed: 'test-seed',
+        randomness: createGameRandomness('test-seed'),
       },
     };
     expect(() => engine.renderBoard(validState as any)).not.toThrow();
@@ -0,0 +1,110 @@
+/**
+ * Expectimax AI Strategy for Yahtzee
+ *
+ * Chooses which dice to keep by the expected value of the rolls left in the turn,
+ * and scores the category worth the most once the upper-section bonus and the value
+ * of keeping categories open are taken into account.
+ *
+ * How many rolls it looks ahead comes from the AI player's `configuration.lookahead`,
+ * or from its difficulty: easy = 0 (keeps its first roll), medium = 1, hard = 2.
+ */
+
+import { AIStrategy } from '@domain/interfaces/IAIStrategy';
+import { GameState, Move } from '@domain/models';
+import { YahtzeeMetadata } from '../shared/types';
+import { MAX_ROLLS_PER_TURN } from '../shared/constants';
+import {
+  TurnExpectimax,
+  chooseCategory,
+  createRollMove,
+  createScoreMove,
+  getScorecard,
+} from './expectimax';
+
+/**
+ * Rolls looked ahead for each difficulty
+ */
+export const DIFFICULTY_LOOKAHEAD: Record<string, number> = {
+  easy: 0,
+  medium: 1,
+  hard: MAX_ROLLS_PER_TURN - 1,
+};
+
+export class ExpectimaxStrategy implements AIStrategy {
+  readonly id = 'expectimax';
+  readonly name = 'Expectimax';
+  readonly description =
+    'Keeps dice and picks categories by expected value, including the upper-section bonus';
+  readonly difficulty = 'hard';
+
+  async generateMove(state: GameState, aiPlayerId: string): Promise<Move> {
+    const metadata = (state as GameState<YahtzeeMetadata>).metadata;
+    const scorecard = getScorecard(state, aiPlayerId);
+
+    if (metadata.gamePhase === 'rolling' && metadata.rollCount < MAX_ROLLS_PER_TURN) {
+      if (metadata.rollCount === 0) {
+        return createRollMove([false, false, false, false, false]);
+      }
+
+      // Keeping every die re-rolls nothing and moves the turn on towards scoring
+      const rollsLeft = Math.min(
+        MAX_ROLLS_PER_TURN - metadata.rollCount,
+        this.getLookahead(state, aiPlayerId)
+      );
+      if (rollsLeft === 0) {
+        return createRollMove([true, true, true, true, true]);
+      }
+
+      const { keepDice } = new TurnExpectimax(scorecard).chooseKeep(
+        metadata.currentDice.values,
+        rollsLeft
+      );
+      return createRollMove(keepDice);
+    }
+
+    return createScoreMove(chooseCategory(metadata.currentDice.values, scorecard).category);
+  }
+
+  /**
+   * Get how many rolls ahead to look for an AI player
+   * Uses the player's configured lookahead, then its difficulty, then this strategy's difficulty.
+   * @param state Current game state
+   * @param aiPlayerId ID of the AI player
+   * @returns Rolls to look ahead
+   */
+  getLookahead(state: GameState, aiPlayerId: string): number {
+    const metadata = state.players.find((p) => p.id === aiPlayerId)?.metadata;
+    const configuredLookahead = metadata?.configuration?.lookahead;
+    if (this.isValidLookahead(configuredLookahead)) {
+      return configuredLookahead;
+    }
+
+    return DIFFICULTY_LOOKAHEAD[metadata?.difficulty] ?? DIFFICULTY_LOOKAHEAD[this.difficulty];
+  }
+
+  /**
+   * Get the maximum time this strategy should take to generate a move
+   * @returns 1000ms - enough for a full two-roll expectimax
+   */
+  getTimeLimit(): number {
+    return 1000;
+  }
+
+  /**
+   * Validate configuration
+   * @param config Configuration to validate; `lookahead` must be an integer from 0 to 2
+   * @returns true if the configuration is valid
+   */
+  validateConfiguration(config: Record<string, any>): boolean {
+    return config.lookahead === undefined || this.isValidLookahead(config.lookahead);
+  }
+
+  private isValidLookahead(lookahead: unknown): lookahead is number {
+    return (
+      typeof lookahead === 'number' &&
+      Number.isInteger(lookahead) &&
+      lookahead >= 0 &&
+      lookahead <= MAX_ROLLS_PER_TURN - 1
+    );
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * Greedy AI Strategy for Yahtzee
+ *
+ * Plays without looking ahead: re-rolls everything except the most common face,
+ * then scores whichever open category gives the most points right now.
+ */
+
+import { AIStrategy } from '@domain/interfaces/IAIStrategy';
+import { GameState, Move } from '@domain/models';
+import { YahtzeeMetadata } from '../shared/types';
+import { MAX_ROLLS_PER_TURN } from '../shared/constants';
+import { calculateScore } from '../engine/scoring';
+import { createRollMove, createScoreMove, getOpenCategories, getScorecard } from './expectimax';
+
+export class GreedyStrategy implements AIStrategy {
+  readonly id = 'greedy';
+  readonly name = 'Greedy';
+  readonly description = 'Chases the most common face and scores the best category right now';
+  readonly difficulty = 'easy';
+
+  async generateMove(state: GameState, aiPlayerId: string): Promise<Move> {
+    const metadata = (state as GameState<YahtzeeMetadata>).metadata;
+
+    if (metadata.gamePhase === 'rolling' && metadata.rollCount < MAX_ROLLS_PER_TURN) {
+      if (metadata.rollCount === 0) {
+        return createRollMove([false, false, false, false, false]);
+      }
+      const face = this.getMostCommonFace(metadata.currentDice.values);
+      return createRollMove(metadata.currentDice.values.map((value) => value === face));
+    }
+
+    const dice = metadata.currentDice.values;
+    const open = getOpenCategories(getScorecard(state, aiPlayerId));
+    if (open.length === 0) {
+      throw new Error('No open categories left to score');
+    }
+
+    const best = open.reduce((current, category) =>
+      calculateScore(category, dice) > calculateScore(current, dice) ? category : current
+    );
+    return createScoreMove(best);
+  }
+
+  /**
+   * Finds the face showing most often, preferring higher faces on ties
+   */
+  private getMostCommonFace(dice: number[]): number {
+    const counts = new Map<number, number>();
+    for (const value of dice) {
+      counts.set(value, (counts.get(value) ?? 0) + 1);
+    }
+
+    let best = dice[0];
+    for (const [face, count] of counts) {
+      const bestCount = counts.get(best) ?? 0;
+      if (count > bestCount || (count === bestCount && face > best)) {
+        best = face;
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Get the maximum time this strategy should take to generate a move
+   * @returns 100ms - no search is involved
+   */
+  getTimeLimit(): number {
+    return 100;
+  }
+
+  /**
+   * Validate configuration (no special configuration needed for this strategy)
+   * @param config Configuration to validate
+   * @returns Always true as no configuration is required
+   */
+  validateConfiguration(_config: Record<string, any>): boolean {
+    return true;
+  }
+}
@@ -0,0 +1,255 @@
+import { ExpectimaxStrategy, GreedyStrategy } from '../index';
+import {
+  TurnExpectimax,
+  chooseCategory,
+  evaluateCategory,
+  getOpenCategories,
+  getRollOutcomes,
+} from '../expectimax';
+import { YahtzeeEngine } from '../../engine/YahtzeeEngine';
+import { YahtzeeCategory, YahtzeeMetadata, Scorecard } from '../../shared/types';
+import { GameState, Player } from '@domain/models';
+
+describe('Yahtzee AI Strategies', () => {
+  const engine = new YahtzeeEngine();
+
+  const createPlayers = (aiMetadata?: Record<string, any>): Player[] => [
+    { id: 'ai-player', name: 'AI', joinedAt: new Date(), metadata: aiMetadata },
+    { id: 'human-player', name: 'Human', joinedAt: new Date() },
+  ];
+
+  function createState(
+    dice: number[],
+    rollCount: number,
+    options: {
+      scored?: Partial<Record<YahtzeeCategory, number>>;
+      metadata?: Record<string, any>;
+    } = {}
+  ): GameState<YahtzeeMetadata> {
+    const state = engine.initializeGame(createPlayers(options.metadata), {
+      customSettings: { gameId: 'ai-test', seed: 'ai-test-seed' },
+    }) as GameState<YahtzeeMetadata>;
+
+    const scorecard = state.metadata.scorecards.get('ai-player')!;
+    for (const [category, score] of Object.entries(options.scored ?? {})) {
+      scorecard.categories.set(category as YahtzeeCategory, score);
+    }
+
+    state.metadata.currentDice = { values: dice, keptDice: dice.map(() => false) };
+    state.metadata.rollCount = rollCount;
+    state.metadata.gamePhase = rollCount >= 3 ? 'scoring' : 'rolling';
+    return state;
+  }
+
+  function createScorecard(upperSectionTotal = 0): Scorecard {
+    const scorecard = createState([1, 1, 1, 1, 1], 3).metadata.scorecards.get('ai-player')!;
+    return { ...scorecard, upperSectionTotal };
+  }
+
+  describe('probability tables', () => {
+    it('should list every distinct roll of five dice', () => {
+      const outcomes = getRollOutcomes(5);
+
+      expect(outcomes).toHaveLength(252);
+      expect(outcomes.reduce((sum, o) => sum + o.probability, 0)).toBeCloseTo(1, 10);
+    });
+
+    it('should weight outcomes by the number of ways to roll them', () => {
+      const outcomes = getRollOutcomes(2);
+      const pair = outcomes.find((o) => o.dice.join('') === '66');
+      const mixed = outcomes.find((o) => o.dice.join('') === '16');
+
+      expect(pair?.probability).toBeCloseTo(1 / 36, 10);
+      expect(mixed?.probability).toBeCloseTo(2 / 36, 10);
+    });
+
+    it('should have a single empty outcome when no dice are rolled', () => {
+      expect(getRollOutcomes(0)).toEqual([{ dice: [], probability: 1 }]);
+    });
+  });
+
+  describe('category choice', () => {
+    it('should score a Yahtzee as a Yahtzee', () => {
+      expect(chooseCategory([6, 6, 6, 6, 6], createScorecard()).category).toBe(
+        YahtzeeCategory.YAHTZEE
+      );
+    });
+
+    it('should add the bonus when an upper category reaches the threshold', () => {
+      const dice = [4, 4, 4, 2, 3];
+
+      const withoutBonus = evaluateCategory(YahtzeeCategory.FOURS, dice, createScorecard(0));
+      const withBonus = evaluateCategory(YahtzeeCategory.FOURS, dice, createScorecard(51));
+
+      expect(withBonus - withoutBonus).toBeCloseTo(35, 10);
+      expect(chooseCategory(dice, createScorecard(51)).category).toBe(YahtzeeCategory.FOURS);
+    });
+
+    it('should favour upper scores above three of a face while the bonus is reachable', () => {
+      const card = createScorecard();
+
+      expect(evaluateCategory(YahtzeeCategory.FIVES, [5, 5, 5, 5, 1], card)).toBeGreaterThan(
+        evaluateCategory(YahtzeeCategory.FIVES, [5, 5, 1, 2, 3], card) + 15
+      );
+    });
+
+    it('should only consider open categories', () => {
+      const card = createScorecard();
+      card.categories = new Map(card.categories);
+      card.categories.set(YahtzeeCategory.YAHTZEE, 0);
+
+      expect(getOpenCategories(card)).not.toContain(YahtzeeCategory.YAHTZEE);
+      expect(chooseCategory([6, 6, 6, 6, 6], card).category).not.toBe(YahtzeeCategory.YAHTZEE);
+    });
+  });
+
+  describe('keep choice', () => {
+    it('should keep four of a kind and re-roll the odd die', () => {
+      const { keepDice } = new TurnExpectimax(createScorecard()).chooseKeep([6, 6, 1, 6, 6], 2);
+
+      expect(keepDice).toEqual([true, true, false, true, true]);
+    });
+
+    it('should stand on a large straight', () => {
+      const { keepDice } = new TurnExpectimax(createScorecard()).chooseKeep([3, 1, 5, 2, 4], 1);
+
+      expect(keepDice).toEqual([true, true, true, true, true]);
+    });
+
+    it('should expect more with more rolls left', () => {
+      const expectimax = new TurnExpectimax(createScorecard());
+      const dice = [1, 2, 4, 6, 6];
+
+      expect(expectimax.chooseKeep(dice, 2).expectedValue).toBeGreaterThan(
+        expectimax.chooseKeep(dice, 1).expectedValue
+      );
+    });
+  });
+
+  describe('GreedyStrategy', () => {
+    const strategy = new GreedyStrategy();
+
+    it('should roll every die at the start of a turn', async () => {
+      const move = await strategy.generateMove(createState([1, 1, 1, 1, 1], 0), 'ai-player');
+
+      expect(move.action).toBe('roll');
+      expect(move.parameters.keepDice).toEqual([false, false, false, false, false]);
+    });
+
+    it('should keep the most common face', async () => {
+      const move = await strategy.generateMove(createState([2, 5, 2, 5, 3], 1), 'ai-player');
+
+      expect(move.parameters.keepDice).toEqual([false, true, false, true, false]);
+    });
+
+    it('should score the category with the most points now', async () => {
+      const move = await strategy.generateMove(createState([2, 3, 4, 5, 6], 3), 'ai-player');
+
+      expect(move.action).toBe('score');
+      expect(move.parameters.category).toBe(YahtzeeCategory.LARGE_STRAIGHT);
+    });
+  });
+
+  describe('ExpectimaxStrategy', () => {
+    const strategy = new ExpectimaxStrategy();
+
+    it('should roll every die at the start of a turn', async () => {
+      const move = await strategy.generateMove(createState([1, 1, 1, 1, 1], 0), 'ai-player');
+
+      expect(move.parameters.keepDice).toEqual([false, false, false, false, false]);
+    });
+
+    it('should pick dice to keep by expected value', async () => {
+      const move = await strategy.generateMove(createState([6, 6, 1, 6, 6], 1), 'ai-player');
+
+      expect(move.action).toBe('roll');
+      expect(move.parameters.keepDice).toEqual([true, true, false, true, true]);
+    });
+
+    it('should keep its first roll on easy', async () => {
+      const state = createState([6, 6, 1, 6, 6], 1, { metadata: { difficulty: 'easy' } });
+
+      const move = await strategy.generateMove(state, 'ai-player');
+
+      expect(move.parameters.keepDice).toEqual([true, true, true, true, true]);
+    });
+
+    it('should score through the bonus-aware category choice', async () => {
+      const state = createState([4, 4, 4, 2, 3], 3, {
+        scored: {
+          [YahtzeeCategory.THREES]: 9,
+          [YahtzeeCategory.FIVES]: 20,
+          [YahtzeeCategory.SIXES]: 24,
+        },
+      });
+      state.metadata.scorecards.get('ai-player')!.upperSectionTotal = 53;
+
+      const move = await strategy.generateMove(state, 'ai-player');
+
+      expect(move).toMatchObject({
+        action: 'score',
+        parameters: { category: YahtzeeCategory.FOURS },
+      });
+    });
+
+    it('should map difficulty to lookahead', () => {
+      expect(
+        strategy.getLookahead(createState([], 0, { metadata: { difficulty: 'easy' } }), 'ai-player')
+      ).toBe(0);
+      expect(
+        strategy.getLookahead(
+          createState([], 0, { metadata: { difficulty: 'medium' } }),
+          'ai-player'
+        )
+      ).toBe(1);
+      expect(strategy.getLookahead(createState([], 0), 'ai-player')).toBe(2);
+    });
+
+    it('should prefer a configured lookahead over the difficulty', () => {
+      const state = createState([], 0, {
+        metadata: { difficulty: 'easy', configuration: { lookahead: 1 } },
+      });
+
+      expect(strategy.getLookahead(state, 'ai-player')).toBe(1);
+    });
+
+    it('should validate the configured lookahead', () => {
+      expect(strategy.validateConfiguration({})).toBe(true);
+      expect(strategy.validateConfiguration({ lookahead: 0 })).toBe(true);
+      expect(strategy.validateConfiguration({ lookahead: 3 })).toBe(false);
+      expect(strategy.validateConfiguration({ lookahead: 1.5 })).toBe(false);
+    });
+
+    it('should decide within its time limit', async () => {
+      const start = Date.now();
+      await strategy.generateMove(createState([1, 2, 4, 6, 6], 1), 'ai-player');
+
+      expect(Date.now() - start).toBeLessThan(strategy.getTimeLimit());
+    });
+  });
+
+  describe('playing a full game', () => {
+    it('should finish a game through the normal roll and score moves', async () => {
+      const strategies: Record<string, GreedyStrategy | ExpectimaxStrategy> = {
+        'ai-player': new ExpectimaxStrategy(),
+        'human-player': new GreedyStrategy(),
+      };
+      let state: GameState = engine.initializeGame(createPlayers(), {
+        customSettings: { gameId: 'full-game' },
+      });
+
+      let moves = 0;
+      while (!engine.isGameOver(state)) {
+        const playerId = state.players[state.currentPlayerIndex].id;
+        const move = { ...(await strategies[playerId].generateMove(state, playerId)), playerId };
+
+        expect(engine.validateMove(state, playerId, move)).toEqual({ valid: true });
+        state = engine.applyMove(state, playerId, move);
+        moves++;
+      }
+
+      // Every turn is three rolls followed by a score
+      expect(moves).toBe(2 * 13 * 4);
+    });
+  });
+});
@@ -0,0 +1,329 @@
+/**
+ * Yahtzee Expectimax Module
+ *
+ * Probability tables for re-rolling dice and an expectimax search over the rolls left
+ * in a turn. Dice are scored with the engine's scoring module; category choices also
+ * account for the upper-section bonus and for what a category would typically be
+ * worth if it were kept open for later.
+ */
+
+import { GameState, Move } from '@domain/models';
+import { YahtzeeCategory, YahtzeeMetadata, Scorecard } from '../shared/types';
+import {
+  ALL_CATEGORIES,
+  DICE_COUNT,
+  DICE_SIDES,
+  UPPER_SECTION_BONUS_POINTS,
+  UPPER_SECTION_BONUS_THRESHOLD,
+  UPPER_SECTION_CATEGORIES,
+} from '../shared/constants';
+import { calculateScore } from '../engine/scoring';
+
+/**
+ * Average score of each category when it is kept open for a later turn
+ * Scoring a category is measured against this baseline, so the AI does not
+ * spend a valuable category on a poor roll while a cheaper one is open.
+ */
+export const CATEGORY_BASELINES: Record<YahtzeeCategory, number> = {
+  [YahtzeeCategory.ONES]: 2.1,
+  [YahtzeeCategory.TWOS]: 5.3,
+  [YahtzeeCategory.THREES]: 8.6,
+  [YahtzeeCategory.FOURS]: 12.2,
+  [YahtzeeCategory.FIVES]: 15.7,
+  [YahtzeeCategory.SIXES]: 19.2,
+  [YahtzeeCategory.THREE_OF_A_KIND]: 21.7,
+  [YahtzeeCategory.FOUR_OF_A_KIND]: 13.1,
+  [YahtzeeCategory.FULL_HOUSE]: 22.6,
+  [YahtzeeCategory.SMALL_STRAIGHT]: 29.5,
+  [YahtzeeCategory.LARGE_STRAIGHT]: 32.7,
+  [YahtzeeCategory.YAHTZEE]: 16.9,
+  [YahtzeeCategory.CHANCE]: 22.0,
+};
+
+/**
+ * Face value counted by each upper-section category
+ */
+const UPPER_FACES: Partial<Record<YahtzeeCategory, number>> = {
+  [YahtzeeCategory.ONES]: 1,
+  [YahtzeeCategory.TWOS]: 2,
+  [YahtzeeCategory.THREES]: 3,
+  [YahtzeeCategory.FOURS]: 4,
+  [YahtzeeCategory.FIVES]: 5,
+  [YahtzeeCategory.SIXES]: 6,
+};
+
+/**
+ * A possible result of rolling some dice, with its probability
+ */
+interface RollOutcome {
+  dice: number[];
+  probability: number;
+}
+
+/**
+ * Best dice to keep and the expected value of keeping them
+ */
+export interface KeepDecision {
+  keepDice: boolean[];
+  expectedValue: number;
+}
+
+/**
+ * Best category to score and its value
+ */
+export interface CategoryChoice {
+  category: YahtzeeCategory;
+  value: number;
+}
+
+const outcomeTables = new Map<number, RollOutcome[]>();
+
+/**
+ * Lists every distinct result of rolling a number of dice
+ * Results are sorted multisets; tables are built once per dice count and cached.
+ * @param count Number of dice rolled
+ * @returns Outcomes with their probabilities
+ */
+export function getRollOutcomes(count: number): RollOutcome[] {
+  const cached = outcomeTables.get(count);
+  if (cached) {
+    return cached;
+  }
+
+  const totals = new Map<string, RollOutcome>();
+  const sequences = Math.pow(DICE_SIDES, count);
+  for (let n = 0; n < sequences; n++) {
+    const dice: number[] = [];
+    let rest = n;
+    for (let i = 0; i < count; i++) {
+      dice.push((rest % DICE_SIDES) + 1);
+      rest = Math.floor(rest / DICE_SIDES);
+    }
+    dice.sort((a, b) => a - b);
+
+    const key = dice.join('');
+    const outcome = totals.get(key);
+    if (outcome) {
+      outcome.probability += 1 / sequences;
+    } else {
+      totals.set(key, { dice, probability: 1 / sequences });
+    }
+  }
+
+  const outcomes = [...totals.values()];
+  outcomeTables.set(count, outcomes);
+  return outcomes;
+}
+
+/**
+ * Lists the categories a player has not scored yet
+ * @param scorecard Player's scorecard
+ * @returns Open categories in scorecard order
+ */
+export function getOpenCategories(scorecard: Scorecard): YahtzeeCategory[] {
+  return ALL_CATEGORIES.filter((category) => {
+    const score = scorecard.categories.get(category);
+    return score === null || score === undefined;
+  });
+}
+
+/**
+ * Values scoring a category with the given dice
+ * The value is the score minus the category's baseline. Upper-section categories also
+ * count progress towards the bonus: reaching the threshold earns the full bonus, and
+ * scoring above or below three of a face moves the player towards or away from it.
+ * @param category Category to score
+ * @param dice Dice values
+ * @param scorecard Player's scorecard
+ * @returns Value relative to keeping the category open
+ */
+export function evaluateCategory(
+  category: YahtzeeCategory,
+  dice: number[],
+  scorecard: Scorecard
+): number {
+  const score = calculateScore(category, dice);
+  let value = score - CATEGORY_BASELINES[category];
+
+  const face = UPPER_FACES[category];
+  if (face !== undefined && scorecard.upperSectionTotal < UPPER_SECTION_BONUS_THRESHOLD) {
+    if (scorecard.upperSectionTotal + score >= UPPER_SECTION_BONUS_THRESHOLD) {
+      value += UPPER_SECTION_BONUS_POINTS;
+    } else if (canStillReachBonus(scorecard, category, score)) {
+      value += ((score - 3 * face) * UPPER_SECTION_BONUS_POINTS) / UPPER_SECTION_BONUS_THRESHOLD;
+    }
+  }
+
+  return value;
+}
+
+/**
+ * Checks whether the upper-section bonus is reachable after scoring a category
+ */
+function canStillReachBonus(
+  scorecard: Scorecard,
+  category: YahtzeeCategory,
+  score: number
+): boolean {
+  const open = getOpenCategories(scorecard);
+  const bestRemaining = UPPER_SECTION_CATEGORIES.filter(
+    (other) => other !== category && open.includes(other)
+  ).reduce((sum, other) => sum + DICE_COUNT * (UPPER_FACES[other] ?? 0), 0);
+
+  return scorecard.upperSectionTotal + score + bestRemaining >= UPPER_SECTION_BONUS_THRESHOLD;
+}
+
+/**
+ * Picks the open category worth the most for the given dice
+ * @param dice Dice values
+ * @param scorecard Player's scorecard
+ * @returns Best category and its value
+ * @throws Error if every category has been scored
+ */
+export function chooseCategory(dice: number[], scorecard: Scorecard): CategoryChoice {
+  const open = getOpenCategories(scorecard);
+  if (open.length === 0) {
+    throw new Error('No open categories left to score');
+  }
+
+  let best: CategoryChoice = { category: open[0], value: -Infinity };
+  for (const category of open) {
+    const value = evaluateCategory(category, dice, scorecard);
+    if (value > best.value) {
+      best = { category, value };
+    }
+  }
+  return best;
+}
+
+/**
+ * Expectimax over the rolls left in a turn
+ * Holds memo tables for one scorecard, so a single instance answers every
+ * keep decision of a turn without repeating work.
+ */
+export class TurnExpectimax {
+  private readonly finalValues = new Map<string, number>();
+  private readonly keepValues = new Map<string, number>();
+
+  constructor(private readonly scorecard: Scorecard) {}
+
+  /**
+   * Chooses which dice to keep before the next roll
+   * @param dice Current dice values
+   * @param rollsLeft Rolls left in the turn, counting the next one
+   * @returns Keep mask over the current dice and its expected value
+   */
+  chooseKeep(dice: number[], rollsLeft: number): KeepDecision {
+    let best: KeepDecision = { keepDice: dice.map(() => true), expectedValue: -Infinity };
+    const seen = new Set<string>();
+
+    for (let mask = (1 << dice.length) - 1; mask >= 0; mask--) {
+      const keepDice = dice.map((_, i) => (mask & (1 << i)) !== 0);
+      const kept = dice.filter((_, i) => keepDice[i]).sort((a, b) => a - b);
+      const key = kept.join('');
+      if (seen.has(key)) {
+        continue;
+      }
+      seen.add(key);
+
+      const expectedValue =
+        kept.length === dice.length ? this.finalValue(kept) : this.keepValue(kept, rollsLeft);
+      if (expectedValue > best.expectedValue) {
+        best = { keepDice, expectedValue };
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Expected value of keeping some dice and re-rolling the rest
+   */
+  private keepValue(kept: number[], rollsLeft: number): number {
+    const key = `${kept.join('')}/${rollsLeft}`;
+    const cached = this.keepValues.get(key);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    let expected = 0;
+    for (const outcome of getRollOutcomes(DICE_COUNT - kept.length)) {
+      const dice = [...kept, ...outcome.dice].sort((a, b) => a - b);
+      const value = rollsLeft > 1 ? this.bestValue(dice, rollsLeft - 1) : this.finalValue(dice);
+      expected += outcome.probability * value;
+    }
+
+    this.keepValues.set(key, expected);
+    return expected;
+  }
+
+  /**
+   * Value of sorted dice with rolls still left: the best of every possible keep
+   */
+  private bestValue(dice: number[], rollsLeft: number): number {
+    let best = this.finalValue(dice);
+    for (let mask = 0; mask < (1 << dice.length) - 1; mask++) {
+      const kept = dice.filter((_, i) => (mask & (1 << i)) !== 0);
+      best = Math.max(best, this.keepValue(kept, rollsLeft));
+    }
+    return best;
+  }
+
+  /**
+   * Value of dice that will be scored as they are
+   */
+  private finalValue(dice: number[]): number {
+    const key = [...dice].sort((a, b) => a - b).join('');
+    const cached = this.finalValues.get(key);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const { value } = chooseCategory(dice, this.scorecard);
+    this.finalValues.set(key, value);
+    return value;
+  }
+}
+
+/**
+ * Gets an AI player's scorecard
+ * @param state Current game state
+ * @param aiPlayerId ID of the AI player
+ * @returns The player's scorecard
+ * @throws Error if the player has no scorecard
+ */
+export function getScorecard(state: GameState, aiPlayerId: string): Scorecard {
+  const scorecard = (state as GameState<YahtzeeMetadata>).metadata.scorecards.get(aiPlayerId);
+  if (!scorecard) {
+    throw new Error(`Scorecard not found for player ${aiPlayerId}`);
+  }
+  return scorecard;
+}
+
+/**
+ * Creates a roll move
+ * @param keepDice Dice to keep; on the first roll of a turn all dice are rolled
+ * @returns Move object; the player ID is set by the calling service
+ */
+export function createRollMove(keepDice: boolean[]): Move {
+  return {
+    playerId: '', // Will be set by the calling service
+    action: 'roll',
+    parameters: { keepDice },
+    timestamp: new Date(),
+  };
+}
+
+/**
+ * Creates a score move
+ * @param category Category to score
+ * @returns Move object; the player ID is set by the calling service
+ */
+export function createScoreMove(category: YahtzeeCategory): Move {
+  return {
+    playerId: '', // Will be set by the calling service
+    action: 'score',
+    parameters: { category },
+    timestamp: new Date(),
+  };
+}
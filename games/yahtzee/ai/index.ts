@@ -0,0 +1,14 @@
+/**
+ * Yahtzee AI Strategies
+ *
+ * This module exports all AI strategies available for Yahtzee games.
+ * Each strategy implements the AIStrategy interface and plays through the
+ * normal roll and score moves.
+ */
+
+export { GreedyStrategy } from './GreedyStrategy';
+export { ExpectimaxStrategy, DIFFICULTY_LOOKAHEAD } from './ExpectimaxStrategy';
+export * from './expectimax';
+
+// Re-export types for convenience
+export type { AIStrategy } from '@domain/interfaces/IAIStrategy';
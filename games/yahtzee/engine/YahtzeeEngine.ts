@@ -6,9 +6,10 @@
  * to specialized modules for specific functionality.
  */
 
-import { BaseGameEngine } from '@domain/interfaces';
+import { BaseGameEngine, AICapableGamePlugin, AIStrategy } from '@domain/interfaces';
 import { GameState, Player, Move } from '@domain/models';
 import { GameConfig, ValidationResult, BoardRenderData } from '@domain/interfaces';
+import { AIPlayer } from '@domain/models/AIPlayer';
 import { YahtzeeMetadata } from '../shared/types';
 
 // Import all module functions (to be implemented in subsequent tasks)
@@ -18,13 +19,27 @@ import * as validation from './validation';
 import * as rules from './rules';
 import * as renderer from './renderer';
 
+// Import AI strategies
+import { ExpectimaxStrategy, GreedyStrategy } from '../ai';
+
 /**
  * Yahtzee game engine implementation
  *
  * This class acts as a facade, providing a clean interface to the game
  * while delegating to specialized modules for specific functionality.
+ * Also implements AI capabilities through the AICapableGamePlugin interface.
  */
-export class YahtzeeEngine extends BaseGameEngine {
+export class YahtzeeEngine extends BaseGameEngine implements AICapableGamePlugin {
+  private aiStrategies: AIStrategy[];
+  private defaultStrategy: AIStrategy;
+
+  constructor() {
+    super();
+    // Initialize AI strategies
+    this.aiStrategies = [new ExpectimaxStrategy(), new GreedyStrategy()];
+    this.defaultStrategy = this.aiStrategies[0]; // Expectimax as default
+  }
+
   // ===== Metadata Methods =====
 
   getGameType(): string {
@@ -74,4 +89,58 @@ export class YahtzeeEngine extends BaseGameEngine {
   renderBoard(state: GameState): BoardRenderData {
     return renderer.renderBoard(state as GameState<YahtzeeMetadata>);
   }
+
+  // ===== AI Capabilities =====
+
+  /**
+   * Check if this game plugin supports AI players
+   * @returns true - Yahtzee supports AI players
+   */
+  supportsAI(): boolean {
+    return true;
+  }
+
+  /**
+   * Get available AI strategies for Yahtzee
+   * @returns Array of available AI strategies
+   */
+  getAIStrategies(): AIStrategy[] {
+    return [...this.aiStrategies]; // Return copy to prevent external modification
+  }
+
+  /**
+   * Get default AI strategy for Yahtzee
+   * @returns Default AI strategy (Expectimax)
+   */
+  getDefaultAIStrategy(): AIStrategy {
+    return this.defaultStrategy;
+  }
+
+  /**
+   * Create an AI player for Yahtzee
+   * The expectimax strategy looks further ahead for harder difficulties.
+   * @param name Display name for the AI player
+   * @param strategyId ID of the strategy to use (optional, uses default if not provided)
+   * @param difficulty Optional difficulty level
+   * @returns AI player configuration
+   */
+  createAIPlayer(name: string, strategyId?: string, difficulty?: string): AIPlayer {
+    // Find the requested strategy or use default
+    let strategy = this.defaultStrategy;
+    if (strategyId) {
+      const foundStrategy = this.aiStrategies.find((s) => s.id === strategyId);
+      if (!foundStrategy) {
+        throw new Error(`AI strategy '${strategyId}' not found for Yahtzee`);
+      }
+      strategy = foundStrategy;
+    }
+
+    return new AIPlayer(
+      `ai-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`,
+      name,
+      this.getGameType(),
+      strategy.id,
+      difficulty || strategy.difficulty
+    );
+  }
 }
@@ -0,0 +1,70 @@
+import { YahtzeeEngine } from '../YahtzeeEngine';
+import { AIPlayer } from '@domain/models/AIPlayer';
+
+/**
+ * Unit tests for YahtzeeEngine AI Integration
+ */
+describe('YahtzeeEngine AI Integration', () => {
+  let engine: YahtzeeEngine;
+
+  beforeEach(() => {
+    engine = new YahtzeeEngine();
+  });
+
+  describe('AI Support', () => {
+    it('should support AI players', () => {
+      expect(engine.supportsAI()).toBe(true);
+    });
+
+    it('should provide greedy and expectimax strategies', () => {
+      const strategyIds = engine.getAIStrategies().map((s) => s.id);
+
+      expect(strategyIds).toEqual(expect.arrayContaining(['greedy', 'expectimax']));
+    });
+
+    it('should default to expectimax', () => {
+      const defaultStrategy = engine.getDefaultAIStrategy();
+
+      expect(defaultStrategy.id).toBe('expectimax');
+      expect(defaultStrategy.difficulty).toBe('hard');
+    });
+
+    it('should not allow external modification of strategies array', () => {
+      const strategies = engine.getAIStrategies();
+      strategies.pop();
+
+      expect(engine.getAIStrategies()).toHaveLength(2);
+    });
+  });
+
+  describe('AI Player Creation', () => {
+    it('should create AI player with default strategy', () => {
+      const aiPlayer = engine.createAIPlayer('Test AI');
+
+      expect(aiPlayer).toBeInstanceOf(AIPlayer);
+      expect(aiPlayer.gameType).toBe('yahtzee');
+      expect(aiPlayer.strategyId).toBe('expectimax');
+      expect(aiPlayer.difficulty).toBe('hard');
+    });
+
+    it('should keep expectimax and pass difficulty through as lookahead', () => {
+      const aiPlayer = engine.createAIPlayer('Medium AI', undefined, 'medium');
+
+      expect(aiPlayer.strategyId).toBe('expectimax');
+      expect(aiPlayer.difficulty).toBe('medium');
+    });
+
+    it('should create AI player with specified strategy', () => {
+      const aiPlayer = engine.createAIPlayer('Greedy AI', 'greedy');
+
+      expect(aiPlayer.strategyId).toBe('greedy');
+      expect(aiPlayer.difficulty).toBe('easy');
+    });
+
+    it('should throw error for unknown strategy', () => {
+      expect(() => {
+        engine.createAIPlayer('Invalid AI', 'unknown-strategy');
+      }).toThrow("AI strategy 'unknown-strategy' not found for Yahtzee");
+    });
+  });
+});
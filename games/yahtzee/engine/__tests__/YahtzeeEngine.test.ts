@@ -7,6 +7,7 @@
  */
 
 import { YahtzeeEngine } from '../YahtzeeEngine';
+import { createGameRandomness } from '@domain/game-utils/FairRandom';
 import { GAME_TYPE, MIN_PLAYERS, MAX_PLAYERS, GAME_DESCRIPTION } from '../../shared/constants';
 
 describe('YahtzeeEngine - Basic Structure', () => {
@@ -112,7 +113,7 @@ describe('YahtzeeEngine - Basic Structure', () => {
           rollCount: 1,
           gamePhase: 'rolling' as const,
           rollHistory: [],
-          randomSeed: 'test-seed',
+          randomness: createGameRandomness('test-seed'),
         },
         winner: null,
         version: 1,
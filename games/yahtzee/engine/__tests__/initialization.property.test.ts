@@ -109,9 +109,8 @@ describe('Yahtzee Initialization - Property-Based Tests', () => {
             expect(metadata.rollCount).toBe(0);
             expect(metadata.gamePhase).toBe('rolling');
             expect(metadata.rollHistory).toEqual([]);
-            expect(metadata.randomSeed).toBeDefined();
-            expect(typeof metadata.randomSeed).toBe('string');
-            expect(metadata.randomSeed.length).toBeGreaterThan(0);
+            expect(metadata.randomness.commitment).toMatch(/^[0-9a-f]{64}$/);
+            expect(metadata.randomness.serverSeed).toBeDefined();
 
             // Property 6: Timestamps are valid
             expect(gameState.createdAt).toBeInstanceOf(Date);
@@ -9,6 +9,7 @@ import { GameConfig } from '../../../../src/domain/interfaces';
 import { YahtzeeMetadata } from '../../shared/types';
 import { DICE_COUNT, ALL_CATEGORIES } from '../../shared/constants';
 import * as initialization from '../initialization';
+import { hashServerSeed } from '../../../../src/domain/game-utils/FairRandom';
 
 describe('Yahtzee Initialization Module', () => {
   const mockPlayers: Player[] = [
@@ -103,8 +104,10 @@ describe('Yahtzee Initialization Module', () => {
       expect(metadata.rollCount).toBe(0);
       expect(metadata.gamePhase).toBe('rolling');
       expect(metadata.rollHistory).toEqual([]);
-      expect(metadata.randomSeed).toBeDefined();
-      expect(typeof metadata.randomSeed).toBe('string');
+      expect(metadata.randomness.serverSeed).toMatch(/^[0-9a-f]{64}$/);
+      expect(metadata.randomness.commitment).toBe(
+        hashServerSeed(metadata.randomness.serverSeed!)
+      );
     });
 
     it('should fail - handle single player game', () => {
@@ -5,6 +5,7 @@
 
 import * as fc from 'fast-check';
 import { renderBoard } from '../renderer';
+import { createGameRandomness } from '@domain/game-utils/FairRandom';
 import { GameState, GameLifecycle, Board } from '@domain/models';
 import { YahtzeeMetadata, Scorecard, DiceState } from '../../shared/types';
 import { ALL_CATEGORIES, DICE_COUNT } from '../../shared/constants';
@@ -428,7 +429,7 @@ function createTestGameState(
     rollCount,
     gamePhase,
     rollHistory: [],
-    randomSeed: 'test-seed',
+    randomness: createGameRandomness('test-seed'),
   };
 
   return {
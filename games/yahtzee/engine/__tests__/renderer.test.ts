@@ -1,5 +1,6 @@
 import { GameState, GameLifecycle, Board } from '@domain/models';
 import { renderBoard, renderDie, createScorecardGrid } from '../renderer';
+import { createGameRandomness } from '@domain/game-utils/FairRandom';
 import { YahtzeeMetadata, YahtzeeCategory, Scorecard, DiceState } from '../../shared/types';
 import { DICE_COUNT, MAX_ROLLS_PER_TURN } from '../../shared/constants';
 import { RenderLayer } from '@domain/interfaces';
@@ -35,7 +36,7 @@ function createTestGameState(
     rollCount: 1,
     gamePhase: 'rolling',
     rollHistory: [],
-    randomSeed: 'test-seed',
+    randomness: createGameRandomness('test-seed'),
     ...metadata,
   };
 
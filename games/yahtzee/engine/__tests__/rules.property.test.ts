@@ -6,6 +6,7 @@
 import fc from 'fast-check';
 import { applyMove, isGameOver, getWinner } from '../rules';
 import { validateMove } from '../validation';
+import { createGameRandomness } from '@domain/game-utils/FairRandom';
 import { GameState, Player, GameLifecycle } from '@domain/models';
 import { YahtzeeMove, YahtzeeMetadata, YahtzeeCategory, Scorecard } from '../../shared/types';
 import { MAX_ROLLS_PER_TURN, DICE_COUNT } from '../../shared/constants';
@@ -83,7 +84,7 @@ describe('Yahtzee Rules Property Tests', () => {
                 rollCount,
                 gamePhase: gamePhase as 'rolling' | 'scoring',
                 rollHistory: [],
-                randomSeed: 'test-seed',
+                randomness: createGameRandomness('test-seed'),
               },
             };
 
@@ -211,7 +212,7 @@ describe('Yahtzee Rules Property Tests', () => {
                 rollCount,
                 gamePhase: 'rolling',
                 rollHistory: [],
-                randomSeed: 'test-seed-consistent',
+                randomness: createGameRandomness('test-seed-consistent'),
               },
             };
 
@@ -310,7 +311,7 @@ describe('Yahtzee Rules Property Tests', () => {
                 rollCount: 0,
                 gamePhase: 'scoring',
                 rollHistory: [],
-                randomSeed: 'test-seed',
+                randomness: createGameRandomness('test-seed'),
               },
             };
 
@@ -398,7 +399,7 @@ describe('Yahtzee Rules Property Tests', () => {
                 rollCount: 0,
                 gamePhase: 'rolling',
                 rollHistory: [],
-                randomSeed: 'test-seed',
+                randomness: createGameRandomness('test-seed'),
               },
             };
 
@@ -6,6 +6,7 @@
  */
 
 import { applyMove, isGameOver, getWinner } from '../rules';
+import { FairRandom, createGameRandomness } from '@domain/game-utils/FairRandom';
 import { GameState, Player, GameLifecycle } from '@domain/models';
 import { YahtzeeMove, YahtzeeMetadata, YahtzeeCategory, Scorecard } from '../../shared/types';
 import { MAX_ROLLS_PER_TURN, DICE_COUNT } from '../../shared/constants';
@@ -72,7 +73,7 @@ describe('Yahtzee Rules Module', () => {
         rollCount: 1,
         gamePhase: 'rolling',
         rollHistory: [],
-        randomSeed: 'test-seed-123',
+        randomness: createGameRandomness('test-seed-123'),
       },
     };
   });
@@ -134,7 +135,7 @@ describe('Yahtzee Rules Module', () => {
       expect(newState.metadata.gamePhase).toBe('scoring');
     });
 
-    it('should use DiceEngine with consistent seed for re-rolling', () => {
+    it('should give the same re-roll for the same seed and nonce', () => {
       const rollMove: YahtzeeMove = {
         playerId: 'player1',
         timestamp: new Date(),
@@ -181,6 +182,47 @@ describe('Yahtzee Rules Module', () => {
       // Should remain in rolling phase
       expect(newState.metadata.gamePhase).toBe('rolling');
     });
+
+    it('should give games without a seed one on their next roll', () => {
+      delete (gameState.metadata as Partial<YahtzeeMetadata>).randomness;
+      const rollMove: YahtzeeMove = {
+        playerId: 'player1',
+        timestamp: new Date(),
+        action: 'roll',
+        parameters: { keepDice: [true, true, true, true, false] },
+      };
+
+      const newState = applyMove(gameState, 'player1', rollMove);
+
+      expect(newState.metadata.randomness.serverSeed).toMatch(/^[0-9a-f]{64}$/);
+      expect(gameState.metadata.randomness).toBeUndefined();
+    });
+
+    it('should derive each roll from the game ID, turn and roll number', () => {
+      gameState.metadata.rollCount = 0;
+      const rollMove: YahtzeeMove = {
+        playerId: 'player1',
+        timestamp: new Date(),
+        action: 'roll',
+        parameters: { keepDice: [false, false, false, false, false] },
+      };
+
+      const firstTurn = applyMove(gameState, 'player1', rollMove);
+      gameState.moveHistory = [
+        { playerId: 'player1', timestamp: new Date(), action: 'score', parameters: {} },
+      ];
+      const secondTurn = applyMove(gameState, 'player1', rollMove);
+
+      expect(firstTurn.metadata.currentDice.values).toEqual(
+        new FairRandom('test-seed-123', 'test-game', '0:0').rollDice(DICE_COUNT, 6)
+      );
+      expect(secondTurn.metadata.currentDice.values).toEqual(
+        new FairRandom('test-seed-123', 'test-game', '1:0').rollDice(DICE_COUNT, 6)
+      );
+      expect(secondTurn.metadata.currentDice.values).not.toEqual(
+        firstTurn.metadata.currentDice.values
+      );
+    });
   });
 
   describe('Scoring Move Application', () => {
@@ -6,6 +6,7 @@
 
 import fc from 'fast-check';
 import { validateMove } from '../validation';
+import { createGameRandomness } from '@domain/game-utils/FairRandom';
 import { GameState, Player, GameLifecycle } from '@domain/models';
 import { ValidationResult } from '@domain/interfaces';
 import { YahtzeeMove, YahtzeeMetadata, YahtzeeCategory, Scorecard } from '../../shared/types';
@@ -93,7 +94,7 @@ describe('Yahtzee Validation Property Tests', () => {
               rollCount: 3,
               gamePhase: 'scoring',
               rollHistory: [],
-              randomSeed: 'test-seed'
+              randomness: createGameRandomness('test-seed')
             }
           };
 
@@ -198,7 +199,7 @@ describe('Yahtzee Validation Property Tests', () => {
               rollCount,
               gamePhase: gamePhase as 'rolling' | 'scoring',
               rollHistory: [],
-              randomSeed: 'test-seed'
+              randomness: createGameRandomness('test-seed')
             }
           };
 
@@ -270,7 +271,7 @@ describe('Yahtzee Validation Property Tests', () => {
           expect(gameState.metadata).toHaveProperty('rollCount');
           expect(gameState.metadata).toHaveProperty('gamePhase');
           expect(gameState.metadata).toHaveProperty('rollHistory');
-          expect(gameState.metadata).toHaveProperty('randomSeed');
+          expect(gameState.metadata).toHaveProperty('randomness');
 
           // Property 7: Scorecards should be Map objects
           expect(gameState.metadata.scorecards instanceof Map).toBe(true);
@@ -6,6 +6,7 @@
  */
 
 import { validateMove } from '../validation';
+import { createGameRandomness } from '@domain/game-utils/FairRandom';
 import { GameState, Player, GameLifecycle } from '@domain/models';
 import { ValidationResult } from '@domain/interfaces';
 import { YahtzeeMove, YahtzeeMetadata, YahtzeeCategory, Scorecard } from '../../shared/types';
@@ -73,7 +74,7 @@ describe('Yahtzee Validation Module', () => {
         rollCount: 1,
         gamePhase: 'rolling',
         rollHistory: [],
-        randomSeed: 'test-seed'
+        randomness: createGameRandomness('test-seed')
       }
     };
   });
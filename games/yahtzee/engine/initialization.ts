@@ -8,6 +8,7 @@
 import { GameState, Player, GameLifecycle, Board } from '@domain/models';
 import { GameConfig } from '@domain/interfaces';
 import { DiceEngine } from '@domain/game-utils/DiceEngine';
+import { createGameRandomness } from '@domain/game-utils/FairRandom';
 import { 
   YahtzeeMetadata, 
   Scorecard, 
@@ -81,8 +82,8 @@ export function initializeGame(players: Player[], config: GameConfig): GameState
   // Create initial dice state
   const currentDice = createInitialDiceState();
   
-  // Generate random seed for reproducible dice rolls
-  const randomSeed = Math.random().toString(36).substring(2, 15);
+  // Commit to a secret seed that every dice roll is derived from
+  const randomness = createGameRandomness();
 
   // Create Yahtzee-specific metadata
   const metadata: YahtzeeMetadata = {
@@ -91,7 +92,7 @@ export function initializeGame(players: Player[], config: GameConfig): GameState
     rollCount: 0,
     gamePhase: 'rolling',
     rollHistory: [],
-    randomSeed,
+    randomness,
   };
 
   // Create empty board (Yahtzee doesn't use a traditional board)
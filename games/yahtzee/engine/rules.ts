@@ -5,7 +5,7 @@
  */
 
 import { GameState, Move } from '@domain/models';
-import { DiceEngine } from '@domain/game-utils/DiceEngine';
+import { FairRandom, createGameRandomness } from '@domain/game-utils/FairRandom';
 import {
   YahtzeeMove,
   YahtzeeMetadata,
@@ -73,8 +73,15 @@ function applyRollMove(
   const { keepDice } = move.parameters;
   const metadata = state.metadata;
 
-  // Create dice engine with the game's seed
-  const diceEngine = new DiceEngine(metadata.randomSeed);
+  // Games started before rolls were provably fair get their seed on the next roll
+  const randomness = metadata.randomness ?? createGameRandomness();
+
+  // Each roll gets its own nonce: the number of moves applied before this one (rolls and
+  // scores alike, i.e. moveHistory.length) and the number of rolls already made this turn
+  const diceEngine = FairRandom.forGame(
+    { ...state, metadata: { ...metadata, randomness } },
+    `${state.moveHistory.length}:${metadata.rollCount}`
+  );
 
   // Determine which dice to re-roll
   const newDiceValues = [...metadata.currentDice.values];
@@ -100,27 +107,28 @@ function applyRollMove(
     }
   }
 
-  // Update dice state
-  metadata.currentDice.values = newDiceValues;
-  metadata.currentDice.keptDice = [...keepDice];
-
-  // Increment roll count
-  metadata.rollCount++;
-
-  // Add to roll history
-  metadata.rollHistory.push({
-    rollNumber: metadata.rollCount,
-    values: [...newDiceValues],
-    keptDice: [...keepDice],
-    timestamp: new Date(),
-  });
-
-  // Transition to scoring phase if max rolls reached
-  if (metadata.rollCount >= MAX_ROLLS_PER_TURN) {
-    metadata.gamePhase = 'scoring';
-  }
-
-  return state;
+  const rollCount = metadata.rollCount + 1;
+
+  return {
+    ...state,
+    metadata: {
+      ...metadata,
+      randomness,
+      currentDice: { ...metadata.currentDice, values: newDiceValues, keptDice: [...keepDice] },
+      rollCount,
+      rollHistory: [
+        ...metadata.rollHistory,
+        {
+          rollNumber: rollCount,
+          values: [...newDiceValues],
+          keptDice: [...keepDice],
+          timestamp: new Date(),
+        },
+      ],
+      // Transition to scoring phase if max rolls reached
+      gamePhase: rollCount >= MAX_ROLLS_PER_TURN ? 'scoring' : metadata.gamePhase,
+    },
+  };
 }
 
 /**
@@ -9,6 +9,7 @@ import * as fs from 'fs';
 import * as path from 'path';
 import { GameState, GameLifecycle, Board } from '../../../src/domain/models';
 import { renderBoard } from '../engine/renderer';
+import { createGameRandomness } from '../../../src/domain/game-utils/FairRandom';
 import { YahtzeeMetadata, YahtzeeCategory, Scorecard, DiceState } from '../shared/types';
 import { RenderElement } from '../../../src/domain/interfaces';
 
@@ -91,7 +92,7 @@ function createGameState(
     rollCount,
     gamePhase,
     rollHistory: [],
-    randomSeed: 'example-seed',
+    randomness: createGameRandomness('example-seed'),
   };
 
   return {
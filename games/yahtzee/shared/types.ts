@@ -1,4 +1,4 @@
-import { Move } from '../../../src/domain/models';
+import { GameRandomness, Move } from '../../../src/domain/models';
 
 /**
  * Yahtzee-specific move types
@@ -52,7 +52,7 @@ export interface YahtzeeMetadata {
   rollCount: number;
   gamePhase: 'rolling' | 'scoring';
   rollHistory: DiceRoll[];
-  randomSeed: string;
+  randomness: GameRandomness;
 }
 
 /**
@@ -0,0 +1,206 @@
+/**
+ * Admin Routes
+ * REST API endpoints for game moderation; every endpoint requires an admin user
+ *
+ * Endpoints:
+ * - DELETE /api/admin/games/:gameId - Soft-delete any game
+ * - POST /api/admin/games/:gameId/restore - Restore a deleted game
+ * - POST /api/admin/games/:gameId/force-complete - End a game without a result
+ * - POST /api/admin/games/:gameId/adjudicate - End a game with a chosen result
+ * - DELETE /api/admin/games/:gameId/players/:playerId - Remove a player from a game
+ * - GET /api/admin/games/:gameId/moderation-log - Get a game's moderation log
+ *
+ * Every endpoint accepts an optional `reason` in the request body, recorded in the log.
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { ModerationService } from '@application/services/ModerationService';
+import { hideServerSeed } from '@domain/game-utils/FairRandom';
+import { requireAuth } from './auth/requireAuth';
+import { requireAdmin } from './auth/requireAdmin';
+import { AuthenticatedRequest } from './auth/types';
+
+/**
+ * Creates admin moderation routes
+ * Unlike other routes these always require authentication, even when auth is disabled
+ * elsewhere, since there is no other way to tell who the admin is.
+ * @param moderationService - Service for deleting and moderating games
+ * @returns Express router with admin routes
+ */
+export function createAdminRoutes(moderationService: ModerationService): Router {
+  const router = Router();
+
+  router.use('/admin', requireAuth, requireAdmin);
+
+  /**
+   * Read the optional reason from the request body
+   * Sends a 400 response and returns null when the reason is not a string.
+   */
+  const getReason = (req: Request, res: Response): { reason?: string } | null => {
+    const reason = req.body?.reason;
+    if (reason !== undefined && typeof reason !== 'string') {
+      res.status(400).json({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'reason must be a string',
+        },
+      });
+      return null;
+    }
+    return { reason: reason || undefined };
+  };
+
+  /**
+   * DELETE /api/admin/games/:gameId
+   * Soft-delete a game in any state
+   */
+  router.delete(
+    '/admin/games/:gameId',
+    async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+      try {
+        const body = getReason(req, res);
+        if (!body) {
+          return;
+        }
+
+        await moderationService.deleteGame(req.params.gameId, req.user!.id, true, body.reason);
+        res.status(204).send();
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  /**
+   * POST /api/admin/games/:gameId/restore
+   * Make a deleted game visible again
+   */
+  router.post(
+    '/admin/games/:gameId/restore',
+    async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+      try {
+        const body = getReason(req, res);
+        if (!body) {
+          return;
+        }
+
+        const game = await moderationService.restoreGame(
+          req.params.gameId,
+          req.user!.id,
+          body.reason
+        );
+        res.json(hideServerSeed(game));
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  /**
+   * POST /api/admin/games/:gameId/force-complete
+   * End an active game without a result; ratings are not changed
+   */
+  router.post(
+    '/admin/games/:gameId/force-complete',
+    async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+      try {
+        const body = getReason(req, res);
+        if (!body) {
+          return;
+        }
+
+        const game = await moderationService.forceComplete(
+          req.params.gameId,
+          req.user!.id,
+          body.reason
+        );
+        res.json(hideServerSeed(game));
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  /**
+   * POST /api/admin/games/:gameId/adjudicate
+   * End an active game with a result chosen by the admin
+   * Request body:
+   * - winner: string | null (required) - Player awarded the win, or null for a draw
+   */
+  router.post(
+    '/admin/games/:gameId/adjudicate',
+    async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+      try {
+        const body = getReason(req, res);
+        if (!body) {
+          return;
+        }
+
+        const winner = req.body?.winner;
+        if (winner === undefined || (winner !== null && typeof winner !== 'string')) {
+          res.status(400).json({
+            error: {
+              code: 'VALIDATION_ERROR',
+              message: 'winner must be a player ID, or null for a draw',
+            },
+          });
+          return;
+        }
+
+        const game = await moderationService.adjudicate(
+          req.params.gameId,
+          req.user!.id,
+          winner,
+          body.reason
+        );
+        res.json(hideServerSeed(game));
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  /**
+   * DELETE /api/admin/games/:gameId/players/:playerId
+   * Remove a player; the player forfeits if the game has started
+   */
+  router.delete(
+    '/admin/games/:gameId/players/:playerId',
+    async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+      try {
+        const body = getReason(req, res);
+        if (!body) {
+          return;
+        }
+
+        const game = await moderationService.removePlayer(
+          req.params.gameId,
+          req.user!.id,
+          req.params.playerId,
+          body.reason
+        );
+        res.json(hideServerSeed(game));
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  /**
+   * GET /api/admin/games/:gameId/moderation-log
+   * Get every deletion and admin action taken on a game, oldest first
+   */
+  router.get(
+    '/admin/games/:gameId/moderation-log',
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const entries = await moderationService.getModerationLog(req.params.gameId);
+        res.json(entries);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  return router;
+}
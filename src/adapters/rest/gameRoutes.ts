@@ -1,9 +1,18 @@
 import { Router, Request, Response, NextFunction } from 'express';
 import { GameManagerService } from '@application/services/GameManagerService';
 import { StateManagerService } from '@application/services/StateManagerService';
-import { RendererService } from '@infrastructure/rendering/RendererService';
+import {
+  RendererService,
+  ReplayFormat,
+  DEFAULT_FRAME_DELAY_MS,
+  MIN_FRAME_DELAY_MS,
+  MAX_FRAME_DELAY_MS,
+} from '@infrastructure/rendering/RendererService';
 import { AIPlayerService } from '@application/services/AIPlayerService';
+import { GameReplayService } from '@application/services/GameReplayService';
+import { ModerationService } from '@application/services/ModerationService';
 import { GameRepository } from '@domain/interfaces';
+import { GameState, SpectatorPolicy } from '@domain/models';
 import { GameNotFoundError } from '@domain/errors';
 import { requireGameParticipant } from './auth/requireGameParticipant';
 import { createConditionalAuth } from './auth/conditionalAuth';
@@ -17,6 +26,8 @@ import { AuthenticatedRequest } from './auth/types';
  * @param aiPlayerService - Service for AI player management
  * @param rendererService - Service for rendering game boards (optional)
  * @param options - Configuration options for routes
+ * @param gameReplayService - Service for reconstructing past game states (optional)
+ * @param moderationService - Service for deleting games (optional)
  * @returns Express router with game management and gameplay routes
  */
 export function createGameRoutes(
@@ -25,10 +36,78 @@ export function createGameRoutes(
   stateManagerService: StateManagerService,
   aiPlayerService: AIPlayerService,
   rendererService?: RendererService,
-  options: { disableAuth?: boolean } = {}
+  options: { disableAuth?: boolean } = {},
+  gameReplayService?: GameReplayService,
+  moderationService?: ModerationService
 ): Router {
   const router = Router();
 
+  /**
+   * Rebuild a game's state after a move number given as a query parameter
+   * Sends a 400 or 501 response and returns null when the state cannot be rebuilt.
+   */
+  const getHistoricalState = async (
+    gameId: string,
+    value: unknown,
+    paramName: string,
+    res: Response
+  ): Promise<GameState | null> => {
+    const moveNumber = Number(value);
+    if (typeof value !== 'string' || !Number.isInteger(moveNumber) || moveNumber < 0) {
+      res.status(400).json({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: `${paramName} must be a non-negative integer`,
+        },
+      });
+      return null;
+    }
+
+    if (!gameReplayService) {
+      res.status(501).json({
+        error: {
+          code: 'NOT_IMPLEMENTED',
+          message: 'Game history is not available',
+        },
+      });
+      return null;
+    }
+
+    return gameReplayService.getStateAtMove(gameId, moveNumber);
+  };
+
+  /**
+   * The user a response is shown to, or null for an anonymous viewer
+   * Without authentication the viewer can be given as ?viewerId, like the acting
+   * player is given in request bodies.
+   */
+  const getViewerId = (req: AuthenticatedRequest): string | null => {
+    if (req.user) {
+      return req.user.id;
+    }
+    if (options.disableAuth && typeof req.query.viewerId === 'string') {
+      return req.query.viewerId;
+    }
+    return null;
+  };
+
+  /**
+   * Check that a viewer may read a game
+   * Players can always read their own games; anyone else is held to the game's
+   * spectator policy, as when observing or subscribing over WebSocket.
+   * @throws GameNotFoundError if the game does not exist
+   * @throws ForbiddenError if the viewer may not spectate the game
+   */
+  const assertCanView = async (gameId: string, viewerId: string | null): Promise<void> => {
+    await gameManagerService.getViewerRole(gameId, viewerId);
+  };
+
+  /**
+   * The part of a game state a viewer may see
+   */
+  const toView = (state: GameState, viewerId: string | null): GameState =>
+    gameManagerService.getGameView(state, viewerId);
+
   // Create conditional auth middleware based on options
   const conditionalAuth = createConditionalAuth(!options.disableAuth);
   const conditionalGameParticipant = options.disableAuth
@@ -164,6 +243,20 @@ export function createGameRoutes(
           }
         }
 
+        // Validate spectator policy if provided
+        if (
+          config?.spectators !== undefined &&
+          !Object.values(SpectatorPolicy).includes(config.spectators)
+        ) {
+          res.status(400).json({
+            error: {
+              code: 'VALIDATION_ERROR',
+              message: `Spectators must be one of: ${Object.values(SpectatorPolicy).join(', ')}`,
+            },
+          });
+          return;
+        }
+
         // Extract authenticated user from request (if auth is enabled)
         const user = req.user; // May be undefined if auth is disabled
 
@@ -175,7 +268,7 @@ export function createGameRoutes(
           gameName,
           gameDescription
         );
-        res.status(201).json(game);
+        res.status(201).json(toView(game, getViewerId(req)));
       } catch (error) {
         next(error);
       }
@@ -186,7 +279,7 @@ export function createGameRoutes(
    * GET /api/games
    * List games with optional filtering and pagination
    */
-  router.get('/games', async (req: Request, res: Response, next: NextFunction) => {
+  router.get('/games', async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
     try {
       const filters = {
         playerId: req.query.playerId as string | undefined,
@@ -195,7 +288,7 @@ export function createGameRoutes(
         page: req.query.page ? parseInt(req.query.page as string) : undefined,
         pageSize: req.query.pageSize ? parseInt(req.query.pageSize as string) : undefined,
       };
-      const result = await gameManagerService.listGames(filters);
+      const result = await gameManagerService.listGames(filters, getViewerId(req));
       res.json(result);
     } catch (error) {
       next(error);
@@ -206,44 +299,159 @@ export function createGameRoutes(
    * GET /api/games/:gameId
    * Get a specific game by ID
    */
-  router.get('/games/:gameId', async (req: Request, res: Response, next: NextFunction) => {
-    try {
-      const game = await gameManagerService.getGame(req.params.gameId);
-      if (!game) {
-        throw new GameNotFoundError(req.params.gameId);
+  router.get(
+    '/games/:gameId',
+    async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+      try {
+        const viewerId = getViewerId(req);
+        await assertCanView(req.params.gameId, viewerId);
+        const game = await gameManagerService.getGame(req.params.gameId, viewerId);
+        if (!game) {
+          throw new GameNotFoundError(req.params.gameId);
+        }
+        res.json(game);
+      } catch (error) {
+        next(error);
       }
-      res.json(game);
-    } catch (error) {
-      next(error);
     }
-  });
+  );
 
   /**
    * POST /api/games/:gameId/join
    * Add a player to a game
    */
-  router.post('/games/:gameId/join', async (req: Request, res: Response, next: NextFunction) => {
-    try {
-      const { player } = req.body;
-      const game = await gameManagerService.joinGame(req.params.gameId, player);
-      res.json(game);
-    } catch (error) {
-      next(error);
+  router.post(
+    '/games/:gameId/join',
+    async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+      try {
+        const { player } = req.body;
+        const game = await gameManagerService.joinGame(req.params.gameId, player);
+        res.json(toView(game, getViewerId(req) ?? player?.id ?? null));
+      } catch (error) {
+        next(error);
+      }
     }
-  });
+  );
+
+  // ========== Spectator Endpoints ==========
+
+  /**
+   * POST /api/games/:gameId/observe
+   * Start observing a game, subject to the game's spectator policy
+   * The observer is the authenticated user, or body.observerId/observerName when auth is disabled
+   */
+  router.post(
+    '/games/:gameId/observe',
+    conditionalAuth,
+    async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+      try {
+        const observerId = req.user?.id ?? req.body?.observerId;
+        if (!observerId || typeof observerId !== 'string') {
+          res.status(400).json({
+            error: {
+              code: 'VALIDATION_ERROR',
+              message: 'observerId is required',
+            },
+          });
+          return;
+        }
+
+        const observerName = req.user?.username ?? req.body?.observerName ?? observerId;
+        const game = await gameManagerService.addObserver(req.params.gameId, {
+          id: observerId,
+          name: observerName,
+        });
+        res.json(toView(game, observerId));
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  /**
+   * DELETE /api/games/:gameId/observe
+   * Stop observing a game
+   */
+  router.delete(
+    '/games/:gameId/observe',
+    conditionalAuth,
+    async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+      try {
+        const observerId = req.user?.id ?? req.body?.observerId;
+        if (!observerId || typeof observerId !== 'string') {
+          res.status(400).json({
+            error: {
+              code: 'VALIDATION_ERROR',
+              message: 'observerId is required',
+            },
+          });
+          return;
+        }
+
+        const game = await gameManagerService.removeObserver(req.params.gameId, observerId);
+        res.json(toView(game, observerId));
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  /**
+   * GET /api/games/:gameId/observers
+   * List the users observing a game
+   */
+  router.get(
+    '/games/:gameId/observers',
+    async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+      try {
+        await assertCanView(req.params.gameId, getViewerId(req));
+        const observers = await gameManagerService.listObservers(req.params.gameId);
+        res.json(observers);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
 
   /**
    * DELETE /api/games/:gameId
-   * Delete a game instance
+   * Soft-delete a game that has not started yet; only its creator may do so
+   * The creator is the authenticated user, or body.playerId when auth is disabled.
+   * Admins delete games in any state through DELETE /api/admin/games/:gameId.
    */
-  router.delete('/games/:gameId', async (req: Request, res: Response, next: NextFunction) => {
-    try {
-      await gameRepository.delete(req.params.gameId);
-      res.status(204).send();
-    } catch (error) {
-      next(error);
+  router.delete(
+    '/games/:gameId',
+    conditionalAuth,
+    async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+      try {
+        const playerId = req.user?.id ?? req.body?.playerId;
+        if (!playerId || typeof playerId !== 'string') {
+          res.status(400).json({
+            error: {
+              code: 'VALIDATION_ERROR',
+              message: 'playerId is required',
+            },
+          });
+          return;
+        }
+
+        if (!moderationService) {
+          res.status(501).json({
+            error: {
+              code: 'NOT_IMPLEMENTED',
+              message: 'Game deletion is not available',
+            },
+          });
+          return;
+        }
+
+        await moderationService.deleteGame(req.params.gameId, playerId, false);
+        res.status(204).send();
+      } catch (error) {
+        next(error);
+      }
     }
-  });
+  );
 
   /**
    * GET /api/game-types
@@ -279,19 +487,37 @@ export function createGameRoutes(
 
   /**
    * GET /api/games/:gameId/state
-   * Get current game state
+   * Get current game state, or the state after a given move with ?atMove=N
    */
-  router.get('/games/:gameId/state', async (req: Request, res: Response, next: NextFunction) => {
-    try {
-      const game = await gameRepository.findById(req.params.gameId);
-      if (!game) {
-        throw new GameNotFoundError(req.params.gameId);
+  router.get(
+    '/games/:gameId/state',
+    async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+      try {
+        const viewerId = getViewerId(req);
+        await assertCanView(req.params.gameId, viewerId);
+        if (req.query.atMove !== undefined) {
+          const state = await getHistoricalState(
+            req.params.gameId,
+            req.query.atMove,
+            'atMove',
+            res
+          );
+          if (state) {
+            res.json(toView(state, viewerId));
+          }
+          return;
+        }
+
+        const game = await gameRepository.findById(req.params.gameId);
+        if (!game) {
+          throw new GameNotFoundError(req.params.gameId);
+        }
+        res.json(toView(game, viewerId));
+      } catch (error) {
+        next(error);
       }
-      res.json(game);
-    } catch (error) {
-      next(error);
     }
-  });
+  );
 
   /**
    * POST /api/games/:gameId/moves
@@ -313,41 +539,140 @@ export function createGameRoutes(
           move,
           version
         );
-        res.json(updatedState);
+        res.json(toView(updatedState, req.user?.id ?? playerId));
       } catch (error) {
         next(error);
       }
     }
   );
 
+  // ========== Resign, Draw and Abort Endpoints ==========
+
+  /**
+   * Build a handler for a resign/draw/abort action
+   * The acting player is the authenticated user, or body.playerId when auth is disabled
+   */
+  const metaActionHandler =
+    (action: (gameId: string, playerId: string) => Promise<GameState>) =>
+    async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+      try {
+        const playerId = req.user?.id ?? req.body?.playerId;
+        if (!playerId || typeof playerId !== 'string') {
+          res.status(400).json({
+            error: {
+              code: 'VALIDATION_ERROR',
+              message: 'playerId is required',
+            },
+          });
+          return;
+        }
+
+        const updatedState = await action(req.params.gameId, playerId);
+        res.json(toView(updatedState, playerId));
+      } catch (error) {
+        next(error);
+      }
+    };
+
+  /**
+   * POST /api/games/:gameId/resign
+   * Resign the game; the opponent is recorded as the winner
+   */
+  router.post(
+    '/games/:gameId/resign',
+    conditionalAuth,
+    conditionalGameParticipant,
+    metaActionHandler((gameId, playerId) => stateManagerService.resign(gameId, playerId))
+  );
+
+  /**
+   * POST /api/games/:gameId/draw/offer
+   * Offer a draw to the other players
+   */
+  router.post(
+    '/games/:gameId/draw/offer',
+    conditionalAuth,
+    conditionalGameParticipant,
+    metaActionHandler((gameId, playerId) => stateManagerService.offerDraw(gameId, playerId))
+  );
+
+  /**
+   * POST /api/games/:gameId/draw/accept
+   * Accept a pending draw offer; the game is drawn once every player agrees
+   */
+  router.post(
+    '/games/:gameId/draw/accept',
+    conditionalAuth,
+    conditionalGameParticipant,
+    metaActionHandler((gameId, playerId) => stateManagerService.acceptDraw(gameId, playerId))
+  );
+
+  /**
+   * POST /api/games/:gameId/draw/decline
+   * Decline a pending draw offer
+   */
+  router.post(
+    '/games/:gameId/draw/decline',
+    conditionalAuth,
+    conditionalGameParticipant,
+    metaActionHandler((gameId, playerId) => stateManagerService.declineDraw(gameId, playerId))
+  );
+
+  /**
+   * POST /api/games/:gameId/abort
+   * Request or agree to aborting the game before any real progress is made
+   */
+  router.post(
+    '/games/:gameId/abort',
+    conditionalAuth,
+    conditionalGameParticipant,
+    metaActionHandler((gameId, playerId) => stateManagerService.abort(gameId, playerId))
+  );
+
   /**
    * GET /api/games/:gameId/moves
-   * Get move history for a game
+   * Get move history for a game, as the viewer may see it
    */
-  router.get('/games/:gameId/moves', async (req: Request, res: Response, next: NextFunction) => {
-    try {
-      const game = await gameRepository.findById(req.params.gameId);
-      if (!game) {
-        throw new GameNotFoundError(req.params.gameId);
+  router.get(
+    '/games/:gameId/moves',
+    async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+      try {
+        const viewerId = getViewerId(req);
+        await assertCanView(req.params.gameId, viewerId);
+        const game = await gameRepository.findById(req.params.gameId);
+        if (!game) {
+          throw new GameNotFoundError(req.params.gameId);
+        }
+        res.json(toView(game, viewerId).moveHistory);
+      } catch (error) {
+        next(error);
       }
-      res.json(game.moveHistory);
-    } catch (error) {
-      next(error);
     }
-  });
+  );
 
   // ========== Rendering Endpoints ==========
 
   /**
    * GET /api/games/:gameId/board.svg
-   * Get SVG rendering of game board
+   * Get SVG rendering of game board, or of the board after a given move with ?move=N
    */
   if (rendererService) {
     router.get(
       '/games/:gameId/board.svg',
-      async (req: Request, res: Response, next: NextFunction) => {
+      async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
         try {
-          const svg = await rendererService.renderGame(req.params.gameId);
+          const viewerId = getViewerId(req);
+          await assertCanView(req.params.gameId, viewerId);
+          let svg: string;
+          if (req.query.move !== undefined) {
+            const state = await getHistoricalState(req.params.gameId, req.query.move, 'move', res);
+            if (!state) {
+              return;
+            }
+            svg = await rendererService.renderState(state, viewerId);
+          } else {
+            svg = await rendererService.renderGame(req.params.gameId, viewerId);
+          }
           res.setHeader('Content-Type', 'image/svg+xml');
           res.send(svg);
         } catch (error) {
@@ -355,6 +680,50 @@ export function createGameRoutes(
         }
       }
     );
+
+    /**
+     * GET /api/games/:gameId/replay.gif and /api/games/:gameId/replay.apng
+     * Get an animation of a finished game, one frame per move, with ?delay=ms per frame
+     */
+    router.get(
+      '/games/:gameId/replay.:format(gif|apng)',
+      async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+        try {
+          let frameDelayMs = DEFAULT_FRAME_DELAY_MS;
+          if (req.query.delay !== undefined) {
+            frameDelayMs = Number(req.query.delay);
+            if (
+              typeof req.query.delay !== 'string' ||
+              !Number.isInteger(frameDelayMs) ||
+              frameDelayMs < MIN_FRAME_DELAY_MS ||
+              frameDelayMs > MAX_FRAME_DELAY_MS
+            ) {
+              res.status(400).json({
+                error: {
+                  code: 'VALIDATION_ERROR',
+                  message: `delay must be an integer between ${MIN_FRAME_DELAY_MS} and ${MAX_FRAME_DELAY_MS} milliseconds`,
+                },
+              });
+              return;
+            }
+          }
+
+          const viewerId = getViewerId(req);
+          await assertCanView(req.params.gameId, viewerId);
+          const format = req.params.format as ReplayFormat;
+          const animation = await rendererService.renderReplay(
+            req.params.gameId,
+            format,
+            frameDelayMs,
+            viewerId
+          );
+          res.setHeader('Content-Type', format === 'gif' ? 'image/gif' : 'image/apng');
+          res.send(animation);
+        } catch (error) {
+          next(error);
+        }
+      }
+    );
   }
 
   return router;
@@ -11,6 +11,10 @@
 
 import { Router, Request, Response, NextFunction } from 'express';
 import { StatsService } from '@application/services/StatsService';
+import {
+  LeaderboardSort,
+  LEADERBOARD_SORTS,
+} from '@infrastructure/persistence/PostgresStatsRepository';
 
 /**
  * Creates leaderboard routes
@@ -26,6 +30,7 @@ export function createLeaderboardRoutes(statsService: StatsService): Router {
    * No authentication required (public endpoint)
    * Query parameters:
    * - limit: Maximum number of entries (optional, default 100, min 1)
+   * - sort: winRate or rating (optional, default winRate)
    */
   router.get('/leaderboard', async (req: Request, res: Response, next: NextFunction) => {
     try {
@@ -52,7 +57,20 @@ export function createLeaderboardRoutes(statsService: StatsService): Router {
         limit = parsedLimit;
       }
 
-      const leaderboard = await statsService.getLeaderboard(undefined, limit);
+      let sort: LeaderboardSort = 'winRate'; // default
+
+      if (req.query.sort) {
+        if (!LEADERBOARD_SORTS.includes(req.query.sort as LeaderboardSort)) {
+          res.status(400).json({
+            error: `Invalid sort parameter. Must be one of: ${LEADERBOARD_SORTS.join(', ')}.`,
+          });
+          return;
+        }
+
+        sort = req.query.sort as LeaderboardSort;
+      }
+
+      const leaderboard = await statsService.getLeaderboard(undefined, limit, sort);
       res.json(leaderboard);
     } catch (error) {
       next(error);
@@ -65,6 +83,7 @@ export function createLeaderboardRoutes(statsService: StatsService): Router {
    * No authentication required (public endpoint)
    * Query parameters:
    * - limit: Maximum number of entries (optional, default 100, min 1)
+   * - sort: winRate or rating (optional, default winRate)
    */
   router.get('/leaderboard/:gameType', async (req: Request, res: Response, next: NextFunction) => {
     try {
@@ -93,7 +112,20 @@ export function createLeaderboardRoutes(statsService: StatsService): Router {
         limit = parsedLimit;
       }
 
-      const leaderboard = await statsService.getLeaderboard(gameType, limit);
+      let sort: LeaderboardSort = 'winRate'; // default
+
+      if (req.query.sort) {
+        if (!LEADERBOARD_SORTS.includes(req.query.sort as LeaderboardSort)) {
+          res.status(400).json({
+            error: `Invalid sort parameter. Must be one of: ${LEADERBOARD_SORTS.join(', ')}.`,
+          });
+          return;
+        }
+
+        sort = req.query.sort as LeaderboardSort;
+      }
+
+      const leaderboard = await statsService.getLeaderboard(gameType, limit, sort);
       res.json(leaderboard);
     } catch (error) {
       next(error);
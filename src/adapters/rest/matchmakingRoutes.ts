@@ -0,0 +1,168 @@
+/**
+ * Matchmaking Routes
+ * REST API endpoints for the matchmaking queue
+ *
+ * Endpoints:
+ * - POST /api/matchmaking/queue - Join the queue
+ * - GET /api/matchmaking/queue - Get the caller's queue status
+ * - DELETE /api/matchmaking/queue - Leave the queue
+ */
+
+import { Router, Response, NextFunction } from 'express';
+import { MatchmakingService } from '@application/services/MatchmakingService';
+import { createConditionalAuth } from './auth/conditionalAuth';
+import { AuthenticatedRequest } from './auth/types';
+
+/**
+ * Creates matchmaking routes
+ * The queued player is the authenticated user, or body.playerId/playerName
+ * (query.playerId for GET) when auth is disabled.
+ * @param matchmakingService - Service for managing the matchmaking queue
+ * @param options - Configuration options for routes
+ * @returns Express router with matchmaking routes
+ */
+export function createMatchmakingRoutes(
+  matchmakingService: MatchmakingService,
+  options: { disableAuth?: boolean } = {}
+): Router {
+  const router = Router();
+  const conditionalAuth = createConditionalAuth(!options.disableAuth);
+
+  /**
+   * Resolve the player making the request
+   * Sends a 400 response and returns null when no player is given.
+   */
+  const getPlayerId = (
+    req: AuthenticatedRequest,
+    res: Response,
+    fallback: unknown
+  ): string | null => {
+    const playerId = req.user?.id ?? fallback;
+    if (!playerId || typeof playerId !== 'string') {
+      res.status(400).json({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'playerId is required',
+        },
+      });
+      return null;
+    }
+    return playerId;
+  };
+
+  /**
+   * POST /api/matchmaking/queue
+   * Join the matchmaking queue
+   * Request body:
+   * - gameType: string (required)
+   * - customSettings: object (optional) - Preferred game settings
+   * - winRateRange: number (optional) - Largest accepted win-rate difference, 0 to 1
+   */
+  router.post(
+    '/matchmaking/queue',
+    conditionalAuth,
+    async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+      try {
+        const playerId = getPlayerId(req, res, req.body?.playerId);
+        if (!playerId) {
+          return;
+        }
+
+        const { gameType, customSettings, winRateRange } = req.body;
+
+        if (!gameType || typeof gameType !== 'string') {
+          res.status(400).json({
+            error: {
+              code: 'VALIDATION_ERROR',
+              message: 'gameType is required',
+            },
+          });
+          return;
+        }
+
+        if (
+          customSettings !== undefined &&
+          (customSettings === null ||
+            typeof customSettings !== 'object' ||
+            Array.isArray(customSettings))
+        ) {
+          res.status(400).json({
+            error: {
+              code: 'VALIDATION_ERROR',
+              message: 'customSettings must be an object',
+            },
+          });
+          return;
+        }
+
+        if (
+          winRateRange !== undefined &&
+          (typeof winRateRange !== 'number' || !Number.isFinite(winRateRange))
+        ) {
+          res.status(400).json({
+            error: {
+              code: 'VALIDATION_ERROR',
+              message: 'winRateRange must be a number',
+            },
+          });
+          return;
+        }
+
+        const playerName = req.user?.username ?? req.body?.playerName ?? playerId;
+        const status = await matchmakingService.joinQueue(
+          { id: playerId, username: playerName },
+          { gameType, customSettings, winRateRange }
+        );
+        res.status(201).json(status);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  /**
+   * GET /api/matchmaking/queue
+   * Get the caller's queue entry and the win-rate range it currently accepts
+   */
+  router.get(
+    '/matchmaking/queue',
+    conditionalAuth,
+    async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+      try {
+        const playerId = getPlayerId(req, res, req.query.playerId);
+        if (!playerId) {
+          return;
+        }
+
+        const status = await matchmakingService.getQueueStatus(playerId);
+        res.json(status);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  /**
+   * DELETE /api/matchmaking/queue
+   * Leave the matchmaking queue
+   */
+  router.delete(
+    '/matchmaking/queue',
+    conditionalAuth,
+    async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+      try {
+        const playerId = getPlayerId(req, res, req.body?.playerId);
+        if (!playerId) {
+          return;
+        }
+
+        await matchmakingService.leaveQueue(playerId);
+        res.status(204).send();
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  return router;
+}
@@ -6,6 +6,7 @@
  * - POST /api/players/profile - Create player profile
  * - GET /api/players/profile - Get current user's profile
  * - PUT /api/players/profile - Update player profile
+ * - PUT /api/players/profile/notifications - Update notification preferences
  * - GET /api/players/:userId/profile - Get player profile by ID (public)
  *
  * Requirements: 4.1, 4.2, 4.3, 4.4, 4.5, 10.1, 10.2, 10.3, 10.4, 10.5
@@ -13,6 +14,7 @@
 
 import { Router, Response, NextFunction } from 'express';
 import { PlayerProfileService } from '@application/services/PlayerProfileService';
+import { toPublicProfile } from '@domain/models/PlayerProfile';
 import { requireAuth } from './auth/requireAuth';
 import { AuthenticatedRequest } from './auth/types';
 
@@ -184,6 +186,71 @@ export function createPlayerProfileRoutes(playerProfileService: PlayerProfileSer
     }
   );
 
+  /**
+   * PUT /api/players/profile/notifications
+   * Update current user's notification preferences
+   * Requires authentication
+   * Request body (all fields optional):
+   * - channels: string[] - Channels to be notified on ('in-app', 'email')
+   * - email: string | null - Address for email notifications, or null to remove it
+   * - emailDigest: boolean - Batch turn emails into a daily digest
+   */
+  router.put(
+    '/players/profile/notifications',
+    requireAuth,
+    async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+      try {
+        // Use externalId (Clerk user ID) for profile, not PlayerIdentity ID
+        const userId = req.user!.externalId || req.user!.id;
+        const { channels, email, emailDigest } = req.body ?? {};
+
+        if (email !== undefined && email !== null && typeof email !== 'string') {
+          res.status(400).json({
+            error: {
+              code: 'VALIDATION_ERROR',
+              message: 'email must be a string or null',
+            },
+          });
+          return;
+        }
+
+        // Check if profile exists
+        const existingProfile = await playerProfileService.getProfile(userId);
+        if (!existingProfile) {
+          res.status(404).json({
+            error: {
+              code: 'PROFILE_NOT_FOUND',
+              message: 'Profile not found for this user',
+            },
+          });
+          return;
+        }
+
+        try {
+          const updatedProfile = await playerProfileService.updateNotificationPreferences(userId, {
+            channels,
+            emailDigest,
+            ...(email !== undefined && { email: email || undefined }),
+          });
+          res.json(updatedProfile);
+        } catch (error) {
+          if (error instanceof Error) {
+            res.status(400).json({
+              error: {
+                code: 'VALIDATION_ERROR',
+                message: error.message,
+              },
+            });
+            return;
+          }
+          throw error;
+        }
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
   /**
    * GET /api/players/:userId/profile
    * Get player profile by user ID (public endpoint)
@@ -206,7 +273,7 @@ export function createPlayerProfileRoutes(playerProfileService: PlayerProfileSer
           return;
         }
 
-        res.json(profile);
+        res.json(toPublicProfile(profile));
       } catch (error) {
         next(error);
       }
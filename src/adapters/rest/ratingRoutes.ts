@@ -0,0 +1,43 @@
+/**
+ * Rating Routes
+ * REST API endpoints for player ratings
+ *
+ * Endpoints:
+ * - GET /api/players/:userId/rating-history - Get a player's rating changes
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { RatingService } from '@application/services/RatingService';
+
+/**
+ * Creates rating routes
+ * @param ratingService - Service for managing player ratings
+ * @returns Express router with rating routes
+ */
+export function createRatingRoutes(ratingService: RatingService): Router {
+  const router = Router();
+
+  /**
+   * GET /api/players/:userId/rating-history
+   * Get a player's rating after each rated game, oldest first
+   * No authentication required (public endpoint)
+   * Query parameters:
+   * - gameType: Filter by game type (optional)
+   */
+  router.get(
+    '/players/:userId/rating-history',
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const { userId } = req.params;
+        const gameType = req.query.gameType ? (req.query.gameType as string) : undefined;
+
+        const history = await ratingService.getRatingHistory(userId, gameType);
+        res.json(history);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  return router;
+}
@@ -0,0 +1,249 @@
+/**
+ * Tournament Routes
+ * REST API endpoints for tournaments
+ *
+ * Endpoints:
+ * - POST /api/tournaments - Create a tournament
+ * - GET /api/tournaments - List tournaments
+ * - GET /api/tournaments/:tournamentId - Get a tournament
+ * - POST /api/tournaments/:tournamentId/join - Register for a tournament
+ * - POST /api/tournaments/:tournamentId/start - Start a tournament
+ * - GET /api/tournaments/:tournamentId/standings - Get the standings table
+ * - GET /api/tournaments/:tournamentId/bracket - Get the rounds and matches
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { TournamentService } from '@application/services/TournamentService';
+import { TournamentStatus } from '@domain/models';
+import { createConditionalAuth } from './auth/conditionalAuth';
+import { AuthenticatedRequest } from './auth/types';
+
+/**
+ * Creates tournament routes
+ * The acting user is the authenticated user, or body.playerId/playerName when auth is disabled.
+ * @param tournamentService - Service for running tournaments
+ * @param options - Configuration options for routes
+ * @returns Express router with tournament routes
+ */
+export function createTournamentRoutes(
+  tournamentService: TournamentService,
+  options: { disableAuth?: boolean } = {}
+): Router {
+  const router = Router();
+  const conditionalAuth = createConditionalAuth(!options.disableAuth);
+
+  /**
+   * Resolve the user making the request
+   * Sends a 400 response and returns null when no user is given.
+   */
+  const getActingPlayer = (
+    req: AuthenticatedRequest,
+    res: Response
+  ): { id: string; name: string } | null => {
+    const playerId = req.user?.id ?? req.body?.playerId;
+    if (!playerId || typeof playerId !== 'string') {
+      res.status(400).json({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'playerId is required',
+        },
+      });
+      return null;
+    }
+    return { id: playerId, name: req.user?.username ?? req.body?.playerName ?? playerId };
+  };
+
+  /**
+   * POST /api/tournaments
+   * Create a tournament open for registration
+   * Request body:
+   * - name: string (required)
+   * - gameType: string (required)
+   * - format: 'round_robin' | 'swiss' | 'knockout' (required)
+   * - rounds: number (optional, Swiss only)
+   * - customSettings: object (optional) - Settings for every game
+   */
+  router.post(
+    '/tournaments',
+    conditionalAuth,
+    async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+      try {
+        const organiser = getActingPlayer(req, res);
+        if (!organiser) {
+          return;
+        }
+
+        const { name, gameType, format, rounds, customSettings } = req.body;
+
+        if (!name || typeof name !== 'string') {
+          res.status(400).json({
+            error: {
+              code: 'VALIDATION_ERROR',
+              message: 'name is required',
+            },
+          });
+          return;
+        }
+
+        if (!gameType || typeof gameType !== 'string') {
+          res.status(400).json({
+            error: {
+              code: 'VALIDATION_ERROR',
+              message: 'gameType is required',
+            },
+          });
+          return;
+        }
+
+        if (
+          customSettings !== undefined &&
+          (customSettings === null ||
+            typeof customSettings !== 'object' ||
+            Array.isArray(customSettings))
+        ) {
+          res.status(400).json({
+            error: {
+              code: 'VALIDATION_ERROR',
+              message: 'customSettings must be an object',
+            },
+          });
+          return;
+        }
+
+        const tournament = await tournamentService.createTournament(
+          { name, gameType, format, rounds, customSettings },
+          { id: organiser.id, username: organiser.name }
+        );
+        res.status(201).json(tournament);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  /**
+   * GET /api/tournaments
+   * List tournaments, newest first
+   * Query parameters:
+   * - status: Filter by status (optional)
+   */
+  router.get('/tournaments', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const status = req.query.status as string | undefined;
+      if (status && !Object.values(TournamentStatus).includes(status as TournamentStatus)) {
+        res.status(400).json({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: `status must be one of: ${Object.values(TournamentStatus).join(', ')}`,
+          },
+        });
+        return;
+      }
+
+      const tournaments = await tournamentService.listTournaments(
+        status as TournamentStatus | undefined
+      );
+      res.json(tournaments);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * GET /api/tournaments/:tournamentId
+   * Get a tournament with its participants and rounds
+   */
+  router.get(
+    '/tournaments/:tournamentId',
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const tournament = await tournamentService.getTournament(req.params.tournamentId);
+        res.json(tournament);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  /**
+   * POST /api/tournaments/:tournamentId/join
+   * Register the acting user for a tournament
+   */
+  router.post(
+    '/tournaments/:tournamentId/join',
+    conditionalAuth,
+    async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+      try {
+        const player = getActingPlayer(req, res);
+        if (!player) {
+          return;
+        }
+
+        const tournament = await tournamentService.joinTournament(req.params.tournamentId, player);
+        res.json(tournament);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  /**
+   * POST /api/tournaments/:tournamentId/start
+   * Close registration and create the first round's games
+   * Only the organiser may start a tournament
+   */
+  router.post(
+    '/tournaments/:tournamentId/start',
+    conditionalAuth,
+    async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+      try {
+        const player = getActingPlayer(req, res);
+        if (!player) {
+          return;
+        }
+
+        const tournament = await tournamentService.startTournament(
+          req.params.tournamentId,
+          player.id
+        );
+        res.json(tournament);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  /**
+   * GET /api/tournaments/:tournamentId/standings
+   * Get the standings table, best first
+   */
+  router.get(
+    '/tournaments/:tournamentId/standings',
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const standings = await tournamentService.getStandings(req.params.tournamentId);
+        res.json(standings);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  /**
+   * GET /api/tournaments/:tournamentId/bracket
+   * Get every round's matches with player names
+   */
+  router.get(
+    '/tournaments/:tournamentId/bracket',
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const bracket = await tournamentService.getBracket(req.params.tournamentId);
+        res.json(bracket);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  return router;
+}
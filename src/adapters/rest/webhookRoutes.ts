@@ -0,0 +1,213 @@
+/**
+ * Webhook Routes
+ * REST API endpoints for registering webhooks and reading their delivery log
+ *
+ * Endpoints:
+ * - POST /api/webhooks - Register a webhook
+ * - GET /api/webhooks - List your webhooks
+ * - GET /api/webhooks/:webhookId - Get one of your webhooks
+ * - DELETE /api/webhooks/:webhookId - Delete one of your webhooks
+ * - GET /api/webhooks/:webhookId/deliveries - Get a webhook's delivery log
+ * - GET /api/admin/webhooks - List every webhook (admin only)
+ * - DELETE /api/admin/webhooks/:webhookId - Delete any webhook (admin only)
+ * - GET /api/admin/webhooks/:webhookId/deliveries - Get any webhook's delivery log (admin only)
+ *
+ * The signing secret is only returned when the webhook is registered.
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { WebhookService } from '@application/services/WebhookService';
+import { requireAuth } from './auth/requireAuth';
+import { requireAdmin } from './auth/requireAdmin';
+import { AuthenticatedRequest } from './auth/types';
+
+const DEFAULT_DELIVERY_LIMIT = 50;
+const MAX_DELIVERY_LIMIT = 200;
+
+/**
+ * Read the optional delivery log limit from the query string
+ * Sends a 400 response and returns null when the limit is not a positive integer.
+ */
+function getDeliveryLimit(req: Request, res: Response): number | null {
+  if (req.query.limit === undefined) {
+    return DEFAULT_DELIVERY_LIMIT;
+  }
+
+  const limit = Number(req.query.limit);
+  if (!Number.isInteger(limit) || limit < 1) {
+    res.status(400).json({
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: 'limit must be a positive integer',
+      },
+    });
+    return null;
+  }
+
+  return Math.min(limit, MAX_DELIVERY_LIMIT);
+}
+
+/**
+ * Creates webhook routes
+ * @param webhookService - Service for registering webhooks
+ * @returns Express router with webhook routes
+ */
+export function createWebhookRoutes(webhookService: WebhookService): Router {
+  const router = Router();
+
+  router.use('/admin/webhooks', requireAuth, requireAdmin);
+
+  /**
+   * POST /api/webhooks
+   * Register a webhook
+   * Request body:
+   * - url: string (required) - http(s) endpoint that receives the events
+   * - eventTypes: string[] (optional) - Events to send; defaults to every event
+   * - gameId: string (optional) - Only send events for this game
+   * - gameType: string (optional) - Only send events for games of this type
+   */
+  router.post(
+    '/webhooks',
+    requireAuth,
+    async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+      try {
+        const { url, eventTypes, gameId, gameType } = req.body ?? {};
+        const webhook = await webhookService.register(req.user!.id, {
+          url,
+          eventTypes,
+          gameId,
+          gameType,
+        });
+        res.status(201).json(webhook);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  /**
+   * GET /api/webhooks
+   * List the user's webhooks, oldest first
+   */
+  router.get(
+    '/webhooks',
+    requireAuth,
+    async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+      try {
+        res.json(await webhookService.listWebhooks(req.user!.id));
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  /**
+   * GET /api/webhooks/:webhookId
+   * Get one of the user's webhooks
+   */
+  router.get(
+    '/webhooks/:webhookId',
+    requireAuth,
+    async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+      try {
+        res.json(await webhookService.getWebhook(req.params.webhookId, req.user!.id, false));
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  /**
+   * DELETE /api/webhooks/:webhookId
+   * Delete one of the user's webhooks
+   */
+  router.delete(
+    '/webhooks/:webhookId',
+    requireAuth,
+    async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+      try {
+        await webhookService.deleteWebhook(req.params.webhookId, req.user!.id, false);
+        res.status(204).send();
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  /**
+   * GET /api/webhooks/:webhookId/deliveries
+   * Get the webhook's most recent deliveries, newest first
+   * Query parameters:
+   * - limit: Maximum number of deliveries (optional, default 50, max 200)
+   */
+  router.get(
+    '/webhooks/:webhookId/deliveries',
+    requireAuth,
+    async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+      try {
+        const limit = getDeliveryLimit(req, res);
+        if (limit === null) {
+          return;
+        }
+
+        res.json(
+          await webhookService.getDeliveries(req.params.webhookId, req.user!.id, false, limit)
+        );
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  /**
+   * GET /api/admin/webhooks
+   * List every user's webhooks, oldest first
+   */
+  router.get('/admin/webhooks', async (_req: Request, res: Response, next: NextFunction) => {
+    try {
+      res.json(await webhookService.listWebhooks());
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * DELETE /api/admin/webhooks/:webhookId
+   * Delete any webhook
+   */
+  router.delete(
+    '/admin/webhooks/:webhookId',
+    async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+      try {
+        await webhookService.deleteWebhook(req.params.webhookId, req.user!.id, true);
+        res.status(204).send();
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  /**
+   * GET /api/admin/webhooks/:webhookId/deliveries
+   * Get any webhook's most recent deliveries, newest first
+   */
+  router.get(
+    '/admin/webhooks/:webhookId/deliveries',
+    async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+      try {
+        const limit = getDeliveryLimit(req, res);
+        if (limit === null) {
+          return;
+        }
+
+        res.json(
+          await webhookService.getDeliveries(req.params.webhookId, req.user!.id, true, limit)
+        );
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  return router;
+}
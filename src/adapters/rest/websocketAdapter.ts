@@ -8,6 +8,7 @@ import WebSocket, { WebSocketServer } from 'ws';
 import { parse as parseUrl } from 'url';
 import { IWebSocketService, WebSocketMessageType } from '@domain/interfaces/IWebSocketService';
 import { PlayerIdentityRepository } from '@domain/interfaces/PlayerIdentityRepository';
+import { GameManagerService, GameViewerRole } from '@application/services/GameManagerService';
 import { getLogger } from '@infrastructure/logging/Logger';
 import { JwtValidator } from '@infrastructure/auth/JwtValidator';
 import { randomBytes } from 'crypto';
@@ -26,6 +27,7 @@ interface ClientMessage {
 interface ServerResponseMessage {
   type: 'subscribed' | 'unsubscribed' | 'error';
   gameId?: string;
+  role?: GameViewerRole;
   message?: string;
   timestamp?: Date;
 }
@@ -37,12 +39,15 @@ interface ServerResponseMessage {
  * @param httpServer - HTTP server instance
  * @param wsManager - WebSocket manager instance
  * @param playerIdentityRepo - Player identity repository for authentication
+ * @param gameManagerService - Optional game manager used to tell players and observers apart;
+ *   without it every subscriber is treated as a player
  * @returns WebSocket server instance
  */
 export function setupWebSocketServer(
   httpServer: HttpServer,
   wsManager: IWebSocketService,
-  playerIdentityRepo: PlayerIdentityRepository
+  playerIdentityRepo: PlayerIdentityRepository,
+  gameManagerService?: GameManagerService
 ): WebSocketServer {
   const logger = getLogger();
   const jwtValidator = new JwtValidator();
@@ -173,18 +178,37 @@ export function setupWebSocketServer(
               return;
             }
 
-            wsManager.subscribe(userId, message.gameId);
-
-            sendResponse(ws, {
-              type: 'subscribed',
-              gameId: message.gameId,
-              timestamp: new Date(),
-            });
-
-            logger.info('User subscribed to game', {
-              userId,
-              gameId: message.gameId,
-            });
+            {
+              // Non-participants follow the game as observers, subject to its spectator policy
+              let role: GameViewerRole = 'player';
+              if (gameManagerService) {
+                try {
+                  role = await gameManagerService.getViewerRole(message.gameId, userId);
+                } catch (error) {
+                  sendError(ws, error instanceof Error ? error.message : String(error));
+                  return;
+                }
+              }
+
+              if (role === 'observer') {
+                wsManager.observe(userId, message.gameId);
+              } else {
+                wsManager.subscribe(userId, message.gameId);
+              }
+
+              sendResponse(ws, {
+                type: 'subscribed',
+                gameId: message.gameId,
+                role,
+                timestamp: new Date(),
+              });
+
+              logger.info('User subscribed to game', {
+                userId,
+                gameId: message.gameId,
+                role,
+              });
+            }
             break;
 
           case 'unsubscribe':
@@ -195,6 +219,7 @@ export function setupWebSocketServer(
             }
 
             wsManager.unsubscribe(userId, message.gameId);
+            wsManager.unobserve(userId, message.gameId);
 
             sendResponse(ws, {
               type: 'unsubscribed',
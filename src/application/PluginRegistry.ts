@@ -1,4 +1,5 @@
 import { GameEnginePlugin } from '@domain/interfaces';
+import { GameSettingsSchema } from '@domain/models';
 
 /**
  * Information about a registered game type
@@ -9,7 +10,7 @@ export interface GameTypeInfo {
   description: string;
   minPlayers: number;
   maxPlayers: number;
-  configSchema?: object;
+  configSchema?: GameSettingsSchema;
 }
 
 /**
@@ -61,6 +62,7 @@ export class PluginRegistry {
         description: plugin.getDescription(),
         minPlayers: plugin.getMinPlayers(),
         maxPlayers: plugin.getMaxPlayers(),
+        configSchema: plugin.getConfigSchema?.(),
       });
     }
 
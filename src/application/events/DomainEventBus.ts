@@ -0,0 +1,76 @@
+import { DomainEventHandler, IDomainEventBus } from '@domain/interfaces';
+import { DomainEvent, DomainEventType } from '@domain/models';
+import { Logger } from '@infrastructure/logging/Logger';
+
+/**
+ * A registered handler and the name its failures are logged under
+ */
+interface Subscription {
+  name: string;
+  handler: (event: DomainEvent) => void | Promise<void>;
+}
+
+/**
+ * In-process domain event bus
+ * Handlers for an event run concurrently. Each one is isolated: a handler that throws
+ * or rejects is logged and neither stops the others nor fails the publisher.
+ */
+export class DomainEventBus implements IDomainEventBus {
+  private readonly subscriptions = new Map<DomainEventType, Subscription[]>();
+  private readonly logger: Logger;
+
+  constructor(logger?: Logger) {
+    this.logger = logger || new Logger('info', 'json');
+  }
+
+  /**
+   * Subscribe to one type of event
+   * @returns Function that removes the subscription
+   */
+  subscribe<T extends DomainEventType>(
+    type: T,
+    handler: DomainEventHandler<T>,
+    name: string = handler.name || 'anonymous'
+  ): () => void {
+    const subscription: Subscription = {
+      name,
+      handler: handler as (event: DomainEvent) => void | Promise<void>,
+    };
+    this.subscriptions.set(type, [...(this.subscriptions.get(type) ?? []), subscription]);
+
+    return () => {
+      const remaining = (this.subscriptions.get(type) ?? []).filter((s) => s !== subscription);
+      this.subscriptions.set(type, remaining);
+    };
+  }
+
+  /**
+   * Publish an event to every subscriber of its type
+   * Resolves once every handler has finished; never rejects.
+   */
+  async publish(event: DomainEvent): Promise<void> {
+    const subscriptions = this.subscriptions.get(event.type) ?? [];
+
+    await Promise.all(
+      subscriptions.map(async ({ name, handler }) => {
+        try {
+          await handler(event);
+        } catch (error) {
+          this.logger.error('Domain event handler failed', {
+            eventType: event.type,
+            handler: name,
+            gameId: event.game.gameId,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+      })
+    );
+  }
+
+  /**
+   * Number of handlers subscribed to a type of event
+   */
+  getSubscriberCount(type: DomainEventType): number {
+    return this.subscriptions.get(type)?.length ?? 0;
+  }
+}
@@ -0,0 +1,120 @@
+import { IDomainEventBus } from '@domain/interfaces';
+import { DomainEventType, GameLifecycle, GameState } from '@domain/models';
+import { NotificationService } from '@application/services/NotificationService';
+import { Logger } from '@infrastructure/logging/Logger';
+
+/**
+ * Notifies players through their notification channels about turns, invitations and results
+ * Turn notifications wait out a delay so a player who replies quickly is not notified,
+ * and are cleared as soon as the player moves. AI players are never notified.
+ */
+export class NotificationEventHandler {
+  private readonly logger: Logger;
+
+  /**
+   * @param turnDelayMs - How long a player can be on turn before they are notified
+   */
+  constructor(
+    private notificationService: NotificationService,
+    private turnDelayMs: number = 0,
+    logger?: Logger
+  ) {
+    this.logger = logger || new Logger('info', 'json');
+  }
+
+  /**
+   * Subscribe to the events players are notified about
+   */
+  register(bus: IDomainEventBus): void {
+    bus.subscribe(
+      DomainEventType.MOVE_APPLIED,
+      (event) => this.notificationService.clearTurnNotification(event.playerId, event.game.gameId),
+      'notification.moveApplied'
+    );
+    bus.subscribe(
+      DomainEventType.TURN_CHANGED,
+      async ({ game, previousPlayerId, currentPlayerId }) => {
+        if (previousPlayerId) {
+          await this.notificationService.clearTurnNotification(previousPlayerId, game.gameId);
+        }
+        if (this.isPlayedByAI(game, currentPlayerId)) {
+          return;
+        }
+
+        const notified = this.notificationService.notifyTurn(
+          currentPlayerId,
+          game.gameId,
+          this.turnDelayMs
+        );
+        if (this.turnDelayMs === 0) {
+          await notified;
+          return;
+        }
+
+        // A delayed notification resolves only once sent, so waiting would hold up the move
+        notified.catch((error) => {
+          this.logger.error('Failed to send turn notification', {
+            userId: currentPlayerId,
+            gameId: game.gameId,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        });
+      },
+      'notification.turn'
+    );
+    bus.subscribe(
+      DomainEventType.GAME_COMPLETED,
+      async ({ game, winner }) => {
+        await this.clearTurnNotifications(game);
+        await Promise.all(
+          game.players
+            .filter((player) => player.metadata?.isAI !== true)
+            .map((player) =>
+              this.notificationService.notifyGameComplete(player.id, game.gameId, winner)
+            )
+        );
+      },
+      'notification.gameComplete'
+    );
+    bus.subscribe(
+      DomainEventType.GAME_UPDATED,
+      async ({ game }) => {
+        if (game.lifecycle === GameLifecycle.ABANDONED) {
+          await this.clearTurnNotifications(game);
+        }
+      },
+      'notification.gameAbandoned'
+    );
+    bus.subscribe(
+      DomainEventType.INVITATION_SENT,
+      (event) =>
+        this.notificationService.notifyInvitation(
+          event.invitation.inviteeId,
+          event.game.gameId,
+          event.invitation.invitationId,
+          event.inviterName
+        ),
+      'notification.invitation'
+    );
+  }
+
+  /**
+   * Clear every player's turn notification for a game that has ended
+   */
+  private async clearTurnNotifications(game: GameState): Promise<void> {
+    await Promise.all(
+      game.players.map((player) =>
+        this.notificationService.clearTurnNotification(player.id, game.gameId)
+      )
+    );
+  }
+
+  /**
+   * Whether a seat is played by an AI, either an AI player or a human seat taken over
+   * after a timeout; nobody is waiting for a notification about its turns
+   */
+  private isPlayedByAI(game: GameState, playerId: string): boolean {
+    const player = game.players.find((p) => p.id === playerId);
+    return player?.metadata?.isAI === true || player?.metadata?.aiTakeover !== undefined;
+  }
+}
@@ -0,0 +1,25 @@
+import { IDomainEventBus } from '@domain/interfaces';
+import { DomainEventType } from '@domain/models';
+import { RatingService } from '@application/services/RatingService';
+
+/**
+ * Updates player ratings when a rated game completes
+ */
+export class RatingEventHandler {
+  constructor(private ratingService: RatingService) {}
+
+  /**
+   * Subscribe to game results
+   */
+  register(bus: IDomainEventBus): void {
+    bus.subscribe(
+      DomainEventType.GAME_COMPLETED,
+      async (event) => {
+        if (event.rated) {
+          await this.ratingService.recordGameResult(event.game);
+        }
+      },
+      'rating.gameComplete'
+    );
+  }
+}
@@ -0,0 +1,32 @@
+import { IDomainEventBus } from '@domain/interfaces';
+import { DomainEventType, GameLifecycle } from '@domain/models';
+import { TournamentService } from '@application/services/TournamentService';
+
+/**
+ * Lets the tournament a game belongs to know that the game has ended
+ */
+export class TournamentEventHandler {
+  constructor(private tournamentService: TournamentService) {}
+
+  /**
+   * Subscribe to completed and abandoned games
+   */
+  register(bus: IDomainEventBus): void {
+    bus.subscribe(
+      DomainEventType.GAME_COMPLETED,
+      async (event) => {
+        await this.tournamentService.recordGameResult(event.game);
+      },
+      'tournament.gameComplete'
+    );
+    bus.subscribe(
+      DomainEventType.GAME_UPDATED,
+      async (event) => {
+        if (event.game.lifecycle === GameLifecycle.ABANDONED) {
+          await this.tournamentService.recordGameResult(event.game);
+        }
+      },
+      'tournament.gameAbandoned'
+    );
+  }
+}
@@ -0,0 +1,116 @@
+import { PluginRegistry } from '@application/PluginRegistry';
+import { IDomainEventBus } from '@domain/interfaces';
+import {
+  IWebSocketService,
+  WebSocketMessageType,
+  GameUpdateMessage,
+  GameCompleteMessage,
+  InvitationMessage,
+} from '@domain/interfaces/IWebSocketService';
+import { DomainEventType, GameLifecycle, GameState } from '@domain/models';
+import { getGameClock, getClockStatus } from '@domain/game-utils/TurnClock';
+import { toGameView } from '@domain/game-utils/GameView';
+
+/**
+ * Pushes game changes to connected clients over WebSocket
+ */
+export class WebSocketEventHandler {
+  constructor(
+    private webSocketService: IWebSocketService,
+    private registry: PluginRegistry
+  ) {}
+
+  /**
+   * Subscribe to the events clients are told about
+   */
+  register(bus: IDomainEventBus): void {
+    bus.subscribe(
+      DomainEventType.GAME_UPDATED,
+      (event) => this.broadcastGameUpdate(event.game),
+      'websocket.gameUpdate'
+    );
+    bus.subscribe(
+      DomainEventType.PLAYER_JOINED,
+      (event) => this.broadcastGameUpdate(event.game),
+      'websocket.playerJoined'
+    );
+    bus.subscribe(
+      DomainEventType.GAME_COMPLETED,
+      (event) => this.broadcastGameComplete(event.game.gameId, event.winner),
+      'websocket.gameComplete'
+    );
+    bus.subscribe(
+      DomainEventType.INVITATION_SENT,
+      (event) => {
+        const message: InvitationMessage = {
+          type: WebSocketMessageType.INVITATION,
+          invitationId: event.invitation.invitationId,
+          gameId: event.game.gameId,
+          inviterName: event.inviterName,
+          timestamp: new Date(),
+        };
+        return this.webSocketService.sendToUser(event.invitation.inviteeId, message);
+      },
+      'websocket.invitation'
+    );
+  }
+
+  /**
+   * Broadcast a game's new state, with AI indicators and the turn deadline, to its subscribers
+   * Each subscriber gets the view of the game they may see: players their player view,
+   * observers the spectator view.
+   */
+  private async broadcastGameUpdate(game: GameState): Promise<void> {
+    const plugin = this.registry.get(game.gameType);
+    const message: GameUpdateMessage = {
+      type: WebSocketMessageType.GAME_UPDATE,
+      gameId: game.gameId,
+      gameState: this.enhanceGameWithAIInfo(toGameView(plugin, game, null)),
+      timestamp: new Date(),
+    };
+
+    // Include the turn deadline for timed games that are still in progress
+    const clock = getGameClock(game);
+    if (clock && game.lifecycle === GameLifecycle.ACTIVE) {
+      message.clock = getClockStatus(clock);
+    }
+
+    await this.webSocketService.broadcastToGame(game.gameId, message, (userId) => ({
+      ...message,
+      gameState: this.enhanceGameWithAIInfo(toGameView(plugin, game, userId)),
+    }));
+  }
+
+  /**
+   * Broadcast game completion to a game's subscribers
+   * @param winner - The winner player ID (null for draw)
+   */
+  private async broadcastGameComplete(gameId: string, winner: string | null): Promise<void> {
+    const message: GameCompleteMessage = {
+      type: WebSocketMessageType.GAME_COMPLETE,
+      gameId,
+      winner,
+      timestamp: new Date(),
+    };
+
+    await this.webSocketService.broadcastToGame(gameId, message);
+  }
+
+  /**
+   * Enhance a game state with AI player information
+   * @param game - The game state to enhance
+   * @returns Enhanced game state with AI indicators
+   */
+  private enhanceGameWithAIInfo(game: GameState): GameState {
+    const aiPlayerCount = game.players.filter((player) => player.metadata?.isAI === true).length;
+
+    return {
+      ...game,
+      metadata: {
+        ...game.metadata,
+        hasAIPlayers: aiPlayerCount > 0,
+        aiPlayerCount,
+      },
+    };
+  }
+}
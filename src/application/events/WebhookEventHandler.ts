@@ -0,0 +1,71 @@
+import { IDomainEventBus } from '@domain/interfaces';
+import { DomainEventType, WebhookEventType } from '@domain/models';
+import { WebhookService } from '@application/services/WebhookService';
+
+/**
+ * Records webhook deliveries for game events
+ */
+export class WebhookEventHandler {
+  constructor(private webhookService: WebhookService) {}
+
+  /**
+   * Subscribe to the events webhooks can receive
+   */
+  register(bus: IDomainEventBus): void {
+    bus.subscribe(
+      DomainEventType.GAME_CREATED,
+      async ({ game, creatorId }) => {
+        await this.webhookService.publish(WebhookEventType.GAME_CREATED, game, {
+          creatorId,
+          players: game.players.map((p) => p.id),
+          lifecycle: game.lifecycle,
+        });
+      },
+      'webhook.gameCreated'
+    );
+    bus.subscribe(
+      DomainEventType.MOVE_APPLIED,
+      async ({ game, playerId, move }) => {
+        await this.webhookService.publish(WebhookEventType.MOVE_APPLIED, game, {
+          playerId,
+          move,
+          version: game.version,
+        });
+      },
+      'webhook.moveApplied'
+    );
+    bus.subscribe(
+      DomainEventType.TURN_CHANGED,
+      async ({ game, previousPlayerId, currentPlayerId }) => {
+        await this.webhookService.publish(WebhookEventType.TURN_CHANGED, game, {
+          previousPlayerId,
+          currentPlayerId,
+          version: game.version,
+        });
+      },
+      'webhook.turnChanged'
+    );
+    bus.subscribe(
+      DomainEventType.GAME_COMPLETED,
+      async ({ game, winner, isDraw }) => {
+        await this.webhookService.publish(WebhookEventType.GAME_COMPLETED, game, {
+          winner,
+          isDraw,
+          version: game.version,
+        });
+      },
+      'webhook.gameCompleted'
+    );
+    bus.subscribe(
+      DomainEventType.INVITATION_SENT,
+      async ({ game, invitation }) => {
+        await this.webhookService.publish(WebhookEventType.INVITATION_CREATED, game, {
+          invitationId: invitation.invitationId,
+          inviterId: invitation.inviterId,
+          inviteeId: invitation.inviteeId,
+        });
+      },
+      'webhook.invitationCreated'
+    );
+  }
+}
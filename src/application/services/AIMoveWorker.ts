@@ -0,0 +1,140 @@
+import { PluginRegistry } from '@application/PluginRegistry';
+import { AIPlayerService } from '@application/services/AIPlayerService';
+import { StateManagerService } from '@application/services/StateManagerService';
+import { GameRepository, IAIMoveQueue } from '@domain/interfaces';
+import {
+  AIMoveJob,
+  GameState,
+  GameLifecycle,
+  AI_MOVE_MAX_ATTEMPTS,
+  createAIMoveJob,
+  getAIMoveRetryDelayMs,
+} from '@domain/models';
+import { Logger } from '@infrastructure/logging/Logger';
+import { IntervalWorker } from '@infrastructure/scheduling/IntervalWorker';
+
+/**
+ * Background worker that plays queued AI turns
+ * Each job plays a single move within the strategy's time limit, so games take turns
+ * and an AI-vs-AI game is played to completion one move per pass. Failed moves are
+ * retried with exponential backoff; results reach players over WebSocket.
+ */
+export class AIMoveWorker {
+  private static readonly BATCH_SIZE = 50;
+  private readonly logger: Logger;
+  private readonly worker: IntervalWorker;
+
+  constructor(
+    private queue: IAIMoveQueue,
+    private repository: GameRepository,
+    private registry: PluginRegistry,
+    private aiPlayerService: AIPlayerService,
+    private stateManagerService: StateManagerService,
+    logger?: Logger
+  ) {
+    this.logger = logger || new Logger('info', 'json');
+    this.worker = new IntervalWorker(this.logger, 'AI move worker pass failed');
+  }
+
+  /**
+   * Start processing queued jobs on a fixed interval
+   * @param intervalMs - How often to look for due jobs
+   */
+  start(intervalMs: number): void {
+    this.worker.start(intervalMs, () => this.processJobs());
+  }
+
+  /**
+   * Stop the worker
+   */
+  stop(): void {
+    this.worker.stop();
+  }
+
+  /**
+   * Run every job that is due
+   * @param now - Current time (defaults to now)
+   * @returns Number of AI moves played
+   */
+  async processJobs(now: Date = new Date()): Promise<number> {
+    return this.worker.runExclusive(async () => {
+      const jobs = await this.queue.takeDue(now, AIMoveWorker.BATCH_SIZE);
+      let played = 0;
+
+      for (const job of jobs) {
+        if (await this.processJob(job, now)) {
+          played++;
+        }
+      }
+
+      return played;
+    }, 0);
+  }
+
+  /**
+   * Play the move a job is waiting for, queueing the next AI turn or a retry
+   * @returns true if a move was played
+   */
+  private async processJob(job: AIMoveJob, now: Date): Promise<boolean> {
+    try {
+      const game = await this.repository.findById(job.gameId);
+      const aiPlayerId = game ? await this.getAIPlayerOnTurn(game) : null;
+      if (!aiPlayerId) {
+        // The game ended, was deleted or is waiting on a human player
+        return false;
+      }
+
+      const updated = await this.stateManagerService.playAITurn(job.gameId, aiPlayerId);
+
+      if (await this.getAIPlayerOnTurn(updated)) {
+        await this.queue.enqueue(createAIMoveJob(job.gameId, now));
+      }
+
+      return true;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const attempts = job.attempts + 1;
+
+      if (attempts >= AI_MOVE_MAX_ATTEMPTS) {
+        this.logger.error('AI move failed, giving up', {
+          gameId: job.gameId,
+          attempts,
+          error: message,
+        });
+        return false;
+      }
+
+      const retryInMs = getAIMoveRetryDelayMs(attempts);
+      this.logger.warn('AI move failed, retrying', {
+        gameId: job.gameId,
+        attempts,
+        retryInMs,
+        error: message,
+      });
+      await this.queue.enqueue({
+        ...job,
+        attempts,
+        runAt: new Date(now.getTime() + retryInMs),
+        lastError: message,
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Get the AI player whose turn it is in an active game
+   * @returns The AI player's ID, or null if the game is over or a human is on turn
+   */
+  private async getAIPlayerOnTurn(game: GameState): Promise<string | null> {
+    if (game.lifecycle !== GameLifecycle.ACTIVE) {
+      return null;
+    }
+
+    const currentPlayerId = this.registry.get(game.gameType)?.getCurrentPlayer(game);
+    if (!currentPlayerId || !(await this.aiPlayerService.isAIPlayer(currentPlayerId))) {
+      return null;
+    }
+
+    return currentPlayerId;
+  }
+}
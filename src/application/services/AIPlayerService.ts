@@ -12,6 +12,7 @@ import {
   GameNotFoundError,
   InvalidMoveError,
 } from '@domain/errors';
+import { syncGameClock } from '@domain/game-utils/TurnClock';
 import { Logger } from '@infrastructure/logging/Logger';
 
 /**
@@ -181,6 +182,44 @@ export class AIPlayerService {
     return aiPlayer !== null;
   }
 
+  /**
+   * Re-register AI seats of a game that are missing from the repository
+   * AI players created while the repository was in-memory only were lost on restart;
+   * the seat's player metadata still records the strategy to recreate them with.
+   * @param gameState Game whose AI seats should be checked
+   * @returns Number of AI players restored
+   */
+  async restoreAIPlayers(gameState: GameState): Promise<number> {
+    let restored = 0;
+
+    for (const player of gameState.players) {
+      const metadata = player.metadata;
+      if (metadata?.isAI !== true || typeof metadata.strategyId !== 'string') {
+        continue;
+      }
+      if (await this.aiRepository.exists(player.id)) {
+        continue;
+      }
+
+      await this.aiRepository.create({
+        id: player.id,
+        name: player.name,
+        gameType: gameState.gameType,
+        strategyId: metadata.strategyId,
+        difficulty: metadata.difficulty,
+        configuration: metadata.configuration,
+      });
+      this.logger.info('Restored AI player from game state', {
+        gameId: gameState.gameId,
+        aiPlayerId: player.id,
+        strategyId: metadata.strategyId,
+      });
+      restored++;
+    }
+
+    return restored;
+  }
+
   /**
    * Get AI strategies available for a game type
    * @param gameType Game type
@@ -337,8 +376,11 @@ export class AIPlayerService {
           while (invalidMoveAttempts < this.MAX_INVALID_MOVE_RETRIES) {
             const validation = plugin.validateMove(gameState, aiPlayerId, move);
             if (validation.valid) {
-              // Apply the valid move
-              const updatedState = plugin.applyMove(gameState, aiPlayerId, move);
+              // Apply the valid move and hand the clock to the next player
+              let updatedState = plugin.applyMove(gameState, aiPlayerId, move);
+              if (updatedState.metadata?.timeControl && !plugin.isGameOver(updatedState)) {
+                updatedState = syncGameClock(updatedState, plugin.getCurrentPlayer(updatedState));
+              }
 
               // Save updated state to repository
               await this.gameRepository.update(gameId, updatedState, gameState.version);
@@ -1,8 +1,43 @@
 import { PluginRegistry } from '@application/PluginRegistry';
+import { GameLockManager } from '@application/GameLockManager';
 import { AIPlayerService } from '@application/services/AIPlayerService';
-import { GameRepository, GameConfig, GameFilters, PaginatedResult } from '@domain/interfaces';
-import { GameState, Player, GameLifecycle } from '@domain/models';
-import { GameNotFoundError, GameFullError } from '@domain/errors';
+import {
+  GameRepository,
+  GameConfig,
+  GameFilters,
+  PaginatedResult,
+  IInvitationRepository,
+  IAIMoveQueue,
+  IDomainEventBus,
+} from '@domain/interfaces';
+import {
+  GameState,
+  Player,
+  Observer,
+  GameLifecycle,
+  TimeoutAction,
+  SpectatorPolicy,
+  InvitationStatus,
+  GameSettingsSchema,
+  createAIMoveJob,
+  DomainEventType,
+} from '@domain/models';
+import {
+  GameNotFoundError,
+  GameFullError,
+  InvalidTimeControlError,
+  InvalidGameSettingsError,
+  InvalidGameActionError,
+  ForbiddenError,
+} from '@domain/errors';
+import {
+  validateTimeControl,
+  syncGameClock,
+  getGameClock,
+  getClockStatus,
+} from '@domain/game-utils/TurnClock';
+import { validateGameSettings } from '@domain/game-utils/GameSettings';
+import { toGameView } from '@domain/game-utils/GameView';
 import { randomUUID } from 'crypto';
 
 /**
@@ -14,7 +49,19 @@ export interface GameTypeInfo {
   description: string;
   minPlayers: number;
   maxPlayers: number;
-  configSchema?: object;
+  configSchema?: GameSettingsSchema;
+}
+
+/**
+ * How a user relates to a game they want to follow
+ */
+export type GameViewerRole = 'player' | 'observer';
+
+/**
+ * Get a game's spectator policy; games created before policies existed allow everyone
+ */
+function getSpectatorPolicy(game: GameState): SpectatorPolicy {
+  return game.metadata?.spectatorPolicy ?? SpectatorPolicy.ALLOW;
 }
 
 /**
@@ -25,7 +72,11 @@ export class GameManagerService {
   constructor(
     private registry: PluginRegistry,
     private repository: GameRepository,
-    private aiPlayerService: AIPlayerService
+    private aiPlayerService: AIPlayerService,
+    private lockManager: GameLockManager = new GameLockManager(),
+    private invitationRepository?: IInvitationRepository,
+    private aiMoveQueue?: IAIMoveQueue,
+    private eventBus?: IDomainEventBus
   ) {}
 
   /**
@@ -37,6 +88,8 @@ export class GameManagerService {
    * @param gameDescription - Optional description for the game
    * @returns The created game state
    * @throws Error if game type is not supported
+   * @throws InvalidTimeControlError if config.timeControl is invalid
+   * @throws InvalidGameSettingsError if config.customSettings does not match the game's schema
    */
   async createGame(
     gameType: string,
@@ -51,6 +104,25 @@ export class GameManagerService {
       throw new Error(`Game type "${gameType}" is not supported`);
     }
 
+    if (config.timeControl !== undefined) {
+      const timeControlError = validateTimeControl(config.timeControl);
+      if (timeControlError) {
+        throw new InvalidTimeControlError(timeControlError);
+      }
+    }
+
+    const configSchema = plugin.getConfigSchema?.();
+    if (configSchema) {
+      const violations = validateGameSettings(configSchema, config.customSettings);
+      if (violations.length > 0) {
+        throw new InvalidGameSettingsError(
+          gameType,
+          violations.map((violation) => violation.message).join('; '),
+          violations
+        );
+      }
+    }
+
     const gameId = randomUUID();
 
     // Handle AI players if provided
@@ -85,15 +157,23 @@ export class GameManagerService {
       ...(creator && { creatorPlayerId: creator.id }),
       ...(gameName && { gameName }),
       ...(gameDescription && { gameDescription }),
+      ...(config.timeControl && {
+        timeControl: {
+          ...config.timeControl,
+          onTimeout: config.timeControl.onTimeout ?? TimeoutAction.FORFEIT,
+        },
+      }),
+      spectatorPolicy: config.spectators ?? SpectatorPolicy.ALLOW,
     };
 
     // Override with our managed fields
-    const gameState: GameState = {
+    let gameState: GameState = {
       ...initialState,
       gameId,
       gameType,
       lifecycle,
       players: allPlayers,
+      observers: [],
       metadata,
       winner: null,
       version: 1,
@@ -101,12 +181,28 @@ export class GameManagerService {
       updatedAt: new Date(),
     };
 
+    // Start the turn clock if the game is timed and already active
+    if (lifecycle === GameLifecycle.ACTIVE && config.timeControl) {
+      gameState = syncGameClock(gameState, plugin.getCurrentPlayer(gameState));
+    }
+
     // Save to repository
     await this.repository.save(gameState);
 
     // Invoke lifecycle hook
     plugin.onGameCreated(gameState, config);
 
+    if (this.eventBus) {
+      await this.eventBus.publish({
+        type: DomainEventType.GAME_CREATED,
+        game: gameState,
+        creatorId: creator?.id ?? null,
+      });
+      if (lifecycle === GameLifecycle.ACTIVE) {
+        await this.publishGameStarted(gameState, plugin.getCurrentPlayer(gameState));
+      }
+    }
+
     // If game is active and first player is AI, process initial AI turn
     let finalGameState = gameState;
     if (lifecycle === GameLifecycle.ACTIVE) {
@@ -176,7 +272,7 @@ export class GameManagerService {
     }
 
     // Update game state
-    const updatedGame: GameState = {
+    let updatedGame: GameState = {
       ...game,
       players: updatedPlayers,
       lifecycle: newLifecycle,
@@ -184,19 +280,33 @@ export class GameManagerService {
       updatedAt: new Date(),
     };
 
+    // Start the turn clock once a timed game becomes active
+    if (newLifecycle === GameLifecycle.ACTIVE && game.metadata?.timeControl) {
+      updatedGame = syncGameClock(updatedGame, plugin.getCurrentPlayer(updatedGame));
+    }
+
     // Save updated state
     await this.repository.update(gameId, updatedGame, game.version);
 
     // Invoke lifecycle hooks
     plugin.onPlayerJoined(updatedGame, player.id);
 
+    if (this.eventBus) {
+      await this.eventBus.publish({
+        type: DomainEventType.PLAYER_JOINED,
+        game: updatedGame,
+        playerId: player.id,
+      });
+    }
+
     // Check if game just transitioned to ACTIVE
     const wasNotActive =
       game.lifecycle === GameLifecycle.CREATED ||
       game.lifecycle === GameLifecycle.WAITING_FOR_PLAYERS;
     if (newLifecycle === GameLifecycle.ACTIVE && wasNotActive) {
       plugin.onGameStarted(updatedGame);
-      
+      await this.publishGameStarted(updatedGame, plugin.getCurrentPlayer(updatedGame));
+
       // Process initial AI turn if needed
       const finalGame = await this.processInitialAITurnIfNeeded(updatedGame);
       return this.enhanceGameWithAIInfo(finalGame);
@@ -207,10 +317,17 @@ export class GameManagerService {
 
   /**
    * List games with optional filtering and pagination
+   * Games the viewer may not spectate are left out of the page, except games still
+   * waiting for players: those have no board or moves yet and must stay findable to
+   * be joined. Counts are the repository's, so a page may hold fewer than pageSize games.
    * @param filters - Filters to apply
-   * @returns Paginated list of games
+   * @param viewerId - The user viewing the games, or null for an anonymous viewer
+   * @returns Paginated list of games as the viewer may see them
    */
-  async listGames(filters: GameFilters): Promise<PaginatedResult<GameState>> {
+  async listGames(
+    filters: GameFilters,
+    viewerId: string | null = null
+  ): Promise<PaginatedResult<GameState>> {
     let result: PaginatedResult<GameState>;
 
     // If playerId filter is provided, use repository's findByPlayer
@@ -221,8 +338,12 @@ export class GameManagerService {
       result = await this.repository.findAll(filters);
     }
 
-    // Enhance games with AI indicators
-    const enhancedGames = result.items.map((game) => this.enhanceGameWithAIInfo(game));
+    const visibleGames = await this.filterVisibleGames(result.items, viewerId);
+
+    // Enhance games with AI indicators and turn deadlines
+    const enhancedGames = visibleGames.map((game) =>
+      this.enhanceGameWithClockInfo(this.enhanceGameWithAIInfo(this.getGameView(game, viewerId)))
+    );
 
     return {
       ...result,
@@ -231,17 +352,268 @@ export class GameManagerService {
   }
 
   /**
-   * Get a game by its ID with AI information enhanced
+   * Keep the games a viewer may see in a game list
+   * The viewer's friends are loaded once for the whole list.
+   */
+  private async filterVisibleGames(
+    games: GameState[],
+    viewerId: string | null
+  ): Promise<GameState[]> {
+    const needsFriends =
+      viewerId !== null &&
+      games.some((game) => getSpectatorPolicy(game) === SpectatorPolicy.FRIENDS);
+    const friendIds = needsFriends ? await this.getFriendIds(viewerId) : new Set<string>();
+
+    const visible: GameState[] = [];
+    for (const game of games) {
+      if (
+        game.lifecycle === GameLifecycle.CREATED ||
+        game.lifecycle === GameLifecycle.WAITING_FOR_PLAYERS ||
+        (viewerId !== null && game.players.some((p) => p.id === viewerId)) ||
+        (await this.canSpectate(game, viewerId, friendIds))
+      ) {
+        visible.push(game);
+      }
+    }
+    return visible;
+  }
+
+  /**
+   * Get a game by its ID with AI and clock information enhanced
    * @param gameId - The game ID to retrieve
-   * @returns The game state with AI information, or null if not found
+   * @param viewerId - The user viewing the game, or null for an anonymous viewer
+   * @returns The game state as the viewer may see it, or null if not found
    */
-  async getGame(gameId: string): Promise<GameState | null> {
+  async getGame(gameId: string, viewerId: string | null = null): Promise<GameState | null> {
     const game = await this.repository.findById(gameId);
     if (!game) {
       return null;
     }
 
-    return this.enhanceGameWithAIInfo(game);
+    return this.enhanceGameWithClockInfo(
+      this.enhanceGameWithAIInfo(this.getGameView(game, viewerId))
+    );
+  }
+
+  /**
+   * Get the part of a game state a viewer may see
+   * Players get the plugin's player view and everyone else its spectator view.
+   * @param game - The full game state
+   * @param viewerId - The user viewing the game, or null for an anonymous viewer
+   * @returns The game state as the viewer may see it
+   */
+  getGameView(game: GameState, viewerId: string | null): GameState {
+    return toGameView(this.registry.get(game.gameType), game, viewerId);
+  }
+
+  /**
+   * Add a user as an observer of a game
+   * Observers receive live updates but never take a seat. Adding an observer
+   * does not bump the game version, so pending moves are not invalidated.
+   * @param gameId - The game ID to observe
+   * @param observer - The user who wants to observe
+   * @returns The updated game state
+   * @throws GameNotFoundError if game not found
+   * @throws ForbiddenError if the game's spectator policy does not admit the user
+   * @throws InvalidGameActionError if the user is a player in the game
+   */
+  async addObserver(gameId: string, observer: { id: string; name: string }): Promise<GameState> {
+    return this.lockManager.withLock(gameId, async () => {
+      const game = await this.repository.findById(gameId);
+      if (!game) {
+        throw new GameNotFoundError(gameId);
+      }
+
+      if (game.players.some((p) => p.id === observer.id)) {
+        throw new InvalidGameActionError('observe', `player ${observer.id} is already in the game`);
+      }
+
+      await this.assertCanSpectate(game, observer.id);
+
+      const observers = game.observers ?? [];
+      if (observers.some((o) => o.id === observer.id)) {
+        return game;
+      }
+
+      const newObserver: Observer = {
+        id: observer.id,
+        name: observer.name,
+        joinedAt: new Date(),
+      };
+
+      return this.repository.update(
+        gameId,
+        { ...game, observers: [...observers, newObserver], updatedAt: new Date() },
+        game.version
+      );
+    });
+  }
+
+  /**
+   * Remove an observer from a game
+   * Removing someone who is not observing is a no-op.
+   * @param gameId - The game ID
+   * @param observerId - The observer's user ID
+   * @returns The updated game state
+   * @throws GameNotFoundError if game not found
+   */
+  async removeObserver(gameId: string, observerId: string): Promise<GameState> {
+    return this.lockManager.withLock(gameId, async () => {
+      const game = await this.repository.findById(gameId);
+      if (!game) {
+        throw new GameNotFoundError(gameId);
+      }
+
+      const observers = game.observers ?? [];
+      if (!observers.some((o) => o.id === observerId)) {
+        return game;
+      }
+
+      return this.repository.update(
+        gameId,
+        {
+          ...game,
+          observers: observers.filter((o) => o.id !== observerId),
+          updatedAt: new Date(),
+        },
+        game.version
+      );
+    });
+  }
+
+  /**
+   * List the observers of a game
+   * @param gameId - The game ID
+   * @returns Observers in the order they joined
+   * @throws GameNotFoundError if game not found
+   */
+  async listObservers(gameId: string): Promise<Observer[]> {
+    const game = await this.repository.findById(gameId);
+    if (!game) {
+      throw new GameNotFoundError(gameId);
+    }
+
+    return game.observers ?? [];
+  }
+
+  /**
+   * Decide whether a user may follow a game, and in which role
+   * Players always follow as players; everyone else follows as an observer if
+   * the game's spectator policy admits them. Anonymous viewers are only admitted
+   * to games that allow everyone.
+   * @param gameId - The game ID
+   * @param userId - The user ID, or null for an anonymous viewer
+   * @returns The user's role
+   * @throws GameNotFoundError if game not found
+   * @throws ForbiddenError if the user is not a player and may not spectate
+   */
+  async getViewerRole(gameId: string, userId: string | null): Promise<GameViewerRole> {
+    const game = await this.repository.findById(gameId);
+    if (!game) {
+      throw new GameNotFoundError(gameId);
+    }
+
+    if (userId !== null && game.players.some((p) => p.id === userId)) {
+      return 'player';
+    }
+
+    await this.assertCanSpectate(game, userId);
+    return 'observer';
+  }
+
+  /**
+   * Check a would-be observer against the game's spectator policy
+   * @throws ForbiddenError if the policy does not admit the user
+   */
+  private async assertCanSpectate(game: GameState, userId: string | null): Promise<void> {
+    if (await this.canSpectate(game, userId)) {
+      return;
+    }
+
+    throw new ForbiddenError(
+      getSpectatorPolicy(game) === SpectatorPolicy.FRIENDS
+        ? 'Only friends of the players may observe this game'
+        : 'This game does not allow observers'
+    );
+  }
+
+  /**
+   * Check whether a game's spectator policy admits a user
+   * Friends are users who share an accepted invitation with one of the players.
+   * @param friendIds - The user's friends, if the caller has already loaded them
+   */
+  private async canSpectate(
+    game: GameState,
+    userId: string | null,
+    friendIds?: Set<string>
+  ): Promise<boolean> {
+    const policy = getSpectatorPolicy(game);
+    if (policy === SpectatorPolicy.ALLOW) {
+      return true;
+    }
+    if (policy !== SpectatorPolicy.FRIENDS || userId === null) {
+      return false;
+    }
+
+    const friends = friendIds ?? (await this.getFriendIds(userId));
+    return game.players.some((p) => friends.has(p.id));
+  }
+
+  /**
+   * Get the users who share an accepted invitation with a user
+   */
+  private async getFriendIds(userId: string): Promise<Set<string>> {
+    if (!this.invitationRepository) {
+      return new Set();
+    }
+
+    const filters = { status: InvitationStatus.ACCEPTED };
+    const [sent, received] = await Promise.all([
+      this.invitationRepository.findByInviter(userId, filters),
+      this.invitationRepository.findByInvitee(userId, filters),
+    ]);
+
+    return new Set([
+      ...sent.map((invitation) => invitation.inviteeId),
+      ...received.map((invitation) => invitation.inviterId),
+    ]);
+  }
+
+  /**
+   * Enhance a timed game with its current deadline and time remaining
+   * @param game - The game state to enhance
+   * @returns Game state with metadata.clockStatus for active timed games
+   */
+  private enhanceGameWithClockInfo(game: GameState): GameState {
+    const clock = getGameClock(game);
+    if (!clock || game.lifecycle !== GameLifecycle.ACTIVE) {
+      return game;
+    }
+
+    return {
+      ...game,
+      metadata: {
+        ...game.metadata,
+        clockStatus: getClockStatus(clock),
+      },
+    };
+  }
+
+  /**
+   * Publish the first turn of a game that has just become active
+   * @param firstPlayerId - The player on turn
+   */
+  private async publishGameStarted(game: GameState, firstPlayerId: string): Promise<void> {
+    if (!this.eventBus) {
+      return;
+    }
+
+    await this.eventBus.publish({
+      type: DomainEventType.TURN_CHANGED,
+      game,
+      previousPlayerId: null,
+      currentPlayerId: firstPlayerId,
+    });
   }
 
   /**
@@ -286,9 +658,18 @@ export class GameManagerService {
       return gameState;
     }
 
+    // Leave the move to the AI move worker when there is one
+    if (this.aiMoveQueue) {
+      await this.aiMoveQueue.enqueue(createAIMoveJob(gameState.gameId));
+      return gameState;
+    }
+
     try {
       // Process AI turn - this will generate, validate, and apply the AI move
-      const updatedState = await this.aiPlayerService.processAITurn(gameState.gameId, currentPlayerId);
+      const updatedState = await this.aiPlayerService.processAITurn(
+        gameState.gameId,
+        currentPlayerId
+      );
       return updatedState;
     } catch (error) {
       // Log error but don't fail game creation
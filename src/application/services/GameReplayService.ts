@@ -0,0 +1,216 @@
+import { PluginRegistry } from '@application/PluginRegistry';
+import { GameRepository, GameEnginePlugin, IGameEventRepository } from '@domain/interfaces';
+import {
+  GameState,
+  GameLifecycle,
+  GameEvent,
+  GameEventType,
+  Move,
+  TimeoutAction,
+  TimeoutRecord,
+  isMetaMove,
+} from '@domain/models';
+import { GameNotFoundError, HistoryUnavailableError, MoveOutOfRangeError } from '@domain/errors';
+import { getGameRandomness } from '@domain/game-utils/FairRandom';
+
+/**
+ * Service for reconstructing past game states from the event log
+ * Replays events through the game plugin, starting from the nearest snapshot.
+ */
+export class GameReplayService {
+  constructor(
+    private repository: GameRepository,
+    private eventRepository: IGameEventRepository,
+    private registry: PluginRegistry
+  ) {}
+
+  /**
+   * Rebuild a game's state as it was after a given number of moves
+   * @param gameId - The game ID
+   * @param moveNumber - Number of moveHistory entries to include (0 is the initial position)
+   * @returns The reconstructed game state
+   * @throws GameNotFoundError if game not found
+   * @throws MoveOutOfRangeError if the game has not reached the requested move
+   * @throws HistoryUnavailableError if the game has no event log and cannot be replayed
+   */
+  async getStateAtMove(gameId: string, moveNumber: number): Promise<GameState> {
+    const game = await this.repository.findById(gameId);
+    if (!game) {
+      throw new GameNotFoundError(gameId);
+    }
+
+    const moveCount = game.moveHistory.length;
+    if (moveNumber < 0 || moveNumber > moveCount) {
+      throw new MoveOutOfRangeError(gameId, moveNumber, moveCount);
+    }
+
+    if (moveNumber === moveCount) {
+      return game;
+    }
+
+    const plugin = this.registry.get(game.gameType);
+    if (!plugin) {
+      throw new Error(`Game type "${game.gameType}" is not supported`);
+    }
+
+    const snapshot = await this.eventRepository.getLatestSnapshot(gameId, moveNumber);
+    const events = await this.eventRepository.getEvents(gameId, snapshot?.sequence ?? 0);
+
+    let state: GameState;
+    let remaining: GameEvent[];
+    if (snapshot) {
+      state = snapshot.state;
+      remaining = events;
+    } else if (events[0]?.type === GameEventType.GAME_CREATED) {
+      state = events[0].payload.state;
+      remaining = events.slice(1);
+    } else {
+      // Games stored before the event log existed only have their move history
+      return this.replayMoveHistory(plugin, game, moveNumber);
+    }
+
+    for (const event of remaining) {
+      if (event.moveNumber > moveNumber) {
+        break;
+      }
+      state = this.applyEvent(plugin, state, event);
+    }
+
+    return state;
+  }
+
+  /**
+   * Rebuild every state a game has been in, one per move
+   * @param gameId - The game ID
+   * @returns States after 0 through moveHistory.length moves; the last is the live game
+   * @throws GameNotFoundError if game not found
+   * @throws HistoryUnavailableError if the game has no event log and cannot be replayed
+   */
+  async getStateHistory(gameId: string): Promise<GameState[]> {
+    const game = await this.repository.findById(gameId);
+    if (!game) {
+      throw new GameNotFoundError(gameId);
+    }
+
+    const plugin = this.registry.get(game.gameType);
+    if (!plugin) {
+      throw new Error(`Game type "${game.gameType}" is not supported`);
+    }
+
+    const moveCount = game.moveHistory.length;
+    const states: GameState[] = [];
+    const events = await this.eventRepository.getEvents(gameId);
+
+    if (events[0]?.type === GameEventType.GAME_CREATED) {
+      let state = events[0].payload.state;
+      let next = 1;
+      for (let move = 0; move < moveCount; move++) {
+        while (next < events.length && events[next].moveNumber <= move) {
+          state = this.applyEvent(plugin, state, events[next++]);
+        }
+        states.push(state);
+      }
+    } else {
+      let state = this.createInitialState(plugin, game);
+      for (const move of game.moveHistory) {
+        states.push(state);
+        state = this.replayMove(plugin, state, move);
+      }
+    }
+
+    states.push(game);
+    return states;
+  }
+
+  /**
+   * Apply a single logged event to a reconstructed state
+   */
+  private applyEvent(plugin: GameEnginePlugin, state: GameState, event: GameEvent): GameState {
+    switch (event.type) {
+      case GameEventType.PLAYER_JOINED: {
+        const { player, lifecycle } = event.payload;
+        const players = state.players.some((p) => p.id === player.id)
+          ? state.players
+          : [...state.players, player];
+        return { ...state, players, lifecycle };
+      }
+      case GameEventType.PLAYER_LEFT: {
+        const { playerId, lifecycle } = event.payload;
+        return { ...state, players: state.players.filter((p) => p.id !== playerId), lifecycle };
+      }
+      case GameEventType.MOVE_APPLIED:
+        return this.replayMove(plugin, state, event.payload.move);
+      case GameEventType.TURN_SKIPPED:
+        return plugin.advanceTurn(state);
+      case GameEventType.GAME_COMPLETED:
+        return { ...state, lifecycle: event.payload.lifecycle, winner: event.payload.winner };
+      default:
+        return state;
+    }
+  }
+
+  /**
+   * Replay one moveHistory entry
+   * Meta-actions such as resignations are recorded without involving the plugin.
+   */
+  private replayMove(plugin: GameEnginePlugin, state: GameState, move: Move): GameState {
+    if (isMetaMove(move)) {
+      return { ...state, moveHistory: [...state.moveHistory, move] };
+    }
+
+    const next = plugin.applyMove(state, move.playerId, move);
+    if (plugin.isGameOver(next)) {
+      return { ...next, lifecycle: GameLifecycle.COMPLETED, winner: plugin.getWinner(next) };
+    }
+    return next;
+  }
+
+  /**
+   * Rebuild a game without an event log from a fresh initializeGame and its move history
+   */
+  private replayMoveHistory(
+    plugin: GameEnginePlugin,
+    game: GameState,
+    moveNumber: number
+  ): GameState {
+    let state = this.createInitialState(plugin, game);
+    for (const move of game.moveHistory.slice(0, moveNumber)) {
+      state = this.replayMove(plugin, state, move);
+    }
+    return state;
+  }
+
+  /**
+   * Recreate the starting position of a game that has no event log
+   * Only the players and moves are known, so games that also depend on their settings,
+   * on dice rolls or on skipped turns are refused rather than replayed into positions
+   * they never reached.
+   * @throws HistoryUnavailableError if the starting position cannot be recreated
+   */
+  private createInitialState(plugin: GameEnginePlugin, game: GameState): GameState {
+    if (plugin.getConfigSchema?.()) {
+      throw new HistoryUnavailableError(game.gameId, 'its settings were not recorded');
+    }
+
+    const timeouts: TimeoutRecord[] = game.metadata?.timeouts ?? [];
+    if (timeouts.some((timeout) => timeout.action === TimeoutAction.SKIP)) {
+      throw new HistoryUnavailableError(game.gameId, 'its skipped turns were not recorded');
+    }
+
+    const initial = plugin.initializeGame(game.players, {});
+    if (getGameRandomness(initial) || getGameRandomness(game)) {
+      throw new HistoryUnavailableError(game.gameId, 'its dice rolls cannot be reproduced');
+    }
+
+    return {
+      ...initial,
+      gameId: game.gameId,
+      gameType: game.gameType,
+      lifecycle: GameLifecycle.ACTIVE,
+      players: game.players,
+      moveHistory: [],
+      winner: null,
+      createdAt: game.createdAt,
+    };
+  }
+}
@@ -1,6 +1,7 @@
 import { IInvitationRepository } from '@domain/interfaces/IInvitationRepository';
 import { IPlayerProfileRepository } from '@domain/interfaces/IPlayerProfileRepository';
-import { GameRepository } from '@domain/interfaces';
+import { GameRepository, IDomainEventBus } from '@domain/interfaces';
+import { DomainEventType } from '@domain/models/DomainEvent';
 import {
   GameInvitation,
   InvitationStatus,
@@ -15,7 +16,8 @@ export class InvitationService {
   constructor(
     private invitationRepository: IInvitationRepository,
     private profileRepository: IPlayerProfileRepository,
-    private gameRepository: GameRepository
+    private gameRepository: GameRepository,
+    private eventBus?: IDomainEventBus
   ) {}
 
   /**
@@ -72,11 +74,22 @@ export class InvitationService {
     }
 
     // Create the invitation
-    return await this.invitationRepository.create({
+    const invitation = await this.invitationRepository.create({
       gameId,
       inviterId,
       inviteeId,
     });
+
+    if (this.eventBus) {
+      await this.eventBus.publish({
+        type: DomainEventType.INVITATION_SENT,
+        game,
+        invitation,
+        inviterName: inviterProfile.displayName,
+      });
+    }
+
+    return invitation;
   }
 
   /**
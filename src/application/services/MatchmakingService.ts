@@ -0,0 +1,263 @@
+import { GameManagerService } from '@application/services/GameManagerService';
+import { StatsService } from '@application/services/StatsService';
+import { IMatchmakingRepository } from '@domain/interfaces/IMatchmakingRepository';
+import {
+  IWebSocketService,
+  MatchFoundMessage,
+  WebSocketMessageType,
+} from '@domain/interfaces/IWebSocketService';
+import {
+  GameState,
+  MatchmakingEntry,
+  DEFAULT_WIN_RATE_RANGE,
+  areEntriesCompatible,
+  getAcceptableWinRateRange,
+} from '@domain/models';
+import { AlreadyQueuedError, InvalidMatchmakingRequestError, NotQueuedError } from '@domain/errors';
+import { Logger } from '@infrastructure/logging/Logger';
+import { IntervalWorker } from '@infrastructure/scheduling/IntervalWorker';
+
+/**
+ * What a player asks for when joining the matchmaking queue
+ */
+export interface MatchmakingRequest {
+  gameType: string;
+  customSettings?: Record<string, unknown>;
+  /** Largest win-rate difference to an opponent the player accepts (0 to 1) */
+  winRateRange?: number;
+}
+
+/**
+ * A queue entry together with the range it accepts right now
+ */
+export interface MatchmakingStatus extends MatchmakingEntry {
+  acceptableWinRateRange: number;
+}
+
+/**
+ * Service for pairing players into games through a matchmaking queue
+ * Queued players are matched on a fixed interval, oldest first, with an opponent
+ * of the same game type whose settings and win rate are compatible.
+ */
+export class MatchmakingService {
+  private readonly logger: Logger;
+  private readonly worker: IntervalWorker;
+
+  constructor(
+    private queueRepository: IMatchmakingRepository,
+    private gameManagerService: GameManagerService,
+    private statsService: StatsService,
+    private webSocketService: IWebSocketService,
+    logger?: Logger
+  ) {
+    this.logger = logger || new Logger('info', 'json');
+    this.worker = new IntervalWorker(this.logger, 'Matchmaking pass failed');
+  }
+
+  /**
+   * Add a player to the queue
+   * @param player - The player joining
+   * @param request - Game type, preferred settings and acceptable win-rate range
+   * @param now - Time the player joined (defaults to now)
+   * @returns The player's queue status
+   * @throws InvalidMatchmakingRequestError if the game type cannot be played by two players
+   * @throws AlreadyQueuedError if the player is already queued
+   */
+  async joinQueue(
+    player: { id: string; username: string },
+    request: MatchmakingRequest,
+    now: Date = new Date()
+  ): Promise<MatchmakingStatus> {
+    const gameTypeInfo = this.gameManagerService
+      .listAvailableGameTypes()
+      .find((info) => info.type === request.gameType);
+    if (!gameTypeInfo) {
+      throw new InvalidMatchmakingRequestError(`Game type "${request.gameType}" is not supported`);
+    }
+    if (gameTypeInfo.minPlayers > 2 || gameTypeInfo.maxPlayers < 2) {
+      throw new InvalidMatchmakingRequestError(
+        `Game type "${request.gameType}" cannot be played by two players`
+      );
+    }
+
+    const winRateRange = request.winRateRange ?? DEFAULT_WIN_RATE_RANGE;
+    if (winRateRange < 0 || winRateRange > 1) {
+      throw new InvalidMatchmakingRequestError('winRateRange must be between 0 and 1');
+    }
+
+    const existing = await this.queueRepository.findByUser(player.id);
+    if (existing) {
+      throw new AlreadyQueuedError(player.id, existing.gameType);
+    }
+
+    const stats = await this.statsService.getPlayerStats(player.id, request.gameType);
+    const entry: MatchmakingEntry = {
+      userId: player.id,
+      username: player.username,
+      gameType: request.gameType,
+      ...(request.customSettings && { customSettings: request.customSettings }),
+      winRate: stats.winRate,
+      winRateRange,
+      joinedAt: now,
+    };
+
+    await this.queueRepository.add(entry);
+    this.logger.info('Player joined matchmaking queue', {
+      userId: player.id,
+      gameType: request.gameType,
+    });
+
+    return this.toStatus(entry, now);
+  }
+
+  /**
+   * Remove a player from the queue
+   * @throws NotQueuedError if the player is not queued
+   */
+  async leaveQueue(userId: string): Promise<void> {
+    const removed = await this.queueRepository.remove(userId);
+    if (!removed) {
+      throw new NotQueuedError(userId);
+    }
+  }
+
+  /**
+   * Get a player's place in the queue
+   * @throws NotQueuedError if the player is not queued
+   */
+  async getQueueStatus(userId: string, now: Date = new Date()): Promise<MatchmakingStatus> {
+    const entry = await this.queueRepository.findByUser(userId);
+    if (!entry) {
+      throw new NotQueuedError(userId);
+    }
+    return this.toStatus(entry, now);
+  }
+
+  /**
+   * Start matching queued players on a fixed interval
+   * @param intervalMs - How often to look for matches
+   */
+  start(intervalMs: number): void {
+    this.worker.start(intervalMs, () => this.matchPlayers());
+  }
+
+  /**
+   * Stop the matcher
+   */
+  stop(): void {
+    this.worker.stop();
+  }
+
+  /**
+   * Run a single matching pass over the queue
+   * Each player is paired with the longest-waiting compatible opponent. Overlapping
+   * passes are skipped so the same players cannot be matched twice.
+   * @param now - Current time (defaults to now)
+   * @returns The games created by this pass
+   */
+  async matchPlayers(now: Date = new Date()): Promise<GameState[]> {
+    return this.worker.runExclusive(async () => {
+      const queue = await this.queueRepository.findAll();
+      const matched = new Set<string>();
+      const games: GameState[] = [];
+
+      for (const [index, entry] of queue.entries()) {
+        if (matched.has(entry.userId)) {
+          continue;
+        }
+
+        const opponent = queue
+          .slice(index + 1)
+          .find(
+            (candidate) =>
+              !matched.has(candidate.userId) && areEntriesCompatible(entry, candidate, now)
+          );
+        if (!opponent) {
+          continue;
+        }
+
+        try {
+          games.push(await this.createMatch(entry, opponent));
+          matched.add(entry.userId);
+          matched.add(opponent.userId);
+        } catch (error) {
+          // Both players stay queued and are retried on the next pass
+          this.logger.error('Failed to create matchmaking game', {
+            gameType: entry.gameType,
+            players: [entry.userId, opponent.userId],
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+      }
+
+      return games;
+    }, []);
+  }
+
+  /**
+   * Create the game for a matched pair, take both players off the queue and notify them
+   * The player who waited longer moves first.
+   */
+  private async createMatch(first: MatchmakingEntry, second: MatchmakingEntry): Promise<GameState> {
+    const joinedAt = new Date();
+    const game = await this.gameManagerService.createGame(
+      first.gameType,
+      {
+        players: [first, second].map((entry) => ({
+          id: entry.userId,
+          name: entry.username,
+          joinedAt,
+        })),
+        customSettings: { ...second.customSettings, ...first.customSettings },
+      },
+      { id: first.userId, username: first.username }
+    );
+
+    await this.queueRepository.remove(first.userId);
+    await this.queueRepository.remove(second.userId);
+
+    this.logger.info('Matchmaking game created', {
+      gameId: game.gameId,
+      gameType: game.gameType,
+      players: [first.userId, second.userId],
+    });
+
+    await this.notifyMatch(first, second, game);
+    await this.notifyMatch(second, first, game);
+
+    return game;
+  }
+
+  /**
+   * Tell a player their match is ready
+   * Failures are logged; the game exists either way and shows up in the player's game list.
+   */
+  private async notifyMatch(
+    player: MatchmakingEntry,
+    opponent: MatchmakingEntry,
+    game: GameState
+  ): Promise<void> {
+    const message: MatchFoundMessage = {
+      type: WebSocketMessageType.MATCH_FOUND,
+      timestamp: new Date(),
+      gameId: game.gameId,
+      gameType: game.gameType,
+      opponentId: opponent.userId,
+      opponentName: opponent.username,
+    };
+
+    try {
+      await this.webSocketService.sendToUser(player.userId, message);
+    } catch (error) {
+      this.logger.error('Failed to send match notification', {
+        gameId: game.gameId,
+        userId: player.userId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  private toStatus(entry: MatchmakingEntry, now: Date): MatchmakingStatus {
+    return { ...entry, acceptableWinRateRange: getAcceptableWinRateRange(entry, now) };
+  }
+}
@@ -0,0 +1,273 @@
+import { randomUUID } from 'crypto';
+import { GameLockManager } from '@application/GameLockManager';
+import { StateManagerService } from '@application/services/StateManagerService';
+import { GameRepository, IGameModerationRepository } from '@domain/interfaces';
+import { GameState, GameLifecycle, ModerationAction, ModerationLogEntry } from '@domain/models';
+import { ForbiddenError, GameNotFoundError, InvalidGameActionError } from '@domain/errors';
+import { Logger } from '@infrastructure/logging/Logger';
+
+/**
+ * Service for deleting games and for admin moderation
+ * Deletion is a soft delete; every deletion and admin action is written to the
+ * game's moderation log and to the application log.
+ */
+export class ModerationService {
+  private readonly logger: Logger;
+
+  constructor(
+    private repository: GameRepository,
+    private moderationRepository: IGameModerationRepository,
+    private stateManagerService: StateManagerService,
+    private lockManager: GameLockManager = new GameLockManager(),
+    logger?: Logger
+  ) {
+    this.logger = logger || new Logger('info', 'json');
+  }
+
+  /**
+   * Soft-delete a game
+   * The creator may delete a game until it starts; admins may delete any game.
+   * @param gameId - The game ID
+   * @param actorId - The user deleting the game
+   * @param asAdmin - Whether the user is acting as an admin
+   * @param reason - Optional reason recorded in the moderation log
+   * @throws GameNotFoundError if game not found
+   * @throws ForbiddenError if a non-admin is not the game's creator
+   * @throws InvalidGameActionError if a non-admin deletes a game that has started
+   */
+  async deleteGame(
+    gameId: string,
+    actorId: string,
+    asAdmin: boolean,
+    reason?: string
+  ): Promise<void> {
+    const game = await this.getGame(gameId);
+
+    if (!asAdmin) {
+      if (game.metadata?.creatorPlayerId !== actorId) {
+        throw new ForbiddenError('only the game creator can delete a game');
+      }
+      if (
+        game.lifecycle !== GameLifecycle.CREATED &&
+        game.lifecycle !== GameLifecycle.WAITING_FOR_PLAYERS
+      ) {
+        throw new InvalidGameActionError('delete game', 'game has already started');
+      }
+    }
+
+    const entry = this.createEntry(gameId, ModerationAction.DELETE, actorId, asAdmin, reason, {
+      lifecycle: game.lifecycle,
+    });
+    await this.moderationRepository.softDelete(
+      gameId,
+      { deletedBy: actorId, deletedAt: entry.createdAt, ...(reason && { reason }) },
+      entry
+    );
+    this.log(entry);
+  }
+
+  /**
+   * Restore a soft-deleted game (admin only)
+   * @returns The restored game
+   * @throws GameNotFoundError if there is no deleted game with this ID
+   */
+  async restoreGame(gameId: string, adminId: string, reason?: string): Promise<GameState> {
+    const deletion = await this.moderationRepository.findDeletion(gameId);
+    if (!deletion) {
+      throw new GameNotFoundError(gameId);
+    }
+
+    const entry = this.createEntry(gameId, ModerationAction.RESTORE, adminId, true, reason, {
+      deletedBy: deletion.deletedBy,
+      deletedAt: deletion.deletedAt.toISOString(),
+    });
+    const game = await this.moderationRepository.restore(gameId, entry);
+    this.log(entry);
+    return game;
+  }
+
+  /**
+   * End an active game without a result (admin only)
+   * Ratings are left unchanged; a tournament match counts it as a draw.
+   * @returns Updated game state
+   * @throws InvalidGameActionError if the game is not active
+   */
+  async forceComplete(gameId: string, adminId: string, reason?: string): Promise<GameState> {
+    const game = await this.stateManagerService.imposeResult(
+      gameId,
+      { winner: null, isDraw: false, rated: false },
+      { forceCompletedBy: adminId }
+    );
+    await this.record(gameId, ModerationAction.FORCE_COMPLETE, adminId, true, reason, {});
+    return game;
+  }
+
+  /**
+   * End an active game with a result chosen by an admin
+   * The result is rated and counts for tournaments like any other.
+   * @param winner - Player awarded the win, or null for a draw
+   * @returns Updated game state
+   * @throws InvalidGameActionError if the winner is not in the game or the game is not active
+   */
+  async adjudicate(
+    gameId: string,
+    adminId: string,
+    winner: string | null,
+    reason?: string
+  ): Promise<GameState> {
+    const current = await this.getGame(gameId);
+    if (winner !== null && !current.players.some((p) => p.id === winner)) {
+      throw new InvalidGameActionError('adjudicate', `${winner} is not a player in this game`);
+    }
+
+    const game = await this.stateManagerService.imposeResult(
+      gameId,
+      { winner, isDraw: winner === null, rated: true },
+      { adjudicatedBy: adminId }
+    );
+    await this.record(gameId, ModerationAction.ADJUDICATE, adminId, true, reason, { winner });
+    return game;
+  }
+
+  /**
+   * Remove a player from a game (admin only)
+   * Before the game starts the seat is freed. In an active game the player forfeits:
+   * in a two-player game the opponent wins; with more players nobody is awarded the win.
+   * @returns Updated game state
+   * @throws InvalidGameActionError if the player is not in the game or the game has ended
+   */
+  async removePlayer(
+    gameId: string,
+    adminId: string,
+    playerId: string,
+    reason?: string
+  ): Promise<GameState> {
+    const current = await this.getGame(gameId);
+    if (!current.players.some((p) => p.id === playerId)) {
+      throw new InvalidGameActionError('remove player', `${playerId} is not a player in this game`);
+    }
+
+    let game: GameState;
+    if (current.lifecycle === GameLifecycle.ACTIVE) {
+      const opponents = current.players.filter((p) => p.id !== playerId);
+      game = await this.stateManagerService.imposeResult(
+        gameId,
+        {
+          winner: opponents.length === 1 ? opponents[0].id : null,
+          isDraw: false,
+          rated: true,
+        },
+        { removedPlayerId: playerId }
+      );
+    } else if (
+      current.lifecycle === GameLifecycle.CREATED ||
+      current.lifecycle === GameLifecycle.WAITING_FOR_PLAYERS
+    ) {
+      game = await this.freeSeat(gameId, playerId);
+    } else {
+      throw new InvalidGameActionError('remove player', `game is ${current.lifecycle}`);
+    }
+
+    await this.record(gameId, ModerationAction.REMOVE_PLAYER, adminId, true, reason, {
+      playerId,
+      lifecycle: current.lifecycle,
+    });
+    return game;
+  }
+
+  /**
+   * Get a game's moderation log, oldest entry first
+   * Works for deleted games so admins can see why a game was removed.
+   */
+  async getModerationLog(gameId: string): Promise<ModerationLogEntry[]> {
+    return this.moderationRepository.getModerationLog(gameId);
+  }
+
+  /**
+   * Take a player out of a game that has not started
+   * @private
+   */
+  private async freeSeat(gameId: string, playerId: string): Promise<GameState> {
+    return this.lockManager.withLock(gameId, async () => {
+      const game = await this.getGame(gameId);
+      const players = game.players.filter((p) => p.id !== playerId);
+
+      const updatedGame: GameState = {
+        ...game,
+        players,
+        lifecycle: players.length === 0 ? GameLifecycle.CREATED : GameLifecycle.WAITING_FOR_PLAYERS,
+        version: game.version + 1,
+        updatedAt: new Date(),
+      };
+
+      return this.repository.update(gameId, updatedGame, game.version);
+    });
+  }
+
+  /**
+   * Load a visible game
+   * @private
+   */
+  private async getGame(gameId: string): Promise<GameState> {
+    const game = await this.repository.findById(gameId);
+    if (!game) {
+      throw new GameNotFoundError(gameId);
+    }
+    return game;
+  }
+
+  /**
+   * Write an action to the game's moderation log and the application log
+   * @private
+   */
+  private async record(
+    gameId: string,
+    action: ModerationAction,
+    actorId: string,
+    asAdmin: boolean,
+    reason: string | undefined,
+    details: Record<string, unknown>
+  ): Promise<void> {
+    const entry = this.createEntry(gameId, action, actorId, asAdmin, reason, details);
+    await this.moderationRepository.appendModerationEntry(entry);
+    this.log(entry);
+  }
+
+  /**
+   * Build a moderation log entry for an action
+   * @private
+   */
+  private createEntry(
+    gameId: string,
+    action: ModerationAction,
+    actorId: string,
+    asAdmin: boolean,
+    reason: string | undefined,
+    details: Record<string, unknown>
+  ): ModerationLogEntry {
+    return {
+      entryId: randomUUID(),
+      gameId,
+      action,
+      actorId,
+      asAdmin,
+      ...(reason && { reason }),
+      details,
+      createdAt: new Date(),
+    };
+  }
+
+  /**
+   * Write a moderation log entry to the application log
+   * @private
+   */
+  private log(entry: ModerationLogEntry): void {
+    this.logger.info(entry.asAdmin ? 'Admin moderation action' : 'Game deleted by creator', {
+      gameId: entry.gameId,
+      action: entry.action,
+      actorId: entry.actorId,
+      ...(entry.reason && { reason: entry.reason }),
+      ...entry.details,
+    });
+  }
+}
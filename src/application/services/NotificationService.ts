@@ -6,17 +6,39 @@ import {
   InvitationNotificationData,
   GameCompleteNotificationData,
 } from '@domain/interfaces/INotificationChannel';
+import { IPlayerProfileRepository } from '@domain/interfaces/IPlayerProfileRepository';
+import {
+  NOTIFICATION_CHANNEL_NAMES,
+  NotificationChannelName,
+  getNotificationPreferences,
+} from '@domain/models/PlayerProfile';
+import { setBackgroundTimeout } from '@infrastructure/scheduling/IntervalWorker';
+
+/**
+ * A delayed turn notification that has not been sent yet
+ */
+interface PendingTurnNotification {
+  timer: NodeJS.Timeout;
+  resolve: () => void;
+}
 
 /**
  * Service for managing notifications across multiple channels
  * Handles turn notifications, invitations, and game completion notifications
- * with support for delayed delivery and duplicate prevention
+ * with support for delayed delivery and duplicate prevention.
+ * When a profile repository is given, players only hear from the channels they chose.
+ * A player is notified once per turn: clearTurnNotification ends the turn, cancelling
+ * a notification that is still waiting out its delay.
  */
 export class NotificationService {
   private channels: INotificationChannel[];
   private notificationTracking: Map<string, Date>;
+  private pendingTurnNotifications: Map<string, PendingTurnNotification> = new Map();
 
-  constructor(channels: INotificationChannel[]) {
+  constructor(
+    channels: INotificationChannel[],
+    private profileRepository?: IPlayerProfileRepository
+  ) {
     this.channels = channels;
     this.notificationTracking = new Map();
   }
@@ -26,6 +48,7 @@ export class NotificationService {
    * @param userId - The user to notify
    * @param gameId - The game ID
    * @param delayMs - Optional delay in milliseconds before sending
+   * @returns Promise that resolves once the notification is sent or cancelled
    * @throws Error if userId or gameId is empty
    */
   async notifyTurn(userId: string, gameId: string, delayMs?: number): Promise<void> {
@@ -58,7 +81,7 @@ export class NotificationService {
 
     // Handle delay
     if (delayMs && delayMs > 0) {
-      await this.scheduleNotification(notification, delayMs);
+      await this.scheduleNotification(trackingKey, notification, delayMs);
     } else {
       await this.sendToChannels(notification);
     }
@@ -122,6 +145,54 @@ export class NotificationService {
     this.notificationTracking.delete(trackingKey);
   }
 
+  /**
+   * End a player's turn notification for a game
+   * Cancels the notification if it is still waiting out its delay, lets the next turn
+   * notify the player again, and clears it from channels that keep notifications.
+   * @param userId - The player who is no longer on turn
+   * @param gameId - The game ID
+   */
+  async clearTurnNotification(userId: string, gameId: string): Promise<void> {
+    const trackingKey = `${userId}:${gameId}`;
+    const wasNotified = this.notificationTracking.delete(trackingKey);
+
+    const pending = this.pendingTurnNotifications.get(trackingKey);
+    if (pending) {
+      clearTimeout(pending.timer);
+      this.pendingTurnNotifications.delete(trackingKey);
+      pending.resolve();
+      return; // Nothing was sent, so there is nothing to clear
+    }
+
+    if (!wasNotified) {
+      return;
+    }
+
+    await Promise.all(
+      this.channels.map(async (channel) => {
+        if (!channel.clearTurnNotifications) {
+          return;
+        }
+
+        try {
+          await channel.clearTurnNotifications(userId, gameId);
+        } catch (error) {
+          console.error(
+            `Failed to clear turn notifications through channel ${channel.getName()}:`,
+            error
+          );
+        }
+      })
+    );
+  }
+
+  /**
+   * Number of turn notifications still waiting out their delay
+   */
+  getPendingTurnNotificationCount(): number {
+    return this.pendingTurnNotifications.size;
+  }
+
   /**
    * Get the list of registered notification channels
    * @returns Array of notification channels
@@ -132,18 +203,47 @@ export class NotificationService {
 
   /**
    * Schedule a notification to be sent after a delay
+   * @param trackingKey - Key the pending notification can be cancelled by
    * @param notification - The notification to send
    * @param delayMs - Delay in milliseconds
    */
   private async scheduleNotification(
+    trackingKey: string,
     notification: NotificationData,
     delayMs: number
   ): Promise<void> {
     return new Promise((resolve) => {
-      setTimeout(async () => {
+      const timer = setBackgroundTimeout(async () => {
+        this.pendingTurnNotifications.delete(trackingKey);
         await this.sendToChannels(notification);
         resolve();
       }, delayMs);
+      this.pendingTurnNotifications.set(trackingKey, { timer, resolve });
+    });
+  }
+
+  /**
+   * Get the channels a user wants to be notified on
+   * Channels players cannot choose between are always used.
+   * @param userId - The user to notify
+   */
+  private async getChannelsFor(userId: string): Promise<INotificationChannel[]> {
+    if (!this.profileRepository) {
+      return this.channels;
+    }
+
+    let chosen: NotificationChannelName[];
+    try {
+      const profile = await this.profileRepository.findByUserId(userId);
+      chosen = getNotificationPreferences(profile).channels;
+    } catch (error) {
+      console.error(`Failed to load notification preferences for ${userId}:`, error);
+      return this.channels;
+    }
+
+    return this.channels.filter((channel) => {
+      const name = channel.getName() as NotificationChannelName;
+      return !NOTIFICATION_CHANNEL_NAMES.includes(name) || chosen.includes(name);
     });
   }
 
@@ -153,7 +253,8 @@ export class NotificationService {
    * @param notification - The notification to send
    */
   private async sendToChannels(notification: NotificationData): Promise<void> {
-    const sendPromises = this.channels.map(async (channel) => {
+    const channels = await this.getChannelsFor(notification.userId);
+    const sendPromises = channels.map(async (channel) => {
       try {
         // Check if channel is available
         const isAvailable = await channel.isAvailable();
@@ -1,6 +1,9 @@
 import { IPlayerProfileRepository } from '@domain/interfaces/IPlayerProfileRepository';
 import {
   PlayerProfile,
+  NotificationPreferences,
+  NOTIFICATION_CHANNEL_NAMES,
+  getNotificationPreferences,
   validateDisplayName as domainValidateDisplayName,
 } from '@domain/models/PlayerProfile';
 
@@ -58,6 +61,39 @@ export class PlayerProfileService {
     });
   }
 
+  /**
+   * Update a player's notification preferences
+   * Fields that are left out keep their current value.
+   * @param userId - The user ID whose profile to update
+   * @param changes - The preferences to change
+   * @returns The updated player profile
+   * @throws Error if the profile does not exist or the preferences are invalid
+   */
+  async updateNotificationPreferences(
+    userId: string,
+    changes: Partial<NotificationPreferences>
+  ): Promise<PlayerProfile> {
+    const profile = await this.repository.findByUserId(userId);
+    if (!profile) {
+      throw new Error(`Player profile not found for user ID: ${userId}`);
+    }
+
+    const current = getNotificationPreferences(profile);
+    const notificationPreferences: NotificationPreferences = {
+      channels: changes.channels ?? current.channels,
+      emailDigest: changes.emailDigest ?? current.emailDigest,
+    };
+    // An explicit undefined email removes the address
+    const email = 'email' in changes ? changes.email : current.email;
+    if (email) {
+      notificationPreferences.email = email;
+    }
+
+    this.validateNotificationPreferencesOrThrow(notificationPreferences);
+
+    return await this.repository.update(userId, { notificationPreferences });
+  }
+
   /**
    * Validate a display name
    * @param displayName - The display name to validate
@@ -84,6 +120,38 @@ export class PlayerProfileService {
     return displayName;
   }
 
+  /**
+   * Validate notification preferences and throw error if invalid
+   * @param preferences - The preferences to validate
+   * @throws Error with specific validation message
+   */
+  private validateNotificationPreferencesOrThrow(preferences: NotificationPreferences): void {
+    if (
+      !Array.isArray(preferences.channels) ||
+      preferences.channels.some((channel) => !NOTIFICATION_CHANNEL_NAMES.includes(channel))
+    ) {
+      throw new Error(
+        `Notification channels must be any of: ${NOTIFICATION_CHANNEL_NAMES.join(', ')}`
+      );
+    }
+
+    if (typeof preferences.emailDigest !== 'boolean') {
+      throw new Error('emailDigest must be a boolean');
+    }
+
+    if (
+      preferences.email !== undefined &&
+      (typeof preferences.email !== 'string' ||
+        !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(preferences.email))
+    ) {
+      throw new Error('Email address is not valid');
+    }
+
+    if (preferences.emailDigest && !preferences.email) {
+      throw new Error('An email address is required for the email digest');
+    }
+  }
+
   /**
    * Validate display name and throw error if invalid
    * @param displayName - The display name to validate
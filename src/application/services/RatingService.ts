@@ -0,0 +1,116 @@
+import { IRatingRepository } from '@domain/interfaces/IRatingRepository';
+import {
+  GameState,
+  GameLifecycle,
+  Player,
+  PlayerRating,
+  RatingHistoryEntry,
+  AI_ANCHOR_RATINGS,
+  AI_ANCHOR_DEVIATION,
+  DEFAULT_RATING,
+} from '@domain/models';
+import { updateGlicko2, Glicko2Result } from '@domain/game-utils/Glicko2';
+
+/**
+ * Service for Glicko-2 player ratings, tracked per game type
+ * A completed game counts as a result between every pair of its players: the winner
+ * beats everyone else and all other pairs draw. AI players take part at a fixed
+ * anchor rating for their difficulty and are never rated themselves.
+ */
+export class RatingService {
+  constructor(private ratingRepository: IRatingRepository) {}
+
+  /**
+   * Update the ratings of a completed game's human players
+   * Games that are not completed, have fewer than two players or no human players
+   * are ignored, as are games that were already rated.
+   * @param game - The completed game
+   * @returns History entries for the rated players
+   */
+  async recordGameResult(game: GameState): Promise<RatingHistoryEntry[]> {
+    if (game.lifecycle !== GameLifecycle.COMPLETED || game.players.length < 2) {
+      return [];
+    }
+
+    const humanIds = game.players.filter((p) => !this.isAI(p)).map((p) => p.id);
+    if (humanIds.length === 0) {
+      return [];
+    }
+
+    return this.ratingRepository.applyGameRatings(
+      game.gameId,
+      game.gameType,
+      humanIds,
+      (current) => {
+        const now = new Date();
+        const opponentRating = (player: Player): { rating: number; deviation: number } =>
+          this.isAI(player) ? this.getAnchorRating(player) : current.get(player.id)!;
+
+        return humanIds.map((userId): PlayerRating => {
+          const rating = current.get(userId)!;
+          const results: Glicko2Result[] = game.players
+            .filter((opponent) => opponent.id !== userId)
+            .map((opponent) => {
+              const { rating: opponentValue, deviation } = opponentRating(opponent);
+              return {
+                opponentRating: opponentValue,
+                opponentDeviation: deviation,
+                score: this.getScore(game.winner, userId, opponent.id),
+              };
+            });
+
+          return {
+            ...rating,
+            ...updateGlicko2(rating, results),
+            gamesPlayed: rating.gamesPlayed + 1,
+            updatedAt: now,
+          };
+        });
+      }
+    );
+  }
+
+  /**
+   * Get a player's current ratings, one per game type played
+   * @param userId - The player
+   */
+  async getPlayerRatings(userId: string): Promise<PlayerRating[]> {
+    return this.ratingRepository.findByPlayer(userId);
+  }
+
+  /**
+   * Get a player's rating changes, oldest first
+   * @param userId - The player
+   * @param gameType - Optional game type filter
+   */
+  async getRatingHistory(userId: string, gameType?: string): Promise<RatingHistoryEntry[]> {
+    return this.ratingRepository.getHistory(userId, gameType);
+  }
+
+  /**
+   * Fixed rating used for an AI player, based on its strategy difficulty
+   */
+  private getAnchorRating(player: Player): { rating: number; deviation: number } {
+    const difficulty = player.metadata?.difficulty;
+    const rating =
+      typeof difficulty === 'string' &&
+      Object.prototype.hasOwnProperty.call(AI_ANCHOR_RATINGS, difficulty)
+        ? AI_ANCHOR_RATINGS[difficulty]
+        : DEFAULT_RATING;
+    return { rating, deviation: AI_ANCHOR_DEVIATION };
+  }
+
+  private getScore(winner: string | null, playerId: string, opponentId: string): number {
+    if (winner === playerId) {
+      return 1;
+    }
+    if (winner === opponentId) {
+      return 0;
+    }
+    return 0.5;
+  }
+
+  private isAI(player: Player): boolean {
+    return player.metadata?.isAI === true;
+  }
+}
@@ -1,27 +1,65 @@
 import { GameLockManager } from '@application/GameLockManager';
 import { PluginRegistry } from '@application/PluginRegistry';
 import { AIPlayerService } from '@application/services/AIPlayerService';
-import { GameRepository, ValidationResult } from '@domain/interfaces';
-import { GameState, Move, GameLifecycle } from '@domain/models';
-import { GameNotFoundError, InvalidMoveError, UnauthorizedMoveError } from '@domain/errors';
 import {
-  IWebSocketService,
-  WebSocketMessageType,
-  GameUpdateMessage,
-  GameCompleteMessage,
-} from '@domain/interfaces/IWebSocketService';
+  GameRepository,
+  GameEnginePlugin,
+  ValidationResult,
+  AICapableGamePlugin,
+  IAIMoveQueue,
+  IDomainEventBus,
+} from '@domain/interfaces';
+import {
+  GameState,
+  Move,
+  GameLifecycle,
+  TimeoutAction,
+  TimeoutRecord,
+  GameClock,
+  MetaAction,
+  DrawOffer,
+  AbortRequest,
+  ABORT_MOVE_LIMIT,
+  ModeratedResult,
+  isMetaMove,
+  createAIMoveJob,
+  DomainEvent,
+  DomainEventType,
+} from '@domain/models';
+import {
+  GameNotFoundError,
+  InvalidMoveError,
+  UnauthorizedMoveError,
+  InvalidGameActionError,
+  TurnExpiredError,
+} from '@domain/errors';
+import {
+  syncGameClock,
+  getGameClock,
+  isClockExpired,
+  restartTurn,
+} from '@domain/game-utils/TurnClock';
 
 /**
  * Service for managing game state updates and move processing
- * Handles move validation, application, and concurrency control
+ * Handles move validation, application, and concurrency control.
+ * With an AI move queue, AI turns are queued for the background worker; without one
+ * they are played straight after the move that handed the turn to the AI.
+ * Every saved change is published on the domain event bus, where broadcasts, ratings,
+ * tournaments, notifications and webhooks pick it up. Events are collected while the
+ * game lock is held and published once it is released, so slow handlers never hold up
+ * the next move.
  */
 export class StateManagerService {
+  private static readonly RESUME_PAGE_SIZE = 100;
+
   constructor(
     private repository: GameRepository,
     private registry: PluginRegistry,
     private lockManager: GameLockManager,
-    private webSocketService?: IWebSocketService,
-    private aiPlayerService?: AIPlayerService
+    private eventBus?: IDomainEventBus,
+    private aiPlayerService?: AIPlayerService,
+    private aiMoveQueue?: IAIMoveQueue
   ) {}
 
   /**
@@ -59,6 +97,7 @@ export class StateManagerService {
    * @throws UnauthorizedMoveError if player not authorized
    * @throws InvalidMoveError if move is invalid
    * @throws ConcurrencyError if version mismatch
+   * @throws TurnExpiredError if the turn deadline has passed; the timeout is applied first
    */
   async applyMove(
     gameId: string,
@@ -67,7 +106,7 @@ export class StateManagerService {
     expectedVersion: number
   ): Promise<GameState> {
     // Use lock manager to ensure sequential processing per game
-    return await this.lockManager.withLock(gameId, async () => {
+    return await this.withGameLock(gameId, async (events) => {
       // Get current game state
       const game = await this.repository.findById(gameId);
 
@@ -92,6 +131,14 @@ export class StateManagerService {
         );
       }
 
+      // A deadline the scheduler has not resolved yet still ends the turn
+      const now = new Date();
+      const clock = getGameClock(game);
+      if (clock && isClockExpired(clock, now)) {
+        await this.applyTimeout(events, plugin, game, clock, now);
+        throw new TurnExpiredError(gameId, clock.turnPlayerId);
+      }
+
       // Authorization checks
       // 1. Check if player is in the game
       const playerInGame = game.players.some((p) => p.id === playerId);
@@ -126,6 +173,14 @@ export class StateManagerService {
       // Apply move (game engine handles turn advancement internally)
       let updatedState = plugin.applyMove(game, playerId, enrichedMove);
 
+      // Pending draw offers and abort requests lapse once play continues
+      if (updatedState.metadata?.drawOffer || updatedState.metadata?.abortRequest) {
+        const metadata = { ...updatedState.metadata };
+        delete metadata.drawOffer;
+        delete metadata.abortRequest;
+        updatedState = { ...updatedState, metadata };
+      }
+
       // Check if game is over
       if (plugin.isGameOver(updatedState)) {
         const winner = plugin.getWinner(updatedState);
@@ -142,25 +197,18 @@ export class StateManagerService {
         };
       }
 
-      // Update timestamps and version
+      // Update timestamps and version, and hand the clock to the next player
       updatedState = {
         ...updatedState,
-        updatedAt: new Date(),
+        updatedAt: now,
       };
+      if (updatedState.lifecycle === GameLifecycle.ACTIVE && updatedState.metadata?.timeControl) {
+        updatedState = syncGameClock(updatedState, plugin.getCurrentPlayer(updatedState), now);
+      }
 
       // Save to repository with optimistic locking
       const savedState = await this.repository.update(gameId, updatedState, expectedVersion);
 
-      // Broadcast game update via WebSocket (non-blocking)
-      if (this.webSocketService) {
-        // Enhance the saved state with AI information before broadcasting
-        const enhancedState = this.enhanceGameWithAIInfo(savedState);
-        this.broadcastGameUpdate(gameId, enhancedState).catch((error) => {
-          // Log error but don't fail the move
-          console.error(`Failed to broadcast game update for ${gameId}:`, error);
-        });
-      }
-
       // Invoke afterApplyMove hook if present
       if (plugin.afterApplyMove) {
         plugin.afterApplyMove(game, savedState, move);
@@ -169,30 +217,540 @@ export class StateManagerService {
       // Invoke onGameEnded hook if game just completed
       if (savedState.lifecycle === GameLifecycle.COMPLETED) {
         plugin.onGameEnded(savedState);
-
-        // Broadcast game completion
-        if (this.webSocketService) {
-          this.broadcastGameComplete(gameId, savedState.winner).catch((error) => {
-            console.error(`Failed to broadcast game completion for ${gameId}:`, error);
-          });
-        }
       }
 
+      this.collectEvents(events, plugin, savedState, 'move', playerId, { move: enrichedMove });
+
       // Process AI turns if needed (only if game is still active)
       let finalState = savedState;
       if (savedState.lifecycle === GameLifecycle.ACTIVE) {
-        finalState = await this.processAITurnsIfNeeded(savedState);
+        finalState = await this.handOffAITurns(events, savedState);
       }
 
       return finalState;
     });
   }
 
+  /**
+   * Resign a game
+   * In a two-player game the opponent wins; with more players nobody is awarded the win.
+   * @param gameId - The game ID
+   * @param playerId - The resigning player
+   * @returns Updated game state
+   * @throws GameNotFoundError if game not found
+   * @throws UnauthorizedMoveError if player is not in the game
+   * @throws InvalidGameActionError if the game is not active
+   */
+  async resign(gameId: string, playerId: string): Promise<GameState> {
+    return this.applyMetaAction(gameId, playerId, MetaAction.RESIGN, (game) => {
+      const opponents = game.players.filter((p) => p.id !== playerId);
+      return {
+        ...game,
+        lifecycle: GameLifecycle.COMPLETED,
+        winner: opponents.length === 1 ? opponents[0].id : null,
+        metadata: { ...game.metadata, isDraw: false, resignedBy: playerId },
+      };
+    });
+  }
+
+  /**
+   * Offer a draw to the other players
+   * @param gameId - The game ID
+   * @param playerId - The player offering the draw
+   * @returns Updated game state with a pending draw offer
+   * @throws InvalidGameActionError if an offer is already pending or an opponent is an AI
+   */
+  async offerDraw(gameId: string, playerId: string): Promise<GameState> {
+    return this.applyMetaAction(gameId, playerId, MetaAction.OFFER_DRAW, (game, now) => {
+      if (game.metadata.drawOffer) {
+        throw new InvalidGameActionError(MetaAction.OFFER_DRAW, 'a draw offer is already pending');
+      }
+
+      if (game.players.some((p) => p.id !== playerId && p.metadata?.isAI === true)) {
+        throw new InvalidGameActionError(MetaAction.OFFER_DRAW, 'AI players do not accept draws');
+      }
+
+      const drawOffer: DrawOffer = {
+        offeredBy: playerId,
+        offeredAt: now.toISOString(),
+        acceptedBy: [playerId],
+      };
+      return { ...game, metadata: { ...game.metadata, drawOffer } };
+    });
+  }
+
+  /**
+   * Accept a pending draw offer
+   * The game is drawn once every player has agreed.
+   * @param gameId - The game ID
+   * @param playerId - The player accepting the draw
+   * @returns Updated game state
+   * @throws InvalidGameActionError if there is no offer to accept
+   */
+  async acceptDraw(gameId: string, playerId: string): Promise<GameState> {
+    return this.applyMetaAction(gameId, playerId, MetaAction.ACCEPT_DRAW, (game) => {
+      const offer = game.metadata.drawOffer as DrawOffer | undefined;
+      if (!offer) {
+        throw new InvalidGameActionError(MetaAction.ACCEPT_DRAW, 'no draw offer is pending');
+      }
+      if (offer.acceptedBy.includes(playerId)) {
+        throw new InvalidGameActionError(
+          MetaAction.ACCEPT_DRAW,
+          'player has already agreed to the draw'
+        );
+      }
+
+      const acceptedBy = [...offer.acceptedBy, playerId];
+      if (game.players.every((p) => acceptedBy.includes(p.id))) {
+        const metadata = { ...game.metadata };
+        delete metadata.drawOffer;
+        metadata.isDraw = true;
+        return { ...game, lifecycle: GameLifecycle.COMPLETED, winner: null, metadata };
+      }
+
+      return { ...game, metadata: { ...game.metadata, drawOffer: { ...offer, acceptedBy } } };
+    });
+  }
+
+  /**
+   * Decline a pending draw offer
+   * @param gameId - The game ID
+   * @param playerId - The player declining the draw
+   * @returns Updated game state without the offer
+   * @throws InvalidGameActionError if there is no offer to decline
+   */
+  async declineDraw(gameId: string, playerId: string): Promise<GameState> {
+    return this.applyMetaAction(gameId, playerId, MetaAction.DECLINE_DRAW, (game) => {
+      const offer = game.metadata.drawOffer as DrawOffer | undefined;
+      if (!offer) {
+        throw new InvalidGameActionError(MetaAction.DECLINE_DRAW, 'no draw offer is pending');
+      }
+      if (offer.offeredBy === playerId) {
+        throw new InvalidGameActionError(
+          MetaAction.DECLINE_DRAW,
+          'player cannot decline their own offer'
+        );
+      }
+
+      const metadata = { ...game.metadata };
+      delete metadata.drawOffer;
+      return { ...game, metadata };
+    });
+  }
+
+  /**
+   * Request (or agree to) aborting a game before ABORT_MOVE_LIMIT moves have been played
+   * The game is abandoned without a result once every human player has agreed;
+   * AI players always agree.
+   * @param gameId - The game ID
+   * @param playerId - The player requesting the abort
+   * @returns Updated game state
+   * @throws InvalidGameActionError if too many moves have been played
+   */
+  async abort(gameId: string, playerId: string): Promise<GameState> {
+    return this.applyMetaAction(gameId, playerId, MetaAction.ABORT, (game, now) => {
+      const movesPlayed = game.moveHistory.filter((m) => !isMetaMove(m)).length;
+      if (movesPlayed >= ABORT_MOVE_LIMIT) {
+        throw new InvalidGameActionError(
+          MetaAction.ABORT,
+          `games can only be aborted before move ${ABORT_MOVE_LIMIT + 1}`
+        );
+      }
+
+      const request = game.metadata.abortRequest as AbortRequest | undefined;
+      if (request?.requestedBy.includes(playerId)) {
+        throw new InvalidGameActionError(MetaAction.ABORT, 'player has already requested an abort');
+      }
+
+      const requestedBy = [...(request?.requestedBy ?? []), playerId];
+      const agreed = game.players.every(
+        (p) => p.metadata?.isAI === true || requestedBy.includes(p.id)
+      );
+
+      if (agreed) {
+        const metadata = { ...game.metadata };
+        delete metadata.abortRequest;
+        delete metadata.drawOffer;
+        metadata.aborted = true;
+        return { ...game, lifecycle: GameLifecycle.ABANDONED, winner: null, metadata };
+      }
+
+      const abortRequest: AbortRequest = {
+        requestedBy,
+        requestedAt: request?.requestedAt ?? now.toISOString(),
+      };
+      return { ...game, metadata: { ...game.metadata, abortRequest } };
+    });
+  }
+
+  /**
+   * Apply a resign, draw or abort action under the game lock
+   * Records the action in moveHistory, saves, and publishes the result.
+   * @private
+   */
+  private async applyMetaAction(
+    gameId: string,
+    playerId: string,
+    action: MetaAction,
+    transition: (game: GameState, now: Date) => GameState
+  ): Promise<GameState> {
+    return await this.withGameLock(gameId, async (events) => {
+      const game = await this.repository.findById(gameId);
+
+      if (!game) {
+        throw new GameNotFoundError(gameId);
+      }
+
+      const plugin = this.registry.get(game.gameType);
+      if (!plugin) {
+        throw new Error(`Game type "${game.gameType}" is not supported`);
+      }
+
+      if (!game.players.some((p) => p.id === playerId)) {
+        throw new UnauthorizedMoveError(playerId);
+      }
+
+      if (game.lifecycle !== GameLifecycle.ACTIVE) {
+        throw new InvalidGameActionError(action, `game is ${game.lifecycle}`);
+      }
+
+      const now = new Date();
+      const entry: Move = { playerId, timestamp: now, action, parameters: {} };
+      const transitioned = transition(game, now);
+
+      const updatedState: GameState = {
+        ...transitioned,
+        moveHistory: [...game.moveHistory, entry],
+        version: game.version + 1,
+        updatedAt: now,
+      };
+
+      const savedState = await this.repository.update(game.gameId, updatedState, game.version);
+      this.finishUpdate(events, plugin, savedState, action);
+
+      return savedState;
+    });
+  }
+
+  /**
+   * End an active game with a result imposed by a moderator
+   * The result counts like any other for tournaments, and for ratings when it is rated.
+   * @param gameId - The game ID
+   * @param result - Winner, draw flag and whether ratings change
+   * @param metadata - Extra metadata recording the decision
+   * @returns Updated game state
+   * @throws GameNotFoundError if game not found
+   * @throws InvalidGameActionError if the game is not active
+   */
+  async imposeResult(
+    gameId: string,
+    result: ModeratedResult,
+    metadata: Record<string, unknown> = {}
+  ): Promise<GameState> {
+    return await this.withGameLock(gameId, async (events) => {
+      const game = await this.repository.findById(gameId);
+
+      if (!game) {
+        throw new GameNotFoundError(gameId);
+      }
+
+      const plugin = this.registry.get(game.gameType);
+      if (!plugin) {
+        throw new Error(`Game type "${game.gameType}" is not supported`);
+      }
+
+      if (game.lifecycle !== GameLifecycle.ACTIVE) {
+        throw new InvalidGameActionError('end game', `game is ${game.lifecycle}`);
+      }
+
+      const updatedMetadata: GameState['metadata'] = {
+        ...game.metadata,
+        ...metadata,
+        isDraw: result.isDraw,
+      };
+      delete updatedMetadata.drawOffer;
+      delete updatedMetadata.abortRequest;
+
+      const updatedState: GameState = {
+        ...game,
+        lifecycle: GameLifecycle.COMPLETED,
+        winner: result.winner,
+        metadata: updatedMetadata,
+        version: game.version + 1,
+        updatedAt: new Date(),
+      };
+
+      const savedState = await this.repository.update(game.gameId, updatedState, game.version);
+      this.finishUpdate(events, plugin, savedState, 'moderation', result.rated);
+
+      return savedState;
+    });
+  }
+
+  /**
+   * Run the end-of-game hook if a saved update ended the game, then collect its events
+   * @param reason - What changed the game
+   * @param rated - Whether a completed game should update ratings
+   * @private
+   */
+  private finishUpdate(
+    events: DomainEvent[],
+    plugin: GameEnginePlugin,
+    savedState: GameState,
+    reason: string,
+    rated: boolean = true
+  ): void {
+    if (savedState.lifecycle === GameLifecycle.COMPLETED) {
+      plugin.onGameEnded(savedState);
+    }
+
+    this.collectEvents(events, plugin, savedState, reason, plugin.getCurrentPlayer(savedState), {
+      rated,
+    });
+  }
+
+  /**
+   * Apply the configured timeout outcome to a game whose turn deadline has passed
+   * Forfeit completes the game against the player on turn, skip passes the turn on,
+   * and AI takeover marks the seat so the scheduler plays it from now on.
+   * @param gameId - The game ID
+   * @param now - Current time (defaults to now)
+   * @returns Updated game state, or null if the game has no expired deadline
+   * @throws GameNotFoundError if game not found
+   */
+  async resolveTimeout(gameId: string, now: Date = new Date()): Promise<GameState | null> {
+    return await this.withGameLock(gameId, async (events) => {
+      const game = await this.repository.findById(gameId);
+
+      if (!game) {
+        throw new GameNotFoundError(gameId);
+      }
+
+      const plugin = this.registry.get(game.gameType);
+      if (!plugin) {
+        throw new Error(`Game type "${game.gameType}" is not supported`);
+      }
+
+      // Re-check under the lock: the player may have moved since the scheduler looked
+      const clock = getGameClock(game);
+      if (game.lifecycle !== GameLifecycle.ACTIVE || !clock || !isClockExpired(clock, now)) {
+        return null;
+      }
+
+      return this.applyTimeout(events, plugin, game, clock, now);
+    });
+  }
+
+  /**
+   * Apply a game's timeout outcome for an expired clock and save it
+   * Callers must hold the game lock.
+   * @returns Updated game state
+   * @private
+   */
+  private async applyTimeout(
+    events: DomainEvent[],
+    plugin: GameEnginePlugin,
+    game: GameState,
+    clock: GameClock,
+    now: Date
+  ): Promise<GameState> {
+    const timedOutPlayerId = clock.turnPlayerId;
+    let action = clock.timeControl.onTimeout ?? TimeoutAction.FORFEIT;
+
+    // AI takeover needs an AI-capable plugin; otherwise fall back to forfeit
+    const aiCapablePlugin = plugin as AICapableGamePlugin;
+    if (
+      action === TimeoutAction.AI_TAKEOVER &&
+      (!aiCapablePlugin.supportsAI || !aiCapablePlugin.supportsAI())
+    ) {
+      action = TimeoutAction.FORFEIT;
+    }
+
+    const timeoutRecord: TimeoutRecord = {
+      playerId: timedOutPlayerId,
+      action,
+      at: now.toISOString(),
+    };
+    const timeouts = [...(game.metadata.timeouts ?? []), timeoutRecord];
+
+    let updatedState: GameState;
+
+    if (action === TimeoutAction.SKIP) {
+      const advanced = plugin.advanceTurn(game);
+      updatedState = syncGameClock(
+        {
+          ...advanced,
+          metadata: { ...advanced.metadata, timeouts },
+          version: game.version + 1,
+          updatedAt: now,
+        },
+        plugin.getCurrentPlayer(advanced),
+        now
+      );
+    } else if (action === TimeoutAction.AI_TAKEOVER) {
+      const strategyId =
+        clock.timeControl.aiStrategyId ?? aiCapablePlugin.getDefaultAIStrategy().id;
+      updatedState = {
+        ...game,
+        players: game.players.map((p) =>
+          p.id === timedOutPlayerId
+            ? {
+                ...p,
+                metadata: { ...p.metadata, aiTakeover: { strategyId, since: now.toISOString() } },
+              }
+            : p
+        ),
+        metadata: { ...game.metadata, timeouts, clock: restartTurn(clock, now) },
+        version: game.version + 1,
+        updatedAt: now,
+      };
+    } else {
+      // In a two-player game the opponent wins; with more players nobody is awarded the win
+      const opponents = game.players.filter((p) => p.id !== timedOutPlayerId);
+      updatedState = {
+        ...game,
+        lifecycle: GameLifecycle.COMPLETED,
+        winner: opponents.length === 1 ? opponents[0].id : null,
+        metadata: { ...game.metadata, timeouts, isDraw: false },
+        version: game.version + 1,
+        updatedAt: now,
+      };
+    }
+
+    const savedState = await this.repository.update(game.gameId, updatedState, game.version);
+
+    if (savedState.lifecycle === GameLifecycle.COMPLETED) {
+      plugin.onGameEnded(savedState);
+    }
+
+    this.collectEvents(events, plugin, savedState, 'timeout', timedOutPlayerId);
+
+    return savedState;
+  }
+
+  /**
+   * Play or queue any AI turns that are due in an active game
+   * AI turns normally follow the move before them; this picks up a turn left
+   * pending when the service stopped in between.
+   * @param gameId - The game ID
+   * @returns Updated game state
+   * @throws GameNotFoundError if game not found
+   */
+  async resumeAITurns(gameId: string): Promise<GameState> {
+    return await this.withGameLock(gameId, async (events) => {
+      const game = await this.repository.findById(gameId);
+
+      if (!game) {
+        throw new GameNotFoundError(gameId);
+      }
+
+      if (game.lifecycle !== GameLifecycle.ACTIVE || !this.aiPlayerService) {
+        return game;
+      }
+
+      await this.aiPlayerService.restoreAIPlayers(game);
+      return this.handOffAITurns(events, game);
+    });
+  }
+
+  /**
+   * Resume pending AI turns in every active game with an AI player
+   * Run once at startup so games waiting on an AI move do not stall after a restart.
+   * @returns Number of active games with an AI player that were resumed
+   */
+  async resumePendingAITurns(): Promise<number> {
+    const games: GameState[] = [];
+    let page = 1;
+    let totalPages = 1;
+
+    // Collect every game first so games completing mid-scan cannot shift later pages
+    do {
+      const result = await this.repository.findAll({
+        lifecycle: GameLifecycle.ACTIVE,
+        page,
+        pageSize: StateManagerService.RESUME_PAGE_SIZE,
+      });
+      games.push(...result.items.filter((game) => game.players.some((p) => p.metadata?.isAI)));
+      totalPages = result.totalPages;
+      page++;
+    } while (page <= totalPages);
+
+    let resumed = 0;
+    for (const game of games) {
+      try {
+        await this.resumeAITurns(game.gameId);
+        resumed++;
+      } catch (error) {
+        // One broken game must not stop the rest from resuming
+        console.error(`Failed to resume AI turns for ${game.gameId}:`, error);
+      }
+    }
+
+    return resumed;
+  }
+
+  /**
+   * Play one AI turn and complete the game if the move ended it
+   * Used by the AI move worker. The move is generated without holding the game lock;
+   * the repository's version check rejects it if the game changed in the meantime.
+   * @param gameId - The game ID
+   * @param aiPlayerId - The AI player on turn
+   * @returns Updated game state
+   * @throws GameNotFoundError if game not found
+   */
+  async playAITurn(gameId: string, aiPlayerId: string): Promise<GameState> {
+    if (!this.aiPlayerService) {
+      throw new Error('AI players are not supported without an AI player service');
+    }
+
+    await this.aiPlayerService.processAITurn(gameId, aiPlayerId);
+
+    return await this.withGameLock(gameId, async (events) => {
+      const game = await this.repository.findById(gameId);
+
+      if (!game) {
+        throw new GameNotFoundError(gameId);
+      }
+
+      const plugin = this.registry.get(game.gameType);
+      if (!plugin) {
+        throw new Error(`Game type "${game.gameType}" is not supported`);
+      }
+
+      return this.finishAITurn(events, game, plugin);
+    });
+  }
+
+  /**
+   * Queue the AI turn for the worker if there is a queue, otherwise play it now
+   * @private
+   */
+  private async handOffAITurns(events: DomainEvent[], state: GameState): Promise<GameState> {
+    if (!this.aiMoveQueue) {
+      return this.processAITurnsIfNeeded(events, state);
+    }
+
+    const plugin = this.registry.get(state.gameType);
+    const currentPlayerId = plugin?.getCurrentPlayer(state);
+    if (
+      currentPlayerId &&
+      this.aiPlayerService &&
+      (await this.aiPlayerService.isAIPlayer(currentPlayerId))
+    ) {
+      await this.aiMoveQueue.enqueue(createAIMoveJob(state.gameId));
+    }
+
+    return state;
+  }
+
   /**
    * Process consecutive AI turns until human player or game end
    * @private
    */
-  private async processAITurnsIfNeeded(state: GameState): Promise<GameState> {
+  private async processAITurnsIfNeeded(
+    events: DomainEvent[],
+    state: GameState
+  ): Promise<GameState> {
     if (!this.aiPlayerService) {
       return state; // No AI service available
     }
@@ -228,49 +786,8 @@ export class StateManagerService {
           break; // Game not found
         }
 
-        currentState = freshState;
-
-        // Broadcast AI move update via WebSocket (non-blocking)
-        if (this.webSocketService) {
-          // Enhance the current state with AI information before broadcasting
-          const enhancedState = this.enhanceGameWithAIInfo(currentState);
-          this.broadcastGameUpdate(currentState.gameId, enhancedState).catch((error) => {
-            console.error(`Failed to broadcast AI move update for ${currentState.gameId}:`, error);
-          });
-        }
-
-        // Check if game ended after AI move
-        if (plugin.isGameOver(currentState)) {
-          const winner = plugin.getWinner(currentState);
-          const isDraw = winner === null;
-
-          currentState = {
-            ...currentState,
-            lifecycle: GameLifecycle.COMPLETED,
-            winner,
-            metadata: {
-              ...currentState.metadata,
-              isDraw,
-            },
-            updatedAt: new Date(),
-          };
-
-          // Save the completed state
-          await this.repository.update(currentState.gameId, currentState, currentState.version);
-
-          // Invoke onGameEnded hook
-          plugin.onGameEnded(currentState);
-
-          // Broadcast game completion
-          if (this.webSocketService) {
-            this.broadcastGameComplete(currentState.gameId, currentState.winner).catch((error) => {
-              console.error(
-                `Failed to broadcast game completion for ${currentState.gameId}:`,
-                error
-              );
-            });
-          }
-
+        currentState = await this.finishAITurn(events, freshState, plugin);
+        if (currentState.lifecycle === GameLifecycle.COMPLETED) {
           break; // Game ended
         }
       } catch (error) {
@@ -293,61 +810,120 @@ export class StateManagerService {
   }
 
   /**
-   * Enhance a game state with AI player information
-   * @param game - The game state to enhance
-   * @returns Enhanced game state with AI indicators
+   * Complete the game if an AI move ended it, then collect the move's events
+   * @returns The game state after the AI move
+   * @private
    */
-  private enhanceGameWithAIInfo(game: GameState): GameState {
-    const aiPlayerCount = game.players.filter((player) => player.metadata?.isAI === true).length;
-    const hasAIPlayers = aiPlayerCount > 0;
+  private async finishAITurn(
+    events: DomainEvent[],
+    state: GameState,
+    plugin: GameEnginePlugin
+  ): Promise<GameState> {
+    const aiMove = state.moveHistory[state.moveHistory.length - 1];
 
-    return {
-      ...game,
+    // Check if game ended after AI move
+    if (state.lifecycle !== GameLifecycle.ACTIVE || !plugin.isGameOver(state)) {
+      this.collectEvents(events, plugin, state, 'move', aiMove?.playerId ?? null, { move: aiMove });
+      return state;
+    }
+
+    const winner = plugin.getWinner(state);
+    const isDraw = winner === null;
+
+    const completedState: GameState = {
+      ...state,
+      lifecycle: GameLifecycle.COMPLETED,
+      winner,
       metadata: {
-        ...game.metadata,
-        hasAIPlayers,
-        aiPlayerCount,
+        ...state.metadata,
+        isDraw,
       },
+      updatedAt: new Date(),
     };
+
+    // Save the completed state
+    await this.repository.update(completedState.gameId, completedState, completedState.version);
+
+    // Invoke onGameEnded hook
+    plugin.onGameEnded(completedState);
+
+    this.collectEvents(events, plugin, completedState, 'move', aiMove?.playerId ?? null, {
+      move: aiMove,
+    });
+
+    return completedState;
   }
 
   /**
-   * Broadcast game update to all subscribers
-   * @param gameId - The game ID
-   * @param gameState - The updated game state
+   * Run work under the game lock, then publish the domain events it collected
+   * Events are published after the lock is released, even when the work throws after
+   * saving, so event handlers never hold up other updates to the game.
+   * @param work - Work to run under the lock; it collects events instead of publishing them
+   * @private
    */
-  private async broadcastGameUpdate(gameId: string, gameState: GameState): Promise<void> {
-    if (!this.webSocketService) {
-      return;
+  private async withGameLock<T>(
+    gameId: string,
+    work: (events: DomainEvent[]) => Promise<T>
+  ): Promise<T> {
+    const events: DomainEvent[] = [];
+    try {
+      return await this.lockManager.withLock(gameId, () => work(events));
+    } finally {
+      if (this.eventBus) {
+        for (const event of events) {
+          await this.eventBus.publish(event);
+        }
+      }
     }
-
-    const message: GameUpdateMessage = {
-      type: WebSocketMessageType.GAME_UPDATE,
-      gameId,
-      gameState,
-      timestamp: new Date(),
-    };
-
-    await this.webSocketService.broadcastToGame(gameId, message);
   }
 
   /**
-   * Broadcast game completion to all subscribers
-   * @param gameId - The game ID
-   * @param winner - The winner player ID (null for draw)
+   * Collect the domain events for a saved update
+   * Always collects GameUpdated, then the move (if any), then either a turn change
+   * when a different player is now on turn or the result when the update ended the game.
+   * @param events - Events waiting to be published once the game lock is released
+   * @param reason - What changed the game, e.g. "move" or "resign"
+   * @param previousPlayerId - The player on turn before the update
+   * @param options - The move behind the update, and whether a result is rated
+   * @private
    */
-  private async broadcastGameComplete(gameId: string, winner: string | null): Promise<void> {
-    if (!this.webSocketService) {
-      return;
+  private collectEvents(
+    events: DomainEvent[],
+    plugin: GameEnginePlugin,
+    game: GameState,
+    reason: string,
+    previousPlayerId: string | null,
+    options: { move?: Move; rated?: boolean } = {}
+  ): void {
+    events.push({ type: DomainEventType.GAME_UPDATED, game, reason });
+
+    if (options.move) {
+      events.push({
+        type: DomainEventType.MOVE_APPLIED,
+        game,
+        playerId: options.move.playerId,
+        move: options.move,
+      });
     }
 
-    const message: GameCompleteMessage = {
-      type: WebSocketMessageType.GAME_COMPLETE,
-      gameId,
-      winner,
-      timestamp: new Date(),
-    };
-
-    await this.webSocketService.broadcastToGame(gameId, message);
+    if (game.lifecycle === GameLifecycle.ACTIVE) {
+      const currentPlayerId = plugin.getCurrentPlayer(game);
+      if (currentPlayerId !== previousPlayerId) {
+        events.push({
+          type: DomainEventType.TURN_CHANGED,
+          game,
+          previousPlayerId,
+          currentPlayerId,
+        });
+      }
+    } else if (game.lifecycle === GameLifecycle.COMPLETED) {
+      events.push({
+        type: DomainEventType.GAME_COMPLETED,
+        game,
+        winner: game.winner,
+        isDraw: game.metadata?.isDraw === true,
+        rated: options.rated ?? true,
+      });
+    }
   }
 }
@@ -7,13 +7,19 @@ import { GameState } from '@domain/models';
 import {
   PlayerStats,
   LeaderboardEntry,
+  LeaderboardSort,
   GameHistoryFilters,
   PostgresStatsRepository,
 } from '@infrastructure/persistence/PostgresStatsRepository';
 import { getLogger } from '@infrastructure/logging/Logger';
+import { toGameView } from '@domain/game-utils/GameView';
+import { PluginRegistry } from '@application/PluginRegistry';
 
 export class StatsService {
-  constructor(private statsRepository: PostgresStatsRepository) {}
+  constructor(
+    private statsRepository: PostgresStatsRepository,
+    private registry: PluginRegistry
+  ) {}
 
   /**
    * Get player statistics
@@ -41,18 +47,24 @@ export class StatsService {
    * Get leaderboard with rankings
    * @param gameType - Optional game type filter
    * @param limit - Maximum number of entries (default 100)
-   * @returns Leaderboard entries ordered by win rate
+   * @param sortBy - Ordering of the entries (default winRate)
+   * @returns Leaderboard entries ordered by win rate or rating
    */
-  async getLeaderboard(gameType?: string, limit?: number): Promise<LeaderboardEntry[]> {
+  async getLeaderboard(
+    gameType?: string,
+    limit?: number,
+    sortBy?: LeaderboardSort
+  ): Promise<LeaderboardEntry[]> {
     const logger = getLogger();
 
     try {
-      const leaderboard = await this.statsRepository.getLeaderboard(gameType, limit);
+      const leaderboard = await this.statsRepository.getLeaderboard(gameType, limit, sortBy);
       return leaderboard;
     } catch (error) {
       logger.error('Failed to get leaderboard', {
         gameType,
         limit,
+        sortBy,
         error: error instanceof Error ? error.message : String(error),
       });
       throw error;
@@ -63,6 +75,8 @@ export class StatsService {
    * Get game history for a player
    * @param userId - User ID to get history for
    * @param filters - Optional filters for game type, lifecycle, pagination
+   * Each game is returned as the player sees it, so opponents' hidden information and
+   * the server seed of games still in progress are left out.
    * @returns Array of game states ordered by most recent first
    */
   async getGameHistory(userId: string, filters: GameHistoryFilters = {}): Promise<GameState[]> {
@@ -70,7 +84,7 @@ export class StatsService {
 
     try {
       const games = await this.statsRepository.getGameHistory(userId, filters);
-      return games;
+      return games.map((game) => toGameView(this.registry.get(game.gameType), game, userId));
     } catch (error) {
       logger.error('Failed to get game history', {
         userId,
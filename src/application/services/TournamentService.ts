@@ -0,0 +1,406 @@
+import { randomUUID } from 'crypto';
+import { GameManagerService } from '@application/services/GameManagerService';
+import { GameLockManager } from '@application/GameLockManager';
+import { ITournamentRepository } from '@domain/interfaces/ITournamentRepository';
+import {
+  GameState,
+  GameLifecycle,
+  Tournament,
+  TournamentFormat,
+  TournamentMatch,
+  TournamentRound,
+  TournamentStanding,
+  TournamentStatus,
+  MIN_TOURNAMENT_PARTICIPANTS,
+} from '@domain/models';
+import {
+  calculateStandings,
+  createByeMatch,
+  createRoundPairings,
+  decideMatch,
+  getTotalRounds,
+} from '@domain/game-utils/TournamentPairing';
+import {
+  ForbiddenError,
+  InvalidTournamentActionError,
+  InvalidTournamentError,
+  TournamentNotFoundError,
+} from '@domain/errors';
+import { Logger } from '@infrastructure/logging/Logger';
+
+/**
+ * Settings chosen when a tournament is created
+ */
+export interface CreateTournamentParams {
+  name: string;
+  gameType: string;
+  format: TournamentFormat;
+  /** Number of Swiss rounds (defaults to enough rounds to separate the field) */
+  rounds?: number;
+  customSettings?: Record<string, unknown>;
+}
+
+/**
+ * A match in the bracket, with player names filled in
+ */
+export interface BracketMatch extends TournamentMatch {
+  player1Name: string;
+  player2Name: string | null;
+}
+
+/**
+ * Rounds of a tournament as shown in a bracket
+ */
+export interface TournamentBracket {
+  tournamentId: string;
+  format: TournamentFormat;
+  status: TournamentStatus;
+  totalRounds?: number;
+  rounds: Array<{ number: number; matches: BracketMatch[] }>;
+  winnerId: string | null;
+}
+
+/**
+ * Service for running tournaments
+ * Creates a game for every pairing through GameManagerService and pairs the next
+ * round once every game of the current round has finished.
+ */
+export class TournamentService {
+  private readonly lockManager = new GameLockManager();
+  private readonly logger: Logger;
+
+  constructor(
+    private tournamentRepository: ITournamentRepository,
+    private gameManagerService: GameManagerService,
+    logger?: Logger
+  ) {
+    this.logger = logger || new Logger('info', 'json');
+  }
+
+  /**
+   * Create a tournament open for registration
+   * @param params - Name, game type, format and settings
+   * @param creator - The organiser, who is the only one allowed to start it
+   * @throws InvalidTournamentError if the settings are invalid
+   */
+  async createTournament(
+    params: CreateTournamentParams,
+    creator: { id: string; username: string }
+  ): Promise<Tournament> {
+    if (!params.name || params.name.trim() === '') {
+      throw new InvalidTournamentError('name is required');
+    }
+
+    if (!Object.values(TournamentFormat).includes(params.format)) {
+      throw new InvalidTournamentError(
+        `format must be one of: ${Object.values(TournamentFormat).join(', ')}`
+      );
+    }
+
+    const gameTypeInfo = this.gameManagerService
+      .listAvailableGameTypes()
+      .find((info) => info.type === params.gameType);
+    if (!gameTypeInfo) {
+      throw new InvalidTournamentError(`game type "${params.gameType}" is not supported`);
+    }
+    if (gameTypeInfo.minPlayers > 2 || gameTypeInfo.maxPlayers < 2) {
+      throw new InvalidTournamentError(`game type "${params.gameType}" is not a two-player game`);
+    }
+
+    if (params.rounds !== undefined) {
+      if (params.format !== TournamentFormat.SWISS) {
+        throw new InvalidTournamentError('rounds can only be set for Swiss tournaments');
+      }
+      if (!Number.isInteger(params.rounds) || params.rounds < 1) {
+        throw new InvalidTournamentError('rounds must be a positive integer');
+      }
+    }
+
+    const now = new Date();
+    const tournament: Tournament = {
+      tournamentId: randomUUID(),
+      name: params.name.trim(),
+      gameType: params.gameType,
+      format: params.format,
+      status: TournamentStatus.REGISTRATION,
+      createdBy: creator.id,
+      participants: [],
+      ...(params.rounds !== undefined && { totalRounds: params.rounds }),
+      rounds: [],
+      ...(params.customSettings && { customSettings: params.customSettings }),
+      winnerId: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    return this.tournamentRepository.create(tournament);
+  }
+
+  /**
+   * Register a player for a tournament
+   * Seeds follow registration order.
+   * @throws TournamentNotFoundError if the tournament does not exist
+   * @throws InvalidTournamentActionError if registration is closed or the player already joined
+   */
+  async joinTournament(
+    tournamentId: string,
+    player: { id: string; name: string }
+  ): Promise<Tournament> {
+    return this.lockManager.withLock(tournamentId, async () => {
+      const tournament = await this.getTournament(tournamentId);
+
+      if (tournament.status !== TournamentStatus.REGISTRATION) {
+        throw new InvalidTournamentActionError('join', 'registration is closed');
+      }
+      if (tournament.participants.some((p) => p.id === player.id)) {
+        throw new InvalidTournamentActionError('join', 'player is already registered');
+      }
+
+      return this.tournamentRepository.update({
+        ...tournament,
+        participants: [
+          ...tournament.participants,
+          { id: player.id, name: player.name, seed: tournament.participants.length + 1 },
+        ],
+        updatedAt: new Date(),
+      });
+    });
+  }
+
+  /**
+   * Close registration and start the first round
+   * @param tournamentId - The tournament to start
+   * @param userId - The user starting it; must be the organiser
+   * @throws ForbiddenError if the user is not the organiser
+   * @throws InvalidTournamentActionError if the tournament already started or has too few players
+   */
+  async startTournament(tournamentId: string, userId: string): Promise<Tournament> {
+    return this.lockManager.withLock(tournamentId, async () => {
+      const tournament = await this.getTournament(tournamentId);
+
+      if (tournament.createdBy !== userId) {
+        throw new ForbiddenError('only the organiser can start a tournament');
+      }
+      if (tournament.status !== TournamentStatus.REGISTRATION) {
+        throw new InvalidTournamentActionError('start', `tournament is ${tournament.status}`);
+      }
+      if (tournament.participants.length < MIN_TOURNAMENT_PARTICIPANTS) {
+        throw new InvalidTournamentActionError(
+          'start',
+          `at least ${MIN_TOURNAMENT_PARTICIPANTS} participants are required`
+        );
+      }
+
+      const started = await this.startNextRound({
+        ...tournament,
+        status: TournamentStatus.IN_PROGRESS,
+        totalRounds: getTotalRounds(
+          tournament.format,
+          tournament.participants.length,
+          tournament.totalRounds
+        ),
+      });
+
+      this.logger.info('Tournament started', {
+        tournamentId,
+        format: tournament.format,
+        participants: tournament.participants.length,
+      });
+
+      return this.tournamentRepository.update(started);
+    });
+  }
+
+  /**
+   * Apply the outcome of a finished game to its tournament
+   * Completed games decide their match; abandoned games are replayed with a fresh game.
+   * When the last match of a round is decided the next round is paired, or the
+   * tournament completes. Games outside any running tournament are ignored.
+   * @param game - A game that just completed or was abandoned
+   * @returns The updated tournament, or null if the game is not a tournament game
+   */
+  async recordGameResult(game: GameState): Promise<Tournament | null> {
+    if (game.lifecycle !== GameLifecycle.COMPLETED && game.lifecycle !== GameLifecycle.ABANDONED) {
+      return null;
+    }
+
+    const running = await this.tournamentRepository.findAll(TournamentStatus.IN_PROGRESS);
+    const owner = running.find((t) => this.findMatchByGame(t, game.gameId));
+    if (!owner) {
+      return null;
+    }
+
+    return this.lockManager.withLock(owner.tournamentId, async () => {
+      const tournament = await this.getTournament(owner.tournamentId);
+      const match = this.findMatchByGame(tournament, game.gameId);
+      if (!match || match.result !== undefined) {
+        return tournament;
+      }
+
+      let updatedMatch: TournamentMatch;
+      if (game.lifecycle === GameLifecycle.ABANDONED) {
+        updatedMatch = { ...match, gameId: (await this.createMatchGame(tournament, match)).gameId };
+        this.logger.info('Replaying abandoned tournament game', {
+          tournamentId: tournament.tournamentId,
+          matchId: match.matchId,
+          gameId: game.gameId,
+        });
+      } else {
+        updatedMatch = decideMatch(match, game.winner, tournament.participants, tournament.format);
+      }
+
+      let updated: Tournament = {
+        ...tournament,
+        rounds: tournament.rounds.map((round) => ({
+          ...round,
+          matches: round.matches.map((m) => (m.matchId === match.matchId ? updatedMatch : m)),
+        })),
+        updatedAt: new Date(),
+      };
+
+      if (this.isCurrentRoundDecided(updated)) {
+        updated = await this.finishRound(updated);
+      }
+
+      return this.tournamentRepository.update(updated);
+    });
+  }
+
+  /**
+   * Get a tournament
+   * @throws TournamentNotFoundError if the tournament does not exist
+   */
+  async getTournament(tournamentId: string): Promise<Tournament> {
+    const tournament = await this.tournamentRepository.findById(tournamentId);
+    if (!tournament) {
+      throw new TournamentNotFoundError(tournamentId);
+    }
+    return tournament;
+  }
+
+  /**
+   * List tournaments, newest first
+   * @param status - Optional status filter
+   */
+  async listTournaments(status?: TournamentStatus): Promise<Tournament[]> {
+    return this.tournamentRepository.findAll(status);
+  }
+
+  /**
+   * Get the standings table
+   * @throws TournamentNotFoundError if the tournament does not exist
+   */
+  async getStandings(tournamentId: string): Promise<TournamentStanding[]> {
+    return calculateStandings(await this.getTournament(tournamentId));
+  }
+
+  /**
+   * Get the rounds played so far with player names
+   * @throws TournamentNotFoundError if the tournament does not exist
+   */
+  async getBracket(tournamentId: string): Promise<TournamentBracket> {
+    const tournament = await this.getTournament(tournamentId);
+    const names = new Map(tournament.participants.map((p) => [p.id, p.name]));
+
+    return {
+      tournamentId: tournament.tournamentId,
+      format: tournament.format,
+      status: tournament.status,
+      totalRounds: tournament.totalRounds,
+      rounds: tournament.rounds.map((round) => ({
+        number: round.number,
+        matches: round.matches.map((match) => ({
+          ...match,
+          player1Name: names.get(match.player1Id) ?? match.player1Id,
+          player2Name: match.player2Id ? (names.get(match.player2Id) ?? match.player2Id) : null,
+        })),
+      })),
+      winnerId: tournament.winnerId,
+    };
+  }
+
+  /**
+   * Complete the tournament after its last round, or pair the next one
+   */
+  private async finishRound(tournament: Tournament): Promise<Tournament> {
+    if (tournament.rounds.length < tournament.totalRounds!) {
+      return this.startNextRound(tournament);
+    }
+
+    const finalRound = tournament.rounds[tournament.rounds.length - 1];
+    const winnerId =
+      tournament.format === TournamentFormat.KNOCKOUT
+        ? (finalRound.matches[0].winnerId ?? null)
+        : calculateStandings(tournament)[0].playerId;
+
+    this.logger.info('Tournament completed', {
+      tournamentId: tournament.tournamentId,
+      winnerId,
+    });
+
+    return { ...tournament, status: TournamentStatus.COMPLETED, winnerId };
+  }
+
+  /**
+   * Pair the next round and create a game for every match
+   * Byes are decided straight away; if they decide the whole round, play moves on.
+   */
+  private async startNextRound(tournament: Tournament): Promise<Tournament> {
+    const number = tournament.rounds.length + 1;
+    const matches: TournamentMatch[] = [];
+
+    for (const [player1Id, player2Id] of createRoundPairings(tournament)) {
+      const matchId = randomUUID();
+      if (player2Id === null) {
+        matches.push(createByeMatch(matchId, number, player1Id));
+        continue;
+      }
+
+      const match: TournamentMatch = { matchId, round: number, player1Id, player2Id };
+      const game = await this.createMatchGame(tournament, match);
+      matches.push({ ...match, gameId: game.gameId });
+    }
+
+    const round: TournamentRound = { number, matches };
+    const updated = { ...tournament, rounds: [...tournament.rounds, round], updatedAt: new Date() };
+
+    return this.isCurrentRoundDecided(updated) ? this.finishRound(updated) : updated;
+  }
+
+  /**
+   * Create the game for a match; player1 moves first
+   */
+  private async createMatchGame(
+    tournament: Tournament,
+    match: TournamentMatch
+  ): Promise<GameState> {
+    const names = new Map(tournament.participants.map((p) => [p.id, p.name]));
+    const joinedAt = new Date();
+    const players = [match.player1Id, match.player2Id!].map((id) => ({
+      id,
+      name: names.get(id) ?? id,
+      joinedAt,
+    }));
+
+    return this.gameManagerService.createGame(
+      tournament.gameType,
+      {
+        players,
+        ...(tournament.customSettings && { customSettings: tournament.customSettings }),
+      },
+      { id: players[0].id, username: players[0].name },
+      `${tournament.name} - Round ${match.round}`
+    );
+  }
+
+  private isCurrentRoundDecided(tournament: Tournament): boolean {
+    const current = tournament.rounds[tournament.rounds.length - 1];
+    return current !== undefined && current.matches.every((m) => m.result !== undefined);
+  }
+
+  private findMatchByGame(tournament: Tournament, gameId: string): TournamentMatch | undefined {
+    return tournament.rounds
+      .flatMap((round) => round.matches)
+      .find((match) => match.gameId === gameId);
+  }
+}
@@ -0,0 +1,134 @@
+import { PluginRegistry } from '@application/PluginRegistry';
+import { StateManagerService } from '@application/services/StateManagerService';
+import { ITimedGameRepository, AICapableGamePlugin } from '@domain/interfaces';
+import { GameState, GameLifecycle } from '@domain/models';
+import { getGameClock, isClockExpired } from '@domain/game-utils/TurnClock';
+import { Logger } from '@infrastructure/logging/Logger';
+import { IntervalWorker } from '@infrastructure/scheduling/IntervalWorker';
+
+/**
+ * Background scheduler for correspondence time controls
+ * Periodically looks up the active timed games that are due, resolves expired
+ * turn deadlines and plays moves for seats that have been handed over to an AI.
+ */
+export class TurnTimeoutService {
+  private readonly logger: Logger;
+  private readonly worker: IntervalWorker;
+
+  constructor(
+    private repository: ITimedGameRepository,
+    private registry: PluginRegistry,
+    private stateManagerService: StateManagerService,
+    logger?: Logger
+  ) {
+    this.logger = logger || new Logger('info', 'json');
+    this.worker = new IntervalWorker(this.logger, 'Turn timeout check failed');
+  }
+
+  /**
+   * Start checking deadlines on a fixed interval
+   * @param intervalMs - How often to scan for expired deadlines
+   */
+  start(intervalMs: number): void {
+    this.worker.start(intervalMs, () => this.checkTimeouts());
+  }
+
+  /**
+   * Stop the scheduler
+   */
+  stop(): void {
+    this.worker.stop();
+  }
+
+  /**
+   * Run a single pass over the timed games that are due
+   * @param now - Current time (defaults to now)
+   * @returns Number of games that were changed by this pass
+   */
+  async checkTimeouts(now: Date = new Date()): Promise<number> {
+    return this.worker.runExclusive(async () => {
+      const games = await this.repository.findDueTimedGames(now);
+      let changed = 0;
+
+      for (const game of games) {
+        try {
+          if (await this.processGame(game, now)) {
+            changed++;
+          }
+        } catch (error) {
+          // One broken game must not stop the rest of the pass
+          this.logger.error('Failed to process turn timeout', {
+            gameId: game.gameId,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+      }
+
+      return changed;
+    }, 0);
+  }
+
+  /**
+   * Resolve an expired deadline or play a taken-over seat
+   * @returns true if the game was changed
+   */
+  private async processGame(game: GameState, now: Date): Promise<boolean> {
+    const clock = getGameClock(game)!;
+    let current = game;
+
+    if (isClockExpired(clock, now)) {
+      const resolved = await this.stateManagerService.resolveTimeout(game.gameId, now);
+      if (!resolved) {
+        return false;
+      }
+
+      const timeouts = resolved.metadata.timeouts ?? [];
+      this.logger.info('Turn deadline expired', {
+        gameId: game.gameId,
+        playerId: clock.turnPlayerId,
+        action: timeouts[timeouts.length - 1]?.action,
+      });
+      current = resolved;
+    }
+
+    if (current.lifecycle === GameLifecycle.ACTIVE) {
+      const played = await this.playTakenOverSeat(current);
+      return played || current !== game;
+    }
+
+    return current !== game;
+  }
+
+  /**
+   * Play a move for the player on turn if their seat was handed to an AI
+   * @returns true if a move was played
+   */
+  private async playTakenOverSeat(game: GameState): Promise<boolean> {
+    const plugin = this.registry.get(game.gameType) as AICapableGamePlugin | undefined;
+    if (!plugin || !plugin.supportsAI || !plugin.supportsAI()) {
+      return false;
+    }
+
+    const playerId = plugin.getCurrentPlayer(game);
+    const player = game.players.find((p) => p.id === playerId);
+    const takeover = player?.metadata?.aiTakeover as { strategyId: string } | undefined;
+    if (!takeover) {
+      return false;
+    }
+
+    const strategy =
+      plugin.getAIStrategies().find((s) => s.id === takeover.strategyId) ??
+      plugin.getDefaultAIStrategy();
+
+    const move = await strategy.generateMove(game, playerId);
+    await this.stateManagerService.applyMove(game.gameId, playerId, move, game.version);
+
+    this.logger.info('AI played taken-over seat', {
+      gameId: game.gameId,
+      playerId,
+      strategyId: strategy.id,
+    });
+
+    return true;
+  }
+}
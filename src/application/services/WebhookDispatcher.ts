@@ -0,0 +1,148 @@
+import { createHmac } from 'crypto';
+import { IWebhookRepository, IWebhookSender } from '@domain/interfaces';
+import {
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  WEBHOOK_MAX_ATTEMPTS,
+  getWebhookRetryDelayMs,
+} from '@domain/models';
+import { Logger } from '@infrastructure/logging/Logger';
+import { IntervalWorker } from '@infrastructure/scheduling/IntervalWorker';
+
+/**
+ * Sign a webhook payload
+ * Receivers recompute the HMAC over `${timestamp}.${body}` with their webhook's secret
+ * and compare it to the X-Webhook-Signature header.
+ * @returns The signature as `sha256=<hex>`
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  const digest = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `sha256=${digest}`;
+}
+
+/**
+ * Background worker that sends pending webhook deliveries
+ * A delivery succeeds on any 2xx response. Anything else is retried with exponential
+ * backoff until the last attempt, after which the delivery is marked as failed.
+ */
+export class WebhookDispatcher {
+  private static readonly BATCH_SIZE = 50;
+  private readonly logger: Logger;
+  private readonly worker: IntervalWorker;
+
+  constructor(
+    private repository: IWebhookRepository,
+    private sender: IWebhookSender,
+    logger?: Logger
+  ) {
+    this.logger = logger || new Logger('info', 'json');
+    this.worker = new IntervalWorker(this.logger, 'Webhook dispatch pass failed');
+  }
+
+  /**
+   * Start sending due deliveries on a fixed interval
+   * @param intervalMs - How often to look for due deliveries
+   */
+  start(intervalMs: number): void {
+    this.worker.start(intervalMs, () => this.processDeliveries());
+  }
+
+  /**
+   * Stop the dispatcher
+   */
+  stop(): void {
+    this.worker.stop();
+  }
+
+  /**
+   * Attempt every delivery that is due
+   * @param now - Current time (defaults to now)
+   * @returns Number of deliveries that succeeded
+   */
+  async processDeliveries(now: Date = new Date()): Promise<number> {
+    return this.worker.runExclusive(async () => {
+      const deliveries = await this.repository.findDueDeliveries(now, WebhookDispatcher.BATCH_SIZE);
+      const results = await Promise.all(deliveries.map((delivery) => this.attempt(delivery, now)));
+      return results.filter(Boolean).length;
+    }, 0);
+  }
+
+  /**
+   * Send a delivery once and record the outcome
+   * @returns true if the endpoint accepted it
+   * @private
+   */
+  private async attempt(delivery: WebhookDelivery, now: Date): Promise<boolean> {
+    const webhook = await this.repository.findById(delivery.webhookId);
+    if (!webhook) {
+      // Deleted since the event was published
+      return false;
+    }
+
+    const { event } = delivery;
+    const body = JSON.stringify({
+      id: event.eventId,
+      type: event.type,
+      occurredAt: event.occurredAt.toISOString(),
+      gameId: event.gameId,
+      gameType: event.gameType,
+      data: event.data,
+    });
+    const timestamp = Math.floor(now.getTime() / 1000);
+    const attempts = delivery.attempts + 1;
+
+    let statusCode: number | undefined;
+    let error: string | undefined;
+    try {
+      ({ statusCode } = await this.sender.post(webhook.url, body, {
+        'User-Agent': 'async-boardgame-service-webhooks',
+        'X-Webhook-Id': webhook.webhookId,
+        'X-Webhook-Delivery': delivery.deliveryId,
+        'X-Webhook-Event': event.type,
+        'X-Webhook-Timestamp': String(timestamp),
+        'X-Webhook-Signature': signWebhookPayload(webhook.secret, timestamp, body),
+      }));
+      if (statusCode < 200 || statusCode >= 300) {
+        error = `Endpoint responded with ${statusCode}`;
+      }
+    } catch (sendError) {
+      error = sendError instanceof Error ? sendError.message : String(sendError);
+    }
+
+    if (!error) {
+      await this.repository.saveDelivery({
+        ...delivery,
+        status: WebhookDeliveryStatus.SUCCEEDED,
+        attempts,
+        nextAttemptAt: null,
+        lastStatusCode: statusCode,
+        lastError: undefined,
+        deliveredAt: now,
+      });
+      return true;
+    }
+
+    const gaveUp = attempts >= WEBHOOK_MAX_ATTEMPTS;
+    const retryInMs = getWebhookRetryDelayMs(attempts);
+    await this.repository.saveDelivery({
+      ...delivery,
+      status: gaveUp ? WebhookDeliveryStatus.FAILED : WebhookDeliveryStatus.PENDING,
+      attempts,
+      nextAttemptAt: gaveUp ? null : new Date(now.getTime() + retryInMs),
+      lastStatusCode: statusCode,
+      lastError: error,
+    });
+
+    this.logger.warn(
+      gaveUp ? 'Webhook delivery failed, giving up' : 'Webhook delivery failed, retrying',
+      {
+        webhookId: webhook.webhookId,
+        deliveryId: delivery.deliveryId,
+        attempts,
+        ...(!gaveUp && { retryInMs }),
+        error,
+      }
+    );
+    return false;
+  }
+}
@@ -0,0 +1,283 @@
+import { randomBytes, randomUUID } from 'crypto';
+import { GameRepository, IWebhookHostPolicy, IWebhookRepository } from '@domain/interfaces';
+import {
+  GameState,
+  Webhook,
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  WebhookEvent,
+  WebhookEventType,
+  WebhookView,
+  toWebhookView,
+} from '@domain/models';
+import { ForbiddenError, InvalidWebhookError, WebhookNotFoundError } from '@domain/errors';
+import { Logger } from '@infrastructure/logging/Logger';
+
+/**
+ * Parameters for registering a webhook
+ */
+export interface RegisterWebhookParams {
+  url: string;
+  /** Events to send; defaults to every event */
+  eventTypes?: WebhookEventType[];
+  gameId?: string;
+  gameType?: string;
+}
+
+/**
+ * Service for registering webhooks and recording the events they should receive
+ * Publishing only records a delivery per matching webhook; the WebhookDispatcher
+ * sends them, so a slow endpoint never holds up a move.
+ *
+ * Only admins may watch every game. Other users' webhooks only receive events
+ * for games they play in, whatever their filters say.
+ */
+export class WebhookService {
+  private static readonly MAX_WEBHOOKS_PER_USER = 20;
+  private readonly logger: Logger;
+
+  constructor(
+    private repository: IWebhookRepository,
+    private gameRepository: GameRepository,
+    private hostPolicy: IWebhookHostPolicy,
+    private adminUserIds: string[] = [],
+    logger?: Logger
+  ) {
+    this.logger = logger || new Logger('info', 'json');
+  }
+
+  /**
+   * Register a webhook
+   * @param ownerId - The user registering the webhook
+   * @returns The webhook, including the secret used to sign its deliveries
+   * @throws InvalidWebhookError if the URL or filters are invalid, or the user has too many webhooks
+   * @throws ForbiddenError if a non-admin leaves out both filters or names a game they do not play in
+   */
+  async register(ownerId: string, params: RegisterWebhookParams): Promise<Webhook> {
+    const url = await this.validateUrl(params.url);
+    const eventTypes = this.validateEventTypes(params.eventTypes);
+
+    for (const [name, value] of [
+      ['gameId', params.gameId],
+      ['gameType', params.gameType],
+    ] as const) {
+      if (value !== undefined && (typeof value !== 'string' || value.trim() === '')) {
+        throw new InvalidWebhookError(`${name} must be a non-empty string`);
+      }
+    }
+
+    if (!this.isAdmin(ownerId)) {
+      if (!params.gameId && !params.gameType) {
+        throw new ForbiddenError('Only admins can register webhooks without a gameId or gameType');
+      }
+
+      if (params.gameId) {
+        const game = await this.gameRepository.findById(params.gameId);
+        if (!game || !this.isPlayer(ownerId, game)) {
+          throw new ForbiddenError('Webhooks can only be registered for games you play in');
+        }
+      }
+    }
+
+    const existing = await this.repository.findAll(ownerId);
+    if (existing.length >= WebhookService.MAX_WEBHOOKS_PER_USER) {
+      throw new InvalidWebhookError(
+        `a user can register at most ${WebhookService.MAX_WEBHOOKS_PER_USER} webhooks`
+      );
+    }
+
+    const webhook: Webhook = {
+      webhookId: randomUUID(),
+      ownerId,
+      url,
+      secret: randomBytes(32).toString('hex'),
+      eventTypes,
+      ...(params.gameId && { gameId: params.gameId }),
+      ...(params.gameType && { gameType: params.gameType }),
+      createdAt: new Date(),
+    };
+
+    await this.repository.create(webhook);
+    this.logger.info('Webhook registered', {
+      webhookId: webhook.webhookId,
+      ownerId,
+      eventTypes,
+    });
+    return webhook;
+  }
+
+  /**
+   * List webhooks without their secrets
+   * @param ownerId - Only list this user's webhooks; admins may leave it out to list all
+   */
+  async listWebhooks(ownerId?: string): Promise<WebhookView[]> {
+    const webhooks = await this.repository.findAll(ownerId);
+    return webhooks.map(toWebhookView);
+  }
+
+  /**
+   * Get a webhook without its secret
+   * @throws WebhookNotFoundError if the webhook does not exist or belongs to someone else
+   */
+  async getWebhook(webhookId: string, actorId: string, asAdmin: boolean): Promise<WebhookView> {
+    return toWebhookView(await this.getAccessibleWebhook(webhookId, actorId, asAdmin));
+  }
+
+  /**
+   * Delete a webhook and its delivery log
+   * @throws WebhookNotFoundError if the webhook does not exist or belongs to someone else
+   */
+  async deleteWebhook(webhookId: string, actorId: string, asAdmin: boolean): Promise<void> {
+    await this.getAccessibleWebhook(webhookId, actorId, asAdmin);
+    await this.repository.delete(webhookId);
+    this.logger.info('Webhook deleted', { webhookId, actorId, asAdmin });
+  }
+
+  /**
+   * Get a webhook's most recent deliveries, newest first
+   * @param limit - Most deliveries to return
+   * @throws WebhookNotFoundError if the webhook does not exist or belongs to someone else
+   */
+  async getDeliveries(
+    webhookId: string,
+    actorId: string,
+    asAdmin: boolean,
+    limit: number = 50
+  ): Promise<WebhookDelivery[]> {
+    await this.getAccessibleWebhook(webhookId, actorId, asAdmin);
+    return this.repository.findDeliveries(webhookId, limit);
+  }
+
+  /**
+   * Record an event for every webhook that wants it
+   * Webhooks owned by non-admins are skipped unless their owner plays in the game.
+   * Failures are logged rather than thrown so they never fail the action behind the event.
+   * @returns Number of deliveries recorded
+   */
+  async publish(
+    type: WebhookEventType,
+    game: Pick<GameState, 'gameId' | 'gameType' | 'players'>,
+    data: Record<string, unknown>,
+    now: Date = new Date()
+  ): Promise<number> {
+    const event: WebhookEvent = {
+      eventId: randomUUID(),
+      type,
+      gameId: game.gameId,
+      gameType: game.gameType,
+      occurredAt: now,
+      data,
+    };
+
+    try {
+      const webhooks = (
+        await this.repository.findForEvent(type, game.gameId, game.gameType)
+      ).filter((webhook) => this.isAdmin(webhook.ownerId) || this.isPlayer(webhook.ownerId, game));
+
+      for (const webhook of webhooks) {
+        await this.repository.saveDelivery({
+          deliveryId: randomUUID(),
+          webhookId: webhook.webhookId,
+          event,
+          status: WebhookDeliveryStatus.PENDING,
+          attempts: 0,
+          nextAttemptAt: now,
+          createdAt: now,
+        });
+      }
+
+      return webhooks.length;
+    } catch (error) {
+      this.logger.error('Failed to publish webhook event', {
+        type,
+        gameId: game.gameId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return 0;
+    }
+  }
+
+  /**
+   * Load a webhook the actor may manage
+   * Other users' webhooks are reported as missing so their IDs are not revealed.
+   * @private
+   */
+  private async getAccessibleWebhook(
+    webhookId: string,
+    actorId: string,
+    asAdmin: boolean
+  ): Promise<Webhook> {
+    const webhook = await this.repository.findById(webhookId);
+    if (!webhook || (!asAdmin && webhook.ownerId !== actorId)) {
+      throw new WebhookNotFoundError(webhookId);
+    }
+    return webhook;
+  }
+
+  /**
+   * Check whether a user is an admin
+   * @private
+   */
+  private isAdmin(userId: string): boolean {
+    return this.adminUserIds.includes(userId);
+  }
+
+  /**
+   * Check whether a user has a seat in a game
+   * @private
+   */
+  private isPlayer(userId: string, game: Pick<GameState, 'players'>): boolean {
+    return game.players.some((player) => player.id === userId);
+  }
+
+  /**
+   * Check that a URL is an absolute http(s) URL on a host the policy allows
+   * @private
+   */
+  private async validateUrl(value: unknown): Promise<string> {
+    if (typeof value !== 'string' || value.trim() === '') {
+      throw new InvalidWebhookError('url is required');
+    }
+
+    let url: URL;
+    try {
+      url = new URL(value);
+    } catch {
+      throw new InvalidWebhookError(`${value} is not a valid URL`);
+    }
+
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+      throw new InvalidWebhookError('url must use http or https');
+    }
+
+    const refusal = await this.hostPolicy.check(url.hostname);
+    if (refusal) {
+      throw new InvalidWebhookError(refusal);
+    }
+
+    return url.toString();
+  }
+
+  /**
+   * Check the event filter, defaulting to every event
+   * @private
+   */
+  private validateEventTypes(value: unknown): WebhookEventType[] {
+    const allTypes = Object.values(WebhookEventType);
+    if (value === undefined) {
+      return allTypes;
+    }
+
+    if (
+      !Array.isArray(value) ||
+      value.length === 0 ||
+      value.some((type) => !allTypes.includes(type))
+    ) {
+      throw new InvalidWebhookError(
+        `eventTypes must be a non-empty list of: ${allTypes.join(', ')}`
+      );
+    }
+
+    return Array.from(new Set(value as WebhookEventType[]));
+  }
+}
@@ -19,6 +19,50 @@ export interface AuthConfig {
   };
 }
 
+export interface TimeControlConfig {
+  checkIntervalMs: number;
+}
+
+export interface MatchmakingConfig {
+  intervalMs: number;
+}
+
+export interface AIMoveWorkerConfig {
+  intervalMs: number;
+}
+
+export interface EmailConfig {
+  /** How emails are delivered; 'none' disables the email notification channel */
+  transport: 'smtp' | 'file' | 'none';
+  from: string;
+  /** Base URL of the web client, used for links in emails */
+  appUrl: string;
+  digestIntervalMs: number;
+  smtp: {
+    host: string;
+    port: number;
+    secure: boolean;
+    user?: string;
+    password?: string;
+  };
+  /** Directory the file transport writes emails to */
+  fileDirectory: string;
+}
+
+export interface NotificationsConfig {
+  /** How long a player can be on turn before they are notified; 0 notifies at once */
+  turnDelayMs: number;
+}
+
+export interface WebhooksConfig {
+  /** How often the dispatcher looks for due deliveries */
+  dispatchIntervalMs: number;
+  /** How long to wait for an endpoint to respond */
+  timeoutMs: number;
+  /** Hosts that may receive webhooks even though they resolve to a private address */
+  allowedPrivateHosts: string[];
+}
+
 export interface AppConfig {
   port: number;
   nodeEnv: 'development' | 'production' | 'test';
@@ -26,6 +70,12 @@ export interface AppConfig {
   logging: LoggingConfig;
   auth: AuthConfig;
   adminUserIds: string[];
+  timeControl: TimeControlConfig;
+  matchmaking: MatchmakingConfig;
+  aiMoveWorker: AIMoveWorkerConfig;
+  email: EmailConfig;
+  notifications: NotificationsConfig;
+  webhooks: WebhooksConfig;
 }
 
 class ConfigurationError extends Error {
@@ -108,6 +158,105 @@ export function loadConfig(): AppConfig {
     .map((id) => id.trim())
     .filter((id) => id.length > 0);
 
+  // Validate and load TURN_TIMEOUT_CHECK_INTERVAL_MS
+  const checkIntervalMs = process.env.TURN_TIMEOUT_CHECK_INTERVAL_MS
+    ? parseInt(process.env.TURN_TIMEOUT_CHECK_INTERVAL_MS, 10)
+    : 60000;
+  if (isNaN(checkIntervalMs) || checkIntervalMs < 1000) {
+    throw new ConfigurationError(
+      `Invalid TURN_TIMEOUT_CHECK_INTERVAL_MS: ${process.env.TURN_TIMEOUT_CHECK_INTERVAL_MS}. Must be a number of at least 1000.`
+    );
+  }
+
+  // Validate and load MATCHMAKING_INTERVAL_MS
+  const matchmakingIntervalMs = process.env.MATCHMAKING_INTERVAL_MS
+    ? parseInt(process.env.MATCHMAKING_INTERVAL_MS, 10)
+    : 5000;
+  if (isNaN(matchmakingIntervalMs) || matchmakingIntervalMs < 1000) {
+    throw new ConfigurationError(
+      `Invalid MATCHMAKING_INTERVAL_MS: ${process.env.MATCHMAKING_INTERVAL_MS}. Must be a number of at least 1000.`
+    );
+  }
+
+  // Validate and load AI_MOVE_WORKER_INTERVAL_MS
+  const aiMoveWorkerIntervalMs = process.env.AI_MOVE_WORKER_INTERVAL_MS
+    ? parseInt(process.env.AI_MOVE_WORKER_INTERVAL_MS, 10)
+    : 500;
+  if (isNaN(aiMoveWorkerIntervalMs) || aiMoveWorkerIntervalMs < 100) {
+    throw new ConfigurationError(
+      `Invalid AI_MOVE_WORKER_INTERVAL_MS: ${process.env.AI_MOVE_WORKER_INTERVAL_MS}. Must be a number of at least 100.`
+    );
+  }
+
+  // Validate and load EMAIL_TRANSPORT and its settings
+  const emailTransport = (process.env.EMAIL_TRANSPORT || 'none') as EmailConfig['transport'];
+  if (!['smtp', 'file', 'none'].includes(emailTransport)) {
+    throw new ConfigurationError(
+      `Invalid EMAIL_TRANSPORT: ${process.env.EMAIL_TRANSPORT}. Must be 'smtp', 'file', or 'none'.`
+    );
+  }
+
+  const smtpHost = process.env.SMTP_HOST || '';
+  if (emailTransport === 'smtp' && !smtpHost) {
+    throw new ConfigurationError('SMTP_HOST is required when EMAIL_TRANSPORT is smtp');
+  }
+
+  const smtpSecure = process.env.SMTP_SECURE === 'true';
+  const smtpPort = process.env.SMTP_PORT
+    ? parseInt(process.env.SMTP_PORT, 10)
+    : smtpSecure
+      ? 465
+      : 587;
+  if (isNaN(smtpPort) || smtpPort < 1 || smtpPort > 65535) {
+    throw new ConfigurationError(
+      `Invalid SMTP_PORT: ${process.env.SMTP_PORT}. Must be a number between 1 and 65535.`
+    );
+  }
+
+  const emailDigestIntervalMs = process.env.EMAIL_DIGEST_INTERVAL_MS
+    ? parseInt(process.env.EMAIL_DIGEST_INTERVAL_MS, 10)
+    : 24 * 60 * 60 * 1000;
+  if (isNaN(emailDigestIntervalMs) || emailDigestIntervalMs < 60000) {
+    throw new ConfigurationError(
+      `Invalid EMAIL_DIGEST_INTERVAL_MS: ${process.env.EMAIL_DIGEST_INTERVAL_MS}. Must be a number of at least 60000.`
+    );
+  }
+
+  // Validate and load TURN_NOTIFICATION_DELAY_MS
+  const turnNotificationDelayMs = process.env.TURN_NOTIFICATION_DELAY_MS
+    ? parseInt(process.env.TURN_NOTIFICATION_DELAY_MS, 10)
+    : 5 * 60 * 1000;
+  if (isNaN(turnNotificationDelayMs) || turnNotificationDelayMs < 0) {
+    throw new ConfigurationError(
+      `Invalid TURN_NOTIFICATION_DELAY_MS: ${process.env.TURN_NOTIFICATION_DELAY_MS}. Must be a number of at least 0.`
+    );
+  }
+
+  // Validate and load WEBHOOK_DISPATCH_INTERVAL_MS and WEBHOOK_TIMEOUT_MS
+  const webhookDispatchIntervalMs = process.env.WEBHOOK_DISPATCH_INTERVAL_MS
+    ? parseInt(process.env.WEBHOOK_DISPATCH_INTERVAL_MS, 10)
+    : 1000;
+  if (isNaN(webhookDispatchIntervalMs) || webhookDispatchIntervalMs < 100) {
+    throw new ConfigurationError(
+      `Invalid WEBHOOK_DISPATCH_INTERVAL_MS: ${process.env.WEBHOOK_DISPATCH_INTERVAL_MS}. Must be a number of at least 100.`
+    );
+  }
+
+  const webhookTimeoutMs = process.env.WEBHOOK_TIMEOUT_MS
+    ? parseInt(process.env.WEBHOOK_TIMEOUT_MS, 10)
+    : 10000;
+  if (isNaN(webhookTimeoutMs) || webhookTimeoutMs < 1000) {
+    throw new ConfigurationError(
+      `Invalid WEBHOOK_TIMEOUT_MS: ${process.env.WEBHOOK_TIMEOUT_MS}. Must be a number of at least 1000.`
+    );
+  }
+
+  // Load WEBHOOK_ALLOWED_PRIVATE_HOSTS
+  const webhookAllowedPrivateHosts = (process.env.WEBHOOK_ALLOWED_PRIVATE_HOSTS || '')
+    .split(',')
+    .map((host) => host.trim().toLowerCase())
+    .filter((host) => host.length > 0);
+
   return {
     port,
     nodeEnv,
@@ -126,6 +275,37 @@ export function loadConfig(): AppConfig {
       },
     },
     adminUserIds,
+    timeControl: {
+      checkIntervalMs,
+    },
+    matchmaking: {
+      intervalMs: matchmakingIntervalMs,
+    },
+    aiMoveWorker: {
+      intervalMs: aiMoveWorkerIntervalMs,
+    },
+    email: {
+      transport: emailTransport,
+      from: process.env.EMAIL_FROM || 'Game Server <noreply@localhost>',
+      appUrl: process.env.APP_URL || `http://localhost:${port}`,
+      digestIntervalMs: emailDigestIntervalMs,
+      smtp: {
+        host: smtpHost,
+        port: smtpPort,
+        secure: smtpSecure,
+        user: process.env.SMTP_USER || undefined,
+        password: process.env.SMTP_PASSWORD || undefined,
+      },
+      fileDirectory: process.env.EMAIL_FILE_DIR || './emails',
+    },
+    notifications: {
+      turnDelayMs: turnNotificationDelayMs,
+    },
+    webhooks: {
+      dispatchIntervalMs: webhookDispatchIntervalMs,
+      timeoutMs: webhookTimeoutMs,
+      allowedPrivateHosts: webhookAllowedPrivateHosts,
+    },
   };
 }
 
@@ -1,3 +1,5 @@
+import { GameSettingViolation } from '../models';
+
 /**
  * Base error class for all game-related errors
  */
@@ -180,3 +182,184 @@ export class InvalidAIConfigurationError extends GameError {
     this.name = 'InvalidAIConfigurationError';
   }
 }
+
+/**
+ * Error thrown when a game's time control configuration is invalid
+ * HTTP Status: 400 Bad Request
+ */
+export class InvalidTimeControlError extends GameError {
+  constructor(reason: string) {
+    super(`Invalid time control: ${reason}`, 'INVALID_TIME_CONTROL', 400, { reason });
+    this.name = 'InvalidTimeControlError';
+  }
+}
+
+/**
+ * Error thrown when a move arrives after the turn deadline has passed
+ * The timeout has been applied by the time this is thrown, so the game has moved on.
+ * HTTP Status: 409 Conflict
+ */
+export class TurnExpiredError extends GameError {
+  constructor(gameId: string, playerId: string) {
+    super(
+      `The turn deadline of player ${playerId} in game ${gameId} has passed`,
+      'TURN_EXPIRED',
+      409,
+      { playerId }
+    );
+    this.name = 'TurnExpiredError';
+  }
+}
+
+/**
+ * Error thrown when a game's custom settings are not valid for its game type
+ * HTTP Status: 400 Bad Request
+ */
+export class InvalidGameSettingsError extends GameError {
+  constructor(gameType: string, reason: string, violations?: GameSettingViolation[]) {
+    super(`Invalid settings for ${gameType}: ${reason}`, 'INVALID_GAME_SETTINGS', 400, {
+      gameType,
+      reason,
+      ...(violations && { violations }),
+    });
+    this.name = 'InvalidGameSettingsError';
+  }
+}
+
+/**
+ * Error thrown when a resign, draw, abort or moderation action is not allowed in the game state
+ * HTTP Status: 409 Conflict
+ */
+export class InvalidGameActionError extends GameError {
+  constructor(action: string, reason: string) {
+    super(`Cannot ${action}: ${reason}`, 'INVALID_GAME_ACTION', 409, { action, reason });
+    this.name = 'InvalidGameActionError';
+  }
+}
+
+/**
+ * Error thrown when a game state is requested at a move the game has not reached
+ * HTTP Status: 400 Bad Request
+ */
+export class MoveOutOfRangeError extends GameError {
+  constructor(gameId: string, moveNumber: number, moveCount: number) {
+    super(
+      `Game ${gameId} has ${moveCount} move(s); cannot show the state at move ${moveNumber}`,
+      'MOVE_OUT_OF_RANGE',
+      400,
+      { moveNumber, moveCount }
+    );
+    this.name = 'MoveOutOfRangeError';
+  }
+}
+
+/**
+ * Error thrown when a past state of a game without an event log cannot be rebuilt faithfully
+ * HTTP Status: 409 Conflict
+ */
+export class HistoryUnavailableError extends GameError {
+  constructor(gameId: string, reason: string) {
+    super(
+      `Game ${gameId} has no event log and cannot be replayed: ${reason}`,
+      'HISTORY_UNAVAILABLE',
+      409,
+      { reason }
+    );
+    this.name = 'HistoryUnavailableError';
+  }
+}
+
+/**
+ * Error thrown when a player joins the matchmaking queue while already queued
+ * HTTP Status: 409 Conflict
+ */
+export class AlreadyQueuedError extends GameError {
+  constructor(userId: string, gameType: string) {
+    super(`Player ${userId} is already queued for ${gameType}`, 'ALREADY_QUEUED', 409, {
+      gameType,
+    });
+    this.name = 'AlreadyQueuedError';
+  }
+}
+
+/**
+ * Error thrown when a player who is not queued tries to leave or inspect the queue
+ * HTTP Status: 404 Not Found
+ */
+export class NotQueuedError extends GameError {
+  constructor(userId: string) {
+    super(`Player ${userId} is not in the matchmaking queue`, 'NOT_QUEUED', 404);
+    this.name = 'NotQueuedError';
+  }
+}
+
+/**
+ * Error thrown when a matchmaking request cannot be queued
+ * HTTP Status: 400 Bad Request
+ */
+export class InvalidMatchmakingRequestError extends GameError {
+  constructor(reason: string) {
+    super(`Invalid matchmaking request: ${reason}`, 'INVALID_MATCHMAKING_REQUEST', 400, {
+      reason,
+    });
+    this.name = 'InvalidMatchmakingRequestError';
+  }
+}
+
+/**
+ * Error thrown when a tournament is not found
+ * HTTP Status: 404 Not Found
+ */
+export class TournamentNotFoundError extends GameError {
+  constructor(tournamentId: string) {
+    super(`Tournament ${tournamentId} not found`, 'TOURNAMENT_NOT_FOUND', 404);
+    this.name = 'TournamentNotFoundError';
+  }
+}
+
+/**
+ * Error thrown when a tournament's settings are invalid
+ * HTTP Status: 400 Bad Request
+ */
+export class InvalidTournamentError extends GameError {
+  constructor(reason: string) {
+    super(`Invalid tournament: ${reason}`, 'INVALID_TOURNAMENT', 400, { reason });
+    this.name = 'InvalidTournamentError';
+  }
+}
+
+/**
+ * Error thrown when joining or starting a tournament is not allowed in its current state
+ * HTTP Status: 409 Conflict
+ */
+export class InvalidTournamentActionError extends GameError {
+  constructor(action: string, reason: string) {
+    super(`Cannot ${action} tournament: ${reason}`, 'INVALID_TOURNAMENT_ACTION', 409, {
+      action,
+      reason,
+    });
+    this.name = 'InvalidTournamentActionError';
+  }
+}
+
+/**
+ * Error thrown when a webhook does not exist or belongs to another user
+ * HTTP Status: 404 Not Found
+ */
+export class WebhookNotFoundError extends GameError {
+  constructor(webhookId: string) {
+    super(`Webhook ${webhookId} not found`, 'WEBHOOK_NOT_FOUND', 404);
+    this.name = 'WebhookNotFoundError';
+  }
+}
+
+/**
+ * Error thrown when a webhook registration is invalid
+ * HTTP Status: 400 Bad Request
+ */
+export class InvalidWebhookError extends GameError {
+  constructor(reason: string) {
+    super(`Invalid webhook: ${reason}`, 'INVALID_WEBHOOK', 400, { reason });
+    this.name = 'InvalidWebhookError';
+  }
+}
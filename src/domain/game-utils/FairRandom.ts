@@ -0,0 +1,178 @@
+/**
+ * FairRandom - Provably Fair Randomness for Game Plugins
+ *
+ * Every game that needs randomness gets a secret server seed when it is created.
+ * Only the SHA-256 hash of the seed (the commitment) is shown while the game is
+ * in progress; the seed itself is revealed once the game is over, so players can
+ * recompute every roll and check the seed against the commitment.
+ *
+ * Each value is derived from HMAC-SHA256(serverSeed, "<gameId>:<nonce>:<counter>").
+ * The nonce identifies the roll (e.g. the index of the move making it) and the
+ * counter numbers the HMACs computed for that roll, starting at 0.
+ */
+
+import { createHash, createHmac, randomBytes } from 'crypto';
+import { GameState, GameLifecycle, GameRandomness } from '../models';
+
+const UINT32_RANGE = 0x100000000;
+
+/**
+ * Create the randomness record for a new game
+ *
+ * @param serverSeed Optional seed for deterministic games in tests and examples
+ * @returns A commitment and the secret seed it commits to
+ */
+export function createGameRandomness(
+  serverSeed: string = randomBytes(32).toString('hex')
+): GameRandomness {
+  return {
+    commitment: hashServerSeed(serverSeed),
+    serverSeed,
+  };
+}
+
+/**
+ * Hash a server seed into its public commitment
+ *
+ * @param serverSeed The secret seed
+ * @returns Hex-encoded SHA-256 hash of the seed
+ */
+export function hashServerSeed(serverSeed: string): string {
+  return createHash('sha256').update(serverSeed).digest('hex');
+}
+
+/**
+ * Check a revealed seed against the commitment published at game start
+ *
+ * @param randomness The game's randomness record
+ * @returns true if the seed is present and matches the commitment
+ */
+export function verifyGameRandomness(randomness: GameRandomness): boolean {
+  return (
+    randomness.serverSeed !== undefined &&
+    hashServerSeed(randomness.serverSeed) === randomness.commitment
+  );
+}
+
+/**
+ * Get a game's randomness record
+ *
+ * @param state Game state
+ * @returns The record, or undefined for games without randomness
+ */
+export function getGameRandomness(state: GameState): GameRandomness | undefined {
+  return state.metadata?.randomness as GameRandomness | undefined;
+}
+
+/**
+ * Hide a game's server seed until the game is over
+ * Completed and abandoned games keep the seed so players can verify their rolls.
+ *
+ * @param state Game state about to be sent to a client
+ * @returns The state without the server seed while the game can still roll
+ */
+export function hideServerSeed(state: GameState): GameState {
+  const randomness = getGameRandomness(state);
+  if (
+    !randomness?.serverSeed ||
+    state.lifecycle === GameLifecycle.COMPLETED ||
+    state.lifecycle === GameLifecycle.ABANDONED
+  ) {
+    return state;
+  }
+
+  return {
+    ...state,
+    metadata: {
+      ...state.metadata,
+      randomness: { commitment: randomness.commitment },
+    },
+  };
+}
+
+/**
+ * Deterministic random source for a single roll
+ *
+ * The same seed, game ID and nonce always give the same values, so rolls can be
+ * replayed on the server and verified by players after the game.
+ */
+export class FairRandom {
+  private counter = 0;
+
+  /**
+   * @param serverSeed The game's secret seed
+   * @param gameId The game making the roll
+   * @param nonce Identifies the roll within the game; must differ for every roll
+   */
+  constructor(
+    private readonly serverSeed: string,
+    private readonly gameId: string,
+    private readonly nonce: string | number
+  ) {}
+
+  /**
+   * Create a random source for a roll in a game
+   *
+   * @param state Game state holding metadata.randomness
+   * @param nonce Identifies the roll within the game
+   * @returns Random source for the roll
+   * @throws Error if the game has no server seed
+   */
+  static forGame(state: GameState, nonce: string | number): FairRandom {
+    const serverSeed = getGameRandomness(state)?.serverSeed;
+    if (!serverSeed) {
+      throw new Error(`Game ${state.gameId} has no server seed`);
+    }
+    return new FairRandom(serverSeed, state.gameId, nonce);
+  }
+
+  /**
+   * Draw a uniformly distributed integer
+   * Values from the top of the 32-bit range that would bias the result are
+   * rejected and redrawn with the next counter.
+   *
+   * @param max Exclusive upper bound (at most 2^32)
+   * @returns Integer from 0 to max - 1
+   */
+  nextInt(max: number): number {
+    if (!Number.isInteger(max) || max <= 0 || max > UINT32_RANGE) {
+      throw new Error('Random range must be a positive integer of at most 2^32');
+    }
+
+    const limit = UINT32_RANGE - (UINT32_RANGE % max);
+    for (;;) {
+      const value = this.nextUint32();
+      if (value < limit) {
+        return value % max;
+      }
+    }
+  }
+
+  /**
+   * Roll N dice with M sides each
+   *
+   * @param count Number of dice to roll
+   * @param sides Number of sides per die
+   * @returns Array of dice values from 1 to sides
+   */
+  rollDice(count: number, sides: number): number[] {
+    if (count < 0) {
+      throw new Error('Dice count cannot be negative');
+    }
+    if (sides <= 0) {
+      throw new Error('Dice sides must be positive');
+    }
+
+    return Array.from({ length: count }, () => this.nextInt(sides) + 1);
+  }
+
+  /**
+   * Read the first four bytes of the next HMAC as an unsigned integer
+   */
+  private nextUint32(): number {
+    const digest = createHmac('sha256', this.serverSeed)
+      .update(`${this.gameId}:${this.nonce}:${this.counter++}`)
+      .digest();
+    return digest.readUInt32BE(0);
+  }
+}
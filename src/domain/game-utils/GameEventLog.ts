@@ -0,0 +1,142 @@
+/**
+ * GameEventLog - Event Sourcing Utilities
+ *
+ * Pure functions that turn state transitions into entries for a game's
+ * append-only event log and decide when a snapshot is due. Repositories call
+ * these on every save and update so the log never drifts from the stored state.
+ */
+
+import {
+  GameState,
+  GameLifecycle,
+  GameEvent,
+  GameEventType,
+  SNAPSHOT_INTERVAL,
+  TimeoutAction,
+  TimeoutRecord,
+} from '../models';
+
+/**
+ * Create the first event of a game's log
+ *
+ * @param state The state being saved for a new game
+ * @param now Current time
+ */
+export function createGameCreatedEvent(state: GameState, now: Date = new Date()): GameEvent {
+  return {
+    gameId: state.gameId,
+    sequence: 1,
+    type: GameEventType.GAME_CREATED,
+    moveNumber: state.moveHistory.length,
+    payload: { state },
+    createdAt: now,
+  };
+}
+
+/**
+ * Derive the events that take a game from one stored state to the next
+ * Events are ordered leaves, then joins, then skipped turns, then moves, then completion.
+ *
+ * @param previous The state currently stored
+ * @param next The state about to replace it
+ * @param lastSequence Sequence of the last event already in the log
+ * @param now Current time
+ */
+export function deriveGameEvents(
+  previous: GameState,
+  next: GameState,
+  lastSequence: number,
+  now: Date = new Date()
+): GameEvent[] {
+  const events: GameEvent[] = [];
+  let sequence = lastSequence;
+  const base = { gameId: next.gameId, createdAt: now };
+
+  const nextPlayerIds = new Set(next.players.map((p) => p.id));
+  for (const player of previous.players) {
+    if (!nextPlayerIds.has(player.id)) {
+      events.push({
+        ...base,
+        sequence: ++sequence,
+        type: GameEventType.PLAYER_LEFT,
+        moveNumber: previous.moveHistory.length,
+        payload: { playerId: player.id, lifecycle: next.lifecycle },
+      });
+    }
+  }
+
+  const previousPlayerIds = new Set(previous.players.map((p) => p.id));
+  for (const player of next.players) {
+    if (!previousPlayerIds.has(player.id)) {
+      events.push({
+        ...base,
+        sequence: ++sequence,
+        type: GameEventType.PLAYER_JOINED,
+        moveNumber: previous.moveHistory.length,
+        payload: { player, lifecycle: next.lifecycle },
+      });
+    }
+  }
+
+  for (const playerId of getSkippedTurns(previous, next)) {
+    events.push({
+      ...base,
+      sequence: ++sequence,
+      type: GameEventType.TURN_SKIPPED,
+      moveNumber: previous.moveHistory.length,
+      payload: { playerId },
+    });
+  }
+
+  for (let i = previous.moveHistory.length; i < next.moveHistory.length; i++) {
+    events.push({
+      ...base,
+      sequence: ++sequence,
+      type: GameEventType.MOVE_APPLIED,
+      moveNumber: i + 1,
+      payload: { move: next.moveHistory[i] },
+    });
+  }
+
+  if (isFinished(next.lifecycle) && !isFinished(previous.lifecycle)) {
+    events.push({
+      ...base,
+      sequence: ++sequence,
+      type: GameEventType.GAME_COMPLETED,
+      moveNumber: next.moveHistory.length,
+      payload: { lifecycle: next.lifecycle, winner: next.winner },
+    });
+  }
+
+  return events;
+}
+
+/**
+ * Check whether an update crosses a snapshot boundary
+ *
+ * @param previous The state currently stored
+ * @param next The state about to replace it
+ */
+export function isSnapshotDue(previous: GameState, next: GameState): boolean {
+  return (
+    Math.floor(next.moveHistory.length / SNAPSHOT_INTERVAL) >
+    Math.floor(previous.moveHistory.length / SNAPSHOT_INTERVAL)
+  );
+}
+
+/**
+ * List the players whose turn was skipped on timeout between two states
+ * Skips leave no moveHistory entry; they are found in the game's timeout records.
+ */
+function getSkippedTurns(previous: GameState, next: GameState): string[] {
+  const before: TimeoutRecord[] = previous.metadata?.timeouts ?? [];
+  const after: TimeoutRecord[] = next.metadata?.timeouts ?? [];
+  return after
+    .slice(before.length)
+    .filter((timeout) => timeout.action === TimeoutAction.SKIP)
+    .map((timeout) => timeout.playerId);
+}
+
+function isFinished(lifecycle: GameLifecycle): boolean {
+  return lifecycle === GameLifecycle.COMPLETED || lifecycle === GameLifecycle.ABANDONED;
+}
@@ -0,0 +1,105 @@
+/**
+ * GameSettings - Custom Settings Validation
+ *
+ * Pure functions for checking GameConfig.customSettings against the JSON Schema
+ * a game plugin declares for them.
+ */
+
+import { GameSettingSchema, GameSettingsSchema, GameSettingViolation } from '../models';
+
+/**
+ * Check a single setting value against its schema
+ *
+ * @param name Setting name
+ * @param value Value supplied by the client
+ * @param schema Schema for the setting
+ * @returns Error message, or null if the value is valid
+ */
+function validateSetting(name: string, value: unknown, schema: GameSettingSchema): string | null {
+  switch (schema.type) {
+    case 'integer':
+      if (typeof value !== 'number' || !Number.isInteger(value)) {
+        return `${name} must be an integer`;
+      }
+      break;
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        return `${name} must be a number`;
+      }
+      break;
+    case 'boolean':
+      if (typeof value !== 'boolean') {
+        return `${name} must be a boolean`;
+      }
+      break;
+    case 'string':
+      if (typeof value !== 'string') {
+        return `${name} must be a string`;
+      }
+      break;
+  }
+
+  if (schema.enum && !schema.enum.includes(value as number | string)) {
+    return `${name} must be one of: ${schema.enum.join(', ')}`;
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      return `${name} must be at least ${schema.minimum}`;
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      return `${name} must be at most ${schema.maximum}`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Validate custom settings supplied by a client
+ *
+ * @param schema Settings schema declared by the game plugin
+ * @param settings Custom settings from the game config
+ * @returns Every violation found; empty if the settings are valid
+ */
+export function validateGameSettings(
+  schema: GameSettingsSchema,
+  settings: unknown
+): GameSettingViolation[] {
+  if (settings === undefined) {
+    settings = {};
+  }
+  if (!settings || typeof settings !== 'object' || Array.isArray(settings)) {
+    return [{ setting: 'customSettings', message: 'customSettings must be an object' }];
+  }
+
+  const values = settings as Record<string, unknown>;
+  const violations: GameSettingViolation[] = [];
+
+  for (const setting of schema.required ?? []) {
+    if (values[setting] === undefined) {
+      violations.push({ setting, message: `${setting} is required` });
+    }
+  }
+
+  for (const [setting, value] of Object.entries(values)) {
+    if (value === undefined) {
+      continue;
+    }
+
+    const settingSchema = schema.properties[setting];
+    if (!settingSchema) {
+      if (schema.additionalProperties === false) {
+        violations.push({ setting, message: `${setting} is not a known setting` });
+      }
+      continue;
+    }
+
+    const message = validateSetting(setting, value, settingSchema);
+    if (message) {
+      violations.push({ setting, message });
+    }
+  }
+
+  return violations;
+}
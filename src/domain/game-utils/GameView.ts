@@ -0,0 +1,37 @@
+/**
+ * GameView - Per-Viewer Game State
+ *
+ * Builds the game state a particular viewer is allowed to see before it is
+ * sent to a client, using the plugin's view hooks for games with hidden information.
+ */
+
+import { GameState } from '../models';
+import { GameEnginePlugin } from '../interfaces';
+import { hideServerSeed } from './FairRandom';
+
+/**
+ * Build the game state shown to a viewer
+ * Players get the plugin's player view; observers and anonymous viewers get its
+ * spectator view. The server seed of a game in progress is hidden from everyone.
+ *
+ * @param plugin The game's plugin, if registered
+ * @param state Full game state
+ * @param viewerId The viewing user, or null for an anonymous viewer
+ * @returns The state the viewer may see
+ */
+export function toGameView(
+  plugin: GameEnginePlugin | null,
+  state: GameState,
+  viewerId: string | null
+): GameState {
+  const isPlayer = viewerId !== null && state.players.some((p) => p.id === viewerId);
+
+  let view = state;
+  if (isPlayer && plugin?.getPlayerView) {
+    view = plugin.getPlayerView(state, viewerId);
+  } else if (!isPlayer && plugin?.getSpectatorView) {
+    view = plugin.getSpectatorView(state);
+  }
+
+  return hideServerSeed(view);
+}
@@ -0,0 +1,140 @@
+/**
+ * Glicko2 - Rating Calculation Utilities
+ *
+ * Pure implementation of Mark Glickman's Glicko-2 system. Every rated game is
+ * treated as its own rating period, so a player's rating moves as soon as a
+ * game finishes.
+ */
+
+import { DEFAULT_RATING, DEFAULT_RATING_DEVIATION } from '../models';
+
+/** Constrains how much volatility can change between periods */
+export const GLICKO2_TAU = 0.5;
+
+/** Converts between the Glicko and Glicko-2 scales */
+const SCALE = 173.7178;
+
+const CONVERGENCE_TOLERANCE = 0.000001;
+
+export interface Glicko2Rating {
+  rating: number;
+  deviation: number;
+  volatility: number;
+}
+
+/**
+ * Result of one game against one opponent
+ */
+export interface Glicko2Result {
+  opponentRating: number;
+  opponentDeviation: number;
+  /** 1 for a win, 0.5 for a draw, 0 for a loss */
+  score: number;
+}
+
+/**
+ * Compute a player's rating after a rating period
+ * With no results only the deviation grows, reflecting increased uncertainty.
+ *
+ * @param player Rating before the period
+ * @param results Outcomes against each opponent during the period
+ * @param tau System constant limiting volatility change
+ */
+export function updateGlicko2(
+  player: Glicko2Rating,
+  results: Glicko2Result[],
+  tau: number = GLICKO2_TAU
+): Glicko2Rating {
+  const mu = (player.rating - DEFAULT_RATING) / SCALE;
+  const phi = player.deviation / SCALE;
+  const sigma = player.volatility;
+
+  if (results.length === 0) {
+    return {
+      rating: player.rating,
+      deviation: Math.min(Math.sqrt(phi * phi + sigma * sigma) * SCALE, DEFAULT_RATING_DEVIATION),
+      volatility: sigma,
+    };
+  }
+
+  let varianceInverse = 0;
+  let deltaSum = 0;
+  for (const result of results) {
+    const opponentMu = (result.opponentRating - DEFAULT_RATING) / SCALE;
+    const g = reduceImpact(result.opponentDeviation / SCALE);
+    const e = expectedScore(mu, opponentMu, g);
+    varianceInverse += g * g * e * (1 - e);
+    deltaSum += g * (result.score - e);
+  }
+  const variance = 1 / varianceInverse;
+  const delta = variance * deltaSum;
+
+  const newSigma = updateVolatility(phi, sigma, variance, delta, tau);
+  const phiStar = Math.sqrt(phi * phi + newSigma * newSigma);
+  const newPhi = 1 / Math.sqrt(1 / (phiStar * phiStar) + 1 / variance);
+  const newMu = mu + newPhi * newPhi * deltaSum;
+
+  return {
+    rating: newMu * SCALE + DEFAULT_RATING,
+    deviation: Math.min(newPhi * SCALE, DEFAULT_RATING_DEVIATION),
+    volatility: newSigma,
+  };
+}
+
+function reduceImpact(phi: number): number {
+  return 1 / Math.sqrt(1 + (3 * phi * phi) / (Math.PI * Math.PI));
+}
+
+function expectedScore(mu: number, opponentMu: number, g: number): number {
+  return 1 / (1 + Math.exp(-g * (mu - opponentMu)));
+}
+
+/**
+ * Find the new volatility with the Illinois variant of regula falsi
+ */
+function updateVolatility(
+  phi: number,
+  sigma: number,
+  variance: number,
+  delta: number,
+  tau: number
+): number {
+  const a = Math.log(sigma * sigma);
+  const f = (x: number): number => {
+    const ex = Math.exp(x);
+    const denominator = phi * phi + variance + ex;
+    return (
+      (ex * (delta * delta - phi * phi - variance - ex)) / (2 * denominator * denominator) -
+      (x - a) / (tau * tau)
+    );
+  };
+
+  let lower = a;
+  let upper: number;
+  if (delta * delta > phi * phi + variance) {
+    upper = Math.log(delta * delta - phi * phi - variance);
+  } else {
+    let k = 1;
+    while (f(a - k * tau) < 0) {
+      k++;
+    }
+    upper = a - k * tau;
+  }
+
+  let fLower = f(lower);
+  let fUpper = f(upper);
+  while (Math.abs(upper - lower) > CONVERGENCE_TOLERANCE) {
+    const candidate = lower + ((lower - upper) * fLower) / (fUpper - fLower);
+    const fCandidate = f(candidate);
+    if (fCandidate * fUpper <= 0) {
+      lower = upper;
+      fLower = fUpper;
+    } else {
+      fLower = fLower / 2;
+    }
+    upper = candidate;
+    fUpper = fCandidate;
+  }
+
+  return Math.exp(lower / 2);
+}
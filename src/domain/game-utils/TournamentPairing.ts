@@ -0,0 +1,316 @@
+/**
+ * TournamentPairing - Tournament Scheduling Utilities
+ *
+ * Pure functions for pairing tournament rounds, deciding matches and ranking
+ * participants. Round-robin and knockout brackets follow from the seeds alone;
+ * Swiss rounds are paired from the standings after the previous round.
+ */
+
+import {
+  Tournament,
+  TournamentFormat,
+  TournamentMatch,
+  TournamentParticipant,
+  TournamentStanding,
+  MatchResult,
+  WIN_POINTS,
+  DRAW_POINTS,
+} from '../models';
+
+/**
+ * Two players meeting in a round; the second is null for a bye
+ */
+export type Pairing = [string, string | null];
+
+/**
+ * Number of rounds a tournament will play
+ *
+ * @param format Tournament format
+ * @param participantCount Number of participants
+ * @param requestedRounds Rounds asked for by the organiser (Swiss only)
+ */
+export function getTotalRounds(
+  format: TournamentFormat,
+  participantCount: number,
+  requestedRounds?: number
+): number {
+  switch (format) {
+    case TournamentFormat.ROUND_ROBIN:
+      return participantCount % 2 === 0 ? participantCount - 1 : participantCount;
+    case TournamentFormat.SWISS:
+      return requestedRounds ?? Math.ceil(Math.log2(participantCount));
+    case TournamentFormat.KNOCKOUT:
+      return Math.ceil(Math.log2(participantCount));
+  }
+}
+
+/**
+ * Pair the next round of a tournament
+ *
+ * @param tournament Tournament whose earlier rounds are all decided
+ * @returns Pairings for round `tournament.rounds.length + 1`
+ */
+export function createRoundPairings(tournament: Tournament): Pairing[] {
+  const seeded = [...tournament.participants].sort((a, b) => a.seed - b.seed);
+  const roundNumber = tournament.rounds.length + 1;
+
+  switch (tournament.format) {
+    case TournamentFormat.ROUND_ROBIN:
+      return createRoundRobinPairings(
+        seeded.map((p) => p.id),
+        roundNumber
+      );
+    case TournamentFormat.SWISS:
+      return createSwissPairings(tournament);
+    case TournamentFormat.KNOCKOUT:
+      return roundNumber === 1
+        ? createKnockoutBracket(seeded.map((p) => p.id))
+        : pairWinners(tournament.rounds[tournament.rounds.length - 1].matches);
+  }
+}
+
+/**
+ * Pair one round of a round robin with the circle method
+ * The first player stays put while everyone else rotates one place per round.
+ * With an odd number of players, whoever meets the empty seat has a bye.
+ */
+function createRoundRobinPairings(playerIds: string[], roundNumber: number): Pairing[] {
+  const seats: (string | null)[] =
+    playerIds.length % 2 === 0 ? [...playerIds] : [...playerIds, null];
+  const rotating = seats.slice(1);
+  const cut = rotating.length - ((roundNumber - 1) % rotating.length);
+  const arranged = [seats[0], ...rotating.slice(cut), ...rotating.slice(0, cut)];
+  const half = arranged.length / 2;
+
+  const pairings: Pairing[] = [];
+  for (let i = 0; i < half; i++) {
+    let first = arranged[i];
+    let second = arranged[arranged.length - 1 - i];
+
+    // Alternate who moves first for the fixed seat
+    if (i === 0 && roundNumber % 2 === 0) {
+      [first, second] = [second, first];
+    }
+
+    if (first === null) {
+      pairings.push([second!, null]);
+    } else {
+      pairings.push([first, second]);
+    }
+  }
+
+  return pairings;
+}
+
+/**
+ * Pair a Swiss round
+ * Players are taken in standings order and paired with the highest-placed player they
+ * have not met yet. With an odd number of players, the lowest-placed player without a
+ * bye sits out. Rematches are only allowed when nobody else is left.
+ */
+function createSwissPairings(tournament: Tournament): Pairing[] {
+  const order = calculateStandings(tournament).map((s) => s.playerId);
+  const previous = tournament.rounds.flatMap((round) => round.matches);
+  const met = new Set(
+    previous
+      .filter((m) => m.player2Id !== null)
+      .flatMap((m) => [`${m.player1Id}:${m.player2Id}`, `${m.player2Id}:${m.player1Id}`])
+  );
+
+  const pairings: Pairing[] = [];
+  const unpaired = [...order];
+
+  if (unpaired.length % 2 === 1) {
+    const hadBye = new Set(previous.filter((m) => m.player2Id === null).map((m) => m.player1Id));
+    const byeIndex = findLastIndex(unpaired, (id) => !hadBye.has(id));
+    const [byePlayer] = unpaired.splice(byeIndex === -1 ? unpaired.length - 1 : byeIndex, 1);
+    pairings.push([byePlayer, null]);
+  }
+
+  const matches: Pairing[] = [];
+  while (unpaired.length > 0) {
+    const player = unpaired.shift()!;
+    const opponentIndex = unpaired.findIndex((id) => !met.has(`${player}:${id}`));
+    const [opponent] = unpaired.splice(opponentIndex === -1 ? 0 : opponentIndex, 1);
+    matches.push([player, opponent]);
+  }
+
+  return [...matches, ...pairings];
+}
+
+/**
+ * Pair the first knockout round
+ * Seeds are placed so the top seeds can only meet late, and the bracket is filled
+ * up to a power of two with byes that go to the top seeds.
+ */
+function createKnockoutBracket(seededIds: string[]): Pairing[] {
+  let order = [1];
+  while (order.length < seededIds.length) {
+    const size = order.length * 2;
+    order = order.flatMap((seed) => [seed, size + 1 - seed]);
+  }
+
+  const pairings: Pairing[] = [];
+  for (let i = 0; i < order.length; i += 2) {
+    const first = seededIds[order[i] - 1];
+    const second = seededIds[order[i + 1] - 1];
+    pairings.push([first, second ?? null]);
+  }
+  return pairings;
+}
+
+/**
+ * Pair the winners of neighbouring matches from the previous knockout round
+ */
+function pairWinners(matches: TournamentMatch[]): Pairing[] {
+  const pairings: Pairing[] = [];
+  for (let i = 0; i < matches.length; i += 2) {
+    pairings.push([matches[i].winnerId!, matches[i + 1]?.winnerId ?? null]);
+  }
+  return pairings;
+}
+
+/**
+ * Decide a match from a finished game
+ * In a knockout, a drawn match still needs someone to advance, so the lower seed does.
+ *
+ * @param match The match being decided
+ * @param gameWinner Winner of the match's game, or null for a draw
+ * @param participants Tournament participants, for knockout tiebreaks
+ * @param format Tournament format
+ */
+export function decideMatch(
+  match: TournamentMatch,
+  gameWinner: string | null,
+  participants: TournamentParticipant[],
+  format: TournamentFormat
+): TournamentMatch {
+  if (gameWinner === match.player1Id) {
+    return { ...match, result: MatchResult.PLAYER1_WIN, winnerId: match.player1Id };
+  }
+  if (gameWinner !== null && gameWinner === match.player2Id) {
+    return { ...match, result: MatchResult.PLAYER2_WIN, winnerId: match.player2Id };
+  }
+
+  let winnerId: string | null = null;
+  if (format === TournamentFormat.KNOCKOUT) {
+    const seedOf = (id: string | null) =>
+      participants.find((p) => p.id === id)?.seed ?? Number.MAX_SAFE_INTEGER;
+    winnerId =
+      seedOf(match.player1Id) <= seedOf(match.player2Id) ? match.player1Id : match.player2Id;
+  }
+  return { ...match, result: MatchResult.DRAW, winnerId };
+}
+
+/**
+ * Create a decided match for a player with a bye
+ */
+export function createByeMatch(matchId: string, round: number, playerId: string): TournamentMatch {
+  return {
+    matchId,
+    round,
+    player1Id: playerId,
+    player2Id: null,
+    result: MatchResult.BYE,
+    winnerId: playerId,
+  };
+}
+
+/**
+ * Rank participants by points from decided matches
+ * Ties are broken by Sonneborn-Berger score, then wins, then seed.
+ *
+ * @param tournament The tournament to rank
+ * @returns One standing per participant, best first
+ */
+export function calculateStandings(tournament: Tournament): TournamentStanding[] {
+  const standings = new Map<string, Omit<TournamentStanding, 'rank'>>(
+    tournament.participants.map((p) => [
+      p.id,
+      {
+        playerId: p.id,
+        name: p.name,
+        played: 0,
+        wins: 0,
+        draws: 0,
+        losses: 0,
+        byes: 0,
+        points: 0,
+        tiebreak: 0,
+      },
+    ])
+  );
+  const decided = tournament.rounds
+    .flatMap((round) => round.matches)
+    .filter((match) => match.result !== undefined);
+
+  for (const match of decided) {
+    const first = standings.get(match.player1Id);
+    const second = match.player2Id ? standings.get(match.player2Id) : undefined;
+    if (!first) {
+      continue;
+    }
+
+    if (match.result === MatchResult.BYE) {
+      first.byes++;
+      first.points += WIN_POINTS;
+      continue;
+    }
+    if (!second) {
+      continue;
+    }
+
+    first.played++;
+    second.played++;
+    if (match.result === MatchResult.DRAW) {
+      first.draws++;
+      second.draws++;
+      first.points += DRAW_POINTS;
+      second.points += DRAW_POINTS;
+    } else {
+      const [winner, loser] =
+        match.result === MatchResult.PLAYER1_WIN ? [first, second] : [second, first];
+      winner.wins++;
+      winner.points += WIN_POINTS;
+      loser.losses++;
+    }
+  }
+
+  // Tiebreaks need everyone's final points, so they are added in a second pass
+  for (const match of decided) {
+    const first = standings.get(match.player1Id);
+    const second = match.player2Id ? standings.get(match.player2Id) : undefined;
+    if (!first || !second) {
+      continue;
+    }
+
+    if (match.result === MatchResult.DRAW) {
+      first.tiebreak += second.points * DRAW_POINTS;
+      second.tiebreak += first.points * DRAW_POINTS;
+    } else if (match.result === MatchResult.PLAYER1_WIN) {
+      first.tiebreak += second.points;
+    } else if (match.result === MatchResult.PLAYER2_WIN) {
+      second.tiebreak += first.points;
+    }
+  }
+
+  const seeds = new Map(tournament.participants.map((p) => [p.id, p.seed]));
+  return Array.from(standings.values())
+    .sort(
+      (a, b) =>
+        b.points - a.points ||
+        b.tiebreak - a.tiebreak ||
+        b.wins - a.wins ||
+        seeds.get(a.playerId)! - seeds.get(b.playerId)!
+    )
+    .map((standing, index) => ({ rank: index + 1, ...standing }));
+}
+
+function findLastIndex<T>(items: T[], predicate: (item: T) => boolean): number {
+  for (let i = items.length - 1; i >= 0; i--) {
+    if (predicate(items[i])) {
+      return i;
+    }
+  }
+  return -1;
+}
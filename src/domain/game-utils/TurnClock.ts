@@ -0,0 +1,286 @@
+/**
+ * TurnClock - Correspondence Time Control Utilities
+ *
+ * Pure functions for starting, advancing and inspecting the per-game clock
+ * stored in GameState.metadata.clock.
+ */
+
+import {
+  GameState,
+  GameLifecycle,
+  TimeControl,
+  TimeControlType,
+  TimeoutAction,
+  GameClock,
+  ClockStatus,
+} from '../models';
+
+export const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Validate a time control supplied by a client
+ *
+ * @param timeControl Time control to validate
+ * @returns Error message, or null if the time control is valid
+ */
+export function validateTimeControl(timeControl: unknown): string | null {
+  if (!timeControl || typeof timeControl !== 'object' || Array.isArray(timeControl)) {
+    return 'Time control must be an object';
+  }
+
+  const tc = timeControl as Partial<TimeControl>;
+  const isPositive = (value: unknown): boolean =>
+    typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+  if (tc.onTimeout !== undefined && !Object.values(TimeoutAction).includes(tc.onTimeout)) {
+    return `Time control onTimeout must be one of: ${Object.values(TimeoutAction).join(', ')}`;
+  }
+
+  if (
+    tc.aiStrategyId !== undefined &&
+    (typeof tc.aiStrategyId !== 'string' || tc.aiStrategyId.trim() === '')
+  ) {
+    return 'Time control aiStrategyId must be a non-empty string if provided';
+  }
+
+  switch (tc.type) {
+    case TimeControlType.PER_MOVE:
+      if (!isPositive(tc.daysPerMove)) {
+        return 'Per-move time control requires a positive daysPerMove';
+      }
+      return null;
+    case TimeControlType.FISCHER:
+      if (!isPositive(tc.initialDays)) {
+        return 'Fischer time control requires a positive initialDays';
+      }
+      if (
+        tc.incrementDays !== undefined &&
+        (typeof tc.incrementDays !== 'number' || tc.incrementDays < 0)
+      ) {
+        return 'Fischer time control incrementDays must be zero or positive';
+      }
+      if (tc.maxDays !== undefined && (!isPositive(tc.maxDays) || tc.maxDays < tc.initialDays!)) {
+        return 'Fischer time control maxDays must be at least initialDays';
+      }
+      return null;
+    default:
+      return `Time control type must be one of: ${Object.values(TimeControlType).join(', ')}`;
+  }
+}
+
+/**
+ * Start a clock for the first turn of a game
+ *
+ * @param timeControl The game's time control
+ * @param playerIds All players in the game
+ * @param currentPlayerId Player whose turn it is
+ * @param now Current time
+ */
+export function startClock(
+  timeControl: TimeControl,
+  playerIds: string[],
+  currentPlayerId: string,
+  now: Date = new Date()
+): GameClock {
+  if (timeControl.type === TimeControlType.FISCHER) {
+    const initialBank = timeControl.initialDays! * MS_PER_DAY;
+    const banks: Record<string, number> = {};
+    for (const playerId of playerIds) {
+      banks[playerId] = initialBank;
+    }
+    return {
+      timeControl,
+      turnPlayerId: currentPlayerId,
+      turnStartedAt: now.toISOString(),
+      deadline: new Date(now.getTime() + initialBank).toISOString(),
+      banks,
+    };
+  }
+
+  return {
+    timeControl,
+    turnPlayerId: currentPlayerId,
+    turnStartedAt: now.toISOString(),
+    deadline: new Date(now.getTime() + timeControl.daysPerMove! * MS_PER_DAY).toISOString(),
+  };
+}
+
+/**
+ * Advance a clock to a new turn
+ * Charges the elapsed time to the player who just finished (FISCHER) and
+ * starts the next player's deadline. Returns the clock unchanged while the
+ * same player keeps the turn.
+ *
+ * @param clock The current clock
+ * @param nextPlayerId Player whose turn it now is
+ * @param now Current time
+ */
+export function advanceClock(
+  clock: GameClock,
+  nextPlayerId: string,
+  now: Date = new Date()
+): GameClock {
+  if (clock.turnPlayerId === nextPlayerId) {
+    return clock;
+  }
+
+  const { timeControl } = clock;
+
+  if (timeControl.type === TimeControlType.FISCHER && clock.banks) {
+    const elapsed = now.getTime() - new Date(clock.turnStartedAt).getTime();
+    const increment = (timeControl.incrementDays ?? 0) * MS_PER_DAY;
+    const cap = timeControl.maxDays !== undefined ? timeControl.maxDays * MS_PER_DAY : Infinity;
+    const previousBank = clock.banks[clock.turnPlayerId] ?? 0;
+
+    const banks = {
+      ...clock.banks,
+      [clock.turnPlayerId]: Math.min(Math.max(previousBank - elapsed, 0) + increment, cap),
+    };
+    const nextBank = banks[nextPlayerId] ?? timeControl.initialDays! * MS_PER_DAY;
+    banks[nextPlayerId] = nextBank;
+
+    return {
+      ...clock,
+      turnPlayerId: nextPlayerId,
+      turnStartedAt: now.toISOString(),
+      deadline: new Date(now.getTime() + nextBank).toISOString(),
+      banks,
+    };
+  }
+
+  return {
+    ...clock,
+    turnPlayerId: nextPlayerId,
+    turnStartedAt: now.toISOString(),
+    deadline: new Date(now.getTime() + timeControl.daysPerMove! * MS_PER_DAY).toISOString(),
+  };
+}
+
+/**
+ * Restart the current player's turn without charging anyone
+ * Used when a seat changes hands and the new occupant deserves a full allowance.
+ *
+ * @param clock The current clock
+ * @param now Current time
+ */
+export function restartTurn(clock: GameClock, now: Date = new Date()): GameClock {
+  const allowance =
+    clock.timeControl.type === TimeControlType.FISCHER && clock.banks
+      ? (clock.banks[clock.turnPlayerId] ?? 0)
+      : clock.timeControl.daysPerMove! * MS_PER_DAY;
+
+  return {
+    ...clock,
+    turnStartedAt: now.toISOString(),
+    deadline: new Date(now.getTime() + allowance).toISOString(),
+  };
+}
+
+/**
+ * Check whether the current turn's deadline has passed
+ *
+ * @param clock The current clock
+ * @param now Current time
+ */
+export function isClockExpired(clock: GameClock, now: Date = new Date()): boolean {
+  return now.getTime() >= new Date(clock.deadline).getTime();
+}
+
+/**
+ * Compute the client-facing status of a clock
+ *
+ * @param clock The current clock
+ * @param now Current time
+ */
+export function getClockStatus(clock: GameClock, now: Date = new Date()): ClockStatus {
+  const timeRemainingMs = Math.max(new Date(clock.deadline).getTime() - now.getTime(), 0);
+
+  const status: ClockStatus = {
+    playerId: clock.turnPlayerId,
+    deadline: clock.deadline,
+    timeRemainingMs,
+  };
+
+  if (clock.banks) {
+    status.banks = { ...clock.banks, [clock.turnPlayerId]: timeRemainingMs };
+  }
+
+  return status;
+}
+
+/**
+ * Read the clock from a game's metadata, if the game has a time control
+ *
+ * @param state Game state
+ */
+export function getGameClock(state: GameState): GameClock | undefined {
+  return state.metadata?.clock as GameClock | undefined;
+}
+
+/**
+ * Bring a game's clock in line with its current turn
+ * Starts the clock when a timed game first becomes active and advances it
+ * whenever the turn has moved to another player. Games without a time
+ * control, or that are no longer active, are returned unchanged.
+ *
+ * @param state Game state
+ * @param currentPlayerId Player whose turn it is according to the game plugin
+ * @param now Current time
+ */
+export function syncGameClock(
+  state: GameState,
+  currentPlayerId: string,
+  now: Date = new Date()
+): GameState {
+  const metadata = state.metadata ?? {};
+  const timeControl = metadata.timeControl as TimeControl | undefined;
+
+  if (!timeControl || state.lifecycle !== GameLifecycle.ACTIVE || !currentPlayerId) {
+    return state;
+  }
+
+  const clock = metadata.clock as GameClock | undefined;
+  const nextClock = clock
+    ? advanceClock(clock, currentPlayerId, now)
+    : startClock(
+        timeControl,
+        state.players.map((p) => p.id),
+        currentPlayerId,
+        now
+      );
+
+  if (nextClock === clock) {
+    return state;
+  }
+
+  return {
+    ...state,
+    metadata: {
+      ...metadata,
+      clock: nextClock,
+    },
+  };
+}
+
+/**
+ * Get the time the turn timeout scheduler next has to look at a game
+ * That is the turn deadline, or the start of the turn when the player on turn
+ * has handed their seat to an AI, since that move is due straight away.
+ * Stored alongside each game so the scheduler can query for due games.
+ *
+ * @param state Game state
+ * @returns The due time, or null for games that are not active or not timed
+ */
+export function getTurnDueAt(state: GameState): Date | null {
+  const clock = getGameClock(state);
+  if (!clock || state.lifecycle !== GameLifecycle.ACTIVE) {
+    return null;
+  }
+
+  const player = state.players.find((p) => p.id === clock.turnPlayerId);
+  if (player?.metadata?.aiTakeover) {
+    return new Date(clock.turnStartedAt);
+  }
+
+  return new Date(clock.deadline);
+}
@@ -0,0 +1,30 @@
+import { AIMoveJob } from '../models/AIMoveJob';
+
+/**
+ * Queue of games waiting for an AI move
+ * A game holds at most one job at a time.
+ */
+export interface IAIMoveQueue {
+  /**
+   * Add a job, replacing any job already queued for the game
+   */
+  enqueue(job: AIMoveJob): Promise<void>;
+
+  /**
+   * Take the jobs that are due, earliest first; taken jobs leave the queue
+   * @param now - Current time
+   * @param limit - Most jobs to take
+   */
+  takeDue(now: Date, limit: number): Promise<AIMoveJob[]>;
+
+  /**
+   * Remove a game's job
+   * @returns true if the game had a queued job
+   */
+  remove(gameId: string): Promise<boolean>;
+
+  /**
+   * Get all queued jobs, earliest first
+   */
+  findAll(): Promise<AIMoveJob[]>;
+}
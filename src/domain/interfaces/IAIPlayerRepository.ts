@@ -4,6 +4,8 @@ import { AIPlayer } from '../models/AIPlayer';
  * Parameters for creating a new AI player
  */
 export interface CreateAIPlayerParams {
+  /** Fixed ID, used to re-register an AI seat of an existing game; generated if omitted */
+  id?: string;
   name: string;
   gameType: string;
   strategyId: string;
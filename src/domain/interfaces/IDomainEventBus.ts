@@ -0,0 +1,35 @@
+import { DomainEvent, DomainEventOf, DomainEventType } from '../models/DomainEvent';
+
+/**
+ * Handles one type of domain event
+ */
+export type DomainEventHandler<T extends DomainEventType> = (
+  event: DomainEventOf<T>
+) => void | Promise<void>;
+
+/**
+ * In-process publish/subscribe bus for domain events
+ * Services publish what happened; side effects such as broadcasts, notifications,
+ * ratings and webhooks subscribe independently.
+ */
+export interface IDomainEventBus {
+  /**
+   * Subscribe to one type of event
+   * @param type - The event type
+   * @param handler - Called with every published event of that type
+   * @param name - Name used when logging the handler's failures
+   * @returns Function that removes the subscription
+   */
+  subscribe<T extends DomainEventType>(
+    type: T,
+    handler: DomainEventHandler<T>,
+    name?: string
+  ): () => void;
+
+  /**
+   * Publish an event to every subscriber of its type
+   * Resolves once every handler has finished. A failing handler is logged and
+   * never stops the others or rejects the publish.
+   */
+  publish(event: DomainEvent): Promise<void>;
+}
@@ -0,0 +1,27 @@
+/**
+ * A plain-text email ready to send
+ */
+export interface EmailMessage {
+  to: string;
+  from: string;
+  subject: string;
+  text: string;
+}
+
+/**
+ * Delivers emails
+ * Lets the email notification channel send through SMTP in production and
+ * through a file or in-memory transport in development and tests.
+ */
+export interface IEmailTransport {
+  /**
+   * Send an email
+   * @throws Error if the email could not be delivered
+   */
+  send(message: EmailMessage): Promise<void>;
+
+  /**
+   * Check that the transport can deliver email
+   */
+  verify(): Promise<boolean>;
+}
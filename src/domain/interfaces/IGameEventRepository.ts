@@ -0,0 +1,23 @@
+import { GameEvent, GameSnapshot } from '../models';
+
+/**
+ * Read access to a game's append-only event log
+ * Events and snapshots are written by the game repository as part of save and update,
+ * so they always match the stored state.
+ */
+export interface IGameEventRepository {
+  /**
+   * Get a game's events in order
+   * @param gameId - The game ID
+   * @param afterSequence - Only return events with a greater sequence (default 0)
+   */
+  getEvents(gameId: string, afterSequence?: number): Promise<GameEvent[]>;
+
+  /**
+   * Get the most recent snapshot taken at or before a move
+   * @param gameId - The game ID
+   * @param moveNumber - Latest move the snapshot may reflect
+   * @returns The snapshot, or null if none exists
+   */
+  getLatestSnapshot(gameId: string, moveNumber: number): Promise<GameSnapshot | null>;
+}
@@ -0,0 +1,39 @@
+import { GameState, GameDeletion, ModerationLogEntry } from '../models';
+
+/**
+ * Soft deletion and the moderation log for games
+ * Implemented by the game repository: a soft-deleted game is left out of
+ * findById, findAll and findByPlayer until it is restored.
+ */
+export interface IGameModerationRepository {
+  /**
+   * Hide a game and append the deletion to its moderation log
+   * Both are written together: neither is kept if the other fails.
+   * @throws GameNotFoundError if the game does not exist or is already deleted
+   */
+  softDelete(gameId: string, deletion: GameDeletion, entry: ModerationLogEntry): Promise<void>;
+
+  /**
+   * Make a soft-deleted game visible again and append the restore to its moderation log
+   * Both are written together: neither is kept if the other fails.
+   * @returns The restored game
+   * @throws GameNotFoundError if there is no deleted game with this ID
+   */
+  restore(gameId: string, entry: ModerationLogEntry): Promise<GameState>;
+
+  /**
+   * Get the deletion record of a soft-deleted game
+   * @returns The deletion, or null if the game is not deleted
+   */
+  findDeletion(gameId: string): Promise<GameDeletion | null>;
+
+  /**
+   * Append an entry to a game's moderation log
+   */
+  appendModerationEntry(entry: ModerationLogEntry): Promise<void>;
+
+  /**
+   * Get a game's moderation log, oldest entry first
+   */
+  getModerationLog(gameId: string): Promise<ModerationLogEntry[]>;
+}
@@ -0,0 +1,29 @@
+import { MatchmakingEntry } from '../models/Matchmaking';
+
+/**
+ * Repository interface for the matchmaking queue
+ * A player holds at most one entry at a time.
+ */
+export interface IMatchmakingRepository {
+  /**
+   * Add a player to the queue, replacing any entry they already hold
+   */
+  add(entry: MatchmakingEntry): Promise<void>;
+
+  /**
+   * Remove a player from the queue
+   * @returns true if the player was queued
+   */
+  remove(userId: string): Promise<boolean>;
+
+  /**
+   * Find a player's queue entry
+   */
+  findByUser(userId: string): Promise<MatchmakingEntry | null>;
+
+  /**
+   * Get all queued players, longest waiting first
+   * @param gameType - Optional game type filter
+   */
+  findAll(gameType?: string): Promise<MatchmakingEntry[]>;
+}
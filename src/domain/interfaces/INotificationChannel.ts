@@ -65,4 +65,12 @@ export interface INotificationChannel {
    * Check if this channel is available/configured
    */
   isAvailable(): Promise<boolean>;
+
+  /**
+   * Clear a player's turn notifications for a game once they no longer apply
+   * Optional; channels that cannot take a notification back leave this out.
+   * @param userId - The player who is no longer on turn
+   * @param gameId - The game ID
+   */
+  clearTurnNotifications?(userId: string, gameId: string): Promise<void>;
 }
@@ -0,0 +1,34 @@
+import { NotificationData, NotificationType } from './INotificationChannel';
+
+/**
+ * A notification held back for a player's digest
+ */
+export interface PendingDigestNotification {
+  notificationId: string;
+  userId: string;
+  gameId: string;
+  type: NotificationType;
+  message: string;
+  metadata: Record<string, unknown>;
+  createdAt: Date;
+}
+
+/**
+ * Stores notifications waiting to go out in an email digest
+ */
+export interface INotificationDigestRepository {
+  /**
+   * Hold a notification for the next digest
+   */
+  add(notification: NotificationData): Promise<void>;
+
+  /**
+   * Get every notification waiting for a digest, oldest first
+   */
+  findPending(): Promise<PendingDigestNotification[]>;
+
+  /**
+   * Mark notifications as delivered in a digest
+   */
+  markSent(notificationIds: string[]): Promise<void>;
+}
@@ -1,4 +1,4 @@
-import { PlayerProfile } from '../models/PlayerProfile';
+import { PlayerProfile, NotificationPreferences } from '../models/PlayerProfile';
 
 /**
  * Parameters for creating a new player profile
@@ -13,6 +13,7 @@ export interface CreatePlayerProfileParams {
  */
 export interface UpdatePlayerProfileParams {
   displayName?: string;
+  notificationPreferences?: NotificationPreferences;
 }
 
 /**
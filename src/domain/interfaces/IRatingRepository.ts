@@ -0,0 +1,41 @@
+import { PlayerRating, RatingHistoryEntry } from '../models/PlayerRating';
+
+/**
+ * Computes new ratings from the players' ratings before a game
+ * Receives a rating for every requested player, using initial ratings for newcomers.
+ */
+export type RatingCalculator = (current: Map<string, PlayerRating>) => PlayerRating[];
+
+/**
+ * Repository interface for per-game-type player ratings
+ */
+export interface IRatingRepository {
+  /**
+   * Apply the outcome of a game to its players' ratings
+   * Reading the current ratings, storing the new ones and recording history happen
+   * atomically, and each game is rated at most once.
+   * @param gameId - The completed game
+   * @param gameType - Game type the ratings belong to
+   * @param userIds - Players whose ratings change
+   * @param calculate - Computes new ratings from the current ones
+   * @returns History entries written, or an empty array if the game was already rated
+   */
+  applyGameRatings(
+    gameId: string,
+    gameType: string,
+    userIds: string[],
+    calculate: RatingCalculator
+  ): Promise<RatingHistoryEntry[]>;
+
+  /**
+   * Get a player's current ratings, one per game type played
+   */
+  findByPlayer(userId: string): Promise<PlayerRating[]>;
+
+  /**
+   * Get a player's rating changes, oldest first
+   * @param userId - The player
+   * @param gameType - Optional game type filter
+   */
+  getHistory(userId: string, gameType?: string): Promise<RatingHistoryEntry[]>;
+}
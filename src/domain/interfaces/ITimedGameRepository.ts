@@ -0,0 +1,15 @@
+import { GameState } from '../models';
+
+/**
+ * Lookup of timed games for the turn timeout scheduler
+ * Implemented by the game repository, which keeps each game's due time
+ * (see getTurnDueAt) in step with its state on every save and update.
+ */
+export interface ITimedGameRepository {
+  /**
+   * Find active timed games whose due time has been reached
+   * Soft-deleted games are left out.
+   * @param now - Current time
+   */
+  findDueTimedGames(now: Date): Promise<GameState[]>;
+}
@@ -0,0 +1,28 @@
+import { Tournament, TournamentStatus } from '../models/Tournament';
+
+/**
+ * Repository interface for tournament persistence
+ */
+export interface ITournamentRepository {
+  /**
+   * Store a new tournament
+   */
+  create(tournament: Tournament): Promise<Tournament>;
+
+  /**
+   * Find a tournament by ID
+   */
+  findById(tournamentId: string): Promise<Tournament | null>;
+
+  /**
+   * Find tournaments, newest first
+   * @param status - Optional status filter
+   */
+  findAll(status?: TournamentStatus): Promise<Tournament[]>;
+
+  /**
+   * Replace a stored tournament
+   * @throws Error if the tournament does not exist
+   */
+  update(tournament: Tournament): Promise<Tournament>;
+}
@@ -1,4 +1,4 @@
-import { GameState } from '../models';
+import { GameState, ClockStatus } from '../models';
 
 /**
  * WebSocket message types
@@ -8,6 +8,7 @@ export enum WebSocketMessageType {
   TURN_NOTIFICATION = 'turn_notification',
   INVITATION = 'invitation',
   GAME_COMPLETE = 'game_complete',
+  MATCH_FOUND = 'match_found',
   PING = 'ping',
   PONG = 'pong',
 }
@@ -27,6 +28,7 @@ export interface GameUpdateMessage extends WebSocketMessage {
   type: WebSocketMessageType.GAME_UPDATE;
   gameId: string;
   gameState: GameState;
+  clock?: ClockStatus;
 }
 
 /**
@@ -57,6 +59,17 @@ export interface GameCompleteMessage extends WebSocketMessage {
   winner: string | null;
 }
 
+/**
+ * Match found message, sent to each player paired by matchmaking
+ */
+export interface MatchFoundMessage extends WebSocketMessage {
+  type: WebSocketMessageType.MATCH_FOUND;
+  gameId: string;
+  gameType: string;
+  opponentId: string;
+  opponentName: string;
+}
+
 /**
  * Interface for WebSocket service
  * Manages real-time connections and message broadcasting
@@ -90,11 +103,31 @@ export interface IWebSocketService {
   unsubscribe(userId: string, gameId: string): void;
 
   /**
-   * Broadcast a message to all subscribers of a game
+   * Subscribe a user to game updates as an observer rather than a player
+   * @param userId - The user ID
+   * @param gameId - The game ID to observe
+   */
+  observe(userId: string, gameId: string): void;
+
+  /**
+   * Stop a user observing a game
+   * @param userId - The user ID
+   * @param gameId - The game ID to stop observing
+   */
+  unobserve(userId: string, gameId: string): void;
+
+  /**
+   * Broadcast a message to all subscribers and observers of a game
    * @param gameId - The game ID
    * @param message - The message to broadcast
+   * @param forRecipient - Optionally builds each recipient's own copy of the message,
+   * e.g. with the game state that user may see
    */
-  broadcastToGame(gameId: string, message: WebSocketMessage): Promise<void>;
+  broadcastToGame(
+    gameId: string,
+    message: WebSocketMessage,
+    forRecipient?: (userId: string) => WebSocketMessage
+  ): Promise<void>;
 
   /**
    * Send a message to a specific user
@@ -112,4 +145,9 @@ export interface IWebSocketService {
    * Get the number of subscribers for a game
    */
   getGameSubscriberCount(gameId: string): number;
+
+  /**
+   * Get the number of observers for a game
+   */
+  getGameObserverCount(gameId: string): number;
 }
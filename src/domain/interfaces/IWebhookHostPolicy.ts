@@ -0,0 +1,11 @@
+/**
+ * Decides which hosts webhooks may be sent to
+ */
+export interface IWebhookHostPolicy {
+  /**
+   * Check whether a host may receive webhooks
+   * @param hostname - Host name or IP address from the webhook URL
+   * @returns Why the host is refused, or null if it is allowed
+   */
+  check(hostname: string): Promise<string | null>;
+}
@@ -0,0 +1,52 @@
+import { Webhook, WebhookDelivery, WebhookEventType } from '../models/Webhook';
+
+/**
+ * Storage for webhooks and their deliveries
+ */
+export interface IWebhookRepository {
+  /**
+   * Store a new webhook
+   */
+  create(webhook: Webhook): Promise<Webhook>;
+
+  /**
+   * Find a webhook by its ID
+   */
+  findById(webhookId: string): Promise<Webhook | null>;
+
+  /**
+   * Get webhooks, oldest first
+   * @param ownerId - Only return this user's webhooks
+   */
+  findAll(ownerId?: string): Promise<Webhook[]>;
+
+  /**
+   * Get the webhooks that want an event, oldest first
+   * A webhook matches when it subscribes to the event type and its gameId and
+   * gameType filters are either unset or equal to the game's.
+   */
+  findForEvent(type: WebhookEventType, gameId: string, gameType: string): Promise<Webhook[]>;
+
+  /**
+   * Delete a webhook and its deliveries
+   */
+  delete(webhookId: string): Promise<void>;
+
+  /**
+   * Store a delivery, replacing any earlier version of it
+   */
+  saveDelivery(delivery: WebhookDelivery): Promise<void>;
+
+  /**
+   * Get pending deliveries whose next attempt is due, earliest first
+   * @param now - Current time
+   * @param limit - Most deliveries to return
+   */
+  findDueDeliveries(now: Date, limit: number): Promise<WebhookDelivery[]>;
+
+  /**
+   * Get a webhook's deliveries, newest first
+   * @param limit - Most deliveries to return
+   */
+  findDeliveries(webhookId: string, limit: number): Promise<WebhookDelivery[]>;
+}
@@ -0,0 +1,18 @@
+/**
+ * Result of posting a webhook payload
+ */
+export interface WebhookResponse {
+  statusCode: number;
+}
+
+/**
+ * Posts webhook payloads over HTTP
+ */
+export interface IWebhookSender {
+  /**
+   * POST a JSON body to a URL
+   * @returns The response status; any status is returned rather than thrown
+   * @throws Error if no response was received (network error or timeout)
+   */
+  post(url: string, body: string, headers: Record<string, string>): Promise<WebhookResponse>;
+}
@@ -1,4 +1,11 @@
-import { GameState, Player, Move } from '@domain/models';
+import {
+  GameState,
+  Player,
+  Move,
+  TimeControl,
+  SpectatorPolicy,
+  GameSettingsSchema,
+} from '@domain/models';
 import { AIStrategy, AIPlayerConfig } from './IAIStrategy';
 import { AIPlayer } from '@domain/models/AIPlayer';
 
@@ -14,6 +21,20 @@ export * from './IInvitationRepository';
 // Export notification channel interface
 export * from './INotificationChannel';
 
+// Export email transport interface
+export * from './IEmailTransport';
+
+// Export notification digest repository interface
+export * from './INotificationDigestRepository';
+
+// Export webhook interfaces
+export * from './IWebhookRepository';
+export * from './IWebhookSender';
+export * from './IWebhookHostPolicy';
+
+// Export domain event bus interface
+export * from './IDomainEventBus';
+
 // Export WebSocket service interface
 export * from './IWebSocketService';
 
@@ -23,6 +44,27 @@ export * from './IAIStrategy';
 // Export AI player repository interface
 export * from './IAIPlayerRepository';
 
+// Export game event repository interface
+export * from './IGameEventRepository';
+
+// Export rating repository interface
+export * from './IRatingRepository';
+
+// Export matchmaking repository interface
+export * from './IMatchmakingRepository';
+
+// Export tournament repository interface
+export * from './ITournamentRepository';
+
+// Export game moderation repository interface
+export * from './IGameModerationRepository';
+
+// Export timed game repository interface
+export * from './ITimedGameRepository';
+
+// Export AI move queue interface
+export * from './IAIMoveQueue';
+
 /**
  * Configuration for initializing a game
  */
@@ -30,6 +72,8 @@ export interface GameConfig {
   players?: Player[];
   aiPlayers?: AIPlayerConfig[];
   customSettings?: Record<string, any>;
+  timeControl?: TimeControl;
+  spectators?: SpectatorPolicy;
 }
 
 /**
@@ -100,6 +144,12 @@ export interface GameEnginePlugin {
   getMaxPlayers(): number;
   getDescription(): string;
 
+  /**
+   * JSON Schema for the custom settings this game reads from GameConfig.customSettings
+   * Games without settings leave this out.
+   */
+  getConfigSchema?(): GameSettingsSchema;
+
   // Lifecycle hooks
   onGameCreated(state: GameState, config: GameConfig): void;
   onPlayerJoined(state: GameState, playerId: string): void;
@@ -132,6 +182,18 @@ export interface GameEnginePlugin {
   getNextPlayer(state: GameState): string;
   advanceTurn(state: GameState): GameState;
 
+  /**
+   * The part of the game state a player may see, for games with hidden information
+   * such as hands or secret setups. Games without this hook show players the full state.
+   */
+  getPlayerView?(state: GameState, playerId: string): GameState;
+
+  /**
+   * The part of the game state observers and anonymous viewers may see
+   * Games that implement getPlayerView should implement this too.
+   */
+  getSpectatorView?(state: GameState): GameState;
+
   // Rendering with optional hooks
   beforeRenderBoard?(state: GameState): void;
   renderBoard(state: GameState): BoardRenderData;
@@ -0,0 +1,39 @@
+/**
+ * AI move job models
+ * Games waiting on an AI player are queued and played by a background worker
+ * rather than inside the request that handed the turn to the AI.
+ */
+
+/** Attempts at an AI move before the worker gives up on it */
+export const AI_MOVE_MAX_ATTEMPTS = 3;
+
+/** Delay before the first retry of a failed AI move; doubles with each further attempt */
+export const AI_MOVE_RETRY_BASE_DELAY_MS = 1000;
+
+/**
+ * A game waiting for its current AI player to move
+ */
+export interface AIMoveJob {
+  gameId: string;
+  /** Failed attempts so far */
+  attempts: number;
+  /** Earliest time the job may run */
+  runAt: Date;
+  enqueuedAt: Date;
+  /** Message of the most recent failure */
+  lastError?: string;
+}
+
+/**
+ * Create a job that is due immediately
+ */
+export function createAIMoveJob(gameId: string, now: Date = new Date()): AIMoveJob {
+  return { gameId, attempts: 0, runAt: now, enqueuedAt: now };
+}
+
+/**
+ * Get how long to wait before retrying a job that has failed `attempts` times
+ */
+export function getAIMoveRetryDelayMs(attempts: number): number {
+  return AI_MOVE_RETRY_BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1);
+}
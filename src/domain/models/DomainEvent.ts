@@ -0,0 +1,106 @@
+import { GameState, Move } from './index';
+import { GameInvitation } from './GameInvitation';
+
+/**
+ * Types of domain events published by the game services
+ */
+export enum DomainEventType {
+  GAME_CREATED = 'GameCreated',
+  PLAYER_JOINED = 'PlayerJoined',
+  GAME_UPDATED = 'GameUpdated',
+  MOVE_APPLIED = 'MoveApplied',
+  TURN_CHANGED = 'TurnChanged',
+  GAME_COMPLETED = 'GameCompleted',
+  INVITATION_SENT = 'InvitationSent',
+}
+
+/**
+ * A game was created
+ */
+export interface GameCreatedDomainEvent {
+  type: DomainEventType.GAME_CREATED;
+  game: GameState;
+  /** The user who created the game, if known */
+  creatorId: string | null;
+}
+
+/**
+ * A player joined a game
+ */
+export interface PlayerJoinedDomainEvent {
+  type: DomainEventType.PLAYER_JOINED;
+  game: GameState;
+  playerId: string;
+}
+
+/**
+ * A game's saved state changed during play
+ * Published for every move, resign, draw, abort, timeout and moderation action,
+ * before any more specific event about the same change.
+ */
+export interface GameUpdatedDomainEvent {
+  type: DomainEventType.GAME_UPDATED;
+  game: GameState;
+  /** What changed the game, e.g. "move" or "resign" */
+  reason: string;
+}
+
+/**
+ * A player or AI made a move
+ */
+export interface MoveAppliedDomainEvent {
+  type: DomainEventType.MOVE_APPLIED;
+  game: GameState;
+  playerId: string;
+  move: Move;
+}
+
+/**
+ * A different player is now on turn, including the first player when a game starts
+ */
+export interface TurnChangedDomainEvent {
+  type: DomainEventType.TURN_CHANGED;
+  game: GameState;
+  /** The player on turn before, or null when the game has just started */
+  previousPlayerId: string | null;
+  currentPlayerId: string;
+}
+
+/**
+ * A game ended with a result
+ */
+export interface GameCompletedDomainEvent {
+  type: DomainEventType.GAME_COMPLETED;
+  game: GameState;
+  winner: string | null;
+  isDraw: boolean;
+  /** Whether the result should change ratings */
+  rated: boolean;
+}
+
+/**
+ * A player was invited to a game
+ */
+export interface InvitationSentDomainEvent {
+  type: DomainEventType.INVITATION_SENT;
+  game: GameState;
+  invitation: GameInvitation;
+  inviterName: string;
+}
+
+/**
+ * Any domain event
+ */
+export type DomainEvent =
+  | GameCreatedDomainEvent
+  | PlayerJoinedDomainEvent
+  | GameUpdatedDomainEvent
+  | MoveAppliedDomainEvent
+  | TurnChangedDomainEvent
+  | GameCompletedDomainEvent
+  | InvitationSentDomainEvent;
+
+/**
+ * The event with the given type
+ */
+export type DomainEventOf<T extends DomainEventType> = Extract<DomainEvent, { type: T }>;
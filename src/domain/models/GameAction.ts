@@ -0,0 +1,42 @@
+import { Move } from './index';
+
+/**
+ * Generic meta-actions available in every game, independent of the plugin
+ * These are recorded in moveHistory alongside plugin moves but never passed to plugins.
+ */
+export enum MetaAction {
+  RESIGN = 'resign',
+  OFFER_DRAW = 'offer_draw',
+  ACCEPT_DRAW = 'accept_draw',
+  DECLINE_DRAW = 'decline_draw',
+  ABORT = 'abort',
+}
+
+/**
+ * Number of plugin moves after which a game can no longer be aborted
+ */
+export const ABORT_MOVE_LIMIT = 2;
+
+/**
+ * Pending draw offer, stored in GameState.metadata.drawOffer
+ */
+export interface DrawOffer {
+  offeredBy: string;
+  offeredAt: string;
+  acceptedBy: string[];
+}
+
+/**
+ * Pending abort request, stored in GameState.metadata.abortRequest
+ */
+export interface AbortRequest {
+  requestedBy: string[];
+  requestedAt: string;
+}
+
+/**
+ * Check whether a moveHistory entry is a meta-action rather than a plugin move
+ */
+export function isMetaMove(move: Move): boolean {
+  return (Object.values(MetaAction) as string[]).includes(move.action);
+}
@@ -0,0 +1,102 @@
+import { GameState, GameLifecycle, Player, Move } from './index';
+
+/**
+ * Types of events recorded in a game's append-only event log
+ */
+export enum GameEventType {
+  GAME_CREATED = 'game_created',
+  PLAYER_JOINED = 'player_joined',
+  PLAYER_LEFT = 'player_left',
+  MOVE_APPLIED = 'move_applied',
+  TURN_SKIPPED = 'turn_skipped',
+  GAME_COMPLETED = 'game_completed',
+}
+
+/**
+ * Number of moves between stored snapshots of a game's state
+ * Replay starts from the nearest snapshot instead of the first move.
+ */
+export const SNAPSHOT_INTERVAL = 20;
+
+/**
+ * Fields shared by all game events
+ */
+interface GameEventBase {
+  gameId: string;
+  /** Position of the event in the game's log, starting at 1 */
+  sequence: number;
+  /** Number of moveHistory entries once the event has been applied */
+  moveNumber: number;
+  createdAt: Date;
+}
+
+/**
+ * The game was created; carries the state produced by the plugin's initializeGame
+ */
+export interface GameCreatedEvent extends GameEventBase {
+  type: GameEventType.GAME_CREATED;
+  payload: { state: GameState };
+}
+
+/**
+ * A player took a seat
+ */
+export interface PlayerJoinedEvent extends GameEventBase {
+  type: GameEventType.PLAYER_JOINED;
+  payload: { player: Player; lifecycle: GameLifecycle };
+}
+
+/**
+ * A player gave up their seat, or was removed from it, before the game started
+ */
+export interface PlayerLeftEvent extends GameEventBase {
+  type: GameEventType.PLAYER_LEFT;
+  payload: { playerId: string; lifecycle: GameLifecycle };
+}
+
+/**
+ * An entry was appended to moveHistory (plugin move or meta-action)
+ */
+export interface MoveAppliedEvent extends GameEventBase {
+  type: GameEventType.MOVE_APPLIED;
+  payload: { move: Move };
+}
+
+/**
+ * A player ran out of time and their turn passed to the next player without a move
+ */
+export interface TurnSkippedEvent extends GameEventBase {
+  type: GameEventType.TURN_SKIPPED;
+  payload: { playerId: string };
+}
+
+/**
+ * The game finished, either completed or abandoned
+ */
+export interface GameCompletedEvent extends GameEventBase {
+  type: GameEventType.GAME_COMPLETED;
+  payload: { lifecycle: GameLifecycle; winner: string | null };
+}
+
+/**
+ * Entry in a game's event log
+ */
+export type GameEvent =
+  | GameCreatedEvent
+  | PlayerJoinedEvent
+  | PlayerLeftEvent
+  | MoveAppliedEvent
+  | TurnSkippedEvent
+  | GameCompletedEvent;
+
+/**
+ * Full game state stored periodically so replay does not start from the first move
+ */
+export interface GameSnapshot {
+  gameId: string;
+  /** Sequence of the last event reflected in the snapshot */
+  sequence: number;
+  moveNumber: number;
+  state: GameState;
+  createdAt: Date;
+}
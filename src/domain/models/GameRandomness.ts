@@ -0,0 +1,12 @@
+/**
+ * Commit-reveal record for a game's random draws, stored in GameState.metadata.randomness
+ */
+export interface GameRandomness {
+  /** SHA-256 hash of the server seed, published when the game is created */
+  commitment: string;
+  /**
+   * Secret seed every roll is derived from
+   * Stripped from states sent to clients until the game is over.
+   */
+  serverSeed?: string;
+}
@@ -0,0 +1,41 @@
+/**
+ * Types a game setting can take
+ */
+export type GameSettingType = 'integer' | 'number' | 'boolean' | 'string';
+
+/**
+ * Schema for a single custom setting, a subset of JSON Schema
+ */
+export interface GameSettingSchema {
+  type: GameSettingType;
+  /** Label shown next to the setting in the game creation form */
+  title?: string;
+  description?: string;
+  default?: number | boolean | string;
+  /** Inclusive bounds (integer and number) */
+  minimum?: number;
+  maximum?: number;
+  /** Allowed values; clients show these as a choice */
+  enum?: Array<number | string>;
+}
+
+/**
+ * JSON Schema for a game type's `GameConfig.customSettings`
+ * Keys not listed in `properties` are accepted unless `additionalProperties` is false,
+ * so engines can keep reading internal keys such as `gameId`.
+ */
+export interface GameSettingsSchema {
+  type: 'object';
+  properties: Record<string, GameSettingSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+}
+
+/**
+ * A custom setting that does not match its schema
+ */
+export interface GameSettingViolation {
+  /** Name of the offending setting */
+  setting: string;
+  message: string;
+}
@@ -0,0 +1,64 @@
+/**
+ * Matchmaking models
+ * Players queue for a game type and are paired with opponents of a similar win rate.
+ */
+
+/** Win-rate difference accepted when a player joins without choosing one */
+export const DEFAULT_WIN_RATE_RANGE = 0.1;
+
+/** Amount the acceptable win-rate difference grows by per widening interval */
+export const WIN_RATE_RANGE_STEP = 0.05;
+
+/** How long a player waits before their acceptable win-rate difference grows */
+export const WIN_RATE_RANGE_WIDEN_INTERVAL_MS = 30 * 1000;
+
+/**
+ * A player waiting in the matchmaking queue
+ */
+export interface MatchmakingEntry {
+  userId: string;
+  username: string;
+  gameType: string;
+  /** Settings the player wants; only players whose shared settings agree are paired */
+  customSettings?: Record<string, unknown>;
+  /** The player's win rate for the game type when they joined */
+  winRate: number;
+  /** Largest win-rate difference to an opponent the player accepts when joining */
+  winRateRange: number;
+  joinedAt: Date;
+}
+
+/**
+ * Get the win-rate difference an entry accepts after waiting until `now`
+ * The range widens by WIN_RATE_RANGE_STEP every WIN_RATE_RANGE_WIDEN_INTERVAL_MS, up to 1.
+ */
+export function getAcceptableWinRateRange(entry: MatchmakingEntry, now: Date): number {
+  const waitedMs = Math.max(0, now.getTime() - entry.joinedAt.getTime());
+  const steps = Math.floor(waitedMs / WIN_RATE_RANGE_WIDEN_INTERVAL_MS);
+  return Math.min(1, entry.winRateRange + steps * WIN_RATE_RANGE_STEP);
+}
+
+/**
+ * Check whether two queued players can be paired
+ * Both must want the same game type, agree on every setting they both chose, and
+ * each must accept the other's win rate.
+ */
+export function areEntriesCompatible(a: MatchmakingEntry, b: MatchmakingEntry, now: Date): boolean {
+  if (a.userId === b.userId || a.gameType !== b.gameType) {
+    return false;
+  }
+
+  const settingsA = a.customSettings ?? {};
+  const settingsB = b.customSettings ?? {};
+  for (const key of Object.keys(settingsA)) {
+    if (key in settingsB && JSON.stringify(settingsA[key]) !== JSON.stringify(settingsB[key])) {
+      return false;
+    }
+  }
+
+  const difference = Math.abs(a.winRate - b.winRate);
+  return (
+    difference <= getAcceptableWinRateRange(a, now) &&
+    difference <= getAcceptableWinRateRange(b, now)
+  );
+}
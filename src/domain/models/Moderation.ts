@@ -0,0 +1,58 @@
+/**
+ * Moderation models
+ * Deleted games are kept and hidden rather than removed, and every deletion or
+ * admin intervention is recorded in the game's moderation log.
+ */
+
+/**
+ * Actions recorded in a game's moderation log
+ */
+export enum ModerationAction {
+  /** Game hidden by its creator or an admin */
+  DELETE = 'delete',
+  /** Deleted game made visible again */
+  RESTORE = 'restore',
+  /** Game ended without a result */
+  FORCE_COMPLETE = 'force_complete',
+  /** Game ended with a result chosen by an admin */
+  ADJUDICATE = 'adjudicate',
+  /** Player taken out of the game; forfeits if the game has started */
+  REMOVE_PLAYER = 'remove_player',
+}
+
+/**
+ * Record of who soft-deleted a game and when
+ */
+export interface GameDeletion {
+  deletedBy: string;
+  deletedAt: Date;
+  reason?: string;
+}
+
+/**
+ * Result an admin imposes on a game
+ * A null winner with isDraw false ends the game without a result.
+ */
+export interface ModeratedResult {
+  winner: string | null;
+  isDraw: boolean;
+  /** Whether player ratings should change */
+  rated: boolean;
+}
+
+/**
+ * Entry in a game's moderation log
+ */
+export interface ModerationLogEntry {
+  entryId: string;
+  gameId: string;
+  action: ModerationAction;
+  /** User who took the action */
+  actorId: string;
+  /** Whether the action was taken with admin rights */
+  asAdmin: boolean;
+  reason?: string;
+  /** Action-specific details, such as the adjudicated winner or the removed player */
+  details: Record<string, unknown>;
+  createdAt: Date;
+}
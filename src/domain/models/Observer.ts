@@ -0,0 +1,21 @@
+/**
+ * Spectating policy for a game, set at creation through GameConfig
+ */
+export enum SpectatorPolicy {
+  /** Anyone may observe */
+  ALLOW = 'allow',
+  /** Only friends of a player may observe */
+  FRIENDS = 'friends',
+  /** Nobody outside the game may observe */
+  FORBID = 'forbid',
+}
+
+/**
+ * A user watching a game without taking part in it
+ * Observers never count towards a game's player capacity.
+ */
+export interface Observer {
+  id: string;
+  name: string;
+  joinedAt: Date;
+}
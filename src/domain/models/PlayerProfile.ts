@@ -11,6 +11,59 @@ export interface PlayerProfile {
   createdAt: Date;
   /** Timestamp when profile was last updated */
   updatedAt: Date;
+  /** How the player wants to be notified; private to the player */
+  notificationPreferences?: NotificationPreferences;
+}
+
+/**
+ * Profile fields anyone may see
+ */
+export type PublicPlayerProfile = Omit<PlayerProfile, 'notificationPreferences'>;
+
+/**
+ * Names of the notification channels a player can choose between
+ */
+export const NOTIFICATION_CHANNEL_NAMES = ['in-app', 'email'] as const;
+
+export type NotificationChannelName = (typeof NOTIFICATION_CHANNEL_NAMES)[number];
+
+/**
+ * A player's notification settings
+ */
+export interface NotificationPreferences {
+  /** Channels the player receives notifications on */
+  channels: NotificationChannelName[];
+  /** Address for email notifications; email is skipped without one */
+  email?: string;
+  /** Batch turn emails into a daily digest instead of sending one per turn */
+  emailDigest: boolean;
+}
+
+/**
+ * Settings used until a player chooses their own
+ */
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  channels: ['in-app', 'email'],
+  emailDigest: false,
+};
+
+/**
+ * Get a profile's notification settings, falling back to the defaults
+ */
+export function getNotificationPreferences(profile: PlayerProfile | null): NotificationPreferences {
+  return profile?.notificationPreferences ?? DEFAULT_NOTIFICATION_PREFERENCES;
+}
+
+/**
+ * Strip the fields only the player may see
+ */
+export function toPublicProfile(profile: PlayerProfile): PublicPlayerProfile {
+  return {
+    userId: profile.userId,
+    displayName: profile.displayName,
+    createdAt: profile.createdAt,
+    updatedAt: profile.updatedAt,
+  };
 }
 
 /**
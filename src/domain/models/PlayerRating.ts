@@ -0,0 +1,73 @@
+/**
+ * Player rating models
+ * Ratings follow Glicko-2 and are tracked separately for every game type.
+ */
+
+/** Rating given to a player before their first rated game */
+export const DEFAULT_RATING = 1500;
+
+/** Rating deviation of a player with no rated games; also the upper bound */
+export const DEFAULT_RATING_DEVIATION = 350;
+
+/** Starting Glicko-2 volatility */
+export const DEFAULT_RATING_VOLATILITY = 0.06;
+
+/**
+ * Fixed ratings for AI opponents, keyed by strategy difficulty
+ * AI ratings never change; they anchor the scale so results against bots stay comparable.
+ * Strategies without a listed difficulty use DEFAULT_RATING.
+ */
+export const AI_ANCHOR_RATINGS: Record<string, number> = {
+  easy: 1000,
+  medium: 1500,
+  hard: 2000,
+};
+
+/** Rating deviation used for AI anchors */
+export const AI_ANCHOR_DEVIATION = 50;
+
+/**
+ * A player's current rating for one game type
+ */
+export interface PlayerRating {
+  userId: string;
+  gameType: string;
+  rating: number;
+  deviation: number;
+  volatility: number;
+  gamesPlayed: number;
+  updatedAt: Date;
+}
+
+/**
+ * A player's rating after one rated game
+ */
+export interface RatingHistoryEntry {
+  userId: string;
+  gameType: string;
+  gameId: string;
+  rating: number;
+  deviation: number;
+  /** Difference from the rating before the game */
+  ratingChange: number;
+  createdAt: Date;
+}
+
+/**
+ * Create the rating of a player who has not played a rated game of this type
+ */
+export function createInitialRating(
+  userId: string,
+  gameType: string,
+  now: Date = new Date()
+): PlayerRating {
+  return {
+    userId,
+    gameType,
+    rating: DEFAULT_RATING,
+    deviation: DEFAULT_RATING_DEVIATION,
+    volatility: DEFAULT_RATING_VOLATILITY,
+    gamesPlayed: 0,
+    updatedAt: now,
+  };
+}
@@ -0,0 +1,75 @@
+/**
+ * Time control types for correspondence games
+ */
+export enum TimeControlType {
+  /** A fixed allowance for every move (e.g. 3 days per move) */
+  PER_MOVE = 'per_move',
+  /** A bank of time per player that grows by an increment after each move */
+  FISCHER = 'fischer',
+}
+
+/**
+ * What happens when a player misses their deadline
+ */
+export enum TimeoutAction {
+  /** The player who ran out of time loses the game */
+  FORFEIT = 'forfeit',
+  /** The turn passes to the next player */
+  SKIP = 'skip',
+  /** An AI player takes over the seat for the rest of the game */
+  AI_TAKEOVER = 'ai_takeover',
+}
+
+/**
+ * A resolved deadline, appended to GameState.metadata.timeouts
+ */
+export interface TimeoutRecord {
+  playerId: string;
+  action: TimeoutAction;
+  /** When the timeout was resolved (ISO string) */
+  at: string;
+}
+
+/**
+ * Per-game time control, set at creation through GameConfig
+ */
+export interface TimeControl {
+  type: TimeControlType;
+  /** Days allowed for each move (PER_MOVE) */
+  daysPerMove?: number;
+  /** Starting bank in days for each player (FISCHER) */
+  initialDays?: number;
+  /** Days added to a player's bank after each of their moves (FISCHER) */
+  incrementDays?: number;
+  /** Optional cap on a player's bank in days (FISCHER) */
+  maxDays?: number;
+  /** Outcome applied when a deadline passes (defaults to FORFEIT) */
+  onTimeout?: TimeoutAction;
+  /** AI strategy used when onTimeout is AI_TAKEOVER (defaults to the game's default strategy) */
+  aiStrategyId?: string;
+}
+
+/**
+ * Persisted clock for an active game, stored in GameState.metadata.clock
+ * Timestamps are ISO strings so the clock survives JSON persistence unchanged.
+ */
+export interface GameClock {
+  timeControl: TimeControl;
+  /** Player whose turn the clock is currently running for */
+  turnPlayerId: string;
+  turnStartedAt: string;
+  deadline: string;
+  /** Remaining bank per player in milliseconds at the start of the current turn (FISCHER) */
+  banks?: Record<string, number>;
+}
+
+/**
+ * Computed clock status exposed to clients
+ */
+export interface ClockStatus {
+  playerId: string;
+  deadline: string;
+  timeRemainingMs: number;
+  /** Remaining bank per player in milliseconds, live for the player on turn (FISCHER) */
+  banks?: Record<string, number>;
+}
@@ -0,0 +1,119 @@
+/**
+ * Tournament models
+ * A tournament plays a series of two-player games of one game type, round by round.
+ */
+
+/**
+ * How players are paired from round to round
+ */
+export enum TournamentFormat {
+  /** Everyone plays everyone once */
+  ROUND_ROBIN = 'round_robin',
+  /** Players on similar scores meet, for a fixed number of rounds */
+  SWISS = 'swiss',
+  /** Single elimination; the winner of each match advances */
+  KNOCKOUT = 'knockout',
+}
+
+/**
+ * Tournament lifecycle states
+ */
+export enum TournamentStatus {
+  /** Accepting participants */
+  REGISTRATION = 'registration',
+  IN_PROGRESS = 'in_progress',
+  COMPLETED = 'completed',
+}
+
+/**
+ * Outcome of a single tournament match
+ */
+export enum MatchResult {
+  PLAYER1_WIN = 'player1_win',
+  PLAYER2_WIN = 'player2_win',
+  DRAW = 'draw',
+  /** player1 had no opponent this round */
+  BYE = 'bye',
+}
+
+/** Points awarded for a win or a bye */
+export const WIN_POINTS = 1;
+
+/** Points awarded to each player for a draw */
+export const DRAW_POINTS = 0.5;
+
+/** Fewest participants a tournament can start with */
+export const MIN_TOURNAMENT_PARTICIPANTS = 2;
+
+/**
+ * A registered player
+ * Seeds follow registration order, starting at 1; lower seeds win knockout tiebreaks.
+ */
+export interface TournamentParticipant {
+  id: string;
+  name: string;
+  seed: number;
+}
+
+/**
+ * One pairing within a round
+ */
+export interface TournamentMatch {
+  matchId: string;
+  round: number;
+  player1Id: string;
+  /** null when player1 has a bye */
+  player2Id: string | null;
+  /** Game being played for this match; absent for byes */
+  gameId?: string;
+  /** Set once the match is decided */
+  result?: MatchResult;
+  /** Player who won or, in a drawn knockout match, advanced on the tiebreak */
+  winnerId?: string | null;
+}
+
+/**
+ * A round of matches
+ */
+export interface TournamentRound {
+  number: number;
+  matches: TournamentMatch[];
+}
+
+/**
+ * Tournament aggregate
+ */
+export interface Tournament {
+  tournamentId: string;
+  name: string;
+  gameType: string;
+  format: TournamentFormat;
+  status: TournamentStatus;
+  createdBy: string;
+  participants: TournamentParticipant[];
+  /** Number of rounds; fixed when the tournament starts */
+  totalRounds?: number;
+  rounds: TournamentRound[];
+  /** Settings passed to every game */
+  customSettings?: Record<string, unknown>;
+  winnerId: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * A participant's line in the standings table
+ */
+export interface TournamentStanding {
+  rank: number;
+  playerId: string;
+  name: string;
+  played: number;
+  wins: number;
+  draws: number;
+  losses: number;
+  byes: number;
+  points: number;
+  /** Sonneborn-Berger score: opponents' points, in full for wins and half for draws */
+  tiebreak: number;
+}
@@ -0,0 +1,116 @@
+/**
+ * Webhook models
+ * Webhooks push game events to URLs registered by users and admins. Every event is
+ * recorded as a delivery, which is signed and retried until the endpoint accepts it.
+ */
+
+/**
+ * Events a webhook can subscribe to
+ */
+export enum WebhookEventType {
+  GAME_CREATED = 'game.created',
+  MOVE_APPLIED = 'move.applied',
+  TURN_CHANGED = 'turn.changed',
+  GAME_COMPLETED = 'game.completed',
+  INVITATION_CREATED = 'invitation.created',
+}
+
+/** Delivery attempts before a delivery is marked as failed */
+export const WEBHOOK_MAX_ATTEMPTS = 5;
+
+/** Delay before the first retry of a failed delivery; doubles with each further attempt */
+export const WEBHOOK_RETRY_BASE_DELAY_MS = 30000;
+
+/**
+ * A registered webhook endpoint
+ */
+export interface Webhook {
+  webhookId: string;
+  /** User who registered the webhook */
+  ownerId: string;
+  url: string;
+  /** Key used to sign deliveries; only shown when the webhook is registered */
+  secret: string;
+  eventTypes: WebhookEventType[];
+  /** Only send events for this game */
+  gameId?: string;
+  /** Only send events for games of this type */
+  gameType?: string;
+  createdAt: Date;
+}
+
+/**
+ * Webhook fields that are shown after registration
+ */
+export type WebhookView = Omit<Webhook, 'secret'>;
+
+/**
+ * An event sent to webhooks
+ */
+export interface WebhookEvent {
+  eventId: string;
+  type: WebhookEventType;
+  gameId: string;
+  gameType: string;
+  occurredAt: Date;
+  data: Record<string, unknown>;
+}
+
+/**
+ * Delivery states
+ */
+export enum WebhookDeliveryStatus {
+  PENDING = 'pending',
+  SUCCEEDED = 'succeeded',
+  FAILED = 'failed',
+}
+
+/**
+ * One event on its way to one webhook
+ */
+export interface WebhookDelivery {
+  deliveryId: string;
+  webhookId: string;
+  event: WebhookEvent;
+  status: WebhookDeliveryStatus;
+  /** Attempts made so far */
+  attempts: number;
+  /** When the next attempt is due; null once the delivery succeeded or failed */
+  nextAttemptAt: Date | null;
+  /** HTTP status of the most recent attempt */
+  lastStatusCode?: number;
+  /** Error of the most recent failed attempt */
+  lastError?: string;
+  createdAt: Date;
+  deliveredAt?: Date;
+}
+
+/**
+ * Check whether a webhook wants an event
+ */
+export function matchesWebhook(
+  webhook: Webhook,
+  event: Pick<WebhookEvent, 'type' | 'gameId' | 'gameType'>
+): boolean {
+  return (
+    webhook.eventTypes.includes(event.type) &&
+    (!webhook.gameId || webhook.gameId === event.gameId) &&
+    (!webhook.gameType || webhook.gameType === event.gameType)
+  );
+}
+
+/**
+ * Strip the signing secret
+ */
+export function toWebhookView(webhook: Webhook): WebhookView {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { secret, ...view } = webhook;
+  return view;
+}
+
+/**
+ * Get how long to wait before retrying a delivery that has failed `attempts` times
+ */
+export function getWebhookRetryDelayMs(attempts: number): number {
+  return WEBHOOK_RETRY_BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1);
+}
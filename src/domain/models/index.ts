@@ -7,6 +7,37 @@ export * from './GameInvitation';
 // Export AIPlayer
 export * from './AIPlayer';
 
+// Export TimeControl
+export * from './TimeControl';
+
+// Export GameSettingsSchema
+export * from './GameSettingsSchema';
+
+// Export GameAction
+export * from './GameAction';
+
+// Export GameEvent
+export * from './GameEvent';
+
+// Export Observer
+export * from './Observer';
+
+// Export PlayerRating
+export * from './PlayerRating';
+
+// Export Matchmaking
+export * from './Matchmaking';
+
+// Export Tournament
+export * from './Tournament';
+
+// Export Moderation
+export * from './Moderation';
+
+// Export AI move jobs
+export * from './AIMoveJob';
+import { Observer } from './Observer';
+
 /**
  * Game lifecycle states
  */
@@ -86,6 +117,7 @@ export interface GameState<TMetadata = Record<string, any>> {
   gameType: string;
   lifecycle: GameLifecycle;
   players: Player[];
+  observers?: Observer[];
   currentPlayerIndex: number;
   phase: string;
   board: Board;
@@ -96,3 +128,12 @@ export interface GameState<TMetadata = Record<string, any>> {
   createdAt: Date;
   updatedAt: Date;
 }
+
+// Export Webhook
+export * from './Webhook';
+
+// Export DomainEvent
+export * from './DomainEvent';
+
+// Export GameRandomness
+export * from './GameRandomness';
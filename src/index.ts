@@ -10,6 +10,12 @@ import { createPlayerProfileRoutes } from './adapters/rest/playerProfileRoutes';
 import { createHealthRoutes } from './adapters/rest/healthRoutes';
 import { createStatsRoutes } from './adapters/rest/statsRoutes';
 import { createLeaderboardRoutes } from './adapters/rest/leaderboardRoutes';
+import { createRatingRoutes } from './adapters/rest/ratingRoutes';
+import { createMatchmakingRoutes } from './adapters/rest/matchmakingRoutes';
+import { createTournamentRoutes } from './adapters/rest/tournamentRoutes';
+import { createAdminRoutes } from './adapters/rest/adminRoutes';
+import { createInvitationRoutes } from './adapters/rest/invitationRoutes';
+import { createWebhookRoutes } from './adapters/rest/webhookRoutes';
 import { PluginRegistry } from './application/PluginRegistry';
 import { GameLockManager } from './application/GameLockManager';
 import { GameManagerService } from './application/services/GameManagerService';
@@ -17,21 +23,62 @@ import { StateManagerService } from './application/services/StateManagerService'
 import { PlayerProfileService } from './application/services/PlayerProfileService';
 import { StatsService } from './application/services/StatsService';
 import { AIPlayerService } from './application/services/AIPlayerService';
+import { TurnTimeoutService } from './application/services/TurnTimeoutService';
+import { AIMoveWorker } from './application/services/AIMoveWorker';
+import { GameReplayService } from './application/services/GameReplayService';
+import { RatingService } from './application/services/RatingService';
+import { MatchmakingService } from './application/services/MatchmakingService';
+import { TournamentService } from './application/services/TournamentService';
+import { ModerationService } from './application/services/ModerationService';
+import { InvitationService } from './application/services/InvitationService';
+import { WebhookService } from './application/services/WebhookService';
+import { WebhookDispatcher } from './application/services/WebhookDispatcher';
+import { NotificationService } from './application/services/NotificationService';
+import { DomainEventBus } from './application/events/DomainEventBus';
+import { WebSocketEventHandler } from './application/events/WebSocketEventHandler';
+import { NotificationEventHandler } from './application/events/NotificationEventHandler';
+import { RatingEventHandler } from './application/events/RatingEventHandler';
+import { TournamentEventHandler } from './application/events/TournamentEventHandler';
+import { WebhookEventHandler } from './application/events/WebhookEventHandler';
 import { PostgresGameRepository } from './infrastructure/persistence/PostgresGameRepository';
 import { PostgresPlayerIdentityRepository } from './infrastructure/persistence/PostgresPlayerIdentityRepository';
 import { PostgresPlayerProfileRepository } from './infrastructure/persistence/PostgresPlayerProfileRepository';
 import { PostgresStatsRepository } from './infrastructure/persistence/PostgresStatsRepository';
-import { InMemoryAIPlayerRepository } from './infrastructure/persistence/InMemoryAIPlayerRepository';
+import { PostgresInvitationRepository } from './infrastructure/persistence/PostgresInvitationRepository';
+import { PostgresRatingRepository } from './infrastructure/persistence/PostgresRatingRepository';
+import { PostgresTournamentRepository } from './infrastructure/persistence/PostgresTournamentRepository';
+import { PostgresAIPlayerRepository } from './infrastructure/persistence/PostgresAIPlayerRepository';
+import { PostgresNotificationDigestRepository } from './infrastructure/persistence/PostgresNotificationDigestRepository';
+import { PostgresWebhookRepository } from './infrastructure/persistence/PostgresWebhookRepository';
+import { InMemoryAIMoveQueue } from './infrastructure/persistence/InMemoryAIMoveQueue';
+import { InMemoryMatchmakingRepository } from './infrastructure/persistence/InMemoryMatchmakingRepository';
+import { InAppNotificationChannel } from './infrastructure/persistence/InAppNotificationChannel';
 import { RendererService } from './infrastructure/rendering/RendererService';
+import { EmailNotificationChannel } from './infrastructure/email/EmailNotificationChannel';
+import { SmtpEmailTransport } from './infrastructure/email/SmtpEmailTransport';
+import { FileEmailTransport } from './infrastructure/email/FileEmailTransport';
+import { HttpWebhookSender } from './infrastructure/webhooks/HttpWebhookSender';
+import { WebhookHostPolicy } from './infrastructure/webhooks/WebhookHostPolicy';
 import { WebSocketManager } from './infrastructure/websocket/WebSocketManager';
+import { WebSocketNotificationChannel } from './infrastructure/websocket/WebSocketNotificationChannel';
 import { setupWebSocketServer } from './adapters/rest/websocketAdapter';
 import { TicTacToeEngine } from '@games/tic-tac-toe/engine';
 import { ConnectFourEngine } from '@games/connect-four/engine';
 import { YahtzeeEngine } from '@games/yahtzee/engine';
+import { OthelloEngine } from '@games/othello/engine';
+import { CheckersEngine } from '@games/checkers/engine';
+import { DotsAndBoxesEngine } from '@games/dots-and-boxes/engine';
 import { DatabaseConnection } from './infrastructure/persistence/DatabaseConnection';
 import { DatabaseMigrator } from './infrastructure/persistence/DatabaseMigrator';
 import { validateAndLogConfig } from './config';
-import { GameRepository } from '@domain/interfaces';
+import {
+  GameRepository,
+  IGameEventRepository,
+  IGameModerationRepository,
+  ITimedGameRepository,
+  IEmailTransport,
+  INotificationChannel,
+} from '@domain/interfaces';
 import { initializeLogger } from './infrastructure/logging/Logger';
 
 // Startup logging will be handled by proper logger after initialization
@@ -52,10 +99,19 @@ async function startApplication() {
 
   // Initialize database connection and repository based on configuration
   let dbConnection: DatabaseConnection | null = null;
-  let gameRepository: GameRepository;
+  let gameRepository: GameRepository &
+    IGameEventRepository &
+    IGameModerationRepository &
+    ITimedGameRepository;
   let playerIdentityRepository: PostgresPlayerIdentityRepository;
   let playerProfileRepository: PostgresPlayerProfileRepository;
   let statsRepository: PostgresStatsRepository;
+  let invitationRepository: PostgresInvitationRepository;
+  let ratingRepository: PostgresRatingRepository;
+  let tournamentRepository: PostgresTournamentRepository;
+  let aiPlayerRepository: PostgresAIPlayerRepository;
+  let notificationDigestRepository: PostgresNotificationDigestRepository;
+  let webhookRepository: PostgresWebhookRepository;
 
   if (config.database.url) {
     logger.info('Initializing database connection', {
@@ -103,6 +159,27 @@ async function startApplication() {
       config.database.poolSize
     );
     statsRepository = new PostgresStatsRepository(config.database.url, config.database.poolSize);
+    invitationRepository = new PostgresInvitationRepository(
+      config.database.url,
+      config.database.poolSize
+    );
+    ratingRepository = new PostgresRatingRepository(config.database.url, config.database.poolSize);
+    tournamentRepository = new PostgresTournamentRepository(
+      config.database.url,
+      config.database.poolSize
+    );
+    aiPlayerRepository = new PostgresAIPlayerRepository(
+      config.database.url,
+      config.database.poolSize
+    );
+    notificationDigestRepository = new PostgresNotificationDigestRepository(
+      config.database.url,
+      config.database.poolSize
+    );
+    webhookRepository = new PostgresWebhookRepository(
+      config.database.url,
+      config.database.poolSize
+    );
   } else {
     logger.error('DATABASE_URL is required for player identity persistence');
     throw new Error('DATABASE_URL must be configured');
@@ -111,7 +188,8 @@ async function startApplication() {
   // Initialize dependencies
   const pluginRegistry = new PluginRegistry();
   const gameLockManager = new GameLockManager();
-  const rendererService = new RendererService(pluginRegistry, gameRepository);
+  const gameReplayService = new GameReplayService(gameRepository, gameRepository, pluginRegistry);
+  const rendererService = new RendererService(pluginRegistry, gameRepository, gameReplayService);
 
   // Register game plugins
   const ticTacToeEngine = new TicTacToeEngine();
@@ -132,33 +210,156 @@ async function startApplication() {
     gameType: yahtzeeEngine.getGameType(),
   });
 
+  const othelloEngine = new OthelloEngine();
+  pluginRegistry.register(othelloEngine);
+  logger.info('Registered game plugin', {
+    gameType: othelloEngine.getGameType(),
+  });
+
+  const checkersEngine = new CheckersEngine();
+  pluginRegistry.register(checkersEngine);
+  logger.info('Registered game plugin', {
+    gameType: checkersEngine.getGameType(),
+  });
+
+  const dotsAndBoxesEngine = new DotsAndBoxesEngine();
+  pluginRegistry.register(dotsAndBoxesEngine);
+  logger.info('Registered game plugin', {
+    gameType: dotsAndBoxesEngine.getGameType(),
+  });
+
   // Initialize WebSocket manager
   const webSocketManager = new WebSocketManager(logger);
 
-  // Initialize AI repository and service
-  const aiPlayerRepository = new InMemoryAIPlayerRepository();
+  // Initialize AI service; AI turns are queued and played by the background worker
   const aiPlayerService = new AIPlayerService(
     pluginRegistry,
     aiPlayerRepository,
     gameRepository,
     logger
   );
+  const aiMoveQueue = new InMemoryAIMoveQueue();
+
+  // Services publish game events on the bus; side effects subscribe to it below
+  const eventBus = new DomainEventBus(logger);
+
+  // Game events are recorded for webhooks and sent by the background dispatcher
+  const webhookHostPolicy = new WebhookHostPolicy(config.webhooks.allowedPrivateHosts);
+  const webhookService = new WebhookService(
+    webhookRepository,
+    gameRepository,
+    webhookHostPolicy,
+    config.adminUserIds,
+    logger
+  );
+  const webhookDispatcher = new WebhookDispatcher(
+    webhookRepository,
+    new HttpWebhookSender(webhookHostPolicy, config.webhooks.timeoutMs),
+    logger
+  );
 
   // Initialize services
   const gameManagerService = new GameManagerService(
     pluginRegistry,
     gameRepository,
-    aiPlayerService
+    aiPlayerService,
+    gameLockManager,
+    invitationRepository,
+    aiMoveQueue,
+    eventBus
   );
+  const ratingService = new RatingService(ratingRepository);
+  const tournamentService = new TournamentService(tournamentRepository, gameManagerService, logger);
   const stateManagerService = new StateManagerService(
     gameRepository,
     pluginRegistry,
     gameLockManager,
-    webSocketManager,
-    aiPlayerService
+    eventBus,
+    aiPlayerService,
+    aiMoveQueue
+  );
+  const aiMoveWorker = new AIMoveWorker(
+    aiMoveQueue,
+    gameRepository,
+    pluginRegistry,
+    aiPlayerService,
+    stateManagerService,
+    logger
+  );
+  const moderationService = new ModerationService(
+    gameRepository,
+    gameRepository,
+    stateManagerService,
+    gameLockManager,
+    logger
   );
   const playerProfileService = new PlayerProfileService(playerProfileRepository);
-  const statsService = new StatsService(statsRepository);
+  const invitationService = new InvitationService(
+    invitationRepository,
+    playerProfileRepository,
+    gameRepository,
+    eventBus
+  );
+
+  // Email notifications are only sent when a transport is configured
+  let emailTransport: IEmailTransport | null = null;
+  if (config.email.transport === 'smtp') {
+    emailTransport = new SmtpEmailTransport(config.email.smtp);
+  } else if (config.email.transport === 'file') {
+    emailTransport = new FileEmailTransport(config.email.fileDirectory);
+  }
+  const emailNotificationChannel = emailTransport
+    ? new EmailNotificationChannel(
+        emailTransport,
+        playerProfileRepository,
+        { from: config.email.from, appUrl: config.email.appUrl },
+        notificationDigestRepository,
+        logger
+      )
+    : null;
+
+  // Players are notified in-app and on their open sockets, and by email when it is configured
+  const inAppNotificationChannel = new InAppNotificationChannel(
+    config.database.url,
+    config.database.poolSize
+  );
+  const notificationChannels: INotificationChannel[] = [
+    inAppNotificationChannel,
+    new WebSocketNotificationChannel(webSocketManager),
+  ];
+  if (emailNotificationChannel) {
+    notificationChannels.push(emailNotificationChannel);
+  }
+  const notificationService = new NotificationService(
+    notificationChannels,
+    playerProfileRepository
+  );
+
+  // Subscribe side effects to game events
+  new WebSocketEventHandler(webSocketManager, pluginRegistry).register(eventBus);
+  new NotificationEventHandler(
+    notificationService,
+    config.notifications.turnDelayMs,
+    logger
+  ).register(eventBus);
+  new RatingEventHandler(ratingService).register(eventBus);
+  new TournamentEventHandler(tournamentService).register(eventBus);
+  new WebhookEventHandler(webhookService).register(eventBus);
+
+  const statsService = new StatsService(statsRepository, pluginRegistry);
+  const turnTimeoutService = new TurnTimeoutService(
+    gameRepository,
+    pluginRegistry,
+    stateManagerService,
+    logger
+  );
+  const matchmakingService = new MatchmakingService(
+    new InMemoryMatchmakingRepository(),
+    gameManagerService,
+    statsService,
+    webSocketManager,
+    logger
+  );
 
   // Create Express app
   const app = createApp(playerIdentityRepository);
@@ -169,12 +370,21 @@ async function startApplication() {
     gameRepository,
     stateManagerService,
     aiPlayerService,
-    rendererService
+    rendererService,
+    {},
+    gameReplayService,
+    moderationService
   );
   const playerRouter = createPlayerRoutes(playerIdentityRepository);
   const playerProfileRouter = createPlayerProfileRoutes(playerProfileService);
   const statsRouter = createStatsRoutes(statsService);
   const leaderboardRouter = createLeaderboardRoutes(statsService);
+  const ratingRouter = createRatingRoutes(ratingService);
+  const matchmakingRouter = createMatchmakingRoutes(matchmakingService);
+  const tournamentRouter = createTournamentRoutes(tournamentService);
+  const adminRouter = createAdminRoutes(moderationService);
+  const invitationRouter = createInvitationRoutes(invitationService);
+  const webhookRouter = createWebhookRoutes(webhookService);
   const healthRouter = createHealthRoutes(gameRepository);
 
   // Add routes to app
@@ -183,6 +393,12 @@ async function startApplication() {
   app.use('/api', playerProfileRouter);
   app.use('/api', statsRouter);
   app.use('/api', leaderboardRouter);
+  app.use('/api', ratingRouter);
+  app.use('/api', matchmakingRouter);
+  app.use('/api', tournamentRouter);
+  app.use('/api', adminRouter);
+  app.use('/api', invitationRouter);
+  app.use('/api', webhookRouter);
   app.use(healthRouter); // Health check at root level (/health)
 
   // Add static file serving for React web client
@@ -204,11 +420,56 @@ async function startApplication() {
 
   // Setup WebSocket server
   logger.info('Setting up WebSocket server');
-  setupWebSocketServer(server, webSocketManager, playerIdentityRepository);
+  setupWebSocketServer(server, webSocketManager, playerIdentityRepository, gameManagerService);
   logger.info('WebSocket server setup complete', {
     wsUrl: `ws://localhost:${PORT}/api/ws`,
   });
 
+  // Start playing queued AI turns
+  aiMoveWorker.start(config.aiMoveWorker.intervalMs);
+  logger.info('AI move worker started', {
+    intervalMs: config.aiMoveWorker.intervalMs,
+  });
+
+  // Queue AI turns that were pending when the service last stopped
+  stateManagerService
+    .resumePendingAITurns()
+    .then((resumed) => {
+      logger.info('Pending AI turns resumed', { games: resumed });
+    })
+    .catch((error) => {
+      logger.error('Failed to resume pending AI turns', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    });
+
+  // Start the turn deadline scheduler
+  turnTimeoutService.start(config.timeControl.checkIntervalMs);
+  logger.info('Turn timeout scheduler started', {
+    checkIntervalMs: config.timeControl.checkIntervalMs,
+  });
+
+  // Start pairing queued matchmaking players
+  matchmakingService.start(config.matchmaking.intervalMs);
+  logger.info('Matchmaking started', {
+    intervalMs: config.matchmaking.intervalMs,
+  });
+
+  // Start sending email digests
+  if (emailNotificationChannel) {
+    emailNotificationChannel.start(config.email.digestIntervalMs);
+    logger.info('Email digests started', {
+      transport: config.email.transport,
+      digestIntervalMs: config.email.digestIntervalMs,
+    });
+  }
+
+  // Start sending webhook deliveries
+  webhookDispatcher.start(config.webhooks.dispatchIntervalMs);
+  logger.info('Webhook dispatcher started', {
+    dispatchIntervalMs: config.webhooks.dispatchIntervalMs,
+  });
+
   // Graceful shutdown handler
   const shutdown = async (signal: string) => {
     logger.info('Shutdown signal received', { signal });
@@ -218,6 +479,11 @@ async function startApplication() {
       // Step 1: Stop accepting new requests
       logger.info('Shutdown step 1/4: Stopping acceptance of new requests');
       inFlightTracker.startShutdown();
+      turnTimeoutService.stop();
+      matchmakingService.stop();
+      aiMoveWorker.stop();
+      emailNotificationChannel?.stop();
+      webhookDispatcher.stop();
       logger.info('New requests will be rejected with 503 Service Unavailable');
 
       // Step 2: Stop accepting new HTTP connections
@@ -276,6 +542,46 @@ async function startApplication() {
         logger.info('Player profile repository connection pool closed');
       }
 
+      // Close invitation repository connections
+      if (invitationRepository instanceof PostgresInvitationRepository) {
+        await invitationRepository.close();
+        logger.info('Invitation repository connection pool closed');
+      }
+
+      // Close rating repository connections
+      if (ratingRepository instanceof PostgresRatingRepository) {
+        await ratingRepository.close();
+        logger.info('Rating repository connection pool closed');
+      }
+
+      // Close tournament repository connections
+      if (tournamentRepository instanceof PostgresTournamentRepository) {
+        await tournamentRepository.close();
+        logger.info('Tournament repository connection pool closed');
+      }
+
+      // Close AI player repository connections
+      if (aiPlayerRepository instanceof PostgresAIPlayerRepository) {
+        await aiPlayerRepository.close();
+        logger.info('AI player repository connection pool closed');
+      }
+
+      // Close notification digest repository connections
+      if (notificationDigestRepository instanceof PostgresNotificationDigestRepository) {
+        await notificationDigestRepository.close();
+        logger.info('Notification digest repository connection pool closed');
+      }
+
+      // Close webhook repository connections
+      if (webhookRepository instanceof PostgresWebhookRepository) {
+        await webhookRepository.close();
+        logger.info('Webhook repository connection pool closed');
+      }
+
+      // Close in-app notification connections
+      await inAppNotificationChannel.close();
+      logger.info('In-app notification connection pool closed');
+
       const shutdownDuration = Date.now() - shutdownStartTime;
       logger.info('Graceful shutdown completed', { durationMs: shutdownDuration });
       process.exit(0);
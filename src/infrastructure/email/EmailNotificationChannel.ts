@@ -0,0 +1,173 @@
+import {
+  IEmailTransport,
+  INotificationChannel,
+  INotificationDigestRepository,
+  IPlayerProfileRepository,
+  NotificationData,
+  NotificationType,
+  PendingDigestNotification,
+} from '@domain/interfaces';
+import { getNotificationPreferences } from '@domain/models/PlayerProfile';
+import { Logger } from '../logging/Logger';
+import { IntervalWorker } from '../scheduling/IntervalWorker';
+import { renderDigestEmail, renderNotificationEmail } from './emailTemplates';
+
+/**
+ * Settings for the email notification channel
+ */
+export interface EmailChannelOptions {
+  /** Sender address, e.g. "Game Server <games@example.com>" */
+  from: string;
+  /** Base URL of the web client, used for links in emails */
+  appUrl: string;
+}
+
+/**
+ * Notification channel that emails players
+ * The address comes from the player's notification preferences; players without one
+ * are skipped. Players who chose the digest get their turn notifications batched
+ * into one email per digest run instead of one email per turn.
+ */
+export class EmailNotificationChannel implements INotificationChannel {
+  private static readonly VERIFY_CACHE_MS = 60000;
+  private verified: { available: boolean; at: number } | null = null;
+  private readonly logger: Logger;
+  private readonly worker: IntervalWorker;
+
+  constructor(
+    private transport: IEmailTransport,
+    private profileRepository: IPlayerProfileRepository,
+    private options: EmailChannelOptions,
+    private digestRepository?: INotificationDigestRepository,
+    logger?: Logger
+  ) {
+    this.logger = logger || new Logger('info', 'json');
+    this.worker = new IntervalWorker(this.logger, 'Email digest run failed');
+  }
+
+  /**
+   * Get the name of this notification channel
+   */
+  getName(): string {
+    return 'email';
+  }
+
+  /**
+   * Check that the transport can deliver email
+   * The result is cached briefly so a burst of notifications does not check every time.
+   */
+  async isAvailable(): Promise<boolean> {
+    const now = Date.now();
+    if (this.verified && now - this.verified.at < EmailNotificationChannel.VERIFY_CACHE_MS) {
+      return this.verified.available;
+    }
+
+    const available = await this.transport.verify();
+    this.verified = { available, at: now };
+    return available;
+  }
+
+  /**
+   * Email a notification, or hold it for the digest
+   * @param notification - The notification data to send
+   */
+  async send(notification: NotificationData): Promise<void> {
+    const profile = await this.profileRepository.findByUserId(notification.userId);
+    const preferences = getNotificationPreferences(profile);
+    if (!preferences.email) {
+      return;
+    }
+
+    if (
+      notification.type === NotificationType.TURN &&
+      preferences.emailDigest &&
+      this.digestRepository
+    ) {
+      await this.digestRepository.add(notification);
+      return;
+    }
+
+    const content = renderNotificationEmail(notification, this.options.appUrl);
+    await this.transport.send({ to: preferences.email, from: this.options.from, ...content });
+  }
+
+  /**
+   * Send every player's pending digest
+   * A failed digest stays pending and is tried again on the next run. Notifications
+   * for players who have since removed their address are dropped.
+   * @returns Number of digests sent
+   */
+  async sendDigests(): Promise<number> {
+    const digestRepository = this.digestRepository;
+    if (!digestRepository) {
+      return 0;
+    }
+
+    return this.worker.runExclusive(async () => {
+      const byUser = new Map<string, PendingDigestNotification[]>();
+      for (const notification of await digestRepository.findPending()) {
+        const pending = byUser.get(notification.userId) ?? [];
+        pending.push(notification);
+        byUser.set(notification.userId, pending);
+      }
+
+      let sent = 0;
+      for (const [userId, notifications] of byUser) {
+        if (await this.sendDigest(digestRepository, userId, notifications)) {
+          sent++;
+        }
+      }
+
+      return sent;
+    }, 0);
+  }
+
+  /**
+   * Start sending digests on a fixed interval
+   * @param intervalMs - Time between digests
+   */
+  start(intervalMs: number): void {
+    this.worker.start(intervalMs, () => this.sendDigests());
+  }
+
+  /**
+   * Stop sending digests
+   */
+  stop(): void {
+    this.worker.stop();
+  }
+
+  /**
+   * Send one player's digest
+   * @returns true if an email was sent
+   * @private
+   */
+  private async sendDigest(
+    digestRepository: INotificationDigestRepository,
+    userId: string,
+    notifications: PendingDigestNotification[]
+  ): Promise<boolean> {
+    const notificationIds = notifications.map((n) => n.notificationId);
+
+    try {
+      const profile = await this.profileRepository.findByUserId(userId);
+      const email = getNotificationPreferences(profile).email;
+      if (!email) {
+        await digestRepository.markSent(notificationIds);
+        return false;
+      }
+
+      const content = renderDigestEmail(notifications, this.options.appUrl);
+      await this.transport.send({ to: email, from: this.options.from, ...content });
+      await digestRepository.markSent(notificationIds);
+      return true;
+    } catch (error) {
+      this.logger.warn('Failed to send email digest', {
+        userId,
+        notifications: notificationIds.length,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return false;
+    }
+  }
+}
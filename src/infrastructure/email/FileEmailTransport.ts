@@ -0,0 +1,35 @@
+import { promises as fs, constants } from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { EmailMessage, IEmailTransport } from '@domain/interfaces';
+import { formatEmail } from './formatEmail';
+
+/**
+ * Email transport that writes each email to a .eml file
+ * For local development: emails can be opened in any mail client instead of being sent.
+ */
+export class FileEmailTransport implements IEmailTransport {
+  constructor(private directory: string) {}
+
+  /**
+   * Write the email to a new file in the directory
+   */
+  async send(message: EmailMessage): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${randomUUID()}.eml`;
+    await fs.writeFile(path.join(this.directory, fileName), formatEmail(message), 'utf8');
+  }
+
+  /**
+   * Check that the directory can be created and written to
+   */
+  async verify(): Promise<boolean> {
+    try {
+      await fs.mkdir(this.directory, { recursive: true });
+      await fs.access(this.directory, constants.W_OK);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
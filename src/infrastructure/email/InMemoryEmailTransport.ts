@@ -0,0 +1,37 @@
+import { EmailMessage, IEmailTransport } from '@domain/interfaces';
+
+/**
+ * Email transport that keeps sent emails in memory
+ * For tests and local development.
+ */
+export class InMemoryEmailTransport implements IEmailTransport {
+  private sent: EmailMessage[] = [];
+
+  /**
+   * Record an email as sent
+   */
+  async send(message: EmailMessage): Promise<void> {
+    this.sent.push({ ...message });
+  }
+
+  /**
+   * Always available
+   */
+  async verify(): Promise<boolean> {
+    return true;
+  }
+
+  /**
+   * Get every email sent so far, oldest first
+   */
+  getSentEmails(): EmailMessage[] {
+    return [...this.sent];
+  }
+
+  /**
+   * Forget the sent emails
+   */
+  clear(): void {
+    this.sent = [];
+  }
+}
@@ -0,0 +1,283 @@
+import net from 'net';
+import tls from 'tls';
+import { EmailMessage, IEmailTransport } from '@domain/interfaces';
+import { formatEmail } from './formatEmail';
+
+/**
+ * SMTP server settings
+ */
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  /** Use TLS from the start (usually port 465); otherwise STARTTLS is used when offered */
+  secure: boolean;
+  user?: string;
+  password?: string;
+  /** How long to wait for the server before giving up */
+  timeoutMs?: number;
+}
+
+/**
+ * A complete reply from the SMTP server
+ */
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+/**
+ * Error returned by the SMTP server
+ */
+export class SmtpError extends Error {
+  constructor(
+    public readonly command: string,
+    public readonly reply: SmtpReply
+  ) {
+    super(`SMTP ${command} failed: ${reply.code} ${reply.lines.join(' ')}`);
+    this.name = 'SmtpError';
+  }
+}
+
+/**
+ * One conversation with the SMTP server
+ * Buffers incoming data and hands out complete (possibly multi-line) replies in order.
+ */
+class SmtpConnection {
+  private buffer = '';
+  private replies: SmtpReply[] = [];
+  private pendingLines: string[] = [];
+  private waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null =
+    null;
+  private failure: Error | null = null;
+
+  constructor(
+    private socket: net.Socket,
+    timeoutMs: number
+  ) {
+    this.attach(socket, timeoutMs);
+  }
+
+  /**
+   * Switch the connection to TLS after STARTTLS
+   */
+  async upgrade(host: string, timeoutMs: number): Promise<void> {
+    this.socket.removeAllListeners('data');
+    const secured = tls.connect({ socket: this.socket, servername: host });
+    await new Promise<void>((resolve, reject) => {
+      secured.once('secureConnect', resolve);
+      secured.once('error', reject);
+    });
+    this.socket = secured;
+    this.attach(secured, timeoutMs);
+  }
+
+  /**
+   * Send a command and wait for its reply
+   * @param command - The command line, without CRLF
+   * @param expected - Reply codes that mean success
+   * @param label - Name used in errors, so credentials are never included
+   */
+  async command(command: string, expected: number[], label?: string): Promise<SmtpReply> {
+    this.socket.write(`${command}\r\n`);
+    return this.expect(expected, label ?? command.split(' ')[0]);
+  }
+
+  /**
+   * Wait for the next reply and check its code
+   */
+  async expect(expected: number[], label: string): Promise<SmtpReply> {
+    const reply = await this.nextReply();
+    if (!expected.includes(reply.code)) {
+      throw new SmtpError(label, reply);
+    }
+    return reply;
+  }
+
+  /**
+   * Write raw data to the server
+   */
+  write(data: string): void {
+    this.socket.write(data);
+  }
+
+  /**
+   * Close the connection
+   */
+  close(): void {
+    this.socket.end();
+    this.socket.destroy();
+  }
+
+  private attach(socket: net.Socket, timeoutMs: number): void {
+    // Replies are read as raw buffers: setting an encoding would break a later TLS upgrade
+    socket.setTimeout(timeoutMs);
+    socket.on('data', (chunk: Buffer) => this.onData(chunk.toString('utf8')));
+    socket.on('timeout', () => this.fail(new Error('SMTP connection timed out')));
+    socket.on('error', (error) => this.fail(error));
+    socket.on('close', () => this.fail(new Error('SMTP connection closed')));
+  }
+
+  private onData(chunk: string): void {
+    this.buffer += chunk;
+    let index: number;
+    while ((index = this.buffer.indexOf('\n')) !== -1) {
+      const line = this.buffer.slice(0, index).replace(/\r$/, '');
+      this.buffer = this.buffer.slice(index + 1);
+      this.pendingLines.push(line.slice(4));
+
+      // "250-..." continues a reply, "250 ..." ends it
+      if (line.charAt(3) !== '-') {
+        this.replies.push({ code: parseInt(line.slice(0, 3), 10), lines: this.pendingLines });
+        this.pendingLines = [];
+      }
+    }
+    this.deliver();
+  }
+
+  private fail(error: Error): void {
+    if (!this.failure) {
+      this.failure = error;
+    }
+    this.deliver();
+  }
+
+  private deliver(): void {
+    if (!this.waiting) {
+      return;
+    }
+    const waiting = this.waiting;
+    if (this.replies.length > 0) {
+      this.waiting = null;
+      waiting.resolve(this.replies.shift()!);
+    } else if (this.failure) {
+      this.waiting = null;
+      waiting.reject(this.failure);
+    }
+  }
+
+  private nextReply(): Promise<SmtpReply> {
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+      this.deliver();
+    });
+  }
+}
+
+/**
+ * Email transport that delivers through an SMTP server
+ * Opens a connection per email, upgrades it with STARTTLS when the server offers it
+ * and authenticates with AUTH PLAIN when credentials are configured.
+ */
+export class SmtpEmailTransport implements IEmailTransport {
+  private static readonly DEFAULT_TIMEOUT_MS = 30000;
+  private static readonly CLIENT_NAME = 'localhost';
+
+  constructor(private options: SmtpOptions) {}
+
+  /**
+   * Send an email
+   * @throws SmtpError if the server rejects the email
+   */
+  async send(message: EmailMessage): Promise<void> {
+    await this.withConnection(async (connection) => {
+      await connection.command(`MAIL FROM:<${extractAddress(message.from)}>`, [250]);
+      await connection.command(`RCPT TO:<${extractAddress(message.to)}>`, [250, 251]);
+      await connection.command('DATA', [354]);
+
+      // Lines starting with a dot are escaped so they cannot end the message early
+      const data = formatEmail(message).replace(/^\./gm, '..');
+      connection.write(`${data}.\r\n`);
+      await connection.expect([250], 'DATA');
+    });
+  }
+
+  /**
+   * Check that the server accepts a connection and the credentials
+   */
+  async verify(): Promise<boolean> {
+    try {
+      await this.withConnection(async () => {});
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Open a session, run the given commands and say goodbye
+   * @private
+   */
+  private async withConnection(run: (connection: SmtpConnection) => Promise<void>): Promise<void> {
+    const timeoutMs = this.options.timeoutMs ?? SmtpEmailTransport.DEFAULT_TIMEOUT_MS;
+    const connection = await this.connect(timeoutMs);
+
+    try {
+      await connection.expect([220], 'greeting');
+      const ehlo = await connection.command(`EHLO ${SmtpEmailTransport.CLIENT_NAME}`, [250]);
+
+      if (!this.options.secure && hasExtension(ehlo, 'STARTTLS')) {
+        await connection.command('STARTTLS', [220]);
+        await connection.upgrade(this.options.host, timeoutMs);
+        await connection.command(`EHLO ${SmtpEmailTransport.CLIENT_NAME}`, [250]);
+      }
+
+      if (this.options.user) {
+        const credentials = Buffer.from(
+          `\0${this.options.user}\0${this.options.password ?? ''}`,
+          'utf8'
+        ).toString('base64');
+        await connection.command(`AUTH PLAIN ${credentials}`, [235], 'AUTH');
+      }
+
+      await run(connection);
+      await connection.command('QUIT', [221]);
+    } finally {
+      connection.close();
+    }
+  }
+
+  /**
+   * Open the TCP or TLS socket
+   * @private
+   */
+  private connect(timeoutMs: number): Promise<SmtpConnection> {
+    const { host, port, secure } = this.options;
+
+    return new Promise((resolve, reject) => {
+      const socket = secure
+        ? tls.connect({ host, port, servername: host })
+        : net.connect({ host, port });
+      const connected = secure ? 'secureConnect' : 'connect';
+      const timer = setTimeout(() => {
+        socket.destroy();
+        reject(new Error(`Could not connect to SMTP server ${host}:${port}`));
+      }, timeoutMs);
+
+      socket.once(connected, () => {
+        clearTimeout(timer);
+        socket.removeListener('error', onError);
+        resolve(new SmtpConnection(socket, timeoutMs));
+      });
+      const onError = (error: Error) => {
+        clearTimeout(timer);
+        reject(error);
+      };
+      socket.once('error', onError);
+    });
+  }
+}
+
+/**
+ * Get the bare address from "Name <address>"
+ */
+function extractAddress(value: string): string {
+  const match = value.match(/<([^>]+)>/);
+  return (match ? match[1] : value).trim();
+}
+
+/**
+ * Check whether an EHLO reply advertises an extension
+ */
+function hasExtension(reply: SmtpReply, extension: string): boolean {
+  return reply.lines.some((line) => line.toUpperCase().split(' ')[0] === extension);
+}
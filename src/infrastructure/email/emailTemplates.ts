@@ -0,0 +1,89 @@
+import { NotificationData, NotificationType, PendingDigestNotification } from '@domain/interfaces';
+
+/**
+ * Subject and body of a rendered email
+ */
+export interface EmailContent {
+  subject: string;
+  text: string;
+}
+
+/**
+ * Build the web client link to a game
+ */
+export function getGameUrl(appUrl: string, gameId: string): string {
+  return `${appUrl.replace(/\/+$/, '')}/#/player?gameId=${encodeURIComponent(gameId)}`;
+}
+
+const SIGNATURE = [
+  '',
+  '--',
+  'You are receiving this email because of your notification settings.',
+  'You can change them on your profile page.',
+];
+
+/**
+ * Render the email for a single notification
+ * @param notification - The notification to render
+ * @param appUrl - Base URL of the web client, used for links
+ */
+export function renderNotificationEmail(
+  notification: NotificationData,
+  appUrl: string
+): EmailContent {
+  const gameUrl = getGameUrl(appUrl, notification.gameId);
+
+  switch (notification.type) {
+    case NotificationType.TURN:
+      return {
+        subject: `Your turn in game ${notification.gameId}`,
+        text: [
+          "It's your turn!",
+          '',
+          notification.message,
+          '',
+          `Make your move: ${gameUrl}`,
+          ...SIGNATURE,
+        ].join('\n'),
+      };
+
+    case NotificationType.INVITATION: {
+      const inviterName =
+        'inviterName' in notification ? String(notification.inviterName) : 'Another player';
+      return {
+        subject: `${inviterName} invited you to a game`,
+        text: [notification.message, '', `Open the game: ${gameUrl}`, ...SIGNATURE].join('\n'),
+      };
+    }
+
+    case NotificationType.GAME_COMPLETE:
+      return {
+        subject: `Game ${notification.gameId} has ended`,
+        text: [notification.message, '', `See the final position: ${gameUrl}`, ...SIGNATURE].join(
+          '\n'
+        ),
+      };
+  }
+}
+
+/**
+ * Render a digest of notifications for one player
+ * Turn notifications are grouped so each game is listed once.
+ * @param notifications - The player's pending notifications, oldest first
+ * @param appUrl - Base URL of the web client, used for links
+ */
+export function renderDigestEmail(
+  notifications: PendingDigestNotification[],
+  appUrl: string
+): EmailContent {
+  const gameIds = Array.from(new Set(notifications.map((n) => n.gameId)));
+  const subject =
+    gameIds.length === 1 ? "It's your turn in 1 game" : `It's your turn in ${gameIds.length} games`;
+
+  const lines = ['Games waiting for your move:', ''];
+  for (const gameId of gameIds) {
+    lines.push(`- Game ${gameId}: ${getGameUrl(appUrl, gameId)}`);
+  }
+
+  return { subject, text: [...lines, ...SIGNATURE].join('\n') };
+}
@@ -0,0 +1,35 @@
+import { randomUUID } from 'crypto';
+import { EmailMessage } from '@domain/interfaces';
+
+/**
+ * Encode a header value so non-ASCII text survives transport (RFC 2047)
+ */
+function encodeHeader(value: string): string {
+  // eslint-disable-next-line no-control-regex
+  if (/^[\x20-\x7e]*$/.test(value)) {
+    return value;
+  }
+  return `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+/**
+ * Format an email as an RFC 5322 message with CRLF line endings
+ * @param message - The email to format
+ * @param date - Value of the Date header (defaults to now)
+ */
+export function formatEmail(message: EmailMessage, date: Date = new Date()): string {
+  const domain = message.from.split('@')[1]?.replace(/[>\s]/g, '') || 'localhost';
+  const headers = [
+    `From: ${message.from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=UTF-8',
+    'Content-Transfer-Encoding: 8bit',
+  ];
+  const body = message.text.replace(/\r?\n/g, '\r\n');
+
+  return `${headers.join('\r\n')}\r\n\r\n${body}\r\n`;
+}
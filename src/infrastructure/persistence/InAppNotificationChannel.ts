@@ -175,7 +175,7 @@ export class InAppNotificationChannel implements INotificationChannel {
           created_at,
           sent_at
         FROM turn_notifications
-        WHERE user_id = $1
+        WHERE user_id = $1 AND channel = 'in-app'
       `;
 
       const values: any[] = [userId];
@@ -245,7 +245,7 @@ export class InAppNotificationChannel implements INotificationChannel {
       const query = `
         UPDATE turn_notifications
         SET status = 'read'
-        WHERE user_id = $1 AND status != 'read'
+        WHERE user_id = $1 AND channel = 'in-app' AND status != 'read'
       `;
 
       await this.pool.query(query, [userId]);
@@ -258,6 +258,31 @@ export class InAppNotificationChannel implements INotificationChannel {
     }
   }
 
+  /**
+   * Mark a player's unread turn notifications for a game as read
+   * Called once the player has moved, so stale reminders do not linger in the UI.
+   * @param userId - The player who is no longer on turn
+   * @param gameId - The game ID
+   */
+  async clearTurnNotifications(userId: string, gameId: string): Promise<void> {
+    try {
+      const query = `
+        UPDATE turn_notifications
+        SET status = 'read'
+        WHERE user_id = $1 AND game_id = $2 AND notification_type = $3
+          AND channel = 'in-app' AND status != 'read'
+      `;
+
+      await this.pool.query(query, [userId, gameId, NotificationType.TURN]);
+    } catch (error) {
+      const logger = getLogger();
+      logger.error('Failed to clear turn notifications', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
   /**
    * Delete a notification
    * @param notificationId - The notification ID to delete
@@ -0,0 +1,51 @@
+import { IAIMoveQueue } from '@domain/interfaces/IAIMoveQueue';
+import { AIMoveJob } from '@domain/models';
+
+/**
+ * In-memory implementation of IAIMoveQueue
+ * The queue lives only as long as the process; pending AI turns are queued again
+ * from the stored games at startup.
+ */
+export class InMemoryAIMoveQueue implements IAIMoveQueue {
+  private jobs: Map<string, AIMoveJob>;
+
+  constructor() {
+    this.jobs = new Map();
+  }
+
+  /**
+   * Add a job, replacing any job already queued for the game
+   */
+  async enqueue(job: AIMoveJob): Promise<void> {
+    this.jobs.set(job.gameId, job);
+  }
+
+  /**
+   * Take the jobs that are due, earliest first
+   */
+  async takeDue(now: Date, limit: number): Promise<AIMoveJob[]> {
+    const due = (await this.findAll())
+      .filter((job) => job.runAt.getTime() <= now.getTime())
+      .slice(0, limit);
+
+    for (const job of due) {
+      this.jobs.delete(job.gameId);
+    }
+
+    return due;
+  }
+
+  /**
+   * Remove a game's job
+   */
+  async remove(gameId: string): Promise<boolean> {
+    return this.jobs.delete(gameId);
+  }
+
+  /**
+   * Get all queued jobs, earliest first
+   */
+  async findAll(): Promise<AIMoveJob[]> {
+    return Array.from(this.jobs.values()).sort((a, b) => a.runAt.getTime() - b.runAt.getTime());
+  }
+}
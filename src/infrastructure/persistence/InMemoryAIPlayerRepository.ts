@@ -22,7 +22,7 @@ export class InMemoryAIPlayerRepository implements IAIPlayerRepository {
    * Create a new AI player
    */
   async create(params: CreateAIPlayerParams): Promise<AIPlayer> {
-    const id = randomUUID();
+    const id = params.id ?? randomUUID();
     const aiPlayer = new AIPlayer(
       id,
       params.name,
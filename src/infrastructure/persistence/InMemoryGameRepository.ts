@@ -1,16 +1,46 @@
-import { GameRepository, GameFilters, PaginatedResult } from '@domain/interfaces';
-import { GameState } from '@domain/models';
+import {
+  GameRepository,
+  GameFilters,
+  PaginatedResult,
+  IGameEventRepository,
+  IGameModerationRepository,
+  ITimedGameRepository,
+} from '@domain/interfaces';
+import {
+  GameState,
+  GameEvent,
+  GameSnapshot,
+  GameDeletion,
+  ModerationLogEntry,
+} from '@domain/models';
 import { ConcurrencyError, GameNotFoundError } from '@domain/errors';
+import {
+  createGameCreatedEvent,
+  deriveGameEvents,
+  isSnapshotDue,
+} from '@domain/game-utils/GameEventLog';
+import { getTurnDueAt } from '@domain/game-utils/TurnClock';
 
 /**
  * In-memory implementation of GameRepository
- * Uses Map for fast lookups and stores game state in memory
+ * Uses Map for fast lookups and stores game state in memory, along with
+ * each game's event log, snapshots and moderation log
  */
-export class InMemoryGameRepository implements GameRepository {
+export class InMemoryGameRepository
+  implements GameRepository, IGameEventRepository, IGameModerationRepository, ITimedGameRepository
+{
   private games: Map<string, GameState>;
+  private events: Map<string, GameEvent[]>;
+  private snapshots: Map<string, GameSnapshot[]>;
+  private deletions: Map<string, GameDeletion>;
+  private moderationLog: Map<string, ModerationLogEntry[]>;
 
   constructor() {
     this.games = new Map();
+    this.events = new Map();
+    this.snapshots = new Map();
+    this.deletions = new Map();
+    this.moderationLog = new Map();
   }
 
   /**
@@ -18,12 +48,17 @@ export class InMemoryGameRepository implements GameRepository {
    */
   async save(state: GameState): Promise<void> {
     this.games.set(state.gameId, state);
+    this.events.set(state.gameId, [createGameCreatedEvent(state)]);
+    this.snapshots.set(state.gameId, []);
   }
 
   /**
    * Find a game by its ID
    */
   async findById(gameId: string): Promise<GameState | null> {
+    if (this.deletions.has(gameId)) {
+      return null;
+    }
     const game = this.games.get(gameId);
     return game || null;
   }
@@ -32,8 +67,8 @@ export class InMemoryGameRepository implements GameRepository {
    * Find all games with optional filters and pagination
    */
   async findAll(filters: GameFilters): Promise<PaginatedResult<GameState>> {
-    // Get all games
-    let games = Array.from(this.games.values());
+    // Get all games that have not been deleted
+    let games = Array.from(this.games.values()).filter((game) => !this.deletions.has(game.gameId));
 
     // Apply lifecycle filter
     if (filters.lifecycle) {
@@ -70,8 +105,8 @@ export class InMemoryGameRepository implements GameRepository {
    */
   async findByPlayer(playerId: string, filters: GameFilters): Promise<PaginatedResult<GameState>> {
     // Get all games where player is a participant
-    let games = Array.from(this.games.values()).filter((game) =>
-      game.players.some((p) => p.id === playerId)
+    let games = Array.from(this.games.values()).filter(
+      (game) => !this.deletions.has(game.gameId) && game.players.some((p) => p.id === playerId)
     );
 
     // Apply lifecycle filter
@@ -120,15 +155,116 @@ export class InMemoryGameRepository implements GameRepository {
       throw new ConcurrencyError(gameId);
     }
 
+    const events = this.events.get(gameId) ?? [];
+    const newEvents = deriveGameEvents(existingGame, state, events.length);
+    events.push(...newEvents);
+    this.events.set(gameId, events);
+
+    if (isSnapshotDue(existingGame, state)) {
+      const snapshots = this.snapshots.get(gameId) ?? [];
+      snapshots.push({
+        gameId,
+        sequence: events.length,
+        moveNumber: state.moveHistory.length,
+        state,
+        createdAt: new Date(),
+      });
+      this.snapshots.set(gameId, snapshots);
+    }
+
     this.games.set(gameId, state);
     return state;
   }
 
+  /**
+   * Find active timed games whose due time has been reached
+   */
+  async findDueTimedGames(now: Date): Promise<GameState[]> {
+    return Array.from(this.games.values()).filter((game) => {
+      const dueAt = getTurnDueAt(game);
+      return !this.deletions.has(game.gameId) && dueAt !== null && dueAt <= now;
+    });
+  }
+
   /**
    * Delete a game by its ID
    */
   async delete(gameId: string): Promise<void> {
     this.games.delete(gameId);
+    this.events.delete(gameId);
+    this.snapshots.delete(gameId);
+    this.deletions.delete(gameId);
+    this.moderationLog.delete(gameId);
+  }
+
+  /**
+   * Hide a game and record the deletion in its moderation log
+   * @throws GameNotFoundError if the game does not exist or is already deleted
+   */
+  async softDelete(
+    gameId: string,
+    deletion: GameDeletion,
+    entry: ModerationLogEntry
+  ): Promise<void> {
+    if (!this.games.has(gameId) || this.deletions.has(gameId)) {
+      throw new GameNotFoundError(gameId);
+    }
+    this.deletions.set(gameId, deletion);
+    await this.appendModerationEntry(entry);
+  }
+
+  /**
+   * Make a soft-deleted game visible again and record it in its moderation log
+   * @throws GameNotFoundError if there is no deleted game with this ID
+   */
+  async restore(gameId: string, entry: ModerationLogEntry): Promise<GameState> {
+    const game = this.games.get(gameId);
+    if (!game || !this.deletions.has(gameId)) {
+      throw new GameNotFoundError(gameId);
+    }
+    this.deletions.delete(gameId);
+    await this.appendModerationEntry(entry);
+    return game;
+  }
+
+  /**
+   * Get the deletion record of a soft-deleted game
+   */
+  async findDeletion(gameId: string): Promise<GameDeletion | null> {
+    return this.deletions.get(gameId) ?? null;
+  }
+
+  /**
+   * Append an entry to a game's moderation log
+   */
+  async appendModerationEntry(entry: ModerationLogEntry): Promise<void> {
+    const entries = this.moderationLog.get(entry.gameId) ?? [];
+    entries.push(entry);
+    this.moderationLog.set(entry.gameId, entries);
+  }
+
+  /**
+   * Get a game's moderation log, oldest entry first
+   */
+  async getModerationLog(gameId: string): Promise<ModerationLogEntry[]> {
+    return [...(this.moderationLog.get(gameId) ?? [])];
+  }
+
+  /**
+   * Get a game's events in order
+   */
+  async getEvents(gameId: string, afterSequence: number = 0): Promise<GameEvent[]> {
+    return (this.events.get(gameId) ?? []).filter((event) => event.sequence > afterSequence);
+  }
+
+  /**
+   * Get the most recent snapshot taken at or before a move
+   */
+  async getLatestSnapshot(gameId: string, moveNumber: number): Promise<GameSnapshot | null> {
+    const snapshots = (this.snapshots.get(gameId) ?? []).filter(
+      (snapshot) => snapshot.moveNumber <= moveNumber
+    );
+    return snapshots.length > 0 ? snapshots[snapshots.length - 1] : null;
   }
 
   /**
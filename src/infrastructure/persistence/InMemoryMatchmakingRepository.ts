@@ -0,0 +1,45 @@
+import { IMatchmakingRepository } from '@domain/interfaces/IMatchmakingRepository';
+import { MatchmakingEntry } from '@domain/models';
+
+/**
+ * In-memory implementation of IMatchmakingRepository
+ * The queue lives only as long as the process; players re-queue after a restart.
+ */
+export class InMemoryMatchmakingRepository implements IMatchmakingRepository {
+  private entries: Map<string, MatchmakingEntry>;
+
+  constructor() {
+    this.entries = new Map();
+  }
+
+  /**
+   * Add a player to the queue, replacing any entry they already hold
+   */
+  async add(entry: MatchmakingEntry): Promise<void> {
+    this.entries.delete(entry.userId);
+    this.entries.set(entry.userId, entry);
+  }
+
+  /**
+   * Remove a player from the queue
+   */
+  async remove(userId: string): Promise<boolean> {
+    return this.entries.delete(userId);
+  }
+
+  /**
+   * Find a player's queue entry
+   */
+  async findByUser(userId: string): Promise<MatchmakingEntry | null> {
+    return this.entries.get(userId) || null;
+  }
+
+  /**
+   * Get all queued players, longest waiting first
+   */
+  async findAll(gameType?: string): Promise<MatchmakingEntry[]> {
+    return Array.from(this.entries.values())
+      .filter((entry) => !gameType || entry.gameType === gameType)
+      .sort((a, b) => a.joinedAt.getTime() - b.joinedAt.getTime());
+  }
+}
@@ -0,0 +1,52 @@
+import { randomUUID } from 'crypto';
+import {
+  INotificationDigestRepository,
+  PendingDigestNotification,
+} from '@domain/interfaces/INotificationDigestRepository';
+import { NotificationData } from '@domain/interfaces/INotificationChannel';
+
+/**
+ * In-memory implementation of INotificationDigestRepository
+ * Held notifications are lost on restart.
+ */
+export class InMemoryNotificationDigestRepository implements INotificationDigestRepository {
+  private pending: Map<string, PendingDigestNotification>;
+
+  constructor() {
+    this.pending = new Map();
+  }
+
+  /**
+   * Hold a notification for the next digest
+   */
+  async add(notification: NotificationData): Promise<void> {
+    const { type, userId, gameId, message, metadata, ...details } = notification;
+    const notificationId = randomUUID();
+
+    this.pending.set(notificationId, {
+      notificationId,
+      userId,
+      gameId,
+      type,
+      message,
+      metadata: { ...metadata, ...details },
+      createdAt: new Date(),
+    });
+  }
+
+  /**
+   * Get every notification waiting for a digest, oldest first
+   */
+  async findPending(): Promise<PendingDigestNotification[]> {
+    return Array.from(this.pending.values());
+  }
+
+  /**
+   * Mark notifications as delivered in a digest
+   */
+  async markSent(notificationIds: string[]): Promise<void> {
+    for (const notificationId of notificationIds) {
+      this.pending.delete(notificationId);
+    }
+  }
+}
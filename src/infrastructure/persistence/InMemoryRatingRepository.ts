@@ -0,0 +1,83 @@
+import { IRatingRepository, RatingCalculator } from '@domain/interfaces/IRatingRepository';
+import {
+  PlayerRating,
+  RatingHistoryEntry,
+  DEFAULT_RATING,
+  createInitialRating,
+} from '@domain/models/PlayerRating';
+
+/**
+ * In-memory implementation of IRatingRepository
+ * Ratings are keyed by player and game type; history is kept in insertion order
+ */
+export class InMemoryRatingRepository implements IRatingRepository {
+  private ratings: Map<string, PlayerRating>;
+  private history: RatingHistoryEntry[];
+
+  constructor() {
+    this.ratings = new Map();
+    this.history = [];
+  }
+
+  /**
+   * Apply the outcome of a game to its players' ratings
+   */
+  async applyGameRatings(
+    gameId: string,
+    gameType: string,
+    userIds: string[],
+    calculate: RatingCalculator
+  ): Promise<RatingHistoryEntry[]> {
+    if (this.history.some((entry) => entry.gameId === gameId)) {
+      return [];
+    }
+
+    const current = new Map<string, PlayerRating>();
+    for (const userId of userIds) {
+      current.set(
+        userId,
+        this.ratings.get(this.key(userId, gameType)) ?? createInitialRating(userId, gameType)
+      );
+    }
+
+    const entries: RatingHistoryEntry[] = [];
+    for (const rating of calculate(current)) {
+      const previous = current.get(rating.userId);
+      this.ratings.set(this.key(rating.userId, gameType), { ...rating, gameType });
+      entries.push({
+        userId: rating.userId,
+        gameType,
+        gameId,
+        rating: rating.rating,
+        deviation: rating.deviation,
+        ratingChange: rating.rating - (previous?.rating ?? DEFAULT_RATING),
+        createdAt: rating.updatedAt,
+      });
+    }
+
+    this.history.push(...entries);
+    return entries;
+  }
+
+  /**
+   * Get a player's current ratings, one per game type played
+   */
+  async findByPlayer(userId: string): Promise<PlayerRating[]> {
+    return Array.from(this.ratings.values())
+      .filter((rating) => rating.userId === userId)
+      .sort((a, b) => a.gameType.localeCompare(b.gameType));
+  }
+
+  /**
+   * Get a player's rating changes, oldest first
+   */
+  async getHistory(userId: string, gameType?: string): Promise<RatingHistoryEntry[]> {
+    return this.history.filter(
+      (entry) => entry.userId === userId && (!gameType || entry.gameType === gameType)
+    );
+  }
+
+  private key(userId: string, gameType: string): string {
+    return `${userId}:${gameType}`;
+  }
+}
@@ -0,0 +1,50 @@
+import { ITournamentRepository } from '@domain/interfaces/ITournamentRepository';
+import { Tournament, TournamentStatus } from '@domain/models';
+
+/**
+ * In-memory implementation of ITournamentRepository
+ * Uses Map for fast lookups and stores tournament data in memory
+ */
+export class InMemoryTournamentRepository implements ITournamentRepository {
+  private tournaments: Map<string, Tournament>;
+
+  constructor() {
+    this.tournaments = new Map();
+  }
+
+  /**
+   * Store a new tournament
+   */
+  async create(tournament: Tournament): Promise<Tournament> {
+    this.tournaments.set(tournament.tournamentId, tournament);
+    return tournament;
+  }
+
+  /**
+   * Find a tournament by ID
+   */
+  async findById(tournamentId: string): Promise<Tournament | null> {
+    const tournament = this.tournaments.get(tournamentId);
+    return tournament || null;
+  }
+
+  /**
+   * Find tournaments, newest first
+   */
+  async findAll(status?: TournamentStatus): Promise<Tournament[]> {
+    return Array.from(this.tournaments.values())
+      .filter((tournament) => !status || tournament.status === status)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  /**
+   * Replace a stored tournament
+   */
+  async update(tournament: Tournament): Promise<Tournament> {
+    if (!this.tournaments.has(tournament.tournamentId)) {
+      throw new Error(`Tournament ${tournament.tournamentId} not found`);
+    }
+    this.tournaments.set(tournament.tournamentId, tournament);
+    return tournament;
+  }
+}
@@ -0,0 +1,101 @@
+import { IWebhookRepository } from '@domain/interfaces/IWebhookRepository';
+import {
+  Webhook,
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  WebhookEventType,
+  matchesWebhook,
+} from '@domain/models';
+
+/**
+ * In-memory implementation of IWebhookRepository
+ * Webhooks and pending deliveries are lost on restart.
+ */
+export class InMemoryWebhookRepository implements IWebhookRepository {
+  private webhooks: Map<string, Webhook>;
+  private deliveries: Map<string, WebhookDelivery>;
+
+  constructor() {
+    this.webhooks = new Map();
+    this.deliveries = new Map();
+  }
+
+  /**
+   * Store a new webhook
+   */
+  async create(webhook: Webhook): Promise<Webhook> {
+    this.webhooks.set(webhook.webhookId, webhook);
+    return webhook;
+  }
+
+  /**
+   * Find a webhook by its ID
+   */
+  async findById(webhookId: string): Promise<Webhook | null> {
+    return this.webhooks.get(webhookId) || null;
+  }
+
+  /**
+   * Get webhooks, oldest first
+   */
+  async findAll(ownerId?: string): Promise<Webhook[]> {
+    return Array.from(this.webhooks.values())
+      .filter((webhook) => !ownerId || webhook.ownerId === ownerId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  /**
+   * Get the webhooks that want an event, oldest first
+   */
+  async findForEvent(type: WebhookEventType, gameId: string, gameType: string): Promise<Webhook[]> {
+    return (await this.findAll()).filter((webhook) =>
+      matchesWebhook(webhook, { type, gameId, gameType })
+    );
+  }
+
+  /**
+   * Delete a webhook and its deliveries
+   */
+  async delete(webhookId: string): Promise<void> {
+    this.webhooks.delete(webhookId);
+    for (const delivery of this.deliveries.values()) {
+      if (delivery.webhookId === webhookId) {
+        this.deliveries.delete(delivery.deliveryId);
+      }
+    }
+  }
+
+  /**
+   * Store a delivery, replacing any earlier version of it
+   */
+  async saveDelivery(delivery: WebhookDelivery): Promise<void> {
+    this.deliveries.set(delivery.deliveryId, { ...delivery });
+  }
+
+  /**
+   * Get pending deliveries whose next attempt is due, earliest first
+   */
+  async findDueDeliveries(now: Date, limit: number): Promise<WebhookDelivery[]> {
+    return Array.from(this.deliveries.values())
+      .filter(
+        (delivery) =>
+          delivery.status === WebhookDeliveryStatus.PENDING &&
+          delivery.nextAttemptAt !== null &&
+          delivery.nextAttemptAt.getTime() <= now.getTime()
+      )
+      .sort((a, b) => a.nextAttemptAt!.getTime() - b.nextAttemptAt!.getTime())
+      .slice(0, limit)
+      .map((delivery) => ({ ...delivery }));
+  }
+
+  /**
+   * Get a webhook's deliveries, newest first
+   */
+  async findDeliveries(webhookId: string, limit: number): Promise<WebhookDelivery[]> {
+    return Array.from(this.deliveries.values())
+      .filter((delivery) => delivery.webhookId === webhookId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, limit)
+      .map((delivery) => ({ ...delivery }));
+  }
+}
@@ -0,0 +1,283 @@
+/**
+ * PostgreSQL implementation of IAIPlayerRepository
+ * Persists AI players to the ai_players table so AI seats survive a restart
+ */
+
+import { Pool, PoolConfig } from 'pg';
+import { randomUUID } from 'crypto';
+import {
+  IAIPlayerRepository,
+  CreateAIPlayerParams,
+  UpdateAIPlayerParams,
+  AIPlayerFilters,
+} from '@domain/interfaces/IAIPlayerRepository';
+import { AIPlayer } from '@domain/models/AIPlayer';
+import { getLogger } from '../logging/Logger';
+
+interface AIPlayerRow {
+  id: string;
+  name: string;
+  game_type: string;
+  strategy_id: string;
+  difficulty: string | null;
+  configuration: Record<string, unknown> | null;
+  created_at: Date;
+}
+
+export class PostgresAIPlayerRepository implements IAIPlayerRepository {
+  private pool: Pool;
+
+  constructor(connectionString: string, poolSize: number = 10) {
+    const poolConfig: PoolConfig = {
+      connectionString,
+      max: poolSize,
+      idleTimeoutMillis: 10000,
+      connectionTimeoutMillis: 30000,
+    };
+
+    this.pool = new Pool(poolConfig);
+
+    this.pool.on('error', (err) => {
+      const logger = getLogger();
+      logger.error('Unexpected error on idle database client', {
+        error: err.message,
+        stack: err.stack,
+      });
+    });
+  }
+
+  /**
+   * Deserialize database row to AIPlayer
+   */
+  private deserialize(row: AIPlayerRow): AIPlayer {
+    return new AIPlayer(
+      row.id,
+      row.name,
+      row.game_type,
+      row.strategy_id,
+      row.difficulty ?? undefined,
+      row.configuration ?? undefined,
+      new Date(row.created_at)
+    );
+  }
+
+  /**
+   * Create a new AI player
+   */
+  async create(params: CreateAIPlayerParams): Promise<AIPlayer> {
+    const logger = getLogger();
+    const aiPlayer = new AIPlayer(
+      params.id ?? randomUUID(),
+      params.name,
+      params.gameType,
+      params.strategyId,
+      params.difficulty,
+      params.configuration
+    );
+
+    try {
+      const result = await this.pool.query(
+        `INSERT INTO ai_players
+           (id, name, game_type, strategy_id, difficulty, configuration, created_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)
+         RETURNING *`,
+        [
+          aiPlayer.id,
+          aiPlayer.name,
+          aiPlayer.gameType,
+          aiPlayer.strategyId,
+          aiPlayer.difficulty ?? null,
+          aiPlayer.configuration ? JSON.stringify(aiPlayer.configuration) : null,
+          aiPlayer.createdAt,
+        ]
+      );
+      return this.deserialize(result.rows[0]);
+    } catch (error) {
+      logger.error('Failed to create AI player', {
+        aiPlayerId: aiPlayer.id,
+        gameType: aiPlayer.gameType,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Find an AI player by ID
+   */
+  async findById(id: string): Promise<AIPlayer | null> {
+    const logger = getLogger();
+
+    try {
+      const result = await this.pool.query('SELECT * FROM ai_players WHERE id = $1', [id]);
+      return result.rows.length > 0 ? this.deserialize(result.rows[0]) : null;
+    } catch (error) {
+      logger.error('Failed to find AI player', {
+        aiPlayerId: id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Find AI players by game type
+   */
+  async findByGameType(gameType: string): Promise<AIPlayer[]> {
+    return this.findAll({ gameType });
+  }
+
+  /**
+   * Find AI players by strategy ID
+   */
+  async findByStrategyId(strategyId: string): Promise<AIPlayer[]> {
+    return this.findAll({ strategyId });
+  }
+
+  /**
+   * Find all AI players with optional filters, oldest first
+   */
+  async findAll(filters?: AIPlayerFilters): Promise<AIPlayer[]> {
+    const logger = getLogger();
+    const conditions: string[] = [];
+    const params: string[] = [];
+
+    if (filters?.gameType) {
+      params.push(filters.gameType);
+      conditions.push(`game_type = $${params.length}`);
+    }
+    if (filters?.strategyId) {
+      params.push(filters.strategyId);
+      conditions.push(`strategy_id = $${params.length}`);
+    }
+    if (filters?.difficulty) {
+      params.push(filters.difficulty);
+      conditions.push(`difficulty = $${params.length}`);
+    }
+
+    let query = 'SELECT * FROM ai_players';
+    if (conditions.length > 0) {
+      query += ` WHERE ${conditions.join(' AND ')}`;
+    }
+    query += ' ORDER BY created_at ASC';
+
+    try {
+      const result = await this.pool.query(query, params);
+      return result.rows.map((row) => this.deserialize(row));
+    } catch (error) {
+      logger.error('Failed to list AI players', {
+        filters,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Update an existing AI player
+   * The game type cannot be changed.
+   */
+  async update(id: string, params: UpdateAIPlayerParams): Promise<AIPlayer> {
+    const logger = getLogger();
+
+    try {
+      const result = await this.pool.query(
+        `UPDATE ai_players
+         SET name = COALESCE($2, name),
+             strategy_id = COALESCE($3, strategy_id),
+             difficulty = COALESCE($4, difficulty),
+             configuration = COALESCE($5, configuration)
+         WHERE id = $1
+         RETURNING *`,
+        [
+          id,
+          params.name ?? null,
+          params.strategyId ?? null,
+          params.difficulty ?? null,
+          params.configuration ? JSON.stringify(params.configuration) : null,
+        ]
+      );
+      if (result.rows.length === 0) {
+        throw new Error(`AI Player with ID ${id} not found`);
+      }
+      return this.deserialize(result.rows[0]);
+    } catch (error) {
+      logger.error('Failed to update AI player', {
+        aiPlayerId: id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Delete an AI player by ID
+   */
+  async delete(id: string): Promise<void> {
+    const logger = getLogger();
+
+    try {
+      const result = await this.pool.query('DELETE FROM ai_players WHERE id = $1', [id]);
+      if (result.rowCount === 0) {
+        throw new Error(`AI Player with ID ${id} not found`);
+      }
+    } catch (error) {
+      logger.error('Failed to delete AI player', {
+        aiPlayerId: id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Check if an AI player exists
+   */
+  async exists(id: string): Promise<boolean> {
+    return (await this.findById(id)) !== null;
+  }
+
+  /**
+   * Get count of AI players by game type
+   */
+  async countByGameType(gameType: string): Promise<number> {
+    const logger = getLogger();
+
+    try {
+      const result = await this.pool.query(
+        'SELECT COUNT(*) AS count FROM ai_players WHERE game_type = $1',
+        [gameType]
+      );
+      return parseInt(result.rows[0].count, 10);
+    } catch (error) {
+      logger.error('Failed to count AI players', {
+        gameType,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Performs a health check on the repository
+   */
+  async healthCheck(): Promise<boolean> {
+    const logger = getLogger();
+    try {
+      await this.pool.query('SELECT 1');
+      return true;
+    } catch (error) {
+      logger.error('Database health check failed', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Close the database connection pool
+   */
+  async close(): Promise<void> {
+    await this.pool.end();
+  }
+}
@@ -1,12 +1,36 @@
 /**
  * PostgreSQL implementation of GameRepository
- * Uses pg (node-postgres) for database connectivity with connection pooling
+ * Uses pg (node-postgres) for database connectivity with connection pooling.
+ * Every save and update also appends to the game's event log in the same transaction.
+ * Soft-deleted games keep their rows, marked by deleted_at, and are left out of every lookup.
  */
 
-import { Pool, PoolConfig } from 'pg';
-import { GameRepository, GameFilters, PaginatedResult } from '@domain/interfaces';
-import { GameState } from '@domain/models';
+import { Pool, PoolClient, PoolConfig } from 'pg';
+import {
+  GameRepository,
+  GameFilters,
+  PaginatedResult,
+  IGameEventRepository,
+  IGameModerationRepository,
+  ITimedGameRepository,
+} from '@domain/interfaces';
+import {
+  GameState,
+  GameLifecycle,
+  GameEvent,
+  GameEventType,
+  GameSnapshot,
+  GameDeletion,
+  ModerationAction,
+  ModerationLogEntry,
+} from '@domain/models';
 import { ConcurrencyError, GameNotFoundError } from '@domain/errors';
+import {
+  createGameCreatedEvent,
+  deriveGameEvents,
+  isSnapshotDue,
+} from '@domain/game-utils/GameEventLog';
+import { getTurnDueAt } from '@domain/game-utils/TurnClock';
 import { getLogger } from '../logging/Logger';
 
 interface DatabaseRow {
@@ -16,11 +40,43 @@ interface DatabaseRow {
   winner: string | null;
   state: string | GameState; // Can be string or object (JSONB returns objects)
   version: number;
+  turn_due_at: Date | null;
   created_at: Date;
   updated_at: Date;
 }
 
-export class PostgresGameRepository implements GameRepository {
+interface EventRow {
+  game_id: string;
+  sequence: number;
+  event_type: string;
+  move_number: number;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  payload: string | Record<string, any>;
+  created_at: Date;
+}
+
+interface SnapshotRow {
+  game_id: string;
+  sequence: number;
+  move_number: number;
+  state: string | GameState;
+  created_at: Date;
+}
+
+interface ModerationLogRow {
+  entry_id: string;
+  game_id: string;
+  action: string;
+  actor_id: string;
+  as_admin: boolean;
+  reason: string | null;
+  details: string | Record<string, unknown>;
+  created_at: Date;
+}
+
+export class PostgresGameRepository
+  implements GameRepository, IGameEventRepository, IGameModerationRepository, ITimedGameRepository
+{
   private pool: Pool;
 
   constructor(connectionString: string, poolSize: number = 10) {
@@ -55,6 +111,7 @@ export class PostgresGameRepository implements GameRepository {
       winner: state.winner,
       state: state as any, // PostgreSQL JSONB handles objects directly
       version: state.version,
+      turn_due_at: getTurnDueAt(state),
       created_at: state.createdAt,
       updated_at: state.updatedAt,
     };
@@ -68,6 +125,13 @@ export class PostgresGameRepository implements GameRepository {
     // Handle both string and object types (JSONB returns objects directly)
     const state = (typeof row.state === 'string' ? JSON.parse(row.state) : row.state) as GameState;
 
+    return this.reviveGameState(state);
+  }
+
+  /**
+   * Reconstructs Date objects in a GameState parsed from JSON
+   */
+  private reviveGameState(state: GameState): GameState {
     // Reconstruct Date objects
     state.createdAt = new Date(state.createdAt);
     state.updatedAt = new Date(state.updatedAt);
@@ -78,6 +142,14 @@ export class PostgresGameRepository implements GameRepository {
       joinedAt: new Date(player.joinedAt),
     }));
 
+    // Reconstruct Date objects in observers
+    if (state.observers) {
+      state.observers = state.observers.map((observer) => ({
+        ...observer,
+        joinedAt: new Date(observer.joinedAt),
+      }));
+    }
+
     // Reconstruct Date objects in moveHistory
     state.moveHistory = state.moveHistory.map((move) => ({
       ...move,
@@ -95,28 +167,36 @@ export class PostgresGameRepository implements GameRepository {
     const row = this.serializeGameState(state);
 
     const query = `
-      INSERT INTO games (game_id, game_type, lifecycle, winner, state, version, created_at, updated_at)
-      VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+      INSERT INTO games (game_id, game_type, lifecycle, winner, state, version, turn_due_at, created_at, updated_at)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
     `;
 
+    const client = await this.pool.connect();
     try {
-      await this.pool.query(query, [
+      await client.query('BEGIN');
+      await client.query(query, [
         row.game_id,
         row.game_type,
         row.lifecycle,
         row.winner,
         row.state,
         row.version,
+        row.turn_due_at,
         row.created_at,
         row.updated_at,
       ]);
+      await this.appendEvents(client, [createGameCreatedEvent(state)]);
+      await client.query('COMMIT');
       // Game saved successfully
     } catch (error) {
+      await client.query('ROLLBACK');
       logger.error('Failed to save game to database', {
         gameId: state.gameId,
         error: error instanceof Error ? error.message : String(error),
       });
       throw error;
+    } finally {
+      client.release();
     }
   }
 
@@ -124,7 +204,7 @@ export class PostgresGameRepository implements GameRepository {
    * Find a game by its ID
    */
   async findById(gameId: string): Promise<GameState | null> {
-    const query = 'SELECT * FROM games WHERE game_id = $1';
+    const query = 'SELECT * FROM games WHERE game_id = $1 AND deleted_at IS NULL';
     const result = await this.pool.query(query, [gameId]);
 
     if (result.rows.length === 0) {
@@ -160,7 +240,9 @@ export class PostgresGameRepository implements GameRepository {
       paramIndex++;
     }
 
-    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    conditions.push('deleted_at IS NULL');
+
+    const whereClause = `WHERE ${conditions.join(' AND ')}`;
 
     // Get total count
     const countQuery = `SELECT COUNT(*) FROM games ${whereClause}`;
@@ -219,6 +301,8 @@ export class PostgresGameRepository implements GameRepository {
       paramIndex++;
     }
 
+    conditions.push('deleted_at IS NULL');
+
     const whereClause = `WHERE ${conditions.join(' AND ')}`;
 
     // Get total count
@@ -258,29 +342,36 @@ export class PostgresGameRepository implements GameRepository {
 
     const query = `
       UPDATE games
-      SET game_type = $1, lifecycle = $2, winner = $3, state = $4, version = $5, updated_at = $6
-      WHERE game_id = $7 AND version = $8
+      SET game_type = $1, lifecycle = $2, winner = $3, state = $4, version = $5, turn_due_at = $6,
+        updated_at = $7
+      WHERE game_id = $8 AND version = $9
       RETURNING *
     `;
 
+    const client = await this.pool.connect();
     try {
-      const result = await this.pool.query(query, [
+      await client.query('BEGIN');
+
+      // Lock the current row so the event log is derived from the state being replaced
+      const currentResult = await client.query(
+        'SELECT * FROM games WHERE game_id = $1 FOR UPDATE',
+        [gameId]
+      );
+
+      const result = await client.query(query, [
         row.game_type,
         row.lifecycle,
         row.winner,
         row.state,
         row.version,
+        row.turn_due_at,
         row.updated_at,
         gameId,
         expectedVersion,
       ]);
 
       if (result.rows.length === 0) {
-        // Check if game exists
-        const checkQuery = 'SELECT version FROM games WHERE game_id = $1';
-        const checkResult = await this.pool.query(checkQuery, [gameId]);
-
-        if (checkResult.rows.length === 0) {
+        if (currentResult.rows.length === 0) {
           logger.warn('Game not found for update', { gameId });
           throw new GameNotFoundError(gameId);
         }
@@ -289,15 +380,47 @@ export class PostgresGameRepository implements GameRepository {
         logger.warn('Concurrency error during game update', {
           gameId,
           expectedVersion,
-          currentVersion: checkResult.rows[0].version,
+          currentVersion: currentResult.rows[0].version,
         });
         throw new ConcurrencyError(gameId);
       }
 
+      // Record what changed in the event log
+      const previous = this.deserializeGameState(currentResult.rows[0]);
+      const sequenceResult = await client.query(
+        'SELECT COALESCE(MAX(sequence), 0) AS last_sequence FROM game_events WHERE game_id = $1',
+        [gameId]
+      );
+      const events = deriveGameEvents(
+        previous,
+        state,
+        Number(sequenceResult.rows[0].last_sequence)
+      );
+      await this.appendEvents(client, events);
+
+      if (isSnapshotDue(previous, state)) {
+        await client.query(
+          `
+          INSERT INTO game_snapshots (game_id, move_number, sequence, state)
+          VALUES ($1, $2, $3, $4)
+          ON CONFLICT (game_id, move_number) DO NOTHING
+        `,
+          [
+            gameId,
+            state.moveHistory.length,
+            Number(sequenceResult.rows[0].last_sequence) + events.length,
+            row.state,
+          ]
+        );
+      }
+
+      await client.query('COMMIT');
+
       // Game updated successfully
 
       return this.deserializeGameState(result.rows[0]);
     } catch (error) {
+      await client.query('ROLLBACK');
       if (error instanceof GameNotFoundError || error instanceof ConcurrencyError) {
         throw error;
       }
@@ -306,9 +429,25 @@ export class PostgresGameRepository implements GameRepository {
         error: error instanceof Error ? error.message : String(error),
       });
       throw error;
+    } finally {
+      client.release();
     }
   }
 
+  /**
+   * Find active timed games whose due time has been reached
+   */
+  async findDueTimedGames(now: Date): Promise<GameState[]> {
+    const query = `
+      SELECT * FROM games
+      WHERE turn_due_at <= $1 AND lifecycle = $2 AND deleted_at IS NULL
+      ORDER BY turn_due_at
+    `;
+    const result = await this.pool.query(query, [now, GameLifecycle.ACTIVE]);
+
+    return result.rows.map((row) => this.deserializeGameState(row));
+  }
+
   /**
    * Delete a game by its ID
    */
@@ -317,6 +456,273 @@ export class PostgresGameRepository implements GameRepository {
     await this.pool.query(query, [gameId]);
   }
 
+  /**
+   * Hide a game and record the deletion in its moderation log, in one transaction
+   * @throws GameNotFoundError if the game does not exist or is already deleted
+   */
+  async softDelete(
+    gameId: string,
+    deletion: GameDeletion,
+    entry: ModerationLogEntry
+  ): Promise<void> {
+    const query = `
+      UPDATE games
+      SET deleted_at = $1, deleted_by = $2, deletion_reason = $3
+      WHERE game_id = $4 AND deleted_at IS NULL
+    `;
+
+    await this.withTransaction(async (client) => {
+      const result = await client.query(query, [
+        deletion.deletedAt,
+        deletion.deletedBy,
+        deletion.reason ?? null,
+        gameId,
+      ]);
+
+      if (result.rowCount === 0) {
+        throw new GameNotFoundError(gameId);
+      }
+
+      await this.insertModerationEntry(client, entry);
+    });
+  }
+
+  /**
+   * Make a soft-deleted game visible again and record it in its moderation log, in one transaction
+   * @throws GameNotFoundError if there is no deleted game with this ID
+   */
+  async restore(gameId: string, entry: ModerationLogEntry): Promise<GameState> {
+    const query = `
+      UPDATE games
+      SET deleted_at = NULL, deleted_by = NULL, deletion_reason = NULL
+      WHERE game_id = $1 AND deleted_at IS NOT NULL
+      RETURNING *
+    `;
+
+    return this.withTransaction(async (client) => {
+      const result = await client.query(query, [gameId]);
+
+      if (result.rows.length === 0) {
+        throw new GameNotFoundError(gameId);
+      }
+
+      await this.insertModerationEntry(client, entry);
+      return this.deserializeGameState(result.rows[0]);
+    });
+  }
+
+  /**
+   * Get the deletion record of a soft-deleted game
+   */
+  async findDeletion(gameId: string): Promise<GameDeletion | null> {
+    const query = `
+      SELECT deleted_at, deleted_by, deletion_reason FROM games
+      WHERE game_id = $1 AND deleted_at IS NOT NULL
+    `;
+    const result = await this.pool.query(query, [gameId]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const row = result.rows[0];
+    return {
+      deletedBy: row.deleted_by,
+      deletedAt: new Date(row.deleted_at),
+      ...(row.deletion_reason && { reason: row.deletion_reason }),
+    };
+  }
+
+  /**
+   * Append an entry to a game's moderation log
+   */
+  async appendModerationEntry(entry: ModerationLogEntry): Promise<void> {
+    await this.insertModerationEntry(this.pool, entry);
+  }
+
+  /**
+   * Get a game's moderation log, oldest entry first
+   */
+  async getModerationLog(gameId: string): Promise<ModerationLogEntry[]> {
+    const query = `
+      SELECT * FROM game_moderation_log
+      WHERE game_id = $1
+      ORDER BY created_at ASC
+    `;
+    const result = await this.pool.query(query, [gameId]);
+
+    return result.rows.map((row: ModerationLogRow) => ({
+      entryId: row.entry_id,
+      gameId: row.game_id,
+      action: row.action as ModerationAction,
+      actorId: row.actor_id,
+      asAdmin: row.as_admin,
+      ...(row.reason && { reason: row.reason }),
+      details: typeof row.details === 'string' ? JSON.parse(row.details) : row.details,
+      createdAt: new Date(row.created_at),
+    }));
+  }
+
+  /**
+   * Get a game's events in order
+   */
+  async getEvents(gameId: string, afterSequence: number = 0): Promise<GameEvent[]> {
+    const query = `
+      SELECT * FROM game_events
+      WHERE game_id = $1 AND sequence > $2
+      ORDER BY sequence ASC
+    `;
+    const result = await this.pool.query(query, [gameId, afterSequence]);
+
+    return result.rows.map((row) => this.deserializeEvent(row));
+  }
+
+  /**
+   * Get the most recent snapshot taken at or before a move
+   */
+  async getLatestSnapshot(gameId: string, moveNumber: number): Promise<GameSnapshot | null> {
+    const query = `
+      SELECT * FROM game_snapshots
+      WHERE game_id = $1 AND move_number <= $2
+      ORDER BY move_number DESC
+      LIMIT 1
+    `;
+    const result = await this.pool.query(query, [gameId, moveNumber]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const row: SnapshotRow = result.rows[0];
+    return {
+      gameId: row.game_id,
+      sequence: row.sequence,
+      moveNumber: row.move_number,
+      state: this.reviveGameState(
+        (typeof row.state === 'string' ? JSON.parse(row.state) : row.state) as GameState
+      ),
+      createdAt: new Date(row.created_at),
+    };
+  }
+
+  /**
+   * Run queries in a transaction, rolling back if the callback throws
+   */
+  private async withTransaction<T>(callback: (client: PoolClient) => Promise<T>): Promise<T> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      const result = await callback(client);
+      await client.query('COMMIT');
+      return result;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Insert an entry into the moderation log
+   */
+  private async insertModerationEntry(
+    queryable: Pool | PoolClient,
+    entry: ModerationLogEntry
+  ): Promise<void> {
+    const query = `
+      INSERT INTO game_moderation_log
+        (entry_id, game_id, action, actor_id, as_admin, reason, details, created_at)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+    `;
+    await queryable.query(query, [
+      entry.entryId,
+      entry.gameId,
+      entry.action,
+      entry.actorId,
+      entry.asAdmin,
+      entry.reason ?? null,
+      JSON.stringify(entry.details),
+      entry.createdAt,
+    ]);
+  }
+
+  /**
+   * Append events to a game's log within an open transaction
+   */
+  private async appendEvents(client: PoolClient, events: GameEvent[]): Promise<void> {
+    const query = `
+      INSERT INTO game_events (game_id, sequence, event_type, move_number, payload, created_at)
+      VALUES ($1, $2, $3, $4, $5, $6)
+    `;
+
+    for (const event of events) {
+      await client.query(query, [
+        event.gameId,
+        event.sequence,
+        event.type,
+        event.moveNumber,
+        JSON.stringify(event.payload),
+        event.createdAt,
+      ]);
+    }
+  }
+
+  /**
+   * Deserializes an event row, reconstructing Date objects in the payload
+   */
+  private deserializeEvent(row: EventRow): GameEvent {
+    const payload = typeof row.payload === 'string' ? JSON.parse(row.payload) : row.payload;
+    const base = {
+      gameId: row.game_id,
+      sequence: row.sequence,
+      moveNumber: row.move_number,
+      createdAt: new Date(row.created_at),
+    };
+
+    switch (row.event_type) {
+      case GameEventType.GAME_CREATED:
+        return {
+          ...base,
+          type: GameEventType.GAME_CREATED,
+          payload: { state: this.reviveGameState(payload.state) },
+        };
+      case GameEventType.PLAYER_JOINED:
+        return {
+          ...base,
+          type: GameEventType.PLAYER_JOINED,
+          payload: {
+            player: { ...payload.player, joinedAt: new Date(payload.player.joinedAt) },
+            lifecycle: payload.lifecycle,
+          },
+        };
+      case GameEventType.PLAYER_LEFT:
+        return {
+          ...base,
+          type: GameEventType.PLAYER_LEFT,
+          payload: { playerId: payload.playerId, lifecycle: payload.lifecycle },
+        };
+      case GameEventType.MOVE_APPLIED:
+        return {
+          ...base,
+          type: GameEventType.MOVE_APPLIED,
+          payload: { move: { ...payload.move, timestamp: new Date(payload.move.timestamp) } },
+        };
+      case GameEventType.TURN_SKIPPED:
+        return {
+          ...base,
+          type: GameEventType.TURN_SKIPPED,
+          payload: { playerId: payload.playerId },
+        };
+      default:
+        return {
+          ...base,
+          type: GameEventType.GAME_COMPLETED,
+          payload: { lifecycle: payload.lifecycle, winner: payload.winner },
+        };
+    }
+  }
+
   /**
    * Performs a health check on the database connection
    * @returns true if database is healthy, false otherwise
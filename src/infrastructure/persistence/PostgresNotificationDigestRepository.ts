@@ -0,0 +1,130 @@
+/**
+ * PostgreSQL implementation of INotificationDigestRepository
+ * Digest notifications are kept in turn_notifications with channel 'email' and status
+ * 'pending' until the digest goes out, so they survive a restart.
+ */
+
+import { Pool, PoolConfig } from 'pg';
+import {
+  INotificationDigestRepository,
+  PendingDigestNotification,
+} from '@domain/interfaces/INotificationDigestRepository';
+import { NotificationData, NotificationType } from '@domain/interfaces/INotificationChannel';
+import { getLogger } from '../logging/Logger';
+
+interface DigestNotificationRow {
+  notification_id: string;
+  user_id: string;
+  game_id: string;
+  notification_type: string;
+  message: string;
+  metadata: Record<string, unknown> | null;
+  created_at: Date;
+}
+
+export class PostgresNotificationDigestRepository implements INotificationDigestRepository {
+  private pool: Pool;
+
+  constructor(connectionString: string, poolSize: number = 10) {
+    const poolConfig: PoolConfig = {
+      connectionString,
+      max: poolSize,
+      idleTimeoutMillis: 10000,
+      connectionTimeoutMillis: 30000,
+    };
+
+    this.pool = new Pool(poolConfig);
+
+    this.pool.on('error', (err) => {
+      const logger = getLogger();
+      logger.error('Unexpected error on idle database client', {
+        error: err.message,
+        stack: err.stack,
+      });
+    });
+  }
+
+  /**
+   * Hold a notification for the next digest
+   */
+  async add(notification: NotificationData): Promise<void> {
+    const { type, userId, gameId, message, metadata, ...details } = notification;
+
+    try {
+      await this.pool.query(
+        `INSERT INTO turn_notifications (user_id, game_id, notification_type, message, metadata, status, channel)
+         VALUES ($1, $2, $3, $4, $5, 'pending', 'email')`,
+        [userId, gameId, type, message, JSON.stringify({ ...metadata, ...details })]
+      );
+    } catch (error) {
+      const logger = getLogger();
+      logger.error('Failed to queue digest notification', {
+        userId,
+        gameId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get every notification waiting for a digest, oldest first
+   */
+  async findPending(): Promise<PendingDigestNotification[]> {
+    try {
+      const result = await this.pool.query<DigestNotificationRow>(
+        `SELECT notification_id, user_id, game_id, notification_type, message, metadata, created_at
+         FROM turn_notifications
+         WHERE channel = 'email' AND status = 'pending'
+         ORDER BY created_at ASC`
+      );
+
+      return result.rows.map((row) => ({
+        notificationId: row.notification_id,
+        userId: row.user_id,
+        gameId: row.game_id,
+        type: row.notification_type as NotificationType,
+        message: row.message,
+        metadata: row.metadata ?? {},
+        createdAt: new Date(row.created_at),
+      }));
+    } catch (error) {
+      const logger = getLogger();
+      logger.error('Failed to find pending digest notifications', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Mark notifications as delivered in a digest
+   */
+  async markSent(notificationIds: string[]): Promise<void> {
+    if (notificationIds.length === 0) {
+      return;
+    }
+
+    try {
+      await this.pool.query(
+        `UPDATE turn_notifications SET status = 'sent', sent_at = NOW()
+         WHERE notification_id = ANY($1::uuid[])`,
+        [notificationIds]
+      );
+    } catch (error) {
+      const logger = getLogger();
+      logger.error('Failed to mark digest notifications as sent', {
+        count: notificationIds.length,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Close the database connection pool
+   */
+  async close(): Promise<void> {
+    await this.pool.end();
+  }
+}
@@ -4,7 +4,7 @@
  */
 
 import { Pool, PoolConfig } from 'pg';
-import { PlayerProfile } from '@domain/models/PlayerProfile';
+import { PlayerProfile, NotificationPreferences } from '@domain/models/PlayerProfile';
 import {
   IPlayerProfileRepository,
   CreatePlayerProfileParams,
@@ -17,6 +17,7 @@ interface DatabaseRow {
   display_name: string;
   created_at: Date;
   updated_at: Date;
+  notification_preferences?: NotificationPreferences | null;
 }
 
 export class PostgresPlayerProfileRepository implements IPlayerProfileRepository {
@@ -50,6 +51,9 @@ export class PostgresPlayerProfileRepository implements IPlayerProfileRepository
       displayName: row.display_name,
       createdAt: new Date(row.created_at),
       updatedAt: new Date(row.updated_at),
+      ...(row.notification_preferences && {
+        notificationPreferences: row.notification_preferences,
+      }),
     };
   }
 
@@ -127,13 +131,19 @@ export class PostgresPlayerProfileRepository implements IPlayerProfileRepository
 
     const query = `
       UPDATE player_profiles
-      SET display_name = $1, updated_at = NOW()
+      SET display_name = COALESCE($1, display_name),
+          notification_preferences = COALESCE($3, notification_preferences),
+          updated_at = NOW()
       WHERE user_id = $2
       RETURNING *
     `;
 
     try {
-      const result = await this.pool.query(query, [params.displayName, userId]);
+      const result = await this.pool.query(query, [
+        params.displayName ?? null,
+        userId,
+        params.notificationPreferences ? JSON.stringify(params.notificationPreferences) : null,
+      ]);
 
       if (result.rows.length === 0) {
         throw new Error(`Player profile not found for user ID: ${userId}`);
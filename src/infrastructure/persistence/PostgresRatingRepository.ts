@@ -0,0 +1,252 @@
+/**
+ * PostgreSQL implementation of IRatingRepository
+ * Persists ratings to the player_ratings table and their changes to rating_history
+ */
+
+import { Pool, PoolConfig } from 'pg';
+import {
+  PlayerRating,
+  RatingHistoryEntry,
+  DEFAULT_RATING,
+  DEFAULT_RATING_DEVIATION,
+  DEFAULT_RATING_VOLATILITY,
+} from '@domain/models/PlayerRating';
+import { IRatingRepository, RatingCalculator } from '@domain/interfaces/IRatingRepository';
+import { getLogger } from '../logging/Logger';
+
+interface RatingRow {
+  user_id: string;
+  game_type: string;
+  rating: number;
+  deviation: number;
+  volatility: number;
+  games_played: number;
+  updated_at: Date;
+}
+
+interface HistoryRow {
+  game_id: string;
+  user_id: string;
+  game_type: string;
+  rating: number;
+  deviation: number;
+  rating_change: number;
+  created_at: Date;
+}
+
+export class PostgresRatingRepository implements IRatingRepository {
+  private pool: Pool;
+
+  constructor(connectionString: string, poolSize: number = 10) {
+    const poolConfig: PoolConfig = {
+      connectionString,
+      max: poolSize,
+      idleTimeoutMillis: 10000,
+      connectionTimeoutMillis: 30000,
+    };
+
+    this.pool = new Pool(poolConfig);
+
+    this.pool.on('error', (err) => {
+      const logger = getLogger();
+      logger.error('Unexpected error on idle database client', {
+        error: err.message,
+        stack: err.stack,
+      });
+    });
+  }
+
+  /**
+   * Deserialize database row to PlayerRating
+   */
+  private deserializeRating(row: RatingRow): PlayerRating {
+    return {
+      userId: row.user_id,
+      gameType: row.game_type,
+      rating: Number(row.rating),
+      deviation: Number(row.deviation),
+      volatility: Number(row.volatility),
+      gamesPlayed: Number(row.games_played),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+
+  /**
+   * Deserialize database row to RatingHistoryEntry
+   */
+  private deserializeHistory(row: HistoryRow): RatingHistoryEntry {
+    return {
+      userId: row.user_id,
+      gameType: row.game_type,
+      gameId: row.game_id,
+      rating: Number(row.rating),
+      deviation: Number(row.deviation),
+      ratingChange: Number(row.rating_change),
+      createdAt: new Date(row.created_at),
+    };
+  }
+
+  /**
+   * Apply the outcome of a game to its players' ratings in a single transaction
+   * Rating rows are locked while the new ratings are calculated, so games finishing
+   * at the same time for the same player are applied one after the other.
+   */
+  async applyGameRatings(
+    gameId: string,
+    gameType: string,
+    userIds: string[],
+    calculate: RatingCalculator
+  ): Promise<RatingHistoryEntry[]> {
+    const logger = getLogger();
+    // Lock rows in a stable order to avoid deadlocks between concurrent games
+    const sortedIds = [...userIds].sort();
+
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const rated = await client.query('SELECT 1 FROM rating_history WHERE game_id = $1 LIMIT 1', [
+        gameId,
+      ]);
+      if (rated.rows.length > 0) {
+        await client.query('ROLLBACK');
+        return [];
+      }
+
+      // Create missing ratings first so every row can be locked
+      await client.query(
+        `INSERT INTO player_ratings (user_id, game_type, rating, deviation, volatility)
+         SELECT user_id, $2, $3, $4, $5 FROM UNNEST($1::varchar[]) AS user_id
+         ON CONFLICT (user_id, game_type) DO NOTHING`,
+        [sortedIds, gameType, DEFAULT_RATING, DEFAULT_RATING_DEVIATION, DEFAULT_RATING_VOLATILITY]
+      );
+
+      const currentResult = await client.query(
+        `SELECT * FROM player_ratings
+         WHERE game_type = $1 AND user_id = ANY($2)
+         ORDER BY user_id
+         FOR UPDATE`,
+        [gameType, sortedIds]
+      );
+      const current = new Map<string, PlayerRating>(
+        currentResult.rows.map((row: RatingRow) => [row.user_id, this.deserializeRating(row)])
+      );
+
+      const updated = calculate(current);
+      const history: RatingHistoryEntry[] = [];
+
+      for (const rating of updated) {
+        const previous = current.get(rating.userId);
+        await client.query(
+          `UPDATE player_ratings
+           SET rating = $3, deviation = $4, volatility = $5, games_played = $6, updated_at = $7
+           WHERE user_id = $1 AND game_type = $2`,
+          [
+            rating.userId,
+            gameType,
+            rating.rating,
+            rating.deviation,
+            rating.volatility,
+            rating.gamesPlayed,
+            rating.updatedAt,
+          ]
+        );
+
+        const entry: RatingHistoryEntry = {
+          userId: rating.userId,
+          gameType,
+          gameId,
+          rating: rating.rating,
+          deviation: rating.deviation,
+          ratingChange: rating.rating - (previous?.rating ?? DEFAULT_RATING),
+          createdAt: rating.updatedAt,
+        };
+        await client.query(
+          `INSERT INTO rating_history
+             (game_id, user_id, game_type, rating, deviation, rating_change, created_at)
+           VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+          [
+            gameId,
+            entry.userId,
+            gameType,
+            entry.rating,
+            entry.deviation,
+            entry.ratingChange,
+            entry.createdAt,
+          ]
+        );
+        history.push(entry);
+      }
+
+      await client.query('COMMIT');
+      return history;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      logger.error('Failed to apply game ratings', {
+        gameId,
+        gameType,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Get a player's current ratings, one per game type played
+   */
+  async findByPlayer(userId: string): Promise<PlayerRating[]> {
+    const logger = getLogger();
+
+    try {
+      const result = await this.pool.query(
+        'SELECT * FROM player_ratings WHERE user_id = $1 ORDER BY game_type',
+        [userId]
+      );
+      return result.rows.map((row) => this.deserializeRating(row));
+    } catch (error) {
+      logger.error('Failed to find player ratings', {
+        userId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get a player's rating changes, oldest first
+   */
+  async getHistory(userId: string, gameType?: string): Promise<RatingHistoryEntry[]> {
+    const logger = getLogger();
+
+    let query = 'SELECT * FROM rating_history WHERE user_id = $1';
+    const params: string[] = [userId];
+
+    if (gameType) {
+      query += ' AND game_type = $2';
+      params.push(gameType);
+    }
+
+    query += ' ORDER BY created_at ASC';
+
+    try {
+      const result = await this.pool.query(query, params);
+      return result.rows.map((row) => this.deserializeHistory(row));
+    } catch (error) {
+      logger.error('Failed to get rating history', {
+        userId,
+        gameType,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Closes all connections in the pool
+   */
+  async close(): Promise<void> {
+    await this.pool.end();
+  }
+}
@@ -4,7 +4,7 @@
  */
 
 import { Pool, PoolConfig } from 'pg';
-import { GameState, GameLifecycle } from '@domain/models';
+import { GameState, GameLifecycle, DEFAULT_RATING } from '@domain/models';
 import { getLogger } from '../logging/Logger';
 
 export interface PlayerStats {
@@ -28,9 +28,18 @@ export interface LeaderboardEntry {
   wins: number;
   losses: number;
   winRate: number;
+  rating: number; // Rating for the game type, or the best rating across game types
   aiGames?: number; // Number of games that included AI players
 }
 
+/**
+ * Leaderboard orderings
+ * winRate breaks ties by total games played; rating breaks ties by win rate.
+ */
+export type LeaderboardSort = 'winRate' | 'rating';
+
+export const LEADERBOARD_SORTS: LeaderboardSort[] = ['winRate', 'rating'];
+
 export interface GameHistoryFilters {
   gameType?: string;
   lifecycle?: GameLifecycle;
@@ -107,6 +116,7 @@ export class PostgresStatsRepository {
           SELECT 1 FROM jsonb_array_elements(state->'players') AS player 
           WHERE player->>'id' = $1 AND player->'metadata'->>'isAI' = 'true'
         )
+        AND deleted_at IS NULL
     `;
 
     const params: any[] = [userId, GameLifecycle.COMPLETED];
@@ -166,9 +176,14 @@ export class PostgresStatsRepository {
    * Get leaderboard with rankings (excludes AI players from leaderboard)
    * @param gameType - Optional game type filter
    * @param limit - Maximum number of entries (default 100)
+   * @param sortBy - Ordering of the entries (default winRate)
    * @returns Leaderboard entries with rankings
    */
-  async getLeaderboard(gameType?: string, limit: number = 100): Promise<LeaderboardEntry[]> {
+  async getLeaderboard(
+    gameType?: string,
+    limit: number = 100,
+    sortBy: LeaderboardSort = 'winRate'
+  ): Promise<LeaderboardEntry[]> {
     const logger = getLogger();
 
     // Simplified approach: Get all completed games and process in application layer
@@ -178,7 +193,7 @@ export class PostgresStatsRepository {
         winner,
         state
       FROM games
-      WHERE lifecycle = $1
+      WHERE lifecycle = $1 AND deleted_at IS NULL
     `;
 
     const params: any[] = [GameLifecycle.COMPLETED];
@@ -233,22 +248,41 @@ export class PostgresStatsRepository {
         }
       }
 
-      // Get display names for players
+      // Get display names and ratings for players
       const playerIds = Array.from(playerStats.keys());
       if (playerIds.length === 0) {
         return [];
       }
 
+      // Without a game type, players are rated by their best game type
+      const ratingParams: unknown[] = [playerIds];
+      let ratingFilter = '';
+      if (gameType) {
+        ratingFilter = ' AND game_type = $2';
+        ratingParams.push(gameType);
+      }
+
       const profileQuery = `
-        SELECT user_id, display_name 
-        FROM player_profiles 
-        WHERE user_id = ANY($1)
+        SELECT players.user_id, profiles.display_name, ratings.rating
+        FROM UNNEST($1::varchar[]) AS players(user_id)
+        LEFT JOIN player_profiles profiles ON profiles.user_id = players.user_id
+        LEFT JOIN (
+          SELECT user_id, MAX(rating) AS rating
+          FROM player_ratings
+          WHERE user_id = ANY($1)${ratingFilter}
+          GROUP BY user_id
+        ) ratings ON ratings.user_id = players.user_id
       `;
 
-      const profileResult = await this.pool.query(profileQuery, [playerIds]);
+      const profileResult = await this.pool.query(profileQuery, ratingParams);
       const displayNames = new Map(
         profileResult.rows.map((row) => [row.user_id, row.display_name])
       );
+      const ratings = new Map<string, number>(
+        profileResult.rows
+          .filter((row) => row.rating !== null && row.rating !== undefined)
+          .map((row) => [row.user_id, Number(row.rating)])
+      );
 
       // Build leaderboard entries
       const entries: LeaderboardEntry[] = [];
@@ -265,17 +299,28 @@ export class PostgresStatsRepository {
           wins: stats.wins,
           losses: stats.losses,
           winRate,
+          rating: ratings.get(userId) ?? DEFAULT_RATING,
           aiGames: stats.aiGames,
         });
       }
 
-      // Sort by win rate descending, then by total games descending
-      entries.sort((a, b) => {
-        if (a.winRate !== b.winRate) {
+      if (sortBy === 'rating') {
+        // Sort by rating descending, then by win rate descending
+        entries.sort((a, b) => {
+          if (a.rating !== b.rating) {
+            return b.rating - a.rating;
+          }
           return b.winRate - a.winRate;
-        }
-        return b.totalGames - a.totalGames;
-      });
+        });
+      } else {
+        // Sort by win rate descending, then by total games descending
+        entries.sort((a, b) => {
+          if (a.winRate !== b.winRate) {
+            return b.winRate - a.winRate;
+          }
+          return b.totalGames - a.totalGames;
+        });
+      }
 
       // Set ranks and apply limit
       const limitedEntries = entries.slice(0, limit);
@@ -288,6 +333,7 @@ export class PostgresStatsRepository {
       logger.error('Failed to get leaderboard', {
         gameType,
         limit,
+        sortBy,
         error: error instanceof Error ? error.message : String(error),
       });
       throw error;
@@ -313,6 +359,7 @@ export class PostgresStatsRepository {
         SELECT 1 FROM jsonb_array_elements(state->'players') AS player 
         WHERE player->>'id' = $1
       )
+        AND deleted_at IS NULL
     `;
 
     const params: any[] = [userId];
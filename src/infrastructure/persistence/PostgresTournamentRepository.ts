@@ -0,0 +1,204 @@
+/**
+ * PostgreSQL implementation of ITournamentRepository
+ * Persists tournaments to the tournaments table; participants and rounds are stored as JSONB
+ */
+
+import { Pool, PoolConfig } from 'pg';
+import { Tournament, TournamentStatus, TournamentFormat } from '@domain/models/Tournament';
+import { ITournamentRepository } from '@domain/interfaces/ITournamentRepository';
+import { getLogger } from '../logging/Logger';
+
+interface TournamentRow {
+  tournament_id: string;
+  name: string;
+  game_type: string;
+  format: string;
+  status: string;
+  created_by: string;
+  state: Pick<
+    Tournament,
+    'participants' | 'rounds' | 'totalRounds' | 'customSettings' | 'winnerId'
+  >;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export class PostgresTournamentRepository implements ITournamentRepository {
+  private pool: Pool;
+
+  constructor(connectionString: string, poolSize: number = 10) {
+    const poolConfig: PoolConfig = {
+      connectionString,
+      max: poolSize,
+      idleTimeoutMillis: 10000,
+      connectionTimeoutMillis: 30000,
+    };
+
+    this.pool = new Pool(poolConfig);
+
+    this.pool.on('error', (err) => {
+      const logger = getLogger();
+      logger.error('Unexpected error on idle database client', {
+        error: err.message,
+        stack: err.stack,
+      });
+    });
+  }
+
+  /**
+   * Serialize the parts of a tournament kept in the state column
+   */
+  private serializeState(tournament: Tournament): string {
+    return JSON.stringify({
+      participants: tournament.participants,
+      rounds: tournament.rounds,
+      totalRounds: tournament.totalRounds,
+      customSettings: tournament.customSettings,
+      winnerId: tournament.winnerId,
+    });
+  }
+
+  /**
+   * Deserialize database row to Tournament
+   */
+  private deserialize(row: TournamentRow): Tournament {
+    return {
+      tournamentId: row.tournament_id,
+      name: row.name,
+      gameType: row.game_type,
+      format: row.format as TournamentFormat,
+      status: row.status as TournamentStatus,
+      createdBy: row.created_by,
+      participants: row.state.participants,
+      ...(row.state.totalRounds !== undefined && { totalRounds: row.state.totalRounds }),
+      rounds: row.state.rounds,
+      ...(row.state.customSettings !== undefined && {
+        customSettings: row.state.customSettings,
+      }),
+      winnerId: row.state.winnerId ?? null,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+
+  /**
+   * Store a new tournament
+   */
+  async create(tournament: Tournament): Promise<Tournament> {
+    const logger = getLogger();
+
+    try {
+      const result = await this.pool.query(
+        `INSERT INTO tournaments
+           (tournament_id, name, game_type, format, status, created_by, state, created_at, updated_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+         RETURNING *`,
+        [
+          tournament.tournamentId,
+          tournament.name,
+          tournament.gameType,
+          tournament.format,
+          tournament.status,
+          tournament.createdBy,
+          this.serializeState(tournament),
+          tournament.createdAt,
+          tournament.updatedAt,
+        ]
+      );
+      return this.deserialize(result.rows[0]);
+    } catch (error) {
+      logger.error('Failed to create tournament', {
+        tournamentId: tournament.tournamentId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Find a tournament by ID
+   */
+  async findById(tournamentId: string): Promise<Tournament | null> {
+    const logger = getLogger();
+
+    try {
+      const result = await this.pool.query('SELECT * FROM tournaments WHERE tournament_id = $1', [
+        tournamentId,
+      ]);
+      return result.rows.length > 0 ? this.deserialize(result.rows[0]) : null;
+    } catch (error) {
+      logger.error('Failed to find tournament', {
+        tournamentId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Find tournaments, newest first
+   */
+  async findAll(status?: TournamentStatus): Promise<Tournament[]> {
+    const logger = getLogger();
+
+    let query = 'SELECT * FROM tournaments';
+    const params: string[] = [];
+
+    if (status) {
+      query += ' WHERE status = $1';
+      params.push(status);
+    }
+
+    query += ' ORDER BY created_at DESC';
+
+    try {
+      const result = await this.pool.query(query, params);
+      return result.rows.map((row) => this.deserialize(row));
+    } catch (error) {
+      logger.error('Failed to list tournaments', {
+        status,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Replace a stored tournament
+   */
+  async update(tournament: Tournament): Promise<Tournament> {
+    const logger = getLogger();
+
+    try {
+      const result = await this.pool.query(
+        `UPDATE tournaments
+         SET status = $2, state = $3, updated_at = $4
+         WHERE tournament_id = $1
+         RETURNING *`,
+        [
+          tournament.tournamentId,
+          tournament.status,
+          this.serializeState(tournament),
+          tournament.updatedAt,
+        ]
+      );
+      if (result.rows.length === 0) {
+        throw new Error(`Tournament ${tournament.tournamentId} not found`);
+      }
+      return this.deserialize(result.rows[0]);
+    } catch (error) {
+      logger.error('Failed to update tournament', {
+        tournamentId: tournament.tournamentId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Close the database connection pool
+   */
+  async close(): Promise<void> {
+    await this.pool.end();
+  }
+}
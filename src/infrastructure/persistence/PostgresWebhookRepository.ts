@@ -0,0 +1,294 @@
+/**
+ * PostgreSQL implementation of IWebhookRepository
+ * Webhooks live in the webhooks table and their deliveries in webhook_deliveries,
+ * so pending deliveries are retried after a restart.
+ */
+
+import { Pool, PoolConfig } from 'pg';
+import { IWebhookRepository } from '@domain/interfaces/IWebhookRepository';
+import {
+  Webhook,
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  WebhookEvent,
+  WebhookEventType,
+} from '@domain/models';
+import { getLogger } from '../logging/Logger';
+
+interface WebhookRow {
+  webhook_id: string;
+  owner_id: string;
+  url: string;
+  secret: string;
+  event_types: string[];
+  game_id: string | null;
+  game_type: string | null;
+  created_at: Date;
+}
+
+interface WebhookDeliveryRow {
+  delivery_id: string;
+  webhook_id: string;
+  event: Omit<WebhookEvent, 'occurredAt'> & { occurredAt: string };
+  status: string;
+  attempts: number;
+  next_attempt_at: Date | null;
+  last_status_code: number | null;
+  last_error: string | null;
+  created_at: Date;
+  delivered_at: Date | null;
+}
+
+export class PostgresWebhookRepository implements IWebhookRepository {
+  private pool: Pool;
+
+  constructor(connectionString: string, poolSize: number = 10) {
+    const poolConfig: PoolConfig = {
+      connectionString,
+      max: poolSize,
+      idleTimeoutMillis: 10000,
+      connectionTimeoutMillis: 30000,
+    };
+
+    this.pool = new Pool(poolConfig);
+
+    this.pool.on('error', (err) => {
+      const logger = getLogger();
+      logger.error('Unexpected error on idle database client', {
+        error: err.message,
+        stack: err.stack,
+      });
+    });
+  }
+
+  /**
+   * Deserialize database row to Webhook
+   */
+  private deserializeWebhook(row: WebhookRow): Webhook {
+    return {
+      webhookId: row.webhook_id,
+      ownerId: row.owner_id,
+      url: row.url,
+      secret: row.secret,
+      eventTypes: row.event_types as WebhookEventType[],
+      ...(row.game_id && { gameId: row.game_id }),
+      ...(row.game_type && { gameType: row.game_type }),
+      createdAt: new Date(row.created_at),
+    };
+  }
+
+  /**
+   * Deserialize database row to WebhookDelivery
+   */
+  private deserializeDelivery(row: WebhookDeliveryRow): WebhookDelivery {
+    return {
+      deliveryId: row.delivery_id,
+      webhookId: row.webhook_id,
+      event: { ...row.event, occurredAt: new Date(row.event.occurredAt) },
+      status: row.status as WebhookDeliveryStatus,
+      attempts: row.attempts,
+      nextAttemptAt: row.next_attempt_at ? new Date(row.next_attempt_at) : null,
+      ...(row.last_status_code !== null && { lastStatusCode: row.last_status_code }),
+      ...(row.last_error !== null && { lastError: row.last_error }),
+      createdAt: new Date(row.created_at),
+      ...(row.delivered_at && { deliveredAt: new Date(row.delivered_at) }),
+    };
+  }
+
+  /**
+   * Store a new webhook
+   */
+  async create(webhook: Webhook): Promise<Webhook> {
+    const logger = getLogger();
+    try {
+      await this.pool.query(
+        `INSERT INTO webhooks (webhook_id, owner_id, url, secret, event_types, game_id, game_type, created_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+        [
+          webhook.webhookId,
+          webhook.ownerId,
+          webhook.url,
+          webhook.secret,
+          webhook.eventTypes,
+          webhook.gameId ?? null,
+          webhook.gameType ?? null,
+          webhook.createdAt,
+        ]
+      );
+      return webhook;
+    } catch (error) {
+      logger.error('Failed to create webhook', {
+        webhookId: webhook.webhookId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Find a webhook by its ID
+   */
+  async findById(webhookId: string): Promise<Webhook | null> {
+    const logger = getLogger();
+    try {
+      const result = await this.pool.query<WebhookRow>(
+        'SELECT * FROM webhooks WHERE webhook_id = $1',
+        [webhookId]
+      );
+      return result.rows.length > 0 ? this.deserializeWebhook(result.rows[0]) : null;
+    } catch (error) {
+      logger.error('Failed to find webhook', {
+        webhookId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get webhooks, oldest first
+   */
+  async findAll(ownerId?: string): Promise<Webhook[]> {
+    const logger = getLogger();
+    try {
+      const result = ownerId
+        ? await this.pool.query<WebhookRow>(
+            'SELECT * FROM webhooks WHERE owner_id = $1 ORDER BY created_at ASC',
+            [ownerId]
+          )
+        : await this.pool.query<WebhookRow>('SELECT * FROM webhooks ORDER BY created_at ASC');
+      return result.rows.map((row) => this.deserializeWebhook(row));
+    } catch (error) {
+      logger.error('Failed to find webhooks', {
+        ownerId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get the webhooks that want an event, oldest first
+   */
+  async findForEvent(type: WebhookEventType, gameId: string, gameType: string): Promise<Webhook[]> {
+    const logger = getLogger();
+    try {
+      const result = await this.pool.query<WebhookRow>(
+        `SELECT * FROM webhooks
+         WHERE event_types @> ARRAY[$1]::text[]
+           AND (game_id IS NULL OR game_id = $2)
+           AND (game_type IS NULL OR game_type = $3)
+         ORDER BY created_at ASC`,
+        [type, gameId, gameType]
+      );
+      return result.rows.map((row) => this.deserializeWebhook(row));
+    } catch (error) {
+      logger.error('Failed to find webhooks for event', {
+        type,
+        gameId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a webhook; its deliveries are removed by the foreign key cascade
+   */
+  async delete(webhookId: string): Promise<void> {
+    const logger = getLogger();
+    try {
+      await this.pool.query('DELETE FROM webhooks WHERE webhook_id = $1', [webhookId]);
+    } catch (error) {
+      logger.error('Failed to delete webhook', {
+        webhookId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Store a delivery, replacing any earlier version of it
+   */
+  async saveDelivery(delivery: WebhookDelivery): Promise<void> {
+    const logger = getLogger();
+    try {
+      await this.pool.query(
+        `INSERT INTO webhook_deliveries (delivery_id, webhook_id, event, status, attempts, next_attempt_at, last_status_code, last_error, created_at, delivered_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+         ON CONFLICT (delivery_id) DO UPDATE SET status = EXCLUDED.status, attempts = EXCLUDED.attempts, next_attempt_at = EXCLUDED.next_attempt_at, last_status_code = EXCLUDED.last_status_code, last_error = EXCLUDED.last_error, delivered_at = EXCLUDED.delivered_at`,
+        [
+          delivery.deliveryId,
+          delivery.webhookId,
+          JSON.stringify(delivery.event),
+          delivery.status,
+          delivery.attempts,
+          delivery.nextAttemptAt,
+          delivery.lastStatusCode ?? null,
+          delivery.lastError ?? null,
+          delivery.createdAt,
+          delivery.deliveredAt ?? null,
+        ]
+      );
+    } catch (error) {
+      logger.error('Failed to save webhook delivery', {
+        deliveryId: delivery.deliveryId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get pending deliveries whose next attempt is due, earliest first
+   */
+  async findDueDeliveries(now: Date, limit: number): Promise<WebhookDelivery[]> {
+    const logger = getLogger();
+    try {
+      const result = await this.pool.query<WebhookDeliveryRow>(
+        `SELECT * FROM webhook_deliveries
+         WHERE status = $1 AND next_attempt_at <= $2
+         ORDER BY next_attempt_at ASC
+         LIMIT $3`,
+        [WebhookDeliveryStatus.PENDING, now, limit]
+      );
+      return result.rows.map((row) => this.deserializeDelivery(row));
+    } catch (error) {
+      logger.error('Failed to find due webhook deliveries', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get a webhook's deliveries, newest first
+   */
+  async findDeliveries(webhookId: string, limit: number): Promise<WebhookDelivery[]> {
+    const logger = getLogger();
+    try {
+      const result = await this.pool.query<WebhookDeliveryRow>(
+        `SELECT * FROM webhook_deliveries
+         WHERE webhook_id = $1
+         ORDER BY created_at DESC
+         LIMIT $2`,
+        [webhookId, limit]
+      );
+      return result.rows.map((row) => this.deserializeDelivery(row));
+    } catch (error) {
+      logger.error('Failed to find webhook deliveries', {
+        webhookId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Close the database connection pool
+   */
+  async close(): Promise<void> {
+    await this.pool.end();
+  }
+}
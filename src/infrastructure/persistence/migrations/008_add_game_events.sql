@@ -0,0 +1,7 @@
+CREATE TABLE IF NOT EXISTS game_events (game_id VARCHAR(255) NOT NULL REFERENCES games(game_id) ON DELETE CASCADE, sequence INTEGER NOT NULL, event_type VARCHAR(50) NOT NULL, move_number INTEGER NOT NULL, payload JSONB NOT NULL, created_at TIMESTAMP NOT NULL DEFAULT NOW(), PRIMARY KEY (game_id, sequence));
+
+CREATE INDEX IF NOT EXISTS idx_game_events_move ON game_events(game_id, move_number);
+
+CREATE TABLE IF NOT EXISTS game_snapshots (game_id VARCHAR(255) NOT NULL REFERENCES games(game_id) ON DELETE CASCADE, move_number INTEGER NOT NULL, sequence INTEGER NOT NULL, state JSONB NOT NULL, created_at TIMESTAMP NOT NULL DEFAULT NOW(), PRIMARY KEY (game_id, move_number));
+
+INSERT INTO schema_migrations (version) VALUES (8) ON CONFLICT (version) DO NOTHING;
@@ -0,0 +1,9 @@
+CREATE TABLE IF NOT EXISTS player_ratings (user_id VARCHAR(255) NOT NULL, game_type VARCHAR(100) NOT NULL, rating DOUBLE PRECISION NOT NULL, deviation DOUBLE PRECISION NOT NULL, volatility DOUBLE PRECISION NOT NULL, games_played INTEGER NOT NULL DEFAULT 0, updated_at TIMESTAMP NOT NULL DEFAULT NOW(), PRIMARY KEY (user_id, game_type));
+
+CREATE INDEX IF NOT EXISTS idx_player_ratings_game_type ON player_ratings(game_type, rating DESC);
+
+CREATE TABLE IF NOT EXISTS rating_history (game_id VARCHAR(255) NOT NULL REFERENCES games(game_id) ON DELETE CASCADE, user_id VARCHAR(255) NOT NULL, game_type VARCHAR(100) NOT NULL, rating DOUBLE PRECISION NOT NULL, deviation DOUBLE PRECISION NOT NULL, rating_change DOUBLE PRECISION NOT NULL, created_at TIMESTAMP NOT NULL DEFAULT NOW(), PRIMARY KEY (game_id, user_id));
+
+CREATE INDEX IF NOT EXISTS idx_rating_history_user ON rating_history(user_id, created_at);
+
+INSERT INTO schema_migrations (version) VALUES (9) ON CONFLICT (version) DO NOTHING;
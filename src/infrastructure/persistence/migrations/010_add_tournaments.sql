@@ -0,0 +1,5 @@
+CREATE TABLE IF NOT EXISTS tournaments (tournament_id VARCHAR(255) PRIMARY KEY, name VARCHAR(255) NOT NULL, game_type VARCHAR(100) NOT NULL, format VARCHAR(50) NOT NULL, status VARCHAR(50) NOT NULL, created_by VARCHAR(255) NOT NULL, state JSONB NOT NULL, created_at TIMESTAMP NOT NULL DEFAULT NOW(), updated_at TIMESTAMP NOT NULL DEFAULT NOW());
+
+CREATE INDEX IF NOT EXISTS idx_tournaments_status ON tournaments(status, created_at DESC);
+
+INSERT INTO schema_migrations (version) VALUES (10) ON CONFLICT (version) DO NOTHING;
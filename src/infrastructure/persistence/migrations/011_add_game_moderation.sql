@@ -0,0 +1,13 @@
+ALTER TABLE games ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP;
+
+ALTER TABLE games ADD COLUMN IF NOT EXISTS deleted_by VARCHAR(255);
+
+ALTER TABLE games ADD COLUMN IF NOT EXISTS deletion_reason TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_games_deleted_at ON games(deleted_at) WHERE deleted_at IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS game_moderation_log (entry_id VARCHAR(255) PRIMARY KEY, game_id VARCHAR(255) NOT NULL REFERENCES games(game_id) ON DELETE CASCADE, action VARCHAR(50) NOT NULL, actor_id VARCHAR(255) NOT NULL, as_admin BOOLEAN NOT NULL DEFAULT FALSE, reason TEXT, details JSONB NOT NULL DEFAULT '{}', created_at TIMESTAMP NOT NULL DEFAULT NOW());
+
+CREATE INDEX IF NOT EXISTS idx_game_moderation_log_game ON game_moderation_log(game_id, created_at);
+
+INSERT INTO schema_migrations (version) VALUES (11) ON CONFLICT (version) DO NOTHING;
@@ -0,0 +1,7 @@
+CREATE TABLE IF NOT EXISTS ai_players (id VARCHAR(255) PRIMARY KEY, name VARCHAR(255) NOT NULL, game_type VARCHAR(100) NOT NULL, strategy_id VARCHAR(100) NOT NULL, difficulty VARCHAR(50), configuration JSONB, created_at TIMESTAMP NOT NULL DEFAULT NOW());
+
+CREATE INDEX IF NOT EXISTS idx_ai_players_game_type ON ai_players(game_type);
+
+CREATE INDEX IF NOT EXISTS idx_ai_players_strategy ON ai_players(strategy_id);
+
+INSERT INTO schema_migrations (version) VALUES (12) ON CONFLICT (version) DO NOTHING;
@@ -0,0 +1,7 @@
+ALTER TABLE player_profiles ADD COLUMN IF NOT EXISTS notification_preferences JSONB;
+
+ALTER TABLE turn_notifications ADD COLUMN IF NOT EXISTS channel VARCHAR(20) NOT NULL DEFAULT 'in-app';
+
+CREATE INDEX IF NOT EXISTS idx_notifications_channel_status ON turn_notifications(channel, status, created_at);
+
+INSERT INTO schema_migrations (version) VALUES (13) ON CONFLICT (version) DO NOTHING;
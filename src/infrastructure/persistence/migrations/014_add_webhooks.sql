@@ -0,0 +1,11 @@
+CREATE TABLE IF NOT EXISTS webhooks (webhook_id VARCHAR(255) PRIMARY KEY, owner_id VARCHAR(255) NOT NULL, url TEXT NOT NULL, secret VARCHAR(255) NOT NULL, event_types TEXT[] NOT NULL, game_id VARCHAR(255), game_type VARCHAR(100), created_at TIMESTAMP NOT NULL DEFAULT NOW());
+
+CREATE INDEX IF NOT EXISTS idx_webhooks_owner ON webhooks(owner_id);
+
+CREATE TABLE IF NOT EXISTS webhook_deliveries (delivery_id VARCHAR(255) PRIMARY KEY, webhook_id VARCHAR(255) NOT NULL REFERENCES webhooks(webhook_id) ON DELETE CASCADE, event JSONB NOT NULL, status VARCHAR(20) NOT NULL, attempts INTEGER NOT NULL DEFAULT 0, next_attempt_at TIMESTAMP, last_status_code INTEGER, last_error TEXT, created_at TIMESTAMP NOT NULL DEFAULT NOW(), delivered_at TIMESTAMP);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries(status, next_attempt_at);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_webhook ON webhook_deliveries(webhook_id, created_at DESC);
+
+INSERT INTO schema_migrations (version) VALUES (14) ON CONFLICT (version) DO NOTHING;
@@ -0,0 +1,5 @@
+CREATE INDEX IF NOT EXISTS idx_webhooks_event_types ON webhooks USING GIN (event_types);
+
+CREATE INDEX IF NOT EXISTS idx_webhooks_game ON webhooks(game_id) WHERE game_id IS NOT NULL;
+
+INSERT INTO schema_migrations (version) VALUES (15) ON CONFLICT (version) DO NOTHING;
@@ -0,0 +1,7 @@
+ALTER TABLE games ADD COLUMN IF NOT EXISTS turn_due_at TIMESTAMP;
+
+UPDATE games SET turn_due_at = CASE WHEN EXISTS (SELECT 1 FROM jsonb_array_elements(state->'players') AS player WHERE player->>'id' = state->'metadata'->'clock'->>'turnPlayerId' AND player->'metadata' ? 'aiTakeover') THEN (state->'metadata'->'clock'->>'turnStartedAt')::timestamptz ELSE (state->'metadata'->'clock'->>'deadline')::timestamptz END WHERE lifecycle = 'active' AND state->'metadata' ? 'clock' AND turn_due_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_games_turn_due_at ON games(turn_due_at) WHERE turn_due_at IS NOT NULL AND deleted_at IS NULL;
+
+INSERT INTO schema_migrations (version) VALUES (16) ON CONFLICT (version) DO NOTHING;
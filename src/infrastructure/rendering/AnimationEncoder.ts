@@ -0,0 +1,318 @@
+import { deflateSync } from 'zlib';
+import { RasterImage } from './Rasterizer';
+
+/**
+ * Incrementally builds an animation one frame at a time
+ * All frames must share the size of the first frame.
+ */
+export interface AnimationEncoder {
+  addFrame(image: RasterImage): void;
+  finish(): Buffer;
+}
+
+/**
+ * Animated GIF encoder that loops forever
+ * Each frame gets its own palette; frames with more than 256 colours are
+ * reduced to a 6x6x6 colour cube.
+ */
+export class GifEncoder implements AnimationEncoder {
+  private chunks: Buffer[] = [];
+  private width = 0;
+  private height = 0;
+
+  constructor(private readonly frameDelayMs: number) {}
+
+  addFrame(image: RasterImage): void {
+    if (this.chunks.length === 0) {
+      this.width = image.width;
+      this.height = image.height;
+      this.chunks.push(this.header());
+    }
+    assertFrameSize(image, this.width, this.height);
+
+    const { palette, indices } = indexColors(image);
+    const colorBits = Math.max(1, Math.ceil(Math.log2(palette.length / 3)));
+    const table = Buffer.alloc(3 * (1 << colorBits));
+    palette.forEach((value, i) => (table[i] = value));
+    const minCodeSize = Math.max(2, colorBits);
+    const delay = Math.round(this.frameDelayMs / 10);
+
+    this.chunks.push(
+      // Graphic control extension with the frame delay in hundredths of a second
+      Buffer.from([0x21, 0xf9, 0x04, 0x00, delay & 0xff, (delay >> 8) & 0xff, 0x00, 0x00]),
+      // Image descriptor with a local colour table
+      Buffer.from([
+        0x2c,
+        0,
+        0,
+        0,
+        0,
+        this.width & 0xff,
+        (this.width >> 8) & 0xff,
+        this.height & 0xff,
+        (this.height >> 8) & 0xff,
+        0x80 | (colorBits - 1),
+      ]),
+      table,
+      Buffer.from([minCodeSize]),
+      toSubBlocks(lzwEncode(indices, minCodeSize))
+    );
+  }
+
+  finish(): Buffer {
+    return Buffer.concat([...this.chunks, Buffer.from([0x3b])]);
+  }
+
+  private header(): Buffer {
+    return Buffer.concat([
+      Buffer.from('GIF89a', 'ascii'),
+      // Logical screen descriptor without a global colour table
+      Buffer.from([
+        this.width & 0xff,
+        (this.width >> 8) & 0xff,
+        this.height & 0xff,
+        (this.height >> 8) & 0xff,
+        0x00,
+        0x00,
+        0x00,
+      ]),
+      // NETSCAPE2.0 application extension: loop forever
+      Buffer.from([0x21, 0xff, 0x0b]),
+      Buffer.from('NETSCAPE2.0', 'ascii'),
+      Buffer.from([0x03, 0x01, 0x00, 0x00, 0x00]),
+    ]);
+  }
+}
+
+/**
+ * Animated PNG encoder that loops forever
+ * Frames are stored as full-size truecolour images.
+ */
+export class ApngEncoder implements AnimationEncoder {
+  private frames: Buffer[] = [];
+  private sequence = 0;
+  private width = 0;
+  private height = 0;
+
+  constructor(private readonly frameDelayMs: number) {}
+
+  addFrame(image: RasterImage): void {
+    if (this.frames.length === 0) {
+      this.width = image.width;
+      this.height = image.height;
+    }
+    assertFrameSize(image, this.width, this.height);
+
+    const fctl = Buffer.alloc(26);
+    fctl.writeUInt32BE(this.sequence++, 0);
+    fctl.writeUInt32BE(this.width, 4);
+    fctl.writeUInt32BE(this.height, 8);
+    // x/y offsets stay 0
+    fctl.writeUInt16BE(Math.round(this.frameDelayMs), 20);
+    fctl.writeUInt16BE(1000, 22);
+    // dispose_op and blend_op stay 0 (none, source)
+
+    const compressed = deflateSync(toScanlines(image));
+    if (this.frames.length === 0) {
+      this.frames.push(pngChunk('fcTL', fctl), pngChunk('IDAT', compressed));
+    } else {
+      const sequence = Buffer.alloc(4);
+      sequence.writeUInt32BE(this.sequence++, 0);
+      this.frames.push(
+        pngChunk('fcTL', fctl),
+        pngChunk('fdAT', Buffer.concat([sequence, compressed]))
+      );
+    }
+  }
+
+  finish(): Buffer {
+    const ihdr = Buffer.alloc(13);
+    ihdr.writeUInt32BE(this.width, 0);
+    ihdr.writeUInt32BE(this.height, 4);
+    ihdr[8] = 8; // bit depth
+    ihdr[9] = 6; // RGBA
+
+    const actl = Buffer.alloc(8);
+    actl.writeUInt32BE(this.frames.length / 2, 0);
+    // num_plays stays 0: loop forever
+
+    return Buffer.concat([
+      Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+      pngChunk('IHDR', ihdr),
+      pngChunk('acTL', actl),
+      ...this.frames,
+      pngChunk('IEND', Buffer.alloc(0)),
+    ]);
+  }
+}
+
+function assertFrameSize(image: RasterImage, width: number, height: number): void {
+  if (image.width !== width || image.height !== height) {
+    throw new Error(
+      `Animation frames must all be ${width}x${height}, got ${image.width}x${image.height}`
+    );
+  }
+}
+
+/**
+ * Map a frame's pixels to palette indices
+ */
+function indexColors(image: RasterImage): { palette: number[]; indices: Uint8Array } {
+  const pixelCount = image.width * image.height;
+  const indices = new Uint8Array(pixelCount);
+  const lookup = new Map<number, number>();
+  const palette: number[] = [];
+
+  for (let i = 0; i < pixelCount; i++) {
+    const r = image.data[i * 4];
+    const g = image.data[i * 4 + 1];
+    const b = image.data[i * 4 + 2];
+    const key = (r << 16) | (g << 8) | b;
+    let index = lookup.get(key);
+    if (index === undefined) {
+      if (lookup.size === 256) {
+        return quantize(image);
+      }
+      index = lookup.size;
+      lookup.set(key, index);
+      palette.push(r, g, b);
+    }
+    indices[i] = index;
+  }
+
+  return { palette, indices };
+}
+
+/**
+ * Reduce a frame to a 6x6x6 colour cube
+ */
+function quantize(image: RasterImage): { palette: number[]; indices: Uint8Array } {
+  const palette: number[] = [];
+  for (let r = 0; r < 6; r++) {
+    for (let g = 0; g < 6; g++) {
+      for (let b = 0; b < 6; b++) {
+        palette.push(r * 51, g * 51, b * 51);
+      }
+    }
+  }
+
+  const pixelCount = image.width * image.height;
+  const indices = new Uint8Array(pixelCount);
+  const level = (value: number): number => Math.round(value / 51);
+  for (let i = 0; i < pixelCount; i++) {
+    indices[i] =
+      level(image.data[i * 4]) * 36 +
+      level(image.data[i * 4 + 1]) * 6 +
+      level(image.data[i * 4 + 2]);
+  }
+
+  return { palette, indices };
+}
+
+/**
+ * Compress palette indices with GIF's variable-width LZW
+ */
+function lzwEncode(indices: Uint8Array, minCodeSize: number): Buffer {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const output: number[] = [];
+  let buffer = 0;
+  let bufferBits = 0;
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  let table = new Map<number, number>();
+
+  const emit = (code: number): void => {
+    buffer |= code << bufferBits;
+    bufferBits += codeSize;
+    while (bufferBits >= 8) {
+      output.push(buffer & 0xff);
+      buffer >>= 8;
+      bufferBits -= 8;
+    }
+  };
+
+  emit(clearCode);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const index = indices[i];
+    const key = (prefix << 8) | index;
+    const code = table.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+
+    emit(prefix);
+    if (nextCode === 4096) {
+      emit(clearCode);
+      table = new Map();
+      nextCode = endCode + 1;
+      codeSize = minCodeSize + 1;
+    } else {
+      if (nextCode >= 1 << codeSize) {
+        codeSize++;
+      }
+      table.set(key, nextCode++);
+    }
+    prefix = index;
+  }
+
+  emit(prefix);
+  emit(endCode);
+  if (bufferBits > 0) {
+    output.push(buffer & 0xff);
+  }
+
+  return Buffer.from(output);
+}
+
+/**
+ * Split image data into length-prefixed sub-blocks of at most 255 bytes
+ */
+function toSubBlocks(data: Buffer): Buffer {
+  const blocks: Buffer[] = [];
+  for (let offset = 0; offset < data.length; offset += 255) {
+    const block = data.subarray(offset, offset + 255);
+    blocks.push(Buffer.from([block.length]), block);
+  }
+  blocks.push(Buffer.from([0x00]));
+  return Buffer.concat(blocks);
+}
+
+/**
+ * Prefix each row of RGBA pixels with PNG filter type 0
+ */
+function toScanlines(image: RasterImage): Buffer {
+  const rowBytes = image.width * 4;
+  const scanlines = Buffer.alloc((rowBytes + 1) * image.height);
+  for (let y = 0; y < image.height; y++) {
+    scanlines.set(image.data.subarray(y * rowBytes, (y + 1) * rowBytes), y * (rowBytes + 1) + 1);
+  }
+  return scanlines;
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length, 0);
+  const body = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body), 0);
+  return Buffer.concat([length, body, crc]);
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
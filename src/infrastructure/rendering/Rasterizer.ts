@@ -0,0 +1,495 @@
+import { BoardRenderData, RenderElement } from '@domain/interfaces';
+import { GLYPH_ASCENT, GLYPH_HEIGHT, GLYPH_WIDTH, getGlyph } from './BitmapFont';
+
+/**
+ * An opaque RGBA bitmap
+ */
+export interface RasterImage {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+type Color = [number, number, number];
+type Point = [number, number];
+
+const NAMED_COLORS: Record<string, Color> = {
+  black: [0, 0, 0],
+  white: [255, 255, 255],
+  red: [255, 0, 0],
+  green: [0, 128, 0],
+  blue: [0, 0, 255],
+  yellow: [255, 255, 0],
+  orange: [255, 165, 0],
+  purple: [128, 0, 128],
+  gray: [128, 128, 128],
+  grey: [128, 128, 128],
+  silver: [192, 192, 192],
+  gold: [255, 215, 0],
+  brown: [165, 42, 42],
+};
+
+/**
+ * Rasterise board render data into an RGBA bitmap
+ * Covers the subset of SVG produced by game renderers: rects (with rounded
+ * corners), circles, straight-line paths and text drawn with a bitmap font.
+ * Images are not drawn. Pixels are sampled at their centres without anti-aliasing,
+ * which keeps the palette small for GIF encoding.
+ *
+ * @param renderData Board render data; layers are drawn in z-index order
+ * @param size Output size, defaults to the render data's viewBox
+ */
+export function rasterize(
+  renderData: BoardRenderData,
+  size: { width: number; height: number } = renderData.viewBox
+): RasterImage {
+  const width = Math.max(1, Math.round(size.width));
+  const height = Math.max(1, Math.round(size.height));
+  const canvas = new Canvas(width, height);
+
+  canvas.fillRect(0, 0, width, height, [255, 255, 255], 1);
+  const background = parseColor(renderData.backgroundColor);
+  if (background) {
+    canvas.fillRect(0, 0, width, height, background, 1);
+  }
+
+  const layers = [...renderData.layers].sort((a, b) => a.zIndex - b.zIndex);
+  for (const layer of layers) {
+    for (const element of layer.elements) {
+      drawElement(canvas, element);
+    }
+  }
+
+  return { width, height, data: canvas.data };
+}
+
+/**
+ * Draw a single render element
+ */
+function drawElement(canvas: Canvas, element: RenderElement): void {
+  const attrs = element.attributes ?? {};
+  const opacity = number(attrs, ['opacity'], 1);
+  const fill = attr(attrs, ['fill']) ?? 'black';
+  const fillColor = parseColor(fill);
+  const fillAlpha = opacity * number(attrs, ['fill-opacity', 'fillOpacity'], 1);
+  const strokeColor = parseColor(attr(attrs, ['stroke']));
+  const strokeAlpha = opacity * number(attrs, ['stroke-opacity', 'strokeOpacity'], 1);
+  const strokeWidth = number(attrs, ['stroke-width', 'strokeWidth'], 1);
+
+  switch (element.type) {
+    case 'rect': {
+      const x = number(attrs, ['x'], 0);
+      const y = number(attrs, ['y'], 0);
+      const w = number(attrs, ['width'], 0);
+      const h = number(attrs, ['height'], 0);
+      const r = Math.min(number(attrs, ['rx', 'ry'], 0), w / 2, h / 2);
+      if (fillColor) {
+        canvas.fillShape(x, y, x + w, y + h, fillColor, fillAlpha, (px, py) =>
+          insideRoundedRect(px, py, x, y, w, h, r)
+        );
+      }
+      if (strokeColor && strokeWidth > 0) {
+        const half = strokeWidth / 2;
+        canvas.fillShape(
+          x - half,
+          y - half,
+          x + w + half,
+          y + h + half,
+          strokeColor,
+          strokeAlpha,
+          (px, py) =>
+            insideRoundedRect(
+              px,
+              py,
+              x - half,
+              y - half,
+              w + strokeWidth,
+              h + strokeWidth,
+              r + half
+            ) &&
+            !insideRoundedRect(
+              px,
+              py,
+              x + half,
+              y + half,
+              w - strokeWidth,
+              h - strokeWidth,
+              Math.max(r - half, 0)
+            )
+        );
+      }
+      return;
+    }
+    case 'circle': {
+      const cx = number(attrs, ['cx'], 0);
+      const cy = number(attrs, ['cy'], 0);
+      const r = number(attrs, ['r'], 0);
+      const distance = (px: number, py: number): number => Math.hypot(px - cx, py - cy);
+      if (fillColor) {
+        canvas.fillShape(
+          cx - r,
+          cy - r,
+          cx + r,
+          cy + r,
+          fillColor,
+          fillAlpha,
+          (px, py) => distance(px, py) <= r
+        );
+      }
+      if (strokeColor && strokeWidth > 0) {
+        const outer = r + strokeWidth / 2;
+        const inner = r - strokeWidth / 2;
+        canvas.fillShape(
+          cx - outer,
+          cy - outer,
+          cx + outer,
+          cy + outer,
+          strokeColor,
+          strokeAlpha,
+          (px, py) => {
+            const d = distance(px, py);
+            return d <= outer && d >= inner;
+          }
+        );
+      }
+      return;
+    }
+    case 'path': {
+      const subpaths = parsePath(String(attr(attrs, ['d']) ?? ''));
+      if (fillColor) {
+        canvas.fillPolygons(subpaths, fillColor, fillAlpha);
+      }
+      if (strokeColor && strokeWidth > 0) {
+        for (const subpath of subpaths) {
+          for (let i = 1; i < subpath.length; i++) {
+            canvas.fillPolygons(
+              [lineQuad(subpath[i - 1], subpath[i], strokeWidth)],
+              strokeColor,
+              strokeAlpha
+            );
+          }
+        }
+      }
+      return;
+    }
+    case 'text': {
+      const text = String(element.textContent ?? attr(attrs, ['text']) ?? '');
+      if (fillColor && text) {
+        drawText(canvas, text, attrs, fillColor, fillAlpha);
+      }
+      return;
+    }
+    default:
+      // Images and groups are not rasterised
+      return;
+  }
+}
+
+/**
+ * Draw text with the bitmap font, scaled to the element's font size
+ */
+function drawText(
+  canvas: Canvas,
+  text: string,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  attrs: Record<string, any>,
+  color: Color,
+  alpha: number
+): void {
+  const fontSize = number(attrs, ['font-size', 'fontSize'], 16);
+  // Capital letters are seven pixels tall, roughly 0.7em
+  const scale = fontSize / 10;
+  const bold = ['bold', '600', '700', '800', '900'].includes(
+    String(attr(attrs, ['font-weight', 'fontWeight']) ?? '')
+  );
+  const advance = (GLYPH_WIDTH + 1) * scale;
+  const chars = Array.from(text);
+  const textWidth = chars.length * advance - scale;
+
+  let x = number(attrs, ['x'], 0);
+  const anchor = attr(attrs, ['text-anchor', 'textAnchor']);
+  if (anchor === 'middle') {
+    x -= textWidth / 2;
+  } else if (anchor === 'end') {
+    x -= textWidth;
+  }
+
+  let top = number(attrs, ['y'], 0) - GLYPH_ASCENT * scale;
+  const baseline = attr(attrs, ['dominant-baseline', 'dominantBaseline']);
+  if (baseline === 'middle' || baseline === 'central') {
+    top += (GLYPH_ASCENT * scale) / 2;
+  } else if (baseline === 'hanging' || baseline === 'text-before-edge') {
+    top += GLYPH_ASCENT * scale;
+  }
+
+  for (const char of chars) {
+    const glyph = getGlyph(char);
+    if (glyph) {
+      for (let col = 0; col < GLYPH_WIDTH; col++) {
+        for (let row = 0; row < GLYPH_HEIGHT; row++) {
+          if (glyph[col] & (1 << row)) {
+            const px = x + col * scale;
+            const py = top + row * scale;
+            canvas.fillRect(px, py, px + scale + (bold ? scale / 2 : 0), py + scale, color, alpha);
+          }
+        }
+      }
+    }
+    x += advance;
+  }
+}
+
+/**
+ * Parse the straight-line commands of an SVG path (M, L, H, V, Z)
+ * Parsing stops at the first unsupported command.
+ */
+function parsePath(d: string): Point[][] {
+  const tokens = d.match(/[a-zA-Z]|-?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?/g) ?? [];
+  const subpaths: Point[][] = [];
+  let current: Point[] = [];
+  let x = 0;
+  let y = 0;
+  let startX = 0;
+  let startY = 0;
+  let command = '';
+  let i = 0;
+
+  const next = (): number => Number(tokens[i++]);
+
+  while (i < tokens.length) {
+    if (/^[a-zA-Z]$/.test(tokens[i])) {
+      command = tokens[i++];
+    } else if (!command) {
+      break;
+    }
+
+    const relative = command === command.toLowerCase();
+    switch (command.toUpperCase()) {
+      case 'M':
+        if (current.length > 0) {
+          subpaths.push(current);
+        }
+        x = next() + (relative ? x : 0);
+        y = next() + (relative ? y : 0);
+        startX = x;
+        startY = y;
+        current = [[x, y]];
+        // Further coordinate pairs after a move are implicit line-tos
+        command = relative ? 'l' : 'L';
+        break;
+      case 'L':
+        x = next() + (relative ? x : 0);
+        y = next() + (relative ? y : 0);
+        current.push([x, y]);
+        break;
+      case 'H':
+        x = next() + (relative ? x : 0);
+        current.push([x, y]);
+        break;
+      case 'V':
+        y = next() + (relative ? y : 0);
+        current.push([x, y]);
+        break;
+      case 'Z':
+        current.push([startX, startY]);
+        x = startX;
+        y = startY;
+        command = '';
+        break;
+      default:
+        i = tokens.length;
+    }
+
+    if (Number.isNaN(x) || Number.isNaN(y)) {
+      current = [];
+      break;
+    }
+  }
+
+  if (current.length > 0) {
+    subpaths.push(current);
+  }
+  return subpaths;
+}
+
+/**
+ * Build the quadrilateral covering a stroked line segment
+ */
+function lineQuad([x1, y1]: Point, [x2, y2]: Point, width: number): Point[] {
+  const length = Math.hypot(x2 - x1, y2 - y1) || 1;
+  const nx = (-(y2 - y1) / length) * (width / 2);
+  const ny = ((x2 - x1) / length) * (width / 2);
+  return [
+    [x1 + nx, y1 + ny],
+    [x2 + nx, y2 + ny],
+    [x2 - nx, y2 - ny],
+    [x1 - nx, y1 - ny],
+  ];
+}
+
+function insideRoundedRect(
+  px: number,
+  py: number,
+  x: number,
+  y: number,
+  w: number,
+  h: number,
+  r: number
+): boolean {
+  if (w <= 0 || h <= 0 || px < x || px > x + w || py < y || py > y + h) {
+    return false;
+  }
+  const cx = Math.min(Math.max(px, x + r), x + w - r);
+  const cy = Math.min(Math.max(py, y + r), y + h - r);
+  return Math.hypot(px - cx, py - cy) <= r;
+}
+
+/**
+ * Parse an SVG colour
+ * @returns The colour, or null for none, transparent and unrecognised values
+ */
+function parseColor(value: unknown): Color | null {
+  if (typeof value !== 'string') {
+    return null;
+  }
+  const color = value.trim().toLowerCase();
+
+  const hex = color.match(/^#([0-9a-f]{3}|[0-9a-f]{6})$/);
+  if (hex) {
+    const digits =
+      hex[1].length === 3
+        ? hex[1]
+            .split('')
+            .map((c) => c + c)
+            .join('')
+        : hex[1];
+    return [
+      parseInt(digits.slice(0, 2), 16),
+      parseInt(digits.slice(2, 4), 16),
+      parseInt(digits.slice(4, 6), 16),
+    ];
+  }
+
+  const rgb = color.match(/^rgba?\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)/);
+  if (rgb) {
+    return [Number(rgb[1]), Number(rgb[2]), Number(rgb[3])].map((c) => Math.min(c, 255)) as Color;
+  }
+
+  return NAMED_COLORS[color] ?? null;
+}
+
+/**
+ * Read the first present attribute from a list of alternative spellings
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function attr(attrs: Record<string, any>, names: string[]): any {
+  for (const name of names) {
+    if (attrs[name] !== undefined && attrs[name] !== null) {
+      return attrs[name];
+    }
+  }
+  return undefined;
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function number(attrs: Record<string, any>, names: string[], fallback: number): number {
+  const value = parseFloat(attr(attrs, names));
+  return Number.isFinite(value) ? value : fallback;
+}
+
+/**
+ * Opaque RGBA drawing surface that samples shapes at pixel centres
+ */
+class Canvas {
+  readonly data: Uint8Array;
+
+  constructor(
+    readonly width: number,
+    readonly height: number
+  ) {
+    this.data = new Uint8Array(width * height * 4);
+  }
+
+  fillRect(x0: number, y0: number, x1: number, y1: number, color: Color, alpha: number): void {
+    const left = Math.max(Math.round(x0), 0);
+    const right = Math.min(Math.round(x1), this.width);
+    const top = Math.max(Math.round(y0), 0);
+    const bottom = Math.min(Math.round(y1), this.height);
+    for (let py = top; py < bottom; py++) {
+      for (let px = left; px < right; px++) {
+        this.blend(px, py, color, alpha);
+      }
+    }
+  }
+
+  /**
+   * Fill the pixels within a bounding box whose centres pass a containment test
+   */
+  fillShape(
+    x0: number,
+    y0: number,
+    x1: number,
+    y1: number,
+    color: Color,
+    alpha: number,
+    contains: (px: number, py: number) => boolean
+  ): void {
+    const left = Math.max(Math.floor(x0), 0);
+    const right = Math.min(Math.ceil(x1), this.width);
+    const top = Math.max(Math.floor(y0), 0);
+    const bottom = Math.min(Math.ceil(y1), this.height);
+    for (let py = top; py < bottom; py++) {
+      for (let px = left; px < right; px++) {
+        if (contains(px + 0.5, py + 0.5)) {
+          this.blend(px, py, color, alpha);
+        }
+      }
+    }
+  }
+
+  /**
+   * Fill polygons with the even-odd rule using a scanline
+   */
+  fillPolygons(polygons: Point[][], color: Color, alpha: number): void {
+    const edges: [Point, Point][] = [];
+    for (const polygon of polygons) {
+      for (let i = 0; i < polygon.length; i++) {
+        edges.push([polygon[i], polygon[(i + 1) % polygon.length]]);
+      }
+    }
+    if (edges.length === 0) {
+      return;
+    }
+
+    const ys = edges.flatMap(([a, b]) => [a[1], b[1]]);
+    const top = Math.max(Math.floor(Math.min(...ys)), 0);
+    const bottom = Math.min(Math.ceil(Math.max(...ys)), this.height);
+
+    for (let py = top; py < bottom; py++) {
+      const scanY = py + 0.5;
+      const crossings: number[] = [];
+      for (const [[ax, ay], [bx, by]] of edges) {
+        if (ay <= scanY !== by <= scanY) {
+          crossings.push(ax + ((scanY - ay) / (by - ay)) * (bx - ax));
+        }
+      }
+      crossings.sort((a, b) => a - b);
+      for (let i = 0; i + 1 < crossings.length; i += 2) {
+        const left = Math.max(Math.ceil(crossings[i] - 0.5), 0);
+        const right = Math.min(Math.ceil(crossings[i + 1] - 0.5), this.width);
+        for (let px = left; px < right; px++) {
+          this.blend(px, py, color, alpha);
+        }
+      }
+    }
+  }
+
+  private blend(px: number, py: number, [r, g, b]: Color, alpha: number): void {
+    const offset = (py * this.width + px) * 4;
+    const a = Math.min(Math.max(alpha, 0), 1);
+    this.data[offset] = Math.round(this.data[offset] * (1 - a) + r * a);
+    this.data[offset + 1] = Math.round(this.data[offset + 1] * (1 - a) + g * a);
+    this.data[offset + 2] = Math.round(this.data[offset + 2] * (1 - a) + b * a);
+    this.data[offset + 3] = 255;
+  }
+}
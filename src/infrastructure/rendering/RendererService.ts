@@ -1,41 +1,152 @@
-import { GameState } from '@domain/models';
+import { GameState, GameLifecycle } from '@domain/models';
 import { BoardRenderData, RenderLayer, RenderElement } from '@domain/interfaces';
 import { PluginRegistry } from '@application/PluginRegistry';
 import { GameRepository } from '@domain/interfaces';
-import { GameNotFoundError } from '@domain/errors';
+import { GameNotFoundError, InvalidGameActionError } from '@domain/errors';
+import { toGameView } from '@domain/game-utils/GameView';
+import { GameReplayService } from '@application/services/GameReplayService';
+import { rasterize } from './Rasterizer';
+import { AnimationEncoder, ApngEncoder, GifEncoder } from './AnimationEncoder';
 
 /**
- * Service for rendering game boards as SVG images
+ * Animation formats for game replays
+ */
+export type ReplayFormat = 'gif' | 'apng';
+
+export const DEFAULT_FRAME_DELAY_MS = 1000;
+export const MIN_FRAME_DELAY_MS = 50;
+export const MAX_FRAME_DELAY_MS = 10000;
+
+// Default total pixels rasterised for one replay (about 40 one-megapixel frames)
+export const MAX_REPLAY_PIXELS = 40_000_000;
+
+// Number of encoded replays kept in memory
+const MAX_CACHED_REPLAYS = 50;
+
+// Space for metadata below the board
+const FRAME_PADDING = 40;
+
+/**
+ * Service for rendering game boards as SVG images and replay animations
  */
 export class RendererService {
+  // Encoded replays of finished games, oldest first
+  private readonly replayCache = new Map<string, Buffer>();
+
   constructor(
     private readonly pluginRegistry: PluginRegistry,
-    private readonly gameRepository: GameRepository
+    private readonly gameRepository: GameRepository,
+    private readonly gameReplayService?: GameReplayService,
+    private readonly maxReplayPixels: number = MAX_REPLAY_PIXELS
   ) {}
 
   /**
    * Render a game by its ID
+   * @param viewerId - The user viewing the board, or null for an anonymous viewer
    */
-  async renderGame(gameId: string): Promise<string> {
+  async renderGame(gameId: string, viewerId: string | null = null): Promise<string> {
     const gameState = await this.gameRepository.findById(gameId);
 
     if (!gameState) {
       throw new GameNotFoundError(gameId);
     }
 
-    return this.renderState(gameState);
+    return this.renderState(gameState, viewerId);
   }
 
   /**
    * Render a game state directly
+   * @param viewerId - The user viewing the board, or null for an anonymous viewer
    */
-  async renderState(state: GameState): Promise<string> {
-    const plugin = this.pluginRegistry.get(state.gameType);
+  async renderState(state: GameState, viewerId: string | null = null): Promise<string> {
+    const boardRenderData = this.getBoardRenderData(state, viewerId);
+
+    // Generate SVG
+    const svg = this.generateSVG(state, boardRenderData);
+
+    return svg;
+  }
+
+  /**
+   * Render the positions of a finished game as an animation, one frame per move
+   * Long games are shortened to stay within the pixel budget: positions are sampled
+   * evenly, always keeping the first and the last. Finished games no longer change,
+   * so each replay is encoded once per format, delay and view and then served from memory.
+   * @param gameId - The game ID
+   * @param format - Animation format
+   * @param frameDelayMs - How long each frame is shown
+   * @param viewerId - The user viewing the replay, or null for an anonymous viewer
+   * @returns The encoded animation
+   * @throws GameNotFoundError if game not found
+   * @throws InvalidGameActionError if the game has not finished
+   */
+  async renderReplay(
+    gameId: string,
+    format: ReplayFormat,
+    frameDelayMs: number = DEFAULT_FRAME_DELAY_MS,
+    viewerId: string | null = null
+  ): Promise<Buffer> {
+    if (!this.gameReplayService) {
+      throw new Error('Game history is not available for replays');
+    }
+
+    const game = await this.gameRepository.findById(gameId);
+    if (!game) {
+      throw new GameNotFoundError(gameId);
+    }
+    if (game.lifecycle !== GameLifecycle.COMPLETED && game.lifecycle !== GameLifecycle.ABANDONED) {
+      throw new InvalidGameActionError('export replay', `game is ${game.lifecycle}`);
+    }
+
+    // Players may see their own hidden information; everyone else shares the spectator view
+    const view = game.players.some((p) => p.id === viewerId) ? `player:${viewerId}` : 'spectator';
+    const cacheKey = `${gameId}:${game.version}:${format}:${frameDelayMs}:${view}`;
+    const cached = this.replayCache.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const states = await this.gameReplayService.getStateHistory(gameId);
+    const encoder: AnimationEncoder =
+      format === 'gif' ? new GifEncoder(frameDelayMs) : new ApngEncoder(frameDelayMs);
+
+    // Every frame uses the final position's size so boards that grow still line up
+    const finalRenderData = this.getBoardRenderData(states[states.length - 1], viewerId);
+    const size = {
+      width: finalRenderData.viewBox.width,
+      height: finalRenderData.viewBox.height + FRAME_PADDING,
+    };
+    const maxFrames = Math.max(2, Math.floor(this.maxReplayPixels / (size.width * size.height)));
+
+    for (const state of sampleFrames(states, maxFrames)) {
+      const renderData = this.getBoardRenderData(state, viewerId);
+      const frameLayer = this.createFrameLayer(state, renderData, renderData.viewBox.height);
+      encoder.addFrame(
+        rasterize({ ...renderData, layers: [...renderData.layers, frameLayer] }, size)
+      );
+    }
+
+    const animation = encoder.finish();
+    this.replayCache.set(cacheKey, animation);
+    if (this.replayCache.size > MAX_CACHED_REPLAYS) {
+      this.replayCache.delete(this.replayCache.keys().next().value!);
+    }
+    return animation;
+  }
+
+  /**
+   * Get board render data from the game's plugin, running its render hooks
+   * Only the part of the state the viewer may see is rendered.
+   */
+  private getBoardRenderData(fullState: GameState, viewerId: string | null): BoardRenderData {
+    const plugin = this.pluginRegistry.get(fullState.gameType);
 
     if (!plugin) {
-      throw new Error(`No plugin found for game type: ${state.gameType}`);
+      throw new Error(`No plugin found for game type: ${fullState.gameType}`);
     }
 
+    const state = toGameView(plugin, fullState, viewerId);
+
     // Call beforeRenderBoard hook if defined
     if (plugin.beforeRenderBoard) {
       plugin.beforeRenderBoard(state);
@@ -49,10 +160,7 @@ export class RendererService {
       plugin.afterRenderBoard(state, boardRenderData);
     }
 
-    // Generate SVG
-    const svg = this.generateSVG(state, boardRenderData);
-
-    return svg;
+    return boardRenderData;
   }
 
   /**
@@ -63,9 +171,8 @@ export class RendererService {
     const boardHeight = renderData.viewBox.height;
 
     // Add padding for frame metadata
-    const framePadding = 40; // Space for metadata below the board
     const totalWidth = boardWidth;
-    const totalHeight = boardHeight + framePadding;
+    const totalHeight = boardHeight + FRAME_PADDING;
 
     // Start SVG document with expanded dimensions
     let svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${totalWidth}" height="${totalHeight}" viewBox="0 0 ${totalWidth} ${totalHeight}">`;
@@ -263,3 +370,15 @@ export class RendererService {
       .replace(/'/g, '&apos;');
   }
 }
+
+/**
+ * Pick at most maxFrames positions spread evenly over a game, keeping the first and the last
+ */
+function sampleFrames(states: GameState[], maxFrames: number): GameState[] {
+  if (states.length <= maxFrames) {
+    return states;
+  }
+
+  const step = (states.length - 1) / (maxFrames - 1);
+  return Array.from({ length: maxFrames }, (_, i) => states[Math.round(i * step)]);
+}
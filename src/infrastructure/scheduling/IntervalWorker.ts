@@ -0,0 +1,84 @@
+import { Logger } from '../logging/Logger';
+
+/**
+ * Run a callback once after a delay without keeping the process alive
+ * Background timers must never hold up a shutdown: once the server stops, whatever
+ * they were waiting for no longer matters.
+ * @returns The timer, so the caller can cancel it
+ */
+export function setBackgroundTimeout(callback: () => void, delayMs: number): NodeJS.Timeout {
+  const timer = setTimeout(callback, delayMs);
+  timer.unref();
+  return timer;
+}
+
+/**
+ * Runs a background pass on a fixed interval
+ * The timer does not keep the process alive (see setBackgroundTimeout), and passes never
+ * overlap: a pass that starts while the previous one is still running is skipped, so
+ * a slow pass cannot pile up behind itself. Failed passes are logged and the next
+ * interval tries again.
+ */
+export class IntervalWorker {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  /**
+   * @param logger - Logger for failed passes
+   * @param failureMessage - Message logged when a pass throws, e.g. "Matchmaking pass failed"
+   */
+  constructor(
+    private logger: Logger,
+    private failureMessage: string
+  ) {}
+
+  /**
+   * Start running a pass on a fixed interval
+   * Does nothing if the worker is already started.
+   * @param intervalMs - Time between passes
+   * @param pass - The pass to run, usually one that goes through runExclusive
+   */
+  start(intervalMs: number, pass: () => Promise<unknown>): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      pass().catch((error) => {
+        this.logger.error(this.failureMessage, {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
+    }, intervalMs);
+    this.timer.unref();
+  }
+
+  /**
+   * Stop running passes
+   * A pass that is already in progress is left to finish.
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Run a pass unless another one is still in progress
+   * @param pass - The pass to run
+   * @param skipped - Result returned when the pass is skipped
+   */
+  async runExclusive<T>(pass: () => Promise<T>, skipped: T): Promise<T> {
+    if (this.running) {
+      return skipped;
+    }
+
+    this.running = true;
+    try {
+      return await pass();
+    } finally {
+      this.running = false;
+    }
+  }
+}
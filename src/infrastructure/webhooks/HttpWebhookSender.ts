@@ -0,0 +1,53 @@
+import { request as httpRequest } from 'http';
+import { request as httpsRequest } from 'https';
+import { IWebhookSender, WebhookResponse } from '@domain/interfaces';
+import { WebhookHostPolicy } from './WebhookHostPolicy';
+
+/**
+ * Posts webhook payloads over HTTP(S)
+ * Redirects are not followed, so an endpoint cannot bounce a signed payload elsewhere.
+ * Hosts the policy refuses are never connected to, including when their DNS
+ * changes after the webhook was registered.
+ */
+export class HttpWebhookSender implements IWebhookSender {
+  constructor(
+    private hostPolicy: WebhookHostPolicy,
+    private timeoutMs: number = 10000
+  ) {}
+
+  /**
+   * POST a JSON body to a URL
+   * @throws Error if the host is refused, or no response arrived within the timeout
+   */
+  async post(url: string, body: string, headers: Record<string, string>): Promise<WebhookResponse> {
+    const target = new URL(url);
+    const refusal = await this.hostPolicy.check(target.hostname);
+    if (refusal) {
+      throw new Error(`Refused to send webhook: ${refusal}`);
+    }
+
+    const send = target.protocol === 'https:' ? httpsRequest : httpRequest;
+    return new Promise((resolve, reject) => {
+      const request = send(
+        target,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Content-Length': Buffer.byteLength(body),
+            ...headers,
+          },
+          lookup: this.hostPolicy.lookup,
+          signal: AbortSignal.timeout(this.timeoutMs),
+        },
+        (response) => {
+          // Drain the body so the connection can be reused
+          response.resume();
+          resolve({ statusCode: response.statusCode ?? 0 });
+        }
+      );
+      request.on('error', reject);
+      request.end(body);
+    });
+  }
+}
@@ -0,0 +1,136 @@
+import { lookup as dnsLookup, promises as dns } from 'dns';
+import { BlockList, LookupFunction, isIP } from 'net';
+import { IWebhookHostPolicy } from '@domain/interfaces';
+
+/**
+ * Resolves a host name to its IP addresses
+ */
+export type HostResolver = (hostname: string) => Promise<string[]>;
+
+/**
+ * Address ranges webhooks are never sent to: loopback, link-local (which holds
+ * cloud metadata endpoints), private networks and other non-public ranges
+ */
+const PRIVATE_RANGES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  PRIVATE_RANGES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  PRIVATE_RANGES.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Check whether an IP address is loopback, link-local, private or otherwise not public
+ * IPv4 addresses written as IPv6 (::ffff:127.0.0.1) are checked as IPv4.
+ */
+export function isPrivateAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) {
+    return false;
+  }
+  return PRIVATE_RANGES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Lower-case a host name and strip the brackets URLs put around IPv6 addresses
+ */
+function normalizeHost(hostname: string): string {
+  return hostname.toLowerCase().replace(/^\[(.*)\]$/, '$1');
+}
+
+async function resolveHost(hostname: string): Promise<string[]> {
+  const addresses = await dns.lookup(hostname, { all: true });
+  return addresses.map((entry) => entry.address);
+}
+
+/**
+ * Refuses webhook hosts that resolve to a non-public address
+ * Without this, registering a webhook would let any user make the server send requests
+ * into its own network and read the outcome from the delivery log. Hosts named in
+ * `allowedPrivateHosts` are let through, for example a receiver on localhost during development.
+ */
+export class WebhookHostPolicy implements IWebhookHostPolicy {
+  private readonly allowedPrivateHosts: Set<string>;
+
+  constructor(
+    allowedPrivateHosts: string[] = [],
+    private resolve: HostResolver = resolveHost
+  ) {
+    this.allowedPrivateHosts = new Set(allowedPrivateHosts.map(normalizeHost));
+  }
+
+  /**
+   * Check whether a host may receive webhooks
+   * @returns Why the host is refused, or null if it is allowed
+   */
+  async check(hostname: string): Promise<string | null> {
+    const host = normalizeHost(hostname);
+    if (this.allowedPrivateHosts.has(host)) {
+      return null;
+    }
+
+    let addresses: string[];
+    try {
+      addresses = isIP(host) ? [host] : await this.resolve(host);
+    } catch {
+      return `${host} could not be resolved`;
+    }
+
+    if (addresses.length === 0) {
+      return `${host} could not be resolved`;
+    }
+    if (addresses.some(isPrivateAddress)) {
+      return `${host} resolves to a loopback, link-local or private address`;
+    }
+    return null;
+  }
+
+  /**
+   * DNS lookup for outgoing requests that fails on non-public addresses
+   * The address is checked again when connecting, so a host that passed the check
+   * cannot be switched to a private address afterwards.
+   */
+  readonly lookup: LookupFunction = (hostname, options, callback) => {
+    dnsLookup(hostname, { ...options, all: true }, (error, addresses) => {
+      if (error) {
+        callback(error, '');
+        return;
+      }
+
+      if (
+        !this.allowedPrivateHosts.has(normalizeHost(hostname)) &&
+        addresses.some((entry) => isPrivateAddress(entry.address))
+      ) {
+        callback(
+          new Error(`${hostname} resolves to a loopback, link-local or private address`),
+          ''
+        );
+        return;
+      }
+
+      if (options.all) {
+        callback(null, addresses);
+      } else {
+        callback(null, addresses[0].address, addresses[0].family);
+      }
+    });
+  };
+}
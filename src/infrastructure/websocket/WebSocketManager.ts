@@ -19,6 +19,8 @@ export class WebSocketManager implements IWebSocketService {
   private userConnections: Map<string, Set<string>>; // userId -> Set<connectionId>
   private subscriptions: Map<string, Set<string>>; // gameId -> Set<userId>
   private userSubscriptions: Map<string, Set<string>>; // userId -> Set<gameId>
+  private observers: Map<string, Set<string>>; // gameId -> Set<userId>
+  private userObservations: Map<string, Set<string>>; // userId -> Set<gameId>
   private logger: Logger;
 
   constructor(logger?: Logger) {
@@ -26,6 +28,8 @@ export class WebSocketManager implements IWebSocketService {
     this.userConnections = new Map();
     this.subscriptions = new Map();
     this.userSubscriptions = new Map();
+    this.observers = new Map();
+    this.userObservations = new Map();
     this.logger = logger || new Logger('info', 'pretty');
   }
 
@@ -81,6 +85,7 @@ export class WebSocketManager implements IWebSocketService {
 
         // Clean up all subscriptions for this user if they have no more connections
         this.cleanupUserSubscriptions(userId);
+        this.cleanupUserObservations(userId);
       }
     }
 
@@ -112,6 +117,29 @@ export class WebSocketManager implements IWebSocketService {
     this.logger.info(`Cleaned up subscriptions for user ${userId}`);
   }
 
+  /**
+   * Clean up all observations for a user
+   */
+  private cleanupUserObservations(userId: string): void {
+    const userObs = this.userObservations.get(userId);
+    if (!userObs) {
+      return;
+    }
+
+    for (const gameId of userObs) {
+      const gameObs = this.observers.get(gameId);
+      if (gameObs) {
+        gameObs.delete(userId);
+        if (gameObs.size === 0) {
+          this.observers.delete(gameId);
+        }
+      }
+    }
+
+    this.userObservations.delete(userId);
+    this.logger.info(`Cleaned up observations for user ${userId}`);
+  }
+
   /**
    * Subscribe a user to game updates
    */
@@ -163,24 +191,80 @@ export class WebSocketManager implements IWebSocketService {
   }
 
   /**
-   * Broadcast a message to all subscribers of a game
+   * Subscribe a user to game updates as an observer
    */
-  async broadcastToGame(gameId: string, message: WebSocketMessage): Promise<void> {
-    const subscribers = this.subscriptions.get(gameId);
+  observe(userId: string, gameId: string): void {
+    this.logger.info(`User ${userId} observing game ${gameId}`);
+
+    // Add to game observers
+    if (!this.observers.has(gameId)) {
+      this.observers.set(gameId, new Set());
+    }
+    this.observers.get(gameId)!.add(userId);
 
-    if (!subscribers || subscribers.size === 0) {
+    // Track user's observations
+    if (!this.userObservations.has(userId)) {
+      this.userObservations.set(userId, new Set());
+    }
+    this.userObservations.get(userId)!.add(gameId);
+
+    this.logger.info(
+      `User ${userId} observing game ${gameId}. Game has ${this.observers.get(gameId)!.size} observer(s)`
+    );
+  }
+
+  /**
+   * Stop a user observing a game
+   */
+  unobserve(userId: string, gameId: string): void {
+    this.logger.info(`User ${userId} no longer observing game ${gameId}`);
+
+    // Remove from game observers
+    const gameObs = this.observers.get(gameId);
+    if (gameObs) {
+      gameObs.delete(userId);
+      if (gameObs.size === 0) {
+        this.observers.delete(gameId);
+      }
+    }
+
+    // Remove from user's observations
+    const userObs = this.userObservations.get(userId);
+    if (userObs) {
+      userObs.delete(gameId);
+      if (userObs.size === 0) {
+        this.userObservations.delete(userId);
+      }
+    }
+  }
+
+  /**
+   * Broadcast a message to all subscribers and observers of a game
+   * When forRecipient is given, each user gets the message it builds for them.
+   */
+  async broadcastToGame(
+    gameId: string,
+    message: WebSocketMessage,
+    forRecipient?: (userId: string) => WebSocketMessage
+  ): Promise<void> {
+    const recipients = new Set([
+      ...(this.subscriptions.get(gameId) ?? []),
+      ...(this.observers.get(gameId) ?? []),
+    ]);
+
+    if (recipients.size === 0) {
       this.logger.debug(`No subscribers for game ${gameId}, skipping broadcast`);
       return;
     }
 
     this.logger.info(
-      `Broadcasting message type ${message.type} to ${subscribers.size} subscriber(s) of game ${gameId}`
+      `Broadcasting message type ${message.type} to ${recipients.size} recipient(s) of game ${gameId}`
     );
 
     const sendPromises: Promise<void>[] = [];
 
-    for (const userId of subscribers) {
-      sendPromises.push(this.sendToUser(userId, message));
+    for (const userId of recipients) {
+      sendPromises.push(this.sendToUser(userId, forRecipient ? forRecipient(userId) : message));
     }
 
     await Promise.all(sendPromises);
@@ -248,4 +332,12 @@ export class WebSocketManager implements IWebSocketService {
     const subscribers = this.subscriptions.get(gameId);
     return subscribers ? subscribers.size : 0;
   }
+
+  /**
+   * Get the number of observers for a game
+   */
+  getGameObserverCount(gameId: string): number {
+    const gameObservers = this.observers.get(gameId);
+    return gameObservers ? gameObservers.size : 0;
+  }
 }
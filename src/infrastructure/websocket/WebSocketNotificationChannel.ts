@@ -0,0 +1,52 @@
+import {
+  INotificationChannel,
+  NotificationData,
+  NotificationType,
+} from '@domain/interfaces/INotificationChannel';
+import {
+  IWebSocketService,
+  TurnNotificationMessage,
+  WebSocketMessageType,
+} from '@domain/interfaces/IWebSocketService';
+
+/**
+ * Notification channel that pushes turn notifications to the player's open sockets
+ * Players without a connection simply miss the push; the other channels still reach them.
+ * Invitations are already pushed when they are sent, so only turns go out here.
+ */
+export class WebSocketNotificationChannel implements INotificationChannel {
+  constructor(private webSocketService: IWebSocketService) {}
+
+  /**
+   * Get the name of this notification channel
+   */
+  getName(): string {
+    return 'websocket';
+  }
+
+  /**
+   * Sockets need no configuration, so the channel is always available
+   */
+  async isAvailable(): Promise<boolean> {
+    return true;
+  }
+
+  /**
+   * Send a turn notification to every socket the player has open
+   * @param notification - The notification data to send
+   */
+  async send(notification: NotificationData): Promise<void> {
+    if (notification.type !== NotificationType.TURN) {
+      return;
+    }
+
+    const message: TurnNotificationMessage = {
+      type: WebSocketMessageType.TURN_NOTIFICATION,
+      gameId: notification.gameId,
+      currentPlayer: notification.userId,
+      timestamp: new Date(),
+    };
+
+    await this.webSocketService.sendToUser(notification.userId, message);
+  }
+}
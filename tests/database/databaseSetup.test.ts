@@ -35,6 +35,8 @@ describe('Database Integration Test Setup', () => {
     expect(tableNames).toContain('player_profiles');
     expect(tableNames).toContain('game_invitations');
     expect(tableNames).toContain('turn_notifications');
+    expect(tableNames).toContain('game_events');
+    expect(tableNames).toContain('game_snapshots');
   });
 
   it('should have correct games table schema', async () => {
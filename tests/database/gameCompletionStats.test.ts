@@ -101,7 +101,7 @@ describe('Game Completion Stats Update Integration', () => {
     // Create services
     gameManagerService = new GameManagerService(registry, gameRepository, mockAIPlayerService);
     stateManagerService = new StateManagerService(gameRepository, registry, lockManager);
-    statsService = new StatsService(statsRepository);
+    statsService = new StatsService(statsRepository, registry);
 
     // Create app with real routes
     app = createApp(playerIdentityRepository, { disableAuth: true });
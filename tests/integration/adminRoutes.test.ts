@@ -1,6 +1,6 @@
 /**
  * Integration tests for admin routes with requireAdmin middleware
- * Tests that admin authorization is properly enforced
+ * Tests that admin authorization is properly enforced, and the game moderation endpoints
  *
  * Requirements: 8.1, 8.2, 8.3, 8.4, 8.5
  */
@@ -11,6 +11,16 @@ import { requireAdmin } from '../../src/adapters/rest/auth/requireAdmin';
 import { requireAuth } from '../../src/adapters/rest/auth/requireAuth';
 import { AuthenticatedRequest } from '../../src/adapters/rest/auth/types';
 import { AuthenticatedUser } from '../../src/domain/interfaces/authentication';
+import { createAdminRoutes } from '../../src/adapters/rest/adminRoutes';
+import { finalizeApp } from '../../src/adapters/rest/app';
+import { ModerationService } from '../../src/application/services/ModerationService';
+import { StateManagerService } from '../../src/application/services/StateManagerService';
+import { GameLockManager } from '../../src/application/GameLockManager';
+import { PluginRegistry } from '../../src/application/PluginRegistry';
+import { InMemoryGameRepository } from '../../src/infrastructure/persistence/InMemoryGameRepository';
+import { Logger } from '../../src/infrastructure/logging/Logger';
+import { GameLifecycle } from '../../src/domain/models';
+import { GameStateBuilder, MockGameEngine, createPlayer } from '../utils';
 
 // Mock config
 jest.mock('../../src/config', () => ({
@@ -19,6 +29,20 @@ jest.mock('../../src/config', () => ({
 
 import { loadConfig } from '../../src/config';
 
+// Simulates clerkMiddleware by setting req.user from a header
+function testAuthentication(req: AuthenticatedRequest, _res: unknown, next: () => void): void {
+  const userId = req.headers['x-test-user-id'] as string;
+  if (userId) {
+    req.user = {
+      id: userId,
+      externalId: `clerk_${userId}`,
+      username: `user_${userId}`,
+      email: `${userId}@example.com`,
+    } as AuthenticatedUser;
+  }
+  next();
+}
+
 describe('Admin Routes Integration', () => {
   let app: Express;
 
@@ -34,20 +58,7 @@ describe('Admin Routes Integration', () => {
 
     // Add a middleware to simulate authentication for testing
     // This must come BEFORE the routes
-    app.use((req: AuthenticatedRequest, _res, next) => {
-      // This would normally be set by clerkMiddleware
-      // For testing, we'll set it based on a header
-      const userId = req.headers['x-test-user-id'] as string;
-      if (userId) {
-        req.user = {
-          id: userId,
-          externalId: `clerk_${userId}`,
-          username: `user_${userId}`,
-          email: `${userId}@example.com`,
-        } as AuthenticatedUser;
-      }
-      next();
-    });
+    app.use(testAuthentication);
 
     // Create a test admin router
     const adminRouter = Router();
@@ -166,3 +177,144 @@ describe('Admin Routes Integration', () => {
     });
   });
 });
+
+describe('Game Moderation Routes', () => {
+  const admin = 'admin_user_123';
+  let app: Express;
+  let repository: InMemoryGameRepository;
+
+  beforeEach(async () => {
+    (loadConfig as jest.Mock).mockReturnValue({ adminUserIds: [admin] });
+
+    const registry = new PluginRegistry();
+    registry.register(new MockGameEngine('mock-game'));
+    const lockManager = new GameLockManager();
+    repository = new InMemoryGameRepository();
+    const moderationService = new ModerationService(
+      repository,
+      repository,
+      new StateManagerService(repository, registry, lockManager),
+      lockManager,
+      new Logger('error', 'json')
+    );
+
+    app = express();
+    app.use(express.json());
+    app.use(testAuthentication);
+    app.use('/api', createAdminRoutes(moderationService));
+    finalizeApp(app);
+
+    await repository.save(
+      new GameStateBuilder()
+        .withGameId('game-1')
+        .withGameType('mock-game')
+        .withLifecycle(GameLifecycle.ACTIVE)
+        .withPlayers([createPlayer('player1', 'Alice'), createPlayer('player2', 'Bob')])
+        .build()
+    );
+  });
+
+  it('should require an admin for every endpoint', async () => {
+    await request(app).delete('/api/admin/games/game-1').expect(401);
+    await request(app)
+      .post('/api/admin/games/game-1/force-complete')
+      .set('x-test-user-id', 'player1')
+      .expect(403);
+    await request(app)
+      .get('/api/admin/games/game-1/moderation-log')
+      .set('x-test-user-id', 'player1')
+      .expect(403);
+
+    expect(await repository.findById('game-1')).not.toBeNull();
+  });
+
+  it('should delete and restore a game', async () => {
+    await request(app)
+      .delete('/api/admin/games/game-1')
+      .set('x-test-user-id', admin)
+      .send({ reason: 'Reported as spam' })
+      .expect(204);
+    expect(await repository.findById('game-1')).toBeNull();
+
+    const response = await request(app)
+      .post('/api/admin/games/game-1/restore')
+      .set('x-test-user-id', admin)
+      .expect(200);
+    expect(response.body.gameId).toBe('game-1');
+
+    const log = await request(app)
+      .get('/api/admin/games/game-1/moderation-log')
+      .set('x-test-user-id', admin)
+      .expect(200);
+    expect(log.body).toEqual([
+      expect.objectContaining({ action: 'delete', actorId: admin, reason: 'Reported as spam' }),
+      expect.objectContaining({ action: 'restore', actorId: admin }),
+    ]);
+  });
+
+  it('should return 404 when restoring a game that is not deleted', async () => {
+    const response = await request(app)
+      .post('/api/admin/games/game-1/restore')
+      .set('x-test-user-id', admin)
+      .expect(404);
+
+    expect(response.body.error.code).toBe('GAME_NOT_FOUND');
+  });
+
+  it('should force-complete a game', async () => {
+    const response = await request(app)
+      .post('/api/admin/games/game-1/force-complete')
+      .set('x-test-user-id', admin)
+      .expect(200);
+
+    expect(response.body.lifecycle).toBe('completed');
+    expect(response.body.winner).toBeNull();
+  });
+
+  it('should adjudicate a result', async () => {
+    const response = await request(app)
+      .post('/api/admin/games/game-1/adjudicate')
+      .set('x-test-user-id', admin)
+      .send({ winner: 'player2' })
+      .expect(200);
+
+    expect(response.body.winner).toBe('player2');
+
+    // The game is over, so it cannot be adjudicated again
+    const conflict = await request(app)
+      .post('/api/admin/games/game-1/adjudicate')
+      .set('x-test-user-id', admin)
+      .send({ winner: null })
+      .expect(409);
+    expect(conflict.body.error.code).toBe('INVALID_GAME_ACTION');
+  });
+
+  it('should require a winner when adjudicating', async () => {
+    const response = await request(app)
+      .post('/api/admin/games/game-1/adjudicate')
+      .set('x-test-user-id', admin)
+      .send({})
+      .expect(400);
+
+    expect(response.body.error.code).toBe('VALIDATION_ERROR');
+  });
+
+  it('should remove a player', async () => {
+    const response = await request(app)
+      .delete('/api/admin/games/game-1/players/player1')
+      .set('x-test-user-id', admin)
+      .send({ reason: 'Abusive chat' })
+      .expect(200);
+
+    expect(response.body.winner).toBe('player2');
+    expect(response.body.metadata.removedPlayerId).toBe('player1');
+  });
+
+  it('should reject a reason that is not a string', async () => {
+    await request(app)
+      .post('/api/admin/games/game-1/force-complete')
+      .set('x-test-user-id', admin)
+      .send({ reason: 42 })
+      .expect(400);
+  });
+});
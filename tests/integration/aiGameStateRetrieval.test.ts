@@ -67,6 +67,7 @@ describe('AI Game State Retrieval Integration', () => {
       repository,
       registry,
       lockManager,
+      undefined,
       mockAIPlayerService
     );
 
@@ -12,6 +12,7 @@
  */
 
 import { StatsService } from '@application/services/StatsService';
+import { PluginRegistry } from '@application/PluginRegistry';
 import { PostgresStatsRepository } from '@infrastructure/persistence/PostgresStatsRepository';
 import { GameLifecycle } from '@domain/models';
 import { createSharedDatabaseHelper } from '../helpers/databaseTestHelper';
@@ -23,7 +24,7 @@ describe('AI Game Statistics Integration', () => {
 
   beforeEach(() => {
     statsRepository = new PostgresStatsRepository(dbHelper.getConnectionString(), 5);
-    statsService = new StatsService(statsRepository);
+    statsService = new StatsService(statsRepository, new PluginRegistry());
   });
 
   afterEach(async () => {
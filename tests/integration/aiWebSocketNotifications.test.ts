@@ -17,6 +17,8 @@ import { StateManagerService } from '../../src/application/services/StateManager
 import { AIPlayerService } from '../../src/application/services/AIPlayerService';
 import { PluginRegistry } from '../../src/application/PluginRegistry';
 import { GameLockManager } from '../../src/application/GameLockManager';
+import { DomainEventBus } from '../../src/application/events/DomainEventBus';
+import { WebSocketEventHandler } from '../../src/application/events/WebSocketEventHandler';
 import { WebSocketMessageType } from '../../src/domain/interfaces/IWebSocketService';
 import { TicTacToeEngine } from '../../games/tic-tac-toe/engine';
 
@@ -60,12 +62,14 @@ describe('AI WebSocket Notifications Integration Tests', () => {
 
     // Create services
     const lockManager = new GameLockManager();
+    const eventBus = new DomainEventBus();
+    new WebSocketEventHandler(wsManager, pluginRegistry).register(eventBus);
     aiPlayerService = new AIPlayerService(pluginRegistry, aiPlayerRepository, gameRepository);
     stateManagerService = new StateManagerService(
       gameRepository,
       pluginRegistry,
       lockManager,
-      wsManager,
+      eventBus,
       aiPlayerService
     );
     gameManagerService = new GameManagerService(pluginRegistry, gameRepository, aiPlayerService);
@@ -4,12 +4,18 @@ import { createApp, addApiRoutes, finalizeApp } from '@adapters/rest/app';
 import { createGameRoutes } from '@adapters/rest/gameRoutes';
 import { GameManagerService } from '@application/services/GameManagerService';
 import { StateManagerService } from '@application/services/StateManagerService';
+import { GameReplayService } from '@application/services/GameReplayService';
+import { ModerationService } from '@application/services/ModerationService';
 import { RendererService } from '@infrastructure/rendering/RendererService';
 import { GameLockManager } from '@application/GameLockManager';
 import { PluginRegistry } from '@application/PluginRegistry';
 import { InMemoryGameRepository } from '@infrastructure/persistence/InMemoryGameRepository';
 import { InMemoryPlayerIdentityRepository } from '@infrastructure/persistence/InMemoryPlayerIdentityRepository';
 import { TicTacToeEngine } from '@games/tic-tac-toe/engine';
+import { ConnectFourEngine } from '@games/connect-four/engine';
+import { YahtzeeEngine } from '@games/yahtzee/engine';
+import { hashServerSeed } from '@domain/game-utils/FairRandom';
+import { GameState } from '@domain/models';
 
 // Mock config to disable auth by default for existing tests
 jest.mock('../../src/config', () => ({
@@ -24,6 +30,28 @@ jest.mock('../../src/config', () => ({
   })),
 }));
 
+/**
+ * Tic-tac-toe with view hooks that record who each view was made for
+ * Spectators do not see where moves were placed.
+ */
+class HiddenTicTacToeEngine extends TicTacToeEngine {
+  getGameType(): string {
+    return 'hidden-tic-tac-toe';
+  }
+
+  getPlayerView(state: GameState, playerId: string): GameState {
+    return { ...state, metadata: { ...state.metadata, viewer: playerId } };
+  }
+
+  getSpectatorView(state: GameState): GameState {
+    return {
+      ...state,
+      moveHistory: state.moveHistory.map((move) => ({ ...move, parameters: {} })),
+      metadata: { ...state.metadata, viewer: 'spectator' },
+    };
+  }
+}
+
 describe('Game Management Routes Integration', () => {
   let app: Express;
   let gameManagerService: GameManagerService;
@@ -31,6 +59,7 @@ describe('Game Management Routes Integration', () => {
   let repository: InMemoryGameRepository;
   let playerIdentityRepository: InMemoryPlayerIdentityRepository;
   let registry: PluginRegistry;
+  let mockAIPlayerService: any;
   let lockManager: GameLockManager;
 
   beforeEach(() => {
@@ -56,7 +85,7 @@ describe('Game Management Routes Integration', () => {
     registry.register(ticTacToeEngine);
 
     // Create mock AI player service
-    const mockAIPlayerService = {
+    mockAIPlayerService = {
       createAIPlayers: jest.fn().mockResolvedValue([]),
       isAIPlayer: jest.fn().mockResolvedValue(false),
       getAvailableStrategies: jest.fn().mockReturnValue([]),
@@ -838,28 +867,217 @@ describe('Game Management Routes Integration', () => {
     });
   });
 
-  describe('DELETE /api/games/:gameId', () => {
-    it('should delete a game', async () => {
-      // Create a game
+  describe('Observers', () => {
+    const players = [
+      { id: 'player1', name: 'Alice', joinedAt: new Date() },
+      { id: 'player2', name: 'Bob', joinedAt: new Date() },
+    ];
+
+    it('should add, list and remove observers', async () => {
       const createResponse = await request(app)
         .post('/api/games')
-        .send({
-          gameType: 'tic-tac-toe',
-          config: {
-            players: [
-              { id: 'player1', name: 'Alice', joinedAt: new Date() },
-              { id: 'player2', name: 'Bob', joinedAt: new Date() },
-            ],
-          },
-        });
+        .send({ gameType: 'tic-tac-toe', config: { players } });
+      const gameId = createResponse.body.gameId;
+
+      const observeResponse = await request(app)
+        .post(`/api/games/${gameId}/observe`)
+        .send({ observerId: 'viewer1', observerName: 'Viewer' })
+        .expect(200);
+
+      expect(observeResponse.body.observers).toHaveLength(1);
+      expect(observeResponse.body.players).toHaveLength(2);
+
+      const listResponse = await request(app).get(`/api/games/${gameId}/observers`).expect(200);
+      expect(listResponse.body).toEqual([
+        expect.objectContaining({ id: 'viewer1', name: 'Viewer' }),
+      ]);
 
+      const leaveResponse = await request(app)
+        .delete(`/api/games/${gameId}/observe`)
+        .send({ observerId: 'viewer1' })
+        .expect(200);
+      expect(leaveResponse.body.observers).toEqual([]);
+    });
+
+    it('should not invalidate the version players are moving against', async () => {
+      const createResponse = await request(app)
+        .post('/api/games')
+        .send({ gameType: 'tic-tac-toe', config: { players } });
+      const { gameId, version } = createResponse.body;
+
+      await request(app)
+        .post(`/api/games/${gameId}/observe`)
+        .send({ observerId: 'viewer1' })
+        .expect(200);
+
+      const gameResponse = await request(app).get(`/api/games/${gameId}`).expect(200);
+      expect(gameResponse.body.version).toBe(version);
+    });
+
+    it('should return 403 when the game forbids spectators', async () => {
+      const createResponse = await request(app)
+        .post('/api/games')
+        .send({ gameType: 'tic-tac-toe', config: { players, spectators: 'forbid' } });
+
+      const response = await request(app)
+        .post(`/api/games/${createResponse.body.gameId}/observe`)
+        .send({ observerId: 'viewer1' })
+        .expect(403);
+
+      expect(response.body.error.code).toBe('FORBIDDEN');
+    });
+
+    it('should only let players read a game that forbids spectators', async () => {
+      const createResponse = await request(app)
+        .post('/api/games')
+        .send({ gameType: 'tic-tac-toe', config: { players, spectators: 'forbid' } });
       const gameId = createResponse.body.gameId;
 
-      // Delete the game
-      await request(app).delete(`/api/games/${gameId}`).expect(204);
+      for (const path of [
+        `/api/games/${gameId}`,
+        `/api/games/${gameId}/state`,
+        `/api/games/${gameId}/moves`,
+        `/api/games/${gameId}/observers`,
+      ]) {
+        const anonymous = await request(app).get(path).expect(403);
+        expect(anonymous.body.error.code).toBe('FORBIDDEN');
+        await request(app).get(path).query({ viewerId: 'viewer1' }).expect(403);
+        await request(app).get(path).query({ viewerId: 'player1' }).expect(200);
+      }
+    });
+
+    it('should only list a game that forbids spectators to its players', async () => {
+      const createResponse = await request(app)
+        .post('/api/games')
+        .send({ gameType: 'tic-tac-toe', config: { players, spectators: 'forbid' } });
+      const gameId = createResponse.body.gameId;
+      const listedIds = (response: request.Response): string[] =>
+        response.body.items.map((game: { gameId: string }) => game.gameId);
+
+      const anonymous = await request(app).get('/api/games').expect(200);
+      const viewer = await request(app).get('/api/games').query({ viewerId: 'viewer1' });
+      const player = await request(app).get('/api/games').query({ viewerId: 'player1' });
+
+      expect(listedIds(anonymous)).not.toContain(gameId);
+      expect(listedIds(viewer)).not.toContain(gameId);
+      expect(listedIds(player)).toContain(gameId);
+    });
+
+    it('should return 409 when a player tries to observe', async () => {
+      const createResponse = await request(app)
+        .post('/api/games')
+        .send({ gameType: 'tic-tac-toe', config: { players } });
+
+      const response = await request(app)
+        .post(`/api/games/${createResponse.body.gameId}/observe`)
+        .send({ observerId: 'player1' })
+        .expect(409);
+
+      expect(response.body.error.code).toBe('INVALID_GAME_ACTION');
+    });
+
+    it('should return 400 when observerId is missing', async () => {
+      const createResponse = await request(app)
+        .post('/api/games')
+        .send({ gameType: 'tic-tac-toe', config: { players } });
+
+      await request(app)
+        .post(`/api/games/${createResponse.body.gameId}/observe`)
+        .send({})
+        .expect(400);
+    });
+
+    it('should reject an unknown spectator policy', async () => {
+      const response = await request(app)
+        .post('/api/games')
+        .send({ gameType: 'tic-tac-toe', config: { players, spectators: 'everyone' } })
+        .expect(400);
+
+      expect(response.body.error.code).toBe('VALIDATION_ERROR');
+    });
+
+    it('should return 404 for observers of an unknown game', async () => {
+      await request(app).get('/api/games/missing/observers').expect(404);
+    });
+  });
+
+  describe('DELETE /api/games/:gameId', () => {
+    beforeEach(() => {
+      const moderationService = new ModerationService(
+        repository,
+        repository,
+        stateManagerService,
+        lockManager
+      );
+      app = createApp(playerIdentityRepository, { disableAuth: true });
+      addApiRoutes(
+        app,
+        createGameRoutes(
+          gameManagerService,
+          repository,
+          stateManagerService,
+          mockAIPlayerService,
+          undefined,
+          { disableAuth: true },
+          undefined,
+          moderationService
+        )
+      );
+      finalizeApp(app);
+    });
+
+    async function createGameBy(creatorId: string, players: number): Promise<string> {
+      const game = await gameManagerService.createGame(
+        'tic-tac-toe',
+        {
+          players: [
+            { id: creatorId, name: 'Alice', joinedAt: new Date() },
+            { id: 'player2', name: 'Bob', joinedAt: new Date() },
+          ].slice(0, players),
+        },
+        { id: creatorId, username: 'Alice' }
+      );
+      return game.gameId;
+    }
+
+    it('should let the creator delete a game that has not started', async () => {
+      const gameId = await createGameBy('player1', 1);
+
+      await request(app).delete(`/api/games/${gameId}`).send({ playerId: 'player1' }).expect(204);
 
       // Verify it's gone
       await request(app).get(`/api/games/${gameId}`).expect(404);
+      // ...but kept for the audit trail
+      expect(await repository.findDeletion(gameId)).toMatchObject({ deletedBy: 'player1' });
+    });
+
+    it('should not let anyone else delete the game', async () => {
+      const gameId = await createGameBy('player1', 1);
+
+      const response = await request(app)
+        .delete(`/api/games/${gameId}`)
+        .send({ playerId: 'player2' })
+        .expect(403);
+
+      expect(response.body.error.code).toBe('FORBIDDEN');
+      await request(app).get(`/api/games/${gameId}`).expect(200);
+    });
+
+    it('should not let the creator delete a game that has started', async () => {
+      const gameId = await createGameBy('player1', 2);
+
+      const response = await request(app)
+        .delete(`/api/games/${gameId}`)
+        .send({ playerId: 'player1' })
+        .expect(409);
+
+      expect(response.body.error.code).toBe('INVALID_GAME_ACTION');
+    });
+
+    it('should require a player ID', async () => {
+      const gameId = await createGameBy('player1', 1);
+
+      await request(app).delete(`/api/games/${gameId}`).expect(400);
     });
   });
 
@@ -873,6 +1091,54 @@ describe('Game Management Routes Integration', () => {
       expect(response.body[0].maxPlayers).toBe(2);
     });
   });
+
+  describe('game settings', () => {
+    beforeEach(() => {
+      registry.register(new ConnectFourEngine());
+    });
+
+    it('should list the settings schema of game types that declare one', async () => {
+      const response = await request(app).get('/api/game-types').expect(200);
+
+      const connectFour = response.body.find((type: any) => type.type === 'connect-four');
+      expect(connectFour.configSchema.properties.popOut).toEqual(
+        expect.objectContaining({ type: 'boolean', default: false })
+      );
+      expect(
+        response.body.find((type: any) => type.type === 'tic-tac-toe').configSchema
+      ).toBeUndefined();
+    });
+
+    it('should create a game with valid settings', async () => {
+      const response = await request(app)
+        .post('/api/games')
+        .send({
+          gameType: 'connect-four',
+          config: { customSettings: { rows: 8, columns: 9, popOut: true } },
+          gameName: 'Big PopOut',
+        })
+        .expect(201);
+
+      expect(response.body.metadata.variant.name).toBe('PopOut, 9×8');
+    });
+
+    it('should reject settings that do not match the schema with a structured 400', async () => {
+      const response = await request(app)
+        .post('/api/games')
+        .send({
+          gameType: 'connect-four',
+          config: { customSettings: { rows: 20, popOut: 'yes' } },
+          gameName: 'Broken',
+        })
+        .expect(400);
+
+      expect(response.body.error.code).toBe('INVALID_GAME_SETTINGS');
+      expect(response.body.error.details.violations).toEqual([
+        { setting: 'rows', message: 'rows must be at most 12' },
+        { setting: 'popOut', message: 'popOut must be a boolean' },
+      ]);
+    });
+  });
 });
 
 describe('Gameplay Routes Integration', () => {
@@ -925,7 +1191,8 @@ describe('Gameplay Routes Integration', () => {
       stateManagerService,
       mockAIPlayerService,
       undefined,
-      { disableAuth: true }
+      { disableAuth: true },
+      new GameReplayService(repository, repository, registry)
     );
     addApiRoutes(app, gameRouter);
     finalizeApp(app);
@@ -964,6 +1231,73 @@ describe('Gameplay Routes Integration', () => {
 
       expect(response.body.error.code).toBe('GAME_NOT_FOUND');
     });
+
+    describe('?atMove', () => {
+      let gameId: string;
+
+      beforeEach(async () => {
+        const createResponse = await request(app)
+          .post('/api/games')
+          .send({
+            gameType: 'tic-tac-toe',
+            config: {
+              players: [
+                { id: 'player1', name: 'Alice', joinedAt: new Date() },
+                { id: 'player2', name: 'Bob', joinedAt: new Date() },
+              ],
+            },
+          });
+        gameId = createResponse.body.gameId;
+
+        const moves = [
+          { playerId: 'player1', row: 0, col: 0 },
+          { playerId: 'player2', row: 1, col: 1 },
+        ];
+        let version = createResponse.body.version;
+        for (const { playerId, row, col } of moves) {
+          const moveResponse = await request(app)
+            .post(`/api/games/${gameId}/moves`)
+            .send({
+              playerId,
+              move: { action: 'place', parameters: { row, col }, playerId, timestamp: new Date() },
+              version,
+            })
+            .expect(200);
+          version = moveResponse.body.version;
+        }
+      });
+
+      it('should return the state after the requested move', async () => {
+        const response = await request(app).get(`/api/games/${gameId}/state?atMove=1`).expect(200);
+
+        expect(response.body.moveHistory).toHaveLength(1);
+        expect(response.body.board.spaces[0].tokens).toHaveLength(1);
+        expect(response.body.board.spaces[4].tokens).toHaveLength(0);
+        expect(response.body.currentPlayerIndex).toBe(1);
+      });
+
+      it('should return the initial state at move 0', async () => {
+        const response = await request(app).get(`/api/games/${gameId}/state?atMove=0`).expect(200);
+
+        expect(response.body.moveHistory).toHaveLength(0);
+        expect(response.body.currentPlayerIndex).toBe(0);
+      });
+
+      it('should return 400 for a move the game has not reached', async () => {
+        const response = await request(app).get(`/api/games/${gameId}/state?atMove=5`).expect(400);
+
+        expect(response.body.error.code).toBe('MOVE_OUT_OF_RANGE');
+        expect(response.body.error.details).toEqual({ moveNumber: 5, moveCount: 2 });
+      });
+
+      it('should return 400 for a non-integer move number', async () => {
+        const response = await request(app)
+          .get(`/api/games/${gameId}/state?atMove=abc`)
+          .expect(400);
+
+        expect(response.body.error.code).toBe('VALIDATION_ERROR');
+      });
+    });
   });
 
   describe('POST /api/games/:gameId/moves', () => {
@@ -1297,6 +1631,331 @@ describe('Gameplay Routes Integration', () => {
       expect(response.body.error.code).toBe('GAME_NOT_FOUND');
     });
   });
+
+  describe('Dice game randomness', () => {
+    let gameId: string;
+
+    beforeEach(async () => {
+      registry.register(new YahtzeeEngine());
+      const createResponse = await request(app)
+        .post('/api/games')
+        .send({
+          gameType: 'yahtzee',
+          config: {
+            players: [
+              { id: 'player1', name: 'Alice', joinedAt: new Date() },
+              { id: 'player2', name: 'Bob', joinedAt: new Date() },
+            ],
+          },
+        })
+        .expect(201);
+      gameId = createResponse.body.gameId;
+      expect(createResponse.body.metadata.randomness).toEqual({
+        commitment: expect.stringMatching(/^[0-9a-f]{64}$/),
+      });
+    });
+
+    it('should only show the commitment while the game is in progress', async () => {
+      const rollResponse = await request(app)
+        .post(`/api/games/${gameId}/moves`)
+        .send({
+          playerId: 'player1',
+          move: {
+            action: 'roll',
+            parameters: { keepDice: [false, false, false, false, false] },
+            playerId: 'player1',
+            timestamp: new Date(),
+          },
+          version: 1,
+        })
+        .expect(200);
+
+      const [game, state, list] = await Promise.all([
+        request(app).get(`/api/games/${gameId}`),
+        request(app).get(`/api/games/${gameId}/state`),
+        request(app).get('/api/games'),
+      ]);
+      for (const body of [rollResponse.body, game.body, state.body, list.body.items[0]]) {
+        expect(body.metadata.randomness).not.toHaveProperty('serverSeed');
+      }
+      expect((await repository.findById(gameId))!.metadata.randomness.serverSeed).toBeDefined();
+    });
+
+    it('should reveal the seed matching the commitment once the game is over', async () => {
+      const { commitment } = (await request(app).get(`/api/games/${gameId}`)).body.metadata
+        .randomness;
+
+      const response = await request(app)
+        .post(`/api/games/${gameId}/resign`)
+        .send({ playerId: 'player1' })
+        .expect(200);
+
+      expect(response.body.lifecycle).toBe('completed');
+      expect(hashServerSeed(response.body.metadata.randomness.serverSeed)).toBe(commitment);
+    });
+  });
+
+  describe('Per-player views', () => {
+    let gameId: string;
+
+    beforeEach(async () => {
+      registry.register(new HiddenTicTacToeEngine());
+      const createResponse = await request(app)
+        .post('/api/games')
+        .send({
+          gameType: 'hidden-tic-tac-toe',
+          config: {
+            players: [
+              { id: 'player1', name: 'Alice', joinedAt: new Date() },
+              { id: 'player2', name: 'Bob', joinedAt: new Date() },
+            ],
+          },
+        })
+        .expect(201);
+      gameId = createResponse.body.gameId;
+    });
+
+    it("should return a player's own view of the game", async () => {
+      const [game, state] = await Promise.all([
+        request(app).get(`/api/games/${gameId}?viewerId=player1`).expect(200),
+        request(app).get(`/api/games/${gameId}/state?viewerId=player2`).expect(200),
+      ]);
+
+      expect(game.body.metadata.viewer).toBe('player1');
+      expect(state.body.metadata.viewer).toBe('player2');
+    });
+
+    it('should return the spectator view to everyone else', async () => {
+      const [game, observer, list] = await Promise.all([
+        request(app).get(`/api/games/${gameId}`).expect(200),
+        request(app).get(`/api/games/${gameId}/state?viewerId=someone-else`).expect(200),
+        request(app).get('/api/games?gameType=hidden-tic-tac-toe').expect(200),
+      ]);
+
+      expect(game.body.metadata.viewer).toBe('spectator');
+      expect(observer.body.metadata.viewer).toBe('spectator');
+      expect(list.body.items[0].metadata.viewer).toBe('spectator');
+    });
+
+    it('should return the mover their own view after a move', async () => {
+      const response = await request(app)
+        .post(`/api/games/${gameId}/moves`)
+        .send({
+          playerId: 'player1',
+          move: {
+            action: 'place',
+            parameters: { row: 0, col: 0 },
+            playerId: 'player1',
+            timestamp: new Date(),
+          },
+          version: 1,
+        })
+        .expect(200);
+
+      expect(response.body.metadata.viewer).toBe('player1');
+      expect((await repository.findById(gameId))!.metadata.viewer).toBeUndefined();
+    });
+
+    it('should filter the move history for the viewer', async () => {
+      await request(app)
+        .post(`/api/games/${gameId}/moves`)
+        .send({
+          playerId: 'player1',
+          move: {
+            action: 'place',
+            parameters: { row: 0, col: 0 },
+            playerId: 'player1',
+            timestamp: new Date(),
+          },
+          version: 1,
+        })
+        .expect(200);
+
+      const [player, spectator] = await Promise.all([
+        request(app).get(`/api/games/${gameId}/moves?viewerId=player2`).expect(200),
+        request(app).get(`/api/games/${gameId}/moves`).expect(200),
+      ]);
+
+      expect(player.body[0].parameters).toEqual({ row: 0, col: 0 });
+      expect(spectator.body).toHaveLength(1);
+      expect(spectator.body[0].parameters).toEqual({});
+    });
+  });
+
+  describe('Resign, draw and abort actions', () => {
+    async function createActiveGame(): Promise<string> {
+      const createResponse = await request(app)
+        .post('/api/games')
+        .send({
+          gameType: 'tic-tac-toe',
+          config: {
+            players: [
+              { id: 'player1', name: 'Alice', joinedAt: new Date() },
+              { id: 'player2', name: 'Bob', joinedAt: new Date() },
+            ],
+          },
+        });
+      return createResponse.body.gameId;
+    }
+
+    async function playMoves(gameId: string, count: number): Promise<void> {
+      const cells = [
+        { playerId: 'player1', row: 0, col: 0 },
+        { playerId: 'player2', row: 1, col: 1 },
+        { playerId: 'player1', row: 2, col: 2 },
+      ];
+      for (let i = 0; i < count; i++) {
+        const state = await request(app).get(`/api/games/${gameId}/state`);
+        const { playerId, row, col } = cells[i];
+        await request(app)
+          .post(`/api/games/${gameId}/moves`)
+          .send({
+            playerId,
+            move: { action: 'place', parameters: { row, col }, playerId, timestamp: new Date() },
+            version: state.body.version,
+          })
+          .expect(200);
+      }
+    }
+
+    it('should complete the game with the opponent as winner on resign', async () => {
+      const gameId = await createActiveGame();
+
+      const response = await request(app)
+        .post(`/api/games/${gameId}/resign`)
+        .send({ playerId: 'player1' })
+        .expect(200);
+
+      expect(response.body.lifecycle).toBe('completed');
+      expect(response.body.winner).toBe('player2');
+      expect(response.body.metadata.isDraw).toBe(false);
+      expect(response.body.moveHistory[0]).toMatchObject({
+        playerId: 'player1',
+        action: 'resign',
+      });
+    });
+
+    it('should require a playerId', async () => {
+      const gameId = await createActiveGame();
+
+      const response = await request(app).post(`/api/games/${gameId}/resign`).send({}).expect(400);
+
+      expect(response.body.error.code).toBe('VALIDATION_ERROR');
+    });
+
+    it('should reject actions from players outside the game', async () => {
+      const gameId = await createActiveGame();
+
+      const response = await request(app)
+        .post(`/api/games/${gameId}/resign`)
+        .send({ playerId: 'stranger' })
+        .expect(403);
+
+      expect(response.body.error.code).toBe('UNAUTHORIZED_MOVE');
+    });
+
+    it('should draw the game when an offer is accepted', async () => {
+      const gameId = await createActiveGame();
+
+      const offer = await request(app)
+        .post(`/api/games/${gameId}/draw/offer`)
+        .send({ playerId: 'player1' })
+        .expect(200);
+      expect(offer.body.metadata.drawOffer.offeredBy).toBe('player1');
+
+      const response = await request(app)
+        .post(`/api/games/${gameId}/draw/accept`)
+        .send({ playerId: 'player2' })
+        .expect(200);
+
+      expect(response.body.lifecycle).toBe('completed');
+      expect(response.body.winner).toBeNull();
+      expect(response.body.metadata.isDraw).toBe(true);
+      expect(response.body.metadata.drawOffer).toBeUndefined();
+      expect(response.body.moveHistory.map((m: any) => m.action)).toEqual([
+        'offer_draw',
+        'accept_draw',
+      ]);
+    });
+
+    it('should clear the offer when it is declined', async () => {
+      const gameId = await createActiveGame();
+      await request(app).post(`/api/games/${gameId}/draw/offer`).send({ playerId: 'player1' });
+
+      const response = await request(app)
+        .post(`/api/games/${gameId}/draw/decline`)
+        .send({ playerId: 'player2' })
+        .expect(200);
+
+      expect(response.body.lifecycle).toBe('active');
+      expect(response.body.metadata.drawOffer).toBeUndefined();
+    });
+
+    it('should return 409 when accepting without a pending offer', async () => {
+      const gameId = await createActiveGame();
+
+      const response = await request(app)
+        .post(`/api/games/${gameId}/draw/accept`)
+        .send({ playerId: 'player2' })
+        .expect(409);
+
+      expect(response.body.error.code).toBe('INVALID_GAME_ACTION');
+    });
+
+    it('should let a pending offer lapse when a move is played', async () => {
+      const gameId = await createActiveGame();
+      await request(app).post(`/api/games/${gameId}/draw/offer`).send({ playerId: 'player2' });
+
+      await playMoves(gameId, 1);
+
+      const state = await request(app).get(`/api/games/${gameId}/state`);
+      expect(state.body.metadata.drawOffer).toBeUndefined();
+    });
+
+    it('should abandon the game once both players agree to abort', async () => {
+      const gameId = await createActiveGame();
+      await playMoves(gameId, 1);
+
+      const first = await request(app)
+        .post(`/api/games/${gameId}/abort`)
+        .send({ playerId: 'player2' })
+        .expect(200);
+      expect(first.body.lifecycle).toBe('active');
+      expect(first.body.metadata.abortRequest.requestedBy).toEqual(['player2']);
+
+      const second = await request(app)
+        .post(`/api/games/${gameId}/abort`)
+        .send({ playerId: 'player1' })
+        .expect(200);
+
+      expect(second.body.lifecycle).toBe('abandoned');
+      expect(second.body.winner).toBeNull();
+    });
+
+    it('should not allow aborting after the abort move limit', async () => {
+      const gameId = await createActiveGame();
+      await playMoves(gameId, 2);
+
+      const response = await request(app)
+        .post(`/api/games/${gameId}/abort`)
+        .send({ playerId: 'player1' })
+        .expect(409);
+
+      expect(response.body.error.code).toBe('INVALID_GAME_ACTION');
+    });
+
+    it('should not allow actions on a finished game', async () => {
+      const gameId = await createActiveGame();
+      await request(app).post(`/api/games/${gameId}/resign`).send({ playerId: 'player1' });
+
+      const response = await request(app)
+        .post(`/api/games/${gameId}/draw/offer`)
+        .send({ playerId: 'player2' })
+        .expect(409);
+
+      expect(response.body.error.code).toBe('INVALID_GAME_ACTION');
+    });
+  });
 });
 
 describe('Rendering Routes Integration', () => {
@@ -1341,7 +2000,8 @@ describe('Rendering Routes Integration', () => {
 
     gameManagerService = new GameManagerService(registry, repository, mockAIPlayerService);
     stateManagerService = new StateManagerService(repository, registry, lockManager);
-    rendererService = new RendererService(registry, repository);
+    const gameReplayService = new GameReplayService(repository, repository, registry);
+    rendererService = new RendererService(registry, repository, gameReplayService);
 
     // Create app with real routes including renderer
     app = createApp(playerIdentityRepository, { disableAuth: true });
@@ -1351,13 +2011,37 @@ describe('Rendering Routes Integration', () => {
       stateManagerService,
       mockAIPlayerService,
       rendererService,
-      { disableAuth: true }
+      { disableAuth: true },
+      gameReplayService
     );
     addApiRoutes(app, gameRouter);
     finalizeApp(app);
   });
 
   describe('GET /api/games/:gameId/board.svg', () => {
+    it('should only render a game that forbids spectators for its players', async () => {
+      const createResponse = await request(app)
+        .post('/api/games')
+        .send({
+          gameType: 'tic-tac-toe',
+          config: {
+            players: [
+              { id: 'player1', name: 'Alice', joinedAt: new Date() },
+              { id: 'player2', name: 'Bob', joinedAt: new Date() },
+            ],
+            spectators: 'forbid',
+          },
+        });
+      const gameId = createResponse.body.gameId;
+
+      await request(app).get(`/api/games/${gameId}/board.svg`).expect(403);
+      await request(app).get(`/api/games/${gameId}/replay.gif`).expect(403);
+      await request(app)
+        .get(`/api/games/${gameId}/board.svg`)
+        .query({ viewerId: 'player2' })
+        .expect(200);
+    });
+
     it('should return SVG board rendering with proper content-type', async () => {
       // Create a game
       const createResponse = await request(app)
@@ -1466,6 +2150,170 @@ describe('Rendering Routes Integration', () => {
       expect(response.body.error).toBeDefined();
       expect(response.body.error.message).toContain('plugin');
     });
+
+    describe('?move', () => {
+      let gameId: string;
+
+      beforeEach(async () => {
+        const createResponse = await request(app)
+          .post('/api/games')
+          .send({
+            gameType: 'tic-tac-toe',
+            config: {
+              players: [
+                { id: 'player1', name: 'Alice', joinedAt: new Date() },
+                { id: 'player2', name: 'Bob', joinedAt: new Date() },
+              ],
+            },
+          });
+        gameId = createResponse.body.gameId;
+
+        await request(app)
+          .post(`/api/games/${gameId}/moves`)
+          .send({
+            playerId: 'player1',
+            move: {
+              action: 'place',
+              parameters: { row: 0, col: 0 },
+              playerId: 'player1',
+              timestamp: new Date(),
+            },
+            version: createResponse.body.version,
+          })
+          .expect(200);
+      });
+
+      it('should render the board as it was after the requested move', async () => {
+        const before = await request(app).get(`/api/games/${gameId}/board.svg?move=0`).expect(200);
+        const after = await request(app).get(`/api/games/${gameId}/board.svg?move=1`).expect(200);
+        const current = await request(app).get(`/api/games/${gameId}/board.svg`).expect(200);
+
+        const svgOf = (response: request.Response): string =>
+          response.text || (Buffer.isBuffer(response.body) ? response.body.toString() : '');
+
+        expect(before.headers['content-type']).toContain('image/svg+xml');
+        expect(svgOf(before)).toContain('<svg');
+        expect(svgOf(before)).not.toEqual(svgOf(after));
+        expect(svgOf(after)).toEqual(svgOf(current));
+      });
+
+      it('should return 400 for a move the game has not reached', async () => {
+        const response = await request(app)
+          .get(`/api/games/${gameId}/board.svg?move=2`)
+          .expect(400);
+
+        expect(response.body.error.code).toBe('MOVE_OUT_OF_RANGE');
+      });
+
+      it('should return 400 for a non-integer move number', async () => {
+        const response = await request(app)
+          .get(`/api/games/${gameId}/board.svg?move=last`)
+          .expect(400);
+
+        expect(response.body.error.code).toBe('VALIDATION_ERROR');
+        expect(response.body.error.message).toContain('move');
+      });
+    });
+  });
+
+  describe('GET /api/games/:gameId/replay.gif and replay.apng', () => {
+    let gameId: string;
+
+    beforeEach(async () => {
+      const createResponse = await request(app)
+        .post('/api/games')
+        .send({
+          gameType: 'tic-tac-toe',
+          config: {
+            players: [
+              { id: 'player1', name: 'Alice', joinedAt: new Date() },
+              { id: 'player2', name: 'Bob', joinedAt: new Date() },
+            ],
+          },
+        });
+      gameId = createResponse.body.gameId;
+
+      await request(app)
+        .post(`/api/games/${gameId}/moves`)
+        .send({
+          playerId: 'player1',
+          move: {
+            action: 'place',
+            parameters: { row: 0, col: 0 },
+            playerId: 'player1',
+            timestamp: new Date(),
+          },
+          version: createResponse.body.version,
+        })
+        .expect(200);
+      await request(app)
+        .post(`/api/games/${gameId}/resign`)
+        .send({ playerId: 'player2' })
+        .expect(200);
+    });
+
+    it('should return an animated GIF', async () => {
+      const response = await request(app).get(`/api/games/${gameId}/replay.gif`).expect(200);
+
+      expect(response.headers['content-type']).toContain('image/gif');
+      expect(Buffer.from(response.body).toString('ascii', 0, 6)).toBe('GIF89a');
+    });
+
+    it('should return an animated PNG with the requested frame delay', async () => {
+      const response = await request(app)
+        .get(`/api/games/${gameId}/replay.apng?delay=250`)
+        .buffer(true)
+        .parse((res, callback) => {
+          const chunks: Buffer[] = [];
+          res.on('data', (chunk: Buffer) => chunks.push(chunk));
+          res.on('end', () => callback(null, Buffer.concat(chunks)));
+        })
+        .expect(200);
+
+      const png: Buffer = response.body;
+      expect(response.headers['content-type']).toContain('image/apng');
+      expect(png.toString('ascii', 37, 41)).toBe('acTL');
+      // The initial board, the move and the resignation
+      expect(png.readUInt32BE(41)).toBe(3);
+      // The first fcTL chunk starts at byte 53; its delay numerator is 20 bytes into its data
+      expect(png.toString('ascii', 57, 61)).toBe('fcTL');
+      expect(png.readUInt16BE(61 + 20)).toBe(250);
+    });
+
+    it('should return 400 for a delay outside the allowed range', async () => {
+      const response = await request(app)
+        .get(`/api/games/${gameId}/replay.gif?delay=5`)
+        .expect(400);
+
+      expect(response.body.error.code).toBe('VALIDATION_ERROR');
+      expect(response.body.error.message).toContain('delay');
+    });
+
+    it('should return 409 for a game that has not finished', async () => {
+      const createResponse = await request(app)
+        .post('/api/games')
+        .send({
+          gameType: 'tic-tac-toe',
+          config: {
+            players: [
+              { id: 'player1', name: 'Alice', joinedAt: new Date() },
+              { id: 'player2', name: 'Bob', joinedAt: new Date() },
+            ],
+          },
+        });
+
+      const response = await request(app)
+        .get(`/api/games/${createResponse.body.gameId}/replay.gif`)
+        .expect(409);
+
+      expect(response.body.error.code).toBe('INVALID_GAME_ACTION');
+    });
+
+    it('should return 404 for non-existent game', async () => {
+      const response = await request(app).get('/api/games/nonexistent-id/replay.gif').expect(404);
+
+      expect(response.body.error.code).toBe('GAME_NOT_FOUND');
+    });
   });
 });
 
@@ -15,6 +15,7 @@ import request from 'supertest';
 import { Express } from 'express';
 import { createApp, addApiRoutes, finalizeApp } from '@adapters/rest/app';
 import { StatsService } from '@application/services/StatsService';
+import { PluginRegistry } from '@application/PluginRegistry';
 import { InMemoryPlayerIdentityRepository } from '@infrastructure/persistence/InMemoryPlayerIdentityRepository';
 import { GameState, GameLifecycle } from '@domain/models';
 import { loadConfig } from '../../src/config';
@@ -53,6 +54,7 @@ jest.mock('../../src/config', () => ({
 // In-memory implementation for testing
 class InMemoryStatsRepository {
   private games: GameState[] = [];
+  private ratings = new Map<string, number>();
 
   async getPlayerStats(userId: string, gameType?: string) {
     const filteredGames = this.games.filter((game) => {
@@ -88,7 +90,7 @@ class InMemoryStatsRepository {
     };
   }
 
-  async getLeaderboard(gameType?: string, limit: number = 100) {
+  async getLeaderboard(gameType?: string, limit: number = 100, sortBy: string = 'winRate') {
     // Get all players from completed games
     const playerMap = new Map<string, { wins: number; losses: number; totalGames: number }>();
 
@@ -124,8 +126,10 @@ class InMemoryStatsRepository {
         wins: stats.wins,
         losses: stats.losses,
         winRate: stats.wins + stats.losses > 0 ? stats.wins / (stats.wins + stats.losses) : 0,
+        rating: this.ratings.get(userId) ?? 1500,
       }))
       .sort((a, b) => {
+        if (sortBy === 'rating' && b.rating !== a.rating) return b.rating - a.rating;
         if (b.winRate !== a.winRate) return b.winRate - a.winRate;
         return b.totalGames - a.totalGames;
       })
@@ -161,8 +165,13 @@ class InMemoryStatsRepository {
     this.games.push(game);
   }
 
+  setRating(userId: string, rating: number): void {
+    this.ratings.set(userId, rating);
+  }
+
   clear(): void {
     this.games = [];
+    this.ratings.clear();
   }
 }
 
@@ -227,7 +236,7 @@ describe('Leaderboard Routes Integration', () => {
     // Set up dependencies
     playerIdentityRepository = new InMemoryPlayerIdentityRepository();
     statsRepository = new InMemoryStatsRepository();
-    statsService = new StatsService(statsRepository as any);
+    statsService = new StatsService(statsRepository as any, new PluginRegistry());
 
     // Create app with leaderboard routes
     app = createApp(playerIdentityRepository, { disableAuth: true });
@@ -697,6 +706,62 @@ describe('Leaderboard Routes Integration', () => {
     });
   });
 
+  describe('Sorting', () => {
+    beforeEach(() => {
+      // player1 wins every game, player2 wins most of theirs but is rated higher
+      for (let i = 0; i < 5; i++) {
+        statsRepository.addGame(
+          createTestGame(
+            `game_p1_${i}`,
+            'tic-tac-toe',
+            ['player1', 'opponent'],
+            'player1',
+            GameLifecycle.COMPLETED
+          )
+        );
+        statsRepository.addGame(
+          createTestGame(
+            `game_p2_${i}`,
+            'tic-tac-toe',
+            ['player2', 'opponent'],
+            i % 2 === 0 ? 'player2' : 'opponent',
+            GameLifecycle.COMPLETED
+          )
+        );
+      }
+      statsRepository.setRating('player1', 1560);
+      statsRepository.setRating('player2', 1810);
+    });
+
+    it('should sort by win rate by default', async () => {
+      const response = await request(app).get('/api/leaderboard').expect(200);
+
+      expect(response.body[0].userId).toBe('player1');
+    });
+
+    it('should sort by rating when requested', async () => {
+      const response = await request(app).get('/api/leaderboard?sort=rating').expect(200);
+
+      expect(response.body[0]).toMatchObject({ rank: 1, userId: 'player2', rating: 1810 });
+      expect(response.body[1]).toMatchObject({ rank: 2, userId: 'player1', rating: 1560 });
+    });
+
+    it('should sort a game type leaderboard by rating', async () => {
+      const response = await request(app)
+        .get('/api/leaderboard/tic-tac-toe?sort=rating&limit=1')
+        .expect(200);
+
+      expect(response.body).toHaveLength(1);
+      expect(response.body[0].userId).toBe('player2');
+    });
+
+    it('should reject unknown sort orders', async () => {
+      const response = await request(app).get('/api/leaderboard?sort=wins').expect(400);
+
+      expect(response.body.error).toBe('Invalid sort parameter. Must be one of: winRate, rating.');
+    });
+  });
+
   describe('Ranking Order', () => {
     it('should rank by win rate descending', async () => {
       // Create players with different win rates
@@ -0,0 +1,166 @@
+/**
+ * Integration tests for matchmaking routes
+ *
+ * Tests cover:
+ * - POST /api/matchmaking/queue - Join the queue
+ * - GET /api/matchmaking/queue - Get queue status
+ * - DELETE /api/matchmaking/queue - Leave the queue
+ */
+
+import request from 'supertest';
+import { Express } from 'express';
+import { createApp, addApiRoutes, finalizeApp } from '@adapters/rest/app';
+import { createMatchmakingRoutes } from '@adapters/rest/matchmakingRoutes';
+import { MatchmakingService } from '@application/services/MatchmakingService';
+import { GameManagerService } from '@application/services/GameManagerService';
+import { StatsService } from '@application/services/StatsService';
+import { AIPlayerService } from '@application/services/AIPlayerService';
+import { PluginRegistry } from '@application/PluginRegistry';
+import { InMemoryGameRepository } from '@infrastructure/persistence/InMemoryGameRepository';
+import { InMemoryMatchmakingRepository } from '@infrastructure/persistence/InMemoryMatchmakingRepository';
+import { InMemoryPlayerIdentityRepository } from '@infrastructure/persistence/InMemoryPlayerIdentityRepository';
+import { Logger } from '@infrastructure/logging/Logger';
+import { IWebSocketService } from '@domain/interfaces/IWebSocketService';
+import { MockGameEngine } from '../utils';
+
+describe('Matchmaking Routes Integration', () => {
+  let app: Express;
+  let matchmakingService: MatchmakingService;
+
+  beforeEach(() => {
+    const registry = new PluginRegistry();
+    registry.register(new MockGameEngine('tic-tac-toe').withMinPlayers(2).withMaxPlayers(2));
+
+    const gameManagerService = new GameManagerService(registry, new InMemoryGameRepository(), {
+      createAIPlayers: jest.fn().mockResolvedValue([]),
+      isAIPlayer: jest.fn().mockResolvedValue(false),
+    } as unknown as AIPlayerService);
+    const statsService = {
+      getPlayerStats: jest.fn().mockResolvedValue({ winRate: 0.5 }),
+    } as unknown as StatsService;
+    const webSocketService = {
+      sendToUser: jest.fn().mockResolvedValue(undefined),
+    } as unknown as IWebSocketService;
+
+    matchmakingService = new MatchmakingService(
+      new InMemoryMatchmakingRepository(),
+      gameManagerService,
+      statsService,
+      webSocketService,
+      new Logger('error')
+    );
+
+    app = createApp(new InMemoryPlayerIdentityRepository(), { disableAuth: true });
+    addApiRoutes(app, createMatchmakingRoutes(matchmakingService, { disableAuth: true }));
+    finalizeApp(app);
+  });
+
+  describe('POST /api/matchmaking/queue', () => {
+    it('should queue the player and return their status', async () => {
+      const response = await request(app)
+        .post('/api/matchmaking/queue')
+        .send({
+          playerId: 'alice',
+          playerName: 'Alice',
+          gameType: 'tic-tac-toe',
+          customSettings: { boardSize: 3 },
+          winRateRange: 0.2,
+        })
+        .expect(201);
+
+      expect(response.body).toMatchObject({
+        userId: 'alice',
+        username: 'Alice',
+        gameType: 'tic-tac-toe',
+        customSettings: { boardSize: 3 },
+        winRate: 0.5,
+        winRateRange: 0.2,
+        acceptableWinRateRange: 0.2,
+      });
+    });
+
+    it('should require a game type', async () => {
+      const response = await request(app)
+        .post('/api/matchmaking/queue')
+        .send({ playerId: 'alice' })
+        .expect(400);
+
+      expect(response.body.error.code).toBe('VALIDATION_ERROR');
+    });
+
+    it('should reject a non-numeric win-rate range', async () => {
+      await request(app)
+        .post('/api/matchmaking/queue')
+        .send({ playerId: 'alice', gameType: 'tic-tac-toe', winRateRange: 'wide' })
+        .expect(400);
+    });
+
+    it('should reject unsupported game types', async () => {
+      const response = await request(app)
+        .post('/api/matchmaking/queue')
+        .send({ playerId: 'alice', gameType: 'chess' })
+        .expect(400);
+
+      expect(response.body.error.code).toBe('INVALID_MATCHMAKING_REQUEST');
+    });
+
+    it('should return 409 when the player is already queued', async () => {
+      const body = { playerId: 'alice', gameType: 'tic-tac-toe' };
+      await request(app).post('/api/matchmaking/queue').send(body).expect(201);
+
+      const response = await request(app).post('/api/matchmaking/queue').send(body).expect(409);
+
+      expect(response.body.error.code).toBe('ALREADY_QUEUED');
+    });
+  });
+
+  describe('GET /api/matchmaking/queue', () => {
+    it('should return the queued player status', async () => {
+      await request(app)
+        .post('/api/matchmaking/queue')
+        .send({ playerId: 'alice', gameType: 'tic-tac-toe' })
+        .expect(201);
+
+      const response = await request(app).get('/api/matchmaking/queue?playerId=alice').expect(200);
+
+      expect(response.body).toMatchObject({ userId: 'alice', gameType: 'tic-tac-toe' });
+    });
+
+    it('should return 404 for players who are not queued', async () => {
+      const response = await request(app).get('/api/matchmaking/queue?playerId=alice').expect(404);
+
+      expect(response.body.error.code).toBe('NOT_QUEUED');
+    });
+  });
+
+  describe('DELETE /api/matchmaking/queue', () => {
+    it('should remove the player from the queue', async () => {
+      await request(app)
+        .post('/api/matchmaking/queue')
+        .send({ playerId: 'alice', gameType: 'tic-tac-toe' })
+        .expect(201);
+
+      await request(app).delete('/api/matchmaking/queue').send({ playerId: 'alice' }).expect(204);
+
+      await request(app).get('/api/matchmaking/queue?playerId=alice').expect(404);
+    });
+
+    it('should require a player', async () => {
+      await request(app).delete('/api/matchmaking/queue').expect(400);
+    });
+  });
+
+  it('should pair two queued players into a game', async () => {
+    for (const playerId of ['alice', 'bob']) {
+      await request(app)
+        .post('/api/matchmaking/queue')
+        .send({ playerId, gameType: 'tic-tac-toe' })
+        .expect(201);
+    }
+
+    const [game] = await matchmakingService.matchPlayers();
+
+    expect(game.players.map((p) => p.id)).toEqual(['alice', 'bob']);
+    await request(app).get('/api/matchmaking/queue?playerId=alice').expect(404);
+  });
+});
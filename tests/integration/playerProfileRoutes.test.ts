@@ -6,6 +6,7 @@
  * - POST /api/players/profile - Create player profile
  * - GET /api/players/profile - Get current user's profile
  * - PUT /api/players/profile - Update player profile
+ * - PUT /api/players/profile/notifications - Update notification preferences
  * - GET /api/players/:userId/profile - Get player profile by ID (public)
  * - Authentication requirements
  * - Validation errors
@@ -17,7 +18,10 @@ import request from 'supertest';
 import { Express } from 'express';
 import { createApp, addApiRoutes, finalizeApp } from '@adapters/rest/app';
 import { PlayerProfileService } from '@application/services/PlayerProfileService';
-import { IPlayerProfileRepository } from '@domain/interfaces/IPlayerProfileRepository';
+import {
+  IPlayerProfileRepository,
+  UpdatePlayerProfileParams,
+} from '@domain/interfaces/IPlayerProfileRepository';
 import { InMemoryPlayerIdentityRepository } from '@infrastructure/persistence/InMemoryPlayerIdentityRepository';
 import { PlayerProfile } from '@domain/models/PlayerProfile';
 import { loadConfig } from '../../src/config';
@@ -93,27 +97,33 @@ class InMemoryPlayerProfileRepository implements IPlayerProfileRepository {
     return null;
   }
 
-  async update(userId: string, params: { displayName: string }): Promise<PlayerProfile> {
+  async update(userId: string, params: UpdatePlayerProfileParams): Promise<PlayerProfile> {
     const profile = this.profiles.get(userId);
     if (!profile) {
       throw new Error('Profile not found');
     }
 
-    // Check if new display name is taken by another user
-    const existingProfile = await this.findByDisplayName(params.displayName);
-    if (existingProfile && existingProfile.userId !== userId) {
-      throw new Error('Display name is already taken');
-    }
+    if (params.displayName) {
+      // Check if new display name is taken by another user
+      const existingProfile = await this.findByDisplayName(params.displayName);
+      if (existingProfile && existingProfile.userId !== userId) {
+        throw new Error('Display name is already taken');
+      }
 
-    // Remove old display name from set
-    this.displayNames.delete(profile.displayName.toLowerCase());
+      // Remove old display name from set
+      this.displayNames.delete(profile.displayName.toLowerCase());
 
-    // Update profile
-    profile.displayName = params.displayName;
-    profile.updatedAt = new Date();
+      // Update profile
+      profile.displayName = params.displayName;
 
-    // Add new display name to set
-    this.displayNames.add(params.displayName.toLowerCase());
+      // Add new display name to set
+      this.displayNames.add(params.displayName.toLowerCase());
+    }
+
+    if (params.notificationPreferences) {
+      profile.notificationPreferences = params.notificationPreferences;
+    }
+    profile.updatedAt = new Date();
 
     return profile;
   }
@@ -723,6 +733,119 @@ describe('Player Profile Routes Integration', () => {
     });
   });
 
+  describe('PUT /api/players/profile/notifications - Update Notification Preferences', () => {
+    beforeEach(async () => {
+      (getAuth as jest.Mock).mockReturnValue({
+        userId: 'clerk_user_350',
+        sessionId: 'session_350',
+      });
+
+      (clerkClient.users.getUser as jest.Mock).mockResolvedValue({
+        id: 'clerk_user_350',
+        username: 'notifyuser',
+        emailAddresses: [{ emailAddress: 'notify@example.com' }],
+        firstName: 'Notify',
+        lastName: 'User',
+      });
+
+      await request(app)
+        .post('/api/players/profile')
+        .set('Authorization', 'Bearer valid_token')
+        .send({ displayName: 'notifyuser' })
+        .expect(201);
+    });
+
+    it('should require authentication', async () => {
+      (getAuth as jest.Mock).mockReturnValue({ userId: null, sessionId: null });
+
+      await request(app)
+        .put('/api/players/profile/notifications')
+        .send({ emailDigest: false })
+        .expect(401);
+    });
+
+    it('should update the preferences and keep fields that are left out', async () => {
+      const response = await request(app)
+        .put('/api/players/profile/notifications')
+        .set('Authorization', 'Bearer valid_token')
+        .send({ email: 'notify@example.com', emailDigest: true })
+        .expect(200);
+
+      expect(response.body.notificationPreferences).toEqual({
+        channels: ['in-app', 'email'],
+        email: 'notify@example.com',
+        emailDigest: true,
+      });
+
+      const second = await request(app)
+        .put('/api/players/profile/notifications')
+        .set('Authorization', 'Bearer valid_token')
+        .send({ channels: ['in-app'] })
+        .expect(200);
+
+      expect(second.body.notificationPreferences).toEqual({
+        channels: ['in-app'],
+        email: 'notify@example.com',
+        emailDigest: true,
+      });
+    });
+
+    it('should reject unknown channels, bad addresses and a digest without an address', async () => {
+      const unknownChannel = await request(app)
+        .put('/api/players/profile/notifications')
+        .set('Authorization', 'Bearer valid_token')
+        .send({ channels: ['sms'] })
+        .expect(400);
+      expect(unknownChannel.body.error.code).toBe('VALIDATION_ERROR');
+
+      await request(app)
+        .put('/api/players/profile/notifications')
+        .set('Authorization', 'Bearer valid_token')
+        .send({ email: 'not-an-address' })
+        .expect(400);
+
+      const digest = await request(app)
+        .put('/api/players/profile/notifications')
+        .set('Authorization', 'Bearer valid_token')
+        .send({ emailDigest: true })
+        .expect(400);
+      expect(digest.body.error.message).toContain('email address is required');
+    });
+
+    it('should not show the preferences on the public profile', async () => {
+      await request(app)
+        .put('/api/players/profile/notifications')
+        .set('Authorization', 'Bearer valid_token')
+        .send({ email: 'notify@example.com' })
+        .expect(200);
+
+      const response = await request(app).get('/api/players/clerk_user_350/profile').expect(200);
+
+      expect(response.body.displayName).toBe('notifyuser');
+      expect(response.body.notificationPreferences).toBeUndefined();
+    });
+
+    it('should return 404 when profile does not exist', async () => {
+      (getAuth as jest.Mock).mockReturnValue({
+        userId: 'clerk_user_351',
+        sessionId: 'session_351',
+      });
+      (clerkClient.users.getUser as jest.Mock).mockResolvedValue({
+        id: 'clerk_user_351',
+        username: 'noprofile',
+        emailAddresses: [{ emailAddress: 'noprofile@example.com' }],
+      });
+
+      const response = await request(app)
+        .put('/api/players/profile/notifications')
+        .set('Authorization', 'Bearer valid_token')
+        .send({ emailDigest: false })
+        .expect(404);
+
+      expect(response.body.error.code).toBe('PROFILE_NOT_FOUND');
+    });
+  });
+
   describe('GET /api/players/:userId/profile - Get Public Profile', () => {
     it('should allow unauthenticated access to public profiles', async () => {
       // Create a profile first
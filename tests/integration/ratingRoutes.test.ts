@@ -0,0 +1,81 @@
+/**
+ * Integration tests for rating routes
+ *
+ * Tests cover:
+ * - GET /api/players/:userId/rating-history - Get a player's rating changes
+ */
+
+import request from 'supertest';
+import { Express } from 'express';
+import { createApp, addApiRoutes, finalizeApp } from '@adapters/rest/app';
+import { createRatingRoutes } from '@adapters/rest/ratingRoutes';
+import { RatingService } from '@application/services/RatingService';
+import { InMemoryRatingRepository } from '@infrastructure/persistence/InMemoryRatingRepository';
+import { InMemoryPlayerIdentityRepository } from '@infrastructure/persistence/InMemoryPlayerIdentityRepository';
+import { GameLifecycle } from '@domain/models';
+import { GameStateBuilder, createPlayer } from '../utils';
+
+describe('Rating Routes Integration', () => {
+  let app: Express;
+  let ratingService: RatingService;
+
+  beforeEach(() => {
+    ratingService = new RatingService(new InMemoryRatingRepository());
+
+    app = createApp(new InMemoryPlayerIdentityRepository(), { disableAuth: true });
+    addApiRoutes(app, createRatingRoutes(ratingService));
+    finalizeApp(app);
+  });
+
+  async function playRatedGame(gameId: string, gameType: string, winner: string): Promise<void> {
+    await ratingService.recordGameResult(
+      new GameStateBuilder()
+        .withGameId(gameId)
+        .withGameType(gameType)
+        .withPlayers([createPlayer('alice', 'Alice'), createPlayer('bob', 'Bob')])
+        .withLifecycle(GameLifecycle.COMPLETED)
+        .withWinner(winner)
+        .build()
+    );
+  }
+
+  describe('GET /api/players/:userId/rating-history', () => {
+    it('should return the rating after each game, oldest first', async () => {
+      await playRatedGame('game-1', 'tic-tac-toe', 'alice');
+      await playRatedGame('game-2', 'tic-tac-toe', 'bob');
+
+      const response = await request(app).get('/api/players/alice/rating-history').expect(200);
+
+      expect(response.body).toHaveLength(2);
+      expect(response.body[0]).toMatchObject({
+        userId: 'alice',
+        gameType: 'tic-tac-toe',
+        gameId: 'game-1',
+      });
+      expect(response.body[0].ratingChange).toBeGreaterThan(0);
+      expect(response.body[1].gameId).toBe('game-2');
+      expect(response.body[1].ratingChange).toBeLessThan(0);
+      expect(response.body[0]).toHaveProperty('rating');
+      expect(response.body[0]).toHaveProperty('deviation');
+      expect(response.body[0]).toHaveProperty('createdAt');
+    });
+
+    it('should filter by game type', async () => {
+      await playRatedGame('game-1', 'tic-tac-toe', 'alice');
+      await playRatedGame('game-2', 'connect-four', 'alice');
+
+      const response = await request(app)
+        .get('/api/players/alice/rating-history?gameType=connect-four')
+        .expect(200);
+
+      expect(response.body).toHaveLength(1);
+      expect(response.body[0].gameType).toBe('connect-four');
+    });
+
+    it('should return an empty array for players without rated games', async () => {
+      const response = await request(app).get('/api/players/nobody/rating-history').expect(200);
+
+      expect(response.body).toEqual([]);
+    });
+  });
+});
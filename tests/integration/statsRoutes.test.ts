@@ -16,6 +16,7 @@ import request from 'supertest';
 import { Express } from 'express';
 import { createApp, addApiRoutes, finalizeApp } from '@adapters/rest/app';
 import { StatsService } from '@application/services/StatsService';
+import { PluginRegistry } from '@application/PluginRegistry';
 import { InMemoryPlayerIdentityRepository } from '@infrastructure/persistence/InMemoryPlayerIdentityRepository';
 import { GameState, GameLifecycle } from '@domain/models';
 import { loadConfig } from '../../src/config';
@@ -230,7 +231,7 @@ describe('Stats Routes Integration', () => {
     // Set up dependencies
     playerIdentityRepository = new InMemoryPlayerIdentityRepository();
     statsRepository = new InMemoryStatsRepository();
-    statsService = new StatsService(statsRepository as any);
+    statsService = new StatsService(statsRepository as any, new PluginRegistry());
 
     // Create app with stats routes - AUTH ENABLED for testing auth behavior
     app = createApp(playerIdentityRepository, { disableAuth: false });
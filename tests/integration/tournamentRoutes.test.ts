@@ -0,0 +1,211 @@
+/**
+ * Integration tests for tournament routes
+ *
+ * Tests cover:
+ * - POST /api/tournaments - Create a tournament
+ * - GET /api/tournaments - List tournaments
+ * - GET /api/tournaments/:tournamentId - Get a tournament
+ * - POST /api/tournaments/:tournamentId/join - Register for a tournament
+ * - POST /api/tournaments/:tournamentId/start - Start a tournament
+ * - GET /api/tournaments/:tournamentId/standings - Get standings
+ * - GET /api/tournaments/:tournamentId/bracket - Get the bracket
+ */
+
+import request from 'supertest';
+import { Express } from 'express';
+import { createApp, addApiRoutes, finalizeApp } from '@adapters/rest/app';
+import { createTournamentRoutes } from '@adapters/rest/tournamentRoutes';
+import { TournamentService } from '@application/services/TournamentService';
+import { GameManagerService } from '@application/services/GameManagerService';
+import { AIPlayerService } from '@application/services/AIPlayerService';
+import { PluginRegistry } from '@application/PluginRegistry';
+import { InMemoryGameRepository } from '@infrastructure/persistence/InMemoryGameRepository';
+import { InMemoryTournamentRepository } from '@infrastructure/persistence/InMemoryTournamentRepository';
+import { InMemoryPlayerIdentityRepository } from '@infrastructure/persistence/InMemoryPlayerIdentityRepository';
+import { Logger } from '@infrastructure/logging/Logger';
+import { MockGameEngine } from '../utils';
+
+describe('Tournament Routes Integration', () => {
+  let app: Express;
+
+  beforeEach(() => {
+    const registry = new PluginRegistry();
+    registry.register(new MockGameEngine('tic-tac-toe').withMinPlayers(2).withMaxPlayers(2));
+
+    const gameManagerService = new GameManagerService(registry, new InMemoryGameRepository(), {
+      createAIPlayers: jest.fn().mockResolvedValue([]),
+      isAIPlayer: jest.fn().mockResolvedValue(false),
+    } as unknown as AIPlayerService);
+
+    const tournamentService = new TournamentService(
+      new InMemoryTournamentRepository(),
+      gameManagerService,
+      new Logger('error')
+    );
+
+    app = createApp(new InMemoryPlayerIdentityRepository(), { disableAuth: true });
+    addApiRoutes(app, createTournamentRoutes(tournamentService, { disableAuth: true }));
+    finalizeApp(app);
+  });
+
+  async function createTournament(format: string = 'knockout'): Promise<string> {
+    const response = await request(app)
+      .post('/api/tournaments')
+      .send({ playerId: 'organiser', name: 'Office Cup', gameType: 'tic-tac-toe', format })
+      .expect(201);
+    return response.body.tournamentId;
+  }
+
+  function join(tournamentId: string, playerId: string) {
+    return request(app)
+      .post(`/api/tournaments/${tournamentId}/join`)
+      .send({ playerId, playerName: playerId.toUpperCase() });
+  }
+
+  describe('POST /api/tournaments', () => {
+    it('should create a tournament open for registration', async () => {
+      const response = await request(app)
+        .post('/api/tournaments')
+        .send({
+          playerId: 'organiser',
+          name: 'Office Cup',
+          gameType: 'tic-tac-toe',
+          format: 'round_robin',
+        })
+        .expect(201);
+
+      expect(response.body).toMatchObject({
+        name: 'Office Cup',
+        format: 'round_robin',
+        status: 'registration',
+        createdBy: 'organiser',
+      });
+    });
+
+    it('should require a name', async () => {
+      const response = await request(app)
+        .post('/api/tournaments')
+        .send({ playerId: 'organiser', gameType: 'tic-tac-toe', format: 'swiss' })
+        .expect(400);
+
+      expect(response.body.error.code).toBe('VALIDATION_ERROR');
+    });
+
+    it('should reject an unknown format', async () => {
+      const response = await request(app)
+        .post('/api/tournaments')
+        .send({ playerId: 'organiser', name: 'Cup', gameType: 'tic-tac-toe', format: 'ladder' })
+        .expect(400);
+
+      expect(response.body.error.code).toBe('INVALID_TOURNAMENT');
+    });
+  });
+
+  describe('GET /api/tournaments', () => {
+    it('should filter tournaments by status', async () => {
+      await createTournament();
+
+      const open = await request(app).get('/api/tournaments?status=registration').expect(200);
+      const finished = await request(app).get('/api/tournaments?status=completed').expect(200);
+
+      expect(open.body).toHaveLength(1);
+      expect(finished.body).toEqual([]);
+    });
+
+    it('should reject an unknown status', async () => {
+      const response = await request(app).get('/api/tournaments?status=paused').expect(400);
+
+      expect(response.body.error.code).toBe('VALIDATION_ERROR');
+    });
+  });
+
+  describe('GET /api/tournaments/:tournamentId', () => {
+    it('should return 404 for an unknown tournament', async () => {
+      const response = await request(app).get('/api/tournaments/missing').expect(404);
+
+      expect(response.body.error.code).toBe('TOURNAMENT_NOT_FOUND');
+    });
+  });
+
+  describe('POST /api/tournaments/:tournamentId/join', () => {
+    it('should register the player', async () => {
+      const tournamentId = await createTournament();
+
+      const response = await join(tournamentId, 'alice').expect(200);
+
+      expect(response.body.participants).toEqual([{ id: 'alice', name: 'ALICE', seed: 1 }]);
+    });
+
+    it('should reject a second registration', async () => {
+      const tournamentId = await createTournament();
+      await join(tournamentId, 'alice');
+
+      const response = await join(tournamentId, 'alice').expect(409);
+
+      expect(response.body.error.code).toBe('INVALID_TOURNAMENT_ACTION');
+    });
+
+    it('should require a player', async () => {
+      const tournamentId = await createTournament();
+
+      await request(app).post(`/api/tournaments/${tournamentId}/join`).send({}).expect(400);
+    });
+  });
+
+  describe('POST /api/tournaments/:tournamentId/start', () => {
+    it('should start the tournament and pair the first round', async () => {
+      const tournamentId = await createTournament();
+      await join(tournamentId, 'alice');
+      await join(tournamentId, 'bob');
+
+      const response = await request(app)
+        .post(`/api/tournaments/${tournamentId}/start`)
+        .send({ playerId: 'organiser' })
+        .expect(200);
+
+      expect(response.body.status).toBe('in_progress');
+      expect(response.body.rounds[0].matches[0]).toMatchObject({
+        player1Id: 'alice',
+        player2Id: 'bob',
+        gameId: expect.any(String),
+      });
+    });
+
+    it('should only let the organiser start', async () => {
+      const tournamentId = await createTournament();
+      await join(tournamentId, 'alice');
+      await join(tournamentId, 'bob');
+
+      await request(app)
+        .post(`/api/tournaments/${tournamentId}/start`)
+        .send({ playerId: 'alice' })
+        .expect(403);
+    });
+  });
+
+  describe('standings and bracket', () => {
+    it('should return the standings and bracket of a running tournament', async () => {
+      const tournamentId = await createTournament();
+      await join(tournamentId, 'alice');
+      await join(tournamentId, 'bob');
+      await join(tournamentId, 'carol');
+      await request(app)
+        .post(`/api/tournaments/${tournamentId}/start`)
+        .send({ playerId: 'organiser' });
+
+      const standings = await request(app)
+        .get(`/api/tournaments/${tournamentId}/standings`)
+        .expect(200);
+      const bracket = await request(app)
+        .get(`/api/tournaments/${tournamentId}/bracket`)
+        .expect(200);
+
+      expect(standings.body[0]).toMatchObject({ rank: 1, playerId: 'alice', byes: 1, points: 1 });
+      expect(bracket.body).toMatchObject({ format: 'knockout', totalRounds: 2 });
+      expect(bracket.body.rounds[0].matches[1]).toMatchObject({
+        player1Name: 'BOB',
+        player2Name: 'CAROL',
+      });
+    });
+  });
+});
@@ -0,0 +1,216 @@
+/**
+ * Integration tests for webhook routes
+ * Tests registration, ownership checks, the delivery log and the admin endpoints
+ */
+
+import request from 'supertest';
+import express, { Express } from 'express';
+import { AuthenticatedRequest } from '../../src/adapters/rest/auth/types';
+import { AuthenticatedUser } from '../../src/domain/interfaces/authentication';
+import { createWebhookRoutes } from '../../src/adapters/rest/webhookRoutes';
+import { finalizeApp } from '../../src/adapters/rest/app';
+import { WebhookService } from '../../src/application/services/WebhookService';
+import { InMemoryWebhookRepository } from '../../src/infrastructure/persistence/InMemoryWebhookRepository';
+import { InMemoryGameRepository } from '../../src/infrastructure/persistence/InMemoryGameRepository';
+import { WebhookHostPolicy } from '../../src/infrastructure/webhooks/WebhookHostPolicy';
+import { Logger } from '../../src/infrastructure/logging/Logger';
+import { WebhookEventType } from '../../src/domain/models';
+import { GameStateBuilder, createPlayer } from '../utils';
+
+// Mock config
+jest.mock('../../src/config', () => ({
+  loadConfig: jest.fn(),
+}));
+
+import { loadConfig } from '../../src/config';
+
+// Simulates clerkMiddleware by setting req.user from a header
+function testAuthentication(req: AuthenticatedRequest, _res: unknown, next: () => void): void {
+  const userId = req.headers['x-test-user-id'] as string;
+  if (userId) {
+    req.user = {
+      id: userId,
+      externalId: `clerk_${userId}`,
+      username: `user_${userId}`,
+      email: `${userId}@example.com`,
+    } as AuthenticatedUser;
+  }
+  next();
+}
+
+describe('Webhook Routes', () => {
+  const admin = 'admin_user_123';
+  let app: Express;
+  let service: WebhookService;
+
+  const game = new GameStateBuilder()
+    .withGameId('game-1')
+    .withGameType('tic-tac-toe')
+    .withPlayers([createPlayer('alice', 'Alice'), createPlayer('bob', 'Bob')])
+    .build();
+
+  beforeEach(async () => {
+    (loadConfig as jest.Mock).mockReturnValue({ adminUserIds: [admin] });
+
+    const gameRepository = new InMemoryGameRepository();
+    await gameRepository.save(game);
+    service = new WebhookService(
+      new InMemoryWebhookRepository(),
+      gameRepository,
+      new WebhookHostPolicy([], async () => ['93.184.215.14']),
+      [admin],
+      new Logger('error', 'json')
+    );
+
+    app = express();
+    app.use(express.json());
+    app.use(testAuthentication);
+    app.use('/api', createWebhookRoutes(service));
+    finalizeApp(app);
+  });
+
+  async function register(userId: string, body: Record<string, unknown> = {}) {
+    return request(app)
+      .post('/api/webhooks')
+      .set('x-test-user-id', userId)
+      .send({ url: 'https://example.com/hooks', gameId: 'game-1', ...body });
+  }
+
+  describe('POST /api/webhooks', () => {
+    it('should register a webhook and return its secret once', async () => {
+      const response = await register('alice', {
+        eventTypes: ['move.applied', 'game.completed'],
+        gameId: 'game-1',
+      });
+
+      expect(response.status).toBe(201);
+      expect(response.body).toMatchObject({
+        ownerId: 'alice',
+        url: 'https://example.com/hooks',
+        eventTypes: ['move.applied', 'game.completed'],
+        gameId: 'game-1',
+        secret: expect.stringMatching(/^[0-9a-f]{64}$/),
+      });
+
+      const listed = await request(app).get('/api/webhooks').set('x-test-user-id', 'alice');
+      expect(listed.status).toBe(200);
+      expect(listed.body).toHaveLength(1);
+      expect(listed.body[0]).not.toHaveProperty('secret');
+    });
+
+    it('should reject an invalid webhook', async () => {
+      const response = await register('alice', { url: 'ftp://example.com' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.code).toBe('INVALID_WEBHOOK');
+    });
+
+    it('should refuse a webhook for a game the user does not play in', async () => {
+      const response = await register('carol');
+
+      expect(response.status).toBe(403);
+      expect(response.body.error.code).toBe('FORBIDDEN');
+    });
+
+    it('should let only admins leave out the game filters', async () => {
+      expect((await register('alice', { gameId: undefined })).status).toBe(403);
+      expect((await register(admin, { gameId: undefined })).status).toBe(201);
+    });
+
+    it('should require authentication', async () => {
+      await request(app).post('/api/webhooks').send({ url: 'https://example.com' }).expect(401);
+      await request(app).get('/api/webhooks').expect(401);
+    });
+  });
+
+  describe('managing a webhook', () => {
+    let webhookId: string;
+
+    beforeEach(async () => {
+      webhookId = (await register('alice')).body.webhookId;
+      await service.publish(WebhookEventType.GAME_CREATED, game, { creatorId: 'alice' });
+    });
+
+    it('should return the delivery log to the owner', async () => {
+      const response = await request(app)
+        .get(`/api/webhooks/${webhookId}/deliveries`)
+        .set('x-test-user-id', 'alice');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toHaveLength(1);
+      expect(response.body[0]).toMatchObject({
+        webhookId,
+        status: 'pending',
+        attempts: 0,
+        event: { type: 'game.created', gameId: 'game-1' },
+      });
+    });
+
+    it('should reject an invalid limit', async () => {
+      const response = await request(app)
+        .get(`/api/webhooks/${webhookId}/deliveries?limit=0`)
+        .set('x-test-user-id', 'alice');
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.code).toBe('VALIDATION_ERROR');
+    });
+
+    it("should not show or delete other users' webhooks", async () => {
+      for (const path of [`/api/webhooks/${webhookId}`, `/api/webhooks/${webhookId}/deliveries`]) {
+        const response = await request(app).get(path).set('x-test-user-id', 'bob');
+        expect(response.status).toBe(404);
+        expect(response.body.error.code).toBe('WEBHOOK_NOT_FOUND');
+      }
+      await request(app)
+        .delete(`/api/webhooks/${webhookId}`)
+        .set('x-test-user-id', 'bob')
+        .expect(404);
+
+      await request(app)
+        .get(`/api/webhooks/${webhookId}`)
+        .set('x-test-user-id', 'alice')
+        .expect(200);
+    });
+
+    it('should let the owner delete the webhook', async () => {
+      await request(app)
+        .delete(`/api/webhooks/${webhookId}`)
+        .set('x-test-user-id', 'alice')
+        .expect(204);
+
+      await request(app)
+        .get(`/api/webhooks/${webhookId}`)
+        .set('x-test-user-id', 'alice')
+        .expect(404);
+    });
+  });
+
+  describe('admin endpoints', () => {
+    it('should require an admin', async () => {
+      await request(app).get('/api/admin/webhooks').expect(401);
+      await request(app).get('/api/admin/webhooks').set('x-test-user-id', 'alice').expect(403);
+    });
+
+    it("should list, inspect and delete any user's webhooks", async () => {
+      const webhookId = (await register('alice')).body.webhookId;
+      await register('bob');
+
+      const listed = await request(app).get('/api/admin/webhooks').set('x-test-user-id', admin);
+      expect(listed.status).toBe(200);
+      expect(listed.body.map((w: { ownerId: string }) => w.ownerId)).toEqual(['alice', 'bob']);
+
+      await request(app)
+        .get(`/api/admin/webhooks/${webhookId}/deliveries`)
+        .set('x-test-user-id', admin)
+        .expect(200, []);
+
+      await request(app)
+        .delete(`/api/admin/webhooks/${webhookId}`)
+        .set('x-test-user-id', admin)
+        .expect(204);
+
+      const remaining = await request(app).get('/api/webhooks').set('x-test-user-id', 'alice');
+      expect(remaining.body).toEqual([]);
+    });
+  });
+});
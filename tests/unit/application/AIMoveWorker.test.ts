@@ -0,0 +1,202 @@
+import { AIMoveWorker } from '@application/services/AIMoveWorker';
+import { AIPlayerService } from '@application/services/AIPlayerService';
+import { GameManagerService } from '@application/services/GameManagerService';
+import { StateManagerService } from '@application/services/StateManagerService';
+import { GameLockManager } from '@application/GameLockManager';
+import { DomainEventBus } from '@application/events/DomainEventBus';
+import { WebSocketEventHandler } from '@application/events/WebSocketEventHandler';
+import { PluginRegistry } from '@application/PluginRegistry';
+import { InMemoryGameRepository } from '@infrastructure/persistence/InMemoryGameRepository';
+import { InMemoryAIPlayerRepository } from '@infrastructure/persistence/InMemoryAIPlayerRepository';
+import { InMemoryAIMoveQueue } from '@infrastructure/persistence/InMemoryAIMoveQueue';
+import { Logger } from '@infrastructure/logging/Logger';
+import { GameLifecycle, GameState, createAIMoveJob } from '@domain/models';
+import { IWebSocketService, WebSocketMessageType } from '@domain/interfaces/IWebSocketService';
+import { TicTacToeEngine } from '@games/tic-tac-toe/engine';
+
+describe('AIMoveWorker', () => {
+  let repository: InMemoryGameRepository;
+  let queue: InMemoryAIMoveQueue;
+  let logger: Logger;
+  let webSocketService: jest.Mocked<IWebSocketService>;
+  let gameManager: GameManagerService;
+  let stateManager: StateManagerService;
+  let worker: AIMoveWorker;
+
+  beforeEach(() => {
+    const registry = new PluginRegistry();
+    registry.register(new TicTacToeEngine());
+    const lockManager = new GameLockManager();
+
+    repository = new InMemoryGameRepository();
+    queue = new InMemoryAIMoveQueue();
+    logger = new Logger('error', 'json');
+    webSocketService = {
+      registerConnection: jest.fn(),
+      unregisterConnection: jest.fn(),
+      subscribe: jest.fn(),
+      unsubscribe: jest.fn(),
+      observe: jest.fn(),
+      unobserve: jest.fn(),
+      broadcastToGame: jest.fn().mockResolvedValue(undefined),
+      sendToUser: jest.fn().mockResolvedValue(undefined),
+      getConnectionCount: jest.fn().mockReturnValue(0),
+      getGameSubscriberCount: jest.fn().mockReturnValue(0),
+      getGameObserverCount: jest.fn().mockReturnValue(0),
+    };
+
+    const eventBus = new DomainEventBus(logger);
+    new WebSocketEventHandler(webSocketService, registry).register(eventBus);
+
+    const aiPlayerService = new AIPlayerService(
+      registry,
+      new InMemoryAIPlayerRepository(),
+      repository,
+      logger
+    );
+    gameManager = new GameManagerService(
+      registry,
+      repository,
+      aiPlayerService,
+      lockManager,
+      undefined,
+      queue
+    );
+    stateManager = new StateManagerService(
+      repository,
+      registry,
+      lockManager,
+      eventBus,
+      aiPlayerService,
+      queue
+    );
+    worker = new AIMoveWorker(queue, repository, registry, aiPlayerService, stateManager, logger);
+  });
+
+  async function runUntilIdle(maxPasses: number = 20): Promise<number> {
+    let played = 0;
+    for (let pass = 0; pass < maxPasses && (await queue.findAll()).length > 0; pass++) {
+      played += await worker.processJobs();
+    }
+    return played;
+  }
+
+  it('should play an AI-vs-AI game to completion', async () => {
+    const created = await gameManager.createGame('tic-tac-toe', {
+      aiPlayers: [{ name: 'Bot X' }, { name: 'Bot O' }],
+    });
+
+    expect(created.moveHistory).toHaveLength(0);
+    expect(await queue.findAll()).toHaveLength(1);
+
+    const played = await runUntilIdle();
+
+    const game = (await repository.findById(created.gameId))!;
+    expect(game.lifecycle).toBe(GameLifecycle.COMPLETED);
+    expect(game.moveHistory).toHaveLength(played);
+    expect(await queue.findAll()).toEqual([]);
+    expect(webSocketService.broadcastToGame).toHaveBeenCalledWith(
+      created.gameId,
+      expect.objectContaining({ type: WebSocketMessageType.GAME_COMPLETE })
+    );
+  });
+
+  it('should queue the AI reply to a human move instead of playing it in the request', async () => {
+    const created = await gameManager.createGame('tic-tac-toe', {
+      players: [{ id: 'human', name: 'Human', joinedAt: new Date() }],
+      aiPlayers: [{ name: 'Bot' }],
+    });
+    expect(await queue.findAll()).toEqual([]);
+
+    const afterMove = await stateManager.applyMove(
+      created.gameId,
+      'human',
+      { playerId: 'human', timestamp: new Date(), action: 'place', parameters: { row: 0, col: 0 } },
+      created.version
+    );
+
+    expect(afterMove.moveHistory).toHaveLength(1);
+    expect(await queue.findAll()).toEqual([expect.objectContaining({ gameId: created.gameId })]);
+
+    expect(await worker.processJobs()).toBe(1);
+
+    const game = (await repository.findById(created.gameId))!;
+    expect(game.moveHistory).toHaveLength(2);
+    expect(await queue.findAll()).toEqual([]);
+    expect(webSocketService.broadcastToGame).toHaveBeenCalledWith(
+      created.gameId,
+      expect.objectContaining({
+        type: WebSocketMessageType.GAME_UPDATE,
+        gameState: expect.objectContaining({ version: game.version }),
+      }),
+      expect.any(Function)
+    );
+  });
+
+  it('should drop jobs for games that are waiting on a human or have ended', async () => {
+    const created = await gameManager.createGame('tic-tac-toe', {
+      players: [{ id: 'human', name: 'Human', joinedAt: new Date() }],
+      aiPlayers: [{ name: 'Bot' }],
+    });
+    await queue.enqueue(createAIMoveJob(created.gameId));
+    await queue.enqueue(createAIMoveJob('missing-game'));
+
+    expect(await worker.processJobs()).toBe(0);
+    expect(await queue.findAll()).toEqual([]);
+    expect((await repository.findById(created.gameId))!.moveHistory).toHaveLength(0);
+  });
+
+  describe('failures', () => {
+    let gameId: string;
+    const now = new Date('2025-01-01T00:00:00.000Z');
+    const later = (ms: number) => new Date(now.getTime() + ms);
+
+    beforeEach(async () => {
+      const created: GameState = await gameManager.createGame('tic-tac-toe', {
+        aiPlayers: [{ name: 'Bot X' }, { name: 'Bot O' }],
+      });
+      gameId = created.gameId;
+      await queue.enqueue(createAIMoveJob(gameId, now));
+      jest.spyOn(stateManager, 'playAITurn').mockRejectedValue(new Error('strategy crashed'));
+    });
+
+    it('should retry with exponential backoff', async () => {
+      expect(await worker.processJobs(now)).toBe(0);
+      expect(await queue.findAll()).toEqual([
+        expect.objectContaining({ gameId, attempts: 1, runAt: later(1000) }),
+      ]);
+
+      // Not due yet
+      await worker.processJobs(later(999));
+      expect(stateManager.playAITurn).toHaveBeenCalledTimes(1);
+
+      await worker.processJobs(later(1000));
+      expect(await queue.findAll()).toEqual([
+        expect.objectContaining({ attempts: 2, runAt: later(3000), lastError: 'strategy crashed' }),
+      ]);
+    });
+
+    it('should give up after the last attempt', async () => {
+      const errorSpy = jest.spyOn(logger, 'error');
+
+      await worker.processJobs(now);
+      await worker.processJobs(later(1000));
+      await worker.processJobs(later(3000));
+
+      expect(stateManager.playAITurn).toHaveBeenCalledTimes(3);
+      expect(await queue.findAll()).toEqual([]);
+      expect(errorSpy).toHaveBeenCalledWith(
+        'AI move failed, giving up',
+        expect.objectContaining({ gameId, attempts: 3 })
+      );
+    });
+
+    it('should succeed on a retry', async () => {
+      (stateManager.playAITurn as jest.Mock).mockRestore();
+
+      await queue.enqueue({ ...createAIMoveJob(gameId, now), attempts: 1 });
+      expect(await worker.processJobs(now)).toBe(1);
+      expect((await repository.findById(gameId))!.moveHistory).toHaveLength(1);
+    });
+  });
+});
@@ -6,7 +6,7 @@ import { AIPlayer } from '@domain/models/AIPlayer';
 import { AIStrategy, AICapableGamePlugin } from '@domain/interfaces';
 import { GameState, Move } from '@domain/models';
 import { AIStrategyNotFoundError, InvalidAIConfigurationError } from '@domain/errors';
-import { MockGameEngine } from '../../utils';
+import { MockGameEngine, GameStateBuilder, createPlayer } from '../../utils';
 
 // Mock AI Strategy for testing
 class MockAIStrategy implements AIStrategy {
@@ -219,6 +219,42 @@ describe('AIPlayerService', () => {
     });
   });
 
+  describe('restoreAIPlayers', () => {
+    it('should re-register AI seats missing from the repository', async () => {
+      const aiSeat = new AIPlayer('ai-1', 'Bot', 'tic-tac-toe', 'default', 'easy', {
+        depth: 2,
+      }).toPlayer();
+      const game = new GameStateBuilder()
+        .withGameType('tic-tac-toe')
+        .withPlayers([createPlayer('human-1', 'Human'), aiSeat])
+        .build();
+
+      const restored = await service.restoreAIPlayers(game);
+
+      expect(restored).toBe(1);
+      expect(await service.isAIPlayer('ai-1')).toBe(true);
+      expect(await service.isAIPlayer('human-1')).toBe(false);
+      expect(await aiRepository.findById('ai-1')).toMatchObject({
+        name: 'Bot',
+        gameType: 'tic-tac-toe',
+        strategyId: 'default',
+        difficulty: 'easy',
+        configuration: { depth: 2 },
+      });
+    });
+
+    it('should leave AI players that are already registered alone', async () => {
+      pluginRegistry.register(new MockAIGameEngine('tic-tac-toe'));
+      const [aiPlayer] = await service.createAIPlayers('tic-tac-toe', [{ name: 'Bot' }]);
+      const game = new GameStateBuilder()
+        .withGameType('tic-tac-toe')
+        .withPlayers([createPlayer('human-1', 'Human'), aiPlayer.toPlayer()])
+        .build();
+
+      expect(await service.restoreAIPlayers(game)).toBe(0);
+    });
+  });
+
   describe('getAvailableStrategies', () => {
     it('should return available strategies for AI-capable game type', () => {
       const strategies = [
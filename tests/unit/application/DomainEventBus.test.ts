@@ -0,0 +1,94 @@
+import { DomainEventBus } from '@application/events/DomainEventBus';
+import { Logger } from '@infrastructure/logging/Logger';
+import { DomainEventType, GameLifecycle, GameUpdatedDomainEvent } from '@domain/models';
+import { GameStateBuilder, createPlayer } from '../../utils';
+
+describe('DomainEventBus', () => {
+  let logger: Logger;
+  let bus: DomainEventBus;
+
+  const event: GameUpdatedDomainEvent = {
+    type: DomainEventType.GAME_UPDATED,
+    game: new GameStateBuilder()
+      .withGameId('game-1')
+      .withLifecycle(GameLifecycle.ACTIVE)
+      .withPlayers([createPlayer('alice', 'Alice'), createPlayer('bob', 'Bob')])
+      .build(),
+    reason: 'move',
+  };
+
+  beforeEach(() => {
+    logger = new Logger('error', 'json');
+    bus = new DomainEventBus(logger);
+  });
+
+  it('should deliver events only to subscribers of their type', async () => {
+    const updated = jest.fn();
+    const completed = jest.fn();
+    bus.subscribe(DomainEventType.GAME_UPDATED, updated);
+    bus.subscribe(DomainEventType.GAME_COMPLETED, completed);
+
+    await bus.publish(event);
+
+    expect(updated).toHaveBeenCalledWith(event);
+    expect(completed).not.toHaveBeenCalled();
+  });
+
+  it('should wait for asynchronous handlers', async () => {
+    const order: string[] = [];
+    bus.subscribe(DomainEventType.GAME_UPDATED, async () => {
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      order.push('handler');
+    });
+
+    await bus.publish(event);
+    order.push('published');
+
+    expect(order).toEqual(['handler', 'published']);
+  });
+
+  it('should isolate and log failing handlers', async () => {
+    const errorSpy = jest.spyOn(logger, 'error');
+    const healthy = jest.fn();
+    bus.subscribe(
+      DomainEventType.GAME_UPDATED,
+      () => {
+        throw new Error('boom');
+      },
+      'throws'
+    );
+    bus.subscribe(
+      DomainEventType.GAME_UPDATED,
+      () => Promise.reject(new Error('rejected')),
+      'rejects'
+    );
+    bus.subscribe(DomainEventType.GAME_UPDATED, healthy);
+
+    await expect(bus.publish(event)).resolves.toBeUndefined();
+
+    expect(healthy).toHaveBeenCalled();
+    expect(errorSpy).toHaveBeenCalledTimes(2);
+    expect(errorSpy).toHaveBeenCalledWith('Domain event handler failed', {
+      eventType: DomainEventType.GAME_UPDATED,
+      handler: 'throws',
+      gameId: 'game-1',
+      error: 'boom',
+    });
+    expect(errorSpy).toHaveBeenCalledWith(
+      'Domain event handler failed',
+      expect.objectContaining({ handler: 'rejects', error: 'rejected' })
+    );
+  });
+
+  it('should stop delivering once unsubscribed', async () => {
+    const handler = jest.fn();
+    const unsubscribe = bus.subscribe(DomainEventType.GAME_UPDATED, handler);
+    expect(bus.getSubscriberCount(DomainEventType.GAME_UPDATED)).toBe(1);
+
+    unsubscribe();
+    await bus.publish(event);
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(bus.getSubscriberCount(DomainEventType.GAME_UPDATED)).toBe(0);
+  });
+});
@@ -0,0 +1,445 @@
+import { DomainEventBus } from '@application/events/DomainEventBus';
+import { WebSocketEventHandler } from '@application/events/WebSocketEventHandler';
+import { NotificationEventHandler } from '@application/events/NotificationEventHandler';
+import { RatingEventHandler } from '@application/events/RatingEventHandler';
+import { TournamentEventHandler } from '@application/events/TournamentEventHandler';
+import { WebhookEventHandler } from '@application/events/WebhookEventHandler';
+import { NotificationService } from '@application/services/NotificationService';
+import { RatingService } from '@application/services/RatingService';
+import { TournamentService } from '@application/services/TournamentService';
+import { WebhookService } from '@application/services/WebhookService';
+import { PluginRegistry } from '@application/PluginRegistry';
+import { Logger } from '@infrastructure/logging/Logger';
+import {
+  GameUpdateMessage,
+  IWebSocketService,
+  WebSocketMessageType,
+} from '@domain/interfaces/IWebSocketService';
+import { createGameRandomness } from '@domain/game-utils/FairRandom';
+import {
+  DomainEventType,
+  GameInvitation,
+  GameLifecycle,
+  GameState,
+  InvitationStatus,
+  WebhookEventType,
+} from '@domain/models';
+import { GameStateBuilder, createPlayer } from '../../utils';
+import { TicTacToeEngine } from '@games/tic-tac-toe/engine';
+
+/**
+ * Tic-tac-toe with view hooks that record who each view was built for
+ */
+class HiddenInformationEngine extends TicTacToeEngine {
+  getPlayerView(state: GameState, playerId: string): GameState {
+    return { ...state, metadata: { ...state.metadata, viewer: playerId } };
+  }
+
+  getSpectatorView(state: GameState): GameState {
+    return { ...state, metadata: { ...state.metadata, viewer: 'spectator' } };
+  }
+}
+
+describe('Domain event handlers', () => {
+  let bus: DomainEventBus;
+
+  const players = [
+    createPlayer('alice', 'Alice'),
+    { ...createPlayer('bot', 'Bot'), metadata: { isAI: true } },
+  ];
+
+  function createGame(lifecycle: GameLifecycle): GameState {
+    return new GameStateBuilder()
+      .withGameId('game-1')
+      .withGameType('tic-tac-toe')
+      .withLifecycle(lifecycle)
+      .withPlayers(players)
+      .build();
+  }
+
+  const invitation: GameInvitation = {
+    invitationId: 'inv-1',
+    gameId: 'game-1',
+    inviterId: 'alice',
+    inviteeId: 'carol',
+    status: InvitationStatus.PENDING,
+    createdAt: new Date(),
+  };
+
+  beforeEach(() => {
+    bus = new DomainEventBus(new Logger('error', 'json'));
+  });
+
+  describe('WebSocketEventHandler', () => {
+    let webSocketService: jest.Mocked<IWebSocketService>;
+
+    beforeEach(() => {
+      webSocketService = {
+        registerConnection: jest.fn(),
+        unregisterConnection: jest.fn(),
+        subscribe: jest.fn(),
+        unsubscribe: jest.fn(),
+        observe: jest.fn(),
+        unobserve: jest.fn(),
+        broadcastToGame: jest.fn().mockResolvedValue(undefined),
+        sendToUser: jest.fn().mockResolvedValue(undefined),
+        getConnectionCount: jest.fn().mockReturnValue(0),
+        getGameSubscriberCount: jest.fn().mockReturnValue(0),
+        getGameObserverCount: jest.fn().mockReturnValue(0),
+      };
+      const registry = new PluginRegistry();
+      registry.register(new HiddenInformationEngine());
+      new WebSocketEventHandler(webSocketService, registry).register(bus);
+    });
+
+    it('should broadcast updates with AI indicators', async () => {
+      await bus.publish({
+        type: DomainEventType.GAME_UPDATED,
+        game: createGame(GameLifecycle.ACTIVE),
+        reason: 'move',
+      });
+
+      expect(webSocketService.broadcastToGame).toHaveBeenCalledWith(
+        'game-1',
+        expect.objectContaining({
+          type: WebSocketMessageType.GAME_UPDATE,
+          gameState: expect.objectContaining({
+            metadata: expect.objectContaining({ hasAIPlayers: true, aiPlayerCount: 1 }),
+          }),
+        }),
+        expect.any(Function)
+      );
+    });
+
+    it('should send each recipient the view they may see', async () => {
+      await bus.publish({
+        type: DomainEventType.GAME_UPDATED,
+        game: createGame(GameLifecycle.ACTIVE),
+        reason: 'move',
+      });
+
+      const [[, message, forRecipient]] = webSocketService.broadcastToGame.mock.calls;
+      const viewerOf = (m: unknown) => (m as GameUpdateMessage).gameState.metadata.viewer;
+      expect(viewerOf(message)).toBe('spectator');
+      expect(viewerOf(forRecipient!('alice'))).toBe('alice');
+      expect(viewerOf(forRecipient!('carol'))).toBe('spectator');
+      expect((forRecipient!('alice') as GameUpdateMessage).gameState.metadata).toMatchObject({
+        hasAIPlayers: true,
+      });
+    });
+
+    it("should leave out the server seed of a game that's still in progress", async () => {
+      const randomness = createGameRandomness('secret');
+      const game = { ...createGame(GameLifecycle.ACTIVE), metadata: { randomness } };
+
+      await bus.publish({ type: DomainEventType.GAME_UPDATED, game, reason: 'move' });
+
+      const [[, message, forRecipient]] = webSocketService.broadcastToGame.mock.calls;
+      for (const sent of [message, forRecipient!('alice')]) {
+        expect((sent as GameUpdateMessage).gameState.metadata.randomness).toEqual({
+          commitment: randomness.commitment,
+        });
+      }
+    });
+
+    it('should broadcast joins and completions', async () => {
+      await bus.publish({
+        type: DomainEventType.PLAYER_JOINED,
+        game: createGame(GameLifecycle.ACTIVE),
+        playerId: 'bot',
+      });
+      await bus.publish({
+        type: DomainEventType.GAME_COMPLETED,
+        game: createGame(GameLifecycle.COMPLETED),
+        winner: 'alice',
+        isDraw: false,
+        rated: true,
+      });
+
+      expect(
+        webSocketService.broadcastToGame.mock.calls.map(([, message]) => message.type)
+      ).toEqual([WebSocketMessageType.GAME_UPDATE, WebSocketMessageType.GAME_COMPLETE]);
+      expect(webSocketService.broadcastToGame).toHaveBeenLastCalledWith(
+        'game-1',
+        expect.objectContaining({ winner: 'alice' })
+      );
+    });
+
+    it('should send invitations to the invitee', async () => {
+      await bus.publish({
+        type: DomainEventType.INVITATION_SENT,
+        game: createGame(GameLifecycle.WAITING_FOR_PLAYERS),
+        invitation,
+        inviterName: 'Alice',
+      });
+
+      expect(webSocketService.sendToUser).toHaveBeenCalledWith(
+        'carol',
+        expect.objectContaining({
+          type: WebSocketMessageType.INVITATION,
+          invitationId: 'inv-1',
+          gameId: 'game-1',
+          inviterName: 'Alice',
+        })
+      );
+    });
+  });
+
+  describe('NotificationEventHandler', () => {
+    let notificationService: jest.Mocked<
+      Pick<
+        NotificationService,
+        'notifyTurn' | 'notifyGameComplete' | 'notifyInvitation' | 'clearTurnNotification'
+      >
+    >;
+
+    function register(turnDelayMs: number = 0) {
+      new NotificationEventHandler(
+        notificationService as unknown as NotificationService,
+        turnDelayMs,
+        new Logger('error', 'json')
+      ).register(bus);
+    }
+
+    beforeEach(() => {
+      notificationService = {
+        notifyTurn: jest.fn().mockResolvedValue(undefined),
+        notifyGameComplete: jest.fn().mockResolvedValue(undefined),
+        notifyInvitation: jest.fn().mockResolvedValue(undefined),
+        clearTurnNotification: jest.fn().mockResolvedValue(undefined),
+      };
+    });
+
+    it('should clear the previous player and notify the player whose turn it is', async () => {
+      register();
+
+      await bus.publish({
+        type: DomainEventType.TURN_CHANGED,
+        game: createGame(GameLifecycle.ACTIVE),
+        previousPlayerId: 'bot',
+        currentPlayerId: 'alice',
+      });
+
+      expect(notificationService.clearTurnNotification).toHaveBeenCalledWith('bot', 'game-1');
+      expect(notificationService.notifyTurn).toHaveBeenCalledWith('alice', 'game-1', 0);
+    });
+
+    it('should not wait for a delayed turn notification', async () => {
+      register(60000);
+      notificationService.notifyTurn.mockReturnValue(new Promise(() => {}));
+
+      await bus.publish({
+        type: DomainEventType.TURN_CHANGED,
+        game: createGame(GameLifecycle.ACTIVE),
+        previousPlayerId: null,
+        currentPlayerId: 'alice',
+      });
+
+      expect(notificationService.notifyTurn).toHaveBeenCalledWith('alice', 'game-1', 60000);
+      expect(notificationService.clearTurnNotification).not.toHaveBeenCalled();
+    });
+
+    it('should never notify AI players or seats taken over by the AI', async () => {
+      register();
+      const game = createGame(GameLifecycle.ACTIVE);
+      const takenOver: GameState = {
+        ...game,
+        players: [
+          { ...players[0], metadata: { aiTakeover: { strategyId: 'random', since: 'now' } } },
+          players[1],
+        ],
+      };
+
+      await bus.publish({
+        type: DomainEventType.TURN_CHANGED,
+        game,
+        previousPlayerId: 'alice',
+        currentPlayerId: 'bot',
+      });
+      await bus.publish({
+        type: DomainEventType.TURN_CHANGED,
+        game: takenOver,
+        previousPlayerId: 'bot',
+        currentPlayerId: 'alice',
+      });
+
+      expect(notificationService.notifyTurn).not.toHaveBeenCalled();
+    });
+
+    it('should clear the turn notification once the player moves', async () => {
+      register();
+
+      await bus.publish({
+        type: DomainEventType.MOVE_APPLIED,
+        game: createGame(GameLifecycle.ACTIVE),
+        playerId: 'alice',
+        move: { playerId: 'alice', timestamp: new Date(), action: 'place', parameters: {} },
+      });
+
+      expect(notificationService.clearTurnNotification).toHaveBeenCalledWith('alice', 'game-1');
+    });
+
+    it('should clear everyone when a game is abandoned', async () => {
+      register();
+
+      await bus.publish({
+        type: DomainEventType.GAME_UPDATED,
+        game: createGame(GameLifecycle.ABANDONED),
+        reason: 'abort',
+      });
+
+      expect(notificationService.clearTurnNotification.mock.calls).toEqual([
+        ['alice', 'game-1'],
+        ['bot', 'game-1'],
+      ]);
+    });
+
+    it('should clear turns and notify the human players of the result', async () => {
+      register();
+      await bus.publish({
+        type: DomainEventType.GAME_COMPLETED,
+        game: createGame(GameLifecycle.COMPLETED),
+        winner: null,
+        isDraw: true,
+        rated: true,
+      });
+
+      expect(notificationService.clearTurnNotification).toHaveBeenCalledTimes(2);
+      expect(notificationService.notifyGameComplete.mock.calls).toEqual([
+        ['alice', 'game-1', null],
+      ]);
+    });
+
+    it('should notify the invitee of an invitation', async () => {
+      register();
+      await bus.publish({
+        type: DomainEventType.INVITATION_SENT,
+        game: createGame(GameLifecycle.WAITING_FOR_PLAYERS),
+        invitation,
+        inviterName: 'Alice',
+      });
+
+      expect(notificationService.notifyInvitation).toHaveBeenCalledWith(
+        'carol',
+        'game-1',
+        'inv-1',
+        'Alice'
+      );
+    });
+  });
+
+  describe('RatingEventHandler and TournamentEventHandler', () => {
+    let ratingService: jest.Mocked<Pick<RatingService, 'recordGameResult'>>;
+    let tournamentService: jest.Mocked<Pick<TournamentService, 'recordGameResult'>>;
+
+    beforeEach(() => {
+      ratingService = { recordGameResult: jest.fn().mockResolvedValue([]) };
+      tournamentService = { recordGameResult: jest.fn().mockResolvedValue(null) };
+      new RatingEventHandler(ratingService as unknown as RatingService).register(bus);
+      new TournamentEventHandler(tournamentService as unknown as TournamentService).register(bus);
+    });
+
+    it('should record rated results for ratings and tournaments', async () => {
+      const game = createGame(GameLifecycle.COMPLETED);
+
+      await bus.publish({
+        type: DomainEventType.GAME_COMPLETED,
+        game,
+        winner: 'alice',
+        isDraw: false,
+        rated: true,
+      });
+
+      expect(ratingService.recordGameResult).toHaveBeenCalledWith(game);
+      expect(tournamentService.recordGameResult).toHaveBeenCalledWith(game);
+    });
+
+    it('should leave ratings alone for unrated results', async () => {
+      await bus.publish({
+        type: DomainEventType.GAME_COMPLETED,
+        game: createGame(GameLifecycle.COMPLETED),
+        winner: null,
+        isDraw: false,
+        rated: false,
+      });
+
+      expect(ratingService.recordGameResult).not.toHaveBeenCalled();
+      expect(tournamentService.recordGameResult).toHaveBeenCalled();
+    });
+
+    it('should report abandoned games to tournaments only', async () => {
+      await bus.publish({
+        type: DomainEventType.GAME_UPDATED,
+        game: createGame(GameLifecycle.ACTIVE),
+        reason: 'offer_draw',
+      });
+      expect(tournamentService.recordGameResult).not.toHaveBeenCalled();
+
+      await bus.publish({
+        type: DomainEventType.GAME_UPDATED,
+        game: createGame(GameLifecycle.ABANDONED),
+        reason: 'abort',
+      });
+
+      expect(tournamentService.recordGameResult).toHaveBeenCalledTimes(1);
+      expect(ratingService.recordGameResult).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('WebhookEventHandler', () => {
+    let webhookService: jest.Mocked<Pick<WebhookService, 'publish'>>;
+
+    beforeEach(() => {
+      webhookService = { publish: jest.fn().mockResolvedValue(1) };
+      new WebhookEventHandler(webhookService as unknown as WebhookService).register(bus);
+    });
+
+    it('should record each event as its webhook event', async () => {
+      const game = createGame(GameLifecycle.ACTIVE);
+      const move = { playerId: 'alice', timestamp: new Date(), action: 'place', parameters: {} };
+
+      await bus.publish({ type: DomainEventType.GAME_CREATED, game, creatorId: 'alice' });
+      await bus.publish({ type: DomainEventType.MOVE_APPLIED, game, playerId: 'alice', move });
+      await bus.publish({
+        type: DomainEventType.TURN_CHANGED,
+        game,
+        previousPlayerId: 'alice',
+        currentPlayerId: 'bot',
+      });
+      await bus.publish({
+        type: DomainEventType.INVITATION_SENT,
+        game,
+        invitation,
+        inviterName: 'A',
+      });
+
+      expect(webhookService.publish.mock.calls).toEqual([
+        [
+          WebhookEventType.GAME_CREATED,
+          game,
+          { creatorId: 'alice', players: ['alice', 'bot'], lifecycle: GameLifecycle.ACTIVE },
+        ],
+        [WebhookEventType.MOVE_APPLIED, game, { playerId: 'alice', move, version: game.version }],
+        [
+          WebhookEventType.TURN_CHANGED,
+          game,
+          { previousPlayerId: 'alice', currentPlayerId: 'bot', version: game.version },
+        ],
+        [
+          WebhookEventType.INVITATION_CREATED,
+          game,
+          { invitationId: 'inv-1', inviterId: 'alice', inviteeId: 'carol' },
+        ],
+      ]);
+    });
+
+    it('should not send joins or plain updates', async () => {
+      const game = createGame(GameLifecycle.ACTIVE);
+
+      await bus.publish({ type: DomainEventType.PLAYER_JOINED, game, playerId: 'bot' });
+      await bus.publish({ type: DomainEventType.GAME_UPDATED, game, reason: 'move' });
+
+      expect(webhookService.publish).not.toHaveBeenCalled();
+    });
+  });
+});
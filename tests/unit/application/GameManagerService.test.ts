@@ -2,8 +2,29 @@ import { GameManagerService } from '@application/services/GameManagerService';
 import { AIPlayerService } from '@application/services/AIPlayerService';
 import { PluginRegistry } from '@application/PluginRegistry';
 import { InMemoryGameRepository } from '@infrastructure/persistence/InMemoryGameRepository';
-import { Player, GameState, GameLifecycle } from '@domain/models';
-import { GameNotFoundError, GameFullError } from '@domain/errors';
+import {
+  Player,
+  GameState,
+  GameLifecycle,
+  TimeControlType,
+  TimeoutAction,
+  SpectatorPolicy,
+  InvitationStatus,
+  GameSettingsSchema,
+  DomainEvent,
+  DomainEventType,
+} from '@domain/models';
+import {
+  GameNotFoundError,
+  GameFullError,
+  InvalidTimeControlError,
+  InvalidGameSettingsError,
+  InvalidGameActionError,
+  ForbiddenError,
+} from '@domain/errors';
+import { GameLockManager } from '@application/GameLockManager';
+import { DomainEventBus } from '@application/events/DomainEventBus';
+import { IInvitationRepository } from '@domain/interfaces';
 import { MockGameEngine, createPlayer } from '../../utils';
 
 describe('GameManagerService', () => {
@@ -460,6 +481,317 @@ describe('GameManagerService', () => {
     });
   });
 
+  describe('createGame with time control', () => {
+    const timeControl = { type: TimeControlType.PER_MOVE, daysPerMove: 3 };
+
+    it('should start the clock when a timed game starts active', async () => {
+      const plugin = new MockGameEngine('tic-tac-toe').withMinPlayers(2).withMaxPlayers(2);
+      registry.register(plugin);
+
+      const game = await service.createGame('tic-tac-toe', {
+        players: [createPlayer('player1', 'Alice'), createPlayer('player2', 'Bob')],
+        timeControl,
+      });
+
+      expect(game.metadata.timeControl).toEqual({
+        ...timeControl,
+        onTimeout: TimeoutAction.FORFEIT,
+      });
+      expect(game.metadata.clock.turnPlayerId).toBe('player1');
+    });
+
+    it('should start the clock once the game fills up', async () => {
+      const plugin = new MockGameEngine('tic-tac-toe').withMinPlayers(2).withMaxPlayers(2);
+      registry.register(plugin);
+
+      const game = await service.createGame('tic-tac-toe', {
+        players: [createPlayer('player1', 'Alice')],
+        timeControl,
+      });
+      expect(game.metadata.clock).toBeUndefined();
+
+      const joined = await service.joinGame(game.gameId, createPlayer('player2', 'Bob'));
+
+      expect(joined.metadata.clock.turnPlayerId).toBe('player1');
+    });
+
+    it('should expose the deadline and time remaining through getGame', async () => {
+      const plugin = new MockGameEngine('tic-tac-toe').withMinPlayers(2).withMaxPlayers(2);
+      registry.register(plugin);
+
+      const game = await service.createGame('tic-tac-toe', {
+        players: [createPlayer('player1', 'Alice'), createPlayer('player2', 'Bob')],
+        timeControl,
+      });
+
+      const retrieved = await service.getGame(game.gameId);
+
+      expect(retrieved!.metadata.clockStatus).toEqual({
+        playerId: 'player1',
+        deadline: game.metadata.clock.deadline,
+        timeRemainingMs: expect.any(Number),
+      });
+      expect(retrieved!.metadata.clockStatus.timeRemainingMs).toBeGreaterThan(0);
+    });
+
+    it('should reject an invalid time control', async () => {
+      const plugin = new MockGameEngine('tic-tac-toe').withMinPlayers(2).withMaxPlayers(2);
+      registry.register(plugin);
+
+      await expect(
+        service.createGame('tic-tac-toe', {
+          timeControl: { type: TimeControlType.PER_MOVE, daysPerMove: -1 },
+        })
+      ).rejects.toThrow(InvalidTimeControlError);
+    });
+  });
+
+  describe('custom settings', () => {
+    const schema: GameSettingsSchema = {
+      type: 'object',
+      properties: {
+        size: { type: 'integer', minimum: 3, maximum: 9 },
+        fast: { type: 'boolean' },
+      },
+    };
+
+    beforeEach(() => {
+      registry.register(
+        new MockGameEngine('tic-tac-toe')
+          .withMinPlayers(2)
+          .withMaxPlayers(2)
+          .withConfigSchema(schema)
+      );
+    });
+
+    it('should create a game with settings that match the schema', async () => {
+      const game = await service.createGame('tic-tac-toe', {
+        customSettings: { size: 5, fast: true, gameId: 'kept-for-the-engine' },
+      });
+
+      expect(game.gameType).toBe('tic-tac-toe');
+    });
+
+    it('should reject settings that do not match the schema with every violation', async () => {
+      const error = await service
+        .createGame('tic-tac-toe', { customSettings: { size: 12, fast: 'yes' } })
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(InvalidGameSettingsError);
+      expect(error.statusCode).toBe(400);
+      expect(error.details).toEqual({
+        gameType: 'tic-tac-toe',
+        reason: 'size must be at most 9; fast must be a boolean',
+        violations: [
+          { setting: 'size', message: 'size must be at most 9' },
+          { setting: 'fast', message: 'fast must be a boolean' },
+        ],
+      });
+      expect((await repository.findAll({})).items).toHaveLength(0);
+    });
+
+    it('should list the schema with the game type', () => {
+      expect(service.listAvailableGameTypes()).toEqual([
+        expect.objectContaining({ type: 'tic-tac-toe', configSchema: schema }),
+      ]);
+    });
+  });
+
+  describe('domain events', () => {
+    let events: DomainEvent[];
+
+    beforeEach(() => {
+      events = [];
+      const eventBus = new DomainEventBus();
+      for (const type of Object.values(DomainEventType)) {
+        eventBus.subscribe(type, (event) => {
+          events.push(event);
+        });
+      }
+      service = new GameManagerService(
+        registry,
+        repository,
+        mockAIPlayerService,
+        new GameLockManager(),
+        undefined,
+        undefined,
+        eventBus
+      );
+      registry.register(new MockGameEngine('tic-tac-toe').withMinPlayers(2).withMaxPlayers(2));
+    });
+
+    it('should publish the creation and the first turn of a game that starts at once', async () => {
+      const game = await service.createGame(
+        'tic-tac-toe',
+        { players: [createPlayer('player1', 'Alice'), createPlayer('player2', 'Bob')] },
+        { id: 'player1', username: 'alice' }
+      );
+
+      expect(events).toEqual([
+        expect.objectContaining({ type: DomainEventType.GAME_CREATED, creatorId: 'player1' }),
+        expect.objectContaining({
+          type: DomainEventType.TURN_CHANGED,
+          previousPlayerId: null,
+          currentPlayerId: 'player1',
+        }),
+      ]);
+      expect(events[0].game.gameId).toBe(game.gameId);
+    });
+
+    it('should publish joins, and the first turn once the game starts', async () => {
+      const game = await service.createGame('tic-tac-toe', {
+        players: [createPlayer('player1', 'Alice')],
+      });
+      expect(events.map((e) => e.type)).toEqual([DomainEventType.GAME_CREATED]);
+
+      await service.joinGame(game.gameId, createPlayer('player2', 'Bob'));
+
+      expect(events.slice(1)).toEqual([
+        expect.objectContaining({ type: DomainEventType.PLAYER_JOINED, playerId: 'player2' }),
+        expect.objectContaining({
+          type: DomainEventType.TURN_CHANGED,
+          previousPlayerId: null,
+          currentPlayerId: 'player1',
+        }),
+      ]);
+    });
+  });
+
+  describe('observers', () => {
+    const players = [createPlayer('player1', 'Alice'), createPlayer('player2', 'Bob')];
+
+    beforeEach(() => {
+      registry.register(new MockGameEngine('tic-tac-toe').withMinPlayers(2).withMaxPlayers(2));
+    });
+
+    it('should default to allowing spectators with an empty observer list', async () => {
+      const game = await service.createGame('tic-tac-toe', { players });
+
+      expect(game.observers).toEqual([]);
+      expect(game.metadata.spectatorPolicy).toBe(SpectatorPolicy.ALLOW);
+    });
+
+    it('should add and remove observers without bumping the version', async () => {
+      const game = await service.createGame('tic-tac-toe', { players });
+
+      const observed = await service.addObserver(game.gameId, { id: 'viewer', name: 'Viewer' });
+
+      expect(observed.observers).toEqual([
+        expect.objectContaining({ id: 'viewer', name: 'Viewer' }),
+      ]);
+      expect(observed.version).toBe(game.version);
+      expect(await service.listObservers(game.gameId)).toHaveLength(1);
+
+      const removed = await service.removeObserver(game.gameId, 'viewer');
+
+      expect(removed.observers).toEqual([]);
+      expect(removed.version).toBe(game.version);
+    });
+
+    it('should not add the same observer twice', async () => {
+      const game = await service.createGame('tic-tac-toe', { players });
+
+      await service.addObserver(game.gameId, { id: 'viewer', name: 'Viewer' });
+      const observed = await service.addObserver(game.gameId, { id: 'viewer', name: 'Viewer' });
+
+      expect(observed.observers).toHaveLength(1);
+    });
+
+    it('should not let a player observe their own game', async () => {
+      const game = await service.createGame('tic-tac-toe', { players });
+
+      await expect(
+        service.addObserver(game.gameId, { id: 'player1', name: 'Alice' })
+      ).rejects.toThrow(InvalidGameActionError);
+    });
+
+    it('should reject observers when spectating is forbidden', async () => {
+      const game = await service.createGame('tic-tac-toe', {
+        players,
+        spectators: SpectatorPolicy.FORBID,
+      });
+
+      await expect(
+        service.addObserver(game.gameId, { id: 'viewer', name: 'Viewer' })
+      ).rejects.toThrow(ForbiddenError);
+    });
+
+    it('should admit only friends of a player when restricted to friends', async () => {
+      const invitationRepository = {
+        findByInviter: jest.fn().mockResolvedValue([]),
+        findByInvitee: jest.fn().mockImplementation(async (inviteeId: string) =>
+          inviteeId === 'friend'
+            ? [
+                {
+                  invitationId: 'inv-1',
+                  gameId: 'other-game',
+                  inviterId: 'player1',
+                  inviteeId: 'friend',
+                  status: InvitationStatus.ACCEPTED,
+                  createdAt: new Date(),
+                },
+              ]
+            : []
+        ),
+      } as unknown as IInvitationRepository;
+      service = new GameManagerService(
+        registry,
+        repository,
+        mockAIPlayerService,
+        new GameLockManager(),
+        invitationRepository
+      );
+      const game = await service.createGame('tic-tac-toe', {
+        players,
+        spectators: SpectatorPolicy.FRIENDS,
+      });
+
+      const observed = await service.addObserver(game.gameId, { id: 'friend', name: 'Friend' });
+
+      expect(observed.observers).toHaveLength(1);
+      expect(invitationRepository.findByInvitee).toHaveBeenCalledWith('friend', {
+        status: InvitationStatus.ACCEPTED,
+      });
+      await expect(
+        service.addObserver(game.gameId, { id: 'stranger', name: 'Stranger' })
+      ).rejects.toThrow(ForbiddenError);
+    });
+
+    it('should list games only to viewers the spectator policy admits', async () => {
+      const active = await service.createGame('tic-tac-toe', {
+        players,
+        spectators: SpectatorPolicy.FORBID,
+      });
+      const waiting = await service.createGame('tic-tac-toe', {
+        players: [players[0]],
+        spectators: SpectatorPolicy.FORBID,
+      });
+
+      const listed = async (viewerId: string | null) =>
+        (await service.listGames({}, viewerId)).items.map((game) => game.gameId);
+
+      expect(await listed('viewer')).toEqual([waiting.gameId]);
+      expect(await listed(null)).toEqual([waiting.gameId]);
+      expect(await listed('player2')).toEqual(
+        expect.arrayContaining([active.gameId, waiting.gameId])
+      );
+    });
+
+    it('should tell players and observers apart', async () => {
+      const game = await service.createGame('tic-tac-toe', { players });
+
+      expect(await service.getViewerRole(game.gameId, 'player1')).toBe('player');
+      expect(await service.getViewerRole(game.gameId, 'viewer')).toBe('observer');
+    });
+
+    it('should throw GameNotFoundError for unknown games', async () => {
+      await expect(
+        service.addObserver('missing', { id: 'viewer', name: 'Viewer' })
+      ).rejects.toThrow(GameNotFoundError);
+      await expect(service.listObservers('missing')).rejects.toThrow(GameNotFoundError);
+    });
+  });
+
   describe('createGame with AI players', () => {
     let aiPlayerService: AIPlayerService;
     let aiRepository: any;
@@ -0,0 +1,282 @@
+import { GameReplayService } from '@application/services/GameReplayService';
+import { PluginRegistry } from '@application/PluginRegistry';
+import { InMemoryGameRepository } from '@infrastructure/persistence/InMemoryGameRepository';
+import { IGameEventRepository } from '@domain/interfaces';
+import {
+  GameState,
+  GameLifecycle,
+  MetaAction,
+  SNAPSHOT_INTERVAL,
+  TimeoutAction,
+} from '@domain/models';
+import { GameNotFoundError, HistoryUnavailableError, MoveOutOfRangeError } from '@domain/errors';
+import { MockGameEngine, GameStateBuilder, createPlayer, createMove } from '../../utils';
+
+describe('GameReplayService', () => {
+  let repository: InMemoryGameRepository;
+  let registry: PluginRegistry;
+  let mockEngine: MockGameEngine;
+  let service: GameReplayService;
+
+  const players = [createPlayer('player1', 'Player 1'), createPlayer('player2', 'Player 2')];
+
+  beforeEach(() => {
+    repository = new InMemoryGameRepository();
+    registry = new PluginRegistry();
+    mockEngine = new MockGameEngine('mock-game');
+    registry.register(mockEngine);
+    service = new GameReplayService(repository, repository, registry);
+  });
+
+  /**
+   * Store a new game and play a number of moves through the plugin,
+   * updating the repository after each one as StateManagerService does
+   */
+  async function playGame(moveCount: number): Promise<GameState> {
+    let state = new GameStateBuilder()
+      .withGameId('game-1')
+      .withGameType('mock-game')
+      .withPlayers(players)
+      .withMetadata({ seed: 'initial' })
+      .build();
+    await repository.save(state);
+
+    for (let i = 0; i < moveCount; i++) {
+      const playerId = players[i % players.length].id;
+      const next = mockEngine.applyMove(state, playerId, createMove(playerId, 'place', { i }));
+      state = await repository.update('game-1', next, state.version);
+    }
+
+    return state;
+  }
+
+  describe('getStateAtMove', () => {
+    it('should throw GameNotFoundError for an unknown game', async () => {
+      await expect(service.getStateAtMove('missing', 0)).rejects.toThrow(GameNotFoundError);
+    });
+
+    it('should throw MoveOutOfRangeError beyond the last move', async () => {
+      await playGame(3);
+
+      await expect(service.getStateAtMove('game-1', 4)).rejects.toThrow(MoveOutOfRangeError);
+      await expect(service.getStateAtMove('game-1', -1)).rejects.toThrow(MoveOutOfRangeError);
+    });
+
+    it('should return the stored initial state at move 0', async () => {
+      await playGame(3);
+
+      const state = await service.getStateAtMove('game-1', 0);
+
+      expect(state.moveHistory).toHaveLength(0);
+      expect(state.metadata.seed).toBe('initial');
+      expect(state.currentPlayerIndex).toBe(0);
+    });
+
+    it('should rebuild the state after an intermediate move', async () => {
+      await playGame(3);
+
+      const state = await service.getStateAtMove('game-1', 2);
+
+      expect(state.moveHistory.map((m) => m.parameters.i)).toEqual([0, 1]);
+      expect(state.currentPlayerIndex).toBe(0);
+      expect(state.version).toBe(3);
+    });
+
+    it('should return the live state for the latest move', async () => {
+      const live = await playGame(3);
+
+      expect(await service.getStateAtMove('game-1', 3)).toEqual(live);
+    });
+
+    it('should start from the nearest snapshot in long games', async () => {
+      await playGame(SNAPSHOT_INTERVAL + 5);
+      const applyMove = jest.spyOn(mockEngine, 'applyMove');
+
+      const state = await service.getStateAtMove('game-1', SNAPSHOT_INTERVAL + 3);
+
+      expect(state.moveHistory).toHaveLength(SNAPSHOT_INTERVAL + 3);
+      expect(applyMove).toHaveBeenCalledTimes(3);
+    });
+
+    it('should record meta-actions without calling the plugin', async () => {
+      let state = await playGame(1);
+      for (const move of [
+        createMove('player2', MetaAction.OFFER_DRAW),
+        createMove('player1', 'place'),
+      ]) {
+        state = await repository.update(
+          'game-1',
+          { ...state, moveHistory: [...state.moveHistory, move], version: state.version + 1 },
+          state.version
+        );
+      }
+      const applyMove = jest.spyOn(mockEngine, 'applyMove');
+
+      const replayed = await service.getStateAtMove('game-1', 2);
+
+      expect(replayed.moveHistory[1].action).toBe(MetaAction.OFFER_DRAW);
+      expect(applyMove).toHaveBeenCalledTimes(1);
+    });
+
+    it('should leave out players who left their seat before the game started', async () => {
+      const waiting = new GameStateBuilder()
+        .withGameId('game-1')
+        .withGameType('mock-game')
+        .withLifecycle(GameLifecycle.WAITING_FOR_PLAYERS)
+        .withPlayers([players[0], createPlayer('leaver', 'Leaver')])
+        .build();
+      await repository.save(waiting);
+      const left = await repository.update(
+        'game-1',
+        { ...waiting, players: [players[0]], version: waiting.version + 1 },
+        waiting.version
+      );
+      await repository.update(
+        'game-1',
+        { ...left, players, lifecycle: GameLifecycle.ACTIVE, version: left.version + 1 },
+        left.version
+      );
+
+      const initial = await service.getStateAtMove('game-1', 0);
+
+      expect(initial.players.map((p) => p.id)).toEqual(['player1', 'player2']);
+      expect(initial.lifecycle).toBe(GameLifecycle.ACTIVE);
+    });
+
+    it('should pass the turn on where a turn was skipped on timeout', async () => {
+      let state = await playGame(1);
+      const skipped = mockEngine.advanceTurn(state);
+      state = await repository.update(
+        'game-1',
+        {
+          ...skipped,
+          metadata: {
+            ...skipped.metadata,
+            timeouts: [{ playerId: 'player2', action: TimeoutAction.SKIP, at: '2024-01-01' }],
+          },
+          version: state.version + 1,
+        },
+        state.version
+      );
+      const next = mockEngine.applyMove(state, 'player1', createMove('player1', 'place'));
+      state = await repository.update('game-1', next, state.version);
+      await repository.update(
+        'game-1',
+        mockEngine.applyMove(state, 'player2', createMove('player2', 'place')),
+        state.version
+      );
+
+      const afterSkip = await service.getStateAtMove('game-1', 1);
+      const afterMove = await service.getStateAtMove('game-1', 2);
+
+      expect(afterSkip.currentPlayerIndex).toBe(0);
+      expect(afterMove.currentPlayerIndex).toBe(state.currentPlayerIndex);
+    });
+
+    it('should mark the replayed state completed when the plugin reports game over', async () => {
+      await playGame(2);
+      mockEngine.withGameOverResult(true).withWinnerResult('player1');
+
+      const state = await service.getStateAtMove('game-1', 1);
+
+      expect(state.lifecycle).toBe(GameLifecycle.COMPLETED);
+      expect(state.winner).toBe('player1');
+    });
+
+    it('should fall back to move history for games without an event log', async () => {
+      const live = await playGame(2);
+      const emptyLog: IGameEventRepository = {
+        getEvents: jest.fn().mockResolvedValue([]),
+        getLatestSnapshot: jest.fn().mockResolvedValue(null),
+      };
+      service = new GameReplayService(repository, emptyLog, registry);
+
+      const state = await service.getStateAtMove('game-1', 1);
+
+      expect(state.gameId).toBe('game-1');
+      expect(state.moveHistory).toEqual(live.moveHistory.slice(0, 1));
+      expect(state.currentPlayerIndex).toBe(1);
+    });
+
+    it.each([
+      [
+        'settings',
+        () =>
+          mockEngine.withConfigSchema({
+            type: 'object',
+            properties: { rows: { type: 'integer', minimum: 4, maximum: 10 } },
+          }),
+      ],
+      [
+        'dice rolls',
+        () =>
+          jest
+            .spyOn(mockEngine, 'initializeGame')
+            .mockReturnValue(
+              new GameStateBuilder()
+                .withMetadata({ randomness: { commitment: 'hash', serverSeed: 'seed' } })
+                .build()
+            ),
+      ],
+    ])('should refuse games without an event log that depend on %s', async (_case, setUp) => {
+      await playGame(2);
+      setUp();
+      const emptyLog: IGameEventRepository = {
+        getEvents: jest.fn().mockResolvedValue([]),
+        getLatestSnapshot: jest.fn().mockResolvedValue(null),
+      };
+      service = new GameReplayService(repository, emptyLog, registry);
+
+      await expect(service.getStateAtMove('game-1', 1)).rejects.toThrow(HistoryUnavailableError);
+      await expect(service.getStateHistory('game-1')).rejects.toThrow(HistoryUnavailableError);
+    });
+  });
+
+  describe('getStateHistory', () => {
+    it('should return one state per position ending with the live game', async () => {
+      const live = await playGame(SNAPSHOT_INTERVAL + 2);
+
+      const states = await service.getStateHistory('game-1');
+
+      expect(states).toHaveLength(SNAPSHOT_INTERVAL + 3);
+      states.forEach((state, moveNumber) => {
+        expect(state.moveHistory).toHaveLength(moveNumber);
+      });
+      expect(states[0].metadata.seed).toBe('initial');
+      expect(states[states.length - 1]).toBe(live);
+    });
+
+    it('should match getStateAtMove for every position', async () => {
+      await playGame(4);
+
+      const states = await service.getStateHistory('game-1');
+
+      for (let moveNumber = 0; moveNumber <= 4; moveNumber++) {
+        const expected = await service.getStateAtMove('game-1', moveNumber);
+        // The mock engine stamps updatedAt with the time of each replay
+        expect({ ...states[moveNumber], updatedAt: null }).toEqual({
+          ...expected,
+          updatedAt: null,
+        });
+      }
+    });
+
+    it('should fall back to move history for games without an event log', async () => {
+      const live = await playGame(2);
+      const emptyLog: IGameEventRepository = {
+        getEvents: jest.fn().mockResolvedValue([]),
+        getLatestSnapshot: jest.fn().mockResolvedValue(null),
+      };
+      service = new GameReplayService(repository, emptyLog, registry);
+
+      const states = await service.getStateHistory('game-1');
+
+      expect(states.map((s) => s.moveHistory.length)).toEqual([0, 1, 2]);
+      expect(states[1].moveHistory).toEqual(live.moveHistory.slice(0, 1));
+    });
+
+    it('should throw GameNotFoundError for an unknown game', async () => {
+      await expect(service.getStateHistory('missing')).rejects.toThrow(GameNotFoundError);
+    });
+  });
+});
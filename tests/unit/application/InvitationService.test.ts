@@ -1,10 +1,10 @@
 import { InvitationService } from '@application/services/InvitationService';
 import { IInvitationRepository } from '@domain/interfaces/IInvitationRepository';
 import { IPlayerProfileRepository } from '@domain/interfaces/IPlayerProfileRepository';
-import { GameRepository } from '@domain/interfaces';
+import { GameRepository, IDomainEventBus } from '@domain/interfaces';
 import { GameInvitation, InvitationStatus } from '@domain/models/GameInvitation';
 import { PlayerProfile } from '@domain/models/PlayerProfile';
-import { GameState, GameLifecycle } from '@domain/models';
+import { GameState, GameLifecycle, DomainEventType } from '@domain/models';
 
 describe('InvitationService', () => {
   let service: InvitationService;
@@ -245,6 +245,37 @@ describe('InvitationService', () => {
       expect(result).toEqual(newInvitation);
       expect(mockInvitationRepo.create).toHaveBeenCalled();
     });
+
+    it('should publish the invitation on the event bus', async () => {
+      const eventBus: jest.Mocked<IDomainEventBus> = {
+        subscribe: jest.fn(),
+        publish: jest.fn().mockResolvedValue(undefined),
+      };
+      service = new InvitationService(mockInvitationRepo, mockProfileRepo, mockGameRepo, eventBus);
+      const invitation: GameInvitation = {
+        invitationId: 'inv_123',
+        gameId: 'game_123',
+        inviterId: 'user_inviter',
+        inviteeId: 'user_invitee',
+        status: InvitationStatus.PENDING,
+        createdAt: new Date(),
+      };
+
+      mockGameRepo.findById.mockResolvedValue(mockGame);
+      mockProfileRepo.findByUserId.mockResolvedValueOnce(mockInviter);
+      mockProfileRepo.findByUserId.mockResolvedValueOnce(mockInvitee);
+      mockInvitationRepo.findByGame.mockResolvedValue([]);
+      mockInvitationRepo.create.mockResolvedValue(invitation);
+
+      await service.createInvitation('game_123', 'user_inviter', 'user_invitee');
+
+      expect(eventBus.publish).toHaveBeenCalledWith({
+        type: DomainEventType.INVITATION_SENT,
+        game: mockGame,
+        invitation,
+        inviterName: 'inviter_user',
+      });
+    });
   });
 
   describe('getInvitations', () => {
@@ -0,0 +1,313 @@
+import { MatchmakingService } from '@application/services/MatchmakingService';
+import { GameManagerService } from '@application/services/GameManagerService';
+import { StatsService } from '@application/services/StatsService';
+import { AIPlayerService } from '@application/services/AIPlayerService';
+import { PluginRegistry } from '@application/PluginRegistry';
+import { InMemoryGameRepository } from '@infrastructure/persistence/InMemoryGameRepository';
+import { InMemoryMatchmakingRepository } from '@infrastructure/persistence/InMemoryMatchmakingRepository';
+import { Logger } from '@infrastructure/logging/Logger';
+import { IWebSocketService, WebSocketMessageType } from '@domain/interfaces/IWebSocketService';
+import {
+  GameLifecycle,
+  DEFAULT_WIN_RATE_RANGE,
+  WIN_RATE_RANGE_STEP,
+  WIN_RATE_RANGE_WIDEN_INTERVAL_MS,
+} from '@domain/models';
+import { AlreadyQueuedError, InvalidMatchmakingRequestError, NotQueuedError } from '@domain/errors';
+import { MockGameEngine } from '../../utils';
+
+describe('MatchmakingService', () => {
+  const start = new Date('2024-01-01T00:00:00.000Z');
+
+  let gameRepository: InMemoryGameRepository;
+  let queueRepository: InMemoryMatchmakingRepository;
+  let gameManagerService: GameManagerService;
+  let winRates: Record<string, number>;
+  let statsService: jest.Mocked<Pick<StatsService, 'getPlayerStats'>>;
+  let webSocketService: jest.Mocked<IWebSocketService>;
+  let service: MatchmakingService;
+
+  const player = (id: string) => ({ id, username: id.toUpperCase() });
+  const after = (ms: number) => new Date(start.getTime() + ms);
+
+  const createGameManager = (registry: PluginRegistry) =>
+    new GameManagerService(registry, gameRepository, {
+      createAIPlayers: jest.fn().mockResolvedValue([]),
+      isAIPlayer: jest.fn().mockResolvedValue(false),
+    } as unknown as AIPlayerService);
+
+  beforeEach(() => {
+    const registry = new PluginRegistry();
+    registry.register(new MockGameEngine('tic-tac-toe').withMinPlayers(2).withMaxPlayers(2));
+    registry.register(new MockGameEngine('solitaire').withMinPlayers(1).withMaxPlayers(1));
+
+    gameRepository = new InMemoryGameRepository();
+    queueRepository = new InMemoryMatchmakingRepository();
+    gameManagerService = createGameManager(registry);
+
+    winRates = {};
+    statsService = {
+      getPlayerStats: jest.fn(async (userId: string) => ({
+        userId,
+        totalGames: 10,
+        wins: 0,
+        losses: 0,
+        draws: 0,
+        winRate: winRates[userId] ?? 0,
+        totalTurns: 0,
+        averageTurnsPerGame: 0,
+      })),
+    };
+
+    webSocketService = {
+      registerConnection: jest.fn(),
+      unregisterConnection: jest.fn(),
+      subscribe: jest.fn(),
+      unsubscribe: jest.fn(),
+      observe: jest.fn(),
+      unobserve: jest.fn(),
+      broadcastToGame: jest.fn().mockResolvedValue(undefined),
+      sendToUser: jest.fn().mockResolvedValue(undefined),
+      getConnectionCount: jest.fn().mockReturnValue(0),
+      getGameSubscriberCount: jest.fn().mockReturnValue(0),
+      getGameObserverCount: jest.fn().mockReturnValue(0),
+    };
+
+    service = new MatchmakingService(
+      queueRepository,
+      gameManagerService,
+      statsService as unknown as StatsService,
+      webSocketService,
+      new Logger('error')
+    );
+  });
+
+  afterEach(() => {
+    service.stop();
+  });
+
+  describe('joinQueue', () => {
+    it('should queue the player with their win rate for the game type', async () => {
+      winRates.alice = 0.6;
+
+      const status = await service.joinQueue(
+        player('alice'),
+        { gameType: 'tic-tac-toe', customSettings: { boardSize: 3 } },
+        start
+      );
+
+      expect(statsService.getPlayerStats).toHaveBeenCalledWith('alice', 'tic-tac-toe');
+      expect(status).toEqual({
+        userId: 'alice',
+        username: 'ALICE',
+        gameType: 'tic-tac-toe',
+        customSettings: { boardSize: 3 },
+        winRate: 0.6,
+        winRateRange: DEFAULT_WIN_RATE_RANGE,
+        joinedAt: start,
+        acceptableWinRateRange: DEFAULT_WIN_RATE_RANGE,
+      });
+      expect(await queueRepository.findByUser('alice')).not.toBeNull();
+    });
+
+    it('should reject players who are already queued', async () => {
+      await service.joinQueue(player('alice'), { gameType: 'tic-tac-toe' });
+
+      await expect(service.joinQueue(player('alice'), { gameType: 'tic-tac-toe' })).rejects.toThrow(
+        AlreadyQueuedError
+      );
+    });
+
+    it('should reject unknown game types and games that two players cannot play', async () => {
+      await expect(service.joinQueue(player('alice'), { gameType: 'chess' })).rejects.toThrow(
+        InvalidMatchmakingRequestError
+      );
+      await expect(service.joinQueue(player('alice'), { gameType: 'solitaire' })).rejects.toThrow(
+        InvalidMatchmakingRequestError
+      );
+    });
+
+    it('should reject a win-rate range outside 0 to 1', async () => {
+      await expect(
+        service.joinQueue(player('alice'), { gameType: 'tic-tac-toe', winRateRange: 1.5 })
+      ).rejects.toThrow(InvalidMatchmakingRequestError);
+    });
+  });
+
+  describe('leaveQueue', () => {
+    it('should remove the player from the queue', async () => {
+      await service.joinQueue(player('alice'), { gameType: 'tic-tac-toe' });
+
+      await service.leaveQueue('alice');
+
+      await expect(service.getQueueStatus('alice')).rejects.toThrow(NotQueuedError);
+    });
+
+    it('should reject players who are not queued', async () => {
+      await expect(service.leaveQueue('alice')).rejects.toThrow(NotQueuedError);
+    });
+  });
+
+  describe('getQueueStatus', () => {
+    it('should widen the acceptable range the longer the player waits', async () => {
+      await service.joinQueue(player('alice'), { gameType: 'tic-tac-toe' }, start);
+
+      const status = await service.getQueueStatus(
+        'alice',
+        after(2 * WIN_RATE_RANGE_WIDEN_INTERVAL_MS)
+      );
+
+      expect(status.acceptableWinRateRange).toBeCloseTo(
+        DEFAULT_WIN_RATE_RANGE + 2 * WIN_RATE_RANGE_STEP,
+        10
+      );
+    });
+  });
+
+  describe('matchPlayers', () => {
+    it('should create an active game for compatible players and notify both', async () => {
+      await service.joinQueue(player('alice'), { gameType: 'tic-tac-toe' }, start);
+      await service.joinQueue(player('bob'), { gameType: 'tic-tac-toe' }, after(1000));
+
+      const [game] = await service.matchPlayers(after(2000));
+
+      expect(game.lifecycle).toBe(GameLifecycle.ACTIVE);
+      expect(game.players.map((p) => p.id)).toEqual(['alice', 'bob']);
+      expect(game.metadata.creatorPlayerId).toBe('alice');
+      expect(await gameRepository.findById(game.gameId)).not.toBeNull();
+      expect(await queueRepository.findAll()).toEqual([]);
+      expect(webSocketService.sendToUser).toHaveBeenCalledWith(
+        'alice',
+        expect.objectContaining({
+          type: WebSocketMessageType.MATCH_FOUND,
+          gameId: game.gameId,
+          gameType: 'tic-tac-toe',
+          opponentId: 'bob',
+          opponentName: 'BOB',
+        })
+      );
+      expect(webSocketService.sendToUser).toHaveBeenCalledWith(
+        'bob',
+        expect.objectContaining({ gameId: game.gameId, opponentId: 'alice' })
+      );
+    });
+
+    it('should not pair players whose win rates are too far apart', async () => {
+      winRates.alice = 0.2;
+      winRates.bob = 0.8;
+      await service.joinQueue(player('alice'), { gameType: 'tic-tac-toe' }, start);
+      await service.joinQueue(player('bob'), { gameType: 'tic-tac-toe' }, start);
+
+      expect(await service.matchPlayers(after(1000))).toEqual([]);
+      expect(await queueRepository.findAll()).toHaveLength(2);
+    });
+
+    it('should pair distant players once both ranges have widened enough', async () => {
+      winRates.alice = 0.5;
+      winRates.bob = 0.7;
+      await service.joinQueue(player('alice'), { gameType: 'tic-tac-toe' }, start);
+      await service.joinQueue(player('bob'), { gameType: 'tic-tac-toe' }, start);
+
+      expect(await service.matchPlayers(after(WIN_RATE_RANGE_WIDEN_INTERVAL_MS))).toEqual([]);
+      expect(await service.matchPlayers(after(2 * WIN_RATE_RANGE_WIDEN_INTERVAL_MS))).toHaveLength(
+        1
+      );
+    });
+
+    it('should require both players to accept the difference', async () => {
+      winRates.alice = 0.5;
+      winRates.bob = 0.8;
+      await service.joinQueue(
+        player('alice'),
+        { gameType: 'tic-tac-toe', winRateRange: 0.5 },
+        start
+      );
+      await service.joinQueue(player('bob'), { gameType: 'tic-tac-toe', winRateRange: 0 }, start);
+
+      expect(await service.matchPlayers(start)).toEqual([]);
+    });
+
+    it('should not pair players queued for different game types', async () => {
+      const registry = new PluginRegistry();
+      registry.register(new MockGameEngine('tic-tac-toe').withMinPlayers(2).withMaxPlayers(2));
+      registry.register(new MockGameEngine('connect-four').withMinPlayers(2).withMaxPlayers(2));
+      gameManagerService = createGameManager(registry);
+      service = new MatchmakingService(
+        queueRepository,
+        gameManagerService,
+        statsService as unknown as StatsService,
+        webSocketService,
+        new Logger('error')
+      );
+
+      await service.joinQueue(player('alice'), { gameType: 'tic-tac-toe' }, start);
+      await service.joinQueue(player('bob'), { gameType: 'connect-four' }, start);
+
+      expect(await service.matchPlayers(start)).toEqual([]);
+    });
+
+    it('should only pair players whose shared settings agree and merge their settings', async () => {
+      await service.joinQueue(
+        player('alice'),
+        { gameType: 'tic-tac-toe', customSettings: { boardSize: 3 } },
+        start
+      );
+      await service.joinQueue(
+        player('bob'),
+        { gameType: 'tic-tac-toe', customSettings: { boardSize: 4 } },
+        start
+      );
+      await service.joinQueue(
+        player('carol'),
+        { gameType: 'tic-tac-toe', customSettings: { boardSize: 3, firstMove: 'random' } },
+        after(1000)
+      );
+      const createGame = jest.spyOn(gameManagerService, 'createGame');
+
+      const games = await service.matchPlayers(after(2000));
+
+      expect(games).toHaveLength(1);
+      expect(games[0].players.map((p) => p.id)).toEqual(['alice', 'carol']);
+      expect(createGame).toHaveBeenCalledWith(
+        'tic-tac-toe',
+        expect.objectContaining({ customSettings: { boardSize: 3, firstMove: 'random' } }),
+        { id: 'alice', username: 'ALICE' }
+      );
+      expect((await queueRepository.findAll()).map((e) => e.userId)).toEqual(['bob']);
+    });
+
+    it('should pair players in the order they joined', async () => {
+      await service.joinQueue(player('carol'), { gameType: 'tic-tac-toe' }, after(2000));
+      await service.joinQueue(player('alice'), { gameType: 'tic-tac-toe' }, start);
+      await service.joinQueue(player('bob'), { gameType: 'tic-tac-toe' }, after(1000));
+
+      const [game] = await service.matchPlayers(after(3000));
+
+      expect(game.players.map((p) => p.id)).toEqual(['alice', 'bob']);
+      expect((await queueRepository.findAll()).map((e) => e.userId)).toEqual(['carol']);
+    });
+
+    it('should keep players queued when the game cannot be created', async () => {
+      await service.joinQueue(player('alice'), { gameType: 'tic-tac-toe' }, start);
+      await service.joinQueue(player('bob'), { gameType: 'tic-tac-toe' }, start);
+      jest
+        .spyOn(gameManagerService, 'createGame')
+        .mockRejectedValueOnce(new Error('Database down'));
+
+      expect(await service.matchPlayers(start)).toEqual([]);
+      expect(await queueRepository.findAll()).toHaveLength(2);
+      expect(webSocketService.sendToUser).not.toHaveBeenCalled();
+    });
+
+    it('should still create the game when a notification fails', async () => {
+      webSocketService.sendToUser.mockRejectedValueOnce(new Error('Socket closed'));
+      await service.joinQueue(player('alice'), { gameType: 'tic-tac-toe' }, start);
+      await service.joinQueue(player('bob'), { gameType: 'tic-tac-toe' }, start);
+
+      const games = await service.matchPlayers(start);
+
+      expect(games).toHaveLength(1);
+      expect(webSocketService.sendToUser).toHaveBeenCalledTimes(2);
+    });
+  });
+});
@@ -0,0 +1,238 @@
+import { ModerationService } from '@application/services/ModerationService';
+import { StateManagerService } from '@application/services/StateManagerService';
+import { RatingService } from '@application/services/RatingService';
+import { GameLockManager } from '@application/GameLockManager';
+import { PluginRegistry } from '@application/PluginRegistry';
+import { DomainEventBus } from '@application/events/DomainEventBus';
+import { RatingEventHandler } from '@application/events/RatingEventHandler';
+import { InMemoryGameRepository } from '@infrastructure/persistence/InMemoryGameRepository';
+import { InMemoryRatingRepository } from '@infrastructure/persistence/InMemoryRatingRepository';
+import { Logger } from '@infrastructure/logging/Logger';
+import { GameLifecycle, GameState, ModerationAction, Player } from '@domain/models';
+import { ForbiddenError, GameNotFoundError, InvalidGameActionError } from '@domain/errors';
+import { GameStateBuilder, MockGameEngine, createPlayer } from '../../utils';
+
+describe('ModerationService', () => {
+  let repository: InMemoryGameRepository;
+  let ratingService: RatingService;
+  let logger: Logger;
+  let service: ModerationService;
+
+  const players = [createPlayer('player1', 'Player 1'), createPlayer('player2', 'Player 2')];
+
+  function createGame(lifecycle: GameLifecycle, gamePlayers: Player[] = players): GameState {
+    return new GameStateBuilder()
+      .withGameId('game-1')
+      .withGameType('mock-game')
+      .withLifecycle(lifecycle)
+      .withPlayers(gamePlayers)
+      .withMetadata({ creatorPlayerId: 'player1' })
+      .build();
+  }
+
+  beforeEach(() => {
+    const registry = new PluginRegistry();
+    registry.register(new MockGameEngine('mock-game'));
+    const lockManager = new GameLockManager();
+
+    repository = new InMemoryGameRepository();
+    ratingService = new RatingService(new InMemoryRatingRepository());
+    logger = new Logger('error', 'json');
+    const eventBus = new DomainEventBus(logger);
+    new RatingEventHandler(ratingService).register(eventBus);
+    const stateManager = new StateManagerService(repository, registry, lockManager, eventBus);
+
+    service = new ModerationService(repository, repository, stateManager, lockManager, logger);
+  });
+
+  describe('deleteGame', () => {
+    it('should let the creator delete a game that has not started', async () => {
+      await repository.save(createGame(GameLifecycle.WAITING_FOR_PLAYERS, [players[0]]));
+
+      await service.deleteGame('game-1', 'player1', false);
+
+      expect(await repository.findById('game-1')).toBeNull();
+      expect(await repository.findDeletion('game-1')).toMatchObject({ deletedBy: 'player1' });
+      const [entry] = await service.getModerationLog('game-1');
+      expect(entry).toMatchObject({
+        action: ModerationAction.DELETE,
+        actorId: 'player1',
+        asAdmin: false,
+        details: { lifecycle: GameLifecycle.WAITING_FOR_PLAYERS },
+      });
+    });
+
+    it('should not let other players delete the game', async () => {
+      await repository.save(createGame(GameLifecycle.WAITING_FOR_PLAYERS));
+
+      await expect(service.deleteGame('game-1', 'player2', false)).rejects.toThrow(ForbiddenError);
+      expect(await repository.findById('game-1')).not.toBeNull();
+    });
+
+    it('should not let the creator delete a game that has started', async () => {
+      await repository.save(createGame(GameLifecycle.ACTIVE));
+
+      await expect(service.deleteGame('game-1', 'player1', false)).rejects.toThrow(
+        InvalidGameActionError
+      );
+    });
+
+    it('should let admins delete a game in any state and record the reason', async () => {
+      await repository.save(createGame(GameLifecycle.ACTIVE));
+
+      await service.deleteGame('game-1', 'admin', true, 'Offensive name');
+
+      expect(await repository.findById('game-1')).toBeNull();
+      const [entry] = await service.getModerationLog('game-1');
+      expect(entry).toMatchObject({ asAdmin: true, reason: 'Offensive name' });
+    });
+
+    it('should throw GameNotFoundError for unknown or already deleted games', async () => {
+      await expect(service.deleteGame('missing', 'admin', true)).rejects.toThrow(GameNotFoundError);
+    });
+
+    it('should log the deletion', async () => {
+      const infoSpy = jest.spyOn(logger, 'info');
+      await repository.save(createGame(GameLifecycle.ACTIVE));
+
+      await service.deleteGame('game-1', 'admin', true);
+
+      expect(infoSpy).toHaveBeenCalledWith(
+        'Admin moderation action',
+        expect.objectContaining({ gameId: 'game-1', action: ModerationAction.DELETE })
+      );
+    });
+  });
+
+  describe('restoreGame', () => {
+    it('should restore a deleted game', async () => {
+      await repository.save(createGame(GameLifecycle.ACTIVE));
+      await service.deleteGame('game-1', 'admin', true);
+
+      const game = await service.restoreGame('game-1', 'admin', 'Deleted by mistake');
+
+      expect(game.gameId).toBe('game-1');
+      expect(await repository.findById('game-1')).not.toBeNull();
+      const log = await service.getModerationLog('game-1');
+      expect(log.map((entry) => entry.action)).toEqual([
+        ModerationAction.DELETE,
+        ModerationAction.RESTORE,
+      ]);
+      expect(log[1].details).toMatchObject({ deletedBy: 'admin' });
+    });
+
+    it('should throw GameNotFoundError for games that are not deleted', async () => {
+      await repository.save(createGame(GameLifecycle.ACTIVE));
+
+      await expect(service.restoreGame('game-1', 'admin')).rejects.toThrow(GameNotFoundError);
+    });
+  });
+
+  describe('forceComplete', () => {
+    it('should end the game without a winner and leave ratings unchanged', async () => {
+      await repository.save(createGame(GameLifecycle.ACTIVE));
+
+      const game = await service.forceComplete('game-1', 'admin');
+
+      expect(game.lifecycle).toBe(GameLifecycle.COMPLETED);
+      expect(game.winner).toBeNull();
+      expect(game.metadata).toMatchObject({ isDraw: false, forceCompletedBy: 'admin' });
+      expect(await ratingService.getRatingHistory('player1')).toEqual([]);
+      const [entry] = await service.getModerationLog('game-1');
+      expect(entry.action).toBe(ModerationAction.FORCE_COMPLETE);
+    });
+
+    it('should reject games that are not active', async () => {
+      await repository.save(createGame(GameLifecycle.COMPLETED));
+
+      await expect(service.forceComplete('game-1', 'admin')).rejects.toThrow(
+        InvalidGameActionError
+      );
+      expect(await service.getModerationLog('game-1')).toEqual([]);
+    });
+  });
+
+  describe('adjudicate', () => {
+    it('should award the win and update ratings', async () => {
+      await repository.save(createGame(GameLifecycle.ACTIVE));
+
+      const game = await service.adjudicate('game-1', 'admin', 'player2', 'Opponent stalled');
+
+      expect(game.lifecycle).toBe(GameLifecycle.COMPLETED);
+      expect(game.winner).toBe('player2');
+      expect(game.metadata).toMatchObject({ isDraw: false, adjudicatedBy: 'admin' });
+      const [history] = await ratingService.getRatingHistory('player2');
+      expect(history.ratingChange).toBeGreaterThan(0);
+      const [entry] = await service.getModerationLog('game-1');
+      expect(entry).toMatchObject({
+        action: ModerationAction.ADJUDICATE,
+        reason: 'Opponent stalled',
+        details: { winner: 'player2' },
+      });
+    });
+
+    it('should record a draw when no winner is given', async () => {
+      await repository.save(createGame(GameLifecycle.ACTIVE));
+
+      const game = await service.adjudicate('game-1', 'admin', null);
+
+      expect(game.winner).toBeNull();
+      expect(game.metadata.isDraw).toBe(true);
+    });
+
+    it('should reject winners who are not in the game', async () => {
+      await repository.save(createGame(GameLifecycle.ACTIVE));
+
+      await expect(service.adjudicate('game-1', 'admin', 'stranger')).rejects.toThrow(
+        'stranger is not a player in this game'
+      );
+    });
+  });
+
+  describe('removePlayer', () => {
+    it('should free the seat in a game that has not started', async () => {
+      await repository.save(createGame(GameLifecycle.WAITING_FOR_PLAYERS));
+
+      const game = await service.removePlayer('game-1', 'admin', 'player2');
+
+      expect(game.players.map((p) => p.id)).toEqual(['player1']);
+      expect(game.lifecycle).toBe(GameLifecycle.WAITING_FOR_PLAYERS);
+      expect(game.version).toBe(2);
+    });
+
+    it('should make the removed player forfeit an active game', async () => {
+      await repository.save(createGame(GameLifecycle.ACTIVE));
+
+      const game = await service.removePlayer('game-1', 'admin', 'player1', 'Abusive chat');
+
+      expect(game.lifecycle).toBe(GameLifecycle.COMPLETED);
+      expect(game.winner).toBe('player2');
+      expect(game.metadata.removedPlayerId).toBe('player1');
+      const [entry] = await service.getModerationLog('game-1');
+      expect(entry).toMatchObject({
+        action: ModerationAction.REMOVE_PLAYER,
+        details: { playerId: 'player1', lifecycle: GameLifecycle.ACTIVE },
+      });
+    });
+
+    it('should not award a win when more than one opponent remains', async () => {
+      const gamePlayers = [...players, createPlayer('player3', 'Player 3')];
+      await repository.save(createGame(GameLifecycle.ACTIVE, gamePlayers));
+
+      const game = await service.removePlayer('game-1', 'admin', 'player3');
+
+      expect(game.winner).toBeNull();
+    });
+
+    it('should reject players who are not in the game and finished games', async () => {
+      await repository.save(createGame(GameLifecycle.COMPLETED));
+
+      await expect(service.removePlayer('game-1', 'admin', 'stranger')).rejects.toThrow(
+        InvalidGameActionError
+      );
+      await expect(service.removePlayer('game-1', 'admin', 'player1')).rejects.toThrow(
+        'game is completed'
+      );
+    });
+  });
+});
@@ -162,7 +162,7 @@ describe('Move History Consistency - Property-Based Tests', () => {
               repository,
               pluginRegistry,
               lockManager,
-              undefined, // No WebSocket service for property testing
+              undefined, // No event bus for property testing
               aiService
             );
 
@@ -5,10 +5,12 @@ import {
   NotificationType,
   TurnNotificationData,
 } from '@domain/interfaces/INotificationChannel';
+import { IPlayerProfileRepository } from '@domain/interfaces/IPlayerProfileRepository';
 
 // Mock notification channel for testing
 class MockNotificationChannel implements INotificationChannel {
   public sentNotifications: NotificationData[] = [];
+  public cleared: string[] = [];
   public shouldFail: boolean = false;
   public available: boolean = true;
   public name: string;
@@ -32,6 +34,10 @@ class MockNotificationChannel implements INotificationChannel {
     return this.available;
   }
 
+  async clearTurnNotifications(userId: string, gameId: string): Promise<void> {
+    this.cleared.push(`${userId}:${gameId}`);
+  }
+
   reset(): void {
     this.sentNotifications = [];
     this.shouldFail = false;
@@ -368,6 +374,118 @@ describe('NotificationService', () => {
     });
   });
 
+  describe('notification preferences', () => {
+    let inApp: MockNotificationChannel;
+    let email: MockNotificationChannel;
+    let profileRepository: jest.Mocked<IPlayerProfileRepository>;
+
+    beforeEach(() => {
+      inApp = new MockNotificationChannel('in-app');
+      email = new MockNotificationChannel('email');
+      profileRepository = {
+        create: jest.fn(),
+        findByUserId: jest.fn().mockResolvedValue(null),
+        findByDisplayName: jest.fn(),
+        update: jest.fn(),
+        delete: jest.fn(),
+        isDisplayNameAvailable: jest.fn(),
+        findAll: jest.fn(),
+      };
+      service = new NotificationService([inApp, email, mockChannel1], profileRepository);
+    });
+
+    it('should only use the channels the player chose', async () => {
+      profileRepository.findByUserId.mockResolvedValue({
+        userId: 'user1',
+        displayName: 'user1',
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        notificationPreferences: { channels: ['in-app'], emailDigest: false },
+      });
+
+      await service.notifyTurn('user1', 'game1');
+
+      expect(inApp.sentNotifications).toHaveLength(1);
+      expect(email.sentNotifications).toHaveLength(0);
+      // Channels players cannot choose between are always used
+      expect(mockChannel1.sentNotifications).toHaveLength(1);
+    });
+
+    it('should use every channel for players without preferences', async () => {
+      await service.notifyGameComplete('user1', 'game1', null);
+
+      expect(inApp.sentNotifications).toHaveLength(1);
+      expect(email.sentNotifications).toHaveLength(1);
+    });
+
+    it('should fall back to every channel when the preferences cannot be loaded', async () => {
+      const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
+      profileRepository.findByUserId.mockRejectedValue(new Error('database down'));
+
+      await service.notifyInvitation('user1', 'game1', 'inv1', 'Alice');
+
+      expect(inApp.sentNotifications).toHaveLength(1);
+      expect(email.sentNotifications).toHaveLength(1);
+      consoleErrorSpy.mockRestore();
+    });
+  });
+
+  describe('clearTurnNotification', () => {
+    beforeEach(() => {
+      service = new NotificationService([mockChannel1]);
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should cancel a notification still waiting out its delay', async () => {
+      jest.useFakeTimers();
+      const notifyPromise = service.notifyTurn('user_123', 'game_456', 5000);
+      expect(service.getPendingTurnNotificationCount()).toBe(1);
+
+      await service.clearTurnNotification('user_123', 'game_456');
+      await notifyPromise;
+      jest.advanceTimersByTime(5000);
+
+      expect(mockChannel1.sentNotifications).toHaveLength(0);
+      expect(mockChannel1.cleared).toEqual([]);
+      expect(service.getPendingTurnNotificationCount()).toBe(0);
+    });
+
+    it('should clear a sent notification from the channels and allow the next turn', async () => {
+      await service.notifyTurn('user_123', 'game_456');
+
+      await service.clearTurnNotification('user_123', 'game_456');
+      await service.notifyTurn('user_123', 'game_456');
+
+      expect(mockChannel1.cleared).toEqual(['user_123:game_456']);
+      expect(mockChannel1.sentNotifications).toHaveLength(2);
+    });
+
+    it('should do nothing for players who were not notified', async () => {
+      await service.clearTurnNotification('user_123', 'game_456');
+
+      expect(mockChannel1.cleared).toEqual([]);
+    });
+
+    it('should log rather than throw when a channel cannot clear', async () => {
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+      jest
+        .spyOn(mockChannel1, 'clearTurnNotifications')
+        .mockRejectedValue(new Error('database down'));
+      await service.notifyTurn('user_123', 'game_456');
+
+      await expect(service.clearTurnNotification('user_123', 'game_456')).resolves.toBeUndefined();
+
+      expect(consoleSpy).toHaveBeenCalledWith(
+        'Failed to clear turn notifications through channel channel-1:',
+        expect.any(Error)
+      );
+      consoleSpy.mockRestore();
+    });
+  });
+
   describe('edge cases', () => {
     beforeEach(() => {
       service = new NotificationService([mockChannel1]);
@@ -261,6 +261,92 @@ describe('PlayerProfileService', () => {
     });
   });
 
+  describe('updateNotificationPreferences', () => {
+    const profile: PlayerProfile = {
+      userId: 'user_123',
+      displayName: 'john_doe',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      notificationPreferences: {
+        channels: ['in-app', 'email'],
+        email: 'john@example.com',
+        emailDigest: false,
+      },
+    };
+
+    beforeEach(() => {
+      mockRepository.findByUserId.mockResolvedValue(profile);
+      mockRepository.update.mockImplementation(async (_userId, params) => ({
+        ...profile,
+        ...params,
+      }));
+    });
+
+    it('should merge the changes into the current preferences', async () => {
+      const result = await service.updateNotificationPreferences('user_123', {
+        emailDigest: true,
+      });
+
+      expect(mockRepository.update).toHaveBeenCalledWith('user_123', {
+        notificationPreferences: {
+          channels: ['in-app', 'email'],
+          email: 'john@example.com',
+          emailDigest: true,
+        },
+      });
+      expect(result.notificationPreferences?.emailDigest).toBe(true);
+    });
+
+    it('should start from the defaults for profiles without preferences', async () => {
+      mockRepository.findByUserId.mockResolvedValue({
+        ...profile,
+        notificationPreferences: undefined,
+      });
+
+      await service.updateNotificationPreferences('user_123', { channels: ['in-app'] });
+
+      expect(mockRepository.update).toHaveBeenCalledWith('user_123', {
+        notificationPreferences: { channels: ['in-app'], emailDigest: false },
+      });
+    });
+
+    it('should remove the address when email is explicitly undefined', async () => {
+      await service.updateNotificationPreferences('user_123', { email: undefined });
+
+      expect(mockRepository.update).toHaveBeenCalledWith('user_123', {
+        notificationPreferences: { channels: ['in-app', 'email'], emailDigest: false },
+      });
+    });
+
+    it('should reject unknown channels', async () => {
+      await expect(
+        service.updateNotificationPreferences('user_123', { channels: ['sms' as never] })
+      ).rejects.toThrow('Notification channels must be any of: in-app, email');
+
+      expect(mockRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject invalid email addresses', async () => {
+      await expect(
+        service.updateNotificationPreferences('user_123', { email: 'john.example.com' })
+      ).rejects.toThrow('Email address is not valid');
+    });
+
+    it('should require an address for the digest', async () => {
+      await expect(
+        service.updateNotificationPreferences('user_123', { email: undefined, emailDigest: true })
+      ).rejects.toThrow('An email address is required for the email digest');
+    });
+
+    it('should throw when the profile does not exist', async () => {
+      mockRepository.findByUserId.mockResolvedValue(null);
+
+      await expect(
+        service.updateNotificationPreferences('missing', { emailDigest: false })
+      ).rejects.toThrow('Player profile not found for user ID: missing');
+    });
+  });
+
   describe('validateDisplayName', () => {
     it('should return true for valid display name', () => {
       expect(service.validateDisplayName('john_doe')).toBe(true);
@@ -1,6 +1,6 @@
 import { PluginRegistry } from '@application/PluginRegistry';
 import { BaseGameEngine } from '@domain/interfaces';
-import { GameState, Player, Move, GameLifecycle } from '@domain/models';
+import { GameState, Player, Move, GameLifecycle, GameSettingsSchema } from '@domain/models';
 import { GameConfig, ValidationResult, BoardRenderData } from '@domain/interfaces';
 
 // Mock game engine for testing
@@ -190,6 +190,24 @@ describe('PluginRegistry', () => {
         maxPlayers: 8,
       });
     });
+
+    it('should include the settings schema of plugins that declare one', () => {
+      const schema: GameSettingsSchema = {
+        type: 'object',
+        properties: { rounds: { type: 'integer', minimum: 1, default: 3 } },
+      };
+      class ConfigurableEngine extends MockGameEngine {
+        getConfigSchema(): GameSettingsSchema {
+          return schema;
+        }
+      }
+      registry.register(new ConfigurableEngine('darts'));
+      registry.register(new MockGameEngine('chess'));
+
+      const [darts, chess] = registry.list();
+      expect(darts.configSchema).toEqual(schema);
+      expect(chess.configSchema).toBeUndefined();
+    });
   });
 
   describe('unregister', () => {
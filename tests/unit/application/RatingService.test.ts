@@ -0,0 +1,182 @@
+import { RatingService } from '@application/services/RatingService';
+import { InMemoryRatingRepository } from '@infrastructure/persistence/InMemoryRatingRepository';
+import {
+  GameState,
+  GameLifecycle,
+  Player,
+  AI_ANCHOR_RATINGS,
+  DEFAULT_RATING,
+  DEFAULT_RATING_DEVIATION,
+} from '@domain/models';
+import { GameStateBuilder, createPlayer } from '../../utils';
+
+describe('RatingService', () => {
+  let repository: InMemoryRatingRepository;
+  let service: RatingService;
+
+  const alice = createPlayer('alice', 'Alice');
+  const bob = createPlayer('bob', 'Bob');
+
+  beforeEach(() => {
+    repository = new InMemoryRatingRepository();
+    service = new RatingService(repository);
+  });
+
+  function completedGame(
+    gameId: string,
+    players: Player[],
+    winner: string | null,
+    gameType: string = 'tic-tac-toe'
+  ): GameState {
+    return new GameStateBuilder()
+      .withGameId(gameId)
+      .withGameType(gameType)
+      .withPlayers(players)
+      .withLifecycle(GameLifecycle.COMPLETED)
+      .withWinner(winner)
+      .build();
+  }
+
+  function aiPlayer(id: string, difficulty?: string): Player {
+    return createPlayer(id, `AI ${id}`, { isAI: true, strategyId: 'strategy', difficulty });
+  }
+
+  describe('recordGameResult', () => {
+    it('should move the winner up and the loser down by the same amount', async () => {
+      const entries = await service.recordGameResult(
+        completedGame('game-1', [alice, bob], 'alice')
+      );
+
+      const [aliceEntry, bobEntry] = entries;
+      expect(entries).toHaveLength(2);
+      expect(aliceEntry).toMatchObject({ userId: 'alice', gameId: 'game-1' });
+      expect(aliceEntry.rating).toBeGreaterThan(DEFAULT_RATING);
+      expect(bobEntry.rating).toBeLessThan(DEFAULT_RATING);
+      expect(aliceEntry.ratingChange).toBeCloseTo(-bobEntry.ratingChange, 6);
+      expect(aliceEntry.deviation).toBeLessThan(DEFAULT_RATING_DEVIATION);
+    });
+
+    it('should leave equal players unchanged after a draw', async () => {
+      const entries = await service.recordGameResult(completedGame('game-1', [alice, bob], null));
+
+      expect(entries.map((e) => e.rating)).toEqual([
+        expect.closeTo(DEFAULT_RATING, 6),
+        expect.closeTo(DEFAULT_RATING, 6),
+      ]);
+    });
+
+    it('should build on previous ratings and count games played', async () => {
+      await service.recordGameResult(completedGame('game-1', [alice, bob], 'alice'));
+      const [first] = await service.getRatingHistory('alice');
+      await service.recordGameResult(completedGame('game-2', [alice, bob], 'alice'));
+
+      const [rating] = await service.getPlayerRatings('alice');
+      expect(rating.gamesPlayed).toBe(2);
+      expect(rating.rating).toBeGreaterThan(first.rating);
+    });
+
+    it('should keep ratings separate per game type', async () => {
+      await service.recordGameResult(completedGame('game-1', [alice, bob], 'alice'));
+      await service.recordGameResult(completedGame('game-2', [alice, bob], 'bob', 'connect-four'));
+
+      const ratings = await service.getPlayerRatings('alice');
+      expect(ratings.map((r) => r.gameType)).toEqual(['connect-four', 'tic-tac-toe']);
+      expect(ratings[0].rating).toBeLessThan(DEFAULT_RATING);
+      expect(ratings[1].rating).toBeGreaterThan(DEFAULT_RATING);
+    });
+
+    it('should rate a game only once', async () => {
+      const game = completedGame('game-1', [alice, bob], 'alice');
+
+      await service.recordGameResult(game);
+      const repeated = await service.recordGameResult(game);
+
+      expect(repeated).toEqual([]);
+      expect(await service.getRatingHistory('alice')).toHaveLength(1);
+    });
+
+    it('should ignore games that are not completed', async () => {
+      const game = {
+        ...completedGame('game-1', [alice, bob], null),
+        lifecycle: GameLifecycle.ABANDONED,
+      };
+
+      expect(await service.recordGameResult(game)).toEqual([]);
+      expect(await service.getPlayerRatings('alice')).toEqual([]);
+    });
+
+    it('should ignore games without two players', async () => {
+      expect(await service.recordGameResult(completedGame('game-1', [alice], 'alice'))).toEqual([]);
+    });
+
+    describe('AI anchors', () => {
+      it('should not rate AI players', async () => {
+        const bot = aiPlayer('bot', 'hard');
+
+        const entries = await service.recordGameResult(
+          completedGame('game-1', [alice, bot], 'bot')
+        );
+
+        expect(entries.map((e) => e.userId)).toEqual(['alice']);
+        expect(await service.getPlayerRatings('bot')).toEqual([]);
+      });
+
+      it('should ignore games between AI players only', async () => {
+        const game = completedGame('game-1', [aiPlayer('bot1', 'easy'), aiPlayer('bot2')], 'bot1');
+
+        expect(await service.recordGameResult(game)).toEqual([]);
+      });
+
+      it('should reward beating a harder AI more', async () => {
+        const [beatHard] = await service.recordGameResult(
+          completedGame('game-1', [alice, aiPlayer('hard-bot', 'hard')], 'alice')
+        );
+        const [beatEasy] = await service.recordGameResult(
+          completedGame('game-2', [bob, aiPlayer('easy-bot', 'easy')], 'bob')
+        );
+
+        expect(AI_ANCHOR_RATINGS.hard).toBeGreaterThan(AI_ANCHOR_RATINGS.easy);
+        expect(beatHard.ratingChange).toBeGreaterThan(beatEasy.ratingChange);
+      });
+
+      it('should treat an AI without a known difficulty as a default-rated opponent', async () => {
+        const [unknown] = await service.recordGameResult(
+          completedGame('game-1', [alice, aiPlayer('bot', 'nightmare')], null)
+        );
+
+        expect(unknown.rating).toBeCloseTo(DEFAULT_RATING, 6);
+      });
+    });
+
+    describe('multiplayer games', () => {
+      it('should score the winner against everyone and draw the remaining pairs', async () => {
+        const carol = createPlayer('carol', 'Carol');
+
+        const entries = await service.recordGameResult(
+          completedGame('game-1', [alice, bob, carol], 'carol', 'yahtzee')
+        );
+
+        const byUser = new Map(entries.map((e) => [e.userId, e]));
+        expect(byUser.get('carol')!.ratingChange).toBeGreaterThan(0);
+        expect(byUser.get('alice')!.ratingChange).toBeLessThan(0);
+        expect(byUser.get('alice')!.rating).toBeCloseTo(byUser.get('bob')!.rating, 6);
+      });
+    });
+  });
+
+  describe('getRatingHistory', () => {
+    it('should filter by game type', async () => {
+      await service.recordGameResult(completedGame('game-1', [alice, bob], 'alice'));
+      await service.recordGameResult(completedGame('game-2', [alice, bob], 'bob', 'connect-four'));
+
+      const history = await service.getRatingHistory('alice', 'connect-four');
+
+      expect(history).toHaveLength(1);
+      expect(history[0].gameId).toBe('game-2');
+    });
+
+    it('should return an empty history for unrated players', async () => {
+      expect(await service.getRatingHistory('nobody')).toEqual([]);
+    });
+  });
+});
@@ -158,7 +158,7 @@ describe('StateManagerService - Property-Based Tests', () => {
               repository,
               pluginRegistry,
               lockManager,
-              undefined, // No WebSocket service for property testing
+              undefined, // No event bus for property testing
               aiService
             );
 
@@ -1,14 +1,34 @@
 import { StateManagerService } from '@application/services/StateManagerService';
 import { AIPlayerService } from '@application/services/AIPlayerService';
+import { RatingService } from '@application/services/RatingService';
+import { TournamentService } from '@application/services/TournamentService';
 import { GameLockManager } from '@application/GameLockManager';
 import { PluginRegistry } from '@application/PluginRegistry';
+import { DomainEventBus } from '@application/events/DomainEventBus';
+import { WebSocketEventHandler } from '@application/events/WebSocketEventHandler';
+import { RatingEventHandler } from '@application/events/RatingEventHandler';
+import { TournamentEventHandler } from '@application/events/TournamentEventHandler';
 import { InMemoryGameRepository } from '@infrastructure/persistence/InMemoryGameRepository';
-import { GameState, GameLifecycle, Player, Move } from '@domain/models';
+import { InMemoryRatingRepository } from '@infrastructure/persistence/InMemoryRatingRepository';
+import { Logger } from '@infrastructure/logging/Logger';
+import {
+  GameState,
+  GameLifecycle,
+  Player,
+  Move,
+  TimeControlType,
+  TimeoutAction,
+  DomainEvent,
+  DomainEventType,
+} from '@domain/models';
+import { startClock } from '@domain/game-utils/TurnClock';
 import {
   GameNotFoundError,
   InvalidMoveError,
   UnauthorizedMoveError,
   ConcurrencyError,
+  InvalidGameActionError,
+  TurnExpiredError,
 } from '@domain/errors';
 import { MockGameEngine, GameStateBuilder, createPlayer } from '../../utils';
 import { IWebSocketService, WebSocketMessageType } from '@domain/interfaces/IWebSocketService';
@@ -436,19 +456,19 @@ describe('StateManagerService', () => {
         unregisterConnection: jest.fn(),
         subscribe: jest.fn(),
         unsubscribe: jest.fn(),
+        observe: jest.fn(),
+        unobserve: jest.fn(),
         broadcastToGame: jest.fn().mockResolvedValue(undefined),
         sendToUser: jest.fn().mockResolvedValue(undefined),
         getConnectionCount: jest.fn().mockReturnValue(0),
         getGameSubscriberCount: jest.fn().mockReturnValue(0),
+        getGameObserverCount: jest.fn().mockReturnValue(0),
       };
 
-      // Recreate StateManagerService with WebSocket service
-      stateManager = new StateManagerService(
-        repository,
-        pluginRegistry,
-        lockManager,
-        mockWebSocketService
-      );
+      // Recreate StateManagerService with WebSocket broadcasts subscribed to its events
+      const eventBus = new DomainEventBus(new Logger('error', 'json'));
+      new WebSocketEventHandler(mockWebSocketService, pluginRegistry).register(eventBus);
+      stateManager = new StateManagerService(repository, pluginRegistry, lockManager, eventBus);
     });
 
     it('should broadcast game update when move is applied', async () => {
@@ -483,7 +503,8 @@ describe('StateManagerService', () => {
             }),
           }),
           timestamp: expect.any(Date),
-        })
+        }),
+        expect.any(Function)
       );
     });
 
@@ -524,7 +545,8 @@ describe('StateManagerService', () => {
               aiPlayerCount: 0,
             }),
           }),
-        })
+        }),
+        expect.any(Function)
       );
 
       // Second call: game complete
@@ -591,7 +613,8 @@ describe('StateManagerService', () => {
       // broadcastToGame should be called, which internally handles subscriber filtering
       expect(mockWebSocketService.broadcastToGame).toHaveBeenCalledWith(
         'test-game-1',
-        expect.any(Object)
+        expect.any(Object),
+        expect.any(Function)
       );
     });
 
@@ -643,6 +666,422 @@ describe('StateManagerService', () => {
       expect(updatedState.moveHistory).toHaveLength(1);
       expect(mockWebSocketService.broadcastToGame).toHaveBeenCalled();
     });
+
+    it('should hand the clock to the next player and broadcast the new deadline', async () => {
+      // Arrange
+      const players = createMockPlayers();
+      const timeControl = { type: TimeControlType.PER_MOVE, daysPerMove: 3 };
+      const gameState = new GameStateBuilder()
+        .withGameId('test-game-1')
+        .withGameType('mock-game')
+        .withLifecycle(GameLifecycle.ACTIVE)
+        .withPlayers(players)
+        .withMetadata({
+          timeControl,
+          clock: startClock(timeControl, ['player1', 'player2'], 'player1'),
+        })
+        .build();
+      await repository.save(gameState);
+
+      const move: Move = {
+        playerId: 'player1',
+        timestamp: new Date(),
+        action: 'test-action',
+        parameters: {},
+      };
+
+      // Act
+      const updatedState = await stateManager.applyMove('test-game-1', 'player1', move, 1);
+
+      // Assert
+      expect(updatedState.metadata.clock.turnPlayerId).toBe('player2');
+      expect(mockWebSocketService.broadcastToGame).toHaveBeenCalledWith(
+        'test-game-1',
+        expect.objectContaining({
+          type: WebSocketMessageType.GAME_UPDATE,
+          clock: {
+            playerId: 'player2',
+            deadline: updatedState.metadata.clock.deadline,
+            timeRemainingMs: expect.any(Number),
+          },
+        }),
+        expect.any(Function)
+      );
+    });
+
+    it('should refuse a move after the turn deadline and apply the timeout', async () => {
+      // Arrange
+      const players = createMockPlayers();
+      const timeControl = { type: TimeControlType.FISCHER, initialDays: 1, incrementDays: 1 };
+      const startedAt = new Date(Date.now() - 2 * 24 * 60 * 60 * 1000);
+      const gameState = new GameStateBuilder()
+        .withGameId('test-game-1')
+        .withGameType('mock-game')
+        .withLifecycle(GameLifecycle.ACTIVE)
+        .withPlayers(players)
+        .withMetadata({
+          timeControl,
+          clock: startClock(timeControl, ['player1', 'player2'], 'player1', startedAt),
+        })
+        .build();
+      await repository.save(gameState);
+
+      const move: Move = {
+        playerId: 'player1',
+        timestamp: new Date(),
+        action: 'test-action',
+        parameters: {},
+      };
+
+      // Act & Assert
+      await expect(stateManager.applyMove('test-game-1', 'player1', move, 1)).rejects.toThrow(
+        TurnExpiredError
+      );
+
+      const stored = await repository.findById('test-game-1');
+      expect(stored!.lifecycle).toBe(GameLifecycle.COMPLETED);
+      expect(stored!.winner).toBe('player2');
+      expect(stored!.moveHistory).toHaveLength(0);
+      expect(stored!.metadata.timeouts).toEqual([
+        expect.objectContaining({ playerId: 'player1', action: TimeoutAction.FORFEIT }),
+      ]);
+    });
+  });
+
+  describe('Resign, draw and abort', () => {
+    function createGameWithAIOpponent(): GameState {
+      return new GameStateBuilder()
+        .withGameId('test-game-1')
+        .withGameType('mock-game')
+        .withLifecycle(GameLifecycle.ACTIVE)
+        .withPlayers([
+          createPlayer('player1', 'Player 1'),
+          { ...createPlayer('ai-1', 'Bot'), metadata: { isAI: true } },
+        ])
+        .build();
+    }
+
+    it('should invoke onGameEnded and record the opponent as winner on resign', async () => {
+      await repository.save(createMockGameState(createMockPlayers()));
+
+      const result = await stateManager.resign('test-game-1', 'player2');
+
+      expect(result.lifecycle).toBe(GameLifecycle.COMPLETED);
+      expect(result.winner).toBe('player1');
+      expect(result.version).toBe(2);
+      expect(mockEngine.onGameEndedCalled).toBe(true);
+    });
+
+    it('should not award a win when resigning a game with more than two players', async () => {
+      const players = [...createMockPlayers(), createPlayer('player3', 'Player 3')];
+      await repository.save(createMockGameState(players));
+
+      const result = await stateManager.resign('test-game-1', 'player3');
+
+      expect(result.winner).toBeNull();
+      expect(result.metadata.isDraw).toBe(false);
+    });
+
+    it('should require every player to accept a draw in multiplayer games', async () => {
+      const players = [...createMockPlayers(), createPlayer('player3', 'Player 3')];
+      await repository.save(createMockGameState(players));
+
+      await stateManager.offerDraw('test-game-1', 'player1');
+      const partial = await stateManager.acceptDraw('test-game-1', 'player2');
+      expect(partial.lifecycle).toBe(GameLifecycle.ACTIVE);
+      expect(partial.metadata.drawOffer.acceptedBy).toEqual(['player1', 'player2']);
+
+      const drawn = await stateManager.acceptDraw('test-game-1', 'player3');
+      expect(drawn.lifecycle).toBe(GameLifecycle.COMPLETED);
+      expect(drawn.metadata.isDraw).toBe(true);
+    });
+
+    it('should not let a player decline their own draw offer', async () => {
+      await repository.save(createMockGameState(createMockPlayers()));
+      await stateManager.offerDraw('test-game-1', 'player1');
+
+      await expect(stateManager.declineDraw('test-game-1', 'player1')).rejects.toThrow(
+        InvalidGameActionError
+      );
+    });
+
+    it('should reject draw offers against AI opponents', async () => {
+      await repository.save(createGameWithAIOpponent());
+
+      await expect(stateManager.offerDraw('test-game-1', 'player1')).rejects.toThrow(
+        'AI players do not accept draws'
+      );
+    });
+
+    it('should abort immediately when the only opponent is an AI', async () => {
+      await repository.save(createGameWithAIOpponent());
+
+      const result = await stateManager.abort('test-game-1', 'player1');
+
+      expect(result.lifecycle).toBe(GameLifecycle.ABANDONED);
+      expect(result.metadata.aborted).toBe(true);
+    });
+
+    it('should not count meta-actions towards the abort move limit', async () => {
+      await repository.save(createMockGameState(createMockPlayers()));
+      await stateManager.offerDraw('test-game-1', 'player1');
+      await stateManager.declineDraw('test-game-1', 'player2');
+      await stateManager.offerDraw('test-game-1', 'player2');
+
+      const result = await stateManager.abort('test-game-1', 'player1');
+
+      expect(result.metadata.abortRequest.requestedBy).toEqual(['player1']);
+    });
+  });
+
+  describe('imposeResult', () => {
+    it('should complete the game with the imposed result and clear pending offers', async () => {
+      await repository.save(createMockGameState(createMockPlayers()));
+      await stateManager.offerDraw('test-game-1', 'player1');
+
+      const result = await stateManager.imposeResult(
+        'test-game-1',
+        { winner: 'player2', isDraw: false, rated: true },
+        { adjudicatedBy: 'admin' }
+      );
+
+      expect(result.lifecycle).toBe(GameLifecycle.COMPLETED);
+      expect(result.winner).toBe('player2');
+      expect(result.metadata).toMatchObject({ isDraw: false, adjudicatedBy: 'admin' });
+      expect(result.metadata.drawOffer).toBeUndefined();
+      expect(result.moveHistory).toHaveLength(1); // Only the draw offer
+      expect(mockEngine.onGameEndedCalled).toBe(true);
+    });
+
+    it('should reject games that are not active', async () => {
+      await repository.save(
+        new GameStateBuilder()
+          .withGameId('test-game-1')
+          .withGameType('mock-game')
+          .withLifecycle(GameLifecycle.WAITING_FOR_PLAYERS)
+          .withPlayers([createPlayer('player1', 'Player 1')])
+          .build()
+      );
+
+      await expect(
+        stateManager.imposeResult('test-game-1', { winner: null, isDraw: true, rated: true })
+      ).rejects.toThrow(InvalidGameActionError);
+    });
+
+    it('should throw GameNotFoundError for unknown games', async () => {
+      await expect(
+        stateManager.imposeResult('missing', { winner: null, isDraw: true, rated: true })
+      ).rejects.toThrow(GameNotFoundError);
+    });
+  });
+
+  describe('Domain events', () => {
+    let events: DomainEvent[];
+
+    beforeEach(async () => {
+      events = [];
+      const eventBus = new DomainEventBus(new Logger('error', 'json'));
+      for (const type of Object.values(DomainEventType)) {
+        eventBus.subscribe(type, (event) => {
+          events.push(event);
+        });
+      }
+      stateManager = new StateManagerService(repository, pluginRegistry, lockManager, eventBus);
+      await repository.save(createMockGameState(createMockPlayers()));
+    });
+
+    const move: Move = {
+      playerId: 'player1',
+      timestamp: new Date(),
+      action: 'test-action',
+      parameters: {},
+    };
+
+    it('should publish the update, the move and the turn change', async () => {
+      await stateManager.applyMove('test-game-1', 'player1', move, 1);
+
+      expect(events.map((e) => e.type)).toEqual([
+        DomainEventType.GAME_UPDATED,
+        DomainEventType.MOVE_APPLIED,
+        DomainEventType.TURN_CHANGED,
+      ]);
+      expect(events[0]).toMatchObject({ reason: 'move', game: { version: 2 } });
+      expect(events[1]).toMatchObject({ playerId: 'player1', move: { action: 'test-action' } });
+      expect(events[2]).toMatchObject({ previousPlayerId: 'player1', currentPlayerId: 'player2' });
+    });
+
+    it('should publish the result when a move ends the game', async () => {
+      mockEngine.withGameOverResult(true).withWinnerResult('player1');
+
+      await stateManager.applyMove('test-game-1', 'player1', move, 1);
+
+      expect(events.map((e) => e.type)).toEqual([
+        DomainEventType.GAME_UPDATED,
+        DomainEventType.MOVE_APPLIED,
+        DomainEventType.GAME_COMPLETED,
+      ]);
+      expect(events[2]).toMatchObject({ winner: 'player1', isDraw: false, rated: true });
+    });
+
+    it('should publish unrated imposed results as unrated', async () => {
+      await stateManager.imposeResult('test-game-1', { winner: null, isDraw: true, rated: false });
+
+      expect(events.map((e) => e.type)).toEqual([
+        DomainEventType.GAME_UPDATED,
+        DomainEventType.GAME_COMPLETED,
+      ]);
+      expect(events[0]).toMatchObject({ reason: 'moderation' });
+      expect(events[1]).toMatchObject({ winner: null, isDraw: true, rated: false });
+    });
+
+    it('should not publish a turn change for a draw offer', async () => {
+      await stateManager.offerDraw('test-game-1', 'player1');
+
+      expect(events).toEqual([
+        expect.objectContaining({ type: DomainEventType.GAME_UPDATED, reason: 'offer_draw' }),
+      ]);
+    });
+
+    it('should publish once the game lock is released', async () => {
+      // A handler that needs the game lock would deadlock if events were published under it
+      const eventBus = new DomainEventBus(new Logger('error', 'json'));
+      const lockedVersions: number[] = [];
+      eventBus.subscribe(DomainEventType.GAME_UPDATED, async (event) => {
+        await lockManager.withLock(event.game.gameId, async () => {
+          lockedVersions.push(event.game.version);
+        });
+      });
+      stateManager = new StateManagerService(repository, pluginRegistry, lockManager, eventBus);
+
+      await stateManager.applyMove('test-game-1', 'player1', move, 1);
+
+      expect(lockedVersions).toEqual([2]);
+    });
+  });
+
+  describe('Ratings', () => {
+    let ratingService: RatingService;
+
+    const winningMove: Move = {
+      playerId: 'player1',
+      timestamp: new Date(),
+      action: 'winning-move',
+      parameters: {},
+    };
+
+    let logger: Logger;
+
+    beforeEach(async () => {
+      ratingService = new RatingService(new InMemoryRatingRepository());
+      logger = new Logger('error', 'json');
+      const eventBus = new DomainEventBus(logger);
+      new RatingEventHandler(ratingService).register(eventBus);
+      stateManager = new StateManagerService(repository, pluginRegistry, lockManager, eventBus);
+      await repository.save(createMockGameState(createMockPlayers()));
+    });
+
+    it('should update ratings when a move completes the game', async () => {
+      mockEngine.withGameOverResult(true).withWinnerResult('player1');
+
+      await stateManager.applyMove('test-game-1', 'player1', winningMove, 1);
+
+      const [winner] = await ratingService.getRatingHistory('player1');
+      const [loser] = await ratingService.getRatingHistory('player2');
+      expect(winner.gameId).toBe('test-game-1');
+      expect(winner.ratingChange).toBeGreaterThan(0);
+      expect(loser.ratingChange).toBeLessThan(0);
+    });
+
+    it('should not update ratings while the game continues', async () => {
+      await stateManager.applyMove('test-game-1', 'player1', winningMove, 1);
+
+      expect(await ratingService.getRatingHistory('player1')).toEqual([]);
+    });
+
+    it('should update ratings when a player resigns', async () => {
+      await stateManager.resign('test-game-1', 'player1');
+
+      const [history] = await ratingService.getRatingHistory('player2');
+      expect(history.ratingChange).toBeGreaterThan(0);
+    });
+
+    it('should not rate unrated imposed results', async () => {
+      await stateManager.imposeResult('test-game-1', { winner: null, isDraw: false, rated: false });
+
+      expect(await ratingService.getRatingHistory('player1')).toEqual([]);
+    });
+
+    it('should not rate aborted games', async () => {
+      await stateManager.abort('test-game-1', 'player1');
+      await stateManager.abort('test-game-1', 'player2');
+
+      expect(await ratingService.getRatingHistory('player1')).toEqual([]);
+    });
+
+    it('should complete the game even if ratings cannot be updated', async () => {
+      const errorSpy = jest.spyOn(logger, 'error');
+      jest.spyOn(ratingService, 'recordGameResult').mockRejectedValue(new Error('Database down'));
+
+      const result = await stateManager.resign('test-game-1', 'player1');
+
+      expect(result.lifecycle).toBe(GameLifecycle.COMPLETED);
+      expect(errorSpy).toHaveBeenCalledWith(
+        'Domain event handler failed',
+        expect.objectContaining({
+          handler: 'rating.gameComplete',
+          gameId: 'test-game-1',
+          error: 'Database down',
+        })
+      );
+    });
+  });
+
+  describe('Tournaments', () => {
+    let tournamentService: jest.Mocked<Pick<TournamentService, 'recordGameResult'>>;
+    let logger: Logger;
+
+    beforeEach(async () => {
+      tournamentService = { recordGameResult: jest.fn().mockResolvedValue(null) };
+      logger = new Logger('error', 'json');
+      const eventBus = new DomainEventBus(logger);
+      new TournamentEventHandler(tournamentService as unknown as TournamentService).register(
+        eventBus
+      );
+      stateManager = new StateManagerService(repository, pluginRegistry, lockManager, eventBus);
+      await repository.save(createMockGameState(createMockPlayers()));
+    });
+
+    it('should report completed games to the tournament service', async () => {
+      await stateManager.resign('test-game-1', 'player1');
+
+      expect(tournamentService.recordGameResult).toHaveBeenCalledWith(
+        expect.objectContaining({ gameId: 'test-game-1', lifecycle: GameLifecycle.COMPLETED })
+      );
+    });
+
+    it('should report aborted games so the match can be replayed', async () => {
+      await stateManager.abort('test-game-1', 'player1');
+      expect(tournamentService.recordGameResult).not.toHaveBeenCalled();
+
+      await stateManager.abort('test-game-1', 'player2');
+
+      expect(tournamentService.recordGameResult).toHaveBeenCalledWith(
+        expect.objectContaining({ lifecycle: GameLifecycle.ABANDONED })
+      );
+    });
+
+    it('should finish the game even if the tournament cannot be updated', async () => {
+      const errorSpy = jest.spyOn(logger, 'error');
+      tournamentService.recordGameResult.mockRejectedValue(new Error('Database down'));
+
+      const result = await stateManager.resign('test-game-1', 'player1');
+
+      expect(result.lifecycle).toBe(GameLifecycle.COMPLETED);
+      expect(errorSpy).toHaveBeenCalledWith(
+        'Domain event handler failed',
+        expect.objectContaining({ handler: 'tournament.gameComplete', gameId: 'test-game-1' })
+      );
+    });
   });
 
   describe('AI Turn Processing', () => {
@@ -655,6 +1094,7 @@ describe('StateManagerService', () => {
         isAIPlayer: jest.fn(),
         getAvailableStrategies: jest.fn(),
         processAITurn: jest.fn(),
+        restoreAIPlayers: jest.fn().mockResolvedValue(0),
       } as unknown as jest.Mocked<AIPlayerService>;
 
       // Recreate StateManagerService with AI service
@@ -662,7 +1102,7 @@ describe('StateManagerService', () => {
         repository,
         pluginRegistry,
         lockManager,
-        undefined, // No WebSocket for these tests
+        undefined, // No event bus for these tests
         mockAIPlayerService
       );
     });
@@ -1007,5 +1447,114 @@ describe('StateManagerService', () => {
       expect(updatedState.moveHistory).toHaveLength(1);
       expect(updatedState.moveHistory[0].playerId).toBe('player1');
     });
+
+    describe('resuming after a restart', () => {
+      const aiSeat = { ...createPlayer('ai1', 'AI Player'), metadata: { isAI: true } };
+
+      beforeEach(() => {
+        mockAIPlayerService.isAIPlayer.mockImplementation(async (playerId) => playerId === 'ai1');
+        mockAIPlayerService.processAITurn.mockImplementation(async (gameId, aiPlayerId) => {
+          const baseState = (await repository.findById(gameId))!;
+          const updatedState = {
+            ...baseState,
+            moveHistory: [
+              ...baseState.moveHistory,
+              { playerId: aiPlayerId, timestamp: new Date(), action: 'ai-move', parameters: {} },
+            ],
+            currentPlayerIndex: 0,
+            version: baseState.version + 1,
+          };
+          return repository.update(gameId, updatedState, baseState.version);
+        });
+        mockEngine.getCurrentPlayer = jest
+          .fn()
+          .mockImplementation((state: GameState) => state.players[state.currentPlayerIndex].id);
+      });
+
+      it('should play a pending AI turn', async () => {
+        const gameState = new GameStateBuilder()
+          .withGameId('test-game-1')
+          .withGameType('mock-game')
+          .withLifecycle(GameLifecycle.ACTIVE)
+          .withPlayers([createPlayer('human1', 'Human'), aiSeat])
+          .withCurrentPlayerIndex(1)
+          .build();
+        await repository.save(gameState);
+
+        const finalState = await stateManager.resumeAITurns('test-game-1');
+
+        expect(mockAIPlayerService.restoreAIPlayers).toHaveBeenCalledWith(gameState);
+        expect(mockAIPlayerService.processAITurn).toHaveBeenCalledWith('test-game-1', 'ai1');
+        expect(finalState.moveHistory).toHaveLength(1);
+        expect(finalState.currentPlayerIndex).toBe(0);
+      });
+
+      it('should leave games waiting on a human player unchanged', async () => {
+        const gameState = new GameStateBuilder()
+          .withGameId('test-game-1')
+          .withGameType('mock-game')
+          .withLifecycle(GameLifecycle.ACTIVE)
+          .withPlayers([createPlayer('human1', 'Human'), aiSeat])
+          .withCurrentPlayerIndex(0)
+          .build();
+        await repository.save(gameState);
+
+        const finalState = await stateManager.resumeAITurns('test-game-1');
+
+        expect(mockAIPlayerService.processAITurn).not.toHaveBeenCalled();
+        expect(finalState.version).toBe(gameState.version);
+      });
+
+      it('should resume every active game with an AI seat and count the ones that moved', async () => {
+        const build = (gameId: string, lifecycle: GameLifecycle, players: Player[]) =>
+          new GameStateBuilder()
+            .withGameId(gameId)
+            .withGameType('mock-game')
+            .withLifecycle(lifecycle)
+            .withPlayers(players)
+            .withCurrentPlayerIndex(1)
+            .build();
+        await repository.save(
+          build('pending', GameLifecycle.ACTIVE, [createPlayer('h1', 'H'), aiSeat])
+        );
+        await repository.save(
+          build('humans-only', GameLifecycle.ACTIVE, [
+            createPlayer('h1', 'H'),
+            createPlayer('h2', 'H'),
+          ])
+        );
+        await repository.save(
+          build('finished', GameLifecycle.COMPLETED, [createPlayer('h1', 'H'), aiSeat])
+        );
+
+        const resumed = await stateManager.resumePendingAITurns();
+
+        expect(resumed).toBe(1);
+        expect(mockAIPlayerService.processAITurn).toHaveBeenCalledTimes(1);
+        expect(mockAIPlayerService.processAITurn).toHaveBeenCalledWith('pending', 'ai1');
+      });
+
+      it('should keep resuming other games when one fails', async () => {
+        const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+        mockAIPlayerService.restoreAIPlayers.mockRejectedValueOnce(new Error('database down'));
+        for (const gameId of ['first', 'second']) {
+          await repository.save(
+            new GameStateBuilder()
+              .withGameId(gameId)
+              .withGameType('mock-game')
+              .withLifecycle(GameLifecycle.ACTIVE)
+              .withPlayers([createPlayer('human1', 'Human'), aiSeat])
+              .withCurrentPlayerIndex(1)
+              .build()
+          );
+        }
+
+        const resumed = await stateManager.resumePendingAITurns();
+
+        expect(resumed).toBe(1);
+        expect(consoleSpy).toHaveBeenCalled();
+        consoleSpy.mockRestore();
+      });
+    });
   });
 });
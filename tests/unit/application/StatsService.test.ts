@@ -4,12 +4,15 @@
  */
 
 import { StatsService } from '@application/services/StatsService';
+import { PluginRegistry } from '@application/PluginRegistry';
 import {
   PlayerStats,
   LeaderboardEntry,
   GameHistoryFilters,
 } from '@infrastructure/persistence/PostgresStatsRepository';
 import { GameState, GameLifecycle } from '@domain/models';
+import { GameEnginePlugin } from '@domain/interfaces';
+import { MockGameEngine } from '../../utils';
 
 // Mock stats repository
 interface MockStatsRepository {
@@ -21,6 +24,7 @@ interface MockStatsRepository {
 describe('StatsService', () => {
   let statsService: StatsService;
   let mockStatsRepository: MockStatsRepository;
+  let registry: PluginRegistry;
 
   beforeEach(() => {
     mockStatsRepository = {
@@ -29,7 +33,8 @@ describe('StatsService', () => {
       getGameHistory: jest.fn(),
     };
 
-    statsService = new StatsService(mockStatsRepository as any);
+    registry = new PluginRegistry();
+    statsService = new StatsService(mockStatsRepository as any, registry);
   });
 
   describe('getPlayerStats', () => {
@@ -180,6 +185,7 @@ describe('StatsService', () => {
           wins: 18,
           losses: 2,
           winRate: 0.9,
+          rating: 1500,
           aiGames: 5,
         },
         {
@@ -190,6 +196,7 @@ describe('StatsService', () => {
           wins: 12,
           losses: 3,
           winRate: 0.8,
+          rating: 1500,
           aiGames: 3,
         },
       ];
@@ -199,7 +206,11 @@ describe('StatsService', () => {
       const result = await statsService.getLeaderboard();
 
       expect(result).toEqual(expectedLeaderboard);
-      expect(mockStatsRepository.getLeaderboard).toHaveBeenCalledWith(undefined, undefined);
+      expect(mockStatsRepository.getLeaderboard).toHaveBeenCalledWith(
+        undefined,
+        undefined,
+        undefined
+      );
     });
 
     it('should retrieve leaderboard for specific game type', async () => {
@@ -213,6 +224,7 @@ describe('StatsService', () => {
           wins: 9,
           losses: 1,
           winRate: 0.9,
+          rating: 1500,
           aiGames: 2,
         },
       ];
@@ -222,7 +234,11 @@ describe('StatsService', () => {
       const result = await statsService.getLeaderboard(gameType);
 
       expect(result).toEqual(expectedLeaderboard);
-      expect(mockStatsRepository.getLeaderboard).toHaveBeenCalledWith(gameType, undefined);
+      expect(mockStatsRepository.getLeaderboard).toHaveBeenCalledWith(
+        gameType,
+        undefined,
+        undefined
+      );
     });
 
     it('should retrieve leaderboard with custom limit', async () => {
@@ -234,7 +250,15 @@ describe('StatsService', () => {
       const result = await statsService.getLeaderboard(undefined, limit);
 
       expect(result).toEqual(expectedLeaderboard);
-      expect(mockStatsRepository.getLeaderboard).toHaveBeenCalledWith(undefined, limit);
+      expect(mockStatsRepository.getLeaderboard).toHaveBeenCalledWith(undefined, limit, undefined);
+    });
+
+    it('should pass the requested sort order to the repository', async () => {
+      mockStatsRepository.getLeaderboard.mockResolvedValue([]);
+
+      await statsService.getLeaderboard('tic-tac-toe', 10, 'rating');
+
+      expect(mockStatsRepository.getLeaderboard).toHaveBeenCalledWith('tic-tac-toe', 10, 'rating');
     });
 
     it('should verify leaderboard is ordered by win rate descending', async () => {
@@ -247,6 +271,7 @@ describe('StatsService', () => {
           wins: 9,
           losses: 1,
           winRate: 0.9,
+          rating: 1500,
           aiGames: 1,
         },
         {
@@ -257,6 +282,7 @@ describe('StatsService', () => {
           wins: 8,
           losses: 2,
           winRate: 0.8,
+          rating: 1500,
           aiGames: 2,
         },
         {
@@ -267,6 +293,7 @@ describe('StatsService', () => {
           wins: 7,
           losses: 3,
           winRate: 0.7,
+          rating: 1500,
           aiGames: 0,
         },
       ];
@@ -291,6 +318,7 @@ describe('StatsService', () => {
           wins: 9,
           losses: 1,
           winRate: 0.9,
+          rating: 1500,
           aiGames: 1,
         },
         {
@@ -301,6 +329,7 @@ describe('StatsService', () => {
           wins: 8,
           losses: 2,
           winRate: 0.8,
+          rating: 1500,
           aiGames: 2,
         },
         {
@@ -311,6 +340,7 @@ describe('StatsService', () => {
           wins: 7,
           losses: 3,
           winRate: 0.7,
+          rating: 1500,
           aiGames: 0,
         },
       ];
@@ -413,6 +443,36 @@ describe('StatsService', () => {
       expect(mockStatsRepository.getGameHistory).toHaveBeenCalledWith(userId, filters);
     });
 
+    it('should hide the server seed of games in progress', async () => {
+      const randomness = { serverSeed: 'secret', commitment: 'hash' };
+      const active = createMockGame('game1', 'yahtzee', GameLifecycle.ACTIVE);
+      const completed = createMockGame('game2', 'yahtzee', GameLifecycle.COMPLETED);
+      active.metadata = { randomness };
+      completed.metadata = { randomness };
+
+      mockStatsRepository.getGameHistory.mockResolvedValue([active, completed]);
+
+      const result = await statsService.getGameHistory('user123');
+
+      expect(result[0].metadata.randomness).toEqual({ commitment: 'hash' });
+      expect(result[1].metadata.randomness).toEqual(randomness);
+    });
+
+    it("should return each game as the player's view", async () => {
+      const plugin: GameEnginePlugin = new MockGameEngine('hidden-game');
+      const game = createMockGame('game1', 'hidden-game', GameLifecycle.ACTIVE);
+      const playerView = { ...game, metadata: { hand: 'own cards only' } };
+      plugin.getPlayerView = jest.fn().mockReturnValue(playerView);
+      registry.register(plugin);
+
+      mockStatsRepository.getGameHistory.mockResolvedValue([game]);
+
+      const result = await statsService.getGameHistory('user123');
+
+      expect(plugin.getPlayerView).toHaveBeenCalledWith(game, 'user123');
+      expect(result).toEqual([playerView]);
+    });
+
     it('should combine multiple filters', async () => {
       const userId = 'user123';
       const filters: GameHistoryFilters = {
@@ -0,0 +1,378 @@
+import { TournamentService } from '@application/services/TournamentService';
+import { GameManagerService } from '@application/services/GameManagerService';
+import { AIPlayerService } from '@application/services/AIPlayerService';
+import { PluginRegistry } from '@application/PluginRegistry';
+import { InMemoryGameRepository } from '@infrastructure/persistence/InMemoryGameRepository';
+import { InMemoryTournamentRepository } from '@infrastructure/persistence/InMemoryTournamentRepository';
+import { Logger } from '@infrastructure/logging/Logger';
+import {
+  GameLifecycle,
+  MatchResult,
+  Tournament,
+  TournamentFormat,
+  TournamentMatch,
+  TournamentStatus,
+} from '@domain/models';
+import {
+  ForbiddenError,
+  InvalidTournamentActionError,
+  InvalidTournamentError,
+  TournamentNotFoundError,
+} from '@domain/errors';
+import { GameStateBuilder, MockGameEngine } from '../../utils';
+
+describe('TournamentService', () => {
+  const organiser = { id: 'organiser', username: 'Organiser' };
+
+  let gameRepository: InMemoryGameRepository;
+  let tournamentRepository: InMemoryTournamentRepository;
+  let gameManagerService: GameManagerService;
+  let service: TournamentService;
+
+  beforeEach(() => {
+    const registry = new PluginRegistry();
+    registry.register(new MockGameEngine('tic-tac-toe').withMinPlayers(2).withMaxPlayers(2));
+    registry.register(new MockGameEngine('solitaire').withMinPlayers(1).withMaxPlayers(1));
+
+    gameRepository = new InMemoryGameRepository();
+    tournamentRepository = new InMemoryTournamentRepository();
+    gameManagerService = new GameManagerService(registry, gameRepository, {
+      createAIPlayers: jest.fn().mockResolvedValue([]),
+      isAIPlayer: jest.fn().mockResolvedValue(false),
+    } as unknown as AIPlayerService);
+
+    service = new TournamentService(
+      tournamentRepository,
+      gameManagerService,
+      new Logger('error', 'json')
+    );
+  });
+
+  async function createStartedTournament(
+    format: TournamentFormat,
+    playerIds: string[]
+  ): Promise<Tournament> {
+    const tournament = await service.createTournament(
+      { name: 'Office Cup', gameType: 'tic-tac-toe', format },
+      organiser
+    );
+    for (const id of playerIds) {
+      await service.joinTournament(tournament.tournamentId, { id, name: id.toUpperCase() });
+    }
+    return service.startTournament(tournament.tournamentId, organiser.id);
+  }
+
+  function currentMatches(tournament: Tournament): TournamentMatch[] {
+    return tournament.rounds[tournament.rounds.length - 1].matches;
+  }
+
+  async function finishGame(
+    match: TournamentMatch,
+    winner: string | null,
+    lifecycle: GameLifecycle = GameLifecycle.COMPLETED
+  ): Promise<Tournament | null> {
+    const game = new GameStateBuilder()
+      .withGameId(match.gameId!)
+      .withGameType('tic-tac-toe')
+      .withLifecycle(lifecycle)
+      .withWinner(winner)
+      .build();
+    return service.recordGameResult(game);
+  }
+
+  describe('createTournament', () => {
+    it('should create a tournament open for registration', async () => {
+      const tournament = await service.createTournament(
+        { name: '  Office Cup ', gameType: 'tic-tac-toe', format: TournamentFormat.KNOCKOUT },
+        organiser
+      );
+
+      expect(tournament).toMatchObject({
+        name: 'Office Cup',
+        gameType: 'tic-tac-toe',
+        format: TournamentFormat.KNOCKOUT,
+        status: TournamentStatus.REGISTRATION,
+        createdBy: 'organiser',
+        participants: [],
+        rounds: [],
+        winnerId: null,
+      });
+    });
+
+    it('should reject unknown and single-player game types', async () => {
+      await expect(
+        service.createTournament(
+          { name: 'Cup', gameType: 'chess', format: TournamentFormat.SWISS },
+          organiser
+        )
+      ).rejects.toThrow(InvalidTournamentError);
+      await expect(
+        service.createTournament(
+          { name: 'Cup', gameType: 'solitaire', format: TournamentFormat.SWISS },
+          organiser
+        )
+      ).rejects.toThrow(InvalidTournamentError);
+    });
+
+    it('should only accept a round count for Swiss tournaments', async () => {
+      await expect(
+        service.createTournament(
+          { name: 'Cup', gameType: 'tic-tac-toe', format: TournamentFormat.KNOCKOUT, rounds: 3 },
+          organiser
+        )
+      ).rejects.toThrow(InvalidTournamentError);
+      await expect(
+        service.createTournament(
+          { name: 'Cup', gameType: 'tic-tac-toe', format: TournamentFormat.SWISS, rounds: 0 },
+          organiser
+        )
+      ).rejects.toThrow(InvalidTournamentError);
+    });
+  });
+
+  describe('joinTournament', () => {
+    it('should seed players in registration order', async () => {
+      const created = await service.createTournament(
+        { name: 'Cup', gameType: 'tic-tac-toe', format: TournamentFormat.SWISS },
+        organiser
+      );
+
+      await service.joinTournament(created.tournamentId, { id: 'p1', name: 'One' });
+      const tournament = await service.joinTournament(created.tournamentId, {
+        id: 'p2',
+        name: 'Two',
+      });
+
+      expect(tournament.participants).toEqual([
+        { id: 'p1', name: 'One', seed: 1 },
+        { id: 'p2', name: 'Two', seed: 2 },
+      ]);
+    });
+
+    it('should reject duplicate registrations and late joiners', async () => {
+      const tournament = await createStartedTournament(TournamentFormat.KNOCKOUT, ['p1', 'p2']);
+
+      await expect(
+        service.joinTournament(tournament.tournamentId, { id: 'p3', name: 'Three' })
+      ).rejects.toThrow(InvalidTournamentActionError);
+
+      const open = await service.createTournament(
+        { name: 'Cup', gameType: 'tic-tac-toe', format: TournamentFormat.SWISS },
+        organiser
+      );
+      await service.joinTournament(open.tournamentId, { id: 'p1', name: 'One' });
+      await expect(
+        service.joinTournament(open.tournamentId, { id: 'p1', name: 'One' })
+      ).rejects.toThrow(InvalidTournamentActionError);
+    });
+
+    it('should throw for an unknown tournament', async () => {
+      await expect(service.joinTournament('missing', { id: 'p1', name: 'One' })).rejects.toThrow(
+        TournamentNotFoundError
+      );
+    });
+  });
+
+  describe('startTournament', () => {
+    it('should create a game for every first-round match', async () => {
+      const tournament = await createStartedTournament(TournamentFormat.ROUND_ROBIN, [
+        'p1',
+        'p2',
+        'p3',
+        'p4',
+      ]);
+
+      expect(tournament.status).toBe(TournamentStatus.IN_PROGRESS);
+      expect(tournament.totalRounds).toBe(3);
+      expect(currentMatches(tournament)).toHaveLength(2);
+
+      for (const match of currentMatches(tournament)) {
+        const game = await gameRepository.findById(match.gameId!);
+        expect(game?.players.map((p) => p.id)).toEqual([match.player1Id, match.player2Id]);
+        expect(game?.metadata.gameName).toBe('Office Cup - Round 1');
+      }
+    });
+
+    it('should decide byes without creating a game', async () => {
+      const tournament = await createStartedTournament(TournamentFormat.KNOCKOUT, [
+        'p1',
+        'p2',
+        'p3',
+      ]);
+
+      const bye = currentMatches(tournament).find((m) => m.player2Id === null);
+      expect(bye).toMatchObject({ player1Id: 'p1', result: MatchResult.BYE, winnerId: 'p1' });
+      expect(bye?.gameId).toBeUndefined();
+    });
+
+    it('should only let the organiser start the tournament', async () => {
+      const created = await service.createTournament(
+        { name: 'Cup', gameType: 'tic-tac-toe', format: TournamentFormat.SWISS },
+        organiser
+      );
+      await service.joinTournament(created.tournamentId, { id: 'p1', name: 'One' });
+      await service.joinTournament(created.tournamentId, { id: 'p2', name: 'Two' });
+
+      await expect(service.startTournament(created.tournamentId, 'p1')).rejects.toThrow(
+        ForbiddenError
+      );
+    });
+
+    it('should require at least two participants', async () => {
+      const created = await service.createTournament(
+        { name: 'Cup', gameType: 'tic-tac-toe', format: TournamentFormat.SWISS },
+        organiser
+      );
+      await service.joinTournament(created.tournamentId, { id: 'p1', name: 'One' });
+
+      await expect(service.startTournament(created.tournamentId, organiser.id)).rejects.toThrow(
+        InvalidTournamentActionError
+      );
+    });
+  });
+
+  describe('recordGameResult', () => {
+    it('should wait for every game of the round before pairing the next one', async () => {
+      const tournament = await createStartedTournament(TournamentFormat.ROUND_ROBIN, [
+        'p1',
+        'p2',
+        'p3',
+        'p4',
+      ]);
+      const [first, second] = currentMatches(tournament);
+
+      const afterFirst = await finishGame(first, first.player1Id);
+      expect(afterFirst?.rounds).toHaveLength(1);
+
+      const afterSecond = await finishGame(second, null);
+      expect(afterSecond?.rounds).toHaveLength(2);
+      expect(afterSecond?.rounds[0].matches.map((m) => m.result)).toEqual([
+        MatchResult.PLAYER1_WIN,
+        MatchResult.DRAW,
+      ]);
+    });
+
+    it('should run a knockout through to its winner', async () => {
+      let tournament = await createStartedTournament(TournamentFormat.KNOCKOUT, [
+        'p1',
+        'p2',
+        'p3',
+        'p4',
+      ]);
+
+      for (const match of currentMatches(tournament)) {
+        tournament = (await finishGame(match, match.player2Id))!;
+      }
+
+      const [final] = currentMatches(tournament);
+      expect([final.player1Id, final.player2Id]).toEqual(['p4', 'p3']);
+
+      tournament = (await finishGame(final, 'p3'))!;
+      expect(tournament.status).toBe(TournamentStatus.COMPLETED);
+      expect(tournament.winnerId).toBe('p3');
+    });
+
+    it('should advance the better seed from a drawn knockout game', async () => {
+      const tournament = await createStartedTournament(TournamentFormat.KNOCKOUT, ['p1', 'p2']);
+
+      const completed = await finishGame(currentMatches(tournament)[0], null);
+
+      expect(completed?.status).toBe(TournamentStatus.COMPLETED);
+      expect(completed?.winnerId).toBe('p1');
+    });
+
+    it('should crown the standings leader of a round robin', async () => {
+      let tournament = await createStartedTournament(TournamentFormat.ROUND_ROBIN, [
+        'p1',
+        'p2',
+        'p3',
+      ]);
+
+      while (tournament.status === TournamentStatus.IN_PROGRESS) {
+        const open = currentMatches(tournament).filter((m) => m.result === undefined);
+        for (const match of open) {
+          const winner = [match.player1Id, match.player2Id].includes('p2') ? 'p2' : match.player1Id;
+          tournament = (await finishGame(match, winner))!;
+        }
+      }
+
+      expect(tournament.rounds).toHaveLength(3);
+      expect(tournament.winnerId).toBe('p2');
+    });
+
+    it('should replay an abandoned game with a new one', async () => {
+      const tournament = await createStartedTournament(TournamentFormat.KNOCKOUT, ['p1', 'p2']);
+      const [match] = currentMatches(tournament);
+
+      const updated = await finishGame(match, null, GameLifecycle.ABANDONED);
+
+      const [replayed] = currentMatches(updated!);
+      expect(replayed.result).toBeUndefined();
+      expect(replayed.gameId).toBeDefined();
+      expect(replayed.gameId).not.toBe(match.gameId);
+      expect(updated?.status).toBe(TournamentStatus.IN_PROGRESS);
+    });
+
+    it('should ignore games outside any tournament and unfinished games', async () => {
+      await createStartedTournament(TournamentFormat.KNOCKOUT, ['p1', 'p2']);
+
+      const unrelated = new GameStateBuilder()
+        .withGameId('unrelated')
+        .withLifecycle(GameLifecycle.COMPLETED)
+        .build();
+      const active = new GameStateBuilder().withLifecycle(GameLifecycle.ACTIVE).build();
+
+      await expect(service.recordGameResult(unrelated)).resolves.toBeNull();
+      await expect(service.recordGameResult(active)).resolves.toBeNull();
+    });
+
+    it('should not decide a match twice', async () => {
+      const tournament = await createStartedTournament(TournamentFormat.SWISS, [
+        'p1',
+        'p2',
+        'p3',
+        'p4',
+      ]);
+      const [match] = currentMatches(tournament);
+
+      await finishGame(match, match.player1Id);
+      const again = await finishGame(match, match.player2Id);
+
+      expect(currentMatches(again!)[0]).toMatchObject({
+        result: MatchResult.PLAYER1_WIN,
+        winnerId: match.player1Id,
+      });
+    });
+  });
+
+  describe('getBracket', () => {
+    it('should include player names for every match', async () => {
+      const tournament = await createStartedTournament(TournamentFormat.KNOCKOUT, [
+        'p1',
+        'p2',
+        'p3',
+      ]);
+
+      const bracket = await service.getBracket(tournament.tournamentId);
+
+      expect(bracket.rounds[0].matches.map((m) => [m.player1Name, m.player2Name])).toEqual([
+        ['P1', null],
+        ['P2', 'P3'],
+      ]);
+    });
+  });
+
+  describe('getStandings', () => {
+    it('should rank the participants', async () => {
+      const tournament = await createStartedTournament(TournamentFormat.SWISS, ['p1', 'p2']);
+      await finishGame(currentMatches(tournament)[0], 'p2');
+
+      const standings = await service.getStandings(tournament.tournamentId);
+
+      expect(standings.map((s) => [s.rank, s.playerId, s.points])).toEqual([
+        [1, 'p2', 1],
+        [2, 'p1', 0],
+      ]);
+    });
+  });
+});
@@ -0,0 +1,173 @@
+import { TurnTimeoutService } from '@application/services/TurnTimeoutService';
+import { StateManagerService } from '@application/services/StateManagerService';
+import { GameLockManager } from '@application/GameLockManager';
+import { PluginRegistry } from '@application/PluginRegistry';
+import { DomainEventBus } from '@application/events/DomainEventBus';
+import { WebSocketEventHandler } from '@application/events/WebSocketEventHandler';
+import { InMemoryGameRepository } from '@infrastructure/persistence/InMemoryGameRepository';
+import { Logger } from '@infrastructure/logging/Logger';
+import {
+  GameState,
+  GameLifecycle,
+  TimeControl,
+  TimeControlType,
+  TimeoutAction,
+} from '@domain/models';
+import { MS_PER_DAY, startClock } from '@domain/game-utils/TurnClock';
+import { IWebSocketService, WebSocketMessageType } from '@domain/interfaces/IWebSocketService';
+import { MockGameEngine, GameStateBuilder, createPlayer } from '../../utils';
+
+describe('TurnTimeoutService', () => {
+  // Moves are checked against the real clock, so the deadline passes just before the test runs
+  const afterDeadline = new Date();
+  const start = new Date(afterDeadline.getTime() - 4 * MS_PER_DAY);
+
+  let repository: InMemoryGameRepository;
+  let registry: PluginRegistry;
+  let mockEngine: MockGameEngine;
+  let webSocketService: jest.Mocked<IWebSocketService>;
+  let stateManager: StateManagerService;
+  let service: TurnTimeoutService;
+
+  function createTimedGame(onTimeout: TimeoutAction, gameId = 'timed-game'): GameState {
+    const timeControl: TimeControl = {
+      type: TimeControlType.PER_MOVE,
+      daysPerMove: 3,
+      onTimeout,
+    };
+    return new GameStateBuilder()
+      .withGameId(gameId)
+      .withGameType('mock-game')
+      .withLifecycle(GameLifecycle.ACTIVE)
+      .withPlayers([createPlayer('player1', 'Player 1'), createPlayer('player2', 'Player 2')])
+      .withCurrentPlayerIndex(0)
+      .withMetadata({
+        timeControl,
+        clock: startClock(timeControl, ['player1', 'player2'], 'player1', start),
+      })
+      .build();
+  }
+
+  beforeEach(() => {
+    repository = new InMemoryGameRepository();
+    registry = new PluginRegistry();
+    mockEngine = new MockGameEngine('mock-game').withValidationResult({ valid: true });
+    registry.register(mockEngine);
+
+    webSocketService = {
+      registerConnection: jest.fn(),
+      unregisterConnection: jest.fn(),
+      subscribe: jest.fn(),
+      unsubscribe: jest.fn(),
+      observe: jest.fn(),
+      unobserve: jest.fn(),
+      broadcastToGame: jest.fn().mockResolvedValue(undefined),
+      sendToUser: jest.fn().mockResolvedValue(undefined),
+      getConnectionCount: jest.fn().mockReturnValue(0),
+      getGameSubscriberCount: jest.fn().mockReturnValue(0),
+      getGameObserverCount: jest.fn().mockReturnValue(0),
+    };
+
+    const eventBus = new DomainEventBus(new Logger('error'));
+    new WebSocketEventHandler(webSocketService, registry).register(eventBus);
+
+    stateManager = new StateManagerService(repository, registry, new GameLockManager(), eventBus);
+    service = new TurnTimeoutService(repository, registry, stateManager, new Logger('error'));
+  });
+
+  it('should leave games alone before the deadline', async () => {
+    await repository.save(createTimedGame(TimeoutAction.FORFEIT));
+
+    const changed = await service.checkTimeouts(new Date(start.getTime() + MS_PER_DAY));
+
+    expect(changed).toBe(0);
+    const game = await repository.findById('timed-game');
+    expect(game!.lifecycle).toBe(GameLifecycle.ACTIVE);
+  });
+
+  it('should ignore games without a time control', async () => {
+    await repository.save(
+      new GameStateBuilder()
+        .withGameId('untimed-game')
+        .withGameType('mock-game')
+        .withLifecycle(GameLifecycle.ACTIVE)
+        .withPlayers([createPlayer('player1', 'Player 1'), createPlayer('player2', 'Player 2')])
+        .build()
+    );
+
+    expect(await service.checkTimeouts(afterDeadline)).toBe(0);
+  });
+
+  it('should forfeit the game to the opponent', async () => {
+    await repository.save(createTimedGame(TimeoutAction.FORFEIT));
+
+    const changed = await service.checkTimeouts(afterDeadline);
+
+    expect(changed).toBe(1);
+    const game = await repository.findById('timed-game');
+    expect(game!.lifecycle).toBe(GameLifecycle.COMPLETED);
+    expect(game!.winner).toBe('player2');
+    expect(game!.metadata.isDraw).toBe(false);
+    expect(game!.metadata.timeouts).toEqual([
+      { playerId: 'player1', action: TimeoutAction.FORFEIT, at: afterDeadline.toISOString() },
+    ]);
+    expect(webSocketService.broadcastToGame).toHaveBeenCalledWith(
+      'timed-game',
+      expect.objectContaining({ type: WebSocketMessageType.GAME_COMPLETE, winner: 'player2' })
+    );
+  });
+
+  it('should skip the turn and restart the clock for the next player', async () => {
+    await repository.save(createTimedGame(TimeoutAction.SKIP));
+
+    await service.checkTimeouts(afterDeadline);
+
+    const game = await repository.findById('timed-game');
+    expect(game!.lifecycle).toBe(GameLifecycle.ACTIVE);
+    expect(game!.currentPlayerIndex).toBe(1);
+    expect(game!.version).toBe(2);
+    expect(game!.metadata.clock.turnPlayerId).toBe('player2');
+    expect(new Date(game!.metadata.clock.deadline).getTime()).toBe(
+      afterDeadline.getTime() + 3 * MS_PER_DAY
+    );
+  });
+
+  it('should hand the seat to an AI and play for it', async () => {
+    await repository.save(createTimedGame(TimeoutAction.AI_TAKEOVER));
+
+    await service.checkTimeouts(afterDeadline);
+
+    const game = await repository.findById('timed-game');
+    expect(game!.players[0].metadata?.aiTakeover).toEqual({
+      strategyId: 'default',
+      since: afterDeadline.toISOString(),
+    });
+    expect(game!.moveHistory).toHaveLength(1);
+    expect(game!.moveHistory[0].playerId).toBe('player1');
+    expect(game!.currentPlayerIndex).toBe(1);
+  });
+
+  it('should fall back to forfeit when the game does not support AI', async () => {
+    mockEngine.withAISupport(false);
+    await repository.save(createTimedGame(TimeoutAction.AI_TAKEOVER));
+
+    await service.checkTimeouts(afterDeadline);
+
+    const game = await repository.findById('timed-game');
+    expect(game!.lifecycle).toBe(GameLifecycle.COMPLETED);
+    expect(game!.metadata.timeouts[0].action).toBe(TimeoutAction.FORFEIT);
+  });
+
+  it('should keep processing other games when one fails', async () => {
+    await repository.save(createTimedGame(TimeoutAction.FORFEIT, 'game-a'));
+    await repository.save(createTimedGame(TimeoutAction.FORFEIT, 'game-b'));
+    const resolveSpy = jest
+      .spyOn(stateManager, 'resolveTimeout')
+      .mockRejectedValueOnce(new Error('boom'));
+
+    const changed = await service.checkTimeouts(afterDeadline);
+
+    expect(resolveSpy).toHaveBeenCalledTimes(2);
+    expect(changed).toBe(1);
+  });
+});
@@ -0,0 +1,144 @@
+import { createHmac } from 'crypto';
+import { WebhookDispatcher, signWebhookPayload } from '@application/services/WebhookDispatcher';
+import { WebhookService } from '@application/services/WebhookService';
+import { InMemoryWebhookRepository } from '@infrastructure/persistence/InMemoryWebhookRepository';
+import { InMemoryGameRepository } from '@infrastructure/persistence/InMemoryGameRepository';
+import { WebhookHostPolicy } from '@infrastructure/webhooks/WebhookHostPolicy';
+import { Logger } from '@infrastructure/logging/Logger';
+import { IWebhookSender } from '@domain/interfaces';
+import { Webhook, WebhookDeliveryStatus, WebhookEventType } from '@domain/models';
+
+describe('WebhookDispatcher', () => {
+  const start = new Date('2026-01-01T12:00:00Z');
+  let repository: InMemoryWebhookRepository;
+  let service: WebhookService;
+  let sender: jest.Mocked<IWebhookSender>;
+  let dispatcher: WebhookDispatcher;
+  let webhook: Webhook;
+
+  beforeEach(async () => {
+    const logger = new Logger('error', 'json');
+    repository = new InMemoryWebhookRepository();
+    service = new WebhookService(
+      repository,
+      new InMemoryGameRepository(),
+      new WebhookHostPolicy([], async () => ['93.184.215.14']),
+      ['alice'],
+      logger
+    );
+    sender = { post: jest.fn().mockResolvedValue({ statusCode: 200 }) };
+    dispatcher = new WebhookDispatcher(repository, sender, logger);
+
+    webhook = await service.register('alice', { url: 'https://example.com/hooks' });
+    await service.publish(
+      WebhookEventType.GAME_COMPLETED,
+      { gameId: 'game-1', gameType: 'tic-tac-toe', players: [] },
+      { winner: 'alice' },
+      start
+    );
+  });
+
+  afterEach(() => {
+    dispatcher.stop();
+  });
+
+  async function getDelivery() {
+    const [delivery] = await repository.findDeliveries(webhook.webhookId, 1);
+    return delivery;
+  }
+
+  it('should post a signed payload and mark the delivery as succeeded', async () => {
+    expect(await dispatcher.processDeliveries(start)).toBe(1);
+
+    const [url, body, headers] = sender.post.mock.calls[0];
+    expect(url).toBe('https://example.com/hooks');
+    expect(JSON.parse(body)).toEqual({
+      id: expect.any(String),
+      type: 'game.completed',
+      occurredAt: start.toISOString(),
+      gameId: 'game-1',
+      gameType: 'tic-tac-toe',
+      data: { winner: 'alice' },
+    });
+
+    const timestamp = String(start.getTime() / 1000);
+    const expected = createHmac('sha256', webhook.secret)
+      .update(`${timestamp}.${body}`)
+      .digest('hex');
+    expect(headers).toMatchObject({
+      'X-Webhook-Event': 'game.completed',
+      'X-Webhook-Timestamp': timestamp,
+      'X-Webhook-Signature': `sha256=${expected}`,
+    });
+
+    const delivery = await getDelivery();
+    expect(headers['X-Webhook-Delivery']).toBe(delivery.deliveryId);
+    expect(delivery).toMatchObject({
+      status: WebhookDeliveryStatus.SUCCEEDED,
+      attempts: 1,
+      nextAttemptAt: null,
+      lastStatusCode: 200,
+      deliveredAt: start,
+    });
+
+    // Nothing is left to send
+    expect(await dispatcher.processDeliveries(start)).toBe(0);
+    expect(sender.post).toHaveBeenCalledTimes(1);
+  });
+
+  it('should retry failed deliveries with exponential backoff, then give up', async () => {
+    sender.post.mockResolvedValueOnce({ statusCode: 500 });
+    sender.post.mockRejectedValue(new Error('connect ECONNREFUSED'));
+
+    await dispatcher.processDeliveries(start);
+    let delivery = await getDelivery();
+    expect(delivery).toMatchObject({
+      status: WebhookDeliveryStatus.PENDING,
+      attempts: 1,
+      lastStatusCode: 500,
+      lastError: 'Endpoint responded with 500',
+      nextAttemptAt: new Date(start.getTime() + 30000),
+    });
+
+    // Not due yet
+    await dispatcher.processDeliveries(new Date(start.getTime() + 29999));
+    expect(sender.post).toHaveBeenCalledTimes(1);
+
+    const delays: number[] = [];
+    let now = start;
+    while (delivery.status === WebhookDeliveryStatus.PENDING) {
+      delays.push(delivery.nextAttemptAt!.getTime() - now.getTime());
+      now = delivery.nextAttemptAt!;
+      await dispatcher.processDeliveries(now);
+      delivery = await getDelivery();
+    }
+
+    expect(delays).toEqual([30000, 60000, 120000, 240000]);
+    expect(sender.post).toHaveBeenCalledTimes(5);
+    expect(delivery).toMatchObject({
+      status: WebhookDeliveryStatus.FAILED,
+      attempts: 5,
+      nextAttemptAt: null,
+      lastError: 'connect ECONNREFUSED',
+    });
+  });
+
+  it('should skip deliveries for webhooks deleted since the event', async () => {
+    const delivery = await getDelivery();
+    jest.spyOn(repository, 'findDueDeliveries').mockResolvedValue([delivery]);
+    await repository.delete(webhook.webhookId);
+
+    expect(await dispatcher.processDeliveries(start)).toBe(0);
+    expect(sender.post).not.toHaveBeenCalled();
+  });
+
+  describe('signWebhookPayload', () => {
+    it('should sign the timestamp and body with the secret', () => {
+      const signature = signWebhookPayload('secret', 1700000000, '{"a":1}');
+      const expected = createHmac('sha256', 'secret').update('1700000000.{"a":1}').digest('hex');
+
+      expect(signature).toBe(`sha256=${expected}`);
+      expect(signWebhookPayload('other', 1700000000, '{"a":1}')).not.toBe(signature);
+    });
+  });
+});
@@ -0,0 +1,321 @@
+import { WebhookService } from '@application/services/WebhookService';
+import { GameManagerService } from '@application/services/GameManagerService';
+import { StateManagerService } from '@application/services/StateManagerService';
+import { AIPlayerService } from '@application/services/AIPlayerService';
+import { GameLockManager } from '@application/GameLockManager';
+import { DomainEventBus } from '@application/events/DomainEventBus';
+import { WebhookEventHandler } from '@application/events/WebhookEventHandler';
+import { PluginRegistry } from '@application/PluginRegistry';
+import { InMemoryWebhookRepository } from '@infrastructure/persistence/InMemoryWebhookRepository';
+import { WebhookHostPolicy } from '@infrastructure/webhooks/WebhookHostPolicy';
+import { InMemoryGameRepository } from '@infrastructure/persistence/InMemoryGameRepository';
+import { InMemoryAIPlayerRepository } from '@infrastructure/persistence/InMemoryAIPlayerRepository';
+import { Logger } from '@infrastructure/logging/Logger';
+import { GameLifecycle, WebhookDeliveryStatus, WebhookEventType } from '@domain/models';
+import { ForbiddenError, InvalidWebhookError, WebhookNotFoundError } from '@domain/errors';
+import { TicTacToeEngine } from '@games/tic-tac-toe/engine';
+import { GameStateBuilder, createPlayer } from '../../utils';
+
+describe('WebhookService', () => {
+  let repository: InMemoryWebhookRepository;
+  let service: WebhookService;
+
+  const game = new GameStateBuilder()
+    .withGameId('game-1')
+    .withGameType('tic-tac-toe')
+    .withPlayers([createPlayer('alice', 'Alice'), createPlayer('bob', 'Bob')])
+    .build();
+
+  beforeEach(async () => {
+    repository = new InMemoryWebhookRepository();
+    const gameRepository = new InMemoryGameRepository();
+    await gameRepository.save(game);
+    service = new WebhookService(
+      repository,
+      gameRepository,
+      new WebhookHostPolicy([], async (hostname) =>
+        hostname === 'internal.example.com' ? ['10.0.0.5'] : ['93.184.215.14']
+      ),
+      ['admin'],
+      new Logger('error', 'json')
+    );
+  });
+
+  describe('register', () => {
+    it('should register a webhook for every event with a signing secret', async () => {
+      const webhook = await service.register('admin', { url: 'https://example.com/hooks' });
+
+      expect(webhook.ownerId).toBe('admin');
+      expect(webhook.url).toBe('https://example.com/hooks');
+      expect(webhook.eventTypes).toEqual(Object.values(WebhookEventType));
+      expect(webhook.secret).toMatch(/^[0-9a-f]{64}$/);
+      expect(await repository.findById(webhook.webhookId)).toEqual(webhook);
+    });
+
+    it('should keep the game and event filters', async () => {
+      const webhook = await service.register('alice', {
+        url: 'http://example.com:4000/hooks',
+        eventTypes: [WebhookEventType.GAME_COMPLETED, WebhookEventType.GAME_COMPLETED],
+        gameType: 'tic-tac-toe',
+      });
+
+      expect(webhook.eventTypes).toEqual([WebhookEventType.GAME_COMPLETED]);
+      expect(webhook.gameType).toBe('tic-tac-toe');
+      expect(webhook.gameId).toBeUndefined();
+    });
+
+    it.each([
+      [{ url: '' }],
+      [{ url: 'not a url' }],
+      [{ url: 'ftp://example.com/hooks' }],
+      [{ url: 'http://127.0.0.1/hooks' }],
+      [{ url: 'http://169.254.169.254/latest/meta-data' }],
+      [{ url: 'http://[::1]/hooks' }],
+      [{ url: 'https://internal.example.com/hooks' }],
+      [{ url: 'https://example.com', eventTypes: [] }],
+      [{ url: 'https://example.com', eventTypes: ['game.deleted'] }],
+      [{ url: 'https://example.com', gameId: '' }],
+    ])('should reject %j', async (params) => {
+      await expect(service.register('alice', params as never)).rejects.toThrow(InvalidWebhookError);
+    });
+
+    it('should limit how many webhooks a user can register', async () => {
+      for (let i = 0; i < 20; i++) {
+        await service.register('alice', {
+          url: `https://example.com/hooks/${i}`,
+          gameId: 'game-1',
+        });
+      }
+
+      await expect(
+        service.register('alice', { url: 'https://example.com/one-more', gameId: 'game-1' })
+      ).rejects.toThrow('at most 20 webhooks');
+      await expect(
+        service.register('bob', { url: 'https://example.com/hooks', gameId: 'game-1' })
+      ).resolves.toBeDefined();
+    });
+
+    it('should only let admins register a webhook without a game filter', async () => {
+      await expect(service.register('alice', { url: 'https://example.com/hooks' })).rejects.toThrow(
+        ForbiddenError
+      );
+    });
+
+    it.each([
+      ['a game the user does not play in', 'carol', 'game-1'],
+      ['a game that does not exist', 'alice', 'game-2'],
+    ])('should refuse a webhook for %s', async (_case, ownerId, gameId) => {
+      await expect(
+        service.register(ownerId, { url: 'https://example.com/hooks', gameId })
+      ).rejects.toThrow(ForbiddenError);
+    });
+  });
+
+  describe('managing webhooks', () => {
+    it('should never return the secret when listing or reading', async () => {
+      const webhook = await service.register('alice', {
+        url: 'https://example.com/hooks',
+        gameId: 'game-1',
+      });
+      await service.register('bob', { url: 'https://example.com/other', gameId: 'game-1' });
+
+      const own = await service.listWebhooks('alice');
+      expect(own).toHaveLength(1);
+      expect(own[0]).not.toHaveProperty('secret');
+      expect(await service.listWebhooks()).toHaveLength(2);
+      expect(await service.getWebhook(webhook.webhookId, 'alice', false)).not.toHaveProperty(
+        'secret'
+      );
+    });
+
+    it("should hide other users' webhooks unless the actor is an admin", async () => {
+      const webhook = await service.register('alice', {
+        url: 'https://example.com/hooks',
+        gameId: 'game-1',
+      });
+
+      await expect(service.getWebhook(webhook.webhookId, 'bob', false)).rejects.toThrow(
+        WebhookNotFoundError
+      );
+      await expect(service.deleteWebhook(webhook.webhookId, 'bob', false)).rejects.toThrow(
+        WebhookNotFoundError
+      );
+      await expect(service.getDeliveries(webhook.webhookId, 'bob', false)).rejects.toThrow(
+        WebhookNotFoundError
+      );
+
+      await service.deleteWebhook(webhook.webhookId, 'admin', true);
+      expect(await repository.findById(webhook.webhookId)).toBeNull();
+    });
+  });
+
+  describe('publish', () => {
+    it('should record a pending delivery for each matching webhook', async () => {
+      const all = await service.register('admin', { url: 'https://example.com/all' });
+      const oneGame = await service.register('bob', {
+        url: 'https://example.com/game',
+        gameId: 'game-1',
+      });
+      const otherType = await service.register('alice', {
+        url: 'https://example.com/chess',
+        gameType: 'chess',
+      });
+      const otherEvent = await service.register('admin', {
+        url: 'https://example.com/created',
+        eventTypes: [WebhookEventType.GAME_CREATED],
+      });
+      const now = new Date('2026-01-01T00:00:00Z');
+
+      const recorded = await service.publish(
+        WebhookEventType.MOVE_APPLIED,
+        game,
+        { playerId: 'alice' },
+        now
+      );
+
+      expect(recorded).toBe(2);
+      const [delivery] = await repository.findDeliveries(all.webhookId, 10);
+      expect(delivery).toMatchObject({
+        status: WebhookDeliveryStatus.PENDING,
+        attempts: 0,
+        nextAttemptAt: now,
+        event: {
+          type: WebhookEventType.MOVE_APPLIED,
+          gameId: 'game-1',
+          gameType: 'tic-tac-toe',
+          occurredAt: now,
+          data: { playerId: 'alice' },
+        },
+      });
+      expect(await repository.findDeliveries(oneGame.webhookId, 10)).toHaveLength(1);
+      expect(await repository.findDeliveries(otherType.webhookId, 10)).toEqual([]);
+      expect(await repository.findDeliveries(otherEvent.webhookId, 10)).toEqual([]);
+    });
+
+    it("should skip non-admins' webhooks for games they do not play in", async () => {
+      const own = await service.register('alice', {
+        url: 'https://example.com/own',
+        gameType: 'tic-tac-toe',
+      });
+      const other = await service.register('carol', {
+        url: 'https://example.com/other',
+        gameType: 'tic-tac-toe',
+      });
+
+      await expect(service.publish(WebhookEventType.GAME_CREATED, game, {})).resolves.toBe(1);
+      expect(await repository.findDeliveries(own.webhookId, 10)).toHaveLength(1);
+      expect(await repository.findDeliveries(other.webhookId, 10)).toEqual([]);
+    });
+
+    it('should log rather than throw when the repository fails', async () => {
+      jest.spyOn(repository, 'findForEvent').mockRejectedValue(new Error('database down'));
+
+      await expect(service.publish(WebhookEventType.GAME_CREATED, game, {})).resolves.toBe(0);
+    });
+  });
+
+  describe('game event subscription', () => {
+    let gameManager: GameManagerService;
+    let stateManager: StateManagerService;
+
+    beforeEach(() => {
+      const registry = new PluginRegistry();
+      registry.register(new TicTacToeEngine());
+      const lockManager = new GameLockManager();
+      const gameRepository = new InMemoryGameRepository();
+      const aiPlayerService = new AIPlayerService(
+        registry,
+        new InMemoryAIPlayerRepository(),
+        gameRepository,
+        new Logger('error', 'json')
+      );
+      const eventBus = new DomainEventBus(new Logger('error', 'json'));
+      new WebhookEventHandler(service).register(eventBus);
+
+      gameManager = new GameManagerService(
+        registry,
+        gameRepository,
+        aiPlayerService,
+        lockManager,
+        undefined,
+        undefined,
+        eventBus
+      );
+      stateManager = new StateManagerService(
+        gameRepository,
+        registry,
+        lockManager,
+        eventBus,
+        aiPlayerService
+      );
+    });
+
+    function publishedEvents(publish: jest.SpyInstance) {
+      return publish.mock.calls.map(([type, , data]) => ({ type, data }));
+    }
+
+    it('should publish creation, moves, turn changes and completion', async () => {
+      const publish = jest.spyOn(service, 'publish');
+
+      const game = await gameManager.createGame(
+        'tic-tac-toe',
+        {
+          players: [
+            { id: 'alice', name: 'Alice', joinedAt: new Date() },
+            { id: 'bob', name: 'Bob', joinedAt: new Date() },
+          ],
+        },
+        { id: 'alice', username: 'alice' }
+      );
+      expect(game.lifecycle).toBe(GameLifecycle.ACTIVE);
+
+      const moves: Array<[string, number, number]> = [
+        ['alice', 0, 0],
+        ['bob', 1, 0],
+        ['alice', 0, 1],
+        ['bob', 1, 1],
+        ['alice', 0, 2],
+      ];
+      let state = game;
+      for (const [playerId, row, col] of moves) {
+        state = await stateManager.applyMove(
+          game.gameId,
+          playerId,
+          { playerId, timestamp: new Date(), action: 'place', parameters: { row, col } },
+          state.version
+        );
+      }
+      expect(state.lifecycle).toBe(GameLifecycle.COMPLETED);
+
+      const events = publishedEvents(publish);
+      expect(events.map((e) => e.type)).toEqual([
+        WebhookEventType.GAME_CREATED,
+        WebhookEventType.TURN_CHANGED,
+        ...Array(4).fill([WebhookEventType.MOVE_APPLIED, WebhookEventType.TURN_CHANGED]).flat(),
+        WebhookEventType.MOVE_APPLIED,
+        WebhookEventType.GAME_COMPLETED,
+      ]);
+      expect(events[0].data).toMatchObject({ creatorId: 'alice', players: ['alice', 'bob'] });
+      expect(events[1].data).toMatchObject({ previousPlayerId: null, currentPlayerId: 'alice' });
+      expect(events[3].data).toMatchObject({ previousPlayerId: 'alice', currentPlayerId: 'bob' });
+      expect(events[events.length - 1].data).toMatchObject({ winner: 'alice', isDraw: false });
+    });
+
+    it('should publish completion when a player resigns', async () => {
+      const game = await gameManager.createGame('tic-tac-toe', {
+        players: [
+          { id: 'alice', name: 'Alice', joinedAt: new Date() },
+          { id: 'bob', name: 'Bob', joinedAt: new Date() },
+        ],
+      });
+
+      const publish = jest.spyOn(service, 'publish');
+
+      await stateManager.resign(game.gameId, 'alice');
+
+      expect(publishedEvents(publish)).toEqual([
+        { type: WebhookEventType.GAME_COMPLETED, data: expect.objectContaining({ winner: 'bob' }) },
+      ]);
+    });
+  });
+});
@@ -172,6 +172,122 @@ describe('Configuration Service', () => {
     });
   });
 
+  describe('Email Configuration', () => {
+    beforeEach(() => {
+      process.env.CLERK_PUBLISHABLE_KEY = 'pk_test_valid_key_12345';
+      process.env.CLERK_SECRET_KEY = 'sk_test_valid_secret_12345';
+      delete process.env.EMAIL_TRANSPORT;
+      delete process.env.SMTP_HOST;
+      delete process.env.SMTP_PORT;
+      delete process.env.SMTP_SECURE;
+    });
+
+    it('should disable email by default', () => {
+      const config = loadConfig();
+
+      expect(config.email.transport).toBe('none');
+      expect(config.email.digestIntervalMs).toBe(86400000);
+    });
+
+    it('should load SMTP settings and default the port from SMTP_SECURE', () => {
+      process.env.EMAIL_TRANSPORT = 'smtp';
+      process.env.SMTP_HOST = 'smtp.example.com';
+      process.env.SMTP_SECURE = 'true';
+      process.env.SMTP_USER = 'mailer';
+
+      const config = loadConfig();
+
+      expect(config.email.smtp).toMatchObject({
+        host: 'smtp.example.com',
+        port: 465,
+        secure: true,
+        user: 'mailer',
+      });
+    });
+
+    it('should require SMTP_HOST for the smtp transport', () => {
+      process.env.EMAIL_TRANSPORT = 'smtp';
+
+      expect(() => loadConfig()).toThrow('SMTP_HOST is required when EMAIL_TRANSPORT is smtp');
+    });
+
+    it('should throw error when EMAIL_TRANSPORT is invalid', () => {
+      process.env.EMAIL_TRANSPORT = 'pigeon';
+
+      expect(() => loadConfig()).toThrow('Invalid EMAIL_TRANSPORT');
+    });
+  });
+
+  describe('Webhook Configuration', () => {
+    beforeEach(() => {
+      process.env.CLERK_PUBLISHABLE_KEY = 'pk_test_valid_key_12345';
+      process.env.CLERK_SECRET_KEY = 'sk_test_valid_secret_12345';
+      delete process.env.WEBHOOK_DISPATCH_INTERVAL_MS;
+      delete process.env.WEBHOOK_TIMEOUT_MS;
+      delete process.env.WEBHOOK_ALLOWED_PRIVATE_HOSTS;
+    });
+
+    it('should use default webhook settings', () => {
+      const config = loadConfig();
+
+      expect(config.webhooks).toEqual({
+        dispatchIntervalMs: 1000,
+        timeoutMs: 10000,
+        allowedPrivateHosts: [],
+      });
+    });
+
+    it('should load webhook settings from the environment', () => {
+      process.env.WEBHOOK_DISPATCH_INTERVAL_MS = '250';
+      process.env.WEBHOOK_TIMEOUT_MS = '5000';
+      process.env.WEBHOOK_ALLOWED_PRIVATE_HOSTS = 'localhost, Hooks.internal ,';
+
+      const config = loadConfig();
+
+      expect(config.webhooks).toEqual({
+        dispatchIntervalMs: 250,
+        timeoutMs: 5000,
+        allowedPrivateHosts: ['localhost', 'hooks.internal'],
+      });
+    });
+
+    it('should throw error when WEBHOOK_DISPATCH_INTERVAL_MS is too small', () => {
+      process.env.WEBHOOK_DISPATCH_INTERVAL_MS = '10';
+
+      expect(() => loadConfig()).toThrow('Invalid WEBHOOK_DISPATCH_INTERVAL_MS');
+    });
+
+    it('should throw error when WEBHOOK_TIMEOUT_MS is not a number', () => {
+      process.env.WEBHOOK_TIMEOUT_MS = 'soon';
+
+      expect(() => loadConfig()).toThrow('Invalid WEBHOOK_TIMEOUT_MS');
+    });
+  });
+
+  describe('Turn Notification Configuration', () => {
+    beforeEach(() => {
+      process.env.CLERK_PUBLISHABLE_KEY = 'pk_test_valid_key_12345';
+      process.env.CLERK_SECRET_KEY = 'sk_test_valid_secret_12345';
+      delete process.env.TURN_NOTIFICATION_DELAY_MS;
+    });
+
+    it('should wait five minutes by default', () => {
+      expect(loadConfig().notifications).toEqual({ turnDelayMs: 300000 });
+    });
+
+    it('should allow notifying at once', () => {
+      process.env.TURN_NOTIFICATION_DELAY_MS = '0';
+
+      expect(loadConfig().notifications).toEqual({ turnDelayMs: 0 });
+    });
+
+    it('should throw error when TURN_NOTIFICATION_DELAY_MS is negative', () => {
+      process.env.TURN_NOTIFICATION_DELAY_MS = '-1';
+
+      expect(() => loadConfig()).toThrow('Invalid TURN_NOTIFICATION_DELAY_MS');
+    });
+  });
+
   describe('Clerk Authentication Configuration', () => {
     it('should load configuration with valid Clerk keys', () => {
       process.env.CLERK_PUBLISHABLE_KEY = 'pk_test_valid_key_12345';
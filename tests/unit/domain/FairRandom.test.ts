@@ -0,0 +1,122 @@
+import { createHash, createHmac } from 'crypto';
+import {
+  FairRandom,
+  createGameRandomness,
+  hashServerSeed,
+  hideServerSeed,
+  verifyGameRandomness,
+} from '../../../src/domain/game-utils/FairRandom';
+import { GameLifecycle, GameState } from '../../../src/domain/models';
+
+describe('FairRandom', () => {
+  function createState(lifecycle: GameLifecycle): GameState {
+    return {
+      gameId: 'game-1',
+      gameType: 'yahtzee',
+      lifecycle,
+      players: [],
+      currentPlayerIndex: 0,
+      phase: 'rolling',
+      board: { spaces: [], metadata: {} },
+      moveHistory: [],
+      metadata: { rollCount: 0, randomness: createGameRandomness('secret') },
+      winner: null,
+      version: 1,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+  }
+
+  describe('createGameRandomness', () => {
+    it('should commit to a new random seed', () => {
+      const randomness = createGameRandomness();
+
+      expect(randomness.serverSeed).toMatch(/^[0-9a-f]{64}$/);
+      expect(randomness.commitment).toBe(
+        createHash('sha256').update(randomness.serverSeed!).digest('hex')
+      );
+      expect(createGameRandomness().serverSeed).not.toBe(randomness.serverSeed);
+    });
+
+    it('should verify a revealed seed against its commitment', () => {
+      const randomness = createGameRandomness('secret');
+
+      expect(verifyGameRandomness(randomness)).toBe(true);
+      expect(verifyGameRandomness({ ...randomness, serverSeed: 'other' })).toBe(false);
+      expect(verifyGameRandomness({ commitment: randomness.commitment })).toBe(false);
+    });
+  });
+
+  describe('rolls', () => {
+    it('should derive values from an HMAC of the game ID, nonce and counter', () => {
+      const digest = createHmac('sha256', 'secret').update('game-1:7:0').digest();
+      const expected = (digest.readUInt32BE(0) % 6) + 1;
+
+      expect(new FairRandom('secret', 'game-1', 7).rollDice(1, 6)).toEqual([expected]);
+    });
+
+    it('should repeat rolls for the same nonce and vary them between nonces', () => {
+      const roll = (nonce: number) => new FairRandom('secret', 'game-1', nonce).rollDice(20, 6);
+
+      expect(roll(1)).toEqual(roll(1));
+      expect(roll(1)).not.toEqual(roll(2));
+      expect(new FairRandom('secret', 'game-2', 1).rollDice(20, 6)).not.toEqual(roll(1));
+    });
+
+    it('should keep values in range and cover every face', () => {
+      const values = new FairRandom('secret', 'game-1', 0).rollDice(600, 6);
+
+      expect(Math.min(...values)).toBe(1);
+      expect(Math.max(...values)).toBe(6);
+      expect(new Set(values).size).toBe(6);
+    });
+
+    it('should reject invalid ranges', () => {
+      const random = new FairRandom('secret', 'game-1', 0);
+
+      expect(() => random.nextInt(0)).toThrow('positive integer');
+      expect(() => random.nextInt(1.5)).toThrow('positive integer');
+      expect(() => random.rollDice(-1, 6)).toThrow('cannot be negative');
+      expect(() => random.rollDice(1, 0)).toThrow('must be positive');
+      expect(random.rollDice(0, 6)).toEqual([]);
+    });
+
+    it("should read the seed from the game's metadata", () => {
+      const state = createState(GameLifecycle.ACTIVE);
+
+      expect(FairRandom.forGame(state, 3).rollDice(5, 6)).toEqual(
+        new FairRandom('secret', 'game-1', 3).rollDice(5, 6)
+      );
+      expect(() => FairRandom.forGame(hideServerSeed(state), 3)).toThrow('has no server seed');
+    });
+  });
+
+  describe('hideServerSeed', () => {
+    it('should hide the seed while the game is in progress', () => {
+      const state = createState(GameLifecycle.ACTIVE);
+
+      const hidden = hideServerSeed(state);
+
+      expect(hidden.metadata).toEqual({
+        rollCount: 0,
+        randomness: { commitment: hashServerSeed('secret') },
+      });
+      expect(state.metadata.randomness.serverSeed).toBe('secret');
+    });
+
+    it.each([GameLifecycle.COMPLETED, GameLifecycle.ABANDONED])(
+      'should reveal the seed once the game is %s',
+      (lifecycle) => {
+        const state = createState(lifecycle);
+
+        expect(hideServerSeed(state)).toBe(state);
+      }
+    );
+
+    it('should leave games without randomness unchanged', () => {
+      const state = { ...createState(GameLifecycle.ACTIVE), metadata: {} };
+
+      expect(hideServerSeed(state)).toBe(state);
+    });
+  });
+});
@@ -0,0 +1,171 @@
+import {
+  createGameCreatedEvent,
+  deriveGameEvents,
+  isSnapshotDue,
+} from '@domain/game-utils/GameEventLog';
+import { GameEventType, GameLifecycle, SNAPSHOT_INTERVAL, TimeoutAction } from '@domain/models';
+import { GameStateBuilder, createPlayer, createMoveList } from '../../utils';
+
+describe('GameEventLog', () => {
+  const now = new Date('2024-01-01T00:00:00.000Z');
+  const alice = createPlayer('alice', 'Alice');
+  const bob = createPlayer('bob', 'Bob');
+
+  describe('createGameCreatedEvent', () => {
+    it('should start the log at sequence 1 with the full state', () => {
+      const state = new GameStateBuilder().withPlayers([alice]).build();
+
+      const event = createGameCreatedEvent(state, now);
+
+      expect(event).toEqual({
+        gameId: state.gameId,
+        sequence: 1,
+        type: GameEventType.GAME_CREATED,
+        moveNumber: 0,
+        payload: { state },
+        createdAt: now,
+      });
+    });
+  });
+
+  describe('deriveGameEvents', () => {
+    it('should return no events when nothing changed', () => {
+      const state = new GameStateBuilder().withPlayers([alice, bob]).build();
+
+      expect(deriveGameEvents(state, state, 1, now)).toEqual([]);
+    });
+
+    it('should emit a join event for each new player', () => {
+      const previous = new GameStateBuilder()
+        .withPlayers([alice])
+        .withLifecycle(GameLifecycle.WAITING_FOR_PLAYERS)
+        .build();
+      const next = { ...previous, players: [alice, bob], lifecycle: GameLifecycle.ACTIVE };
+
+      const events = deriveGameEvents(previous, next, 1, now);
+
+      expect(events).toHaveLength(1);
+      expect(events[0]).toMatchObject({
+        sequence: 2,
+        type: GameEventType.PLAYER_JOINED,
+        moveNumber: 0,
+        payload: { player: bob, lifecycle: GameLifecycle.ACTIVE },
+      });
+    });
+
+    it('should emit a leave event for each player taken out of their seat', () => {
+      const previous = new GameStateBuilder()
+        .withPlayers([alice, bob])
+        .withLifecycle(GameLifecycle.WAITING_FOR_PLAYERS)
+        .build();
+      const next = { ...previous, players: [alice] };
+
+      const events = deriveGameEvents(previous, next, 3, now);
+
+      expect(events).toEqual([
+        {
+          gameId: previous.gameId,
+          sequence: 4,
+          type: GameEventType.PLAYER_LEFT,
+          moveNumber: 0,
+          payload: { playerId: 'bob', lifecycle: GameLifecycle.WAITING_FOR_PLAYERS },
+          createdAt: now,
+        },
+      ]);
+    });
+
+    it('should emit one event per new move numbered by its position in moveHistory', () => {
+      const moves = createMoveList(3, ['alice', 'bob']);
+      const previous = new GameStateBuilder()
+        .withPlayers([alice, bob])
+        .withMoveHistory(moves.slice(0, 1))
+        .build();
+      const next = { ...previous, moveHistory: moves };
+
+      const events = deriveGameEvents(previous, next, 4, now);
+
+      expect(events.map((e) => [e.sequence, e.type, e.moveNumber])).toEqual([
+        [5, GameEventType.MOVE_APPLIED, 2],
+        [6, GameEventType.MOVE_APPLIED, 3],
+      ]);
+    });
+
+    it('should emit an event for a turn skipped on timeout', () => {
+      const forfeit = { playerId: 'alice', action: TimeoutAction.FORFEIT, at: '2024-01-01' };
+      const skip = { playerId: 'bob', action: TimeoutAction.SKIP, at: '2024-01-02' };
+      const previous = new GameStateBuilder()
+        .withPlayers([alice, bob])
+        .withMoveHistory(createMoveList(2, ['alice', 'bob']))
+        .withMetadata({ timeouts: [forfeit] })
+        .build();
+      const next = { ...previous, metadata: { timeouts: [forfeit, skip] } };
+
+      const events = deriveGameEvents(previous, next, 3, now);
+
+      expect(events).toEqual([
+        {
+          gameId: previous.gameId,
+          sequence: 4,
+          type: GameEventType.TURN_SKIPPED,
+          moveNumber: 2,
+          payload: { playerId: 'bob' },
+          createdAt: now,
+        },
+      ]);
+    });
+
+    it('should emit a completion event after the final move', () => {
+      const moves = createMoveList(1, ['alice']);
+      const previous = new GameStateBuilder().withPlayers([alice, bob]).build();
+      const next = {
+        ...previous,
+        moveHistory: moves,
+        lifecycle: GameLifecycle.COMPLETED,
+        winner: 'alice',
+      };
+
+      const events = deriveGameEvents(previous, next, 1, now);
+
+      expect(events.map((e) => e.type)).toEqual([
+        GameEventType.MOVE_APPLIED,
+        GameEventType.GAME_COMPLETED,
+      ]);
+      expect(events[1]).toMatchObject({
+        moveNumber: 1,
+        payload: { lifecycle: GameLifecycle.COMPLETED, winner: 'alice' },
+      });
+    });
+
+    it('should not repeat the completion event for an already finished game', () => {
+      const previous = new GameStateBuilder()
+        .withPlayers([alice, bob])
+        .withLifecycle(GameLifecycle.ABANDONED)
+        .build();
+
+      expect(deriveGameEvents(previous, { ...previous }, 3, now)).toEqual([]);
+    });
+  });
+
+  describe('isSnapshotDue', () => {
+    const withMoves = (count: number) =>
+      new GameStateBuilder().withMoveHistory(createMoveList(count, ['alice', 'bob'])).build();
+
+    it('should be due when an update reaches a multiple of the interval', () => {
+      expect(isSnapshotDue(withMoves(SNAPSHOT_INTERVAL - 1), withMoves(SNAPSHOT_INTERVAL))).toBe(
+        true
+      );
+    });
+
+    it('should be due when an update jumps past a multiple of the interval', () => {
+      expect(
+        isSnapshotDue(withMoves(SNAPSHOT_INTERVAL - 1), withMoves(SNAPSHOT_INTERVAL + 2))
+      ).toBe(true);
+    });
+
+    it('should not be due within an interval', () => {
+      expect(isSnapshotDue(withMoves(SNAPSHOT_INTERVAL), withMoves(SNAPSHOT_INTERVAL + 1))).toBe(
+        false
+      );
+    });
+  });
+});
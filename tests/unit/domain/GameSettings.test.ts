@@ -0,0 +1,66 @@
+import { validateGameSettings } from '@domain/game-utils/GameSettings';
+import { GameSettingsSchema } from '@domain/models';
+
+describe('GameSettings', () => {
+  const schema: GameSettingsSchema = {
+    type: 'object',
+    properties: {
+      rows: { type: 'integer', minimum: 4, maximum: 12 },
+      komi: { type: 'number', minimum: 0 },
+      popOut: { type: 'boolean' },
+      ruleset: { type: 'string', enum: ['japanese', 'chinese'] },
+    },
+  };
+
+  describe('validateGameSettings', () => {
+    it('should accept missing, empty and valid settings', () => {
+      expect(validateGameSettings(schema, undefined)).toEqual([]);
+      expect(validateGameSettings(schema, {})).toEqual([]);
+      expect(
+        validateGameSettings(schema, { rows: 8, komi: 6.5, popOut: true, ruleset: 'chinese' })
+      ).toEqual([]);
+    });
+
+    it('should reject settings that are not an object', () => {
+      expect(validateGameSettings(schema, [1, 2])).toEqual([
+        { setting: 'customSettings', message: 'customSettings must be an object' },
+      ]);
+      expect(validateGameSettings(schema, null)).toHaveLength(1);
+    });
+
+    it('should check value types', () => {
+      expect(validateGameSettings(schema, { rows: 6.5, komi: '6', popOut: 1, ruleset: 2 })).toEqual(
+        [
+          { setting: 'rows', message: 'rows must be an integer' },
+          { setting: 'komi', message: 'komi must be a number' },
+          { setting: 'popOut', message: 'popOut must be a boolean' },
+          { setting: 'ruleset', message: 'ruleset must be a string' },
+        ]
+      );
+    });
+
+    it('should check bounds and allowed values', () => {
+      expect(validateGameSettings(schema, { rows: 3, komi: -1, ruleset: 'aga' })).toEqual([
+        { setting: 'rows', message: 'rows must be at least 4' },
+        { setting: 'komi', message: 'komi must be at least 0' },
+        { setting: 'ruleset', message: 'ruleset must be one of: japanese, chinese' },
+      ]);
+      expect(validateGameSettings(schema, { rows: 13 })).toEqual([
+        { setting: 'rows', message: 'rows must be at most 12' },
+      ]);
+    });
+
+    it('should report missing required settings', () => {
+      expect(validateGameSettings({ ...schema, required: ['rows'] }, {})).toEqual([
+        { setting: 'rows', message: 'rows is required' },
+      ]);
+    });
+
+    it('should only reject unknown settings when additional properties are off', () => {
+      expect(validateGameSettings(schema, { gameId: 'game-1' })).toEqual([]);
+      expect(
+        validateGameSettings({ ...schema, additionalProperties: false }, { gameId: 'game-1' })
+      ).toEqual([{ setting: 'gameId', message: 'gameId is not a known setting' }]);
+    });
+  });
+});
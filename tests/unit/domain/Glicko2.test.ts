@@ -0,0 +1,69 @@
+import { updateGlicko2 } from '@domain/game-utils/Glicko2';
+import { DEFAULT_RATING_DEVIATION } from '@domain/models';
+
+describe('Glicko2', () => {
+  describe('updateGlicko2', () => {
+    it("should match the worked example from Glickman's paper", () => {
+      const updated = updateGlicko2({ rating: 1500, deviation: 200, volatility: 0.06 }, [
+        { opponentRating: 1400, opponentDeviation: 30, score: 1 },
+        { opponentRating: 1550, opponentDeviation: 100, score: 0 },
+        { opponentRating: 1700, opponentDeviation: 300, score: 0 },
+      ]);
+
+      expect(updated.rating).toBeCloseTo(1464.06, 1);
+      expect(updated.deviation).toBeCloseTo(151.52, 1);
+      expect(updated.volatility).toBeCloseTo(0.059996, 5);
+    });
+
+    it('should raise the rating after a win and lower it after a loss', () => {
+      const player = { rating: 1500, deviation: 350, volatility: 0.06 };
+      const opponent = { opponentRating: 1500, opponentDeviation: 350 };
+
+      const won = updateGlicko2(player, [{ ...opponent, score: 1 }]);
+      const lost = updateGlicko2(player, [{ ...opponent, score: 0 }]);
+
+      expect(won.rating).toBeGreaterThan(1500);
+      expect(lost.rating).toBeLessThan(1500);
+      expect(won.rating - 1500).toBeCloseTo(1500 - lost.rating, 6);
+    });
+
+    it('should leave the rating unchanged after a draw between equals', () => {
+      const updated = updateGlicko2({ rating: 1500, deviation: 350, volatility: 0.06 }, [
+        { opponentRating: 1500, opponentDeviation: 350, score: 0.5 },
+      ]);
+
+      expect(updated.rating).toBeCloseTo(1500, 6);
+      expect(updated.deviation).toBeLessThan(350);
+    });
+
+    it('should move a rating further when the result is less expected', () => {
+      const player = { rating: 1500, deviation: 100, volatility: 0.06 };
+
+      const upset = updateGlicko2(player, [
+        { opponentRating: 2000, opponentDeviation: 50, score: 1 },
+      ]);
+      const expected = updateGlicko2(player, [
+        { opponentRating: 1000, opponentDeviation: 50, score: 1 },
+      ]);
+
+      expect(upset.rating - 1500).toBeGreaterThan(expected.rating - 1500);
+    });
+
+    it('should only increase the deviation when there are no results', () => {
+      const updated = updateGlicko2({ rating: 1620, deviation: 80, volatility: 0.06 }, []);
+
+      expect(updated.rating).toBe(1620);
+      expect(updated.deviation).toBeGreaterThan(80);
+      expect(updated.volatility).toBe(0.06);
+    });
+
+    it('should never raise the deviation above the default', () => {
+      const updated = updateGlicko2(
+        { rating: 1500, deviation: DEFAULT_RATING_DEVIATION, volatility: 0.06 },
+        []
+      );
+
+      expect(updated.deviation).toBe(DEFAULT_RATING_DEVIATION);
+    });
+  });
+});
@@ -0,0 +1,64 @@
+import {
+  MatchmakingEntry,
+  WIN_RATE_RANGE_STEP,
+  WIN_RATE_RANGE_WIDEN_INTERVAL_MS,
+  areEntriesCompatible,
+  getAcceptableWinRateRange,
+} from '@domain/models';
+
+describe('Matchmaking', () => {
+  const joinedAt = new Date('2024-01-01T00:00:00.000Z');
+
+  const entry = (overrides: Partial<MatchmakingEntry> = {}): MatchmakingEntry => ({
+    userId: 'alice',
+    username: 'Alice',
+    gameType: 'tic-tac-toe',
+    winRate: 0.5,
+    winRateRange: 0.1,
+    joinedAt,
+    ...overrides,
+  });
+
+  const after = (ms: number) => new Date(joinedAt.getTime() + ms);
+
+  describe('getAcceptableWinRateRange', () => {
+    it('should start at the requested range', () => {
+      expect(getAcceptableWinRateRange(entry(), joinedAt)).toBe(0.1);
+    });
+
+    it('should grow one step per completed interval', () => {
+      expect(getAcceptableWinRateRange(entry(), after(WIN_RATE_RANGE_WIDEN_INTERVAL_MS - 1))).toBe(
+        0.1
+      );
+      expect(
+        getAcceptableWinRateRange(entry(), after(3 * WIN_RATE_RANGE_WIDEN_INTERVAL_MS))
+      ).toBeCloseTo(0.1 + 3 * WIN_RATE_RANGE_STEP, 10);
+    });
+
+    it('should never exceed 1', () => {
+      expect(
+        getAcceptableWinRateRange(entry(), after(1000 * WIN_RATE_RANGE_WIDEN_INTERVAL_MS))
+      ).toBe(1);
+    });
+  });
+
+  describe('areEntriesCompatible', () => {
+    it('should treat settings only one player chose as compatible', () => {
+      const a = entry({ customSettings: { boardSize: 3 } });
+      const b = entry({ userId: 'bob', customSettings: { firstMove: 'random' } });
+
+      expect(areEntriesCompatible(a, b, joinedAt)).toBe(true);
+    });
+
+    it('should compare nested settings by value', () => {
+      const a = entry({ customSettings: { rules: { popOut: true } } });
+      const b = entry({ userId: 'bob', customSettings: { rules: { popOut: false } } });
+
+      expect(areEntriesCompatible(a, b, joinedAt)).toBe(false);
+    });
+
+    it('should never pair a player with themselves', () => {
+      expect(areEntriesCompatible(entry(), entry(), joinedAt)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,265 @@
+import {
+  calculateStandings,
+  createRoundPairings,
+  decideMatch,
+  getTotalRounds,
+  Pairing,
+} from '@domain/game-utils/TournamentPairing';
+import {
+  Tournament,
+  TournamentFormat,
+  TournamentMatch,
+  TournamentStatus,
+  MatchResult,
+} from '@domain/models';
+
+describe('TournamentPairing', () => {
+  function createTournament(
+    format: TournamentFormat,
+    playerIds: string[],
+    rounds: TournamentMatch[][] = []
+  ): Tournament {
+    return {
+      tournamentId: 't1',
+      name: 'Office Cup',
+      gameType: 'connect-four',
+      format,
+      status: TournamentStatus.IN_PROGRESS,
+      createdBy: 'organiser',
+      participants: playerIds.map((id, index) => ({ id, name: id, seed: index + 1 })),
+      rounds: rounds.map((matches, index) => ({ number: index + 1, matches })),
+      winnerId: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+  }
+
+  let nextMatchId = 0;
+  function decided(
+    player1Id: string,
+    player2Id: string | null,
+    result: MatchResult,
+    round = 1
+  ): TournamentMatch {
+    const winnerId =
+      result === MatchResult.PLAYER2_WIN
+        ? player2Id
+        : result === MatchResult.DRAW
+          ? null
+          : player1Id;
+    return { matchId: `m${nextMatchId++}`, round, player1Id, player2Id, result, winnerId };
+  }
+
+  const pairKey = ([a, b]: Pairing) => [a, b].sort().join('-');
+
+  describe('getTotalRounds', () => {
+    it('should give every round robin player one game against everyone', () => {
+      expect(getTotalRounds(TournamentFormat.ROUND_ROBIN, 4)).toBe(3);
+      expect(getTotalRounds(TournamentFormat.ROUND_ROBIN, 5)).toBe(5);
+    });
+
+    it('should play enough knockout rounds to reach a single winner', () => {
+      expect(getTotalRounds(TournamentFormat.KNOCKOUT, 8)).toBe(3);
+      expect(getTotalRounds(TournamentFormat.KNOCKOUT, 5)).toBe(3);
+    });
+
+    it('should use the requested number of Swiss rounds', () => {
+      expect(getTotalRounds(TournamentFormat.SWISS, 10)).toBe(4);
+      expect(getTotalRounds(TournamentFormat.SWISS, 10, 6)).toBe(6);
+    });
+  });
+
+  describe('round robin', () => {
+    it('should pair every player with every other player exactly once', () => {
+      const players = ['a', 'b', 'c', 'd', 'e', 'f'];
+      const seen: string[] = [];
+      let tournament = createTournament(TournamentFormat.ROUND_ROBIN, players);
+
+      for (let round = 1; round <= 5; round++) {
+        const pairings = createRoundPairings(tournament);
+        expect(pairings).toHaveLength(3);
+        seen.push(...pairings.map(pairKey));
+        tournament = createTournament(TournamentFormat.ROUND_ROBIN, players, [
+          ...tournament.rounds.map((r) => r.matches),
+          pairings.map(([a, b]) => decided(a, b, MatchResult.DRAW, round)),
+        ]);
+      }
+
+      expect(new Set(seen).size).toBe(15);
+    });
+
+    it('should give each player of an odd field one bye', () => {
+      const players = ['a', 'b', 'c'];
+      const byes: string[] = [];
+      let tournament = createTournament(TournamentFormat.ROUND_ROBIN, players);
+
+      for (let round = 1; round <= 3; round++) {
+        const pairings = createRoundPairings(tournament);
+        byes.push(...pairings.filter(([, b]) => b === null).map(([a]) => a));
+        tournament = createTournament(TournamentFormat.ROUND_ROBIN, players, [
+          ...tournament.rounds.map((r) => r.matches),
+          pairings.map(([a, b]) =>
+            decided(a, b, b === null ? MatchResult.BYE : MatchResult.DRAW, round)
+          ),
+        ]);
+      }
+
+      expect(byes.sort()).toEqual(['a', 'b', 'c']);
+    });
+  });
+
+  describe('knockout', () => {
+    it('should keep the top seeds apart until the final', () => {
+      const pairings = createRoundPairings(
+        createTournament(TournamentFormat.KNOCKOUT, ['s1', 's2', 's3', 's4'])
+      );
+
+      expect(pairings).toEqual([
+        ['s1', 's4'],
+        ['s2', 's3'],
+      ]);
+    });
+
+    it('should give byes to the top seeds when the field is not a power of two', () => {
+      const pairings = createRoundPairings(
+        createTournament(TournamentFormat.KNOCKOUT, ['s1', 's2', 's3', 's4', 's5'])
+      );
+
+      expect(pairings).toEqual([
+        ['s1', null],
+        ['s4', 's5'],
+        ['s2', null],
+        ['s3', null],
+      ]);
+    });
+
+    it('should pair the winners of neighbouring matches', () => {
+      const tournament = createTournament(
+        TournamentFormat.KNOCKOUT,
+        ['s1', 's2', 's3', 's4'],
+        [
+          [
+            decided('s1', 's4', MatchResult.PLAYER2_WIN),
+            decided('s2', 's3', MatchResult.PLAYER1_WIN),
+          ],
+        ]
+      );
+
+      expect(createRoundPairings(tournament)).toEqual([['s4', 's2']]);
+    });
+  });
+
+  describe('swiss', () => {
+    it('should pair players on equal scores who have not met', () => {
+      const tournament = createTournament(
+        TournamentFormat.SWISS,
+        ['a', 'b', 'c', 'd'],
+        [[decided('a', 'b', MatchResult.PLAYER1_WIN), decided('c', 'd', MatchResult.PLAYER1_WIN)]]
+      );
+
+      expect(createRoundPairings(tournament).map(pairKey)).toEqual(['a-c', 'b-d']);
+    });
+
+    it('should avoid rematches when another opponent is available', () => {
+      const tournament = createTournament(
+        TournamentFormat.SWISS,
+        ['a', 'b', 'c', 'd'],
+        [
+          [decided('a', 'b', MatchResult.PLAYER1_WIN), decided('c', 'd', MatchResult.PLAYER1_WIN)],
+          [decided('a', 'c', MatchResult.DRAW, 2), decided('b', 'd', MatchResult.DRAW, 2)],
+        ]
+      );
+
+      const pairings = createRoundPairings(tournament).map(pairKey);
+
+      expect(pairings).toEqual(['a-d', 'b-c']);
+    });
+
+    it('should give the bye to the lowest-placed player who has not had one', () => {
+      const tournament = createTournament(
+        TournamentFormat.SWISS,
+        ['a', 'b', 'c'],
+        [[decided('a', 'b', MatchResult.PLAYER1_WIN), decided('c', null, MatchResult.BYE)]]
+      );
+
+      const pairings = createRoundPairings(tournament);
+
+      expect(pairings).toContainEqual(['b', null]);
+      expect(pairings.map(pairKey)).toContain('a-c');
+    });
+  });
+
+  describe('decideMatch', () => {
+    const participants = [
+      { id: 'top', name: 'Top', seed: 1 },
+      { id: 'low', name: 'Low', seed: 2 },
+    ];
+    const match: TournamentMatch = { matchId: 'm', round: 1, player1Id: 'low', player2Id: 'top' };
+
+    it('should record the game winner', () => {
+      expect(decideMatch(match, 'top', participants, TournamentFormat.SWISS)).toMatchObject({
+        result: MatchResult.PLAYER2_WIN,
+        winnerId: 'top',
+      });
+    });
+
+    it('should leave drawn league matches without a winner', () => {
+      expect(decideMatch(match, null, participants, TournamentFormat.ROUND_ROBIN)).toMatchObject({
+        result: MatchResult.DRAW,
+        winnerId: null,
+      });
+    });
+
+    it('should advance the lower seed from a drawn knockout match', () => {
+      expect(decideMatch(match, null, participants, TournamentFormat.KNOCKOUT)).toMatchObject({
+        result: MatchResult.DRAW,
+        winnerId: 'top',
+      });
+    });
+  });
+
+  describe('calculateStandings', () => {
+    it('should score wins, draws and byes', () => {
+      const tournament = createTournament(
+        TournamentFormat.SWISS,
+        ['a', 'b', 'c'],
+        [[decided('a', 'b', MatchResult.DRAW), decided('c', null, MatchResult.BYE)]]
+      );
+
+      const standings = calculateStandings(tournament);
+
+      expect(standings[0]).toMatchObject({ playerId: 'c', points: 1, byes: 1, played: 0 });
+      expect(standings.find((s) => s.playerId === 'a')).toMatchObject({
+        points: 0.5,
+        draws: 1,
+        played: 1,
+      });
+    });
+
+    it('should break ties on points by Sonneborn-Berger score', () => {
+      // a and c both score 1, but a beat the stronger opponent
+      const tournament = createTournament(
+        TournamentFormat.ROUND_ROBIN,
+        ['c', 'a', 'b', 'd'],
+        [
+          [decided('a', 'b', MatchResult.PLAYER1_WIN), decided('c', 'd', MatchResult.PLAYER1_WIN)],
+          [decided('b', 'd', MatchResult.PLAYER1_WIN, 2)],
+        ]
+      );
+
+      const standings = calculateStandings(tournament);
+
+      expect(standings.map((s) => s.playerId)).toEqual(['a', 'c', 'b', 'd']);
+      expect(standings[0]).toMatchObject({ rank: 1, tiebreak: 1 });
+      expect(standings[1]).toMatchObject({ rank: 2, tiebreak: 0 });
+    });
+
+    it('should fall back to seed when everything else is equal', () => {
+      const standings = calculateStandings(
+        createTournament(TournamentFormat.SWISS, ['x', 'y', 'z'])
+      );
+
+      expect(standings.map((s) => s.playerId)).toEqual(['x', 'y', 'z']);
+    });
+  });
+});
@@ -0,0 +1,207 @@
+import {
+  MS_PER_DAY,
+  validateTimeControl,
+  startClock,
+  advanceClock,
+  restartTurn,
+  isClockExpired,
+  getClockStatus,
+  syncGameClock,
+  getTurnDueAt,
+} from '@domain/game-utils/TurnClock';
+import { GameLifecycle, TimeControl, TimeControlType, TimeoutAction } from '@domain/models';
+import { GameStateBuilder, createPlayer } from '../../utils';
+
+describe('TurnClock', () => {
+  const start = new Date('2024-01-01T00:00:00.000Z');
+  const perMove: TimeControl = { type: TimeControlType.PER_MOVE, daysPerMove: 3 };
+  const fischer: TimeControl = {
+    type: TimeControlType.FISCHER,
+    initialDays: 5,
+    incrementDays: 1,
+    maxDays: 7,
+  };
+
+  describe('validateTimeControl', () => {
+    it('should accept valid per-move and Fischer time controls', () => {
+      expect(validateTimeControl(perMove)).toBeNull();
+      expect(validateTimeControl(fischer)).toBeNull();
+      expect(validateTimeControl({ ...perMove, onTimeout: TimeoutAction.SKIP })).toBeNull();
+    });
+
+    it('should reject non-object values', () => {
+      expect(validateTimeControl(null)).toBe('Time control must be an object');
+      expect(validateTimeControl('3 days')).toBe('Time control must be an object');
+    });
+
+    it('should reject unknown types and timeout actions', () => {
+      expect(validateTimeControl({ type: 'blitz' })).toContain('type must be one of');
+      expect(validateTimeControl({ ...perMove, onTimeout: 'resign' })).toContain(
+        'onTimeout must be one of'
+      );
+    });
+
+    it('should require positive durations', () => {
+      expect(validateTimeControl({ type: TimeControlType.PER_MOVE, daysPerMove: 0 })).toContain(
+        'daysPerMove'
+      );
+      expect(validateTimeControl({ type: TimeControlType.FISCHER })).toContain('initialDays');
+      expect(validateTimeControl({ ...fischer, incrementDays: -1 })).toContain('incrementDays');
+      expect(validateTimeControl({ ...fischer, maxDays: 2 })).toContain('maxDays');
+    });
+  });
+
+  describe('per-move clock', () => {
+    it('should set the deadline one allowance after the turn starts', () => {
+      const clock = startClock(perMove, ['p1', 'p2'], 'p1', start);
+
+      expect(clock.turnPlayerId).toBe('p1');
+      expect(new Date(clock.deadline).getTime()).toBe(start.getTime() + 3 * MS_PER_DAY);
+      expect(clock.banks).toBeUndefined();
+    });
+
+    it('should give the next player a fresh allowance', () => {
+      const clock = startClock(perMove, ['p1', 'p2'], 'p1', start);
+      const later = new Date(start.getTime() + 2 * MS_PER_DAY);
+
+      const advanced = advanceClock(clock, 'p2', later);
+
+      expect(advanced.turnPlayerId).toBe('p2');
+      expect(new Date(advanced.deadline).getTime()).toBe(later.getTime() + 3 * MS_PER_DAY);
+    });
+
+    it('should leave the clock alone while the same player keeps the turn', () => {
+      const clock = startClock(perMove, ['p1', 'p2'], 'p1', start);
+
+      expect(advanceClock(clock, 'p1', new Date(start.getTime() + 1000))).toBe(clock);
+    });
+  });
+
+  describe('Fischer clock', () => {
+    it('should charge elapsed time and add the increment', () => {
+      const clock = startClock(fischer, ['p1', 'p2'], 'p1', start);
+      const later = new Date(start.getTime() + 2 * MS_PER_DAY);
+
+      const advanced = advanceClock(clock, 'p2', later);
+
+      // 5 days - 2 days used + 1 day increment
+      expect(advanced.banks!.p1).toBe(4 * MS_PER_DAY);
+      expect(new Date(advanced.deadline).getTime()).toBe(later.getTime() + 5 * MS_PER_DAY);
+    });
+
+    it('should cap the bank at maxDays', () => {
+      const clock = startClock({ ...fischer, maxDays: 5 }, ['p1', 'p2'], 'p1', start);
+
+      const advanced = advanceClock(clock, 'p2', new Date(start.getTime() + 1000));
+
+      expect(advanced.banks!.p1).toBe(5 * MS_PER_DAY);
+    });
+
+    it('should report live time remaining for the player on turn', () => {
+      const clock = startClock(fischer, ['p1', 'p2'], 'p1', start);
+      const now = new Date(start.getTime() + MS_PER_DAY);
+
+      const status = getClockStatus(clock, now);
+
+      expect(status.playerId).toBe('p1');
+      expect(status.timeRemainingMs).toBe(4 * MS_PER_DAY);
+      expect(status.banks).toEqual({ p1: 4 * MS_PER_DAY, p2: 5 * MS_PER_DAY });
+    });
+  });
+
+  describe('expiry', () => {
+    it('should expire once the deadline passes and never report negative time', () => {
+      const clock = startClock(perMove, ['p1', 'p2'], 'p1', start);
+      const past = new Date(start.getTime() + 4 * MS_PER_DAY);
+
+      expect(isClockExpired(clock, new Date(start.getTime() + MS_PER_DAY))).toBe(false);
+      expect(isClockExpired(clock, past)).toBe(true);
+      expect(getClockStatus(clock, past).timeRemainingMs).toBe(0);
+    });
+
+    it('should restart the current turn with a full allowance', () => {
+      const clock = startClock(perMove, ['p1', 'p2'], 'p1', start);
+      const later = new Date(start.getTime() + 4 * MS_PER_DAY);
+
+      const restarted = restartTurn(clock, later);
+
+      expect(restarted.turnPlayerId).toBe('p1');
+      expect(isClockExpired(restarted, later)).toBe(false);
+    });
+  });
+
+  describe('syncGameClock', () => {
+    const players = [createPlayer('p1', 'Player 1'), createPlayer('p2', 'Player 2')];
+
+    it('should start the clock for an active timed game', () => {
+      const state = new GameStateBuilder()
+        .withLifecycle(GameLifecycle.ACTIVE)
+        .withPlayers(players)
+        .withMetadata({ timeControl: perMove })
+        .build();
+
+      const synced = syncGameClock(state, 'p1', start);
+
+      expect(synced.metadata.clock.turnPlayerId).toBe('p1');
+    });
+
+    it('should ignore games without a time control or that are not active', () => {
+      const untimed = new GameStateBuilder()
+        .withLifecycle(GameLifecycle.ACTIVE)
+        .withPlayers(players)
+        .build();
+      const waiting = new GameStateBuilder()
+        .withLifecycle(GameLifecycle.WAITING_FOR_PLAYERS)
+        .withPlayers(players)
+        .withMetadata({ timeControl: perMove })
+        .build();
+
+      expect(syncGameClock(untimed, 'p1', start)).toBe(untimed);
+      expect(syncGameClock(waiting, 'p1', start)).toBe(waiting);
+    });
+  });
+
+  describe('getTurnDueAt', () => {
+    const players = [createPlayer('p1', 'Player 1'), createPlayer('p2', 'Player 2')];
+
+    it('should be the deadline of an active timed game', () => {
+      const clock = startClock(perMove, ['p1', 'p2'], 'p1', start);
+      const state = new GameStateBuilder()
+        .withLifecycle(GameLifecycle.ACTIVE)
+        .withPlayers(players)
+        .withMetadata({ timeControl: perMove, clock })
+        .build();
+
+      expect(getTurnDueAt(state)).toEqual(new Date(clock.deadline));
+    });
+
+    it('should be the start of the turn when the seat on turn was taken over', () => {
+      const clock = startClock(perMove, ['p1', 'p2'], 'p1', start);
+      const state = new GameStateBuilder()
+        .withLifecycle(GameLifecycle.ACTIVE)
+        .withPlayers([
+          { ...players[0], metadata: { aiTakeover: { strategyId: 'default' } } },
+          players[1],
+        ])
+        .withMetadata({ timeControl: perMove, clock })
+        .build();
+
+      expect(getTurnDueAt(state)).toEqual(start);
+    });
+
+    it('should be null for untimed or finished games', () => {
+      const untimed = new GameStateBuilder()
+        .withLifecycle(GameLifecycle.ACTIVE)
+        .withPlayers(players)
+        .build();
+      const completed = new GameStateBuilder()
+        .withLifecycle(GameLifecycle.COMPLETED)
+        .withPlayers(players)
+        .withMetadata({ timeControl: perMove, clock: startClock(perMove, ['p1', 'p2'], 'p1') })
+        .build();
+
+      expect(getTurnDueAt(untimed)).toBeNull();
+      expect(getTurnDueAt(completed)).toBeNull();
+    });
+  });
+});
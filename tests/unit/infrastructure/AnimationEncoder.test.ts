@@ -0,0 +1,236 @@
+import { inflateSync } from 'zlib';
+import { GifEncoder, ApngEncoder } from '@infrastructure/rendering/AnimationEncoder';
+import { RasterImage } from '@infrastructure/rendering/Rasterizer';
+
+/**
+ * Build a frame whose pixel colours come from a function of their position
+ */
+function frame(
+  width: number,
+  height: number,
+  color: (x: number, y: number) => [number, number, number]
+): RasterImage {
+  const data = new Uint8Array(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      data.set([...color(x, y), 255], (y * width + x) * 4);
+    }
+  }
+  return { width, height, data };
+}
+
+interface DecodedGifFrame {
+  delay: number;
+  pixels: number[][];
+}
+
+/**
+ * Minimal GIF decoder used to check the encoder's output round-trips
+ */
+function decodeGif(gif: Buffer): { width: number; height: number; frames: DecodedGifFrame[] } {
+  const width = gif.readUInt16LE(6);
+  const height = gif.readUInt16LE(8);
+  const frames: DecodedGifFrame[] = [];
+  let delay = 0;
+  let p = 13;
+
+  while (gif[p] !== 0x3b) {
+    if (gif[p] === 0x21) {
+      if (gif[p + 1] === 0xf9) {
+        delay = gif.readUInt16LE(p + 4);
+      }
+      p += 2;
+      while (gif[p] !== 0) p += gif[p] + 1;
+      p += 1;
+      continue;
+    }
+
+    const colors = 2 << (gif[p + 9] & 7);
+    const palette = gif.subarray(p + 10, p + 10 + colors * 3);
+    p += 10 + colors * 3;
+    const minCodeSize = gif[p++];
+    const blocks: Buffer[] = [];
+    while (gif[p] !== 0) {
+      blocks.push(gif.subarray(p + 1, p + 1 + gif[p]));
+      p += gif[p] + 1;
+    }
+    p += 1;
+
+    const indices = lzwDecode(Buffer.concat(blocks), minCodeSize);
+    frames.push({
+      delay,
+      pixels: indices.map((i) => Array.from(palette.subarray(i * 3, i * 3 + 3))),
+    });
+  }
+
+  return { width, height, frames };
+}
+
+function lzwDecode(data: Buffer, minCodeSize: number): number[] {
+  const clearCode = 1 << minCodeSize;
+  const reset = (): number[][] => [...Array.from({ length: clearCode }, (_, i) => [i]), [], []];
+  let table = reset();
+  let codeSize = minCodeSize + 1;
+  let previous: number[] | null = null;
+  let buffer = 0;
+  let bits = 0;
+  let offset = 0;
+  const output: number[] = [];
+
+  for (;;) {
+    while (bits < codeSize) {
+      buffer |= data[offset++] << bits;
+      bits += 8;
+    }
+    const code = buffer & ((1 << codeSize) - 1);
+    buffer >>= codeSize;
+    bits -= codeSize;
+
+    if (code === clearCode) {
+      table = reset();
+      codeSize = minCodeSize + 1;
+      previous = null;
+      continue;
+    }
+    if (code === clearCode + 1) {
+      return output;
+    }
+
+    let entry: number[];
+    if (previous === null) {
+      entry = table[code];
+    } else {
+      entry = code < table.length ? table[code] : [...previous, previous[0]];
+      table.push([...previous, entry[0]]);
+      if (table.length === 1 << codeSize && codeSize < 12) {
+        codeSize++;
+      }
+    }
+    output.push(...entry);
+    previous = entry;
+  }
+}
+
+/**
+ * Split a PNG into its chunks
+ */
+function readPngChunks(png: Buffer): Array<{ type: string; data: Buffer }> {
+  const chunks: Array<{ type: string; data: Buffer }> = [];
+  let p = 8;
+  while (p < png.length) {
+    const length = png.readUInt32BE(p);
+    chunks.push({
+      type: png.toString('ascii', p + 4, p + 8),
+      data: png.subarray(p + 8, p + 8 + length),
+    });
+    p += 12 + length;
+  }
+  return chunks;
+}
+
+describe('AnimationEncoder', () => {
+  const red = frame(4, 3, () => [255, 0, 0]);
+  const striped = frame(4, 3, (x) => (x % 2 === 0 ? [0, 0, 0] : [255, 255, 255]));
+
+  describe('GifEncoder', () => {
+    it('should write a looping GIF89a with one image per frame', () => {
+      const encoder = new GifEncoder(250);
+      encoder.addFrame(red);
+      encoder.addFrame(striped);
+      const gif = encoder.finish();
+
+      expect(gif.toString('ascii', 0, 6)).toBe('GIF89a');
+      expect(gif.includes(Buffer.from('NETSCAPE2.0'))).toBe(true);
+      expect(gif[gif.length - 1]).toBe(0x3b);
+
+      const decoded = decodeGif(gif);
+      expect(decoded.width).toBe(4);
+      expect(decoded.height).toBe(3);
+      expect(decoded.frames).toHaveLength(2);
+      expect(decoded.frames[0].delay).toBe(25);
+      expect(decoded.frames[0].pixels.every((p) => p.join() === '255,0,0')).toBe(true);
+      expect(decoded.frames[1].pixels.slice(0, 4)).toEqual([
+        [0, 0, 0],
+        [255, 255, 255],
+        [0, 0, 0],
+        [255, 255, 255],
+      ]);
+    });
+
+    it('should round-trip frames large enough to fill the LZW code table', () => {
+      const noisy = frame(200, 150, (x, y) => [(x * 7 + y * 13) % 16, (x * y) % 11, 0]);
+      const encoder = new GifEncoder(100);
+      encoder.addFrame(noisy);
+
+      const decoded = decodeGif(encoder.finish());
+
+      expect(decoded.frames[0].pixels).toHaveLength(200 * 150);
+      expect(decoded.frames[0].pixels[1234]).toEqual(
+        Array.from(noisy.data.subarray(1234 * 4, 1234 * 4 + 3))
+      );
+      expect(decoded.frames[0].pixels[29999]).toEqual(
+        Array.from(noisy.data.subarray(29999 * 4, 29999 * 4 + 3))
+      );
+    });
+
+    it('should reduce frames with more than 256 colours to a colour cube', () => {
+      const gradient = frame(32, 32, (x, y) => [x * 8, y * 8, 0]);
+      const encoder = new GifEncoder(100);
+      encoder.addFrame(gradient);
+
+      const decoded = decodeGif(encoder.finish());
+
+      expect(decoded.frames[0].pixels[0]).toEqual([0, 0, 0]);
+      expect(decoded.frames[0].pixels[32 * 32 - 1]).toEqual([255, 255, 0]);
+    });
+
+    it('should reject frames of a different size', () => {
+      const encoder = new GifEncoder(100);
+      encoder.addFrame(red);
+
+      expect(() => encoder.addFrame(frame(5, 3, () => [0, 0, 0]))).toThrow('4x3');
+    });
+  });
+
+  describe('ApngEncoder', () => {
+    it('should write an animated PNG with valid chunks for every frame', () => {
+      const encoder = new ApngEncoder(250);
+      encoder.addFrame(red);
+      encoder.addFrame(striped);
+      const png = encoder.finish();
+
+      expect(Array.from(png.subarray(0, 8))).toEqual([
+        0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+      ]);
+
+      const chunks = readPngChunks(png);
+      expect(chunks.map((c) => c.type)).toEqual([
+        'IHDR',
+        'acTL',
+        'fcTL',
+        'IDAT',
+        'fcTL',
+        'fdAT',
+        'IEND',
+      ]);
+      expect(chunks[1].data.readUInt32BE(0)).toBe(2);
+      expect(chunks[2].data.readUInt16BE(20)).toBe(250);
+      expect(chunks[2].data.readUInt16BE(22)).toBe(1000);
+      // Sequence numbers are shared by fcTL and fdAT chunks
+      expect(chunks[4].data.readUInt32BE(0)).toBe(1);
+      expect(chunks[5].data.readUInt32BE(0)).toBe(2);
+    });
+
+    it('should store each frame as filtered RGBA scanlines', () => {
+      const encoder = new ApngEncoder(100);
+      encoder.addFrame(striped);
+      const idat = readPngChunks(encoder.finish()).find((c) => c.type === 'IDAT')!;
+
+      const scanlines = inflateSync(idat.data);
+
+      expect(scanlines).toHaveLength((4 * 4 + 1) * 3);
+      expect(scanlines[0]).toBe(0);
+      expect(Array.from(scanlines.subarray(1, 9))).toEqual([0, 0, 0, 255, 255, 255, 255, 255]);
+    });
+  });
+});
@@ -0,0 +1,195 @@
+import { EmailNotificationChannel } from '@infrastructure/email/EmailNotificationChannel';
+import { InMemoryEmailTransport } from '@infrastructure/email/InMemoryEmailTransport';
+import { InMemoryNotificationDigestRepository } from '@infrastructure/persistence/InMemoryNotificationDigestRepository';
+import { Logger } from '@infrastructure/logging/Logger';
+import { IPlayerProfileRepository } from '@domain/interfaces/IPlayerProfileRepository';
+import {
+  GameCompleteNotificationData,
+  InvitationNotificationData,
+  NotificationType,
+  TurnNotificationData,
+} from '@domain/interfaces/INotificationChannel';
+import { NotificationPreferences, PlayerProfile } from '@domain/models/PlayerProfile';
+
+describe('EmailNotificationChannel', () => {
+  let transport: InMemoryEmailTransport;
+  let digestRepository: InMemoryNotificationDigestRepository;
+  let profiles: Map<string, PlayerProfile>;
+  let profileRepository: jest.Mocked<IPlayerProfileRepository>;
+  let logger: Logger;
+  let channel: EmailNotificationChannel;
+
+  const options = { from: 'Games <games@example.com>', appUrl: 'https://games.example.com/' };
+
+  function addProfile(userId: string, notificationPreferences?: NotificationPreferences): void {
+    profiles.set(userId, {
+      userId,
+      displayName: userId,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      notificationPreferences,
+    });
+  }
+
+  function turn(userId: string, gameId: string): TurnNotificationData {
+    return {
+      type: NotificationType.TURN,
+      userId,
+      gameId,
+      currentPlayer: userId,
+      message: `It's your turn in game ${gameId}`,
+    };
+  }
+
+  beforeEach(() => {
+    transport = new InMemoryEmailTransport();
+    digestRepository = new InMemoryNotificationDigestRepository();
+    profiles = new Map();
+    profileRepository = {
+      create: jest.fn(),
+      findByUserId: jest.fn(async (userId: string) => profiles.get(userId) ?? null),
+      findByDisplayName: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+      isDisplayNameAvailable: jest.fn(),
+      findAll: jest.fn(),
+    };
+    logger = new Logger('error', 'json');
+    channel = new EmailNotificationChannel(
+      transport,
+      profileRepository,
+      options,
+      digestRepository,
+      logger
+    );
+  });
+
+  it('should be named email', () => {
+    expect(channel.getName()).toBe('email');
+  });
+
+  describe('send', () => {
+    it('should email a turn notification with a link to the game', async () => {
+      addProfile('alice', { channels: ['email'], email: 'alice@example.com', emailDigest: false });
+
+      await channel.send(turn('alice', 'game-1'));
+
+      const [email] = transport.getSentEmails();
+      expect(email).toMatchObject({
+        to: 'alice@example.com',
+        from: options.from,
+        subject: 'Your turn in game game-1',
+      });
+      expect(email.text).toContain('https://games.example.com/#/player?gameId=game-1');
+    });
+
+    it('should use the invitation and game-complete templates', async () => {
+      addProfile('alice', { channels: ['email'], email: 'alice@example.com', emailDigest: true });
+      const invitation: InvitationNotificationData = {
+        type: NotificationType.INVITATION,
+        userId: 'alice',
+        gameId: 'game-1',
+        invitationId: 'inv-1',
+        inviterName: 'Bob',
+        message: 'Bob has invited you to join game game-1',
+      };
+      const gameComplete: GameCompleteNotificationData = {
+        type: NotificationType.GAME_COMPLETE,
+        userId: 'alice',
+        gameId: 'game-1',
+        winner: null,
+        message: 'Game game-1 has ended in a draw',
+      };
+
+      await channel.send(invitation);
+      await channel.send(gameComplete);
+
+      // Only turn notifications go into the digest
+      expect(transport.getSentEmails().map((email) => email.subject)).toEqual([
+        'Bob invited you to a game',
+        'Game game-1 has ended',
+      ]);
+    });
+
+    it('should skip players without an email address', async () => {
+      addProfile('alice');
+
+      await channel.send(turn('alice', 'game-1'));
+      await channel.send(turn('nobody', 'game-1'));
+
+      expect(transport.getSentEmails()).toEqual([]);
+    });
+
+    it('should hold turn notifications for players who chose the digest', async () => {
+      addProfile('alice', { channels: ['email'], email: 'alice@example.com', emailDigest: true });
+
+      await channel.send(turn('alice', 'game-1'));
+
+      expect(transport.getSentEmails()).toEqual([]);
+      expect(await digestRepository.findPending()).toEqual([
+        expect.objectContaining({ userId: 'alice', gameId: 'game-1', type: NotificationType.TURN }),
+      ]);
+    });
+  });
+
+  describe('sendDigests', () => {
+    it('should send one email per player listing each waiting game once', async () => {
+      addProfile('alice', { channels: ['email'], email: 'alice@example.com', emailDigest: true });
+      addProfile('bob', { channels: ['email'], email: 'bob@example.com', emailDigest: true });
+      await channel.send(turn('alice', 'game-1'));
+      await channel.send(turn('alice', 'game-2'));
+      await channel.send(turn('alice', 'game-1'));
+      await channel.send(turn('bob', 'game-3'));
+
+      expect(await channel.sendDigests()).toBe(2);
+
+      const [alice, bob] = transport.getSentEmails();
+      expect(alice).toMatchObject({
+        to: 'alice@example.com',
+        subject: "It's your turn in 2 games",
+      });
+      expect(alice.text.match(/gameId=game-1/g)).toHaveLength(1);
+      expect(alice.text).toContain('gameId=game-2');
+      expect(bob).toMatchObject({ to: 'bob@example.com', subject: "It's your turn in 1 game" });
+      expect(await digestRepository.findPending()).toEqual([]);
+    });
+
+    it('should keep a digest pending when it fails to send', async () => {
+      addProfile('alice', { channels: ['email'], email: 'alice@example.com', emailDigest: true });
+      await channel.send(turn('alice', 'game-1'));
+      jest.spyOn(transport, 'send').mockRejectedValueOnce(new Error('SMTP down'));
+
+      expect(await channel.sendDigests()).toBe(0);
+      expect(await digestRepository.findPending()).toHaveLength(1);
+
+      expect(await channel.sendDigests()).toBe(1);
+      expect(await digestRepository.findPending()).toEqual([]);
+    });
+
+    it('should drop held notifications for players who removed their address', async () => {
+      addProfile('alice', { channels: ['email'], email: 'alice@example.com', emailDigest: true });
+      await channel.send(turn('alice', 'game-1'));
+      addProfile('alice', { channels: ['email'], emailDigest: false });
+
+      expect(await channel.sendDigests()).toBe(0);
+      expect(transport.getSentEmails()).toEqual([]);
+      expect(await digestRepository.findPending()).toEqual([]);
+    });
+
+    it('should do nothing without a digest repository', async () => {
+      channel = new EmailNotificationChannel(transport, profileRepository, options);
+
+      expect(await channel.sendDigests()).toBe(0);
+    });
+  });
+
+  describe('isAvailable', () => {
+    it('should check the transport and cache the result', async () => {
+      const verifySpy = jest.spyOn(transport, 'verify').mockResolvedValue(false);
+
+      expect(await channel.isAvailable()).toBe(false);
+      expect(await channel.isAvailable()).toBe(false);
+      expect(verifySpy).toHaveBeenCalledTimes(1);
+    });
+  });
+});
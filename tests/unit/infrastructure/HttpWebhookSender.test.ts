@@ -0,0 +1,59 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { HttpWebhookSender } from '@infrastructure/webhooks/HttpWebhookSender';
+import { WebhookHostPolicy } from '@infrastructure/webhooks/WebhookHostPolicy';
+
+describe('HttpWebhookSender', () => {
+  let server: http.Server;
+  let url: string;
+  const received: Array<{ headers: http.IncomingHttpHeaders; body: string }> = [];
+
+  beforeEach(async () => {
+    received.length = 0;
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        received.push({ headers: req.headers, body });
+        res.writeHead(req.url === '/moved' ? 302 : 202, { Location: 'http://example.com/' });
+        res.end('ok');
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  it('should post the body and headers to an allowed host', async () => {
+    const sender = new HttpWebhookSender(new WebhookHostPolicy(['127.0.0.1']));
+
+    const response = await sender.post(`${url}/hooks`, '{"ok":true}', { 'X-Webhook-Id': 'w1' });
+
+    expect(response).toEqual({ statusCode: 202 });
+    expect(received).toHaveLength(1);
+    expect(received[0].body).toBe('{"ok":true}');
+    expect(received[0].headers).toMatchObject({
+      'content-type': 'application/json',
+      'x-webhook-id': 'w1',
+    });
+  });
+
+  it('should return redirects without following them', async () => {
+    const sender = new HttpWebhookSender(new WebhookHostPolicy(['127.0.0.1']));
+
+    await expect(sender.post(`${url}/moved`, '{}', {})).resolves.toEqual({ statusCode: 302 });
+    expect(received).toHaveLength(1);
+  });
+
+  it('should refuse private hosts without connecting', async () => {
+    const sender = new HttpWebhookSender(new WebhookHostPolicy());
+
+    await expect(sender.post(`${url}/hooks`, '{}', {})).rejects.toThrow(
+      'Refused to send webhook: 127.0.0.1 resolves to a loopback, link-local or private address'
+    );
+    expect(received).toEqual([]);
+  });
+});
@@ -451,6 +451,31 @@ describe('InAppNotificationChannel', () => {
     });
   });
 
+  describe('clearTurnNotifications', () => {
+    beforeEach(() => {
+      channel = new InAppNotificationChannel('postgresql://localhost:5432/test');
+    });
+
+    it("should mark the player's unread turn notifications for the game as read", async () => {
+      mockPool.query.mockResolvedValueOnce({ rows: [], rowCount: 1 });
+
+      await channel.clearTurnNotifications('user_123', 'game_456');
+
+      const [sql, params] = mockPool.query.mock.calls[0];
+      expect(sql).toContain("SET status = 'read'");
+      expect(sql).toContain('notification_type = $3');
+      expect(params).toEqual(['user_123', 'game_456', NotificationType.TURN]);
+    });
+
+    it('should rethrow database errors', async () => {
+      mockPool.query.mockRejectedValueOnce(new Error('connection lost'));
+
+      await expect(channel.clearTurnNotifications('user_123', 'game_456')).rejects.toThrow(
+        'connection lost'
+      );
+    });
+  });
+
   describe('deleteNotification', () => {
     beforeEach(() => {
       channel = new InAppNotificationChannel('postgresql://localhost:5432/test');
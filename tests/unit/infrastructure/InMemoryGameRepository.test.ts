@@ -1,6 +1,13 @@
 import { InMemoryGameRepository } from '@infrastructure/persistence/InMemoryGameRepository';
-import { GameState, GameLifecycle, Player } from '@domain/models';
-import { ConcurrencyError } from '@domain/errors';
+import {
+  GameState,
+  GameLifecycle,
+  GameEventType,
+  ModerationAction,
+  Player,
+  SNAPSHOT_INTERVAL,
+} from '@domain/models';
+import { ConcurrencyError, GameNotFoundError } from '@domain/errors';
 
 describe('InMemoryGameRepository', () => {
   let repository: InMemoryGameRepository;
@@ -244,4 +251,176 @@ describe('InMemoryGameRepository', () => {
       expect(result.items).toHaveLength(0);
     });
   });
+
+  describe('event log', () => {
+    const withMoves = (state: GameState, count: number, version: number): GameState => ({
+      ...state,
+      moveHistory: Array.from({ length: count }, (_, i) => ({
+        playerId: i % 2 === 0 ? 'player1' : 'player2',
+        timestamp: new Date(),
+        action: 'place',
+        parameters: { index: i },
+      })),
+      version,
+    });
+
+    it('should start the log with a game_created event on save', async () => {
+      await repository.save(createTestGameState('game-1'));
+
+      const events = await repository.getEvents('game-1');
+      expect(events).toHaveLength(1);
+      expect(events[0].type).toBe(GameEventType.GAME_CREATED);
+      expect(events[0].sequence).toBe(1);
+    });
+
+    it('should append move events on update', async () => {
+      const gameState = createTestGameState('game-1');
+      await repository.save(gameState);
+
+      await repository.update('game-1', withMoves(gameState, 2, 2), 1);
+
+      const events = await repository.getEvents('game-1', 1);
+      expect(events.map((e) => e.type)).toEqual([
+        GameEventType.MOVE_APPLIED,
+        GameEventType.MOVE_APPLIED,
+      ]);
+      expect(events.map((e) => e.moveNumber)).toEqual([1, 2]);
+    });
+
+    it('should take a snapshot each time the snapshot interval is reached', async () => {
+      const gameState = createTestGameState('game-1');
+      await repository.save(gameState);
+
+      await repository.update('game-1', withMoves(gameState, SNAPSHOT_INTERVAL - 1, 2), 1);
+      expect(await repository.getLatestSnapshot('game-1', SNAPSHOT_INTERVAL)).toBeNull();
+
+      await repository.update('game-1', withMoves(gameState, SNAPSHOT_INTERVAL + 1, 3), 2);
+      const snapshot = await repository.getLatestSnapshot('game-1', SNAPSHOT_INTERVAL + 5);
+      expect(snapshot).not.toBeNull();
+      expect(snapshot!.moveNumber).toBe(SNAPSHOT_INTERVAL + 1);
+      expect(await repository.getLatestSnapshot('game-1', SNAPSHOT_INTERVAL)).toBeNull();
+    });
+
+    it('should clear the log when the game is deleted', async () => {
+      await repository.save(createTestGameState('game-1'));
+
+      await repository.delete('game-1');
+
+      expect(await repository.getEvents('game-1')).toEqual([]);
+    });
+  });
+
+  describe('findDueTimedGames', () => {
+    const withDeadline = (gameId: string, deadline: string): GameState => ({
+      ...createTestGameState(gameId),
+      metadata: {
+        clock: {
+          timeControl: { type: 'per_move', daysPerMove: 3 },
+          turnPlayerId: 'player1',
+          turnStartedAt: '2025-01-01T00:00:00.000Z',
+          deadline,
+        },
+      },
+    });
+
+    it('should return only visible active games whose deadline has passed', async () => {
+      await repository.save(withDeadline('expired', '2025-01-04T00:00:00.000Z'));
+      await repository.save(withDeadline('running', '2025-01-10T00:00:00.000Z'));
+      await repository.save(withDeadline('deleted', '2025-01-04T00:00:00.000Z'));
+      await repository.save(createTestGameState('untimed'));
+      await repository.softDelete(
+        'deleted',
+        { deletedBy: 'admin', deletedAt: new Date() },
+        {
+          entryId: 'entry-1',
+          gameId: 'deleted',
+          action: ModerationAction.DELETE,
+          actorId: 'admin',
+          asAdmin: true,
+          details: {},
+          createdAt: new Date(),
+        }
+      );
+
+      const due = await repository.findDueTimedGames(new Date('2025-01-05T00:00:00.000Z'));
+
+      expect(due.map((g) => g.gameId)).toEqual(['expired']);
+    });
+  });
+
+  describe('soft delete', () => {
+    const deletion = { deletedBy: 'admin', deletedAt: new Date(), reason: 'Spam' };
+    const entry = {
+      entryId: 'entry-1',
+      gameId: 'game-1',
+      action: ModerationAction.DELETE,
+      actorId: 'admin',
+      asAdmin: true,
+      details: {},
+      createdAt: new Date(),
+    };
+    const restoreEntry = { ...entry, entryId: 'entry-2', action: ModerationAction.RESTORE };
+
+    it('should hide deleted games from every lookup', async () => {
+      await repository.save(createTestGameState('game-1'));
+      await repository.save(createTestGameState('game-2'));
+
+      await repository.softDelete('game-1', deletion, entry);
+
+      expect(await repository.findById('game-1')).toBeNull();
+      expect((await repository.findAll({})).items.map((g) => g.gameId)).toEqual(['game-2']);
+      expect((await repository.findByPlayer('player1', {})).total).toBe(1);
+      expect(await repository.findDeletion('game-1')).toEqual(deletion);
+      expect(await repository.getModerationLog('game-1')).toEqual([entry]);
+    });
+
+    it('should make a restored game visible again', async () => {
+      await repository.save(createTestGameState('game-1'));
+      await repository.softDelete('game-1', deletion, entry);
+
+      const restored = await repository.restore('game-1', restoreEntry);
+
+      expect(restored.gameId).toBe('game-1');
+      expect(await repository.findById('game-1')).not.toBeNull();
+      expect(await repository.findDeletion('game-1')).toBeNull();
+      expect(await repository.getModerationLog('game-1')).toEqual([entry, restoreEntry]);
+    });
+
+    it('should throw GameNotFoundError when deleting twice or restoring a visible game', async () => {
+      await repository.save(createTestGameState('game-1'));
+
+      await expect(repository.restore('game-1', restoreEntry)).rejects.toThrow(GameNotFoundError);
+      await repository.softDelete('game-1', deletion, entry);
+      await expect(repository.softDelete('game-1', deletion, entry)).rejects.toThrow(
+        GameNotFoundError
+      );
+      await expect(repository.softDelete('missing', deletion, entry)).rejects.toThrow(
+        GameNotFoundError
+      );
+      expect(await repository.getModerationLog('game-1')).toEqual([entry]);
+    });
+
+    it('should keep a moderation log per game in order', async () => {
+      const entry = {
+        entryId: 'entry-1',
+        gameId: 'game-1',
+        action: ModerationAction.DELETE,
+        actorId: 'admin',
+        asAdmin: true,
+        details: {},
+        createdAt: new Date(),
+      };
+
+      await repository.appendModerationEntry(entry);
+      await repository.appendModerationEntry({
+        ...entry,
+        entryId: 'entry-2',
+        action: ModerationAction.RESTORE,
+      });
+
+      const log = await repository.getModerationLog('game-1');
+      expect(log.map((e) => e.action)).toEqual([ModerationAction.DELETE, ModerationAction.RESTORE]);
+      expect(await repository.getModerationLog('game-2')).toEqual([]);
+    });
+  });
 });
@@ -0,0 +1,86 @@
+/**
+ * Tests for IntervalWorker
+ */
+
+import { IntervalWorker } from '../../../src/infrastructure/scheduling/IntervalWorker';
+import { Logger } from '../../../src/infrastructure/logging/Logger';
+
+describe('IntervalWorker', () => {
+  let logger: Logger;
+  let worker: IntervalWorker;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    logger = new Logger('info', 'json');
+    jest.spyOn(logger, 'error').mockImplementation();
+    worker = new IntervalWorker(logger, 'Test pass failed');
+  });
+
+  afterEach(() => {
+    worker.stop();
+    jest.useRealTimers();
+  });
+
+  describe('start/stop', () => {
+    it('should run the pass on every interval until stopped', () => {
+      const pass = jest.fn().mockResolvedValue(undefined);
+
+      worker.start(1000, pass);
+      jest.advanceTimersByTime(3000);
+      expect(pass).toHaveBeenCalledTimes(3);
+
+      worker.stop();
+      jest.advanceTimersByTime(3000);
+      expect(pass).toHaveBeenCalledTimes(3);
+    });
+
+    it('should ignore a second start', () => {
+      const first = jest.fn().mockResolvedValue(undefined);
+      const second = jest.fn().mockResolvedValue(undefined);
+
+      worker.start(1000, first);
+      worker.start(1000, second);
+      jest.advanceTimersByTime(1000);
+
+      expect(first).toHaveBeenCalledTimes(1);
+      expect(second).not.toHaveBeenCalled();
+    });
+
+    it('should log a failed pass and keep running', async () => {
+      const pass = jest.fn().mockRejectedValue(new Error('boom'));
+
+      worker.start(1000, pass);
+      jest.advanceTimersByTime(2000);
+      await Promise.resolve();
+
+      expect(pass).toHaveBeenCalledTimes(2);
+      expect(logger.error).toHaveBeenCalledWith('Test pass failed', { error: 'boom' });
+    });
+  });
+
+  describe('runExclusive', () => {
+    it('should skip a pass while another is still running', async () => {
+      let finish: (value: string) => void = () => {};
+      const first = worker.runExclusive(
+        () => new Promise<string>((resolve) => (finish = resolve)),
+        'skipped'
+      );
+
+      await expect(worker.runExclusive(async () => 'second', 'skipped')).resolves.toBe('skipped');
+
+      finish('first');
+      await expect(first).resolves.toBe('first');
+      await expect(worker.runExclusive(async () => 'third', 'skipped')).resolves.toBe('third');
+    });
+
+    it('should allow the next pass after one throws', async () => {
+      await expect(
+        worker.runExclusive(async () => {
+          throw new Error('boom');
+        }, 0)
+      ).rejects.toThrow('boom');
+
+      await expect(worker.runExclusive(async () => 1, 0)).resolves.toBe(1);
+    });
+  });
+});
@@ -0,0 +1,211 @@
+import { PostgresAIPlayerRepository } from '@infrastructure/persistence/PostgresAIPlayerRepository';
+import { AIPlayer } from '@domain/models/AIPlayer';
+import { Pool } from 'pg';
+
+// Mock the pg module
+jest.mock('pg', () => {
+  const mPool = {
+    connect: jest.fn(),
+    query: jest.fn(),
+    end: jest.fn(),
+    on: jest.fn(),
+  };
+  return { Pool: jest.fn(() => mPool) };
+});
+
+describe('PostgresAIPlayerRepository', () => {
+  let repository: PostgresAIPlayerRepository;
+  let mockPool: any;
+
+  const createdAt = new Date('2025-01-01T00:00:00.000Z');
+
+  const aiPlayerRow = {
+    id: 'ai-1',
+    name: 'Bot',
+    game_type: 'connect-four',
+    strategy_id: 'alpha-beta',
+    difficulty: 'hard',
+    configuration: { depth: 6 },
+    created_at: createdAt,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    const PoolConstructor = Pool as unknown as jest.Mock;
+    mockPool = PoolConstructor();
+    repository = new PostgresAIPlayerRepository('postgresql://localhost:5432/test');
+  });
+
+  describe('create', () => {
+    it('should insert the AI player with a generated ID', async () => {
+      mockPool.query.mockImplementation(async (_sql: string, params: unknown[]) => ({
+        rows: [{ ...aiPlayerRow, id: params[0] }],
+      }));
+
+      const created = await repository.create({
+        name: 'Bot',
+        gameType: 'connect-four',
+        strategyId: 'alpha-beta',
+        difficulty: 'hard',
+        configuration: { depth: 6 },
+      });
+
+      const [sql, params] = mockPool.query.mock.calls[0];
+      expect(sql).toContain('INSERT INTO ai_players');
+      expect(params[0]).toEqual(expect.any(String));
+      expect(params.slice(1, 6)).toEqual([
+        'Bot',
+        'connect-four',
+        'alpha-beta',
+        'hard',
+        JSON.stringify({ depth: 6 }),
+      ]);
+      expect(created).toBeInstanceOf(AIPlayer);
+      expect(created.id).toBe(params[0]);
+    });
+
+    it('should keep a given ID and store missing optional fields as null', async () => {
+      mockPool.query.mockResolvedValue({
+        rows: [{ ...aiPlayerRow, difficulty: null, configuration: null }],
+      });
+
+      const created = await repository.create({
+        id: 'ai-1',
+        name: 'Bot',
+        gameType: 'connect-four',
+        strategyId: 'alpha-beta',
+      });
+
+      const [, params] = mockPool.query.mock.calls[0];
+      expect(params[0]).toBe('ai-1');
+      expect(params[4]).toBeNull();
+      expect(params[5]).toBeNull();
+      expect(created.difficulty).toBeUndefined();
+      expect(created.configuration).toBeUndefined();
+    });
+  });
+
+  describe('findById', () => {
+    it('should map the row to an AI player', async () => {
+      mockPool.query.mockResolvedValue({ rows: [aiPlayerRow] });
+
+      const found = await repository.findById('ai-1');
+
+      expect(found).toEqual(
+        new AIPlayer('ai-1', 'Bot', 'connect-four', 'alpha-beta', 'hard', { depth: 6 }, createdAt)
+      );
+      expect(found?.toPlayer().metadata).toMatchObject({ isAI: true, strategyId: 'alpha-beta' });
+    });
+
+    it('should return null when the AI player does not exist', async () => {
+      mockPool.query.mockResolvedValue({ rows: [] });
+
+      expect(await repository.findById('missing')).toBeNull();
+      expect(await repository.exists('missing')).toBe(false);
+    });
+
+    it('should rethrow database errors', async () => {
+      mockPool.query.mockRejectedValue(new Error('connection lost'));
+
+      await expect(repository.findById('ai-1')).rejects.toThrow('connection lost');
+    });
+  });
+
+  describe('findAll', () => {
+    it('should list every AI player without filters', async () => {
+      mockPool.query.mockResolvedValue({ rows: [aiPlayerRow] });
+
+      const players = await repository.findAll();
+
+      const [sql, params] = mockPool.query.mock.calls[0];
+      expect(sql).not.toContain('WHERE');
+      expect(params).toEqual([]);
+      expect(players).toHaveLength(1);
+    });
+
+    it('should combine the given filters', async () => {
+      mockPool.query.mockResolvedValue({ rows: [] });
+
+      await repository.findAll({ gameType: 'connect-four', difficulty: 'hard' });
+
+      const [sql, params] = mockPool.query.mock.calls[0];
+      expect(sql).toContain('WHERE game_type = $1 AND difficulty = $2');
+      expect(params).toEqual(['connect-four', 'hard']);
+    });
+
+    it('should filter by game type and strategy', async () => {
+      mockPool.query.mockResolvedValue({ rows: [] });
+
+      await repository.findByGameType('connect-four');
+      await repository.findByStrategyId('alpha-beta');
+
+      expect(mockPool.query.mock.calls[0][0]).toContain('WHERE game_type = $1');
+      expect(mockPool.query.mock.calls[1][0]).toContain('WHERE strategy_id = $1');
+    });
+  });
+
+  describe('update', () => {
+    it('should update only the given fields', async () => {
+      mockPool.query.mockResolvedValue({ rows: [{ ...aiPlayerRow, name: 'Renamed' }] });
+
+      const updated = await repository.update('ai-1', { name: 'Renamed' });
+
+      const [sql, params] = mockPool.query.mock.calls[0];
+      expect(sql).toContain('UPDATE ai_players');
+      expect(params).toEqual(['ai-1', 'Renamed', null, null, null]);
+      expect(updated.name).toBe('Renamed');
+    });
+
+    it('should throw when the AI player does not exist', async () => {
+      mockPool.query.mockResolvedValue({ rows: [] });
+
+      await expect(repository.update('missing', { name: 'Renamed' })).rejects.toThrow(
+        'AI Player with ID missing not found'
+      );
+    });
+  });
+
+  describe('delete', () => {
+    it('should delete the AI player', async () => {
+      mockPool.query.mockResolvedValue({ rowCount: 1 });
+
+      await repository.delete('ai-1');
+
+      expect(mockPool.query).toHaveBeenCalledWith('DELETE FROM ai_players WHERE id = $1', ['ai-1']);
+    });
+
+    it('should throw when the AI player does not exist', async () => {
+      mockPool.query.mockResolvedValue({ rowCount: 0 });
+
+      await expect(repository.delete('missing')).rejects.toThrow(
+        'AI Player with ID missing not found'
+      );
+    });
+  });
+
+  describe('countByGameType', () => {
+    it('should return the count as a number', async () => {
+      mockPool.query.mockResolvedValue({ rows: [{ count: '3' }] });
+
+      expect(await repository.countByGameType('connect-four')).toBe(3);
+    });
+  });
+
+  describe('healthCheck', () => {
+    it('should report whether the database answers', async () => {
+      mockPool.query.mockResolvedValueOnce({ rows: [] });
+      expect(await repository.healthCheck()).toBe(true);
+
+      mockPool.query.mockRejectedValueOnce(new Error('connection lost'));
+      expect(await repository.healthCheck()).toBe(false);
+    });
+  });
+
+  describe('close', () => {
+    it('should end the pool', async () => {
+      await repository.close();
+
+      expect(mockPool.end).toHaveBeenCalled();
+    });
+  });
+});
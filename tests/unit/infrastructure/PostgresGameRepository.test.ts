@@ -1,5 +1,13 @@
 import { PostgresGameRepository } from '@infrastructure/persistence/PostgresGameRepository';
-import { GameState, GameLifecycle, Player } from '@domain/models';
+import {
+  GameState,
+  GameLifecycle,
+  GameEventType,
+  ModerationAction,
+  Player,
+  SNAPSHOT_INTERVAL,
+} from '@domain/models';
+import { GameNotFoundError } from '@domain/errors';
 import { Pool } from 'pg';
 
 // Mock the pg module
@@ -16,6 +24,7 @@ jest.mock('pg', () => {
 describe('PostgresGameRepository - Basic Structure', () => {
   let repository: PostgresGameRepository;
   let mockPool: any;
+  let mockClient: any;
 
   const createTestPlayer = (id: string, name: string): Player => ({
     id,
@@ -50,6 +59,8 @@ describe('PostgresGameRepository - Basic Structure', () => {
     jest.clearAllMocks();
     const PoolConstructor = Pool as unknown as jest.Mock;
     mockPool = PoolConstructor();
+    mockClient = { query: jest.fn(), release: jest.fn() };
+    mockPool.connect.mockResolvedValue(mockClient);
   });
 
   describe('constructor and connection initialization', () => {
@@ -100,6 +111,7 @@ describe('PostgresGameRepository - Basic Structure', () => {
         winner: null,
         state: gameState, // PostgreSQL JSONB handles objects directly
         version: 1,
+        turn_due_at: null,
         created_at: new Date('2025-01-01T00:00:00.000Z'),
         updated_at: new Date('2025-01-01T00:00:00.000Z'),
       });
@@ -180,11 +192,11 @@ describe('PostgresGameRepository - Basic Structure', () => {
 
     it('should insert a new game into the database', async () => {
       const gameState = createTestGameState('game-1', 'tic-tac-toe', 1);
-      mockPool.query.mockResolvedValueOnce({ rows: [], rowCount: 1 } as any);
+      mockClient.query.mockResolvedValue({ rows: [], rowCount: 1 } as any);
 
       await repository.save(gameState);
 
-      expect(mockPool.query).toHaveBeenCalledWith(
+      expect(mockClient.query).toHaveBeenCalledWith(
         expect.stringContaining('INSERT INTO games'),
         expect.arrayContaining([
           'game-1',
@@ -196,14 +208,35 @@ describe('PostgresGameRepository - Basic Structure', () => {
           expect.any(Date),
         ])
       );
+      expect(mockClient.query).toHaveBeenCalledWith('COMMIT');
+      expect(mockClient.release).toHaveBeenCalled();
+    });
+
+    it('should record a game_created event in the same transaction', async () => {
+      const gameState = createTestGameState('game-1', 'tic-tac-toe', 1);
+      mockClient.query.mockResolvedValue({ rows: [], rowCount: 1 } as any);
+
+      await repository.save(gameState);
+
+      expect(mockClient.query).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO game_events'),
+        expect.arrayContaining(['game-1', 1, GameEventType.GAME_CREATED, 0])
+      );
     });
 
     it('should handle database errors during save', async () => {
       const gameState = createTestGameState('game-1');
       const dbError = new Error('Database connection failed');
-      mockPool.query.mockRejectedValueOnce(dbError);
+      mockClient.query.mockImplementation(async (sql: string) => {
+        if (sql.includes('INSERT INTO games')) {
+          throw dbError;
+        }
+        return { rows: [], rowCount: 0 };
+      });
 
       await expect(repository.save(gameState)).rejects.toThrow('Database connection failed');
+      expect(mockClient.query).toHaveBeenCalledWith('ROLLBACK');
+      expect(mockClient.release).toHaveBeenCalled();
     });
   });
 
@@ -527,76 +560,133 @@ describe('PostgresGameRepository - Basic Structure', () => {
   });
 
   describe('update', () => {
+    /**
+     * Answer client queries by matching a fragment of their SQL
+     */
+    const respondTo = (responses: Record<string, any>) => {
+      mockClient.query.mockImplementation(async (sql: string) => {
+        const key = Object.keys(responses).find((fragment) => sql.includes(fragment));
+        return key ? responses[key] : { rows: [], rowCount: 0 };
+      });
+    };
+
     beforeEach(() => {
       repository = new PostgresGameRepository('postgresql://localhost:5432/test');
     });
 
     it('should update game state with correct version', async () => {
+      const previousState = createTestGameState('game-1', 'tic-tac-toe', 1);
       const gameState = createTestGameState('game-1', 'tic-tac-toe', 2);
       const serialized = repository['serializeGameState'](gameState);
 
-      mockPool.query.mockResolvedValueOnce({
-        rows: [serialized],
-        rowCount: 1,
-      } as any);
+      respondTo({
+        'FOR UPDATE': { rows: [repository['serializeGameState'](previousState)], rowCount: 1 },
+        'UPDATE games': { rows: [serialized], rowCount: 1 },
+        last_sequence: { rows: [{ last_sequence: 1 }], rowCount: 1 },
+      });
 
       const result = await repository.update('game-1', gameState, 1);
 
-      expect(mockPool.query).toHaveBeenCalledWith(
+      expect(mockClient.query).toHaveBeenCalledWith(
         expect.stringContaining('UPDATE games'),
         expect.arrayContaining(['tic-tac-toe', 'active', 'game-1', 1])
       );
+      expect(mockClient.query).toHaveBeenCalledWith('COMMIT');
       expect(result.version).toBe(2);
     });
 
+    it('should append an event for each new move', async () => {
+      const previousState = createTestGameState('game-1', 'tic-tac-toe', 1);
+      const gameState = createTestGameState('game-1', 'tic-tac-toe', 2);
+      gameState.moveHistory = [
+        {
+          playerId: 'player1',
+          timestamp: new Date('2025-01-01T00:01:00.000Z'),
+          action: 'place',
+          parameters: { row: 0, col: 0 },
+        },
+      ];
+
+      respondTo({
+        'FOR UPDATE': { rows: [repository['serializeGameState'](previousState)], rowCount: 1 },
+        'UPDATE games': { rows: [repository['serializeGameState'](gameState)], rowCount: 1 },
+        last_sequence: { rows: [{ last_sequence: '3' }], rowCount: 1 },
+      });
+
+      await repository.update('game-1', gameState, 1);
+
+      expect(mockClient.query).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO game_events'),
+        expect.arrayContaining(['game-1', 4, GameEventType.MOVE_APPLIED, 1])
+      );
+      expect(mockClient.query).not.toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO game_snapshots'),
+        expect.anything()
+      );
+    });
+
+    it('should store a snapshot when a snapshot interval is reached', async () => {
+      const move = {
+        playerId: 'player1',
+        timestamp: new Date('2025-01-01T00:01:00.000Z'),
+        action: 'place',
+        parameters: {},
+      };
+      const previousState = createTestGameState('game-1', 'tic-tac-toe', 1);
+      previousState.moveHistory = Array(SNAPSHOT_INTERVAL - 1).fill(move);
+      const gameState = createTestGameState('game-1', 'tic-tac-toe', 2);
+      gameState.moveHistory = Array(SNAPSHOT_INTERVAL).fill(move);
+
+      respondTo({
+        'FOR UPDATE': { rows: [repository['serializeGameState'](previousState)], rowCount: 1 },
+        'UPDATE games': { rows: [repository['serializeGameState'](gameState)], rowCount: 1 },
+        last_sequence: { rows: [{ last_sequence: SNAPSHOT_INTERVAL }], rowCount: 1 },
+      });
+
+      await repository.update('game-1', gameState, 1);
+
+      expect(mockClient.query).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO game_snapshots'),
+        ['game-1', SNAPSHOT_INTERVAL, SNAPSHOT_INTERVAL + 1, gameState]
+      );
+    });
+
     it('should throw ConcurrencyError when version mismatch', async () => {
+      const currentState = createTestGameState('game-1', 'tic-tac-toe', 4);
       const gameState = createTestGameState('game-1', 'tic-tac-toe', 5);
 
-      // Mock UPDATE query returning no rows (version mismatch)
-      mockPool.query.mockResolvedValueOnce({
-        rows: [],
-        rowCount: 0,
-      } as any);
-
-      // Mock SELECT query to check if game exists (it does)
-      mockPool.query.mockResolvedValueOnce({
-        rows: [{ version: 4 }],
-        rowCount: 1,
-      } as any);
+      // Game exists, but the UPDATE matches no rows (version mismatch)
+      respondTo({
+        'FOR UPDATE': { rows: [repository['serializeGameState'](currentState)], rowCount: 1 },
+      });
 
       await expect(repository.update('game-1', gameState, 3)).rejects.toThrow(
         'was modified by another request'
       );
+      expect(mockClient.query).toHaveBeenCalledWith('ROLLBACK');
     });
 
     it('should throw GameNotFoundError when game does not exist', async () => {
       const gameState = createTestGameState('non-existent', 'tic-tac-toe', 1);
 
-      // Mock UPDATE query returning no rows
-      mockPool.query.mockResolvedValueOnce({
-        rows: [],
-        rowCount: 0,
-      } as any);
-
-      // Mock SELECT query to check if game exists (it doesn't)
-      mockPool.query.mockResolvedValueOnce({
-        rows: [],
-        rowCount: 0,
-      } as any);
+      // No rows for either the locked read or the UPDATE
+      respondTo({});
 
       await expect(repository.update('non-existent', gameState, 1)).rejects.toThrow('not found');
     });
 
     it('should increment version on successful update', async () => {
+      const previousState = createTestGameState('game-1', 'tic-tac-toe', 1);
       const gameState = createTestGameState('game-1', 'tic-tac-toe', 1);
       gameState.version = 2;
       gameState.phase = 'updated';
       const serialized = repository['serializeGameState'](gameState);
 
-      mockPool.query.mockResolvedValueOnce({
-        rows: [serialized],
-        rowCount: 1,
-      } as any);
+      respondTo({
+        'FOR UPDATE': { rows: [repository['serializeGameState'](previousState)], rowCount: 1 },
+        'UPDATE games': { rows: [serialized], rowCount: 1 },
+        last_sequence: { rows: [{ last_sequence: 1 }], rowCount: 1 },
+      });
 
       const result = await repository.update('game-1', gameState, 1);
 
@@ -607,9 +697,280 @@ describe('PostgresGameRepository - Basic Structure', () => {
     it('should handle database errors during update', async () => {
       const gameState = createTestGameState('game-1');
       const dbError = new Error('Connection timeout');
-      mockPool.query.mockRejectedValueOnce(dbError);
+      mockClient.query.mockImplementation(async (sql: string) => {
+        if (sql.includes('FOR UPDATE')) {
+          throw dbError;
+        }
+        return { rows: [], rowCount: 0 };
+      });
 
       await expect(repository.update('game-1', gameState, 1)).rejects.toThrow('Connection timeout');
+      expect(mockClient.release).toHaveBeenCalled();
+    });
+  });
+
+  describe('event log', () => {
+    beforeEach(() => {
+      repository = new PostgresGameRepository('postgresql://localhost:5432/test');
+    });
+
+    it('should return events in order with dates reconstructed', async () => {
+      mockPool.query.mockResolvedValueOnce({
+        rows: [
+          {
+            game_id: 'game-1',
+            sequence: 2,
+            event_type: GameEventType.MOVE_APPLIED,
+            move_number: 1,
+            payload: {
+              move: {
+                playerId: 'player1',
+                timestamp: '2025-01-01T00:01:00.000Z',
+                action: 'place',
+                parameters: {},
+              },
+            },
+            created_at: new Date('2025-01-01T00:01:00.000Z'),
+          },
+        ],
+        rowCount: 1,
+      } as any);
+
+      const events = await repository.getEvents('game-1', 1);
+
+      expect(mockPool.query).toHaveBeenCalledWith(expect.stringContaining('FROM game_events'), [
+        'game-1',
+        1,
+      ]);
+      expect(events).toHaveLength(1);
+      expect(events[0].type).toBe(GameEventType.MOVE_APPLIED);
+      if (events[0].type === GameEventType.MOVE_APPLIED) {
+        expect(events[0].payload.move.timestamp).toBeInstanceOf(Date);
+      }
+    });
+
+    it('should return the latest snapshot at or before a move', async () => {
+      const gameState = createTestGameState('game-1');
+      mockPool.query.mockResolvedValueOnce({
+        rows: [
+          {
+            game_id: 'game-1',
+            sequence: 21,
+            move_number: 20,
+            state: JSON.stringify(gameState),
+            created_at: new Date('2025-01-01T00:00:00.000Z'),
+          },
+        ],
+        rowCount: 1,
+      } as any);
+
+      const snapshot = await repository.getLatestSnapshot('game-1', 25);
+
+      expect(mockPool.query).toHaveBeenCalledWith(expect.stringContaining('FROM game_snapshots'), [
+        'game-1',
+        25,
+      ]);
+      expect(snapshot!.moveNumber).toBe(20);
+      expect(snapshot!.sequence).toBe(21);
+      expect(snapshot!.state.createdAt).toBeInstanceOf(Date);
+    });
+
+    it('should return null when no snapshot exists', async () => {
+      mockPool.query.mockResolvedValueOnce({ rows: [], rowCount: 0 } as any);
+
+      expect(await repository.getLatestSnapshot('game-1', 5)).toBeNull();
+    });
+  });
+
+  describe('findDueTimedGames', () => {
+    beforeEach(() => {
+      repository = new PostgresGameRepository('postgresql://localhost:5432/test');
+    });
+
+    it('should query visible active games by their stored due time', async () => {
+      const now = new Date('2025-01-05T00:00:00.000Z');
+      const serialized = repository['serializeGameState'](createTestGameState('game-1'));
+      mockPool.query.mockResolvedValueOnce({ rows: [serialized], rowCount: 1 } as any);
+
+      const due = await repository.findDueTimedGames(now);
+
+      expect(due.map((g) => g.gameId)).toEqual(['game-1']);
+      expect(mockPool.query).toHaveBeenCalledWith(
+        expect.stringMatching(/turn_due_at <= \$1 AND lifecycle = \$2 AND deleted_at IS NULL/),
+        [now, GameLifecycle.ACTIVE]
+      );
+    });
+
+    it('should store the turn deadline with the game', () => {
+      const state = {
+        ...createTestGameState('game-1'),
+        metadata: {
+          clock: {
+            timeControl: { type: 'per_move', daysPerMove: 3 },
+            turnPlayerId: 'player1',
+            turnStartedAt: '2025-01-01T00:00:00.000Z',
+            deadline: '2025-01-04T00:00:00.000Z',
+          },
+        },
+      };
+
+      expect(repository['serializeGameState'](state).turn_due_at).toEqual(
+        new Date('2025-01-04T00:00:00.000Z')
+      );
+      expect(
+        repository['serializeGameState'](createTestGameState('game-2')).turn_due_at
+      ).toBeNull();
+    });
+  });
+
+  describe('soft delete', () => {
+    const deletedAt = new Date('2025-02-01T00:00:00.000Z');
+    const entry = {
+      entryId: 'entry-1',
+      gameId: 'game-1',
+      action: ModerationAction.DELETE,
+      actorId: 'admin',
+      asAdmin: true,
+      details: {},
+      createdAt: deletedAt,
+    };
+
+    beforeEach(() => {
+      repository = new PostgresGameRepository('postgresql://localhost:5432/test');
+    });
+
+    it('should leave deleted games out of lookups', async () => {
+      mockPool.query.mockResolvedValueOnce({ rows: [], rowCount: 0 } as any);
+      await repository.findById('game-1');
+      expect(mockPool.query).toHaveBeenLastCalledWith(
+        expect.stringContaining('AND deleted_at IS NULL'),
+        ['game-1']
+      );
+
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [{ count: '0' }] } as any)
+        .mockResolvedValueOnce({ rows: [] } as any);
+      await repository.findAll({});
+      expect(mockPool.query).toHaveBeenLastCalledWith(
+        expect.stringContaining('WHERE deleted_at IS NULL'),
+        [20, 0]
+      );
+    });
+
+    it('should mark the row as deleted and log it in one transaction', async () => {
+      mockClient.query.mockResolvedValue({ rows: [], rowCount: 1 });
+
+      await repository.softDelete(
+        'game-1',
+        { deletedBy: 'admin', deletedAt, reason: 'Spam' },
+        entry
+      );
+
+      const statements = mockClient.query.mock.calls.map(([sql]: [string]) => sql.trim());
+      expect(statements[0]).toBe('BEGIN');
+      expect(statements[1]).toContain('SET deleted_at = $1, deleted_by = $2, deletion_reason = $3');
+      expect(statements[2]).toContain('INSERT INTO game_moderation_log');
+      expect(statements[3]).toBe('COMMIT');
+      expect(mockClient.query).toHaveBeenCalledWith(expect.stringContaining('SET deleted_at'), [
+        deletedAt,
+        'admin',
+        'Spam',
+        'game-1',
+      ]);
+      expect(mockClient.release).toHaveBeenCalled();
+    });
+
+    it('should throw GameNotFoundError and log nothing when no visible game was deleted', async () => {
+      mockClient.query.mockResolvedValue({ rows: [], rowCount: 0 });
+
+      await expect(
+        repository.softDelete('game-1', { deletedBy: 'admin', deletedAt }, entry)
+      ).rejects.toThrow(GameNotFoundError);
+
+      expect(mockClient.query).not.toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO game_moderation_log'),
+        expect.anything()
+      );
+      expect(mockClient.query).toHaveBeenCalledWith('ROLLBACK');
+    });
+
+    it('should restore a deleted game and log it', async () => {
+      const serialized = repository['serializeGameState'](createTestGameState('game-1'));
+      mockClient.query.mockResolvedValue({ rows: [serialized], rowCount: 1 });
+
+      const restored = await repository.restore('game-1', {
+        ...entry,
+        action: ModerationAction.RESTORE,
+      });
+
+      expect(mockClient.query).toHaveBeenCalledWith(
+        expect.stringContaining('SET deleted_at = NULL'),
+        ['game-1']
+      );
+      expect(mockClient.query).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO game_moderation_log'),
+        expect.arrayContaining(['entry-1', 'game-1', ModerationAction.RESTORE])
+      );
+      expect(mockClient.query).toHaveBeenCalledWith('COMMIT');
+      expect(restored.gameId).toBe('game-1');
+    });
+
+    it('should read the deletion record', async () => {
+      mockPool.query.mockResolvedValueOnce({
+        rows: [{ deleted_at: deletedAt, deleted_by: 'creator', deletion_reason: null }],
+      } as any);
+
+      expect(await repository.findDeletion('game-1')).toEqual({
+        deletedBy: 'creator',
+        deletedAt,
+      });
+    });
+
+    it('should write and read moderation log entries', async () => {
+      const entry = {
+        entryId: 'entry-1',
+        gameId: 'game-1',
+        action: ModerationAction.ADJUDICATE,
+        actorId: 'admin',
+        asAdmin: true,
+        reason: 'Opponent disconnected',
+        details: { winner: 'player1' },
+        createdAt: deletedAt,
+      };
+      mockPool.query.mockResolvedValueOnce({ rows: [], rowCount: 1 } as any);
+
+      await repository.appendModerationEntry(entry);
+
+      expect(mockPool.query).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO game_moderation_log'),
+        [
+          'entry-1',
+          'game-1',
+          'adjudicate',
+          'admin',
+          true,
+          'Opponent disconnected',
+          JSON.stringify({ winner: 'player1' }),
+          deletedAt,
+        ]
+      );
+
+      mockPool.query.mockResolvedValueOnce({
+        rows: [
+          {
+            entry_id: 'entry-1',
+            game_id: 'game-1',
+            action: 'adjudicate',
+            actor_id: 'admin',
+            as_admin: true,
+            reason: 'Opponent disconnected',
+            details: { winner: 'player1' },
+            created_at: deletedAt,
+          },
+        ],
+      } as any);
+
+      expect(await repository.getModerationLog('game-1')).toEqual([entry]);
     });
   });
 
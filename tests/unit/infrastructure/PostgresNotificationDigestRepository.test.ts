@@ -0,0 +1,119 @@
+import { PostgresNotificationDigestRepository } from '@infrastructure/persistence/PostgresNotificationDigestRepository';
+import { NotificationType, TurnNotificationData } from '@domain/interfaces/INotificationChannel';
+import { Pool } from 'pg';
+
+// Mock the pg module
+jest.mock('pg', () => {
+  const mPool = {
+    connect: jest.fn(),
+    query: jest.fn(),
+    end: jest.fn(),
+    on: jest.fn(),
+  };
+  return { Pool: jest.fn(() => mPool) };
+});
+
+describe('PostgresNotificationDigestRepository', () => {
+  let repository: PostgresNotificationDigestRepository;
+  let mockPool: any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    const PoolConstructor = Pool as unknown as jest.Mock;
+    mockPool = PoolConstructor();
+    repository = new PostgresNotificationDigestRepository('postgresql://localhost:5432/test');
+  });
+
+  describe('add', () => {
+    it('should store the notification as a pending email', async () => {
+      mockPool.query.mockResolvedValue({ rows: [], rowCount: 1 });
+      const notification: TurnNotificationData = {
+        type: NotificationType.TURN,
+        userId: 'alice',
+        gameId: 'game-1',
+        currentPlayer: 'alice',
+        message: "It's your turn in game game-1",
+        metadata: { moveNumber: 3 },
+      };
+
+      await repository.add(notification);
+
+      const [sql, params] = mockPool.query.mock.calls[0];
+      expect(sql).toContain("'pending', 'email'");
+      expect(params).toEqual([
+        'alice',
+        'game-1',
+        'turn',
+        "It's your turn in game game-1",
+        JSON.stringify({ moveNumber: 3, currentPlayer: 'alice' }),
+      ]);
+    });
+
+    it('should rethrow database errors', async () => {
+      mockPool.query.mockRejectedValue(new Error('connection lost'));
+
+      await expect(
+        repository.add({
+          type: NotificationType.TURN,
+          userId: 'alice',
+          gameId: 'game-1',
+          message: 'turn',
+        })
+      ).rejects.toThrow('connection lost');
+    });
+  });
+
+  describe('findPending', () => {
+    it('should return pending email notifications oldest first', async () => {
+      const createdAt = new Date('2025-01-01T00:00:00.000Z');
+      mockPool.query.mockResolvedValue({
+        rows: [
+          {
+            notification_id: 'n-1',
+            user_id: 'alice',
+            game_id: 'game-1',
+            notification_type: 'turn',
+            message: 'turn',
+            metadata: null,
+            created_at: createdAt,
+          },
+        ],
+      });
+
+      const pending = await repository.findPending();
+
+      expect(mockPool.query.mock.calls[0][0]).toMatch(
+        /WHERE channel = 'email' AND status = 'pending'\s+ORDER BY created_at ASC/
+      );
+      expect(pending).toEqual([
+        {
+          notificationId: 'n-1',
+          userId: 'alice',
+          gameId: 'game-1',
+          type: NotificationType.TURN,
+          message: 'turn',
+          metadata: {},
+          createdAt,
+        },
+      ]);
+    });
+  });
+
+  describe('markSent', () => {
+    it('should mark the notifications as sent', async () => {
+      mockPool.query.mockResolvedValue({ rows: [], rowCount: 2 });
+
+      await repository.markSent(['n-1', 'n-2']);
+
+      const [sql, params] = mockPool.query.mock.calls[0];
+      expect(sql).toContain("SET status = 'sent', sent_at = NOW()");
+      expect(params).toEqual([['n-1', 'n-2']]);
+    });
+
+    it('should not query for an empty list', async () => {
+      await repository.markSent([]);
+
+      expect(mockPool.query).not.toHaveBeenCalled();
+    });
+  });
+});
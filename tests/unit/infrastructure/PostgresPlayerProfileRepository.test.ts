@@ -253,6 +253,36 @@ describe('PostgresPlayerProfileRepository', () => {
       expect(result.updatedAt).toEqual(later);
     });
 
+    it('should store notification preferences and keep the display name', async () => {
+      const now = new Date('2025-01-01T00:00:00.000Z');
+      const notificationPreferences = {
+        channels: ['email' as const],
+        email: 'user@example.com',
+        emailDigest: true,
+      };
+      mockPool.query.mockResolvedValueOnce({
+        rows: [
+          {
+            user_id: 'user_123',
+            display_name: 'testuser',
+            created_at: now,
+            updated_at: now,
+            notification_preferences: notificationPreferences,
+          },
+        ],
+        rowCount: 1,
+      });
+
+      const result = await repository.update('user_123', { notificationPreferences });
+
+      expect(mockPool.query).toHaveBeenCalledWith(
+        expect.stringContaining('COALESCE($1, display_name)'),
+        [null, 'user_123', JSON.stringify(notificationPreferences)]
+      );
+      expect(result.displayName).toBe('testuser');
+      expect(result.notificationPreferences).toEqual(notificationPreferences);
+    });
+
     it('should throw error when user not found', async () => {
       mockPool.query.mockResolvedValueOnce({
         rows: [],
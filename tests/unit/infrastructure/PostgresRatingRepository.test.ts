@@ -0,0 +1,237 @@
+import { PostgresRatingRepository } from '@infrastructure/persistence/PostgresRatingRepository';
+import { PlayerRating } from '@domain/models';
+import { Pool } from 'pg';
+
+// Mock the pg module
+jest.mock('pg', () => {
+  const mPool = {
+    connect: jest.fn(),
+    query: jest.fn(),
+    end: jest.fn(),
+    on: jest.fn(),
+  };
+  return { Pool: jest.fn(() => mPool) };
+});
+
+describe('PostgresRatingRepository', () => {
+  let repository: PostgresRatingRepository;
+  let mockPool: any;
+  let mockClient: any;
+
+  const updatedAt = new Date('2025-01-01T00:00:00.000Z');
+
+  const ratingRow = (userId: string, rating: number, gamesPlayed: number = 0) => ({
+    user_id: userId,
+    game_type: 'tic-tac-toe',
+    rating,
+    deviation: 350,
+    volatility: 0.06,
+    games_played: gamesPlayed,
+    updated_at: updatedAt,
+  });
+
+  /**
+   * Answer client queries by matching a fragment of their SQL
+   */
+  const respondTo = (responses: Record<string, any>) => {
+    mockClient.query.mockImplementation(async (sql: string) => {
+      const key = Object.keys(responses).find((fragment) => sql.includes(fragment));
+      return key ? responses[key] : { rows: [], rowCount: 0 };
+    });
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    const PoolConstructor = Pool as unknown as jest.Mock;
+    mockPool = PoolConstructor();
+    mockClient = { query: jest.fn(), release: jest.fn() };
+    mockPool.connect.mockResolvedValue(mockClient);
+    repository = new PostgresRatingRepository('postgresql://localhost:5432/test');
+  });
+
+  describe('constructor', () => {
+    it('should create a pool with the connection string and pool size', () => {
+      new PostgresRatingRepository('postgresql://localhost:5432/test', 5);
+
+      expect(Pool).toHaveBeenCalledWith({
+        connectionString: 'postgresql://localhost:5432/test',
+        max: 5,
+        idleTimeoutMillis: 10000,
+        connectionTimeoutMillis: 30000,
+      });
+      expect(mockPool.on).toHaveBeenCalledWith('error', expect.any(Function));
+    });
+  });
+
+  describe('applyGameRatings', () => {
+    const raise = (current: Map<string, PlayerRating>): PlayerRating[] =>
+      Array.from(current.values()).map((rating) => ({
+        ...rating,
+        rating: rating.rating + 10,
+        gamesPlayed: rating.gamesPlayed + 1,
+        updatedAt,
+      }));
+
+    it('should lock current ratings and write new ratings and history in one transaction', async () => {
+      respondTo({
+        'FOR UPDATE': { rows: [ratingRow('alice', 1500), ratingRow('bob', 1600, 3)] },
+      });
+
+      const history = await repository.applyGameRatings(
+        'game-1',
+        'tic-tac-toe',
+        ['bob', 'alice'],
+        raise
+      );
+
+      const statements = mockClient.query.mock.calls.map(([sql]: [string]) => sql);
+      expect(statements[0]).toBe('BEGIN');
+      expect(statements[statements.length - 1]).toBe('COMMIT');
+      expect(mockClient.query).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO player_ratings'),
+        [['alice', 'bob'], 'tic-tac-toe', 1500, 350, 0.06]
+      );
+      expect(mockClient.query).toHaveBeenCalledWith(
+        expect.stringContaining('UPDATE player_ratings'),
+        ['bob', 'tic-tac-toe', 1610, 350, 0.06, 4, updatedAt]
+      );
+      expect(mockClient.query).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO rating_history'),
+        ['game-1', 'alice', 'tic-tac-toe', 1510, 350, 10, updatedAt]
+      );
+      expect(history).toEqual([
+        {
+          userId: 'alice',
+          gameType: 'tic-tac-toe',
+          gameId: 'game-1',
+          rating: 1510,
+          deviation: 350,
+          ratingChange: 10,
+          createdAt: updatedAt,
+        },
+        expect.objectContaining({ userId: 'bob', rating: 1610, ratingChange: 10 }),
+      ]);
+      expect(mockClient.release).toHaveBeenCalled();
+    });
+
+    it('should skip games that were already rated', async () => {
+      respondTo({ 'FROM rating_history': { rows: [{ '?column?': 1 }] } });
+      const calculate = jest.fn();
+
+      const history = await repository.applyGameRatings(
+        'game-1',
+        'tic-tac-toe',
+        ['alice'],
+        calculate
+      );
+
+      expect(history).toEqual([]);
+      expect(calculate).not.toHaveBeenCalled();
+      expect(mockClient.query).toHaveBeenCalledWith('ROLLBACK');
+      expect(mockClient.query).not.toHaveBeenCalledWith(
+        expect.stringContaining('UPDATE player_ratings'),
+        expect.anything()
+      );
+    });
+
+    it('should roll back and rethrow on failure', async () => {
+      mockClient.query.mockImplementation(async (sql: string) => {
+        if (sql.includes('INSERT INTO rating_history')) {
+          throw new Error('Connection lost');
+        }
+        return sql.includes('FOR UPDATE') ? { rows: [ratingRow('alice', 1500)] } : { rows: [] };
+      });
+
+      await expect(
+        repository.applyGameRatings('game-1', 'tic-tac-toe', ['alice'], raise)
+      ).rejects.toThrow('Connection lost');
+      expect(mockClient.query).toHaveBeenCalledWith('ROLLBACK');
+      expect(mockClient.query).not.toHaveBeenCalledWith('COMMIT');
+      expect(mockClient.release).toHaveBeenCalled();
+    });
+  });
+
+  describe('findByPlayer', () => {
+    it('should return ratings for every game type', async () => {
+      mockPool.query.mockResolvedValueOnce({
+        rows: [ratingRow('alice', '1612.5' as any, 4)],
+      });
+
+      const ratings = await repository.findByPlayer('alice');
+
+      expect(mockPool.query).toHaveBeenCalledWith(expect.stringContaining('player_ratings'), [
+        'alice',
+      ]);
+      expect(ratings).toEqual([
+        {
+          userId: 'alice',
+          gameType: 'tic-tac-toe',
+          rating: 1612.5,
+          deviation: 350,
+          volatility: 0.06,
+          gamesPlayed: 4,
+          updatedAt,
+        },
+      ]);
+    });
+  });
+
+  describe('getHistory', () => {
+    const historyRow = {
+      game_id: 'game-1',
+      user_id: 'alice',
+      game_type: 'tic-tac-toe',
+      rating: 1662.3,
+      deviation: 290.3,
+      rating_change: 162.3,
+      created_at: updatedAt,
+    };
+
+    it('should return history oldest first', async () => {
+      mockPool.query.mockResolvedValueOnce({ rows: [historyRow] });
+
+      const history = await repository.getHistory('alice');
+
+      expect(mockPool.query).toHaveBeenCalledWith(
+        expect.stringContaining('ORDER BY created_at ASC'),
+        ['alice']
+      );
+      expect(history).toEqual([
+        {
+          userId: 'alice',
+          gameType: 'tic-tac-toe',
+          gameId: 'game-1',
+          rating: 1662.3,
+          deviation: 290.3,
+          ratingChange: 162.3,
+          createdAt: updatedAt,
+        },
+      ]);
+    });
+
+    it('should filter by game type', async () => {
+      mockPool.query.mockResolvedValueOnce({ rows: [] });
+
+      await repository.getHistory('alice', 'connect-four');
+
+      expect(mockPool.query).toHaveBeenCalledWith(expect.stringContaining('game_type = $2'), [
+        'alice',
+        'connect-four',
+      ]);
+    });
+
+    it('should rethrow database errors', async () => {
+      mockPool.query.mockRejectedValueOnce(new Error('Database error'));
+
+      await expect(repository.getHistory('alice')).rejects.toThrow('Database error');
+    });
+  });
+
+  describe('close', () => {
+    it('should close the connection pool', async () => {
+      await repository.close();
+
+      expect(mockPool.end).toHaveBeenCalled();
+    });
+  });
+});
@@ -341,6 +341,80 @@ describe('PostgresStatsRepository', () => {
       expect(leaderboard).toHaveLength(2);
     });
 
+    describe('ratings', () => {
+      const games = {
+        rows: [
+          {
+            game_id: 'game_1',
+            winner: 'user_1',
+            state: {
+              players: [
+                { id: 'user_1', metadata: {} },
+                { id: 'user_2', metadata: {} },
+              ],
+            },
+          },
+          {
+            game_id: 'game_2',
+            winner: 'user_3',
+            state: {
+              players: [
+                { id: 'user_2', metadata: {} },
+                { id: 'user_3', metadata: {} },
+              ],
+            },
+          },
+        ],
+      };
+      const profiles = {
+        rows: [
+          { user_id: 'user_1', display_name: 'alice', rating: 1520.5 },
+          { user_id: 'user_2', display_name: 'bob', rating: null },
+          { user_id: 'user_3', display_name: 'charlie', rating: 1690.25 },
+        ],
+      };
+
+      it('should include each player rating, defaulting unrated players', async () => {
+        mockPool.query.mockResolvedValueOnce(games).mockResolvedValueOnce(profiles);
+
+        const leaderboard = await repository.getLeaderboard();
+
+        const ratings = Object.fromEntries(leaderboard.map((e) => [e.userId, e.rating]));
+        expect(ratings).toEqual({ user_1: 1520.5, user_2: 1500, user_3: 1690.25 });
+        expect(mockPool.query).toHaveBeenLastCalledWith(expect.stringContaining('MAX(rating)'), [
+          ['user_1', 'user_2', 'user_3'],
+        ]);
+      });
+
+      it('should use ratings for the requested game type', async () => {
+        mockPool.query.mockResolvedValueOnce(games).mockResolvedValueOnce(profiles);
+
+        await repository.getLeaderboard('connect-four');
+
+        expect(mockPool.query).toHaveBeenLastCalledWith(expect.stringContaining('player_ratings'), [
+          ['user_1', 'user_2', 'user_3'],
+          'connect-four',
+        ]);
+      });
+
+      it('should sort by rating when requested', async () => {
+        mockPool.query.mockResolvedValueOnce(games).mockResolvedValueOnce(profiles);
+
+        const leaderboard = await repository.getLeaderboard(undefined, 100, 'rating');
+
+        expect(leaderboard.map((e) => e.userId)).toEqual(['user_3', 'user_1', 'user_2']);
+        expect(leaderboard.map((e) => e.rank)).toEqual([1, 2, 3]);
+      });
+
+      it('should keep sorting by win rate by default', async () => {
+        mockPool.query.mockResolvedValueOnce(games).mockResolvedValueOnce(profiles);
+
+        const leaderboard = await repository.getLeaderboard();
+
+        expect(leaderboard.map((e) => e.userId)).toEqual(['user_1', 'user_3', 'user_2']);
+      });
+    });
+
     it('should use default limit of 100 when not specified', async () => {
       // Mock the games query (empty result)
       mockPool.query.mockResolvedValueOnce({
@@ -394,7 +468,7 @@ describe('PostgresStatsRepository', () => {
       const history = await repository.getGameHistory('user_123');
 
       expect(mockPool.query).toHaveBeenCalledWith(
-        expect.stringContaining("EXISTS ("),
+        expect.stringContaining('EXISTS ('),
         expect.arrayContaining(['user_123'])
       );
       expect(history).toEqual([]);
@@ -464,6 +538,31 @@ describe('PostgresStatsRepository', () => {
     });
   });
 
+  describe('soft-deleted games', () => {
+    beforeEach(() => {
+      repository = new PostgresStatsRepository('postgresql://localhost:5432/test');
+      jest.clearAllMocks(); // Clear mocks before each test
+    });
+
+    it('should leave deleted games out of stats, the leaderboard and the history', async () => {
+      mockPool.query.mockReset();
+      mockPool.query.mockResolvedValue({ rows: [] });
+      mockPool.query.mockResolvedValueOnce({ rows: [{ total_games: 0 }] });
+
+      await repository.getPlayerStats('user_123');
+      await repository.getLeaderboard();
+      await repository.getGameHistory('user_123');
+
+      const gameQueries = mockPool.query.mock.calls
+        .map(([sql]: [string]) => sql)
+        .filter((sql: string) => sql.includes('FROM games'));
+      expect(gameQueries).toHaveLength(3);
+      for (const sql of gameQueries) {
+        expect(sql).toContain('deleted_at IS NULL');
+      }
+    });
+  });
+
   describe('close', () => {
     beforeEach(() => {
       repository = new PostgresStatsRepository('postgresql://localhost:5432/test');
@@ -0,0 +1,162 @@
+import { PostgresTournamentRepository } from '@infrastructure/persistence/PostgresTournamentRepository';
+import { Tournament, TournamentFormat, TournamentStatus } from '@domain/models';
+import { Pool } from 'pg';
+
+// Mock the pg module
+jest.mock('pg', () => {
+  const mPool = {
+    connect: jest.fn(),
+    query: jest.fn(),
+    end: jest.fn(),
+    on: jest.fn(),
+  };
+  return { Pool: jest.fn(() => mPool) };
+});
+
+describe('PostgresTournamentRepository', () => {
+  let repository: PostgresTournamentRepository;
+  let mockPool: any;
+
+  const createdAt = new Date('2025-01-01T00:00:00.000Z');
+
+  const tournament: Tournament = {
+    tournamentId: 't1',
+    name: 'Office Cup',
+    gameType: 'tic-tac-toe',
+    format: TournamentFormat.KNOCKOUT,
+    status: TournamentStatus.IN_PROGRESS,
+    createdBy: 'organiser',
+    participants: [
+      { id: 'p1', name: 'One', seed: 1 },
+      { id: 'p2', name: 'Two', seed: 2 },
+    ],
+    totalRounds: 1,
+    rounds: [
+      { number: 1, matches: [{ matchId: 'm1', round: 1, player1Id: 'p1', player2Id: 'p2' }] },
+    ],
+    winnerId: null,
+    createdAt,
+    updatedAt: createdAt,
+  };
+
+  const tournamentRow = {
+    tournament_id: 't1',
+    name: 'Office Cup',
+    game_type: 'tic-tac-toe',
+    format: 'knockout',
+    status: 'in_progress',
+    created_by: 'organiser',
+    state: {
+      participants: tournament.participants,
+      rounds: tournament.rounds,
+      totalRounds: 1,
+      winnerId: null,
+    },
+    created_at: createdAt,
+    updated_at: createdAt,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    const PoolConstructor = Pool as unknown as jest.Mock;
+    mockPool = PoolConstructor();
+    repository = new PostgresTournamentRepository('postgresql://localhost:5432/test');
+  });
+
+  describe('create', () => {
+    it('should insert the tournament with its participants and rounds as state', async () => {
+      mockPool.query.mockResolvedValue({ rows: [tournamentRow] });
+
+      const created = await repository.create(tournament);
+
+      const [sql, params] = mockPool.query.mock.calls[0];
+      expect(sql).toContain('INSERT INTO tournaments');
+      expect(params.slice(0, 6)).toEqual([
+        't1',
+        'Office Cup',
+        'tic-tac-toe',
+        'knockout',
+        'in_progress',
+        'organiser',
+      ]);
+      expect(JSON.parse(params[6])).toMatchObject({
+        participants: tournament.participants,
+        rounds: tournament.rounds,
+        totalRounds: 1,
+      });
+      expect(created).toEqual(tournament);
+    });
+
+    it('should rethrow database errors', async () => {
+      mockPool.query.mockRejectedValue(new Error('connection lost'));
+
+      await expect(repository.create(tournament)).rejects.toThrow('connection lost');
+    });
+  });
+
+  describe('findById', () => {
+    it('should return null when the tournament does not exist', async () => {
+      mockPool.query.mockResolvedValue({ rows: [] });
+
+      await expect(repository.findById('missing')).resolves.toBeNull();
+    });
+
+    it('should deserialize the stored tournament', async () => {
+      mockPool.query.mockResolvedValue({ rows: [tournamentRow] });
+
+      await expect(repository.findById('t1')).resolves.toEqual(tournament);
+    });
+  });
+
+  describe('findAll', () => {
+    it('should list newest first', async () => {
+      mockPool.query.mockResolvedValue({ rows: [tournamentRow] });
+
+      const tournaments = await repository.findAll();
+
+      expect(mockPool.query).toHaveBeenCalledWith(
+        'SELECT * FROM tournaments ORDER BY created_at DESC',
+        []
+      );
+      expect(tournaments).toHaveLength(1);
+    });
+
+    it('should filter by status', async () => {
+      mockPool.query.mockResolvedValue({ rows: [] });
+
+      await repository.findAll(TournamentStatus.COMPLETED);
+
+      expect(mockPool.query).toHaveBeenCalledWith(
+        'SELECT * FROM tournaments WHERE status = $1 ORDER BY created_at DESC',
+        ['completed']
+      );
+    });
+  });
+
+  describe('update', () => {
+    it('should store the new status and state', async () => {
+      mockPool.query.mockResolvedValue({ rows: [tournamentRow] });
+
+      await repository.update(tournament);
+
+      const [sql, params] = mockPool.query.mock.calls[0];
+      expect(sql).toContain('UPDATE tournaments');
+      expect(params[0]).toBe('t1');
+      expect(params[1]).toBe('in_progress');
+    });
+
+    it('should throw when the tournament does not exist', async () => {
+      mockPool.query.mockResolvedValue({ rows: [] });
+
+      await expect(repository.update(tournament)).rejects.toThrow('Tournament t1 not found');
+    });
+  });
+
+  describe('close', () => {
+    it('should end the pool', async () => {
+      await repository.close();
+
+      expect(mockPool.end).toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,216 @@
+import { PostgresWebhookRepository } from '@infrastructure/persistence/PostgresWebhookRepository';
+import { Webhook, WebhookDelivery, WebhookDeliveryStatus, WebhookEventType } from '@domain/models';
+import { Pool } from 'pg';
+
+// Mock the pg module
+jest.mock('pg', () => {
+  const mPool = {
+    connect: jest.fn(),
+    query: jest.fn(),
+    end: jest.fn(),
+    on: jest.fn(),
+  };
+  return { Pool: jest.fn(() => mPool) };
+});
+
+describe('PostgresWebhookRepository', () => {
+  const createdAt = new Date('2026-01-01T00:00:00Z');
+  let repository: PostgresWebhookRepository;
+  let mockPool: any;
+
+  const webhook: Webhook = {
+    webhookId: 'hook-1',
+    ownerId: 'alice',
+    url: 'https://example.com/hooks',
+    secret: 'secret',
+    eventTypes: [WebhookEventType.MOVE_APPLIED],
+    gameType: 'tic-tac-toe',
+    createdAt,
+  };
+
+  const delivery: WebhookDelivery = {
+    deliveryId: 'delivery-1',
+    webhookId: 'hook-1',
+    event: {
+      eventId: 'event-1',
+      type: WebhookEventType.MOVE_APPLIED,
+      gameId: 'game-1',
+      gameType: 'tic-tac-toe',
+      occurredAt: createdAt,
+      data: { playerId: 'alice' },
+    },
+    status: WebhookDeliveryStatus.PENDING,
+    attempts: 0,
+    nextAttemptAt: createdAt,
+    createdAt,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    const PoolConstructor = Pool as unknown as jest.Mock;
+    mockPool = PoolConstructor();
+    repository = new PostgresWebhookRepository('postgresql://localhost:5432/test');
+  });
+
+  describe('create', () => {
+    it('should insert the webhook with null for missing filters', async () => {
+      mockPool.query.mockResolvedValue({ rows: [], rowCount: 1 });
+
+      await expect(repository.create(webhook)).resolves.toEqual(webhook);
+
+      const [sql, params] = mockPool.query.mock.calls[0];
+      expect(sql).toContain('INSERT INTO webhooks');
+      expect(params).toEqual([
+        'hook-1',
+        'alice',
+        'https://example.com/hooks',
+        'secret',
+        ['move.applied'],
+        null,
+        'tic-tac-toe',
+        createdAt,
+      ]);
+    });
+
+    it('should rethrow database errors', async () => {
+      mockPool.query.mockRejectedValue(new Error('connection lost'));
+
+      await expect(repository.create(webhook)).rejects.toThrow('connection lost');
+    });
+  });
+
+  describe('findById', () => {
+    it('should deserialize the row', async () => {
+      mockPool.query.mockResolvedValue({
+        rows: [
+          {
+            webhook_id: 'hook-1',
+            owner_id: 'alice',
+            url: 'https://example.com/hooks',
+            secret: 'secret',
+            event_types: ['move.applied'],
+            game_id: null,
+            game_type: 'tic-tac-toe',
+            created_at: createdAt,
+          },
+        ],
+      });
+
+      expect(await repository.findById('hook-1')).toEqual(webhook);
+    });
+
+    it('should return null when the webhook does not exist', async () => {
+      mockPool.query.mockResolvedValue({ rows: [] });
+
+      expect(await repository.findById('missing')).toBeNull();
+    });
+  });
+
+  describe('findAll', () => {
+    it('should filter by owner when given', async () => {
+      mockPool.query.mockResolvedValue({ rows: [] });
+
+      await repository.findAll('alice');
+      await repository.findAll();
+
+      expect(mockPool.query.mock.calls[0][0]).toContain('WHERE owner_id = $1');
+      expect(mockPool.query.mock.calls[0][1]).toEqual(['alice']);
+      expect(mockPool.query.mock.calls[1][0]).not.toContain('WHERE');
+    });
+  });
+
+  describe('findForEvent', () => {
+    it('should query by event type and the game filters', async () => {
+      mockPool.query.mockResolvedValue({
+        rows: [
+          {
+            webhook_id: 'hook-1',
+            owner_id: 'alice',
+            url: 'https://example.com/hooks',
+            secret: 'secret',
+            event_types: ['move.applied'],
+            game_id: null,
+            game_type: 'tic-tac-toe',
+            created_at: createdAt,
+          },
+        ],
+      });
+
+      const webhooks = await repository.findForEvent(
+        WebhookEventType.MOVE_APPLIED,
+        'game-1',
+        'tic-tac-toe'
+      );
+
+      expect(webhooks).toEqual([webhook]);
+      const [sql, params] = mockPool.query.mock.calls[0];
+      expect(sql).toContain('event_types @> ARRAY[$1]::text[]');
+      expect(sql).toContain('(game_id IS NULL OR game_id = $2)');
+      expect(sql).toContain('(game_type IS NULL OR game_type = $3)');
+      expect(params).toEqual(['move.applied', 'game-1', 'tic-tac-toe']);
+    });
+  });
+
+  describe('saveDelivery', () => {
+    it('should upsert the delivery with the event as JSON', async () => {
+      mockPool.query.mockResolvedValue({ rows: [], rowCount: 1 });
+
+      await repository.saveDelivery(delivery);
+
+      const [sql, params] = mockPool.query.mock.calls[0];
+      expect(sql).toContain('ON CONFLICT (delivery_id) DO UPDATE');
+      expect(params).toEqual([
+        'delivery-1',
+        'hook-1',
+        JSON.stringify(delivery.event),
+        'pending',
+        0,
+        createdAt,
+        null,
+        null,
+        createdAt,
+        null,
+      ]);
+    });
+  });
+
+  describe('findDueDeliveries', () => {
+    it('should query pending deliveries that are due and revive the event date', async () => {
+      mockPool.query.mockResolvedValue({
+        rows: [
+          {
+            delivery_id: 'delivery-1',
+            webhook_id: 'hook-1',
+            event: { ...delivery.event, occurredAt: createdAt.toISOString() },
+            status: 'pending',
+            attempts: 0,
+            next_attempt_at: createdAt,
+            last_status_code: null,
+            last_error: null,
+            created_at: createdAt,
+            delivered_at: null,
+          },
+        ],
+      });
+
+      const now = new Date('2026-01-01T00:01:00Z');
+      expect(await repository.findDueDeliveries(now, 50)).toEqual([delivery]);
+
+      const [sql, params] = mockPool.query.mock.calls[0];
+      expect(sql).toContain('next_attempt_at <= $2');
+      expect(params).toEqual(['pending', now, 50]);
+    });
+  });
+
+  describe('findDeliveries', () => {
+    it("should list the webhook's deliveries newest first", async () => {
+      mockPool.query.mockResolvedValue({ rows: [] });
+
+      await repository.findDeliveries('hook-1', 20);
+
+      const [sql, params] = mockPool.query.mock.calls[0];
+      expect(sql).toContain('ORDER BY created_at DESC');
+      expect(params).toEqual(['hook-1', 20]);
+    });
+  });
+});
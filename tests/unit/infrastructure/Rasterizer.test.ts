@@ -0,0 +1,146 @@
+import { rasterize, RasterImage } from '@infrastructure/rendering/Rasterizer';
+import { BoardRenderData, RenderElement } from '@domain/interfaces';
+
+describe('Rasterizer', () => {
+  const board = (elements: RenderElement[], backgroundColor?: string): BoardRenderData => ({
+    viewBox: { width: 20, height: 20 },
+    backgroundColor,
+    spaces: [],
+    layers: [{ name: 'test', zIndex: 0, elements }],
+  });
+
+  const pixel = (image: RasterImage, x: number, y: number): number[] =>
+    Array.from(image.data.subarray((y * image.width + x) * 4, (y * image.width + x) * 4 + 4));
+
+  it('should fill the canvas with the background colour, defaulting to white', () => {
+    expect(pixel(rasterize(board([])), 5, 5)).toEqual([255, 255, 255, 255]);
+    expect(pixel(rasterize(board([], '#00f')), 5, 5)).toEqual([0, 0, 255, 255]);
+  });
+
+  it('should use the requested output size', () => {
+    const image = rasterize(board([]), { width: 30, height: 40 });
+
+    expect(image.width).toBe(30);
+    expect(image.height).toBe(40);
+    expect(image.data).toHaveLength(30 * 40 * 4);
+  });
+
+  it('should fill and stroke rectangles', () => {
+    const image = rasterize(
+      board([
+        {
+          type: 'rect',
+          attributes: {
+            x: 4,
+            y: 4,
+            width: 12,
+            height: 12,
+            fill: '#ff0000',
+            stroke: '#000000',
+            strokeWidth: 2,
+          },
+        },
+      ])
+    );
+
+    expect(pixel(image, 10, 10)).toEqual([255, 0, 0, 255]);
+    expect(pixel(image, 4, 10)).toEqual([0, 0, 0, 255]);
+    expect(pixel(image, 1, 1)).toEqual([255, 255, 255, 255]);
+  });
+
+  it('should leave rounded corners unfilled', () => {
+    const image = rasterize(
+      board([
+        { type: 'rect', attributes: { x: 0, y: 0, width: 20, height: 20, rx: 8, fill: 'black' } },
+      ])
+    );
+
+    expect(pixel(image, 0, 0)).toEqual([255, 255, 255, 255]);
+    expect(pixel(image, 10, 0)).toEqual([0, 0, 0, 255]);
+  });
+
+  it('should fill circles', () => {
+    const image = rasterize(
+      board([{ type: 'circle', attributes: { cx: 10, cy: 10, r: 5, fill: 'rgb(0, 128, 0)' } }])
+    );
+
+    expect(pixel(image, 10, 10)).toEqual([0, 128, 0, 255]);
+    expect(pixel(image, 2, 2)).toEqual([255, 255, 255, 255]);
+  });
+
+  it('should stroke straight-line paths without filling them', () => {
+    const image = rasterize(
+      board([
+        {
+          type: 'path',
+          attributes: { d: 'M 0 10 L 20 10', stroke: '#000', strokeWidth: 2, fill: 'none' },
+        },
+      ])
+    );
+
+    expect(pixel(image, 10, 9)).toEqual([0, 0, 0, 255]);
+    expect(pixel(image, 10, 5)).toEqual([255, 255, 255, 255]);
+  });
+
+  it('should fill closed paths', () => {
+    const image = rasterize(
+      board([{ type: 'path', attributes: { d: 'M 2 2 h 16 v 16 h -16 Z', fill: '#123456' } }])
+    );
+
+    expect(pixel(image, 10, 10)).toEqual([0x12, 0x34, 0x56, 255]);
+  });
+
+  it('should blend elements with opacity', () => {
+    const image = rasterize(
+      board([
+        {
+          type: 'rect',
+          attributes: { x: 0, y: 0, width: 20, height: 20, fill: '#000000', opacity: 0.5 },
+        },
+      ])
+    );
+
+    expect(pixel(image, 10, 10)).toEqual([128, 128, 128, 255]);
+  });
+
+  it('should draw text from textContent or the text attribute', () => {
+    const countDark = (image: RasterImage): number => {
+      let count = 0;
+      for (let i = 0; i < image.data.length; i += 4) {
+        if (image.data[i] === 0) count++;
+      }
+      return count;
+    };
+
+    const fromContent = rasterize(
+      board([{ type: 'text', attributes: { x: 2, y: 12, fontSize: 10 }, textContent: 'Hi' }])
+    );
+    const fromAttribute = rasterize(
+      board([{ type: 'text', attributes: { x: 2, y: 12, 'font-size': 10, text: 'Hi' } }])
+    );
+
+    expect(countDark(fromContent)).toBeGreaterThan(0);
+    expect(Array.from(fromAttribute.data)).toEqual(Array.from(fromContent.data));
+  });
+
+  it('should draw layers in z-index order', () => {
+    const image = rasterize({
+      viewBox: { width: 10, height: 10 },
+      spaces: [],
+      layers: [
+        {
+          name: 'top',
+          zIndex: 2,
+          elements: [{ type: 'rect', attributes: { width: 10, height: 10, fill: '#ffffff' } }],
+        },
+        {
+          name: 'bottom',
+          zIndex: 1,
+          elements: [{ type: 'rect', attributes: { width: 10, height: 10, fill: '#000000' } }],
+        },
+      ],
+    });
+
+    expect(pixel(image, 5, 5)).toEqual([255, 255, 255, 255]);
+  });
+});
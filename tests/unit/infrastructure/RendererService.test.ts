@@ -1,10 +1,11 @@
 import { RendererService } from '@infrastructure/rendering/RendererService';
+import { GameReplayService } from '@application/services/GameReplayService';
 import { PluginRegistry } from '@application/PluginRegistry';
 import { InMemoryGameRepository } from '@infrastructure/persistence/InMemoryGameRepository';
 import { TicTacToeEngine } from '@games/tic-tac-toe/engine';
-import { GameState, Player } from '@domain/models';
-import { BoardRenderData } from '@domain/interfaces';
-import { GameNotFoundError } from '@domain/errors';
+import { GameState, GameLifecycle, Player } from '@domain/models';
+import { BoardRenderData, GameEnginePlugin } from '@domain/interfaces';
+import { GameNotFoundError, InvalidGameActionError } from '@domain/errors';
 
 describe('RendererService', () => {
   let rendererService: RendererService;
@@ -123,6 +124,31 @@ describe('RendererService', () => {
       expect(afterRenderBoardSpy.mock.calls[0][0]).toEqual(gameState);
       expect(afterRenderBoardSpy.mock.calls[0][1]).toHaveProperty('viewBox');
     });
+
+    it("should render only the viewer's view of the game", async () => {
+      const players: Player[] = [
+        { id: 'p1', name: 'Alice', joinedAt: new Date() },
+        { id: 'p2', name: 'Bob', joinedAt: new Date() },
+      ];
+      const gameState = ticTacToeEngine.initializeGame(players, {});
+      const playerView = { ...gameState, metadata: { viewer: 'p1' } };
+      const spectatorView = { ...gameState, metadata: { viewer: 'spectator' } };
+      const plugin: GameEnginePlugin = ticTacToeEngine;
+      plugin.getPlayerView = jest.fn().mockReturnValue(playerView);
+      plugin.getSpectatorView = jest.fn().mockReturnValue(spectatorView);
+      const renderBoardSpy = jest.spyOn(ticTacToeEngine, 'renderBoard');
+
+      await rendererService.renderState(gameState, 'p1');
+      await rendererService.renderState(gameState, 'someone-else');
+      await rendererService.renderState(gameState);
+
+      expect(plugin.getPlayerView).toHaveBeenCalledWith(gameState, 'p1');
+      expect(renderBoardSpy.mock.calls.map(([state]) => state)).toEqual([
+        playerView,
+        spectatorView,
+        spectatorView,
+      ]);
+    });
   });
 
   describe('frame layer creation', () => {
@@ -499,4 +525,145 @@ describe('RendererService', () => {
       });
     });
   });
+
+  describe('renderReplay', () => {
+    const players: Player[] = [
+      { id: 'p1', name: 'Alice', joinedAt: new Date() },
+      { id: 'p2', name: 'Bob', joinedAt: new Date() },
+    ];
+
+    /**
+     * Save a tic-tac-toe game, play moves through the repository and finish it
+     */
+    async function playGame(
+      cells: Array<[number, number]>,
+      lifecycle: GameLifecycle = GameLifecycle.COMPLETED
+    ): Promise<GameState> {
+      let state = ticTacToeEngine.initializeGame(players, {});
+      await gameRepository.save(state);
+      for (const [index, [row, col]] of cells.entries()) {
+        const playerId = players[index % 2].id;
+        const next = ticTacToeEngine.applyMove(state, playerId, {
+          playerId,
+          timestamp: new Date(),
+          action: 'place',
+          parameters: { row, col },
+        });
+        state = await gameRepository.update(state.gameId, next, state.version);
+      }
+      return gameRepository.update(
+        state.gameId,
+        { ...state, lifecycle, version: state.version + 1 },
+        state.version
+      );
+    }
+
+    /**
+     * Count the frames of a GIF with the given delay in hundredths of a second
+     */
+    function countGifFrames(gif: Buffer, delay: number): number {
+      // Each frame starts with a graphic control extension carrying its delay
+      const controlExtension = Buffer.from([0x21, 0xf9, 0x04, 0x00, delay, 0]);
+      let frames = 0;
+      for (
+        let i = gif.indexOf(controlExtension);
+        i !== -1;
+        i = gif.indexOf(controlExtension, i + 1)
+      ) {
+        frames++;
+      }
+      return frames;
+    }
+
+    beforeEach(() => {
+      rendererService = new RendererService(
+        pluginRegistry,
+        gameRepository,
+        new GameReplayService(gameRepository, gameRepository, pluginRegistry)
+      );
+    });
+
+    it('should render one GIF frame per position', async () => {
+      const game = await playGame([
+        [0, 0],
+        [1, 1],
+      ]);
+
+      const gif = await rendererService.renderReplay(game.gameId, 'gif', 500);
+
+      expect(gif.toString('ascii', 0, 6)).toBe('GIF89a');
+      expect(countGifFrames(gif, 50)).toBe(3);
+    });
+
+    it('should refuse to export a game that has not finished', async () => {
+      const game = await playGame([[0, 0]], GameLifecycle.ACTIVE);
+
+      await expect(rendererService.renderReplay(game.gameId, 'gif')).rejects.toThrow(
+        InvalidGameActionError
+      );
+    });
+
+    it('should sample positions evenly when the game exceeds the pixel budget', async () => {
+      const game = await playGame([
+        [0, 0],
+        [1, 1],
+        [0, 1],
+        [2, 2],
+        [0, 2],
+      ]);
+      const { width, height } = ticTacToeEngine.renderBoard(game).viewBox;
+      rendererService = new RendererService(
+        pluginRegistry,
+        gameRepository,
+        new GameReplayService(gameRepository, gameRepository, pluginRegistry),
+        3 * width * (height + 40)
+      );
+
+      const gif = await rendererService.renderReplay(game.gameId, 'gif', 500);
+
+      expect(countGifFrames(gif, 50)).toBe(3);
+    });
+
+    it('should serve a finished replay from the cache', async () => {
+      const game = await playGame([[0, 0]]);
+      const replayService = new GameReplayService(gameRepository, gameRepository, pluginRegistry);
+      const getStateHistory = jest.spyOn(replayService, 'getStateHistory');
+      rendererService = new RendererService(pluginRegistry, gameRepository, replayService);
+
+      const first = await rendererService.renderReplay(game.gameId, 'gif', 500);
+      const second = await rendererService.renderReplay(game.gameId, 'gif', 500);
+      await rendererService.renderReplay(game.gameId, 'apng', 500);
+
+      expect(second).toBe(first);
+      expect(getStateHistory).toHaveBeenCalledTimes(2);
+    });
+
+    it('should render an APNG with the board and frame layer dimensions', async () => {
+      const game = await playGame([[0, 0]]);
+      const renderData = ticTacToeEngine.renderBoard(game);
+
+      const png = await rendererService.renderReplay(game.gameId, 'apng');
+
+      expect(png.toString('ascii', 12, 16)).toBe('IHDR');
+      expect(png.readUInt32BE(16)).toBe(renderData.viewBox.width);
+      expect(png.readUInt32BE(20)).toBe(renderData.viewBox.height + 40);
+      expect(png.toString('ascii', 37, 41)).toBe('acTL');
+      expect(png.readUInt32BE(41)).toBe(2);
+    });
+
+    it('should throw GameNotFoundError when game does not exist', async () => {
+      await expect(rendererService.renderReplay('non-existent-game', 'gif')).rejects.toThrow(
+        GameNotFoundError
+      );
+    });
+
+    it('should throw when no replay service is configured', async () => {
+      const game = await playGame([]);
+      rendererService = new RendererService(pluginRegistry, gameRepository);
+
+      await expect(rendererService.renderReplay(game.gameId, 'gif')).rejects.toThrow(
+        'Game history is not available'
+      );
+    });
+  });
 });
@@ -0,0 +1,173 @@
+import net from 'net';
+import { AddressInfo } from 'net';
+import { SmtpEmailTransport, SmtpError } from '@infrastructure/email/SmtpEmailTransport';
+import { EmailMessage } from '@domain/interfaces/IEmailTransport';
+
+/**
+ * Minimal SMTP server that records the conversation
+ * Replies can be overridden per command to simulate rejections.
+ */
+class FakeSmtpServer {
+  readonly commands: string[] = [];
+  readonly messages: string[] = [];
+  readonly replies: Record<string, string> = {};
+  private server: net.Server;
+
+  constructor() {
+    this.server = net.createServer((socket) => this.handle(socket));
+  }
+
+  async listen(): Promise<number> {
+    await new Promise<void>((resolve) => this.server.listen(0, '127.0.0.1', resolve));
+    return (this.server.address() as AddressInfo).port;
+  }
+
+  async close(): Promise<void> {
+    await new Promise<void>((resolve) => this.server.close(() => resolve()));
+  }
+
+  private handle(socket: net.Socket): void {
+    let buffer = '';
+    let inData = false;
+    socket.setEncoding('utf8');
+    socket.write('220 fake.smtp ESMTP\r\n');
+
+    socket.on('data', (chunk: string) => {
+      buffer += chunk;
+      let index: number;
+      while ((index = buffer.indexOf('\r\n')) !== -1) {
+        if (inData) {
+          const end = buffer.indexOf('\r\n.\r\n');
+          if (end === -1) {
+            return;
+          }
+          this.messages.push(buffer.slice(0, end + 2));
+          buffer = buffer.slice(end + 5);
+          inData = false;
+          socket.write('250 OK queued\r\n');
+          continue;
+        }
+
+        const line = buffer.slice(0, index);
+        buffer = buffer.slice(index + 2);
+        this.commands.push(line);
+        const verb = line.split(/[ :]/)[0].toUpperCase();
+
+        if (this.replies[verb]) {
+          socket.write(`${this.replies[verb]}\r\n`);
+        } else if (verb === 'EHLO') {
+          socket.write('250-fake.smtp\r\n250-8BITMIME\r\n250 AUTH PLAIN\r\n');
+        } else if (verb === 'AUTH') {
+          socket.write('235 Authentication successful\r\n');
+        } else if (verb === 'DATA') {
+          inData = true;
+          socket.write('354 End data with <CR><LF>.<CR><LF>\r\n');
+        } else if (verb === 'QUIT') {
+          socket.end('221 Bye\r\n');
+        } else {
+          socket.write('250 OK\r\n');
+        }
+      }
+    });
+  }
+}
+
+describe('SmtpEmailTransport', () => {
+  let server: FakeSmtpServer;
+  let port: number;
+
+  const message: EmailMessage = {
+    to: 'Alice <alice@example.com>',
+    from: 'Games <games@example.com>',
+    subject: 'Dein Zug – Partie 1',
+    text: 'Your move.\n.hidden line\nBye',
+  };
+
+  beforeEach(async () => {
+    server = new FakeSmtpServer();
+    port = await server.listen();
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it('should deliver the message and authenticate when credentials are set', async () => {
+    const transport = new SmtpEmailTransport({
+      host: '127.0.0.1',
+      port,
+      secure: false,
+      user: 'mailer',
+      password: 'secret',
+    });
+
+    await transport.send(message);
+
+    expect(server.commands).toEqual([
+      'EHLO localhost',
+      `AUTH PLAIN ${Buffer.from('\0mailer\0secret').toString('base64')}`,
+      'MAIL FROM:<games@example.com>',
+      'RCPT TO:<alice@example.com>',
+      'DATA',
+      'QUIT',
+    ]);
+
+    const [data] = server.messages;
+    expect(data).toContain('To: Alice <alice@example.com>\r\n');
+    expect(data).toContain(
+      `Subject: =?UTF-8?B?${Buffer.from(message.subject).toString('base64')}?=\r\n`
+    );
+    expect(data).toContain('\r\n\r\nYour move.\r\n..hidden line\r\nBye\r\n');
+  });
+
+  it('should skip authentication without credentials', async () => {
+    const transport = new SmtpEmailTransport({ host: '127.0.0.1', port, secure: false });
+
+    await transport.send(message);
+
+    expect(server.commands.some((command) => command.startsWith('AUTH'))).toBe(false);
+  });
+
+  it('should reject with the server reply and never include credentials', async () => {
+    server.replies.AUTH = '535 Authentication failed';
+    const transport = new SmtpEmailTransport({
+      host: '127.0.0.1',
+      port,
+      secure: false,
+      user: 'mailer',
+      password: 'secret',
+    });
+
+    const error = await transport.send(message).catch((e) => e);
+
+    expect(error).toBeInstanceOf(SmtpError);
+    expect(error.message).toBe('SMTP AUTH failed: 535 Authentication failed');
+  });
+
+  it('should reject recipients the server refuses', async () => {
+    server.replies.RCPT = '550 No such user';
+    const transport = new SmtpEmailTransport({ host: '127.0.0.1', port, secure: false });
+
+    await expect(transport.send(message)).rejects.toThrow('SMTP RCPT failed: 550 No such user');
+  });
+
+  it('should verify by opening a session', async () => {
+    const transport = new SmtpEmailTransport({ host: '127.0.0.1', port, secure: false });
+
+    expect(await transport.verify()).toBe(true);
+    expect(server.commands).toEqual(['EHLO localhost', 'QUIT']);
+  });
+
+  it('should fail verification when the server is unreachable', async () => {
+    await server.close();
+    server = new FakeSmtpServer();
+    const transport = new SmtpEmailTransport({
+      host: '127.0.0.1',
+      port,
+      secure: false,
+      timeoutMs: 1000,
+    });
+
+    expect(await transport.verify()).toBe(false);
+  });
+});
@@ -200,6 +200,52 @@ describe('WebSocketManager', () => {
     });
   });
 
+  describe('Observer Management', () => {
+    it('should track observers separately from subscribers', () => {
+      manager.subscribe('player1', 'game1');
+      manager.observe('viewer1', 'game1');
+      manager.observe('viewer2', 'game1');
+
+      expect(manager.getGameSubscriberCount('game1')).toBe(1);
+      expect(manager.getGameObserverCount('game1')).toBe(2);
+
+      manager.unobserve('viewer1', 'game1');
+
+      expect(manager.getGameObserverCount('game1')).toBe(1);
+      expect(manager.getGameSubscriberCount('game1')).toBe(1);
+    });
+
+    it('should broadcast game updates to observers as well as subscribers', async () => {
+      const playerWs = new MockWebSocket();
+      const viewerWs = new MockWebSocket();
+
+      manager.registerConnection('player1', 'conn1', playerWs as any);
+      manager.registerConnection('viewer1', 'conn2', viewerWs as any);
+      manager.subscribe('player1', 'game1');
+      manager.observe('viewer1', 'game1');
+
+      await manager.broadcastToGame('game1', {
+        type: WebSocketMessageType.GAME_UPDATE,
+        gameId: 'game1',
+        gameState: createTestGameState('game1'),
+        timestamp: new Date(),
+      } as GameUpdateMessage);
+
+      expect(playerWs.sentMessages).toHaveLength(1);
+      expect(viewerWs.sentMessages).toHaveLength(1);
+    });
+
+    it('should clean up observations when the last connection closes', () => {
+      const ws = new MockWebSocket();
+
+      manager.registerConnection('viewer1', 'conn1', ws as any);
+      manager.observe('viewer1', 'game1');
+      manager.unregisterConnection('conn1');
+
+      expect(manager.getGameObserverCount('game1')).toBe(0);
+    });
+  });
+
   describe('Broadcasting', () => {
     it('should broadcast game update to all subscribers', async () => {
       const ws1 = new MockWebSocket();
@@ -228,6 +274,29 @@ describe('WebSocketManager', () => {
       expect(ws2.sentMessages[0].type).toBe(WebSocketMessageType.GAME_UPDATE);
     });
 
+    it('should send each recipient their own copy when one is built for them', async () => {
+      const playerWs = new MockWebSocket();
+      const viewerWs = new MockWebSocket();
+      manager.registerConnection('player1', 'conn1', playerWs as any);
+      manager.registerConnection('viewer1', 'conn2', viewerWs as any);
+      manager.subscribe('player1', 'game1');
+      manager.observe('viewer1', 'game1');
+
+      const message: GameUpdateMessage = {
+        type: WebSocketMessageType.GAME_UPDATE,
+        gameId: 'game1',
+        gameState: createTestGameState('game1'),
+        timestamp: new Date(),
+      };
+      await manager.broadcastToGame('game1', message, (userId) => ({
+        ...message,
+        gameState: { ...message.gameState, metadata: { viewer: userId } },
+      }));
+
+      expect(playerWs.sentMessages[0].gameState.metadata).toEqual({ viewer: 'player1' });
+      expect(viewerWs.sentMessages[0].gameState.metadata).toEqual({ viewer: 'viewer1' });
+    });
+
     it('should not broadcast to unsubscribed users', async () => {
       const ws1 = new MockWebSocket();
       const ws2 = new MockWebSocket();
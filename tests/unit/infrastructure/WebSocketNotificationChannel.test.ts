@@ -0,0 +1,53 @@
+import { WebSocketNotificationChannel } from '@infrastructure/websocket/WebSocketNotificationChannel';
+import {
+  GameCompleteNotificationData,
+  NotificationType,
+  TurnNotificationData,
+} from '@domain/interfaces/INotificationChannel';
+import { IWebSocketService, WebSocketMessageType } from '@domain/interfaces/IWebSocketService';
+
+describe('WebSocketNotificationChannel', () => {
+  let webSocketService: jest.Mocked<Pick<IWebSocketService, 'sendToUser'>>;
+  let channel: WebSocketNotificationChannel;
+
+  beforeEach(() => {
+    webSocketService = { sendToUser: jest.fn().mockResolvedValue(undefined) };
+    channel = new WebSocketNotificationChannel(webSocketService as unknown as IWebSocketService);
+  });
+
+  it('should always be available', async () => {
+    expect(channel.getName()).toBe('websocket');
+    expect(await channel.isAvailable()).toBe(true);
+  });
+
+  it("should push turn notifications to the player's sockets", async () => {
+    const notification: TurnNotificationData = {
+      type: NotificationType.TURN,
+      userId: 'alice',
+      gameId: 'game-1',
+      currentPlayer: 'alice',
+      message: "It's your turn in game game-1",
+    };
+    await channel.send(notification);
+
+    expect(webSocketService.sendToUser).toHaveBeenCalledWith('alice', {
+      type: WebSocketMessageType.TURN_NOTIFICATION,
+      gameId: 'game-1',
+      currentPlayer: 'alice',
+      timestamp: expect.any(Date),
+    });
+  });
+
+  it('should ignore other notifications', async () => {
+    const notification: GameCompleteNotificationData = {
+      type: NotificationType.GAME_COMPLETE,
+      userId: 'alice',
+      gameId: 'game-1',
+      winner: null,
+      message: 'Game game-1 has ended in a draw',
+    };
+    await channel.send(notification);
+
+    expect(webSocketService.sendToUser).not.toHaveBeenCalled();
+  });
+});
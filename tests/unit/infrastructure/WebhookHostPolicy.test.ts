@@ -0,0 +1,95 @@
+import { LookupAddress } from 'dns';
+import { WebhookHostPolicy, isPrivateAddress } from '@infrastructure/webhooks/WebhookHostPolicy';
+
+describe('WebhookHostPolicy', () => {
+  describe('isPrivateAddress', () => {
+    it.each([
+      '127.0.0.1',
+      '127.8.9.10',
+      '10.1.2.3',
+      '172.16.0.1',
+      '172.31.255.255',
+      '192.168.1.1',
+      '169.254.169.254',
+      '100.64.0.1',
+      '0.0.0.0',
+      '::1',
+      '::',
+      'fe80::1',
+      'fd12:3456::1',
+      '::ffff:127.0.0.1',
+      '::ffff:a9fe:a9fe',
+    ])('should treat %s as private', (address) => {
+      expect(isPrivateAddress(address)).toBe(true);
+    });
+
+    it.each(['93.184.215.14', '8.8.8.8', '172.32.0.1', '2606:4700::1111', '::ffff:8.8.8.8'])(
+      'should treat %s as public',
+      (address) => {
+        expect(isPrivateAddress(address)).toBe(false);
+      }
+    );
+  });
+
+  describe('check', () => {
+    const resolve = jest.fn(async (hostname: string) =>
+      hostname === 'hooks.internal' ? ['10.0.0.5'] : ['93.184.215.14']
+    );
+
+    it('should allow hosts that only resolve to public addresses', async () => {
+      const policy = new WebhookHostPolicy([], resolve);
+
+      await expect(policy.check('example.com')).resolves.toBeNull();
+      await expect(policy.check('8.8.8.8')).resolves.toBeNull();
+    });
+
+    it('should refuse private addresses and hosts that resolve to them', async () => {
+      const policy = new WebhookHostPolicy([], resolve);
+
+      await expect(policy.check('hooks.internal')).resolves.toMatch(/private address/);
+      await expect(policy.check('169.254.169.254')).resolves.toMatch(/private address/);
+      await expect(policy.check('[::1]')).resolves.toMatch(/private address/);
+    });
+
+    it('should refuse hosts that do not resolve', async () => {
+      const policy = new WebhookHostPolicy([], async () => {
+        throw new Error('ENOTFOUND');
+      });
+
+      await expect(policy.check('nowhere.example')).resolves.toMatch(/could not be resolved/);
+    });
+
+    it('should let allowed private hosts through', async () => {
+      const policy = new WebhookHostPolicy(['Hooks.Internal', '::1'], resolve);
+
+      await expect(policy.check('hooks.internal')).resolves.toBeNull();
+      await expect(policy.check('[::1]')).resolves.toBeNull();
+      await expect(policy.check('127.0.0.1')).resolves.toMatch(/private address/);
+    });
+  });
+
+  describe('lookup', () => {
+    function lookup(policy: WebhookHostPolicy, hostname: string, all: boolean) {
+      return new Promise<string | LookupAddress[]>((resolve, reject) => {
+        policy.lookup(hostname, { all }, (error, address) =>
+          error ? reject(error) : resolve(address)
+        );
+      });
+    }
+
+    it('should fail when the host resolves to a private address', async () => {
+      await expect(lookup(new WebhookHostPolicy(), 'localhost', false)).rejects.toThrow(
+        /private address/
+      );
+    });
+
+    it('should resolve allowed private hosts in either form', async () => {
+      const policy = new WebhookHostPolicy(['localhost']);
+
+      expect(await lookup(policy, 'localhost', false)).toEqual(expect.any(String));
+      expect(await lookup(policy, 'localhost', true)).toEqual(
+        expect.arrayContaining([expect.objectContaining({ address: expect.any(String) })])
+      );
+    });
+  });
+});
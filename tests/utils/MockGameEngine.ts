@@ -1,5 +1,5 @@
 import { BaseGameEngine, AICapableGamePlugin } from '@domain/interfaces';
-import { GameState, Player, Move, GameLifecycle } from '@domain/models';
+import { GameState, Player, Move, GameLifecycle, GameSettingsSchema } from '@domain/models';
 import { GameConfig, ValidationResult, BoardRenderData } from '@domain/interfaces';
 import { AIStrategy } from '@domain/interfaces/IAIStrategy';
 import { AIPlayer } from '@domain/models/AIPlayer';
@@ -27,6 +27,9 @@ export class MockGameEngine extends BaseGameEngine implements AICapableGamePlugi
   private aiSupported: boolean = true;
   private aiStrategies: AIStrategy[] = [];
 
+  // Only set when a test gives the game a settings schema
+  getConfigSchema?: () => GameSettingsSchema;
+
   // Hook tracking
   public onGameCreatedCalled: boolean = false;
   public onPlayerJoinedCalled: boolean = false;
@@ -93,6 +96,11 @@ export class MockGameEngine extends BaseGameEngine implements AICapableGamePlugi
     return this;
   }
 
+  withConfigSchema(schema: GameSettingsSchema): this {
+    this.getConfigSchema = () => schema;
+    return this;
+  }
+
   withValidationResult(result: ValidationResult): this {
     this.validationResult = result;
     return this;
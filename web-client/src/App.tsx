@@ -5,7 +5,8 @@ import {
   LobbyView, 
   ProfileView, 
   StatsView, 
-  LeaderboardView 
+  LeaderboardView,
+  TournamentsView
 } from './views';
 import { AdminProvider } from './context/AdminContext';
 import { PlayerProvider } from './context/PlayerContext';
@@ -90,6 +91,14 @@ function App() {
                   </PlayerLayout>
                 }
               />
+              <Route
+                path="/tournaments"
+                element={
+                  <PlayerLayout currentView="tournaments">
+                    <TournamentsView />
+                  </PlayerLayout>
+                }
+              />
               <Route
                 path="/games"
                 element={
@@ -315,6 +315,22 @@ describe('GameClient', () => {
     });
   });
 
+  describe('deleteGameAsAdmin', () => {
+    it('should delete through the admin endpoint with a reason', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 204,
+      });
+
+      await client.deleteGameAsAdmin('game-123', 'Spam');
+
+      expect(mockFetch).toHaveBeenCalledWith('/api/admin/games/game-123', expect.objectContaining({
+        method: 'DELETE',
+        body: JSON.stringify({ reason: 'Spam' }),
+      }));
+    });
+  });
+
   describe('makeMove', () => {
     it('should submit a move and return updated game state', async () => {
       const move: Move = {
@@ -846,6 +862,19 @@ describe('GameClient', () => {
         }));
         expect(result).toEqual(mockLeaderboard);
       });
+
+      it('should request a sort order', async () => {
+        mockFetch.mockResolvedValueOnce({
+          ok: true,
+          json: async () => [],
+        });
+
+        await client.getLeaderboard('tic-tac-toe', { page: 1 }, 'rating');
+
+        expect(mockFetch).toHaveBeenCalledWith('/api/leaderboard/tic-tac-toe?page=1&sort=rating', expect.objectContaining({
+          headers: expect.any(Headers),
+        }));
+      });
     });
   });
 
@@ -1049,6 +1078,62 @@ describe('GameClient', () => {
     });
   });
 
+  describe('tournaments', () => {
+    describe('getTournaments', () => {
+      it('should fetch tournaments filtered by status', async () => {
+        mockFetch.mockResolvedValueOnce({
+          ok: true,
+          json: async () => [],
+        });
+
+        const result = await client.getTournaments('in_progress');
+
+        expect(mockFetch).toHaveBeenCalledWith('/api/tournaments?status=in_progress', expect.objectContaining({
+          headers: expect.any(Headers),
+        }));
+        expect(result).toEqual([]);
+      });
+    });
+
+    describe('getTournamentBracket', () => {
+      it('should fetch the bracket of a tournament', async () => {
+        const mockBracket = {
+          tournamentId: 't1',
+          format: 'knockout' as const,
+          status: 'in_progress' as const,
+          totalRounds: 1,
+          rounds: [],
+          winnerId: null,
+        };
+        mockFetch.mockResolvedValueOnce({
+          ok: true,
+          json: async () => mockBracket,
+        });
+
+        const result = await client.getTournamentBracket('t1');
+
+        expect(mockFetch).toHaveBeenCalledWith('/api/tournaments/t1/bracket', expect.objectContaining({
+          headers: expect.any(Headers),
+        }));
+        expect(result).toEqual(mockBracket);
+      });
+    });
+
+    describe('getTournamentStandings', () => {
+      it('should throw error when tournament not found', async () => {
+        mockFetch.mockResolvedValueOnce({
+          ok: false,
+          status: 404,
+          statusText: 'Not Found',
+          json: async () => ({ error: 'Tournament not found' }),
+        });
+
+        await expect(client.getTournamentStandings('missing')).rejects.toThrow('Tournament not found');
+        expect(mockFetch).toHaveBeenCalledWith('/api/tournaments/missing/standings', expect.any(Object));
+      });
+    });
+  });
+
   describe('error handling', () => {
     it('should handle network errors', async () => {
       mockFetch.mockRejectedValueOnce(new Error('Network error'));
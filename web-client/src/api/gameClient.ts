@@ -9,10 +9,15 @@ import type {
   GameListResponse,
   PlayerStats,
   LeaderboardEntry,
+  LeaderboardSort,
   PaginatedResult,
   GameHistoryFilters,
   GameInvitation,
   InvitationStatus,
+  Tournament,
+  TournamentStatus,
+  TournamentBracket,
+  TournamentStanding,
 } from '../types/game';
 
 /**
@@ -89,7 +94,7 @@ export class GameClient {
   }
 
   /**
-   * Delete a game
+   * Delete a game you created that has not started yet
    */
   async deleteGame(gameId: string): Promise<void> {
     await this.request<void>(`${this.baseUrl}/games/${gameId}`, {
@@ -97,6 +102,17 @@ export class GameClient {
     });
   }
 
+  /**
+   * Delete any game (admins only)
+   */
+  async deleteGameAsAdmin(gameId: string, reason?: string): Promise<void> {
+    await this.request<void>(`${this.baseUrl}/admin/games/${gameId}`, {
+      method: 'DELETE',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ reason }),
+    });
+  }
+
   /**
    * Make a move in a game
    */
@@ -289,19 +305,19 @@ export class GameClient {
    */
   async getLeaderboard(
     gameType?: string,
-    pagination?: { page?: number; pageSize?: number }
+    pagination?: { page?: number; pageSize?: number },
+    sort?: LeaderboardSort
   ): Promise<PaginatedResult<LeaderboardEntry>> {
     let url = gameType
       ? `${this.baseUrl}/leaderboard/${gameType}`
       : `${this.baseUrl}/leaderboard`;
     
-    if (pagination) {
-      const params = new URLSearchParams();
-      if (pagination.page !== undefined) params.append('page', pagination.page.toString());
-      if (pagination.pageSize !== undefined) params.append('pageSize', pagination.pageSize.toString());
-      const queryString = params.toString();
-      if (queryString) url += `?${queryString}`;
-    }
+    const params = new URLSearchParams();
+    if (pagination?.page !== undefined) params.append('page', pagination.page.toString());
+    if (pagination?.pageSize !== undefined) params.append('pageSize', pagination.pageSize.toString());
+    if (sort) params.append('sort', sort);
+    const queryString = params.toString();
+    if (queryString) url += `?${queryString}`;
     
     return this.request<PaginatedResult<LeaderboardEntry>>(url);
   }
@@ -347,6 +363,32 @@ export class GameClient {
     });
   }
 
+  /**
+   * List tournaments, newest first
+   */
+  async getTournaments(status?: TournamentStatus): Promise<Tournament[]> {
+    const url = status
+      ? `${this.baseUrl}/tournaments?status=${status}`
+      : `${this.baseUrl}/tournaments`;
+    return this.request<Tournament[]>(url);
+  }
+
+  /**
+   * Get the rounds and matches of a tournament
+   */
+  async getTournamentBracket(tournamentId: string): Promise<TournamentBracket> {
+    return this.request<TournamentBracket>(`${this.baseUrl}/tournaments/${tournamentId}/bracket`);
+  }
+
+  /**
+   * Get the standings table of a tournament
+   */
+  async getTournamentStandings(tournamentId: string): Promise<TournamentStanding[]> {
+    return this.request<TournamentStanding[]>(
+      `${this.baseUrl}/tournaments/${tournamentId}/standings`
+    );
+  }
+
   /**
    * Generic request handler with error handling
    */
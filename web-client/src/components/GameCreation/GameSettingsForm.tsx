@@ -0,0 +1,120 @@
+import type { GameSettingSchema, GameSettingsSchema } from '../../types/game';
+import styles from './GameSettingsForm.module.css';
+
+interface GameSettingsFormProps {
+  schema?: GameSettingsSchema;
+  values: Record<string, unknown>;
+  onChange: (values: Record<string, unknown>) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Settings form generated from a game type's config schema
+ * Only settings the user changes are reported; the server fills in the rest from its defaults.
+ */
+export function GameSettingsForm({ schema, values, onChange, disabled = false }: GameSettingsFormProps) {
+  const settings = Object.entries(schema?.properties ?? {});
+
+  if (settings.length === 0) {
+    return null; // Game has no custom settings
+  }
+
+  const updateSetting = (name: string, value: unknown) => {
+    const updated = { ...values, [name]: value };
+    if (value === undefined) {
+      delete updated[name];
+    }
+    onChange(updated);
+  };
+
+  const renderInput = (name: string, setting: GameSettingSchema) => {
+    const id = `game-setting-${name}`;
+    const value = values[name] ?? setting.default;
+
+    if (setting.type === 'boolean') {
+      return (
+        <label className={styles.checkbox} htmlFor={id}>
+          <input
+            id={id}
+            type="checkbox"
+            checked={Boolean(value)}
+            onChange={(e) => updateSetting(name, e.target.checked)}
+            disabled={disabled}
+          />
+          <span>{setting.title ?? name}</span>
+        </label>
+      );
+    }
+
+    if (setting.enum) {
+      return (
+        <>
+          <label htmlFor={id}>{setting.title ?? name}</label>
+          <select
+            id={id}
+            value={String(value ?? '')}
+            onChange={(e) => {
+              const option = setting.enum!.find((o) => String(o) === e.target.value);
+              updateSetting(name, option);
+            }}
+            disabled={disabled}
+            className={styles.select}
+          >
+            {setting.enum.map((option) => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </select>
+        </>
+      );
+    }
+
+    if (setting.type === 'integer' || setting.type === 'number') {
+      return (
+        <>
+          <label htmlFor={id}>{setting.title ?? name}</label>
+          <input
+            id={id}
+            type="number"
+            value={value === undefined ? '' : Number(value)}
+            min={setting.minimum}
+            max={setting.maximum}
+            step={setting.type === 'integer' ? 1 : 'any'}
+            onChange={(e) =>
+              updateSetting(name, e.target.value === '' ? undefined : Number(e.target.value))
+            }
+            disabled={disabled}
+            className={styles.input}
+          />
+        </>
+      );
+    }
+
+    return (
+      <>
+        <label htmlFor={id}>{setting.title ?? name}</label>
+        <input
+          id={id}
+          type="text"
+          value={String(value ?? '')}
+          onChange={(e) => updateSetting(name, e.target.value === '' ? undefined : e.target.value)}
+          disabled={disabled}
+          className={styles.input}
+        />
+      </>
+    );
+  };
+
+  return (
+    <fieldset className={styles.settings}>
+      <legend>Game Settings</legend>
+      {settings.map(([name, setting]) => (
+        <div key={name} className={styles.formGroup}>
+          {renderInput(name, setting)}
+          {setting.description && <p className={styles.description}>{setting.description}</p>}
+        </div>
+      ))}
+    </fieldset>
+  );
+}
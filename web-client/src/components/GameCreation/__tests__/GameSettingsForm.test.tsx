@@ -0,0 +1,99 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { GameSettingsForm } from '../GameSettingsForm';
+import type { GameSettingsSchema } from '../../../types/game';
+
+const schema: GameSettingsSchema = {
+  type: 'object',
+  properties: {
+    rows: {
+      type: 'integer',
+      title: 'Rows',
+      description: 'Height of the board',
+      default: 6,
+      minimum: 4,
+      maximum: 12,
+    },
+    popOut: { type: 'boolean', title: 'PopOut', default: false },
+    ruleset: { type: 'string', title: 'Ruleset', enum: ['classic', 'modern'], default: 'classic' },
+    nickname: { type: 'string' },
+  },
+};
+
+describe('GameSettingsForm', () => {
+  const mockOnChange = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should not render for game types without settings', () => {
+    const { container } = render(
+      <GameSettingsForm schema={undefined} values={{}} onChange={mockOnChange} />
+    );
+
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it('should render an input for every setting with its default', () => {
+    render(<GameSettingsForm schema={schema} values={{}} onChange={mockOnChange} />);
+
+    expect(screen.getByText('Game Settings')).toBeInTheDocument();
+    expect(screen.getByLabelText('Rows')).toHaveValue(6);
+    expect(screen.getByLabelText('Rows')).toHaveAttribute('min', '4');
+    expect(screen.getByLabelText('Rows')).toHaveAttribute('max', '12');
+    expect(screen.getByText('Height of the board')).toBeInTheDocument();
+    expect(screen.getByLabelText('PopOut')).not.toBeChecked();
+    expect(screen.getByLabelText('Ruleset')).toHaveValue('classic');
+    // Settings without a title fall back to their name
+    expect(screen.getByLabelText('nickname')).toHaveValue('');
+  });
+
+  it('should show values the user has chosen', () => {
+    render(
+      <GameSettingsForm
+        schema={schema}
+        values={{ rows: 9, popOut: true }}
+        onChange={mockOnChange}
+      />
+    );
+
+    expect(screen.getByLabelText('Rows')).toHaveValue(9);
+    expect(screen.getByLabelText('PopOut')).toBeChecked();
+  });
+
+  it('should report numbers, booleans and choices with their schema types', () => {
+    render(<GameSettingsForm schema={schema} values={{}} onChange={mockOnChange} />);
+
+    fireEvent.change(screen.getByLabelText('Rows'), { target: { value: '8' } });
+    expect(mockOnChange).toHaveBeenLastCalledWith({ rows: 8 });
+
+    fireEvent.click(screen.getByLabelText('PopOut'));
+    expect(mockOnChange).toHaveBeenLastCalledWith({ popOut: true });
+
+    fireEvent.change(screen.getByLabelText('Ruleset'), { target: { value: 'modern' } });
+    expect(mockOnChange).toHaveBeenLastCalledWith({ ruleset: 'modern' });
+  });
+
+  it('should drop a setting when its input is cleared', () => {
+    render(
+      <GameSettingsForm
+        schema={schema}
+        values={{ rows: 8, popOut: true }}
+        onChange={mockOnChange}
+      />
+    );
+
+    fireEvent.change(screen.getByLabelText('Rows'), { target: { value: '' } });
+
+    expect(mockOnChange).toHaveBeenLastCalledWith({ popOut: true });
+  });
+
+  it('should disable every input while disabled', () => {
+    render(<GameSettingsForm schema={schema} values={{}} onChange={mockOnChange} disabled />);
+
+    expect(screen.getByLabelText('Rows')).toBeDisabled();
+    expect(screen.getByLabelText('PopOut')).toBeDisabled();
+    expect(screen.getByLabelText('Ruleset')).toBeDisabled();
+  });
+});
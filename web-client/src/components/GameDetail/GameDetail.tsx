@@ -1,6 +1,7 @@
 import { useMemo, useState } from 'react';
 import type { GameState } from '../../types/game';
 import { InviteModal } from '../Invitations';
+import { ReplayViewer } from './ReplayViewer';
 import styles from './GameDetail.module.css';
 
 interface GameDetailProps {
@@ -196,6 +197,16 @@ export function GameDetail({
         )}
       </div>
 
+      {/* Replay (keyed on the move count so it follows the game to its latest position) */}
+      {game.moveHistory.length > 0 && (
+        <ReplayViewer
+          key={`${game.gameId}-${game.moveHistory.length}`}
+          gameId={game.gameId}
+          moveCount={game.moveHistory.length}
+          isFinished={isCompleted || game.lifecycle === 'abandoned'}
+        />
+      )}
+
       {/* Player List */}
       <div className={styles.playerList}>
         <h3>Players</h3>
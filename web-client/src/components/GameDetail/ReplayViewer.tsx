@@ -0,0 +1,126 @@
+import { useEffect, useState } from 'react';
+import styles from './ReplayViewer.module.css';
+
+export interface ReplayViewerProps {
+  gameId: string;
+  moveCount: number;
+  /** Only finished games can be downloaded as an animation */
+  isFinished?: boolean;
+  autoplayInterval?: number;
+}
+
+export function ReplayViewer({
+  gameId,
+  moveCount,
+  isFinished = false,
+  autoplayInterval = 1000,
+}: ReplayViewerProps) {
+  const [move, setMove] = useState(moveCount);
+  const [isPlaying, setIsPlaying] = useState(false);
+
+  // Autoplay stops by itself once the last move is shown
+  const playing = isPlaying && move < moveCount;
+
+  useEffect(() => {
+    if (!playing) {
+      return;
+    }
+
+    const timer = setInterval(() => {
+      setMove((current) => Math.min(current + 1, moveCount));
+    }, autoplayInterval);
+
+    return () => {
+      clearInterval(timer);
+    };
+  }, [playing, autoplayInterval, moveCount]);
+
+  const handlePlayPause = () => {
+    if (playing) {
+      setIsPlaying(false);
+      return;
+    }
+    // Restart from the beginning when autoplay is started at the end of the game
+    if (move >= moveCount) {
+      setMove(0);
+    }
+    setIsPlaying(true);
+  };
+
+  const goTo = (target: number) => {
+    setIsPlaying(false);
+    setMove(target);
+  };
+
+  const atStart = move === 0;
+  const atEnd = move === moveCount;
+
+  return (
+    <div className={styles.replayViewer}>
+      <h3>Replay</h3>
+      <img
+        src={`/api/games/${gameId}/board.svg?move=${move}`}
+        alt={`Position after move ${move}`}
+        className={styles.frame}
+      />
+      <div className={styles.position} aria-live="polite">
+        Move {move} of {moveCount}
+      </div>
+      <div className={styles.controls}>
+        <button
+          type="button"
+          className={styles.controlButton}
+          onClick={() => goTo(0)}
+          disabled={atStart}
+          aria-label="First move"
+        >
+          ⏮
+        </button>
+        <button
+          type="button"
+          className={styles.controlButton}
+          onClick={() => goTo(move - 1)}
+          disabled={atStart}
+          aria-label="Previous move"
+        >
+          ⏴
+        </button>
+        <button
+          type="button"
+          className={styles.controlButton}
+          onClick={handlePlayPause}
+          aria-label={playing ? 'Pause replay' : 'Play replay'}
+        >
+          {playing ? '⏸ Pause' : '▶ Play'}
+        </button>
+        <button
+          type="button"
+          className={styles.controlButton}
+          onClick={() => goTo(move + 1)}
+          disabled={atEnd}
+          aria-label="Next move"
+        >
+          ⏵
+        </button>
+        <button
+          type="button"
+          className={styles.controlButton}
+          onClick={() => goTo(moveCount)}
+          disabled={atEnd}
+          aria-label="Last move"
+        >
+          ⏭
+        </button>
+      </div>
+      {isFinished && (
+        <a
+          className={styles.downloadLink}
+          href={`/api/games/${gameId}/replay.gif`}
+          download={`${gameId}.gif`}
+        >
+          Download animated GIF
+        </a>
+      )}
+    </div>
+  );
+}
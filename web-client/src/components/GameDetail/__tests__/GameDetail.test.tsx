@@ -1,5 +1,5 @@
 import { describe, it, expect, vi } from 'vitest';
-import { render, screen, waitFor } from '../../../test/test-utils';
+import { render, screen, waitFor, fireEvent } from '../../../test/test-utils';
 import { GameDetail } from '../GameDetail';
 import type { GameState } from '../../../types/game';
 
@@ -93,6 +93,31 @@ describe('GameDetail', () => {
     });
   });
 
+  describe('Replay', () => {
+    it('should show the replay viewer at the latest move', () => {
+      render(<GameDetail game={mockGame} />);
+
+      const frame = screen.getByRole('img', { name: /position after move/i });
+      expect(frame).toHaveAttribute('src', '/api/games/game-123/board.svg?move=2');
+    });
+
+    it('should move the replay viewer to the latest move when a move is made', () => {
+      const { rerender } = render(<GameDetail game={mockGame} />);
+      fireEvent.click(screen.getByRole('button', { name: /first move/i }));
+
+      const nextMove = { ...mockGame.moveHistory[0], parameters: { row: 2, col: 2 } };
+      rerender(<GameDetail game={{ ...mockGame, moveHistory: [...mockGame.moveHistory, nextMove] }} />);
+
+      expect(screen.getByText('Move 3 of 3')).toBeInTheDocument();
+    });
+
+    it('should not show the replay viewer before any moves', () => {
+      render(<GameDetail game={{ ...mockGame, moveHistory: [] }} />);
+
+      expect(screen.queryByText('Replay')).not.toBeInTheDocument();
+    });
+  });
+
   describe('Player List', () => {
     it('should render all players', () => {
       render(<GameDetail game={mockGame} />);
@@ -0,0 +1,109 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen, fireEvent, act } from '../../../test/test-utils';
+import { ReplayViewer } from '../ReplayViewer';
+
+const frame = () => screen.getByRole('img', { name: /position after move/i });
+
+describe('ReplayViewer', () => {
+  it('should start at the latest move', () => {
+    render(<ReplayViewer gameId="game-123" moveCount={5} />);
+
+    expect(frame()).toHaveAttribute('src', '/api/games/game-123/board.svg?move=5');
+    expect(screen.getByText('Move 5 of 5')).toBeInTheDocument();
+  });
+
+  it('should step through moves with first, previous, next and last', () => {
+    render(<ReplayViewer gameId="game-123" moveCount={5} />);
+
+    fireEvent.click(screen.getByRole('button', { name: /first move/i }));
+    expect(frame()).toHaveAttribute('src', '/api/games/game-123/board.svg?move=0');
+
+    fireEvent.click(screen.getByRole('button', { name: /next move/i }));
+    fireEvent.click(screen.getByRole('button', { name: /next move/i }));
+    expect(screen.getByText('Move 2 of 5')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: /previous move/i }));
+    expect(frame()).toHaveAttribute('src', '/api/games/game-123/board.svg?move=1');
+
+    fireEvent.click(screen.getByRole('button', { name: /last move/i }));
+    expect(frame()).toHaveAttribute('src', '/api/games/game-123/board.svg?move=5');
+  });
+
+  it('should disable controls that would leave the game', () => {
+    render(<ReplayViewer gameId="game-123" moveCount={2} />);
+
+    expect(screen.getByRole('button', { name: /next move/i })).toBeDisabled();
+    expect(screen.getByRole('button', { name: /last move/i })).toBeDisabled();
+
+    fireEvent.click(screen.getByRole('button', { name: /first move/i }));
+
+    expect(screen.getByRole('button', { name: /previous move/i })).toBeDisabled();
+    expect(screen.getByRole('button', { name: /first move/i })).toBeDisabled();
+  });
+
+  it('should link to the animated GIF of a finished game', () => {
+    render(<ReplayViewer gameId="game-123" moveCount={5} isFinished />);
+
+    expect(screen.getByRole('link', { name: /download animated gif/i })).toHaveAttribute(
+      'href',
+      '/api/games/game-123/replay.gif'
+    );
+  });
+
+  it('should not offer the animated GIF of a game in progress', () => {
+    render(<ReplayViewer gameId="game-123" moveCount={5} />);
+
+    expect(screen.queryByRole('link', { name: /download animated gif/i })).not.toBeInTheDocument();
+  });
+
+  describe('Autoplay', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should restart from the first move and advance on each interval', () => {
+      render(<ReplayViewer gameId="game-123" moveCount={3} autoplayInterval={500} />);
+
+      fireEvent.click(screen.getByRole('button', { name: /play replay/i }));
+      expect(screen.getByText('Move 0 of 3')).toBeInTheDocument();
+
+      act(() => {
+        vi.advanceTimersByTime(500);
+      });
+      expect(screen.getByText('Move 1 of 3')).toBeInTheDocument();
+
+      act(() => {
+        vi.advanceTimersByTime(1000);
+      });
+      expect(screen.getByText('Move 3 of 3')).toBeInTheDocument();
+    });
+
+    it('should stop at the last move', () => {
+      render(<ReplayViewer gameId="game-123" moveCount={1} autoplayInterval={500} />);
+
+      fireEvent.click(screen.getByRole('button', { name: /play replay/i }));
+      act(() => {
+        vi.advanceTimersByTime(500);
+      });
+
+      expect(screen.getByText('Move 1 of 1')).toBeInTheDocument();
+      expect(screen.getByRole('button', { name: /play replay/i })).toBeInTheDocument();
+    });
+
+    it('should pause autoplay', () => {
+      render(<ReplayViewer gameId="game-123" moveCount={3} autoplayInterval={500} />);
+
+      fireEvent.click(screen.getByRole('button', { name: /play replay/i }));
+      fireEvent.click(screen.getByRole('button', { name: /pause replay/i }));
+      act(() => {
+        vi.advanceTimersByTime(1500);
+      });
+
+      expect(screen.getByText('Move 0 of 3')).toBeInTheDocument();
+    });
+  });
+});
@@ -1 +1,2 @@
 export { GameDetail } from './GameDetail';
+export { ReplayViewer } from './ReplayViewer';
@@ -53,6 +53,13 @@ export function LeaderboardTable({
     return `${(winRate * 100).toFixed(1)}%`;
   };
 
+  /**
+   * Format rating as a whole number, or a dash if the server did not send one
+   */
+  const formatRating = (rating: number | undefined): string => {
+    return rating === undefined ? '—' : Math.round(rating).toString();
+  };
+
   /**
    * Format large numbers with commas for readability
    */
@@ -67,6 +74,7 @@ export function LeaderboardTable({
           <tr>
             <th>Rank</th>
             <th>Player</th>
+            <th>Rating</th>
             <th>Games</th>
             <th>Wins</th>
             <th>Losses</th>
@@ -87,6 +95,7 @@ export function LeaderboardTable({
                   {entry.displayName}
                   {isCurrentUser && <span className={styles.youBadge}> (You)</span>}
                 </td>
+                <td className={styles.stat}>{formatRating(entry.rating)}</td>
                 <td className={styles.stat}>{formatNumber(entry.totalGames)}</td>
                 <td className={styles.stat}>{formatNumber(entry.wins)}</td>
                 <td className={styles.stat}>{formatNumber(entry.losses)}</td>
@@ -98,6 +98,44 @@ describe('LeaderboardTable', () => {
       expect(screen.getByText(/84\.0%|84%/)).toBeInTheDocument(); // Win rate
     });
 
+    it('should display ratings as whole numbers', () => {
+      const entries: LeaderboardEntry[] = [
+        {
+          rank: 1,
+          userId: 'user1',
+          displayName: 'alice',
+          totalGames: 15,
+          wins: 7,
+          losses: 8,
+          winRate: 0.4667,
+          rating: 1687.6,
+        },
+      ];
+
+      render(<LeaderboardTable entries={entries} />);
+
+      expect(screen.getByRole('columnheader', { name: 'Rating' })).toBeInTheDocument();
+      expect(screen.getByText('1688')).toBeInTheDocument();
+    });
+
+    it('should show a dash when a rating is missing', () => {
+      const entries: LeaderboardEntry[] = [
+        {
+          rank: 1,
+          userId: 'user1',
+          displayName: 'alice',
+          totalGames: 15,
+          wins: 7,
+          losses: 8,
+          winRate: 0.4667,
+        },
+      ];
+
+      render(<LeaderboardTable entries={entries} />);
+
+      expect(screen.getByText('—')).toBeInTheDocument();
+    });
+
     it('should format win rate as percentage', () => {
       const entries: LeaderboardEntry[] = [
         {
@@ -19,6 +19,7 @@ export function GameCard({ game, onJoin, onClick }: GameCardProps) {
 
   const gameName = game.metadata?.gameName || game.gameId;
   const gameDescription = game.metadata?.gameDescription;
+  const variantName: string | undefined = game.metadata?.variant?.name;
   const maxPlayers = 2; // Default for most games
   const isWaiting = game.lifecycle === 'waiting_for_players';
   const isFull = game.players.length >= maxPlayers;
@@ -41,6 +42,13 @@ export function GameCard({ game, onJoin, onClick }: GameCardProps) {
           <span className={styles.value}>{game.gameType}</span>
         </div>
         
+        {variantName && (
+          <div className={styles.infoRow}>
+            <span className={styles.label}>Variant:</span>
+            <span className={styles.value}>{variantName}</span>
+          </div>
+        )}
+        
         <div className={styles.infoRow}>
           <span className={styles.label}>Players:</span>
           <span className={styles.value}>
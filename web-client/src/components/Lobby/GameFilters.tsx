@@ -60,6 +60,9 @@ export function GameFilters({ filters, onFilterChange }: GameFiltersProps) {
           <option value="">All Types</option>
           <option value="tic-tac-toe">Tic-Tac-Toe</option>
           <option value="connect-four">Connect Four</option>
+          <option value="othello">Othello</option>
+          <option value="checkers">Checkers</option>
+          <option value="dots-and-boxes">Dots and Boxes</option>
         </select>
       </div>
 
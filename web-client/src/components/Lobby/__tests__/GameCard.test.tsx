@@ -158,6 +158,33 @@ describe('GameCard', () => {
       expect(screen.getByText(/1\/2/)).toBeInTheDocument();
       expect(screen.getByText(/waiting_for_players/i)).toBeInTheDocument();
     });
+
+    it('should display the rule variant when the game has one', () => {
+      const variantGame: GameState = {
+        ...mockGame,
+        gameType: 'connect-four',
+        metadata: {
+          gameName: 'PopOut Match',
+          variant: { rows: 6, columns: 7, connect: 4, popOut: true, name: 'PopOut' },
+        },
+      };
+      const onJoin = vi.fn();
+      const onClick = vi.fn();
+
+      render(<GameCard game={variantGame} onJoin={onJoin} onClick={onClick} />);
+
+      expect(screen.getByText('Variant:')).toBeInTheDocument();
+      expect(screen.getByText('PopOut')).toBeInTheDocument();
+    });
+
+    it('should not display a variant row for games without variants', () => {
+      const onJoin = vi.fn();
+      const onClick = vi.fn();
+
+      render(<GameCard game={mockGame} onJoin={onJoin} onClick={onClick} />);
+
+      expect(screen.queryByText('Variant:')).not.toBeInTheDocument();
+    });
   });
 
   describe('Join Button', () => {
@@ -148,6 +148,9 @@ export const GameHistory: React.FC<GameHistoryProps> = ({
             <option value="">All Games</option>
             <option value="tic-tac-toe">Tic Tac Toe</option>
             <option value="connect-four">Connect Four</option>
+            <option value="othello">Othello</option>
+            <option value="checkers">Checkers</option>
+            <option value="dots-and-boxes">Dots and Boxes</option>
           </select>
         </div>
 
@@ -0,0 +1,83 @@
+import type { BracketMatch, TournamentBracket as Bracket } from '../../types/game';
+import styles from './TournamentBracket.module.css';
+
+interface TournamentBracketProps {
+  bracket: Bracket;
+  currentUserId?: string;
+}
+
+/**
+ * TournamentBracket Component
+ * Shows each round of a tournament as a column of matches
+ */
+export function TournamentBracket({ bracket, currentUserId }: TournamentBracketProps) {
+  if (bracket.rounds.length === 0) {
+    return (
+      <div className={styles.container}>
+        <div className={styles.empty}>Pairings appear once the tournament starts.</div>
+      </div>
+    );
+  }
+
+  /**
+   * Label a round; the last knockout rounds get their usual names
+   */
+  const roundLabel = (number: number): string => {
+    if (bracket.format === 'knockout' && bracket.totalRounds !== undefined) {
+      const remaining = bracket.totalRounds - number;
+      if (remaining === 0) return 'Final';
+      if (remaining === 1) return 'Semi-finals';
+    }
+    return `Round ${number}`;
+  };
+
+  const playerClassName = (match: BracketMatch, playerId: string | null): string => {
+    const classes = [styles.player];
+    if (match.result !== undefined && match.winnerId === playerId) {
+      classes.push(styles.winner);
+    }
+    if (currentUserId && playerId === currentUserId) {
+      classes.push(styles.currentUser);
+    }
+    return classes.join(' ');
+  };
+
+  const matchStatus = (match: BracketMatch): string => {
+    switch (match.result) {
+      case 'bye':
+        return 'Bye';
+      case 'draw':
+        return 'Draw';
+      case 'player1_win':
+      case 'player2_win':
+        return 'Finished';
+      default:
+        return 'In progress';
+    }
+  };
+
+  return (
+    <div className={styles.container}>
+      <div className={styles.rounds}>
+        {bracket.rounds.map((round) => (
+          <section
+            key={round.number}
+            className={styles.round}
+            aria-label={roundLabel(round.number)}
+          >
+            <h3 className={styles.roundTitle}>{roundLabel(round.number)}</h3>
+            {round.matches.map((match) => (
+              <div key={match.matchId} className={styles.match} data-testid="bracket-match">
+                <div className={playerClassName(match, match.player1Id)}>{match.player1Name}</div>
+                <div className={playerClassName(match, match.player2Id)}>
+                  {match.player2Name ?? '—'}
+                </div>
+                <div className={styles.status}>{matchStatus(match)}</div>
+              </div>
+            ))}
+          </section>
+        ))}
+      </div>
+    </div>
+  );
+}
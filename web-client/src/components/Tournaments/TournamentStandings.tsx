@@ -0,0 +1,66 @@
+import type { TournamentStanding } from '../../types/game';
+import styles from './TournamentStandings.module.css';
+
+interface TournamentStandingsProps {
+  standings: TournamentStanding[];
+  currentUserId?: string;
+}
+
+/**
+ * TournamentStandings Component
+ * Displays the points table of a tournament, best first
+ */
+export function TournamentStandings({ standings, currentUserId }: TournamentStandingsProps) {
+  if (standings.length === 0) {
+    return (
+      <div className={styles.container}>
+        <div className={styles.empty}>No participants yet.</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className={styles.container}>
+      <table className={styles.table}>
+        <thead>
+          <tr>
+            <th>Rank</th>
+            <th>Player</th>
+            <th>Played</th>
+            <th>W</th>
+            <th>D</th>
+            <th>L</th>
+            <th>Byes</th>
+            <th>Tiebreak</th>
+            <th>Points</th>
+          </tr>
+        </thead>
+        <tbody>
+          {standings.map((standing) => {
+            const isCurrentUser = currentUserId && standing.playerId === currentUserId;
+            const rowClassName = isCurrentUser
+              ? `${styles.row} ${styles.currentUser}`
+              : styles.row;
+
+            return (
+              <tr key={standing.playerId} className={rowClassName}>
+                <td className={styles.rank}>{standing.rank}</td>
+                <td>
+                  {standing.name}
+                  {isCurrentUser && <span className={styles.youBadge}> (You)</span>}
+                </td>
+                <td className={styles.stat}>{standing.played}</td>
+                <td className={styles.stat}>{standing.wins}</td>
+                <td className={styles.stat}>{standing.draws}</td>
+                <td className={styles.stat}>{standing.losses}</td>
+                <td className={styles.stat}>{standing.byes}</td>
+                <td className={styles.stat}>{standing.tiebreak}</td>
+                <td className={styles.points}>{standing.points}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { render, screen, within } from '@testing-library/react';
+import { TournamentBracket } from '../TournamentBracket';
+import type { TournamentBracket as Bracket } from '../../../types/game';
+
+describe('TournamentBracket', () => {
+  const bracket: Bracket = {
+    tournamentId: 't1',
+    format: 'knockout',
+    status: 'in_progress',
+    totalRounds: 2,
+    winnerId: null,
+    rounds: [
+      {
+        number: 1,
+        matches: [
+          {
+            matchId: 'm1',
+            round: 1,
+            player1Id: 'alice',
+            player1Name: 'Alice',
+            player2Id: null,
+            player2Name: null,
+            result: 'bye',
+            winnerId: 'alice',
+          },
+          {
+            matchId: 'm2',
+            round: 1,
+            player1Id: 'bob',
+            player1Name: 'Bob',
+            player2Id: 'carol',
+            player2Name: 'Carol',
+            gameId: 'g1',
+            result: 'player2_win',
+            winnerId: 'carol',
+          },
+        ],
+      },
+      {
+        number: 2,
+        matches: [
+          {
+            matchId: 'm3',
+            round: 2,
+            player1Id: 'alice',
+            player1Name: 'Alice',
+            player2Id: 'carol',
+            player2Name: 'Carol',
+            gameId: 'g2',
+          },
+        ],
+      },
+    ],
+  };
+
+  it('should render a column per round with knockout round names', () => {
+    render(<TournamentBracket bracket={bracket} />);
+
+    expect(screen.getByRole('region', { name: 'Semi-finals' })).toBeInTheDocument();
+    expect(screen.getByRole('region', { name: 'Final' })).toBeInTheDocument();
+  });
+
+  it('should render every match with its players and status', () => {
+    render(<TournamentBracket bracket={bracket} />);
+
+    const matches = screen.getAllByTestId('bracket-match');
+    expect(matches).toHaveLength(3);
+    expect(within(matches[0]).getByText('Alice')).toBeInTheDocument();
+    expect(within(matches[0]).getByText('Bye')).toBeInTheDocument();
+    expect(within(matches[1]).getByText('Finished')).toBeInTheDocument();
+    expect(within(matches[2]).getByText('In progress')).toBeInTheDocument();
+  });
+
+  it('should highlight the winner of a decided match', () => {
+    render(<TournamentBracket bracket={bracket} />);
+
+    const [, decided] = screen.getAllByTestId('bracket-match');
+    expect(within(decided).getByText('Carol').className).toMatch(/winner/);
+    expect(within(decided).getByText('Bob').className).not.toMatch(/winner/);
+  });
+
+  it('should number rounds for other formats', () => {
+    render(<TournamentBracket bracket={{ ...bracket, format: 'swiss' }} />);
+
+    expect(screen.getByRole('region', { name: 'Round 1' })).toBeInTheDocument();
+    expect(screen.getByRole('region', { name: 'Round 2' })).toBeInTheDocument();
+  });
+
+  it('should show a message before the tournament starts', () => {
+    render(<TournamentBracket bracket={{ ...bracket, rounds: [] }} />);
+
+    expect(screen.getByText('Pairings appear once the tournament starts.')).toBeInTheDocument();
+  });
+});
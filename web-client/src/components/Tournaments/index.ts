@@ -0,0 +1,2 @@
+export { TournamentBracket } from './TournamentBracket';
+export { TournamentStandings } from './TournamentStandings';
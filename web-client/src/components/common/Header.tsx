@@ -23,6 +23,7 @@ export function Header({ currentView }: HeaderProps) {
     { name: 'Lobby', path: '/lobby', view: 'lobby' },
     { name: 'Stats', path: '/stats', view: 'stats' },
     { name: 'Leaderboard', path: '/leaderboard', view: 'leaderboard' },
+    { name: 'Tournaments', path: '/tournaments', view: 'tournaments' },
   ];
 
   const handleNavClick = (path: string) => {
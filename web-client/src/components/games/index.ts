@@ -6,6 +6,9 @@
 import { registerGameComponent } from './registry';
 import { TicTacToeMoveInput } from '@games/tic-tac-toe/ui';
 import { ConnectFourMoveInput } from '@games/connect-four/ui';
+import { OthelloMoveInput } from '@games/othello/ui';
+import { CheckersMoveInput } from '@games/checkers/ui';
+import { DotsAndBoxesMoveInput } from '@games/dots-and-boxes/ui';
 
 // Register tic-tac-toe component
 registerGameComponent('tic-tac-toe', TicTacToeMoveInput);
@@ -13,6 +16,15 @@ registerGameComponent('tic-tac-toe', TicTacToeMoveInput);
 // Register connect-four component
 registerGameComponent('connect-four', ConnectFourMoveInput);
 
+// Register othello component
+registerGameComponent('othello', OthelloMoveInput);
+
+// Register checkers component
+registerGameComponent('checkers', CheckersMoveInput);
+
+// Register dots and boxes component
+registerGameComponent('dots-and-boxes', DotsAndBoxesMoveInput);
+
 // Export registry functions
 export { getGameComponent, hasGameComponent } from './registry';
 
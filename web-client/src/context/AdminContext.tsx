@@ -253,7 +253,7 @@ export function AdminProvider({ children }: AdminProviderProps) {
       setLoading(true);
       setError(null);
       try {
-        await client.deleteGame(gameId);
+        await client.deleteGameAsAdmin(gameId);
 
         // Remove from games list
         setGames((prevGames) => prevGames.filter((game) => game.gameId !== gameId));
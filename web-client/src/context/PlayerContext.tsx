@@ -34,7 +34,7 @@ interface PlayerContextActions {
   clearGame: () => void;
   getKnownPlayerNames: () => Promise<string[]>;
   getAvailableGameTypes: () => Promise<GameType[]>;
-  createGame: (gameType: string, metadata?: { gameName?: string; gameDescription?: string; aiPlayers?: AIPlayerConfig[] }) => Promise<void>;
+  createGame: (gameType: string, metadata?: { gameName?: string; gameDescription?: string; aiPlayers?: AIPlayerConfig[]; customSettings?: Record<string, unknown> }) => Promise<void>;
   joinGame: (gameId: string) => Promise<void>;
   loadGame: (gameId: string) => Promise<void>;
   submitMove: (move: MoveInput) => Promise<void>;
@@ -207,7 +207,7 @@ export function PlayerProvider({ children }: PlayerProviderProps) {
    * Create a new game and join as the first player
    */
   const createGame = useCallback(
-    async (gameType: string, metadata?: { gameName?: string; gameDescription?: string; aiPlayers?: AIPlayerConfig[] }) => {
+    async (gameType: string, metadata?: { gameName?: string; gameDescription?: string; aiPlayers?: AIPlayerConfig[]; customSettings?: Record<string, unknown> }) => {
       if (!playerId) {
         setError('Please login first');
         return;
@@ -228,6 +228,7 @@ export function PlayerProvider({ children }: PlayerProviderProps) {
           gameName: metadata?.gameName,
           gameDescription: metadata?.gameDescription,
           aiPlayers: metadata?.aiPlayers && metadata.aiPlayers.length > 0 ? metadata.aiPlayers : undefined,
+          customSettings: metadata?.customSettings,
         };
         
         const newGame = await client.createGame(gameType, gameConfig);
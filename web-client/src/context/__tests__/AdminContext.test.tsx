@@ -29,7 +29,7 @@ vi.mock('../../api/gameClient', () => {
       getGame = mockGetGame;
       listGames = mockListGames;
       joinGame = mockJoinGame;
-      deleteGame = mockDeleteGame;
+      deleteGameAsAdmin = mockDeleteGame;
       makeMove = mockMakeMove;
       getMoveHistory = mockGetMoveHistory;
       getBoardSvgUrl = mockGetBoardSvgUrl;
@@ -202,6 +202,45 @@ describe('PlayerContext', () => {
       expect(localStorage.getItem('player.currentGame')).toBe(JSON.stringify('new-game'));
     });
 
+    it('should send chosen settings as custom settings', async () => {
+      const mockGame: GameState = {
+        gameId: 'new-game',
+        gameType: 'connect-four',
+        lifecycle: 'waiting_for_players',
+        players: [],
+        currentPlayerIndex: 0,
+        phase: 'setup',
+        board: { spaces: [], metadata: {} },
+        moveHistory: [],
+        metadata: {},
+        version: 1,
+        createdAt: '2024-01-01T00:00:00Z',
+        updatedAt: '2024-01-01T00:00:00Z',
+      };
+
+      mockGetOrCreatePlayerIdentity.mockResolvedValue({ id: 'player-1', name: 'Alice' });
+      mockCreateGame.mockResolvedValue(mockGame);
+      mockJoinGame.mockResolvedValue(mockGame);
+
+      const { result } = renderHook(() => usePlayer(), { wrapper });
+
+      await act(async () => {
+        await result.current.login('Alice');
+      });
+
+      await act(async () => {
+        await result.current.createGame('connect-four', {
+          gameName: 'PopOut',
+          customSettings: { popOut: true },
+        });
+      });
+
+      expect(mockCreateGame).toHaveBeenCalledWith(
+        'connect-four',
+        expect.objectContaining({ customSettings: { popOut: true } })
+      );
+    });
+
     it('should handle errors during game creation', async () => {
       const errorMessage = 'Failed to create game';
       mockGetOrCreatePlayerIdentity.mockResolvedValue({ id: 'player-1', name: 'Alice' });
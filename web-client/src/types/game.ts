@@ -113,6 +113,30 @@ export interface GameType {
   maxPlayers: number;
   supportsAI?: boolean; // New field
   aiStrategies?: AIStrategy[]; // New field - populated when fetching strategies
+  configSchema?: GameSettingsSchema; // Present for game types with custom settings
+}
+
+/**
+ * Schema for a single custom setting (a subset of JSON Schema)
+ */
+export interface GameSettingSchema {
+  type: 'integer' | 'number' | 'boolean' | 'string';
+  title?: string;
+  description?: string;
+  default?: number | boolean | string;
+  minimum?: number;
+  maximum?: number;
+  enum?: Array<number | string>;
+}
+
+/**
+ * JSON Schema for a game type's custom settings
+ */
+export interface GameSettingsSchema {
+  type: 'object';
+  properties: Record<string, GameSettingSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
 }
 
 /**
@@ -209,8 +233,14 @@ export interface LeaderboardEntry {
   wins: number;
   losses: number;
   winRate: number;
+  rating?: number;
 }
 
+/**
+ * Leaderboard orderings supported by the API
+ */
+export type LeaderboardSort = 'winRate' | 'rating';
+
 /**
  * Filters for game history
  */
@@ -238,3 +268,87 @@ export interface GameInvitation {
   createdAt: string; // ISO 8601 timestamp
   respondedAt?: string; // ISO 8601 timestamp
 }
+
+/**
+ * Tournament formats
+ */
+export type TournamentFormat = 'round_robin' | 'swiss' | 'knockout';
+
+/**
+ * Tournament status
+ */
+export type TournamentStatus = 'registration' | 'in_progress' | 'completed';
+
+/**
+ * Outcome of a tournament match
+ */
+export type MatchResult = 'player1_win' | 'player2_win' | 'draw' | 'bye';
+
+/**
+ * Tournament participant
+ */
+export interface TournamentParticipant {
+  id: string;
+  name: string;
+  seed: number;
+}
+
+/**
+ * Tournament summary
+ */
+export interface Tournament {
+  tournamentId: string;
+  name: string;
+  gameType: string;
+  format: TournamentFormat;
+  status: TournamentStatus;
+  createdBy: string;
+  participants: TournamentParticipant[];
+  totalRounds?: number;
+  winnerId: string | null;
+  createdAt: string; // ISO 8601 timestamp
+  updatedAt: string; // ISO 8601 timestamp
+}
+
+/**
+ * A match in a tournament bracket
+ */
+export interface BracketMatch {
+  matchId: string;
+  round: number;
+  player1Id: string;
+  player1Name: string;
+  player2Id: string | null; // null for a bye
+  player2Name: string | null;
+  gameId?: string;
+  result?: MatchResult;
+  winnerId?: string | null;
+}
+
+/**
+ * Rounds of a tournament
+ */
+export interface TournamentBracket {
+  tournamentId: string;
+  format: TournamentFormat;
+  status: TournamentStatus;
+  totalRounds?: number;
+  rounds: Array<{ number: number; matches: BracketMatch[] }>;
+  winnerId: string | null;
+}
+
+/**
+ * Row in a tournament standings table
+ */
+export interface TournamentStanding {
+  rank: number;
+  playerId: string;
+  name: string;
+  played: number;
+  wins: number;
+  draws: number;
+  losses: number;
+  byes: number;
+  points: number;
+  tiebreak: number;
+}
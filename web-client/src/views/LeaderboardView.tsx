@@ -3,7 +3,12 @@ import { useAuth } from '@clerk/clerk-react';
 import { GameClient } from '../api/gameClient';
 import { usePlayer } from '../context/PlayerContext';
 import { LeaderboardTable } from '../components/Leaderboard/LeaderboardTable';
-import type { LeaderboardEntry, PaginatedResult, GameType } from '../types/game';
+import type {
+  LeaderboardEntry,
+  LeaderboardSort,
+  PaginatedResult,
+  GameType,
+} from '../types/game';
 import styles from './LeaderboardView.module.css';
 
 /**
@@ -17,6 +22,7 @@ export function LeaderboardView() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [gameType, setGameType] = useState<string>('');
+  const [sort, setSort] = useState<LeaderboardSort>('winRate');
   const [gameTypes, setGameTypes] = useState<GameType[]>([]);
   const [page, setPage] = useState(1);
   const pageSize = 50;
@@ -41,7 +47,8 @@ export function LeaderboardView() {
       setError(null);
       const data = await gameClient.getLeaderboard(
         gameType || undefined,
-        { page, pageSize }
+        { page, pageSize },
+        sort
       );
       
       // Handle both array and paginated response formats defensively
@@ -84,13 +91,18 @@ export function LeaderboardView() {
 
   useEffect(() => {
     fetchLeaderboard();
-  }, [gameType, page]);
+  }, [gameType, page, sort]);
 
   const handleGameTypeChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
     setGameType(e.target.value);
     setPage(1); // Reset to first page when filter changes
   };
 
+  const handleSortChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    setSort(e.target.value as LeaderboardSort);
+    setPage(1);
+  };
+
   const handlePreviousPage = () => {
     if (page > 1) {
       setPage(page - 1);
@@ -107,6 +119,39 @@ export function LeaderboardView() {
     fetchLeaderboard();
   };
 
+  const filters = (
+    <div className={styles.filters}>
+      <label htmlFor="gameTypeFilter">
+        Filter by game type:
+        <select
+          id="gameTypeFilter"
+          value={gameType}
+          onChange={handleGameTypeChange}
+          className={styles.select}
+        >
+          <option value="">All Games</option>
+          {gameTypes.map((type) => (
+            <option key={type.type} value={type.type}>
+              {type.name}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label htmlFor="sortOrder">
+        Sort by:
+        <select
+          id="sortOrder"
+          value={sort}
+          onChange={handleSortChange}
+          className={styles.select}
+        >
+          <option value="winRate">Win Rate</option>
+          <option value="rating">Rating</option>
+        </select>
+      </label>
+    </div>
+  );
+
   if (loading) {
     return (
       <div className={styles.container}>
@@ -121,24 +166,7 @@ export function LeaderboardView() {
       <div className={styles.container}>
         <h1>Leaderboard</h1>
 
-        <div className={styles.filters}>
-          <label htmlFor="gameTypeFilter">
-            Filter by game type:
-            <select
-              id="gameTypeFilter"
-              value={gameType}
-              onChange={handleGameTypeChange}
-              className={styles.select}
-            >
-              <option value="">All Games</option>
-              {gameTypes.map((type) => (
-                <option key={type.type} value={type.type}>
-                  {type.name}
-                </option>
-              ))}
-            </select>
-          </label>
-        </div>
+        {filters}
 
         <div className={styles.error}>
           <p>Failed to load leaderboard: {error}</p>
@@ -156,24 +184,7 @@ export function LeaderboardView() {
     <div className={styles.container}>
       <h1>Leaderboard</h1>
 
-      <div className={styles.filters}>
-        <label htmlFor="gameTypeFilter">
-          Filter by game type:
-          <select
-            id="gameTypeFilter"
-            value={gameType}
-            onChange={handleGameTypeChange}
-            className={styles.select}
-          >
-            <option value="">All Games</option>
-            {gameTypes.map((type) => (
-              <option key={type.type} value={type.type}>
-                {type.name}
-              </option>
-            ))}
-          </select>
-        </label>
-      </div>
+      {filters}
 
       {isEmpty ? (
         <div className={styles.empty}>
@@ -6,6 +6,7 @@ import { GameDetail } from '../components/GameDetail/GameDetail';
 import { MoveInput } from '../components/MoveInput/MoveInput';
 import { Modal } from '../components/common';
 import { AIPlayerConfig } from '../components/GameCreation/AIPlayerConfig';
+import { GameSettingsForm } from '../components/GameCreation/GameSettingsForm';
 import { GameClient } from '../api/gameClient';
 import type { MoveInput as MoveInputType, GameState, AIPlayerConfig as AIPlayerConfigType, GameType } from '../types/game';
 import styles from './PlayerView.module.css';
@@ -47,6 +48,7 @@ export function PlayerView() {
   const [gameName, setGameName] = useState('');
   const [gameDescription, setGameDescription] = useState('');
   const [aiPlayers, setAIPlayers] = useState<AIPlayerConfigType[]>([]);
+  const [gameSettings, setGameSettings] = useState<Record<string, unknown>>({});
   const [availableGames, setAvailableGames] = useState<GameState[]>([]);
   const [myGames, setMyGames] = useState<GameState[]>([]);
   const [gameTypes, setGameTypes] = useState<GameType[]>([]);
@@ -261,11 +263,13 @@ export function PlayerView() {
         gameName: gameName.trim(),
         gameDescription: gameDescription.trim(),
         aiPlayers: aiPlayers.length > 0 ? aiPlayers : undefined,
+        customSettings: Object.keys(gameSettings).length > 0 ? gameSettings : undefined,
       });
       // Clear form after successful creation
       setGameName('');
       setGameDescription('');
       setAIPlayers([]);
+      setGameSettings({});
     }
   };
 
@@ -454,7 +458,10 @@ export function PlayerView() {
                 <select
                   id="game-type-select"
                   value={selectedGameType}
-                  onChange={(e) => setSelectedGameType(e.target.value)}
+                  onChange={(e) => {
+                    setSelectedGameType(e.target.value);
+                    setGameSettings({}); // Settings belong to the previous game type
+                  }}
                   disabled={loading || loadingGames}
                   className={styles.select}
                 >
@@ -495,6 +502,13 @@ export function PlayerView() {
                 />
               </div>
               
+              <GameSettingsForm
+                schema={gameTypes.find(t => t.type === selectedGameType)?.configSchema}
+                values={gameSettings}
+                onChange={setGameSettings}
+                disabled={loading}
+              />
+              
               {selectedGameType && (
                 <AIPlayerConfig
                   gameType={selectedGameType}
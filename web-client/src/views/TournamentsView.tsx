@@ -0,0 +1,163 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '@clerk/clerk-react';
+import { GameClient } from '../api/gameClient';
+import { usePlayer } from '../context/PlayerContext';
+import { TournamentBracket, TournamentStandings } from '../components/Tournaments';
+import type {
+  Tournament,
+  TournamentBracket as Bracket,
+  TournamentStanding,
+  TournamentFormat,
+  TournamentStatus,
+} from '../types/game';
+import styles from './TournamentsView.module.css';
+
+const FORMAT_LABELS: Record<TournamentFormat, string> = {
+  round_robin: 'Round robin',
+  swiss: 'Swiss',
+  knockout: 'Knockout',
+};
+
+const STATUS_LABELS: Record<TournamentStatus, string> = {
+  registration: 'Registration open',
+  in_progress: 'In progress',
+  completed: 'Completed',
+};
+
+/**
+ * Tournaments View - Browse tournaments and follow their brackets and standings
+ */
+export function TournamentsView() {
+  const { getToken } = useAuth();
+  const { playerId } = usePlayer();
+  const [tournaments, setTournaments] = useState<Tournament[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [bracket, setBracket] = useState<Bracket | null>(null);
+  const [standings, setStandings] = useState<TournamentStanding[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const gameClient = new GameClient('/api', getToken);
+
+  const fetchTournaments = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const data = await gameClient.getTournaments();
+      setTournaments(data);
+      if (data.length > 0) {
+        setSelectedId((current) => current ?? data[0].tournamentId);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load tournaments');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchTournamentDetails = async (tournamentId: string) => {
+    try {
+      const [bracketData, standingsData] = await Promise.all([
+        gameClient.getTournamentBracket(tournamentId),
+        gameClient.getTournamentStandings(tournamentId),
+      ]);
+      setBracket(bracketData);
+      setStandings(standingsData);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load tournament');
+    }
+  };
+
+  useEffect(() => {
+    fetchTournaments();
+  }, []);
+
+  useEffect(() => {
+    if (selectedId) {
+      fetchTournamentDetails(selectedId);
+    }
+  }, [selectedId]);
+
+  const selected = tournaments.find((t) => t.tournamentId === selectedId);
+  const winnerName = selected?.winnerId
+    ? selected.participants.find((p) => p.id === selected.winnerId)?.name
+    : undefined;
+
+  if (loading) {
+    return (
+      <div className={styles.container}>
+        <h1>Tournaments</h1>
+        <div className={styles.loading}>Loading tournaments...</div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className={styles.container}>
+        <h1>Tournaments</h1>
+        <div className={styles.error}>
+          <p>Failed to load tournaments: {error}</p>
+          <button onClick={fetchTournaments} className={styles.retryButton}>
+            Retry
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (tournaments.length === 0) {
+    return (
+      <div className={styles.container}>
+        <h1>Tournaments</h1>
+        <div className={styles.empty}>
+          <p>No tournaments yet.</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className={styles.container}>
+      <h1>Tournaments</h1>
+
+      <div className={styles.filters}>
+        <label htmlFor="tournamentSelect">
+          Tournament:
+          <select
+            id="tournamentSelect"
+            value={selectedId ?? ''}
+            onChange={(e) => setSelectedId(e.target.value)}
+            className={styles.select}
+          >
+            {tournaments.map((tournament) => (
+              <option key={tournament.tournamentId} value={tournament.tournamentId}>
+                {tournament.name}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {selected && (
+        <div className={styles.summary}>
+          <span>{selected.gameType}</span>
+          <span>{FORMAT_LABELS[selected.format]}</span>
+          <span>{STATUS_LABELS[selected.status]}</span>
+          <span>{selected.participants.length} players</span>
+          {winnerName && <span className={styles.winner}>Winner: {winnerName}</span>}
+        </div>
+      )}
+
+      {bracket && (
+        <>
+          <h2>Bracket</h2>
+          <TournamentBracket bracket={bracket} currentUserId={playerId || undefined} />
+        </>
+      )}
+
+      <h2>Standings</h2>
+      <TournamentStandings standings={standings} currentUserId={playerId || undefined} />
+    </div>
+  );
+}
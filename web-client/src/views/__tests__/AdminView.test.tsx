@@ -87,7 +87,7 @@ vi.mock('../../api/gameClient', () => ({
     getGame = mockGetGame;
     createGame = mockCreateGame;
     joinGame = mockJoinGame;
-    deleteGame = mockDeleteGame;
+    deleteGameAsAdmin = mockDeleteGame;
     getGameTypes = mockGetGameTypes;
   },
 }));
@@ -114,7 +114,7 @@ describe('LeaderboardView', () => {
       render(<LeaderboardView />);
 
       await waitFor(() => {
-        expect(mockGetLeaderboard).toHaveBeenCalledWith(undefined, { page: 1, pageSize: 50 });
+        expect(mockGetLeaderboard).toHaveBeenCalledWith(undefined, { page: 1, pageSize: 50 }, 'winRate');
       });
     });
 
@@ -189,7 +189,7 @@ describe('LeaderboardView', () => {
       });
 
       await waitFor(() => {
-        expect(mockGetLeaderboard).toHaveBeenCalledWith('tic-tac-toe', { page: 1, pageSize: 50 });
+        expect(mockGetLeaderboard).toHaveBeenCalledWith('tic-tac-toe', { page: 1, pageSize: 50 }, 'winRate');
       });
     });
 
@@ -251,7 +251,7 @@ describe('LeaderboardView', () => {
       });
 
       await waitFor(() => {
-        expect(mockGetLeaderboard).toHaveBeenLastCalledWith(undefined, { page: 1, pageSize: 50 });
+        expect(mockGetLeaderboard).toHaveBeenLastCalledWith(undefined, { page: 1, pageSize: 50 }, 'winRate');
       });
     });
 
@@ -279,7 +279,29 @@ describe('LeaderboardView', () => {
       });
 
       await waitFor(() => {
-        expect(mockGetLeaderboard).toHaveBeenCalledWith('tic-tac-toe', { page: 1, pageSize: 50 });
+        expect(mockGetLeaderboard).toHaveBeenCalledWith('tic-tac-toe', { page: 1, pageSize: 50 }, 'winRate');
+      });
+    });
+  });
+
+  describe('Sorting', () => {
+    it('should sort by win rate by default', async () => {
+      render(<LeaderboardView />);
+
+      await waitFor(() => {
+        expect(screen.getByLabelText(/sort by/i)).toHaveValue('winRate');
+      });
+    });
+
+    it('should fetch the leaderboard sorted by rating when selected', async () => {
+      render(<LeaderboardView />);
+
+      await waitFor(() => {
+        fireEvent.change(screen.getByLabelText(/sort by/i), { target: { value: 'rating' } });
+      });
+
+      await waitFor(() => {
+        expect(mockGetLeaderboard).toHaveBeenCalledWith(undefined, { page: 1, pageSize: 50 }, 'rating');
       });
     });
   });
@@ -364,7 +386,7 @@ describe('LeaderboardView', () => {
       });
 
       await waitFor(() => {
-        expect(mockGetLeaderboard).toHaveBeenCalledWith(undefined, { page: 2, pageSize: 50 });
+        expect(mockGetLeaderboard).toHaveBeenCalledWith(undefined, { page: 2, pageSize: 50 }, 'winRate');
       });
     });
 
@@ -401,7 +423,7 @@ describe('LeaderboardView', () => {
       });
 
       await waitFor(() => {
-        expect(mockGetLeaderboard).toHaveBeenCalledWith(undefined, { page: 1, pageSize: 50 });
+        expect(mockGetLeaderboard).toHaveBeenCalledWith(undefined, { page: 1, pageSize: 50 }, 'winRate');
       });
     });
 
@@ -519,7 +541,7 @@ describe('LeaderboardView', () => {
       });
 
       await waitFor(() => {
-        expect(mockGetLeaderboard).toHaveBeenCalledWith('tic-tac-toe', { page: 2, pageSize: 50 });
+        expect(mockGetLeaderboard).toHaveBeenCalledWith('tic-tac-toe', { page: 2, pageSize: 50 }, 'winRate');
       });
     });
   });
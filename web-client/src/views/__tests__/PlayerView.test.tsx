@@ -167,6 +167,41 @@ describe('PlayerView', () => {
       });
     });
 
+    it('should send settings from the game type schema when creating a game', async () => {
+      const user = userEvent.setup();
+      mockPlayerContext.getAvailableGameTypes.mockResolvedValueOnce([
+        {
+          type: 'connect-four',
+          name: 'Connect Four',
+          description: 'Drop discs',
+          minPlayers: 2,
+          maxPlayers: 2,
+          configSchema: {
+            type: 'object',
+            properties: {
+              popOut: { type: 'boolean', title: 'PopOut', default: false },
+            },
+          },
+        },
+      ]);
+
+      render(<PlayerView />);
+
+      const popOut = await screen.findByLabelText('PopOut');
+      await user.click(popOut);
+      await user.type(screen.getByLabelText(/game name/i), 'PopOut Game');
+      await user.click(screen.getByRole('button', { name: /create game/i }));
+
+      await waitFor(() => {
+        expect(mockPlayerContext.createGame).toHaveBeenCalledWith('connect-four', {
+          gameName: 'PopOut Game',
+          gameDescription: '',
+          aiPlayers: undefined,
+          customSettings: { popOut: true },
+        });
+      });
+    });
+
     it('should join game when join form is submitted', async () => {
       const user = userEvent.setup();
       
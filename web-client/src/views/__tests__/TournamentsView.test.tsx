@@ -0,0 +1,141 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { TournamentsView } from '../TournamentsView';
+
+// Mock the gameClient - create mocks outside the factory
+const mockGetTournaments = vi.fn();
+const mockGetTournamentBracket = vi.fn();
+const mockGetTournamentStandings = vi.fn();
+
+vi.mock('../../api/gameClient', () => {
+  return {
+    GameClient: class MockGameClient {
+      getTournaments = mockGetTournaments;
+      getTournamentBracket = mockGetTournamentBracket;
+      getTournamentStandings = mockGetTournamentStandings;
+    },
+  };
+});
+
+// Mock Clerk's useAuth
+vi.mock('@clerk/clerk-react', () => ({
+  useAuth: () => ({
+    getToken: vi.fn().mockResolvedValue('mock-token'),
+  }),
+}));
+
+// Mock PlayerContext
+vi.mock('../../context/PlayerContext', () => ({
+  usePlayer: () => ({ playerId: 'alice' }),
+}));
+
+describe('TournamentsView', () => {
+  const tournament = (tournamentId: string, name: string, winnerId: string | null = null) => ({
+    tournamentId,
+    name,
+    gameType: 'connect-four',
+    format: 'knockout',
+    status: winnerId ? 'completed' : 'in_progress',
+    createdBy: 'organiser',
+    participants: [
+      { id: 'alice', name: 'Alice', seed: 1 },
+      { id: 'bob', name: 'Bob', seed: 2 },
+    ],
+    totalRounds: 1,
+    winnerId,
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockGetTournaments.mockResolvedValue([
+      tournament('t1', 'Spring Cup'),
+      tournament('t2', 'Winter Cup', 'bob'),
+    ]);
+    mockGetTournamentBracket.mockImplementation(async (tournamentId: string) => ({
+      tournamentId,
+      format: 'knockout',
+      status: 'in_progress',
+      totalRounds: 1,
+      winnerId: null,
+      rounds: [
+        {
+          number: 1,
+          matches: [
+            {
+              matchId: `${tournamentId}-m1`,
+              round: 1,
+              player1Id: 'alice',
+              player1Name: 'Alice',
+              player2Id: 'bob',
+              player2Name: 'Bob',
+              gameId: 'g1',
+            },
+          ],
+        },
+      ],
+    }));
+    mockGetTournamentStandings.mockResolvedValue([
+      {
+        rank: 1,
+        playerId: 'alice',
+        name: 'Alice',
+        played: 0,
+        wins: 0,
+        draws: 0,
+        losses: 0,
+        byes: 0,
+        points: 0,
+        tiebreak: 0,
+      },
+    ]);
+  });
+
+  it('should show the bracket and standings of the newest tournament', async () => {
+    render(<TournamentsView />);
+
+    await waitFor(() => {
+      expect(mockGetTournamentBracket).toHaveBeenCalledWith('t1');
+    });
+    expect(mockGetTournamentStandings).toHaveBeenCalledWith('t1');
+    expect(await screen.findByRole('region', { name: 'Final' })).toBeInTheDocument();
+    expect(screen.getByText('(You)', { exact: false })).toBeInTheDocument();
+  });
+
+  it('should load another tournament when selected', async () => {
+    render(<TournamentsView />);
+
+    const select = await screen.findByLabelText(/Tournament:/);
+    fireEvent.change(select, { target: { value: 't2' } });
+
+    await waitFor(() => {
+      expect(mockGetTournamentBracket).toHaveBeenCalledWith('t2');
+    });
+    expect(screen.getByText('Winner: Bob')).toBeInTheDocument();
+  });
+
+  it('should show an empty state when there are no tournaments', async () => {
+    mockGetTournaments.mockResolvedValue([]);
+
+    render(<TournamentsView />);
+
+    expect(await screen.findByText('No tournaments yet.')).toBeInTheDocument();
+    expect(mockGetTournamentBracket).not.toHaveBeenCalled();
+  });
+
+  it('should show an error with a retry button', async () => {
+    mockGetTournaments.mockRejectedValueOnce(new Error('Network error'));
+
+    render(<TournamentsView />);
+
+    expect(
+      await screen.findByText('Failed to load tournaments: Network error')
+    ).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Retry' }));
+
+    expect(await screen.findByLabelText(/Tournament:/)).toBeInTheDocument();
+  });
+});
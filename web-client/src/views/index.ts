@@ -4,3 +4,4 @@ export { LobbyView } from './LobbyView';
 export { ProfileView } from './ProfileView';
 export { StatsView } from './StatsView';
 export { LeaderboardView } from './LeaderboardView';
+export { TournamentsView } from './TournamentsView';
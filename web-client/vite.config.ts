@@ -13,6 +13,15 @@ export default defineConfig({
       '@games/connect-four/shared': path.resolve(__dirname, '../games/connect-four/shared'),
       '@games/connect-four/engine': path.resolve(__dirname, '../games/connect-four/engine'),
       '@games/connect-four/ui': path.resolve(__dirname, '../games/connect-four/ui'),
+      '@games/othello/shared': path.resolve(__dirname, '../games/othello/shared'),
+      '@games/othello/engine': path.resolve(__dirname, '../games/othello/engine'),
+      '@games/othello/ui': path.resolve(__dirname, '../games/othello/ui'),
+      '@games/checkers/shared': path.resolve(__dirname, '../games/checkers/shared'),
+      '@games/checkers/engine': path.resolve(__dirname, '../games/checkers/engine'),
+      '@games/checkers/ui': path.resolve(__dirname, '../games/checkers/ui'),
+      '@games/dots-and-boxes/shared': path.resolve(__dirname, '../games/dots-and-boxes/shared'),
+      '@games/dots-and-boxes/engine': path.resolve(__dirname, '../games/dots-and-boxes/engine'),
+      '@games/dots-and-boxes/ui': path.resolve(__dirname, '../games/dots-and-boxes/ui'),
       '@games': path.resolve(__dirname, '../games'),
       // Ensure React is resolved from web-client's node_modules for game components
       'react': path.resolve(__dirname, './node_modules/react'),